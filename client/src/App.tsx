@@ -4,16 +4,20 @@ import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtimeUpdates } from "@/hooks/useRealtime";
+import { hasPermission, isStaffRole } from "@shared/permissions";
 import Landing from "@/pages/landing";
 import Dashboard from "@/pages/dashboard";
 import AdminDashboard from "@/pages/admin-dashboard";
 import ClientView from "@/pages/client-view";
 import NotFound from "@/pages/not-found";
 import InvitationPage from "@/pages/invitation-page";
+import ProposalPortalPage from "@/pages/proposal-portal";
 import { MyTasksPage } from "@/pages/my-tasks";
 
 function Router() {
   const { user, isAuthenticated, isLoading, authStatus } = useAuth();
+  useRealtimeUpdates(isAuthenticated);
 
   if (isLoading) {
     return <Landing />;
@@ -21,8 +25,9 @@ function Router() {
 
   return (
     <Switch>
-      {/* Public invitation route - accessible without auth */}
+      {/* Public tokenized routes - accessible without auth */}
       <Route path="/invite/:token" component={InvitationPage} />
+      <Route path="/proposal/:token" component={ProposalPortalPage} />
       
       {!isAuthenticated ? (
         <>
@@ -34,11 +39,14 @@ function Router() {
         <>
           <Route path="/client-view" component={ClientView} />
           <Route path="/my-tasks" component={MyTasksPage} />
-          {(user as any)?.role === 'admin' ? (
+          {hasPermission(user?.role, 'admin.access') ? (
             <>
               <Route path="/" component={AdminDashboard} />
               <Route path="/admin" component={AdminDashboard} />
             </>
+          ) : isStaffRole(user?.role) ? (
+            // Contributors work from their task list
+            <Route path="/" component={MyTasksPage} />
           ) : (
             <Route path="/" component={Dashboard} />
           )}
@@ -1,23 +1,180 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { Calendar, Check, ExternalLink, RefreshCw } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Calendar, Check, ExternalLink, Globe, RefreshCw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { getBrowserTimezone, getUserTimezone, setPreferredTimezone } from '@/utils/timeFormatting';
+
+// All IANA zones the browser knows about (always including the current choice)
+function getTimezoneOptions(current: string): string[] {
+  const zones = typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+  return zones.includes(current) ? zones : [current, ...zones];
+}
+
+interface CalendarProviderStatus {
+  id: string;
+  name: string;
+  configured: boolean;
+  connected: boolean;
+  accountName: string | null;
+}
+
+interface CalendarProvidersResponse {
+  preferred: string | null;
+  providers: CalendarProviderStatus[];
+}
 
 interface CalendarSettingsProps {
   user: any;
 }
 
+const PROVIDERS_KEY = ['/api/user/calendar-providers'];
+const EMPTY_CALDAV = { serverUrl: '', username: '', password: '', calendarUrl: '' };
+
 export function CalendarSettings({ user }: CalendarSettingsProps) {
-  const [isConnecting, setIsConnecting] = useState(false);
+  const [connectingId, setConnectingId] = useState<string | null>(null);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [timezone, setTimezone] = useState<string>(user?.timezone || getUserTimezone());
+  const [isSavingTimezone, setIsSavingTimezone] = useState(false);
+  const [showCalDavForm, setShowCalDavForm] = useState(false);
+  const [calDav, setCalDav] = useState(EMPTY_CALDAV);
   const { toast } = useToast();
 
-  const handleConnectGoogle = () => {
-    setIsConnecting(true);
-    // Full page navigation to OAuth route with returnTo parameter
-    window.location.assign(`${window.location.origin}/oauth/google/connect?returnTo=${encodeURIComponent('/my-tasks')}`);
+  const { data } = useQuery<CalendarProvidersResponse>({
+    queryKey: PROVIDERS_KEY,
+  });
+  const providers = data?.providers || [];
+  const connected = providers.filter(provider => provider.connected);
+  // Events go to the chosen provider, or the first connected one when none is chosen
+  const activeId = data?.preferred && connected.some(provider => provider.id === data.preferred)
+    ? data.preferred
+    : connected[0]?.id;
+  const active = providers.find(provider => provider.id === activeId);
+
+  const preferenceMutation = useMutation({
+    mutationFn: async (provider: string) => {
+      const response = await apiRequest('PUT', '/api/user/calendar-provider', { provider });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PROVIDERS_KEY });
+      toast({
+        title: "Calendar Updated",
+        description: "New and updated tasks will sync to this calendar.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Update Failed",
+        description: "Failed to change your calendar. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async (provider: CalendarProviderStatus) => {
+      await apiRequest('DELETE', `/api/user/calendar-providers/${provider.id}`);
+      return provider;
+    },
+    onSuccess: (provider) => {
+      queryClient.invalidateQueries({ queryKey: PROVIDERS_KEY });
+      toast({
+        title: "Calendar Disconnected",
+        description: `${provider.name} has been disconnected.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Disconnect Failed",
+        description: "Failed to disconnect the calendar. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const calDavMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/user/calendar-providers/caldav', {
+        serverUrl: calDav.serverUrl.trim(),
+        username: calDav.username.trim(),
+        password: calDav.password,
+        ...(calDav.calendarUrl.trim() ? { calendarUrl: calDav.calendarUrl.trim() } : {}),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: PROVIDERS_KEY });
+      setShowCalDavForm(false);
+      setCalDav(EMPTY_CALDAV);
+      toast({
+        title: "Calendar Connected",
+        description: "Your CalDAV calendar is connected.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Connection Failed",
+        description: "Could not connect to the CalDAV server. Check the address and your credentials.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleTimezoneChange = async (value: string) => {
+    const previous = timezone;
+    setTimezone(value);
+    setIsSavingTimezone(true);
+    try {
+      await apiRequest('PUT', '/api/user/timezone', { timezone: value });
+      setPreferredTimezone(value);
+      toast({
+        title: "Timezone Updated",
+        description: `Due dates and calendar events now use ${value.replace(/_/g, ' ')}.`,
+      });
+    } catch (error) {
+      setTimezone(previous);
+      toast({
+        title: "Update Failed",
+        description: "Failed to save your timezone. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSavingTimezone(false);
+    }
+  };
+
+  const handleConnect = async (provider: CalendarProviderStatus) => {
+    if (provider.id === 'caldav') {
+      setShowCalDavForm(true);
+      return;
+    }
+
+    setConnectingId(provider.id);
+    if (provider.id === 'google') {
+      // Full page navigation to OAuth route with returnTo parameter
+      window.location.assign(`${window.location.origin}/oauth/google/connect?returnTo=${encodeURIComponent('/my-tasks')}`);
+      return;
+    }
+
+    try {
+      const response = await apiRequest('GET', '/api/auth/microsoft/calendar');
+      const { authUrl } = await response.json();
+      window.location.assign(authUrl);
+    } catch (error) {
+      setConnectingId(null);
+      toast({
+        title: "Connection Failed",
+        description: `Could not start connecting ${provider.name}. Please try again.`,
+        variant: "destructive",
+      });
+    }
   };
 
   const handleManualSync = async () => {
@@ -32,7 +189,7 @@ export function CalendarSettings({ user }: CalendarSettingsProps) {
       if (response.ok) {
         toast({
           title: "Sync Complete",
-          description: "Your tasks have been synced with Google Calendar.",
+          description: `Your tasks have been synced with ${active?.name || 'your calendar'}.`,
         });
       } else {
         throw new Error('Sync failed');
@@ -40,7 +197,7 @@ export function CalendarSettings({ user }: CalendarSettingsProps) {
     } catch (error) {
       toast({
         title: "Sync Failed",
-        description: "Failed to sync with Google Calendar. Please try again.",
+        description: "Failed to sync with your calendar. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -48,108 +205,191 @@ export function CalendarSettings({ user }: CalendarSettingsProps) {
     }
   };
 
-  // Check if calendar is connected by checking for tokens
-  const [isConnected, setIsConnected] = useState(false);
-  
-  // Check connection status when component mounts
-  useEffect(() => {
-    const checkConnection = async () => {
-      try {
-        const response = await fetch('/api/calendar/status');
-        if (response.ok) {
-          const data = await response.json();
-          setIsConnected(data.connected);
-        }
-      } catch (error) {
-        console.log('Could not check calendar status:', error);
-      }
-    };
-    checkConnection();
-  }, []);
-
   return (
     <Card>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Calendar className="h-5 w-5" />
-          Google Calendar Integration
+          Calendar Integration
         </CardTitle>
         <CardDescription>
-          Sync your assigned tasks with Google Calendar for better scheduling.
+          Sync your assigned tasks with Google Calendar, Microsoft 365 / Outlook or any CalDAV calendar.
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
-        <div className="flex items-center justify-between">
-          <div className="flex items-center gap-2">
-            <span>Status:</span>
-            {isConnected ? (
-              <Badge variant="default" className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100">
-                <Check className="h-3 w-3 mr-1" />
-                Connected
-              </Badge>
-            ) : (
-              <Badge variant="secondary">
-                Not Connected
-              </Badge>
-            )}
-          </div>
+        <div className="space-y-3">
+          {providers.filter(provider => provider.configured).map(provider => (
+            <div key={provider.id} className="flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-medium">{provider.name}</span>
+                  {provider.connected ? (
+                    <Badge variant="default" className="bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-100">
+                      <Check className="h-3 w-3 mr-1" />
+                      Connected
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary">
+                      Not Connected
+                    </Badge>
+                  )}
+                </div>
+                {provider.accountName && (
+                  <p className="text-xs text-muted-foreground truncate">{provider.accountName}</p>
+                )}
+              </div>
+              {provider.connected ? (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => disconnectMutation.mutate(provider)}
+                  disabled={disconnectMutation.isPending}
+                >
+                  Disconnect
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  onClick={() => handleConnect(provider)}
+                  disabled={connectingId === provider.id}
+                >
+                  <ExternalLink className="h-4 w-4 mr-2" />
+                  {connectingId === provider.id ? 'Connecting...' : 'Connect'}
+                </Button>
+              )}
+            </div>
+          ))}
         </div>
 
-        {!isConnected ? (
-          <div className="space-y-3">
-            <p className="text-sm text-muted-foreground">
-              Connect your Google Calendar to automatically create calendar events for your assigned tasks.
-            </p>
-            <Button
-              onClick={() => window.location.href = `/oauth/google/connect?returnTo=${encodeURIComponent('/my-tasks')}`}
-              disabled={isConnecting}
-              className="w-full"
-            >
-              <ExternalLink className="h-4 w-4 mr-2" />
-              {isConnecting ? 'Connecting...' : 'Connect Google Calendar'}
-            </Button>
-          </div>
-        ) : (
-          <div className="space-y-3">
-            <p className="text-sm text-muted-foreground">
-              Your calendar is connected. Tasks will automatically sync when assigned or updated.
+        {showCalDavForm && (
+          <form
+            className="space-y-2 border-t pt-3"
+            onSubmit={(event) => {
+              event.preventDefault();
+              calDavMutation.mutate();
+            }}
+          >
+            <Label htmlFor="caldav-server">CalDAV server</Label>
+            <Input
+              id="caldav-server"
+              type="url"
+              placeholder="https://caldav.example.com/"
+              value={calDav.serverUrl}
+              onChange={(event) => setCalDav({ ...calDav, serverUrl: event.target.value })}
+              required
+            />
+            <Label htmlFor="caldav-username">Username</Label>
+            <Input
+              id="caldav-username"
+              autoComplete="username"
+              value={calDav.username}
+              onChange={(event) => setCalDav({ ...calDav, username: event.target.value })}
+              required
+            />
+            <Label htmlFor="caldav-password">Password</Label>
+            <Input
+              id="caldav-password"
+              type="password"
+              autoComplete="current-password"
+              value={calDav.password}
+              onChange={(event) => setCalDav({ ...calDav, password: event.target.value })}
+              required
+            />
+            <p className="text-xs text-muted-foreground">
+              Use an app-specific password for iCloud and Fastmail.
             </p>
+            <Label htmlFor="caldav-calendar">Calendar URL (optional)</Label>
+            <Input
+              id="caldav-calendar"
+              type="url"
+              placeholder="Defaults to your first calendar"
+              value={calDav.calendarUrl}
+              onChange={(event) => setCalDav({ ...calDav, calendarUrl: event.target.value })}
+            />
             <div className="flex gap-2">
-              <Button 
-                onClick={handleManualSync}
-                disabled={isSyncing}
-                variant="outline"
-                size="sm"
-              >
-                {isSyncing ? (
-                  <>
-                    <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                    Syncing...
-                  </>
-                ) : (
-                  <>
-                    <RefreshCw className="h-4 w-4 mr-2" />
-                    Manual Sync
-                  </>
-                )}
+              <Button type="submit" size="sm" disabled={calDavMutation.isPending}>
+                {calDavMutation.isPending ? 'Connecting...' : 'Connect CalDAV'}
               </Button>
-              <Button 
-                variant="outline" 
-                size="sm"
-                onClick={() => {
-                  // Disconnect logic would go here
-                  toast({
-                    title: "Calendar Disconnected",
-                    description: "Your Google Calendar has been disconnected.",
-                  });
-                }}
-              >
-                Disconnect
+              <Button type="button" variant="outline" size="sm" onClick={() => setShowCalDavForm(false)}>
+                Cancel
               </Button>
             </div>
+          </form>
+        )}
+
+        {connected.length === 0 ? (
+          <p className="text-sm text-muted-foreground border-t pt-3">
+            Connect a calendar to automatically create calendar events for your assigned tasks.
+          </p>
+        ) : (
+          <div className="space-y-3 border-t pt-3">
+            {connected.length > 1 && (
+              <div className="space-y-2">
+                <Label>Sync tasks to</Label>
+                <Select
+                  value={activeId}
+                  onValueChange={(value) => preferenceMutation.mutate(value)}
+                  disabled={preferenceMutation.isPending}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {connected.map(provider => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        {provider.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <p className="text-sm text-muted-foreground">
+              Tasks will automatically sync to {active?.name} when assigned or updated.
+            </p>
+            <Button
+              onClick={handleManualSync}
+              disabled={isSyncing}
+              variant="outline"
+              size="sm"
+            >
+              {isSyncing ? (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  Syncing...
+                </>
+              ) : (
+                <>
+                  <RefreshCw className="h-4 w-4 mr-2" />
+                  Manual Sync
+                </>
+              )}
+            </Button>
           </div>
         )}
 
+        <div className="space-y-2 border-t pt-3">
+          <Label className="flex items-center gap-2">
+            <Globe className="h-4 w-4" />
+            Timezone
+          </Label>
+          <Select value={timezone} onValueChange={handleTimezoneChange} disabled={isSavingTimezone}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="max-h-72">
+              {getTimezoneOptions(timezone).map(zone => (
+                <SelectItem key={zone} value={zone}>
+                  {zone.replace(/_/g, ' ')}{zone === getBrowserTimezone() ? ' (this device)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-muted-foreground">
+            Task due times, calendar events and email notifications are shown in this timezone.
+          </p>
+        </div>
+
         <div className="text-xs text-muted-foreground border-t pt-3">
           <p><strong>How it works:</strong></p>
           <ul className="list-disc list-inside space-y-1">
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   Dialog,
   DialogContent,
@@ -14,6 +14,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
 import { 
   CheckSquare, 
   Clock, 
@@ -32,13 +33,22 @@ import {
   UserPlus,
   Edit3,
   Trash2,
-  ExternalLink
+  ExternalLink,
+  ClipboardCheck,
+  Columns3,
+  List
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { TaskAssignmentManager } from "./task-assignment-manager";
 import { DeleteConfirmationDialog } from "./delete-confirmation-dialog";
 import { EditTaskModal } from "./edit-task-modal";
-import type { Project, Task } from "@shared/schema";
+import { RequestApprovalDialog } from "./request-approval-dialog";
+import { ProjectPresence } from "./project-presence";
+import { TaskDependencyGraph, BlockedBadge, useTaskGraph } from "./task-dependency-graph";
+import { TaskViewPicker, type TaskFilterValues } from "./task-view-picker";
+import { TaskBoard } from "./task-board";
+import { useToast } from "@/hooks/use-toast";
+import type { Project, Service, Task } from "@shared/schema";
 
 interface AgencyTasksModalProps {
   isOpen: boolean;
@@ -49,13 +59,15 @@ interface AgencyTasksModalProps {
 
 export function AgencyTasksModal({ isOpen, onClose, project, onCreateTask }: AgencyTasksModalProps) {
   const queryClient = useQueryClient();
-  const [filterStatus, setFilterStatus] = useState<string>("all");
-  const [filterPriority, setFilterPriority] = useState<string>("all");
-  const [filterRole, setFilterRole] = useState<string>("all");
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<TaskFilterValues>({});
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  const [layout, setLayout] = useState<"list" | "board">("list");
   const [editingTaskId, setEditingTaskId] = useState<string | null>(null);
   const [newAssignee, setNewAssignee] = useState("");
   const [deletingTask, setDeletingTask] = useState<{id: string, title: string} | null>(null);
   const [editingTask, setEditingTask] = useState<Task | null>(null);
+  const [approvalTask, setApprovalTask] = useState<Task | null>(null);
 
   // Delete task mutation
   const deleteTaskMutation = useMutation({
@@ -98,14 +110,45 @@ export function AgencyTasksModal({ isOpen, onClose, project, onCreateTask }: Age
     }
   });
 
-  const { data: tasks, isLoading } = useQuery({
-    queryKey: ["/api/projects", project?.id, "tasks"],
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+    enabled: isOpen,
+  });
+
+  // Filtering, sorting and paging happen on the server
+  const queryParams = new URLSearchParams({ projectId: project?.id || "" });
+  for (const [name, value] of Object.entries(filters)) {
+    if (value === undefined || value === "" || (Array.isArray(value) && value.length === 0)) continue;
+    queryParams.set(name, Array.isArray(value) ? value.join(",") : String(value));
+  }
+  const queryString = queryParams.toString();
+
+  const {
+    data: taskPages,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/admin/tasks", "query", queryString],
     enabled: !!project?.id && isOpen,
-    queryFn: async () => {
-      const response = await apiRequest("GET", `/api/projects/${project?.id}/tasks`);
-      return response.json();
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }) => {
+      const cursor = pageParam ? `&cursor=${encodeURIComponent(pageParam)}` : "";
+      const response = await apiRequest("GET", `/api/admin/tasks/query?${queryString}${cursor}`);
+      return response.json() as Promise<{ tasks: any[]; nextCursor: string | null }>;
     },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
+  const tasks = taskPages?.pages.flatMap(page => page.tasks);
+
+  // Changing a filter by hand leaves the saved view
+  const setFilter = <K extends keyof TaskFilterValues>(name: K, value: TaskFilterValues[K]) => {
+    setFilters(current => ({ ...current, [name]: value }));
+    setActiveViewId(null);
+  };
+  const single = (values?: string[]) => values?.[0] || "all";
+  const asList = (value: string) => (value === "all" ? undefined : [value]);
 
   const updateTaskMutation = useMutation({
     mutationFn: async ({ taskId, updates }: { taskId: string; updates: any }) => {
@@ -114,19 +157,26 @@ export function AgencyTasksModal({ isOpen, onClose, project, onCreateTask }: Age
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/projects", project?.id, "tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/projects", project?.id, "task-graph"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/tasks"] });
     },
+    onError: (error: Error) => {
+      // 409 means the task still has incomplete upstream dependencies
+      toast({
+        title: error.message.startsWith("409") ? "Task is blocked" : "Error",
+        description: error.message.startsWith("409")
+          ? "Complete the tasks it depends on first."
+          : "Failed to update task",
+        variant: "destructive",
+      });
+    },
   });
 
+  const { data: taskGraph } = useTaskGraph(project?.id, isOpen);
+
   if (!project) return null;
 
-  // Filter tasks based on selected filters
-  const filteredTasks = tasks?.filter((task: any) => {
-    const statusMatch = filterStatus === "all" || task.status === filterStatus;
-    const priorityMatch = filterPriority === "all" || task.priority === filterPriority;
-    const roleMatch = filterRole === "all" || task.assigneeRole === filterRole;
-    return statusMatch && priorityMatch && roleMatch;
-  }) || [];
+  const filteredTasks = tasks || [];
 
   // Group tasks by workflow phase for Faces of Kelowna projects
   const isFacesProject = project.name.includes("Faces of Kelowna");
@@ -203,6 +253,7 @@ export function AgencyTasksModal({ isOpen, onClose, project, onCreateTask }: Age
                 {task.priority === "urgent" && (
                   <Badge variant="destructive" className="text-xs bg-red-600">URGENT</Badge>
                 )}
+                <BlockedBadge node={taskGraph?.nodes.find(node => node.id === task.id)} graph={taskGraph} />
                 
                 {/* Team Member Assignment Icons */}
                 {assignments.length > 0 && (
@@ -404,6 +455,17 @@ export function AgencyTasksModal({ isOpen, onClose, project, onCreateTask }: Age
                   <UserPlus className="h-3 w-3 mr-1" />
                   Assign
                 </Button>
+                {task.status !== 'needs_approval' && task.status !== 'completed' && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setApprovalTask(task)}
+                    className="h-7 text-xs"
+                  >
+                    <ClipboardCheck className="h-3 w-3 mr-1" />
+                    Request Approval
+                  </Button>
+                )}
                 <Button
                   size="sm"
                   variant="outline"
@@ -453,6 +515,7 @@ export function AgencyTasksModal({ isOpen, onClose, project, onCreateTask }: Age
               <CheckSquare className="h-5 w-5" />
               Agency Tasks: {project.name}
             </DialogTitle>
+            <ProjectPresence projectId={project.id} />
             <DialogDescription>
               Manage internal team workflows, assign tasks to specific team members, and track project progress.
             </DialogDescription>
@@ -524,109 +587,259 @@ export function AgencyTasksModal({ isOpen, onClose, project, onCreateTask }: Age
               </div>
             </div>
 
-            {/* Filters */}
-            <div className="flex gap-4 items-center flex-wrap">
-              <div className="flex items-center gap-2">
-                <label className="text-sm font-medium">Status:</label>
-                <Select value={filterStatus} onValueChange={setFilterStatus}>
-                  <SelectTrigger className="w-32">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Status</SelectItem>
-                    <SelectItem value="in_progress">In Progress</SelectItem>
-                    <SelectItem value="completed">Completed</SelectItem>
-                    <SelectItem value="needs_approval">Needs Approval</SelectItem>
-                    <SelectItem value="outstanding">Outstanding</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="flex items-center gap-2">
-                <label className="text-sm font-medium">Priority:</label>
-                <Select value={filterPriority} onValueChange={setFilterPriority}>
-                  <SelectTrigger className="w-32">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Priority</SelectItem>
-                    <SelectItem value="urgent">Urgent</SelectItem>
-                    <SelectItem value="high">High</SelectItem>
-                    <SelectItem value="medium">Medium</SelectItem>
-                    <SelectItem value="low">Low</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-              <div className="flex items-center gap-2">
-                <label className="text-sm font-medium">Role:</label>
-                <Select value={filterRole} onValueChange={setFilterRole}>
-                  <SelectTrigger className="w-40">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="all">All Roles</SelectItem>
-                    <SelectItem value="project_manager">Project Manager</SelectItem>
-                    <SelectItem value="content_writer">Content Writer</SelectItem>
-                    <SelectItem value="photographer">Photographer</SelectItem>
-                    <SelectItem value="designer">Designer</SelectItem>
-                  </SelectContent>
-                </Select>
+            <div className="flex justify-end">
+              <div className="flex border rounded-lg">
+                <Button
+                  variant={layout === "board" ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setLayout("board")}
+                  className="rounded-r-none"
+                  title="Board"
+                >
+                  <Columns3 className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant={layout === "list" ? "default" : "ghost"}
+                  size="sm"
+                  onClick={() => setLayout("list")}
+                  className="rounded-l-none"
+                  title="List"
+                >
+                  <List className="h-4 w-4" />
+                </Button>
               </div>
             </div>
 
-            {isLoading ? (
-              <div className="text-center py-8">Loading tasks...</div>
-            ) : isFacesProject ? (
-              /* Faces of Kelowna Workflow View */
-              <Tabs defaultValue="workflow" className="w-full">
-                <TabsList>
-                  <TabsTrigger value="workflow">Workflow Phases</TabsTrigger>
-                  <TabsTrigger value="all">All Tasks</TabsTrigger>
-                </TabsList>
-                
-                <TabsContent value="workflow" className="space-y-6">
-                  {Object.entries(groupedTasks).map(([phase, phaseTasks]) => (
-                    phaseTasks.length > 0 && (
-                      <Card key={phase}>
-                        <CardHeader>
-                          <CardTitle className="capitalize flex items-center gap-2">
-                            {phase === "contract" && <BarChart3 className="h-5 w-5" />}
-                            {phase === "content" && <PenTool className="h-5 w-5" />}
-                            {phase === "photography" && <Camera className="h-5 w-5" />}
-                            {phase === "production" && <Palette className="h-5 w-5" />}
-                            {phase === "distribution" && <Target className="h-5 w-5" />}
-                            {phase === "ongoing" && <Clock className="h-5 w-5" />}
-                            {phase.replace("_", " ")} Phase ({phaseTasks.length} tasks)
-                          </CardTitle>
-                        </CardHeader>
-                        <CardContent>
-                          {phaseTasks.map((task: any) => (
-                            <TaskCard key={task.id} task={task} />
+            {layout === "board" ? (
+              <TaskBoard projectId={project.id} />
+            ) : (
+              <>
+                {/* Filters */}
+                <div className="space-y-3">
+                  <div className="flex gap-4 items-center flex-wrap">
+                    <div className="flex items-center gap-2">
+                      <label className="text-sm font-medium">Status:</label>
+                      <Select value={single(filters.status)} onValueChange={(value) => setFilter("status", asList(value))}>
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All Status</SelectItem>
+                          <SelectItem value="in_progress">In Progress</SelectItem>
+                          <SelectItem value="completed">Completed</SelectItem>
+                          <SelectItem value="needs_approval">Needs Approval</SelectItem>
+                          <SelectItem value="outstanding">Outstanding</SelectItem>
+                          <SelectItem value="needs_clarification">Needs Clarification</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-sm font-medium">Priority:</label>
+                      <Select value={single(filters.priority)} onValueChange={(value) => setFilter("priority", asList(value))}>
+                        <SelectTrigger className="w-32">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All Priority</SelectItem>
+                          <SelectItem value="urgent">Urgent</SelectItem>
+                          <SelectItem value="high">High</SelectItem>
+                          <SelectItem value="medium">Medium</SelectItem>
+                          <SelectItem value="low">Low</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-sm font-medium">Role:</label>
+                      <Select value={single(filters.assigneeRole)} onValueChange={(value) => setFilter("assigneeRole", asList(value))}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All Roles</SelectItem>
+                          <SelectItem value="project_manager">Project Manager</SelectItem>
+                          <SelectItem value="content_writer">Content Writer</SelectItem>
+                          <SelectItem value="photographer">Photographer</SelectItem>
+                          <SelectItem value="designer">Designer</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-sm font-medium">Assignee:</label>
+                      <Select value={single(filters.assigneeId)} onValueChange={(value) => setFilter("assigneeId", asList(value))}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">Anyone</SelectItem>
+                          <SelectItem value="unassigned">Unassigned</SelectItem>
+                          {(teamMembers || []).map((member: any) => (
+                            <SelectItem key={member.id} value={member.id}>{member.name}</SelectItem>
                           ))}
-                        </CardContent>
-                      </Card>
-                    )
-                  ))}
-                </TabsContent>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-sm font-medium">Service:</label>
+                      <Select value={filters.serviceId || "all"} onValueChange={(value) => setFilter("serviceId", value === "all" ? undefined : value)}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All Services</SelectItem>
+                          {services.map(service => (
+                            <SelectItem key={service.id} value={service.id}>{service.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="flex gap-4 items-center flex-wrap">
+                    <div className="flex items-center gap-2">
+                      <label className="text-sm font-medium">Due:</label>
+                      <Input
+                        type="date"
+                        className="w-36"
+                        value={filters.dueFrom ? new Date(filters.dueFrom).toLocaleDateString("en-CA") : ""}
+                        onChange={(e) => setFilter("dueFrom", e.target.value ? new Date(`${e.target.value}T00:00:00`).toISOString() : undefined)}
+                      />
+                      <span className="text-sm text-gray-500">to</span>
+                      <Input
+                        type="date"
+                        className="w-36"
+                        value={filters.dueTo ? new Date(filters.dueTo).toLocaleDateString("en-CA") : ""}
+                        onChange={(e) => setFilter("dueTo", e.target.value ? new Date(`${e.target.value}T23:59:59.999`).toISOString() : undefined)}
+                      />
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Checkbox
+                        id="filter-overdue"
+                        checked={filters.overdue === true}
+                        onCheckedChange={(checked) => setFilter("overdue", checked === true ? true : undefined)}
+                      />
+                      <Label htmlFor="filter-overdue" className="text-sm font-medium">Overdue only</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-sm font-medium">Client:</label>
+                      <Select
+                        value={filters.clientVisible === undefined ? "all" : String(filters.clientVisible)}
+                        onValueChange={(value) => setFilter("clientVisible", value === "all" ? undefined : value === "true")}
+                      >
+                        <SelectTrigger className="w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="all">All Tasks</SelectItem>
+                          <SelectItem value="true">Client visible</SelectItem>
+                          <SelectItem value="false">Internal only</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <label className="text-sm font-medium">Sort:</label>
+                      <Select
+                        value={`${filters.sortBy || "created"}:${filters.sortDir || "desc"}`}
+                        onValueChange={(value) => {
+                          const [sortBy, sortDir] = value.split(":") as [TaskFilterValues["sortBy"], TaskFilterValues["sortDir"]];
+                          setFilters(current => ({ ...current, sortBy, sortDir }));
+                          setActiveViewId(null);
+                        }}
+                      >
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="created:desc">Newest first</SelectItem>
+                          <SelectItem value="created:asc">Oldest first</SelectItem>
+                          <SelectItem value="updated:desc">Recently updated</SelectItem>
+                          <SelectItem value="due:asc">Due soonest</SelectItem>
+                          <SelectItem value="due:desc">Due latest</SelectItem>
+                          <SelectItem value="priority:desc">Highest priority</SelectItem>
+                          <SelectItem value="title:asc">Title A-Z</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="ml-auto">
+                      <TaskViewPicker
+                        filters={filters}
+                        activeViewId={activeViewId}
+                        onApply={(view) => {
+                          setFilters(view?.filters || {});
+                          setActiveViewId(view?.id || null);
+                        }}
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                {taskGraph && taskGraph.edges.length > 0 && (
+                  <TaskDependencyGraph projectId={project.id} />
+                )}
+
+                {isLoading ? (
+                  <div className="text-center py-8">Loading tasks...</div>
+                ) : isFacesProject ? (
+                  /* Faces of Kelowna Workflow View */
+                  <Tabs defaultValue="workflow" className="w-full">
+                    <TabsList>
+                      <TabsTrigger value="workflow">Workflow Phases</TabsTrigger>
+                      <TabsTrigger value="all">All Tasks</TabsTrigger>
+                    </TabsList>
                 
-                <TabsContent value="all">
-                  {filteredTasks.map((task: any) => (
-                    <TaskCard key={task.id} task={task} />
-                  ))}
-                </TabsContent>
-              </Tabs>
-            ) : (
-              /* Standard Task View for Other Projects */
-              <div className="space-y-3">
-                {filteredTasks.map((task: any) => (
-                  <TaskCard key={task.id} task={task} />
-                ))}
-              </div>
-            )}
+                    <TabsContent value="workflow" className="space-y-6">
+                      {Object.entries(groupedTasks).map(([phase, phaseTasks]) => (
+                        phaseTasks.length > 0 && (
+                          <Card key={phase}>
+                            <CardHeader>
+                              <CardTitle className="capitalize flex items-center gap-2">
+                                {phase === "contract" && <BarChart3 className="h-5 w-5" />}
+                                {phase === "content" && <PenTool className="h-5 w-5" />}
+                                {phase === "photography" && <Camera className="h-5 w-5" />}
+                                {phase === "production" && <Palette className="h-5 w-5" />}
+                                {phase === "distribution" && <Target className="h-5 w-5" />}
+                                {phase === "ongoing" && <Clock className="h-5 w-5" />}
+                                {phase.replace("_", " ")} Phase ({phaseTasks.length} tasks)
+                              </CardTitle>
+                            </CardHeader>
+                            <CardContent>
+                              {phaseTasks.map((task: any) => (
+                                <TaskCard key={task.id} task={task} />
+                              ))}
+                            </CardContent>
+                          </Card>
+                        )
+                      ))}
+                    </TabsContent>
+                
+                    <TabsContent value="all">
+                      {filteredTasks.map((task: any) => (
+                        <TaskCard key={task.id} task={task} />
+                      ))}
+                    </TabsContent>
+                  </Tabs>
+                ) : (
+                  /* Standard Task View for Other Projects */
+                  <div className="space-y-3">
+                    {filteredTasks.map((task: any) => (
+                      <TaskCard key={task.id} task={task} />
+                    ))}
+                  </div>
+                )}
 
-            {filteredTasks.length === 0 && !isLoading && (
-              <div className="text-center py-8 text-gray-500">
-                No tasks found with the selected filters.
-              </div>
+                {filteredTasks.length === 0 && !isLoading && (
+                  <div className="text-center py-8 text-gray-500">
+                    No tasks found with the selected filters.
+                  </div>
+                )}
+
+                {hasNextPage && (
+                  <div className="text-center">
+                    <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                      {isFetchingNextPage ? "Loading..." : "Load more tasks"}
+                    </Button>
+                  </div>
+                )}
+              </>
             )}
           </div>
         </DialogContent>
@@ -647,6 +860,15 @@ export function AgencyTasksModal({ isOpen, onClose, project, onCreateTask }: Age
         isLoading={deleteTaskMutation.isPending}
       />
 
+      <RequestApprovalDialog
+        subject={approvalTask ? { type: "task", id: approvalTask.id, title: approvalTask.title } : null}
+        onClose={() => setApprovalTask(null)}
+        onRequested={() => {
+          queryClient.invalidateQueries({ queryKey: ["/api/projects", project?.id, "tasks"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/admin/tasks"] });
+        }}
+      />
+
       <EditTaskModal
         isOpen={!!editingTask}
         onClose={() => setEditingTask(null)}
@@ -0,0 +1,230 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { CheckCircle, ClipboardCheck, FileText, MessageSquare, XCircle } from "lucide-react";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { ApprovalRequest } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+
+type ApprovalDecision = "approved" | "rejected" | "changes_requested";
+
+type ApprovalRequestView = ApprovalRequest & {
+  subjectTitle: string | null;
+  fileVersionNumber: number | null;
+  fileIsLatestVersion: boolean | null;
+  projectName: string | null;
+  requestedByName: string | null;
+  requestedFromName: string | null;
+  decidedByName: string | null;
+};
+
+const STATUS_BADGES: Record<string, { label: string; className: string }> = {
+  pending: { label: "Awaiting decision", className: "bg-yellow-100 text-yellow-800" },
+  approved: { label: "Approved", className: "bg-green-100 text-green-800" },
+  rejected: { label: "Rejected", className: "bg-red-100 text-red-800" },
+  changes_requested: { label: "Changes requested", className: "bg-orange-100 text-orange-800" },
+  cancelled: { label: "Withdrawn", className: "bg-gray-100 text-gray-600" },
+};
+
+const DECISION_ACTIONS: Record<ApprovalDecision, string> = {
+  approved: "Approve",
+  changes_requested: "Request changes",
+  rejected: "Reject",
+};
+
+const formatDate = (value: string | Date | null) => (value ? new Date(value).toLocaleString() : "");
+
+export default function ApprovalsSection() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const isAdmin = hasPermission(user?.role, "approvals.request");
+  const [deciding, setDeciding] = useState<{ request: ApprovalRequestView; decision: ApprovalDecision } | null>(null);
+  const [comment, setComment] = useState("");
+
+  const { data: requests = [], isLoading } = useQuery<ApprovalRequestView[]>({
+    queryKey: ["/api/approvals"],
+  });
+
+  const pending = requests.filter(request => request.status === "pending");
+  const history = requests.filter(request => request.status !== "pending");
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/approvals"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+  };
+
+  const decideMutation = useMutation({
+    mutationFn: async ({ id, decision, comment }: { id: string; decision: ApprovalDecision; comment: string }) => {
+      const response = await apiRequest("POST", `/api/approvals/${id}/decision`, { decision, comment: comment || undefined });
+      return response.json();
+    },
+    onSuccess: (_, { decision }) => {
+      invalidate();
+      setDeciding(null);
+      setComment("");
+      toast({
+        title: "Decision recorded",
+        description: decision === "approved" ? "Thanks! The team has been notified." : "The team has been notified and will follow up.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not record decision", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/admin/approvals/${id}/cancel`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Approval request withdrawn" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not withdraw request", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const startDecision = (request: ApprovalRequestView, decision: ApprovalDecision) => {
+    setComment("");
+    setDeciding({ request, decision });
+  };
+
+  const commentRequired = deciding?.decision !== "approved";
+
+  const subjectLine = (request: ApprovalRequestView) => (
+    <div className="flex items-center gap-2">
+      {request.subjectType === "file" ? <FileText className="h-4 w-4 text-gray-400" /> : <ClipboardCheck className="h-4 w-4 text-gray-400" />}
+      <span className="font-medium text-gray-900">{request.subjectTitle || "Untitled"}</span>
+      {request.fileVersionNumber && <Badge variant="outline">v{request.fileVersionNumber}</Badge>}
+      {request.status === "pending" && request.fileIsLatestVersion === false && (
+        <span className="text-xs text-orange-600">A newer version has been uploaded</span>
+      )}
+      {request.projectName && <span className="text-sm text-gray-500">· {request.projectName}</span>}
+    </div>
+  );
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-gray-500">Loading approvals...</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5" />
+            Awaiting Approval
+            {pending.length > 0 && <Badge variant="secondary">{pending.length}</Badge>}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {pending.length === 0 && (
+            <p className="text-sm text-gray-500">Nothing is waiting for a decision right now.</p>
+          )}
+          {pending.map(request => (
+            <div key={request.id} className="rounded-lg border p-4 space-y-3">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                {subjectLine(request)}
+                <span className="text-xs text-gray-500">
+                  Requested by {request.requestedByName || "the team"} on {formatDate(request.createdAt)}
+                </span>
+              </div>
+              {request.message && (
+                <p className="text-sm text-gray-700 bg-gray-50 rounded p-3 whitespace-pre-wrap">{request.message}</p>
+              )}
+              {isAdmin ? (
+                <div className="flex items-center justify-between">
+                  <span className="text-sm text-gray-500">Waiting on {request.requestedFromName || "the client"}</span>
+                  <Button variant="outline" size="sm" onClick={() => cancelMutation.mutate(request.id)} disabled={cancelMutation.isPending}>
+                    Withdraw
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => startDecision(request, "approved")}>
+                    <CheckCircle className="h-4 w-4 mr-1" />
+                    Approve
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => startDecision(request, "changes_requested")}>
+                    <MessageSquare className="h-4 w-4 mr-1" />
+                    Request changes
+                  </Button>
+                  <Button size="sm" variant="outline" className="text-red-600" onClick={() => startDecision(request, "rejected")}>
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Reject
+                  </Button>
+                </div>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      {history.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Decision History</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {history.map(request => {
+              const badge = STATUS_BADGES[request.status] || STATUS_BADGES.pending;
+              return (
+                <div key={request.id} className="py-3 space-y-1">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    {subjectLine(request)}
+                    <Badge className={badge.className}>{badge.label}</Badge>
+                  </div>
+                  {request.decidedAt && (
+                    <p className="text-xs text-gray-500">
+                      {request.decidedByName || "Client"} · {formatDate(request.decidedAt)}
+                    </p>
+                  )}
+                  {request.decisionComment && (
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap">"{request.decisionComment}"</p>
+                  )}
+                </div>
+              );
+            })}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!deciding} onOpenChange={(open) => !open && setDeciding(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{deciding ? DECISION_ACTIONS[deciding.decision] : ""}: {deciding?.request.subjectTitle}</DialogTitle>
+            <DialogDescription>
+              {commentRequired
+                ? "Let the team know what needs to change."
+                : "Add an optional note for the team."}
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={commentRequired ? "What should be different?" : "Looks great!"}
+            rows={4}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeciding(null)}>Cancel</Button>
+            <Button
+              onClick={() => deciding && decideMutation.mutate({ id: deciding.request.id, decision: deciding.decision, comment: comment.trim() })}
+              disabled={decideMutation.isPending || (commentRequired && !comment.trim())}
+            >
+              {deciding ? DECISION_ACTIONS[deciding.decision] : "Submit"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Hourglass } from "lucide-react";
+import { formatCurrency } from "@/utils/currency";
+
+interface AgingAmounts {
+  current: number;
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  days90plus: number;
+  total: number;
+}
+
+interface ArAgingRow extends AgingAmounts {
+  organizationId: string | null;
+  organizationName: string;
+}
+
+interface ArAging {
+  asOf: string;
+  rows: ArAgingRow[];
+  totals: AgingAmounts;
+}
+
+const BUCKETS: { key: keyof AgingAmounts; label: string }[] = [
+  { key: "current", label: "Current" },
+  { key: "days1to30", label: "1–30" },
+  { key: "days31to60", label: "31–60" },
+  { key: "days61to90", label: "61–90" },
+  { key: "days90plus", label: "90+" },
+  { key: "total", label: "Total" },
+];
+
+// Outstanding receivables by organization, bucketed by days past due
+export function ArAgingReport() {
+  const { data: report, isLoading } = useQuery<ArAging>({
+    queryKey: ["/api/admin/reports/ar-aging"],
+  });
+
+  const cell = (value: number) => (value > 0 ? formatCurrency(value) : "—");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Hourglass className="h-5 w-5 text-orange-500" />
+          Accounts Receivable Aging
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !report ? (
+          <div className="animate-pulse text-gray-500">Loading report...</div>
+        ) : report.rows.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing outstanding</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-gray-600">
+                  <th className="py-2 pr-4 text-left font-medium">Organization</th>
+                  {BUCKETS.map(bucket => (
+                    <th key={bucket.key} className="px-2 py-2 text-right font-medium">{bucket.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map(row => (
+                  <tr key={row.organizationId || "none"} className="border-b border-gray-100">
+                    <td className="py-2 pr-4">{row.organizationName}</td>
+                    {BUCKETS.map(bucket => (
+                      <td
+                        key={bucket.key}
+                        className={`px-2 py-2 text-right ${bucket.key === "days90plus" && row.days90plus > 0 ? "text-red-600" : ""}`}
+                      >
+                        {cell(row[bucket.key])}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-semibold text-gray-900">
+                  <td className="py-2 pr-4">Total</td>
+                  {BUCKETS.map(bucket => (
+                    <td key={bucket.key} className="px-2 py-2 text-right">{cell(report.totals[bucket.key])}</td>
+                  ))}
+                </tr>
+              </tfoot>
+            </table>
+            <p className="mt-2 text-xs text-gray-500">Days past due as of {new Date(report.asOf).toLocaleDateString()}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,150 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { CalendarPlus, Copy, RefreshCw, Rss, Trash2 } from "lucide-react";
+import type { IcalFeed } from "@shared/schema";
+
+type FeedWithUrl = IcalFeed & { feedUrl: string };
+type FeedScope = "team_member" | "project" | "organization";
+
+const COMPONENT_LABELS: Record<string, string> = {
+  VEVENT: "Events",
+  VTODO: "To-dos",
+};
+
+interface CalendarFeedsProps {
+  scope: FeedScope;
+  scopeId: string;
+  isAdmin?: boolean;
+}
+
+// Secret-token ICS subscription URLs for a team member's, project's or organization's dated tasks
+export function CalendarFeeds({ scope, scopeId, isAdmin = false }: CalendarFeedsProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [component, setComponent] = useState("VEVENT");
+  const [clientVisibleOnly, setClientVisibleOnly] = useState(false);
+  const feedsKey = [`/api/ical-feeds?scope=${scope}&scopeId=${scopeId}`];
+
+  const { data: feeds = [] } = useQuery<FeedWithUrl[]>({
+    queryKey: feedsKey,
+    enabled: !!scopeId,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: feedsKey });
+  };
+
+  const copy = async (url: string) => {
+    await navigator.clipboard.writeText(url);
+    toast({ title: "Feed URL copied", description: "Paste it into your calendar app as a subscription." });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/ical-feeds", { scope, scopeId, component, clientVisibleOnly });
+      return response.json() as Promise<FeedWithUrl>;
+    },
+    onSuccess: (feed) => {
+      invalidate();
+      navigator.clipboard?.writeText(feed.feedUrl).catch(() => undefined);
+      toast({ title: "Calendar feed created", description: "The feed URL was copied to your clipboard." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create feed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async (feedId: string) => {
+      await apiRequest("POST", `/api/ical-feeds/${feedId}/regenerate`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Feed URL regenerated", description: "The old URL no longer works; re-subscribe with the new one." });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (feedId: string) => {
+      await apiRequest("DELETE", `/api/ical-feeds/${feedId}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Calendar feed revoked" });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <h4 className="font-medium flex items-center gap-2">
+        <Rss className="h-4 w-4" />
+        Calendar Subscription
+      </h4>
+      <p className="text-sm text-muted-foreground">
+        Subscribe from any calendar app without connecting an account. Anyone with the URL can see these tasks, so keep it private.
+      </p>
+
+      {feeds.map(feed => (
+        <div key={feed.id} className="space-y-2 rounded border bg-white p-2 text-sm">
+          <div className="flex items-center gap-2">
+            <Input value={feed.feedUrl} readOnly className="h-8 font-mono text-xs" onFocus={(e) => e.target.select()} />
+            <Button variant="outline" size="sm" onClick={() => copy(feed.feedUrl)}>
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="flex items-center gap-2 text-xs text-gray-500">
+              <Badge variant="secondary">{COMPONENT_LABELS[feed.component] || feed.component}</Badge>
+              {feed.clientVisibleOnly && <Badge variant="outline">Client-visible only</Badge>}
+              {feed.lastAccessedAt ? `Last fetched ${new Date(feed.lastAccessedAt).toLocaleString()}` : "Not fetched yet"}
+            </div>
+            <div className="flex gap-1">
+              <Button variant="ghost" size="sm" asChild>
+                <a href={feed.feedUrl.replace(/^https?:/, "webcal:")}>
+                  <CalendarPlus className="h-4 w-4 mr-1" />
+                  Subscribe
+                </a>
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => regenerateMutation.mutate(feed.id)} disabled={regenerateMutation.isPending}>
+                <RefreshCw className="h-4 w-4 mr-1" />
+                New URL
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => revokeMutation.mutate(feed.id)} disabled={revokeMutation.isPending}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Revoke
+              </Button>
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={component} onValueChange={setComponent}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="VEVENT">Events</SelectItem>
+            <SelectItem value="VTODO">To-dos</SelectItem>
+          </SelectContent>
+        </Select>
+        {isAdmin && scope !== "team_member" && (
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <Checkbox checked={clientVisibleOnly} onCheckedChange={(value) => setClientVisibleOnly(value === true)} />
+            For the client (client-visible tasks only)
+          </label>
+        )}
+        <Button size="sm" onClick={() => createMutation.mutate()} disabled={createMutation.isPending || !scopeId}>
+          Create feed URL
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { FileDown, Receipt } from "lucide-react";
+import { formatCurrency, INVOICE_STATUS_COLORS } from "@/utils/currency";
+import type { Invoice } from "@shared/schema";
+
+// Invoices billed to the client's organization; drafts are never returned to clients
+export default function ClientInvoices() {
+  const { data: invoices = [], isLoading } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices"],
+  });
+
+  const open = invoices.filter(invoice => invoice.status === "sent" || invoice.status === "overdue");
+  const balance = open.reduce((sum, invoice) => sum + Number(invoice.total) - Number(invoice.amountPaid), 0);
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="p-6 text-center">
+          <div className="animate-pulse">Loading invoices...</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <Card>
+          <CardContent className="p-6">
+            <div className="text-sm text-gray-600">Balance due</div>
+            <div className="text-2xl font-bold text-gray-900">{formatCurrency(balance)} CAD</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <div className="text-sm text-gray-600">Open invoices</div>
+            <div className="text-2xl font-bold text-blue-600">{open.length}</div>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <div className="text-sm text-gray-600">Overdue</div>
+            <div className="text-2xl font-bold text-red-600">
+              {invoices.filter(invoice => invoice.status === "overdue").length}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Receipt className="h-5 w-5" />
+            Invoices
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {invoices.length === 0 ? (
+            <p className="text-center text-gray-500 py-6">No invoices yet</p>
+          ) : (
+            <div className="space-y-3">
+              {invoices.map(invoice => {
+                const invoiceBalance = Number(invoice.total) - Number(invoice.amountPaid);
+                return (
+                  <div key={invoice.id} className="flex items-center justify-between rounded-lg border p-4">
+                    <div>
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-gray-900">{invoice.title}</span>
+                        <Badge className={INVOICE_STATUS_COLORS[invoice.status]}>{invoice.status.toUpperCase()}</Badge>
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {invoice.invoiceNumber}
+                        {invoice.issueDate && <> · Issued {new Date(invoice.issueDate).toLocaleDateString()}</>}
+                        {invoice.dueDate && <> · Due {new Date(invoice.dueDate).toLocaleDateString()}</>}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-4">
+                      <div className="text-right">
+                        <div className="font-semibold">{formatCurrency(invoice.total)}</div>
+                        {invoice.status !== "void" && invoiceBalance > 0 && invoiceBalance < Number(invoice.total) && (
+                          <div className="text-xs text-gray-500">{formatCurrency(invoiceBalance)} remaining</div>
+                        )}
+                      </div>
+                      <Button variant="outline" size="sm" onClick={() => window.open(`/api/invoices/${invoice.id}/pdf`, "_blank")}>
+                        <FileDown className="h-4 w-4 mr-1" />
+                        PDF
+                      </Button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
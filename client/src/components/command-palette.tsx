@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Building, CheckSquare, FileText, Folder, MessageSquare, Search } from "lucide-react";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { cn } from "@/lib/utils";
+
+export interface SearchResult {
+  type: "task" | "project" | "organization" | "message" | "file";
+  id: string;
+  title: string;
+  snippet: string | null;
+  projectId: string | null;
+  projectName: string | null;
+  threadId: string | null;
+  rank: number;
+}
+
+const MIN_QUERY_LENGTH = 2;
+
+const groups: { type: SearchResult["type"]; heading: string; icon: typeof Search }[] = [
+  { type: "project", heading: "Projects", icon: Folder },
+  { type: "task", heading: "Tasks", icon: CheckSquare },
+  { type: "organization", heading: "Organizations", icon: Building },
+  { type: "message", heading: "Messages", icon: MessageSquare },
+  { type: "file", heading: "Files", icon: FileText },
+];
+
+// The server marks matches with <mark>; split on it and render text, never HTML
+const renderSnippet = (snippet: string) =>
+  snippet.split(/(<mark>.*?<\/mark>)/g).map((part, index) =>
+    part.startsWith("<mark>")
+      ? <mark key={index} className="bg-yellow-100 text-inherit rounded-sm">{part.slice(6, -7)}</mark>
+      : part
+  );
+
+interface CommandPaletteProps {
+  onSelect: (result: SearchResult) => void;
+  className?: string;
+}
+
+export function CommandPalette({ onSelect, className }: CommandPaletteProps) {
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+
+  // Cmd-K / Ctrl-K opens the palette from anywhere on the page
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === "k" && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setOpen(current => !current);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  // Search once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(input.trim()), 200);
+    return () => clearTimeout(timer);
+  }, [input]);
+
+  const searching = query.length >= MIN_QUERY_LENGTH;
+  const { data: results = [], isFetching } = useQuery<SearchResult[]>({
+    queryKey: [`/api/search?q=${encodeURIComponent(query)}`],
+    enabled: open && searching,
+    placeholderData: keepPreviousData,
+  });
+
+  const choose = (result: SearchResult) => {
+    setOpen(false);
+    setInput("");
+    onSelect(result);
+  };
+
+  const isMac = typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+  return (
+    <>
+      <button
+        type="button"
+        onClick={() => setOpen(true)}
+        className={cn(
+          "flex w-full items-center gap-2 rounded-md border px-3 py-2 text-sm transition-colors",
+          className
+        )}
+      >
+        <Search className="h-4 w-4" />
+        <span>Search...</span>
+        <kbd className="ml-auto rounded border px-1.5 text-xs font-mono opacity-70">{isMac ? "⌘K" : "Ctrl K"}</kbd>
+      </button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          {/* Results are already ranked by the server, so cmdk's own filtering stays off */}
+          <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3">
+            <CommandInput
+              value={input}
+              onValueChange={setInput}
+              placeholder="Search tasks, projects, messages and files..."
+            />
+            <CommandList>
+              <CommandEmpty>
+                {!searching ? "Type at least two characters to search." : isFetching ? "Searching..." : "No results found."}
+              </CommandEmpty>
+              {searching && groups.map(group => {
+                const matches = results.filter(result => result.type === group.type);
+                if (matches.length === 0) return null;
+                const Icon = group.icon;
+                return (
+                  <CommandGroup key={group.type} heading={group.heading}>
+                    {matches.map(result => (
+                      <CommandItem
+                        key={`${result.type}:${result.id}`}
+                        value={`${result.type}:${result.id}`}
+                        onSelect={() => choose(result)}
+                        className="items-start gap-3"
+                      >
+                        <Icon className="h-4 w-4 mt-0.5 shrink-0 text-gray-500" />
+                        <div className="min-w-0">
+                          <p className="font-medium truncate">{result.title}</p>
+                          {result.snippet && (
+                            <p className="text-xs text-gray-500 line-clamp-2">{renderSnippet(result.snippet)}</p>
+                          )}
+                          {(result.type === "task" || result.type === "file") && result.projectName && (
+                            <p className="text-xs text-gray-400">{result.projectName}</p>
+                          )}
+                        </div>
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                );
+              })}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
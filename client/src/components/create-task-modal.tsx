@@ -14,6 +14,7 @@ import { Users, X, Calendar, Clock } from "lucide-react";
 import type { TeamMember } from "@shared/schema";
 import { getUserTimezone } from "@/utils/timeFormatting";
 import { extractTaskDateTime, adaptFormDataToAPI, isValidTimeFormat } from "@/utils/dateTimeUtils";
+import { RecurrencePicker } from "@/components/recurrence-picker";
 
 
 interface CreateTaskModalProps {
@@ -51,6 +52,7 @@ export default function CreateTaskModal({
   });
   
   const [selectedTeamMembers, setSelectedTeamMembers] = useState<string[]>([]);
+  const [recurrenceRule, setRecurrenceRule] = useState("");
 
   // Initialize form with task data in edit mode - proper due_at handling
   useState(() => {
@@ -93,7 +95,11 @@ export default function CreateTaskModal({
         const endpoint = projectId 
           ? `/api/projects/${projectId}/tasks`
           : `/api/organizations/${organizationId}/tasks`;
-        const response = await apiRequest("POST", endpoint, { ...payload, selectedTeamMembers });
+        const response = await apiRequest("POST", endpoint, {
+          ...payload,
+          selectedTeamMembers,
+          ...(recurrenceRule ? { recurrenceRule, recurrenceTimezone: getUserTimezone() } : {}),
+        });
         return response.json();
       }
     },
@@ -127,6 +133,7 @@ export default function CreateTaskModal({
           googleDriveLink: "",
         });
         setSelectedTeamMembers([]);
+        setRecurrenceRule("");
       }
       
       toast({
@@ -176,6 +183,15 @@ export default function CreateTaskModal({
       return;
     }
 
+    if (recurrenceRule && (!formData.dueDate || !formData.dueTime)) {
+      toast({
+        title: "Missing Due Time",
+        description: "Recurring tasks need a due date and time.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     console.log(`${mode === 'edit' ? 'Updating' : 'Creating'} task with data:`, formData);
     taskMutation.mutate(formData);
   };
@@ -343,6 +359,15 @@ export default function CreateTaskModal({
             </div>
           </div>
 
+          {mode === 'create' && (
+            <RecurrencePicker
+              rule={recurrenceRule}
+              onRuleChange={setRecurrenceRule}
+              dueDate={formData.dueDate}
+              dueTime={formData.dueTime}
+            />
+          )}
+
           <div className="space-y-2">
             <Label htmlFor="googleDriveLink">Google Drive Link</Label>
             <Input
@@ -4,12 +4,13 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Settings, Users, Crown, Eye } from "lucide-react";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
+import { hasPermission } from "@shared/permissions";
 
 export function DashboardToggle() {
   const [location, navigate] = useLocation();
   const { user } = useAuth();
   
-  const isAdmin = user?.role === 'admin';
+  const isAdmin = hasPermission(user?.role, 'admin.access');
   const isOnAdminDashboard = location === '/' || location === '/admin';
   const isOnClientView = location === '/client-view';
 
@@ -8,6 +8,7 @@ import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { TaskTemplateEditor } from "./task-template-editor";
 import type { Service, ServiceCategory } from "@shared/schema";
 
 interface EditServiceModalProps {
@@ -148,11 +149,11 @@ export function EditServiceModal({ service, isOpen, onClose }: EditServiceModalP
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-[500px]">
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Edit Service</DialogTitle>
           <DialogDescription>
-            Update the service details or delete the service.
+            Update the service details, manage its task templates, or delete the service.
           </DialogDescription>
         </DialogHeader>
         <form onSubmit={handleSubmit} className="space-y-4">
@@ -224,6 +225,10 @@ export function EditServiceModal({ service, isOpen, onClose }: EditServiceModalP
             </div>
           </div>
         </form>
+
+        <div className="border-t pt-4">
+          <TaskTemplateEditor serviceId={service.id} />
+        </div>
       </DialogContent>
     </Dialog>
   );
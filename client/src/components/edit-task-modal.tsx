@@ -10,8 +10,9 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Calendar, Clock, Link as LinkIcon, Save, Users, Loader2, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { getUserTimezone, formatDueAt } from "@/utils/timeFormatting";
+import { getUserTimezone, formatDueAt, getZonedDateTime } from "@/utils/timeFormatting";
 import { DeleteConfirmationDialog } from "@/components/delete-confirmation-dialog";
+import { RecurrencePicker, type RecurrenceScope } from "@/components/recurrence-picker";
 
 interface EditTaskModalProps {
   isOpen: boolean;
@@ -54,6 +55,21 @@ export function EditTaskModal({ isOpen, onClose, task, taskId }: EditTaskModalPr
   // Get current task
   const currentTask = task || fetchedTask;
 
+  // Occurrences carry no rule of their own; the series rule lives on the master task
+  const isOccurrence = !!currentTask?.recurrenceSeriesId && currentTask.recurrenceSeriesId !== currentTask.id;
+  const { data: seriesMaster } = useQuery<any>({
+    queryKey: ["/api/tasks", currentTask?.recurrenceSeriesId],
+    enabled: isOpen && isOccurrence,
+  });
+  const seriesRule: string = currentTask?.recurrenceRule || seriesMaster?.recurrenceRule || "";
+  const [recurrenceRule, setRecurrenceRule] = useState("");
+  const [recurrenceScope, setRecurrenceScope] = useState<RecurrenceScope>("this");
+
+  useEffect(() => {
+    setRecurrenceRule(seriesRule);
+    setRecurrenceScope("this");
+  }, [currentTask?.id, seriesRule]);
+
   // FIX: Use existing assignment data from the all assignments query since auth is failing
   const { data: allAssignments = [] } = useQuery({
     queryKey: ['/api/admin/task-assignments'],
@@ -73,9 +89,13 @@ export function EditTaskModal({ isOpen, onClose, task, taskId }: EditTaskModalPr
       let dateValue = "";
       let timeValue = "";
       
-      // FIXED: Use the stored dueDate and dueTime fields directly instead of converting UTC
-      // The backend already stores the correct local times, no need for manual timezone conversion
-      if (currentTask.dueDate && currentTask.dueTime) {
+      // Timed tasks: show due_at in the viewer's timezone (the stored dueDate/dueTime are in the creator's zone)
+      if (currentTask.dueAt && currentTask.dueTime) {
+        const local = getZonedDateTime(currentTask.dueAt);
+        dateValue = local.date;
+        timeValue = local.time;
+      } else if (currentTask.dueDate && currentTask.dueTime) {
+        // FIXED: Use the stored dueDate and dueTime fields directly instead of converting UTC
         // Use the correctly stored local date/time values
         const dateStr = typeof currentTask.dueDate === 'string' ? 
                         currentTask.dueDate.split('T')[0] : // Handle ISO strings
@@ -247,6 +267,22 @@ export function EditTaskModal({ isOpen, onClose, task, taskId }: EditTaskModalPr
       taskData.assigneeUserIds = formData.assigneeTeamMemberIds;
     }
 
+    // A rule change always applies from this occurrence onwards; otherwise the chosen scope decides
+    if (recurrenceRule !== seriesRule) {
+      if (recurrenceRule && (!formData.dueDate || !formData.dueTime)) {
+        toast({
+          title: "Missing Due Time",
+          description: "Recurring tasks need a due date and time.",
+          variant: "destructive",
+        });
+        return;
+      }
+      taskData.recurrenceRule = recurrenceRule || null;
+      taskData.recurrenceTimezone = getUserTimezone();
+    } else if (currentTask.recurrenceSeriesId) {
+      taskData.recurrenceScope = recurrenceScope;
+    }
+
     console.log("Updating task with data:", taskData);
     updateTaskMutation.mutate(taskData);
   };
@@ -390,6 +426,15 @@ export function EditTaskModal({ isOpen, onClose, task, taskId }: EditTaskModalPr
             </div>
           </div>
 
+          <RecurrencePicker
+            rule={recurrenceRule}
+            onRuleChange={setRecurrenceRule}
+            dueDate={formData.dueDate}
+            dueTime={formData.dueTime}
+            scope={currentTask.recurrenceSeriesId && recurrenceRule === seriesRule ? recurrenceScope : undefined}
+            onScopeChange={setRecurrenceScope}
+          />
+
           <div className="space-y-2">
             <Label htmlFor="googleDriveLink" className="flex items-center gap-2">
               <LinkIcon className="h-4 w-4" />
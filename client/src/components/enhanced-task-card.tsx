@@ -19,6 +19,7 @@ import {
 import { TaskCalendarSync } from "./task-calendar-sync";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { formatDueTime } from "@/utils/timeFormatting";
 
 interface EnhancedTaskCardProps {
   task: any;
@@ -167,6 +168,11 @@ export function EnhancedTaskCard({ task, assignments = [], showProjectName = fal
                   {(task.dueTime || task.dueDate) && (
                     <span className="text-gray-500">
                       {(() => {
+                        // Timed tasks render due_at in the viewer's timezone
+                        if (task.dueAt && task.dueTime) {
+                          return formatDueTime(task.dueAt);
+                        }
+                        
                         // FIXED: Use stored dueTime field directly to avoid timezone conversion issues
                         if (task.dueTime) {
                           // Convert from 24-hour format (13:00) to 12-hour format (1:00 PM)
@@ -264,7 +270,6 @@ export function EnhancedTaskCard({ task, assignments = [], showProjectName = fal
               <TaskCalendarSync
                 taskId={task.id}
                 taskTitle={task.title}
-                hasCalendarEvent={!!task.googleCalendarEventId}
                 className="flex-shrink-0"
               />
             </div>
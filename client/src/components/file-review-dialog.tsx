@@ -0,0 +1,464 @@
+import { useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, ClipboardCheck, GitCompare, MapPin, MessageSquare, RotateCcw, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { RequestApprovalDialog } from "./request-approval-dialog";
+import type { FileComment, FileCommentRegion, ProjectFile } from "@shared/schema";
+
+type FileCommentView = FileComment & { authorName: string | null; authorRole: string | null };
+
+interface VersionComparison {
+  from: ProjectFile;
+  to: ProjectFile;
+  changes: { field: string; from: unknown; to: unknown }[];
+  commentCounts: Record<string, number>;
+}
+
+interface FileReviewDialogProps {
+  file: ProjectFile | null;
+  isAdmin: boolean;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  fileName: "File name",
+  fileType: "Type",
+  fileSize: "Size",
+  category: "Category",
+  versionNote: "Version note",
+  isApproved: "Approval",
+};
+
+const previewUrl = (file: ProjectFile) => `/api/projects/${file.projectId}/files/${file.id}/preview`;
+const isImage = (file: ProjectFile) => (file.fileType || "").startsWith("image/");
+const isPdf = (file: ProjectFile) => file.fileType === "application/pdf" || file.fileName.toLowerCase().endsWith(".pdf");
+
+const approvalLabel = (file: ProjectFile) =>
+  file.isApproved ? "Approved" : file.isApproved === false ? "Changes requested" : file.isApprovalRequired ? "Pending approval" : null;
+
+const formatValue = (field: string, value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (field === "fileSize") return `${Math.round(Number(value) / 1024)} KB`;
+  if (field === "isApproved") return value ? "Approved" : "Changes requested";
+  return String(value);
+};
+
+// Version history, side-by-side comparison and pinned review comments for one project file
+export function FileReviewDialog({ file, isAdmin, onClose }: FileReviewDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [compareWithId, setCompareWithId] = useState<string>("");
+  const [newVersion, setNewVersion] = useState<File | null>(null);
+  const [versionNote, setVersionNote] = useState("");
+  const [approvalFile, setApprovalFile] = useState<ProjectFile | null>(null);
+
+  const filesKey = ["/api/projects", file?.projectId, "files"];
+  const versionsKey = [`/api/projects/${file?.projectId}/files/${file?.id}/versions`];
+
+  const { data: versions = [] } = useQuery<ProjectFile[]>({
+    queryKey: versionsKey,
+    enabled: !!file,
+  });
+
+  const selected = versions.find(version => version.id === selectedId) || versions[0] || file;
+
+  const { data: comparison } = useQuery<VersionComparison>({
+    queryKey: [`/api/projects/${file?.projectId}/files/${selected?.id}/compare?with=${compareWithId}`],
+    enabled: !!selected && !!compareWithId && compareWithId !== selected.id,
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("file", newVersion!);
+      formData.append("versionNote", versionNote);
+      // FormData uploads go through fetch directly, like the original upload modal
+      const response = await fetch(`/api/projects/${file!.projectId}/files/${selected!.id}/versions`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.message || "Upload failed");
+      }
+      return response.json() as Promise<ProjectFile>;
+    },
+    onSuccess: (version) => {
+      queryClient.invalidateQueries({ queryKey: versionsKey });
+      queryClient.invalidateQueries({ queryKey: filesKey });
+      setSelectedId(version.id);
+      setNewVersion(null);
+      setVersionNote("");
+      toast({ title: `Version ${version.versionNumber} uploaded` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not upload version", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const close = () => {
+    setSelectedId(null);
+    setCompareWithId("");
+    onClose();
+  };
+
+  if (!file || !selected) return null;
+
+  return (
+    <>
+      <Dialog open={!!file} onOpenChange={(open) => !open && close()}>
+        <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              {selected.fileName}
+              <Badge variant="secondary">v{selected.versionNumber}</Badge>
+              {!selected.isLatestVersion && <Badge variant="outline">Older version</Badge>}
+            </DialogTitle>
+            <DialogDescription>
+              {versions.length > 1 ? `${versions.length} versions` : "Only version"} · uploaded {selected.createdAt ? new Date(selected.createdAt).toLocaleString() : ""}
+            </DialogDescription>
+          </DialogHeader>
+
+          <Tabs defaultValue="review">
+            <TabsList>
+              <TabsTrigger value="review">Review</TabsTrigger>
+              <TabsTrigger value="versions">Versions</TabsTrigger>
+              <TabsTrigger value="compare">Compare</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="review">
+              <FileAnnotations file={selected} />
+            </TabsContent>
+
+            <TabsContent value="versions" className="space-y-4">
+              <div className="divide-y rounded border">
+                {versions.map(version => (
+                  <div key={version.id} className={`flex flex-wrap items-center justify-between gap-2 p-3 ${version.id === selected.id ? "bg-blue-50" : ""}`}>
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="secondary">v{version.versionNumber}</Badge>
+                        <span className="truncate font-medium">{version.fileName}</span>
+                        {approvalLabel(version) && <Badge variant="outline">{approvalLabel(version)}</Badge>}
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">
+                        {version.createdAt ? new Date(version.createdAt).toLocaleString() : ""}
+                        {version.versionNote ? ` · ${version.versionNote}` : ""}
+                      </p>
+                    </div>
+                    <div className="flex gap-1">
+                      <Button variant="ghost" size="sm" onClick={() => setSelectedId(version.id)}>
+                        Review
+                      </Button>
+                      {isAdmin && version.isApproved !== true && (
+                        <Button variant="ghost" size="sm" onClick={() => setApprovalFile(version)}>
+                          <ClipboardCheck className="h-4 w-4 mr-1" />
+                          Request approval
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2 rounded border p-3">
+                <h4 className="flex items-center gap-2 font-medium">
+                  <Upload className="h-4 w-4" />
+                  Upload a new version
+                </h4>
+                <Input type="file" onChange={(e) => setNewVersion(e.target.files?.[0] || null)} />
+                <Textarea
+                  value={versionNote}
+                  onChange={(e) => setVersionNote(e.target.value)}
+                  placeholder="What changed in this version?"
+                  rows={2}
+                />
+                <Button size="sm" onClick={() => uploadMutation.mutate()} disabled={!newVersion || uploadMutation.isPending}>
+                  {uploadMutation.isPending ? "Uploading..." : "Upload version"}
+                </Button>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="compare" className="space-y-4">
+              <div className="flex items-center gap-2 text-sm">
+                <GitCompare className="h-4 w-4" />
+                Compare v{selected.versionNumber} with
+                <Select value={compareWithId} onValueChange={setCompareWithId}>
+                  <SelectTrigger className="w-48">
+                    <SelectValue placeholder="Choose a version" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {versions.filter(version => version.id !== selected.id).map(version => (
+                      <SelectItem key={version.id} value={version.id}>v{version.versionNumber} · {version.fileName}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {comparison && (
+                <>
+                  <div className="grid grid-cols-2 gap-4">
+                    {[comparison.from, comparison.to].map(version => (
+                      <div key={version.id} className="space-y-2">
+                        <div className="flex items-center justify-between text-sm">
+                          <Badge variant="secondary">v{version.versionNumber}</Badge>
+                          <span className="text-gray-500">{comparison.commentCounts[version.id] || 0} comment threads</span>
+                        </div>
+                        {isImage(version) ? (
+                          <img src={previewUrl(version)} alt={version.fileName} className="w-full rounded border" />
+                        ) : isPdf(version) ? (
+                          <iframe src={previewUrl(version)} title={version.fileName} className="h-96 w-full rounded border" />
+                        ) : (
+                          <a href={previewUrl(version)} target="_blank" rel="noreferrer" className="text-sm text-blue-600 underline">
+                            Open {version.fileName}
+                          </a>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  {comparison.changes.length > 0 ? (
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {comparison.changes.map(change => (
+                          <tr key={change.field} className="border-b">
+                            <td className="py-1 pr-4 text-gray-500">{FIELD_LABELS[change.field] || change.field}</td>
+                            <td className="py-1 pr-4 line-through text-gray-400">{formatValue(change.field, change.from)}</td>
+                            <td className="py-1">{formatValue(change.field, change.to)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  ) : (
+                    <p className="text-sm text-gray-500">No metadata changes between these versions.</p>
+                  )}
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+
+      <RequestApprovalDialog
+        subject={approvalFile ? { type: "file", id: approvalFile.id, title: `${approvalFile.fileName} (v${approvalFile.versionNumber})` } : null}
+        onClose={() => setApprovalFile(null)}
+        onRequested={() => {
+          queryClient.invalidateQueries({ queryKey: versionsKey });
+          queryClient.invalidateQueries({ queryKey: filesKey });
+        }}
+      />
+    </>
+  );
+}
+
+// Preview with comment pins: drag on an image to mark a region, or pick the PDF page the comment is about
+function FileAnnotations({ file }: { file: ProjectFile }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const imageRef = useRef<HTMLDivElement>(null);
+  const [page, setPage] = useState(1);
+  const [draft, setDraft] = useState("");
+  const [region, setRegion] = useState<FileCommentRegion | null>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+  const [replyText, setReplyText] = useState("");
+  const [activeThread, setActiveThread] = useState<string | null>(null);
+
+  const commentsKey = [`/api/projects/${file.projectId}/files/${file.id}/comments`];
+  const { data: comments = [] } = useQuery<FileCommentView[]>({
+    queryKey: commentsKey,
+  });
+
+  const threads = comments.filter(comment => !comment.parentId);
+  const replies = (threadId: string) => comments.filter(comment => comment.parentId === threadId);
+  const pinNumbers = new Map(threads.filter(thread => thread.region).map((thread, index) => [thread.id, index + 1]));
+
+  const addMutation = useMutation({
+    mutationFn: async (body: { body: string; parentId?: string; page?: number | null; region?: FileCommentRegion | null }) => {
+      const response = await apiRequest("POST", `/api/projects/${file.projectId}/files/${file.id}/comments`, body);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+      setDraft("");
+      setRegion(null);
+      setReplyTo(null);
+      setReplyText("");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not add comment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, resolved }: { id: string; resolved: boolean }) => {
+      await apiRequest("PUT", `/api/projects/${file.projectId}/files/${file.id}/comments/${id}`, { resolved });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: commentsKey });
+    },
+  });
+
+  const pointFromEvent = (event: React.MouseEvent) => {
+    const bounds = imageRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(Math.max((event.clientX - bounds.left) / bounds.width, 0), 1),
+      y: Math.min(Math.max((event.clientY - bounds.top) / bounds.height, 0), 1),
+    };
+  };
+
+  const finishDrag = (event: React.MouseEvent) => {
+    if (!dragStart) return;
+    const end = pointFromEvent(event);
+    setRegion({
+      x: Math.min(dragStart.x, end.x),
+      y: Math.min(dragStart.y, end.y),
+      width: Math.abs(end.x - dragStart.x),
+      height: Math.abs(end.y - dragStart.y),
+    });
+    setDragStart(null);
+  };
+
+  const regionStyle = (area: FileCommentRegion) => ({
+    left: `${area.x * 100}%`,
+    top: `${area.y * 100}%`,
+    width: `${area.width * 100}%`,
+    height: `${area.height * 100}%`,
+  });
+
+  const visibleThreads = isPdf(file) ? threads.filter(thread => !thread.page || thread.page === page) : threads;
+
+  return (
+    <div className="grid grid-cols-1 gap-4 lg:grid-cols-3">
+      <div className="lg:col-span-2">
+        {isImage(file) ? (
+          <div
+            ref={imageRef}
+            className="relative cursor-crosshair select-none"
+            onMouseDown={(event) => setDragStart(pointFromEvent(event))}
+            onMouseUp={finishDrag}
+          >
+            <img src={previewUrl(file)} alt={file.fileName} className="w-full rounded border" draggable={false} />
+            {threads.filter(thread => thread.region).map(thread => {
+              const area = thread.region as FileCommentRegion;
+              return (
+                <button
+                  key={thread.id}
+                  onMouseDown={(event) => event.stopPropagation()}
+                  onClick={() => setActiveThread(thread.id)}
+                  className={`absolute min-h-[20px] min-w-[20px] -translate-x-1/2 -translate-y-1/2 rounded border-2 text-[10px] font-bold ${thread.resolvedAt ? "border-gray-400 text-gray-500" : "border-red-500 text-red-600"} ${activeThread === thread.id ? "bg-yellow-200/60" : "bg-white/40"}`}
+                  style={{ ...regionStyle(area), transform: area.width || area.height ? "none" : undefined }}
+                >
+                  {pinNumbers.get(thread.id)}
+                </button>
+              );
+            })}
+            {region && <div className="pointer-events-none absolute border-2 border-dashed border-blue-500 bg-blue-200/30" style={regionStyle(region)} />}
+          </div>
+        ) : isPdf(file) ? (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 text-sm">
+              Page
+              <Input type="number" min={1} value={page} onChange={(e) => setPage(Math.max(1, Number(e.target.value) || 1))} className="h-8 w-20" />
+            </div>
+            <iframe key={page} src={`${previewUrl(file)}#page=${page}`} title={file.fileName} className="h-[60vh] w-full rounded border" />
+          </div>
+        ) : (
+          <div className="rounded border p-6 text-center text-sm text-gray-500">
+            No inline preview for this file type.{" "}
+            <a href={previewUrl(file)} target="_blank" rel="noreferrer" className="text-blue-600 underline">Open it</a> and comment here.
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-3">
+        <div className="space-y-2 rounded border p-3">
+          <Textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder={isImage(file) ? "Drag on the image to mark an area, then comment" : "Add a comment"}
+            rows={3}
+          />
+          <div className="flex items-center justify-between text-xs text-gray-500">
+            <span className="flex items-center gap-1">
+              <MapPin className="h-3 w-3" />
+              {region ? "Area marked" : isPdf(file) ? `Page ${page}` : "Whole file"}
+              {region && (
+                <button className="ml-1 underline" onClick={() => setRegion(null)}>clear</button>
+              )}
+            </span>
+            <Button
+              size="sm"
+              onClick={() => addMutation.mutate({ body: draft.trim(), page: isPdf(file) ? page : null, region })}
+              disabled={!draft.trim() || addMutation.isPending}
+            >
+              Comment
+            </Button>
+          </div>
+        </div>
+
+        {visibleThreads.length === 0 && <p className="text-sm text-gray-500">No comments on this version yet.</p>}
+        {visibleThreads.map(thread => (
+          <div
+            key={thread.id}
+            className={`space-y-2 rounded border p-3 text-sm ${activeThread === thread.id ? "border-yellow-400" : ""} ${thread.resolvedAt ? "opacity-60" : ""}`}
+            onClick={() => setActiveThread(thread.id)}
+          >
+            <div className="flex items-center justify-between">
+              <span className="font-medium">
+                {pinNumbers.has(thread.id) && `#${pinNumbers.get(thread.id)} · `}
+                {thread.authorName}
+                {thread.authorRole === "client" && <Badge variant="outline" className="ml-1">Client</Badge>}
+              </span>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-6 px-2 text-xs"
+                onClick={() => resolveMutation.mutate({ id: thread.id, resolved: !thread.resolvedAt })}
+              >
+                {thread.resolvedAt ? <RotateCcw className="h-3 w-3 mr-1" /> : <CheckCircle className="h-3 w-3 mr-1" />}
+                {thread.resolvedAt ? "Reopen" : "Resolve"}
+              </Button>
+            </div>
+            {thread.page && <p className="text-xs text-gray-500">Page {thread.page}</p>}
+            <p className="whitespace-pre-wrap text-gray-700">{thread.body}</p>
+            {replies(thread.id).map(reply => (
+              <div key={reply.id} className="ml-3 border-l pl-3">
+                <p className="text-xs font-medium">{reply.authorName}</p>
+                <p className="whitespace-pre-wrap text-gray-700">{reply.body}</p>
+              </div>
+            ))}
+            {replyTo === thread.id ? (
+              <div className="space-y-1">
+                <Textarea value={replyText} onChange={(e) => setReplyText(e.target.value)} rows={2} placeholder="Reply" />
+                <div className="flex justify-end gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => setReplyTo(null)}>Cancel</Button>
+                  <Button
+                    size="sm"
+                    onClick={() => addMutation.mutate({ body: replyText.trim(), parentId: thread.id })}
+                    disabled={!replyText.trim() || addMutation.isPending}
+                  >
+                    Reply
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setReplyTo(thread.id)}>
+                <MessageSquare className="h-3 w-3 mr-1" />
+                Reply
+              </Button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
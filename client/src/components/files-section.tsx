@@ -3,19 +3,26 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Upload, Download, FileImage, FileText, FileSpreadsheet, Folder, File } from "lucide-react";
+import { Upload, Download, FileImage, FileText, FileSpreadsheet, Folder, File, ClipboardCheck, Eye } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
 import FileUploadModal from "./file-upload-modal";
+import { RequestApprovalDialog } from "./request-approval-dialog";
+import { FileReviewDialog } from "./file-review-dialog";
 import type { ProjectFile } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
 
 export default function FilesSection() {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [showUploadModal, setShowUploadModal] = useState(false);
+  const [approvalFile, setApprovalFile] = useState<ProjectFile | null>(null);
+  const [reviewFile, setReviewFile] = useState<ProjectFile | null>(null);
+  const isAdmin = hasPermission(user?.role, 'approvals.request');
+  const canUpload = hasPermission(user?.role, 'files.upload', user?.contactAccess);
 
   const { data: projects } = useQuery({
     queryKey: ["/api/projects"],
@@ -56,22 +63,18 @@ export default function FilesSection() {
 
   const downloadMutation = useMutation({
     mutationFn: async (fileId: string) => {
-      const response = await apiRequest("GET", `/api/files/${fileId}/download`);
-      return response;
+      // A short-lived signed link; the storage backend serves the file under its original name
+      const response = await apiRequest("GET", `/api/files/${fileId}/download?format=url`);
+      return response.json() as Promise<{ url: string }>;
     },
-    onSuccess: async (response, fileId) => {
+    onSuccess: ({ url }, fileId) => {
       const file = files?.find(f => f.id === fileId);
-      if (file && response.body) {
-        const blob = await response.blob();
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = file.fileName;
-        document.body.appendChild(a);
-        a.click();
-        window.URL.revokeObjectURL(url);
-        document.body.removeChild(a);
-      }
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = file?.fileName || '';
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
     },
     onError: (error: Error) => {
       if (isUnauthorizedError(error)) {
@@ -178,13 +181,15 @@ export default function FilesSection() {
           <h2 className="text-2xl font-bold text-gray-900">Project Files</h2>
           <p className="text-gray-600">Access designs, documents, and deliverables</p>
         </div>
-        <Button 
-          onClick={() => setShowUploadModal(true)}
-          className="bg-blue-600 hover:bg-blue-700"
-        >
-          <Upload className="h-4 w-4 mr-2" />
-          Upload File
-        </Button>
+        {canUpload && (
+          <Button 
+            onClick={() => setShowUploadModal(true)}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Upload File
+          </Button>
+        )}
       </div>
 
       {!files || files.length === 0 ? (
@@ -222,7 +227,10 @@ export default function FilesSection() {
                           <div key={file.id} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
                             <FileIcon className={`h-6 w-6 ${iconColor}`} />
                             <div className="flex-1 min-w-0">
-                              <p className="font-medium text-gray-900 truncate">{file.fileName}</p>
+                              <p className="font-medium text-gray-900 truncate">
+                                {file.fileName}
+                                {file.versionNumber > 1 && <span className="ml-1 text-xs text-gray-500">v{file.versionNumber}</span>}
+                              </p>
                               <div className="flex items-center gap-2 text-sm text-gray-500">
                                 <span>{file.fileSize ? formatFileSize(file.fileSize) : 'Unknown size'}</span>
                                 <span>•</span>
@@ -230,10 +238,28 @@ export default function FilesSection() {
                               </div>
                               {file.isApprovalRequired && (
                                 <Badge variant="secondary" className="mt-1">
-                                  {file.isApproved ? 'Approved' : 'Pending Approval'}
+                                  {file.isApproved ? 'Approved' : file.isApproved === false ? 'Changes Requested' : 'Pending Approval'}
                                 </Badge>
                               )}
                             </div>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setReviewFile(file)}
+                              title="Review, versions and comments"
+                            >
+                              <Eye className="h-4 w-4" />
+                            </Button>
+                            {isAdmin && !file.isApproved && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => setApprovalFile(file)}
+                                title="Request client approval"
+                              >
+                                <ClipboardCheck className="h-4 w-4" />
+                              </Button>
+                            )}
                             <Button
                               variant="outline"
                               size="sm"
@@ -254,6 +280,18 @@ export default function FilesSection() {
         </div>
       )}
 
+      <FileReviewDialog
+        file={reviewFile}
+        isAdmin={isAdmin}
+        onClose={() => setReviewFile(null)}
+      />
+
+      <RequestApprovalDialog
+        subject={approvalFile ? { type: "file", id: approvalFile.id, title: approvalFile.versionNumber > 1 ? `${approvalFile.fileName} (v${approvalFile.versionNumber})` : approvalFile.fileName } : null}
+        onClose={() => setApprovalFile(null)}
+        onRequested={() => queryClient.invalidateQueries({ queryKey: ["/api/projects", activeProject?.id, "files"] })}
+      />
+
       <FileUploadModal
         isOpen={showUploadModal}
         onClose={() => setShowUploadModal(false)}
@@ -0,0 +1,435 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Trash2, Send, Ban, FileDown, DollarSign, Save } from "lucide-react";
+import { formatCurrency, INVOICE_STATUS_COLORS } from "@/utils/currency";
+import type { Invoice, InvoiceLineItem, InvoiceTaxLine, InvoicePayment, Organization } from "@shared/schema";
+
+export interface InvoiceDetail extends Invoice {
+  lineItems: InvoiceLineItem[];
+  taxLines: InvoiceTaxLine[];
+  payments: InvoicePayment[];
+  organization: Organization | null;
+  balance: number;
+}
+
+interface EditableLine {
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  serviceId?: string | null;
+  sourceType?: string;
+  sourceId?: string | null;
+}
+
+export interface EditableTax {
+  name: string;
+  rate: string;
+}
+
+interface InvoiceDetailDialogProps {
+  invoiceId: string | null;
+  onClose: () => void;
+}
+
+const toDateInput = (value: string | Date | null | undefined) =>
+  value ? new Date(value).toISOString().slice(0, 10) : "";
+
+// Tax lines are shared by the detail dialog and the create dialog
+export function TaxLinesEditor({ taxes, onChange }: { taxes: EditableTax[]; onChange: (taxes: EditableTax[]) => void }) {
+  return (
+    <div className="space-y-2">
+      {taxes.map((tax, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            value={tax.name}
+            onChange={(e) => onChange(taxes.map((t, i) => (i === index ? { ...t, name: e.target.value } : t)))}
+            placeholder="GST"
+            className="w-32"
+          />
+          <Input
+            type="number"
+            step="0.001"
+            value={tax.rate}
+            onChange={(e) => onChange(taxes.map((t, i) => (i === index ? { ...t, rate: e.target.value } : t)))}
+            placeholder="5"
+            className="w-24"
+          />
+          <span className="text-sm text-gray-500">%</span>
+          <Button variant="ghost" size="sm" onClick={() => onChange(taxes.filter((_, i) => i !== index))}>
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+      <Button variant="outline" size="sm" onClick={() => onChange([...taxes, { name: "", rate: "" }])}>
+        <Plus className="h-3 w-3 mr-1" />
+        Add tax
+      </Button>
+    </div>
+  );
+}
+
+export const toTaxPayload = (taxes: EditableTax[]) =>
+  taxes.filter(tax => tax.name && tax.rate !== "").map(tax => ({ name: tax.name, rate: Number(tax.rate) }));
+
+export function InvoiceDetailDialog({ invoiceId, onClose }: InvoiceDetailDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [lines, setLines] = useState<EditableLine[]>([]);
+  const [taxes, setTaxes] = useState<EditableTax[]>([]);
+  const [dueDate, setDueDate] = useState("");
+  const [notes, setNotes] = useState("");
+  const [payment, setPayment] = useState({ amount: "", paidAt: toDateInput(new Date()), method: "", reference: "" });
+
+  const { data: invoice } = useQuery<InvoiceDetail>({
+    queryKey: ["/api/invoices", invoiceId],
+    enabled: !!invoiceId,
+  });
+
+  useEffect(() => {
+    if (!invoice) return;
+    setLines(invoice.lineItems.map(item => ({
+      description: item.description,
+      quantity: String(Number(item.quantity)),
+      unitPrice: String(Number(item.unitPrice)),
+      serviceId: item.serviceId,
+      sourceType: item.sourceType,
+      sourceId: item.sourceId,
+    })));
+    setTaxes(invoice.taxLines.map(tax => ({ name: tax.name, rate: String(Number(tax.rate)) })));
+    setDueDate(toDateInput(invoice.dueDate));
+    setNotes(invoice.notes || "");
+    setPayment(p => ({ ...p, amount: invoice.balance > 0 ? invoice.balance.toFixed(2) : "" }));
+  }, [invoice]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/invoices", invoiceId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/invoices"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/reports/ar-aging"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update invoice",
+      variant: "destructive",
+    });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("PUT", `/api/admin/invoices/${invoiceId}`, {
+        dueDate: dueDate || null,
+        notes: notes || null,
+        lineItems: lines
+          .filter(line => line.description.trim())
+          .map(line => ({ ...line, quantity: Number(line.quantity), unitPrice: Number(line.unitPrice) })),
+        taxLines: toTaxPayload(taxes),
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Invoice saved" });
+    },
+    onError,
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async (action: "send" | "void") => {
+      const response = await apiRequest("POST", `/api/admin/invoices/${invoiceId}/${action}`, {});
+      return response.json();
+    },
+    onSuccess: (_data, action) => {
+      invalidate();
+      toast({ title: action === "send" ? "Invoice sent" : "Invoice voided" });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", `/api/admin/invoices/${invoiceId}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      onClose();
+      toast({ title: "Draft deleted" });
+    },
+    onError,
+  });
+
+  const paymentMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/invoices/${invoiceId}/payments`, {
+        amount: Number(payment.amount),
+        paidAt: payment.paidAt ? new Date(`${payment.paidAt}T12:00`).toISOString() : undefined,
+        method: payment.method || null,
+        reference: payment.reference || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      invalidate();
+      setPayment(p => ({ ...p, reference: "" }));
+      toast({ title: "Payment recorded" });
+    },
+    onError,
+  });
+
+  const isDraft = invoice?.status === "draft";
+  const canPay = invoice?.status === "sent" || invoice?.status === "overdue";
+  const draftSubtotal = lines.reduce((sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.unitPrice) || 0), 0);
+
+  return (
+    <Dialog open={!!invoiceId} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-3">
+            {invoice?.invoiceNumber}
+            {invoice && <Badge className={INVOICE_STATUS_COLORS[invoice.status]}>{invoice.status.toUpperCase()}</Badge>}
+          </DialogTitle>
+        </DialogHeader>
+
+        {!invoice ? (
+          <div className="animate-pulse text-gray-500">Loading invoice...</div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4 text-sm">
+              <div>
+                <div className="font-medium text-gray-900">{invoice.title}</div>
+                <div className="text-gray-600">{invoice.organization?.name || "No organization"}</div>
+              </div>
+              <div className="text-right text-gray-600">
+                {invoice.issueDate && <div>Issued {new Date(invoice.issueDate).toLocaleDateString()}</div>}
+                {!isDraft && invoice.dueDate && <div>Due {new Date(invoice.dueDate).toLocaleDateString()}</div>}
+              </div>
+            </div>
+
+            {/* Line items */}
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-gray-600">
+                  <th className="py-2 text-left font-medium">Description</th>
+                  <th className="py-2 text-right font-medium w-24">Qty</th>
+                  <th className="py-2 text-right font-medium w-32">Rate</th>
+                  <th className="py-2 text-right font-medium w-32">Amount</th>
+                  {isDraft && <th className="w-10" />}
+                </tr>
+              </thead>
+              <tbody>
+                {isDraft
+                  ? lines.map((line, index) => (
+                      <tr key={index} className="border-b border-gray-100">
+                        <td className="py-1 pr-2">
+                          <Input
+                            value={line.description}
+                            onChange={(e) => setLines(lines.map((l, i) => (i === index ? { ...l, description: e.target.value } : l)))}
+                          />
+                        </td>
+                        <td className="py-1 px-1">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={line.quantity}
+                            onChange={(e) => setLines(lines.map((l, i) => (i === index ? { ...l, quantity: e.target.value } : l)))}
+                            className="text-right"
+                          />
+                        </td>
+                        <td className="py-1 px-1">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            value={line.unitPrice}
+                            onChange={(e) => setLines(lines.map((l, i) => (i === index ? { ...l, unitPrice: e.target.value } : l)))}
+                            className="text-right"
+                          />
+                        </td>
+                        <td className="py-1 text-right">
+                          {formatCurrency((Number(line.quantity) || 0) * (Number(line.unitPrice) || 0))}
+                        </td>
+                        <td className="py-1 text-right">
+                          <Button variant="ghost" size="sm" onClick={() => setLines(lines.filter((_, i) => i !== index))}>
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))
+                  : invoice.lineItems.map(item => (
+                      <tr key={item.id} className="border-b border-gray-100">
+                        <td className="py-2">{item.description}</td>
+                        <td className="py-2 text-right">{Number(item.quantity)}</td>
+                        <td className="py-2 text-right">{formatCurrency(item.unitPrice)}</td>
+                        <td className="py-2 text-right">{formatCurrency(item.amount)}</td>
+                      </tr>
+                    ))}
+              </tbody>
+            </table>
+
+            {isDraft && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setLines([...lines, { description: "", quantity: "1", unitPrice: "0", sourceType: "manual" }])}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add line
+              </Button>
+            )}
+
+            {/* Totals */}
+            <div className="ml-auto w-72 space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-gray-600">Subtotal</span>
+                <span>{formatCurrency(isDraft ? draftSubtotal : invoice.subtotal)}</span>
+              </div>
+              {!isDraft && invoice.taxLines.map(tax => (
+                <div key={tax.id} className="flex justify-between">
+                  <span className="text-gray-600">{tax.name} ({Number(tax.rate)}%)</span>
+                  <span>{formatCurrency(tax.amount)}</span>
+                </div>
+              ))}
+              {!isDraft && (
+                <>
+                  <div className="flex justify-between font-semibold">
+                    <span>Total</span>
+                    <span>{formatCurrency(invoice.total)} CAD</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-600">Paid</span>
+                    <span>{formatCurrency(invoice.amountPaid)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>Balance due</span>
+                    <span>{formatCurrency(invoice.balance)}</span>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {isDraft && (
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label>Taxes</Label>
+                  <TaxLinesEditor taxes={taxes} onChange={setTaxes} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Due date</Label>
+                  <Input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+                  <p className="text-xs text-gray-500">Defaults to 30 days after sending</p>
+                  <Label>Notes</Label>
+                  <Textarea value={notes} onChange={(e) => setNotes(e.target.value)} rows={3} />
+                </div>
+              </div>
+            )}
+
+            {/* Payments */}
+            {!isDraft && (
+              <div className="space-y-2">
+                <h4 className="font-medium text-gray-900">Payments</h4>
+                {invoice.payments.length === 0 ? (
+                  <p className="text-sm text-gray-500">No payments recorded</p>
+                ) : (
+                  invoice.payments.map(p => (
+                    <div key={p.id} className="flex justify-between text-sm">
+                      <span>
+                        {new Date(p.paidAt).toLocaleDateString()}
+                        {p.method && <span className="text-gray-500"> · {p.method}</span>}
+                        {p.reference && <span className="text-gray-500"> · {p.reference}</span>}
+                      </span>
+                      <span>{formatCurrency(p.amount)}</span>
+                    </div>
+                  ))
+                )}
+
+                {canPay && (
+                  <div className="flex flex-wrap items-end gap-2 pt-2">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Amount</Label>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        value={payment.amount}
+                        onChange={(e) => setPayment({ ...payment, amount: e.target.value })}
+                        className="w-32"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Date</Label>
+                      <Input type="date" value={payment.paidAt} onChange={(e) => setPayment({ ...payment, paidAt: e.target.value })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Method</Label>
+                      <Input
+                        value={payment.method}
+                        onChange={(e) => setPayment({ ...payment, method: e.target.value })}
+                        placeholder="e-Transfer"
+                        className="w-32"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Reference</Label>
+                      <Input
+                        value={payment.reference}
+                        onChange={(e) => setPayment({ ...payment, reference: e.target.value })}
+                        className="w-32"
+                      />
+                    </div>
+                    <Button
+                      onClick={() => paymentMutation.mutate()}
+                      disabled={paymentMutation.isPending || !(Number(payment.amount) > 0)}
+                    >
+                      <DollarSign className="h-4 w-4 mr-1" />
+                      Record payment
+                    </Button>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex flex-wrap justify-between gap-2 border-t pt-4">
+              <Button variant="outline" onClick={() => window.open(`/api/invoices/${invoice.id}/pdf`, "_blank")}>
+                <FileDown className="h-4 w-4 mr-1" />
+                PDF
+              </Button>
+              <div className="flex gap-2">
+                {isDraft && (
+                  <>
+                    <Button variant="outline" onClick={() => deleteMutation.mutate()} disabled={deleteMutation.isPending}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Delete draft
+                    </Button>
+                    <Button variant="outline" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+                      <Save className="h-4 w-4 mr-1" />
+                      Save
+                    </Button>
+                    <Button
+                      onClick={() => actionMutation.mutate("send")}
+                      disabled={actionMutation.isPending || saveMutation.isPending || invoice.lineItems.length === 0}
+                    >
+                      <Send className="h-4 w-4 mr-1" />
+                      Send
+                    </Button>
+                  </>
+                )}
+                {invoice.status !== "void" && !isDraft && Number(invoice.amountPaid) === 0 && (
+                  <Button variant="destructive" onClick={() => actionMutation.mutate("void")} disabled={actionMutation.isPending}>
+                    <Ban className="h-4 w-4 mr-1" />
+                    Void
+                  </Button>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,317 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Receipt, Clock3, Save } from "lucide-react";
+import { formatCurrency, INVOICE_STATUS_COLORS } from "@/utils/currency";
+import { InvoiceDetailDialog, TaxLinesEditor, toTaxPayload, type EditableTax } from "./invoice-detail-dialog";
+import { ArAgingReport } from "./ar-aging-report";
+import type { Invoice, Proposal, Project, Organization, TeamMember, BillingRate } from "@shared/schema";
+
+type InvoiceSource = "proposal" | "time" | "manual";
+
+interface InvoiceListItem extends Invoice {
+  organizationName: string | null;
+}
+
+// Per-role hourly rates used when invoicing tracked time
+function BillingRatesCard() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [edits, setEdits] = useState<Record<string, string>>({});
+
+  const { data: rates = [] } = useQuery<BillingRate[]>({ queryKey: ["/api/admin/billing-rates"] });
+  const { data: teamMembers = [] } = useQuery<TeamMember[]>({ queryKey: ["/api/admin/team-members"] });
+
+  const roles = Array.from(new Set([...teamMembers.map(member => member.role), ...rates.map(rate => rate.role)])).sort();
+  const rateFor = (role: string) => edits[role] ?? rates.find(rate => rate.role === role)?.hourlyRate ?? "";
+
+  const saveMutation = useMutation({
+    mutationFn: async (role: string) => {
+      const response = await apiRequest("PUT", `/api/admin/billing-rates/${encodeURIComponent(role)}`, {
+        hourlyRate: Number(edits[role]),
+      });
+      return response.json();
+    },
+    onSuccess: (_data, role) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/billing-rates"] });
+      setEdits(({ [role]: _saved, ...rest }) => rest);
+      toast({ title: "Rate saved" });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to save rate", variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg">Hourly Rates by Role</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {roles.length === 0 && <p className="text-sm text-gray-500">No team roles yet</p>}
+        {roles.map(role => (
+          <div key={role} className="flex items-center gap-2">
+            <span className="w-40 text-sm text-gray-700">{role.replace(/_/g, " ")}</span>
+            <span className="text-sm text-gray-500">$</span>
+            <Input
+              type="number"
+              step="0.01"
+              min="0"
+              value={rateFor(role)}
+              onChange={(e) => setEdits({ ...edits, [role]: e.target.value })}
+              className="w-28"
+            />
+            <span className="text-sm text-gray-500">/ h</span>
+            {edits[role] !== undefined && (
+              <Button size="sm" variant="outline" onClick={() => saveMutation.mutate(role)} disabled={saveMutation.isPending}>
+                <Save className="h-3 w-3" />
+              </Button>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
+
+export function InvoiceManagement() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selectedInvoiceId, setSelectedInvoiceId] = useState<string | null>(null);
+  const [showCreate, setShowCreate] = useState(false);
+  const [source, setSource] = useState<InvoiceSource>("proposal");
+  const [sourceId, setSourceId] = useState("");
+  const [title, setTitle] = useState("");
+  const [taxes, setTaxes] = useState<EditableTax[]>([]);
+  const [statusFilter, setStatusFilter] = useState("all");
+
+  const { data: invoices = [], isLoading } = useQuery<InvoiceListItem[]>({ queryKey: ["/api/admin/invoices"] });
+  const { data: proposals = [] } = useQuery<Proposal[]>({ queryKey: ["/api/admin/proposals"], enabled: showCreate });
+  const { data: projects = [] } = useQuery<Project[]>({ queryKey: ["/api/projects"], enabled: showCreate });
+  const { data: organizations = [] } = useQuery<Organization[]>({ queryKey: ["/api/admin/organizations"], enabled: showCreate });
+
+  const invoiceableProposals = proposals.filter(p => ["approved", "partially_approved", "converted"].includes(p.status));
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const body = { taxLines: toTaxPayload(taxes) };
+      const response = source === "proposal"
+        ? await apiRequest("POST", `/api/admin/proposals/${sourceId}/invoice`, body)
+        : source === "time"
+          ? await apiRequest("POST", `/api/admin/projects/${sourceId}/invoice-time`, body)
+          : await apiRequest("POST", "/api/admin/invoices", { ...body, title, organizationId: sourceId || null, lineItems: [] });
+      return response.json();
+    },
+    onSuccess: (invoice: Invoice & { missingRates?: string[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invoices"] });
+      setShowCreate(false);
+      setSourceId("");
+      setTitle("");
+      setTaxes([]);
+      setSelectedInvoiceId(invoice.id);
+      if (invoice.missingRates && invoice.missingRates.length > 0) {
+        toast({
+          title: "Some hours were skipped",
+          description: `No hourly rate for: ${invoice.missingRates.join(", ")}`,
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to create invoice", variant: "destructive" });
+    },
+  });
+
+  const filtered = statusFilter === "all" ? invoices : invoices.filter(invoice => invoice.status === statusFilter);
+  const outstanding = invoices
+    .filter(invoice => invoice.status === "sent" || invoice.status === "overdue")
+    .reduce((sum, invoice) => sum + Number(invoice.total) - Number(invoice.amountPaid), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900">Invoices</h2>
+          <p className="text-gray-600">Outstanding: {formatCurrency(outstanding)} CAD</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-36">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All statuses</SelectItem>
+              {Object.keys(INVOICE_STATUS_COLORS).map(status => (
+                <SelectItem key={status} value={status}>{status.charAt(0).toUpperCase() + status.slice(1)}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={() => setShowCreate(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Invoice
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {isLoading ? (
+            <div className="p-6 animate-pulse text-gray-500">Loading invoices...</div>
+          ) : filtered.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">
+              <Receipt className="h-10 w-10 mx-auto mb-2 text-gray-300" />
+              No invoices yet
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-gray-600">
+                  <th className="p-3 text-left font-medium">Number</th>
+                  <th className="p-3 text-left font-medium">Organization</th>
+                  <th className="p-3 text-left font-medium">Title</th>
+                  <th className="p-3 text-left font-medium">Status</th>
+                  <th className="p-3 text-right font-medium">Total</th>
+                  <th className="p-3 text-right font-medium">Balance</th>
+                  <th className="p-3 text-right font-medium">Due</th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map(invoice => (
+                  <tr
+                    key={invoice.id}
+                    className="border-b border-gray-100 cursor-pointer hover:bg-gray-50"
+                    onClick={() => setSelectedInvoiceId(invoice.id)}
+                  >
+                    <td className="p-3 font-mono text-xs">{invoice.invoiceNumber}</td>
+                    <td className="p-3">{invoice.organizationName || "—"}</td>
+                    <td className="p-3">{invoice.title}</td>
+                    <td className="p-3">
+                      <Badge className={INVOICE_STATUS_COLORS[invoice.status]}>{invoice.status.toUpperCase()}</Badge>
+                    </td>
+                    <td className="p-3 text-right">{formatCurrency(invoice.total)}</td>
+                    <td className="p-3 text-right">
+                      {invoice.status === "void" ? "—" : formatCurrency(Number(invoice.total) - Number(invoice.amountPaid))}
+                    </td>
+                    <td className="p-3 text-right">{invoice.dueDate ? new Date(invoice.dueDate).toLocaleDateString() : "—"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        <div className="lg:col-span-2">
+          <ArAgingReport />
+        </div>
+        <BillingRatesCard />
+      </div>
+
+      <Dialog open={showCreate} onOpenChange={setShowCreate}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>New Invoice</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Bill from</Label>
+              <Select value={source} onValueChange={(value) => { setSource(value as InvoiceSource); setSourceId(""); }}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="proposal">Approved proposal items</SelectItem>
+                  <SelectItem value="time">Tracked time on a project</SelectItem>
+                  <SelectItem value="manual">Blank invoice</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {source === "proposal" && (
+              <div className="space-y-2">
+                <Label>Proposal</Label>
+                <Select value={sourceId} onValueChange={setSourceId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a proposal" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {invoiceableProposals.map(proposal => (
+                      <SelectItem key={proposal.id} value={proposal.id}>
+                        {proposal.proposalNumber} — {proposal.title}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {source === "time" && (
+              <div className="space-y-2">
+                <Label className="flex items-center gap-2">
+                  <Clock3 className="h-4 w-4" />
+                  Project
+                </Label>
+                <Select value={sourceId} onValueChange={setSourceId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {projects.map(project => (
+                      <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-gray-500">Bills unbilled tracked hours at each team member's role rate</p>
+              </div>
+            )}
+
+            {source === "manual" && (
+              <>
+                <div className="space-y-2">
+                  <Label>Title</Label>
+                  <Input value={title} onChange={(e) => setTitle(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label>Organization</Label>
+                  <Select value={sourceId} onValueChange={setSourceId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select an organization" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {organizations.map(org => (
+                        <SelectItem key={org.id} value={org.id}>{org.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            )}
+
+            <div className="space-y-2">
+              <Label>Taxes</Label>
+              <TaxLinesEditor taxes={taxes} onChange={setTaxes} />
+            </div>
+
+            <Button
+              className="w-full"
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !sourceId || (source === "manual" && !title.trim())}
+            >
+              Create draft
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <InvoiceDetailDialog invoiceId={selectedInvoiceId} onClose={() => setSelectedInvoiceId(null)} />
+    </div>
+  );
+}
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Activity, RotateCcw } from "lucide-react";
+import type { Job } from "@shared/schema";
+
+interface JobsResponse {
+  jobs: Job[];
+  counts: Record<string, number>;
+}
+
+// "dead" jobs ran out of retries; they're what an admin needs to look at
+const STATUS_FILTERS = [
+  { value: "pending", label: "Pending" },
+  { value: "running", label: "Running" },
+  { value: "dead", label: "Failed" },
+  { value: "succeeded", label: "Succeeded" },
+  { value: "all", label: "All" },
+];
+
+const STATUS_BADGES: Record<string, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  pending: { label: "Pending", variant: "secondary" },
+  running: { label: "Running", variant: "outline" },
+  dead: { label: "Failed", variant: "destructive" },
+  succeeded: { label: "Succeeded", variant: "default" },
+  superseded: { label: "Superseded", variant: "secondary" },
+};
+
+const formatTime = (value: Date | string | null) => (value ? new Date(value).toLocaleString() : "—");
+
+// Admin view of the background job queue (calendar sync, emails, integration syncs) with manual retry
+export function JobMonitor() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState("dead");
+
+  const { data, isLoading } = useQuery<JobsResponse>({
+    queryKey: [`/api/admin/jobs?status=${status}`],
+    refetchInterval: 10000,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      await apiRequest("POST", `/api/admin/jobs/${jobId}/retry`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ predicate: (query) => String(query.queryKey[0]).startsWith("/api/admin/jobs") });
+      toast({ title: "Job queued for retry" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not retry job", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const jobs = data?.jobs || [];
+  const counts = data?.counts || {};
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Activity className="h-5 w-5 text-blue-600" />
+          Background Jobs
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {STATUS_FILTERS.map(filter => (
+            <Button
+              key={filter.value}
+              size="sm"
+              variant={status === filter.value ? "default" : "outline"}
+              onClick={() => setStatus(filter.value)}
+            >
+              {filter.label}
+              {filter.value !== "all" && <span className="ml-1 opacity-70">({counts[filter.value] || 0})</span>}
+            </Button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="animate-pulse text-gray-500">Loading jobs...</div>
+        ) : jobs.length === 0 ? (
+          <p className="text-sm text-gray-500">No jobs with this status</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-gray-600">
+                  <th className="py-2 pr-4 text-left font-medium">Type</th>
+                  <th className="py-2 pr-4 text-left font-medium">Status</th>
+                  <th className="py-2 pr-4 text-right font-medium">Attempts</th>
+                  <th className="py-2 pr-4 text-left font-medium">Next run / finished</th>
+                  <th className="py-2 pr-4 text-left font-medium">Details</th>
+                  <th className="py-2 text-right font-medium"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {jobs.map(job => {
+                  const badge = STATUS_BADGES[job.status] || { label: job.status, variant: "outline" as const };
+                  return (
+                    <tr key={job.id} className="border-b border-gray-100 align-top">
+                      <td className="py-2 pr-4">
+                        <div className="font-medium">{job.type}</div>
+                        <div className="text-xs text-gray-500">Queued {formatTime(job.createdAt)}</div>
+                      </td>
+                      <td className="py-2 pr-4">
+                        <Badge variant={badge.variant}>{badge.label}</Badge>
+                      </td>
+                      <td className="py-2 pr-4 text-right">{job.attempts}/{job.maxAttempts}</td>
+                      <td className="py-2 pr-4 text-gray-600">
+                        {job.status === "succeeded" || job.status === "dead" || job.status === "superseded"
+                          ? formatTime(job.completedAt ?? job.updatedAt)
+                          : formatTime(job.runAt)}
+                      </td>
+                      <td className="py-2 pr-4 max-w-md">
+                        {job.lastError && <div className="text-red-600 break-words">{job.lastError}</div>}
+                        {job.result && <div className="text-gray-600 break-words">{job.result}</div>}
+                        <div className="text-xs text-gray-400 break-all">{JSON.stringify(job.payload)}</div>
+                      </td>
+                      <td className="py-2 text-right">
+                        {job.status !== "running" && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => retryMutation.mutate(job.id)}
+                            disabled={retryMutation.isPending}
+                          >
+                            <RotateCcw className="h-3 w-3 mr-1" />
+                            {job.status === "pending" ? "Run now" : "Retry"}
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
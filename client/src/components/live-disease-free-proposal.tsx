@@ -144,6 +144,7 @@ export function LiveDiseaseFreeProposal({ clientId, organizationId, onClose }: L
       const convertResponse = await fetch(`/api/admin/proposals/${proposal.id}/convert`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ grouping: "item" }),
       });
 
       if (!convertResponse.ok) throw new Error("Failed to convert to projects");
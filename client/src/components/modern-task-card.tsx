@@ -19,6 +19,7 @@ import {
 import { TaskCalendarSync } from "./task-calendar-sync";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { formatDueTime } from "@/utils/timeFormatting";
 
 interface ModernTaskCardProps {
   task: any;
@@ -226,6 +227,11 @@ export function ModernTaskCard({ task, assignments = [], showProjectName = false
                   {task.dueDate && (
                     <span className="text-gray-500 ml-1">
                       {(() => {
+                        // Timed tasks render due_at in the viewer's timezone
+                        if (task.dueAt && task.dueTime) {
+                          return formatDueTime(task.dueAt);
+                        }
+                        
                         // Handle different date formats from API
                         let date;
                         
@@ -258,7 +264,6 @@ export function ModernTaskCard({ task, assignments = [], showProjectName = false
               <TaskCalendarSync
                 taskId={task.id}
                 taskTitle={task.title}
-                hasCalendarEvent={!!task.googleCalendarEventId}
                 className="opacity-0 group-hover:opacity-100 transition-opacity"
               />
               
@@ -0,0 +1,96 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import type { Notification } from "@shared/schema";
+
+interface NotificationBellProps {
+  // Lets the dashboard switch sections instead of reloading for /?section= links
+  onNavigate?: (section: string) => void;
+}
+
+export function NotificationBell({ onNavigate }: NotificationBellProps) {
+  const queryClient = useQueryClient();
+
+  const { data } = useQuery<{ notifications: Notification[]; unreadCount: number }>({
+    queryKey: ["/api/notifications"],
+    refetchInterval: 60000,
+  });
+
+  const notifications = data?.notifications || [];
+  const unreadCount = data?.unreadCount || 0;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/notifications"] });
+  };
+
+  const markReadMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/notifications/${id}/read`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSuccess: invalidate,
+  });
+
+  const open = (notification: Notification) => {
+    if (!notification.readAt) {
+      markReadMutation.mutate(notification.id);
+    }
+    if (!notification.link) return;
+
+    const section = new URL(notification.link, window.location.origin).searchParams.get("section");
+    if (section && onNavigate) {
+      onNavigate(section);
+    } else {
+      window.location.href = notification.link;
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[18px] h-[18px] rounded-full bg-red-600 px-1 text-[10px] font-semibold leading-[18px] text-white">
+              {unreadCount > 9 ? "9+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between border-b px-4 py-2">
+          <span className="text-sm font-medium">Notifications</span>
+          {unreadCount > 0 && (
+            <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => markAllReadMutation.mutate()}>
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 && (
+            <p className="px-4 py-6 text-center text-sm text-gray-500">You're all caught up.</p>
+          )}
+          {notifications.map(notification => (
+            <button
+              key={notification.id}
+              onClick={() => open(notification)}
+              className={`block w-full border-b px-4 py-3 text-left last:border-b-0 hover:bg-gray-50 ${notification.readAt ? "" : "bg-blue-50"}`}
+            >
+              <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+              {notification.body && <p className="mt-0.5 line-clamp-2 text-xs text-gray-600">{notification.body}</p>}
+              <p className="mt-1 text-[11px] text-gray-400">{new Date(notification.createdAt!).toLocaleString()}</p>
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
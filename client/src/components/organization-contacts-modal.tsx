@@ -5,10 +5,12 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } f
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Users, Mail, Phone, Building2, UserMinus, UserPlus } from "lucide-react";
-import type { Organization, User } from "@shared/schema";
+import { Users, Mail, Phone, Building2, UserMinus, UserPlus, Send, Clock } from "lucide-react";
+import type { Organization, TeamInvitation, User } from "@shared/schema";
+import { CONTACT_ACCESS_LEVELS, CONTACT_ACCESS_LABELS, type ContactAccess } from "@shared/permissions";
 
 interface OrganizationContactsModalProps {
   organization: Organization | null;
@@ -18,6 +20,8 @@ interface OrganizationContactsModalProps {
 
 export function OrganizationContactsModal({ organization, isOpen, onClose }: OrganizationContactsModalProps) {
   const [assigningUser, setAssigningUser] = useState<string>("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteAccess, setInviteAccess] = useState<ContactAccess>("full");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -27,6 +31,12 @@ export function OrganizationContactsModal({ organization, isOpen, onClose }: Org
     enabled: !!organization?.id && isOpen,
   });
 
+  const invitationsKey = [`/api/admin/organizations/${organization?.id}/invitations`];
+  const { data: pendingInvitations = [] } = useQuery<TeamInvitation[]>({
+    queryKey: invitationsKey,
+    enabled: !!organization?.id && isOpen,
+  });
+
   // Get all clients for assignment
   const { data: allClients } = useQuery<User[]>({
     queryKey: ["/api/admin/clients"],
@@ -99,6 +109,48 @@ export function OrganizationContactsModal({ organization, isOpen, onClose }: Org
     },
   });
 
+  const inviteMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/organizations/${organization?.id}/invitations`, {
+        email: inviteEmail,
+        contactAccess: inviteAccess,
+      });
+      return response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Contact Invited",
+        description: data.message,
+      });
+      queryClient.invalidateQueries({ queryKey: invitationsKey });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/organizations/${organization?.id}/users`] });
+      setInviteEmail("");
+      setInviteAccess("full");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateAccessMutation = useMutation({
+    mutationFn: ({ userId, contactAccess }: { userId: string; contactAccess: ContactAccess }) =>
+      apiRequest("PUT", `/api/admin/organizations/${organization?.id}/contacts/${userId}`, { contactAccess }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/organizations/${organization?.id}/users`] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleAssignUser = () => {
     if (assigningUser) {
       assignUserMutation.mutate(assigningUser);
@@ -122,7 +174,7 @@ export function OrganizationContactsModal({ organization, isOpen, onClose }: Org
             {organization.name} - Manage Contacts
           </DialogTitle>
           <DialogDescription>
-            Add or remove contacts for this organization.
+            Add or remove contacts for this organization. Contacts see all of its projects, limited by their access level.
           </DialogDescription>
         </DialogHeader>
 
@@ -157,6 +209,47 @@ export function OrganizationContactsModal({ organization, isOpen, onClose }: Org
             </div>
           </div>
 
+          {/* Invite a new contact */}
+          <div className="space-y-3">
+            <h3 className="font-medium text-gray-900">Invite Contact</h3>
+            <div className="flex gap-2">
+              <Input
+                type="email"
+                value={inviteEmail}
+                onChange={(e) => setInviteEmail(e.target.value)}
+                placeholder="contact@company.com"
+                className="flex-1"
+              />
+              <Select value={inviteAccess} onValueChange={(value) => setInviteAccess(value as ContactAccess)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONTACT_ACCESS_LEVELS.map(level => (
+                    <SelectItem key={level} value={level}>{CONTACT_ACCESS_LABELS[level]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => inviteMutation.mutate()}
+                disabled={!inviteEmail || inviteMutation.isPending}
+              >
+                <Send className="h-4 w-4 mr-1" />
+                Invite
+              </Button>
+            </div>
+            {pendingInvitations.map(invitation => (
+              <div key={invitation.id} className="flex items-center gap-2 text-sm text-gray-600">
+                <Clock className="h-3 w-3" />
+                {invitation.email}
+                <Badge variant="outline">
+                  {CONTACT_ACCESS_LABELS[(invitation.contactAccess || "full") as ContactAccess]}
+                </Badge>
+                <span className="text-gray-400">pending</span>
+              </div>
+            ))}
+          </div>
+
           {/* Current contacts */}
           <div className="space-y-3">
             <h3 className="font-medium text-gray-900">Current Contacts</h3>
@@ -202,15 +295,30 @@ export function OrganizationContactsModal({ organization, isOpen, onClose }: Org
                             )}
                           </div>
                         </div>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleRemoveUser(user.id)}
-                          disabled={removeUserMutation.isPending}
-                          className="text-red-600 hover:text-red-700 hover:bg-red-50"
-                        >
-                          <UserMinus className="h-4 w-4" />
-                        </Button>
+                        <div className="flex items-center gap-2">
+                          <Select
+                            value={user.contactAccess}
+                            onValueChange={(value) => updateAccessMutation.mutate({ userId: user.id, contactAccess: value as ContactAccess })}
+                          >
+                            <SelectTrigger className="w-36" aria-label="Access level">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {CONTACT_ACCESS_LEVELS.map(level => (
+                                <SelectItem key={level} value={level}>{CONTACT_ACCESS_LABELS[level]}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleRemoveUser(user.id)}
+                            disabled={removeUserMutation.isPending}
+                            className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                          >
+                            <UserMinus className="h-4 w-4" />
+                          </Button>
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
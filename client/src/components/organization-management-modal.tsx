@@ -12,6 +12,7 @@ import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import { Building2, Plus, Users, Edit } from "lucide-react";
 import { Organization, User } from "@shared/schema";
+import { isStaffRole } from "@shared/permissions";
 
 export function OrganizationManagementModal() {
   const [isOpen, setIsOpen] = useState(false);
@@ -238,7 +239,7 @@ export function OrganizationManagementModal() {
                         <SelectValue placeholder="Select primary contact" />
                       </SelectTrigger>
                       <SelectContent>
-                        {clients?.filter(client => client.role === 'client').map((client) => (
+                        {clients?.filter(client => !isStaffRole(client.role)).map((client) => (
                           <SelectItem key={client.id} value={client.id}>
                             {client.firstName} {client.lastName} ({client.email})
                           </SelectItem>
@@ -388,7 +389,7 @@ export function OrganizationManagementModal() {
                 <h4 className="font-medium mb-3">Available Clients to Add</h4>
                 {(() => {
                   const availableClients = clients?.filter(
-                    client => client.role === 'client' && !client.organizationId
+                    client => !isStaffRole(client.role) && !client.organizationId
                   ) || [];
                   
                   return availableClients.length === 0 ? (
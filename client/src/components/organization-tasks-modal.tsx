@@ -25,6 +25,7 @@ import { useToast } from '@/hooks/use-toast';
 import { TaskAssignmentManager } from './task-assignment-manager';
 import CreateOrganizationTaskModal from './create-organization-task-modal';
 import { DeleteConfirmationDialog } from './delete-confirmation-dialog';
+import { CalendarFeeds } from './calendar-feeds';
 import type { Organization, Service } from '@shared/schema';
 
 interface OrganizationTasksModalProps {
@@ -328,6 +329,10 @@ export function OrganizationTasksModal({ isOpen, onClose, organization, services
               })
             )}
           </div>
+
+          <div className="border-t pt-4">
+            <CalendarFeeds scope="organization" scopeId={organization.id} isAdmin />
+          </div>
         </DialogContent>
       </Dialog>
 
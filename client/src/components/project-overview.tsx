@@ -9,7 +9,7 @@ import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import type { Project, Task } from "@shared/schema";
 
-export default function ProjectOverview() {
+export default function ProjectOverview({ projectId }: { projectId?: string } = {}) {
   const { user } = useAuth();
   const { toast } = useToast();
 
@@ -30,7 +30,8 @@ export default function ProjectOverview() {
     },
   });
 
-  const activeProject = projects?.[0]; // For now, show the first project
+  // The first project unless one was picked, e.g. from search
+  const activeProject = (projects as Project[] | undefined)?.find(project => project.id === projectId) || projects?.[0];
 
   const { data: tasks } = useQuery({
     queryKey: ["/api/projects", activeProject?.id, "tasks"],
@@ -0,0 +1,40 @@
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { useAuth } from "@/hooks/useAuth";
+import { useProjectPresence } from "@/hooks/useRealtime";
+import { isStaffRole } from "@shared/permissions";
+
+const initialsOf = (name: string) =>
+  name.split(/\s+/).map(part => part[0]).join("").slice(0, 2).toUpperCase() || "?";
+
+// Who else has this project open right now
+export function ProjectPresence({ projectId }: { projectId: string | null | undefined }) {
+  const { user } = useAuth();
+  const others = useProjectPresence(projectId).filter(viewer => viewer.userId !== user?.id);
+
+  if (others.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="flex -space-x-2">
+        {others.slice(0, 4).map(viewer => (
+          <Tooltip key={viewer.userId}>
+            <TooltipTrigger asChild>
+              <Avatar className="h-7 w-7 border-2 border-white">
+                <AvatarFallback className="bg-green-100 text-green-700 text-xs">
+                  {initialsOf(viewer.name)}
+                </AvatarFallback>
+              </Avatar>
+            </TooltipTrigger>
+            <TooltipContent>
+              {viewer.name}{isStaffRole(viewer.role) ? " (Team)" : ""}
+            </TooltipContent>
+          </Tooltip>
+        ))}
+      </div>
+      <span className="text-xs text-gray-500">
+        {others.length === 1 ? `${others[0].name} is viewing` : `${others.length} others viewing`}
+      </span>
+    </div>
+  );
+}
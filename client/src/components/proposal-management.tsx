@@ -15,7 +15,8 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { Plus, FileText, CheckCircle, Clock, AlertTriangle, DollarSign, Calendar, Users, ArrowRight } from "lucide-react";
-import type { Proposal, ProposalItem, User, Organization } from "@shared/schema";
+import { ProposalSharing } from "@/components/proposal-sharing";
+import type { Proposal, ProposalItem, ProposalProject, User, Organization } from "@shared/schema";
 
 const proposalSchema = z.object({
   title: z.string().min(1, "Title is required"),
@@ -45,12 +46,26 @@ interface ProposalWithItems extends Proposal {
   items?: ProposalItem[];
   client?: User;
   organization?: Organization;
+  projectLinks?: ProposalProject[];
 }
 
+type ProposalGrouping = "phase" | "single" | "item";
+
+const GROUPING_LABELS: Record<ProposalGrouping, string> = {
+  phase: "One project per phase",
+  single: "One project for the whole proposal",
+  item: "One project per item",
+};
+
+// Approved items that haven't been turned into a project yet
+const unconvertedItems = (proposal: ProposalWithItems) =>
+  (proposal.items || []).filter(item => item.isApproved && !proposal.projectLinks?.some(link => link.proposalItemId === item.id));
+
 export function ProposalManagement() {
   const [showCreateProposal, setShowCreateProposal] = useState(false);
   const [selectedProposal, setSelectedProposal] = useState<ProposalWithItems | null>(null);
   const [showApprovalModal, setShowApprovalModal] = useState(false);
+  const [grouping, setGrouping] = useState<ProposalGrouping>("phase");
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -106,17 +121,28 @@ export function ProposalManagement() {
       const response = await fetch(`/api/admin/proposals/${proposalId}/convert`, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ grouping }),
       });
-      if (!response.ok) throw new Error("Failed to convert proposal to projects");
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new Error(error.message || "Failed to convert proposal to projects");
+      }
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/admin/proposals"] });
       queryClient.invalidateQueries({ queryKey: ["/api/admin/projects"] });
       setShowApprovalModal(false);
       toast({
-        title: "Projects created successfully",
-        description: "All approved items have been converted to individual projects.",
+        title: data.alreadyConverted ? "Already converted" : "Projects created successfully",
+        description: data.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Conversion failed",
+        description: error.message,
+        variant: "destructive",
       });
     },
   });
@@ -155,6 +181,10 @@ export function ProposalManagement() {
     
     if (proposal.status === "converted") {
       return <Badge className="bg-green-600">Converted to Projects</Badge>;
+    } else if (proposal.status === "declined") {
+      return <Badge variant="destructive">Declined</Badge>;
+    } else if (proposal.status === "expired") {
+      return <Badge variant="outline" className="text-red-600">Expired</Badge>;
     } else if (approvedItems === totalItems && totalItems > 0) {
       return <Badge className="bg-blue-600">Fully Approved</Badge>;
     } else if (approvedItems > 0) {
@@ -293,6 +323,15 @@ export function ProposalManagement() {
                     </div>
                   )}
 
+                  {proposal.projectLinks && proposal.projectLinks.length > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-gray-600">Projects:</span>
+                      <span className="font-medium">
+                        {new Set(proposal.projectLinks.map(link => link.projectId)).size} created
+                      </span>
+                    </div>
+                  )}
+
                   <div className="flex gap-2 mt-4">
                     <Button 
                       variant="outline" 
@@ -306,7 +345,7 @@ export function ProposalManagement() {
                       Manage Approvals
                     </Button>
                     
-                    {proposal.items?.some(item => item.isApproved) && proposal.status !== "converted" && (
+                    {unconvertedItems(proposal).length > 0 && (
                       <Button 
                         variant="default" 
                         size="sm"
@@ -350,6 +389,8 @@ export function ProposalManagement() {
                 </div>
               </div>
 
+              <ProposalSharing proposal={selectedProposal} items={selectedProposal.items || []} />
+
               {selectedProposal.items && selectedProposal.items.length > 0 ? (
                 <div className="space-y-3">
                   <h4 className="font-medium">Proposal Items</h4>
@@ -372,6 +413,9 @@ export function ProposalManagement() {
                               {item.phase && (
                                 <Badge variant="outline">Phase {item.phase}</Badge>
                               )}
+                              {selectedProposal.projectLinks?.some(link => link.proposalItemId === item.id) && (
+                                <Badge className="bg-green-600">Project created</Badge>
+                              )}
                             </div>
                             {item.description && (
                               <p className="text-sm text-gray-600 mb-2 ml-7">{item.description}</p>
@@ -404,14 +448,26 @@ export function ProposalManagement() {
                 <Button variant="outline" onClick={() => setShowApprovalModal(false)}>
                   Close
                 </Button>
-                {selectedProposal.items?.some(item => item.isApproved) && selectedProposal.status !== "converted" && (
-                  <Button 
-                    onClick={() => convertToProjectsMutation.mutate(selectedProposal.id)}
-                    disabled={convertToProjectsMutation.isPending}
-                    className="bg-green-600 hover:bg-green-700"
-                  >
-                    {convertToProjectsMutation.isPending ? "Converting..." : "Convert Approved Items to Projects"}
-                  </Button>
+                {unconvertedItems(selectedProposal).length > 0 && (
+                  <>
+                    <Select value={grouping} onValueChange={(value) => setGrouping(value as ProposalGrouping)}>
+                      <SelectTrigger className="w-72">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(GROUPING_LABELS) as ProposalGrouping[]).map(option => (
+                          <SelectItem key={option} value={option}>{GROUPING_LABELS[option]}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button 
+                      onClick={() => convertToProjectsMutation.mutate(selectedProposal.id)}
+                      disabled={convertToProjectsMutation.isPending}
+                      className="bg-green-600 hover:bg-green-700"
+                    >
+                      {convertToProjectsMutation.isPending ? "Converting..." : "Convert Approved Items to Projects"}
+                    </Button>
+                  </>
                 )}
               </div>
             </div>
@@ -0,0 +1,206 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Copy, FileSignature, Link2, Trash2 } from "lucide-react";
+import { formatCurrency } from "@/utils/currency";
+import type { Proposal, ProposalItem, ProposalLink, ProposalSignature } from "@shared/schema";
+
+interface ProposalLinksResponse {
+  links: ProposalLink[];
+  signatures: ProposalSignature[];
+}
+
+const DECISION_LABELS: Record<string, string> = {
+  full: "Approved in full",
+  partial: "Partially approved",
+  declined: "Declined",
+};
+
+const portalUrl = (token: string) => `${window.location.origin}/proposal/${token}`;
+
+// Admin side of the client proposal portal: share links, validity and the signature audit trail
+export function ProposalSharing({ proposal, items }: { proposal: Proposal; items: ProposalItem[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [contactName, setContactName] = useState("");
+  const [contactEmail, setContactEmail] = useState("");
+  const [sendEmail, setSendEmail] = useState(true);
+  const [validUntil, setValidUntil] = useState(
+    proposal.validUntil ? new Date(proposal.validUntil).toISOString().slice(0, 10) : ""
+  );
+
+  const { data } = useQuery<ProposalLinksResponse>({
+    queryKey: ["/api/admin/proposals", proposal.id, "links"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/proposals"] });
+  };
+
+  const copy = async (token: string) => {
+    await navigator.clipboard.writeText(portalUrl(token));
+    toast({ title: "Link copied" });
+  };
+
+  const shareMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/admin/proposals/${proposal.id}/links`, {
+        contactName: contactName || null,
+        contactEmail: contactEmail || null,
+        sendEmail: sendEmail && !!contactEmail,
+      });
+      return response.json();
+    },
+    onSuccess: (result) => {
+      invalidate();
+      setContactName("");
+      setContactEmail("");
+      navigator.clipboard?.writeText(result.proposalUrl).catch(() => undefined);
+      toast({
+        title: "Proposal shared",
+        description: result.emailQueued ? "The link was copied to your clipboard and will be emailed shortly." : "The link was copied to your clipboard.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not share proposal", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (linkId: string) => {
+      await apiRequest("DELETE", `/api/admin/proposal-links/${linkId}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const validityMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("PUT", `/api/admin/proposals/${proposal.id}/validity`, {
+        validUntil: validUntil ? `${validUntil}T23:59:59` : null,
+      });
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Validity updated" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not update validity", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const itemTitle = (id: string) => items.find(item => item.id === id)?.title || "Removed item";
+  const links = data?.links || [];
+  const signatures = data?.signatures || [];
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-gray-50 p-4 rounded-lg space-y-3">
+        <h4 className="font-medium flex items-center gap-2">
+          <Link2 className="h-4 w-4" />
+          Client Portal
+        </h4>
+
+        <div className="flex items-end gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Valid until</Label>
+            <Input type="date" value={validUntil} onChange={(e) => setValidUntil(e.target.value)} className="w-44" />
+          </div>
+          <Button variant="outline" size="sm" onClick={() => validityMutation.mutate()} disabled={validityMutation.isPending}>
+            Save
+          </Button>
+          {proposal.status === "expired" && <Badge variant="destructive">Expired</Badge>}
+        </div>
+
+        <div className="grid grid-cols-1 gap-2 md:grid-cols-[1fr_1fr_auto] md:items-end">
+          <div className="space-y-1">
+            <Label className="text-xs">Contact name</Label>
+            <Input value={contactName} onChange={(e) => setContactName(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Contact email</Label>
+            <Input type="email" value={contactEmail} onChange={(e) => setContactEmail(e.target.value)} />
+          </div>
+          <Button size="sm" onClick={() => shareMutation.mutate()} disabled={shareMutation.isPending}>
+            Create link
+          </Button>
+        </div>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <Checkbox checked={sendEmail} onCheckedChange={(value) => setSendEmail(value === true)} />
+          Email the link to the contact
+        </label>
+
+        {links.length > 0 && (
+          <div className="space-y-2">
+            {links.map(link => (
+              <div key={link.id} className="flex items-center justify-between rounded border bg-white p-2 text-sm">
+                <div>
+                  <span className="font-medium">{link.contactName || link.contactEmail || "Shared link"}</span>
+                  {link.contactName && link.contactEmail && <span className="text-gray-500"> · {link.contactEmail}</span>}
+                  <div className="text-xs text-gray-500">
+                    Created {new Date(link.createdAt!).toLocaleDateString()}
+                    {link.lastViewedAt ? ` · Last viewed ${new Date(link.lastViewedAt).toLocaleString()}` : " · Not opened yet"}
+                  </div>
+                </div>
+                {link.revokedAt ? (
+                  <Badge variant="outline">Revoked</Badge>
+                ) : (
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => copy(link.token)}>
+                      <Copy className="h-3 w-3" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => revokeMutation.mutate(link.id)}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {signatures.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="font-medium flex items-center gap-2">
+            <FileSignature className="h-4 w-4" />
+            Signatures
+          </h4>
+          {signatures.map(signature => (
+            <div key={signature.id} className="rounded-lg border p-3 text-sm space-y-1">
+              <div className="flex items-center justify-between">
+                <span className="font-medium">
+                  {signature.signerName}
+                  {signature.signerEmail && <span className="text-gray-500 font-normal"> · {signature.signerEmail}</span>}
+                </span>
+                <Badge variant={signature.decision === "declined" ? "destructive" : "default"}>
+                  {DECISION_LABELS[signature.decision] || signature.decision}
+                </Badge>
+              </div>
+              {signature.decision !== "declined" && (
+                <div>
+                  {formatCurrency(signature.approvedTotal)} approved: {signature.approvedItemIds.map(itemTitle).join(", ")}
+                </div>
+              )}
+              {signature.comments && <div className="italic text-gray-700">"{signature.comments}"</div>}
+              {signature.itemComments && Object.entries(signature.itemComments).map(([itemId, comment]) => (
+                <div key={itemId} className="text-gray-700">
+                  <span className="font-medium">{itemTitle(itemId)}:</span> {comment}
+                </div>
+              ))}
+              <div className="text-xs text-gray-500 break-all">
+                Signed {new Date(signature.signedAt).toLocaleString()} · IP {signature.ipAddress || "unknown"} · SHA-256 {signature.contentHash}
+              </div>
+              {signature.userAgent && <div className="text-xs text-gray-400 truncate">{signature.userAgent}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
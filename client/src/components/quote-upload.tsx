@@ -8,9 +8,11 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
-import { Upload, FileText, CheckCircle, Loader2, Eye, PlayCircle } from "lucide-react";
+import { Upload, FileText, CheckCircle, Loader2, Eye, PlayCircle, Plus, Trash2, AlertTriangle, ArrowLeft, RefreshCw } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { formatCurrency } from "@/utils/currency";
+import type { Service, QuoteLineItem } from "@shared/schema";
 
 interface Quote {
   id: string;
@@ -35,101 +37,99 @@ interface Quote {
     id: string;
     name: string;
   };
+  parsedData?: ParsedQuoteSummary | null;
 }
 
+interface ParsedQuoteSummary {
+  format?: string;
+  subtotal?: number | null;
+  tax?: number | null;
+  documentTotal?: number | null;
+  warnings?: string[];
+  reviewedAt?: string;
+}
+
+interface ReviewLine {
+  description: string;
+  serviceId: string;
+  quantity: string;
+  unitPrice: string;
+  estimatedHours: string;
+}
+
+// Quote (with its current line items) as returned by the upload, review and re-parse endpoints
+type QuoteWithLineItems = Quote & { lineItems: QuoteLineItem[] };
+
+const NO_SERVICE = "none";
+const NO_CLIENT = "none";
+
+const QUOTE_FILE_EXTENSIONS = [".pdf", ".docx", ".xlsx", ".csv", ".txt"];
+
+const toReviewLines = (items: QuoteLineItem[]): ReviewLine[] =>
+  items.map(item => ({
+    description: item.description,
+    serviceId: item.serviceId || NO_SERVICE,
+    quantity: String(Number(item.quantity ?? 1)),
+    unitPrice: String(Number(item.unitPrice)),
+    estimatedHours: item.estimatedHours != null ? String(item.estimatedHours) : "",
+  }));
+
 export function QuoteUpload() {
-  const [uploadStep, setUploadStep] = useState<'upload' | 'details' | 'processing'>('upload');
+  const [uploadStep, setUploadStep] = useState<'upload' | 'review'>('upload');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [reviewQuote, setReviewQuote] = useState<Quote | null>(null);
+  const [reviewLines, setReviewLines] = useState<ReviewLine[]>([]);
   const [quoteDetails, setQuoteDetails] = useState({
     title: '',
-    description: '',
-    totalAmount: '',
-    clientId: '',
-    organizationId: '',
+    tax: '',
+    clientId: NO_CLIENT,
+    organizationId: NO_CLIENT,
   });
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
   // Fetch clients for dropdown
-  const { data: clients } = useQuery({
+  const { data: clients } = useQuery<{ id: string; firstName?: string; lastName?: string; email?: string; companyName?: string }[]>({
     queryKey: ["/api/admin/clients"],
-    onError: (error: Error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-    },
   });
 
   // Fetch organizations for dropdown
-  const { data: organizations } = useQuery({
-    queryKey: ["/api/organizations"],
-    onError: (error: Error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-    },
+  const { data: organizations } = useQuery<{ id: string; name: string }[]>({
+    queryKey: ["/api/admin/organizations"],
+  });
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
   });
 
   // Fetch quotes
   const { data: quotes, isLoading: quotesLoading } = useQuery<Quote[]>({
     queryKey: ["/api/quotes"],
-    onError: (error: Error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-    },
   });
 
   // Upload quote mutation
   const uploadQuoteMutation = useMutation({
-    mutationFn: async (formData: FormData) => {
-      const response = await apiRequest("POST", "/api/quotes/upload", formData, {
-        headers: {}, // Let browser set the Content-Type for FormData
+    mutationFn: async (formData: FormData): Promise<QuoteWithLineItems> => {
+      // apiRequest JSON-encodes its body, so multipart uploads go through fetch directly
+      const response = await fetch("/api/quotes/upload", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
       });
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.message || "Failed to upload quote");
+        const error = await response.json().catch(() => ({}));
+        throw new Error(`${response.status}: ${error.error || error.message || "Failed to upload quote"}`);
       }
       return response.json();
     },
     onSuccess: (data) => {
       toast({
         title: "Quote Uploaded",
-        description: `Quote "${data.title}" has been uploaded successfully.`,
-      });
-      setUploadStep('details');
-      setQuoteDetails({
-        title: data.title || '',
-        description: data.description || '',
-        totalAmount: data.totalAmount || '',
-        clientId: '',
-        organizationId: '',
+        description: `Found ${data.lineItems.length} line item${data.lineItems.length === 1 ? '' : 's'} in "${data.title}". Review them before saving.`,
       });
+      setSelectedFile(null);
+      startReview(data, data.lineItems);
       queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
     },
     onError: (error: Error) => {
@@ -191,14 +191,97 @@ export function QuoteUpload() {
     },
   });
 
+  // Save the corrected parse; the server recomputes line totals and the quote total
+  const saveReviewMutation = useMutation({
+    mutationFn: async (): Promise<QuoteWithLineItems> => {
+      const response = await apiRequest("PUT", `/api/quotes/${reviewQuote!.id}/line-items`, {
+        title: quoteDetails.title,
+        tax: quoteDetails.tax === '' ? null : Number(quoteDetails.tax),
+        clientId: quoteDetails.clientId === NO_CLIENT ? null : quoteDetails.clientId,
+        organizationId: quoteDetails.organizationId === NO_CLIENT ? null : quoteDetails.organizationId,
+        lineItems: reviewLines.map(line => ({
+          description: line.description,
+          serviceId: line.serviceId === NO_SERVICE ? null : line.serviceId,
+          quantity: Number(line.quantity),
+          unitPrice: Number(line.unitPrice),
+          estimatedHours: line.estimatedHours === '' ? null : Math.round(Number(line.estimatedHours)),
+        })),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Quote Saved",
+        description: `${data.lineItems.length} line items saved, total ${formatCurrency(data.totalAmount)}.`,
+      });
+      setUploadStep('upload');
+      setReviewQuote(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Save Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const reparseMutation = useMutation({
+    mutationFn: async (quoteId: string): Promise<QuoteWithLineItems> => {
+      const response = await apiRequest("POST", `/api/quotes/${quoteId}/reparse`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      startReview(data, data.lineItems);
+      queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Re-parse Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const startReview = (quote: Quote, lineItems: QuoteLineItem[]) => {
+    setReviewQuote(quote);
+    setReviewLines(toReviewLines(lineItems));
+    setQuoteDetails({
+      title: quote.title || '',
+      tax: quote.parsedData?.tax != null ? String(quote.parsedData.tax) : '',
+      clientId: quote.clientId || NO_CLIENT,
+      organizationId: quote.organizationId || NO_CLIENT,
+    });
+    setUploadStep('review');
+  };
+
+  const openReview = async (quote: Quote) => {
+    try {
+      const response = await apiRequest("GET", `/api/quotes/${quote.id}/line-items`);
+      startReview(quote, await response.json());
+    } catch (error) {
+      toast({
+        title: "Could not load quote",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateLine = (index: number, changes: Partial<ReviewLine>) =>
+    setReviewLines(reviewLines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
   const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      const validTypes = ['application/pdf', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'text/plain'];
-      if (!validTypes.includes(file.type)) {
+      // Browsers report CSV/XLSX MIME types inconsistently, so check the extension instead
+      const extension = file.name.slice(file.name.lastIndexOf('.')).toLowerCase();
+      if (!QUOTE_FILE_EXTENSIONS.includes(extension)) {
         toast({
           title: "Invalid File Type",
-          description: "Please upload a PDF, Word document, or text file.",
+          description: "Please upload a PDF, Word (.docx), Excel (.xlsx), CSV or text file.",
           variant: "destructive",
         });
         return;
@@ -216,17 +299,12 @@ export function QuoteUpload() {
     uploadQuoteMutation.mutate(formData);
   };
 
-  const handleQuoteDetailsSubmit = async (e: React.FormEvent) => {
+  const reviewSubtotal = reviewLines.reduce((sum, line) => sum + (Number(line.quantity) || 0) * (Number(line.unitPrice) || 0), 0);
+  const reviewValid = reviewLines.every(line => line.description.trim() && Number(line.quantity) > 0 && Number(line.unitPrice) >= 0);
+
+  const handleQuoteDetailsSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
-    // Here we would update the quote with client/organization details
-    // For now, we'll just show success
-    toast({
-      title: "Quote Details Updated",
-      description: "Quote is ready for conversion to project.",
-    });
-    setUploadStep('processing');
-    queryClient.invalidateQueries({ queryKey: ["/api/quotes"] });
+    saveReviewMutation.mutate();
   };
 
   const getStatusBadge = (status: string) => {
@@ -266,12 +344,12 @@ export function QuoteUpload() {
                   Choose quote file or drag and drop
                 </Label>
                 <p className="text-sm text-gray-500">
-                  Supports PDF, Word documents, and text files
+                  Supports PDF, Word (.docx), Excel (.xlsx), CSV and text files
                 </p>
                 <Input
                   id="quote-upload"
                   type="file"
-                  accept=".pdf,.docx,.doc,.txt"
+                  accept={QUOTE_FILE_EXTENSIONS.join(",")}
                   onChange={handleFileSelect}
                   className="hidden"
                 />
@@ -364,9 +442,9 @@ export function QuoteUpload() {
                     </div>
                     
                     <div className="flex gap-2 mt-3">
-                      <Button variant="outline" size="sm">
+                      <Button variant="outline" size="sm" onClick={() => openReview(quote)}>
                         <Eye className="h-4 w-4 mr-1" />
-                        View Details
+                        {quote.status === 'converted' ? 'View Details' : 'Review Line Items'}
                       </Button>
                       {quote.status === 'approved' && !quote.projectId && (
                         <Button
@@ -404,6 +482,240 @@ export function QuoteUpload() {
     );
   }
 
-  // Additional steps would be rendered here
-  return null;
+  // Review step: staff correct the parsed line items before they are saved
+  const parsed = reviewQuote?.parsedData;
+  const tax = Number(quoteDetails.tax) || 0;
+  const isConverted = reviewQuote?.status === 'converted';
+
+  return (
+    <form onSubmit={handleQuoteDetailsSubmit} className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Review Quote
+              </CardTitle>
+              <CardDescription>
+                {reviewQuote?.quoteNumber}
+                {reviewQuote?.fileName && <> · {reviewQuote.fileName}</>}
+                {parsed?.format && <> · parsed as {parsed.format.toUpperCase()}</>}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              {reviewQuote?.fileName && !isConverted && (
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => reparseMutation.mutate(reviewQuote.id)}
+                  disabled={reparseMutation.isPending}
+                >
+                  <RefreshCw className={`h-4 w-4 mr-1 ${reparseMutation.isPending ? 'animate-spin' : ''}`} />
+                  Re-parse
+                </Button>
+              )}
+              <Button type="button" variant="ghost" size="sm" onClick={() => setUploadStep('upload')}>
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {parsed?.warnings && parsed.warnings.length > 0 && (
+            <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800 space-y-1">
+              {parsed.warnings.map((warning, index) => (
+                <div key={index} className="flex items-start gap-2">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  {warning}
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+            <div className="space-y-1">
+              <Label htmlFor="quote-title">Title</Label>
+              <Input
+                id="quote-title"
+                value={quoteDetails.title}
+                onChange={(e) => setQuoteDetails({ ...quoteDetails, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Client</Label>
+              <Select value={quoteDetails.clientId} onValueChange={(value) => setQuoteDetails({ ...quoteDetails, clientId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select client" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CLIENT}>No client</SelectItem>
+                  {clients?.map(client => (
+                    <SelectItem key={client.id} value={client.id}>
+                      {[client.firstName, client.lastName].filter(Boolean).join(' ') || client.email}
+                      {client.companyName && ` - ${client.companyName}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Organization</Label>
+              <Select
+                value={quoteDetails.organizationId}
+                onValueChange={(value) => setQuoteDetails({ ...quoteDetails, organizationId: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select organization" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CLIENT}>No organization</SelectItem>
+                  {organizations?.map(organization => (
+                    <SelectItem key={organization.id} value={organization.id}>{organization.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-gray-600">
+                  <th className="py-2 text-left font-medium">Description</th>
+                  <th className="py-2 text-left font-medium w-48">Service</th>
+                  <th className="py-2 text-right font-medium w-24">Qty</th>
+                  <th className="py-2 text-right font-medium w-32">Unit price</th>
+                  <th className="py-2 text-right font-medium w-24">Hours</th>
+                  <th className="py-2 text-right font-medium w-32">Total</th>
+                  <th className="w-10" />
+                </tr>
+              </thead>
+              <tbody>
+                {reviewLines.map((line, index) => (
+                  <tr key={index} className="border-b border-gray-100">
+                    <td className="py-1 pr-2">
+                      <Input value={line.description} onChange={(e) => updateLine(index, { description: e.target.value })} />
+                    </td>
+                    <td className="py-1 px-1">
+                      <Select value={line.serviceId} onValueChange={(value) => updateLine(index, { serviceId: value })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_SERVICE}>No service</SelectItem>
+                          {services.map(service => (
+                            <SelectItem key={service.id} value={service.id}>{service.name}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </td>
+                    <td className="py-1 px-1">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        value={line.quantity}
+                        onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                        className="text-right"
+                      />
+                    </td>
+                    <td className="py-1 px-1">
+                      <Input
+                        type="number"
+                        step="0.01"
+                        value={line.unitPrice}
+                        onChange={(e) => updateLine(index, { unitPrice: e.target.value })}
+                        className="text-right"
+                      />
+                    </td>
+                    <td className="py-1 px-1">
+                      <Input
+                        type="number"
+                        step="1"
+                        value={line.estimatedHours}
+                        onChange={(e) => updateLine(index, { estimatedHours: e.target.value })}
+                        className="text-right"
+                      />
+                    </td>
+                    <td className="py-1 text-right">
+                      {formatCurrency((Number(line.quantity) || 0) * (Number(line.unitPrice) || 0))}
+                    </td>
+                    <td className="py-1 text-right">
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setReviewLines(reviewLines.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+                {reviewLines.length === 0 && (
+                  <tr>
+                    <td colSpan={7} className="py-6 text-center text-gray-500">No line items</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setReviewLines([...reviewLines, { description: '', serviceId: NO_SERVICE, quantity: '1', unitPrice: '0', estimatedHours: '' }])}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add line
+          </Button>
+
+          <div className="ml-auto w-72 space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600">Subtotal</span>
+              <span>{formatCurrency(reviewSubtotal)}</span>
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-gray-600">Tax</span>
+              <Input
+                type="number"
+                step="0.01"
+                value={quoteDetails.tax}
+                onChange={(e) => setQuoteDetails({ ...quoteDetails, tax: e.target.value })}
+                className="h-8 w-32 text-right"
+              />
+            </div>
+            <div className="flex justify-between border-t pt-1 font-semibold">
+              <span>Total</span>
+              <span>{formatCurrency(reviewSubtotal + tax)}</span>
+            </div>
+            {parsed?.documentTotal != null && Math.abs(parsed.documentTotal - (reviewSubtotal + tax)) > 0.01 && (
+              <div className="text-xs text-yellow-700">Document total was {formatCurrency(parsed.documentTotal)}</div>
+            )}
+          </div>
+
+          {isConverted && (
+            <p className="text-sm text-gray-500">This quote has been converted to a project and can no longer be edited.</p>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" onClick={() => setUploadStep('upload')}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isConverted || !reviewValid || saveReviewMutation.isPending}>
+              {saveReviewMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <CheckCircle className="h-4 w-4 mr-2" />
+              )}
+              Save Quote
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </form>
+  );
 }
\ No newline at end of file
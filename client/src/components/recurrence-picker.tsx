@@ -0,0 +1,110 @@
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Repeat } from "lucide-react";
+
+export type RecurrenceScope = 'this' | 'following';
+
+interface RecurrencePreview {
+  rule: string;
+  description: string;
+  occurrences: string[];
+}
+
+const PRESETS = [
+  { value: "FREQ=DAILY", label: "Daily" },
+  { value: "FREQ=WEEKLY", label: "Weekly" },
+  { value: "FREQ=WEEKLY;INTERVAL=2", label: "Every 2 weeks" },
+  { value: "FREQ=MONTHLY", label: "Monthly" },
+  { value: "FREQ=MONTHLY;INTERVAL=3", label: "Quarterly" },
+  { value: "FREQ=YEARLY", label: "Yearly" },
+];
+
+interface RecurrencePickerProps {
+  rule: string;
+  onRuleChange: (rule: string) => void;
+  dueDate?: string;
+  dueTime?: string;
+  // Only shown when editing an occurrence of an existing series
+  scope?: RecurrenceScope;
+  onScopeChange?: (scope: RecurrenceScope) => void;
+}
+
+export function RecurrencePicker({ rule, onRuleChange, dueDate, dueTime, scope, onScopeChange }: RecurrencePickerProps) {
+  const preset = !rule ? "none" : PRESETS.some(p => p.value === rule) ? rule : "custom";
+
+  // Preview starts at the task's due slot so the listed dates match what will be generated
+  const start = dueDate ? (/^\d{2}:\d{2}$/.test(dueTime || "") ? `${dueDate}T${dueTime}` : dueDate) : "";
+  const params = new URLSearchParams({ rule });
+  if (start) params.set("start", start);
+
+  const { data: preview, error } = useQuery<RecurrencePreview>({
+    queryKey: [`/api/recurrence/preview?${params.toString()}`],
+    enabled: !!rule,
+    retry: false,
+  });
+
+  return (
+    <div className="space-y-2">
+      <Label className="flex items-center gap-2">
+        <Repeat className="h-4 w-4" />
+        Repeat
+      </Label>
+      <Select
+        value={preset}
+        onValueChange={(value) => onRuleChange(value === "none" ? "" : value === "custom" ? rule || "FREQ=WEEKLY;BYDAY=MO" : value)}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="z-50">
+          <SelectItem value="none">Does not repeat</SelectItem>
+          {PRESETS.map(p => (
+            <SelectItem key={p.value} value={p.value}>{p.label}</SelectItem>
+          ))}
+          <SelectItem value="custom">Custom (RRULE)</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {preset === "custom" && (
+        <Input
+          value={rule}
+          onChange={(e) => onRuleChange(e.target.value.toUpperCase())}
+          placeholder="FREQ=MONTHLY;BYDAY=1MO"
+          className="font-mono text-sm"
+        />
+      )}
+
+      {rule && !dueDate && (
+        <p className="text-xs text-amber-600">Recurring tasks need a due date and time</p>
+      )}
+      {rule && error && (
+        <p className="text-xs text-red-500">This repeat rule is not valid</p>
+      )}
+      {rule && preview && (
+        <p className="text-xs text-gray-500">
+          {preview.description}
+          {preview.occurrences.length > 0 && (
+            <> — next: {preview.occurrences.slice(0, 3).map(o => new Date(o).toLocaleDateString()).join(", ")}</>
+          )}
+        </p>
+      )}
+
+      {scope && onScopeChange && (
+        <div className="space-y-1">
+          <Label className="text-xs text-gray-600">Apply changes to</Label>
+          <Select value={scope} onValueChange={(value) => onScopeChange(value as RecurrenceScope)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="z-50">
+              <SelectItem value="this">This occurrence</SelectItem>
+              <SelectItem value="following">This and following occurrences</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+
+interface RequestApprovalDialogProps {
+  subject: { type: "task" | "file"; id: string; title: string } | null;
+  onClose: () => void;
+  onRequested?: () => void;
+}
+
+// Asks the project's client contact to approve a task or file
+export function RequestApprovalDialog({ subject, onClose, onRequested }: RequestApprovalDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [message, setMessage] = useState("");
+
+  const requestMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/approvals", {
+        subjectType: subject!.type,
+        subjectId: subject!.id,
+        message: message.trim() || undefined,
+      });
+      return response.json();
+    },
+    onSuccess: (result: { emailQueued: boolean }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/approvals"] });
+      toast({
+        title: "Approval requested",
+        description: result.emailQueued
+          ? "The client has been notified in the app and by email."
+          : "The client has been notified in the app.",
+      });
+      setMessage("");
+      onRequested?.();
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not request approval", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={!!subject} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Request Client Approval</DialogTitle>
+          <DialogDescription>
+            {subject?.title} will wait for the client to approve, reject or request changes.
+          </DialogDescription>
+        </DialogHeader>
+        <Textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="Optional note for the client, e.g. what to look at"
+          rows={4}
+        />
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={() => requestMutation.mutate()} disabled={requestMutation.isPending || !subject}>
+            Send Request
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
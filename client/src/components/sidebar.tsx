@@ -1,3 +1,4 @@
+import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { 
@@ -9,32 +10,49 @@ import {
   LogOut,
   BarChart,
   Upload,
-  Shield
+  Shield,
+  Receipt,
+  ClipboardCheck
 } from "lucide-react";
 import type { User } from "@shared/schema";
+import { hasPermission, type Permission } from "@shared/permissions";
+import { CommandPalette, type SearchResult } from "@/components/command-palette";
 
 interface SidebarProps {
   activeSection: string;
   setActiveSection: (section: string) => void;
   collapsed: boolean;
   user: User;
+  onSearchSelect: (result: SearchResult) => void;
 }
 
-const navigation = [
+// Sections with a permission are hidden from contacts whose access level leaves it out
+const navigation: { id: string; label: string; icon: typeof Home; permission?: Permission }[] = [
   { id: "overview", label: "Project Overview", icon: Home },
   { id: "tasks", label: "Tasks & Services", icon: CheckSquare },
   { id: "analytics", label: "Analytics & Reports", icon: BarChart3 },
-  { id: "files", label: "Project Files", icon: Folder },
-  { id: "updates", label: "Updates & Messages", icon: MessageSquare },
+  { id: "files", label: "Project Files", icon: Folder, permission: "files.view" },
+  { id: "approvals", label: "Approvals", icon: ClipboardCheck, permission: "approvals.decide" },
+  { id: "updates", label: "Updates & Messages", icon: MessageSquare, permission: "messages.view" },
+  { id: "invoices", label: "Invoices", icon: Receipt, permission: "invoices.view" },
   { id: "quotes", label: "Quote Upload", icon: Upload },
   { id: "admin-upgrade", label: "Get Admin Access", icon: Shield },
 ];
 
-export default function Sidebar({ activeSection, setActiveSection, collapsed, user }: SidebarProps) {
+export default function Sidebar({ activeSection, setActiveSection, collapsed, user, onSearchSelect }: SidebarProps) {
   const handleLogout = () => {
     window.location.href = "/auth/logout";
   };
 
+  const { data: unread } = useQuery<{ total: number }>({
+    queryKey: ["/api/messages/unread-counts"],
+    refetchInterval: 60000,
+  });
+
+  const visibleNavigation = navigation.filter(item =>
+    !item.permission || hasPermission(user.role, item.permission, user.contactAccess)
+  );
+
   return (
     <div className={cn(
       "fixed top-0 left-0 h-screen bg-gradient-to-b from-blue-600 to-blue-700 text-white transition-transform duration-300 z-50",
@@ -49,8 +67,15 @@ export default function Sidebar({ activeSection, setActiveSection, collapsed, us
         <p className="text-blue-100 text-sm">Client Dashboard</p>
       </div>
 
+      <div className="px-4 mb-4">
+        <CommandPalette
+          onSelect={onSearchSelect}
+          className="border-white/20 text-blue-100 hover:bg-white/10"
+        />
+      </div>
+
       <nav className="px-4 space-y-2">
-        {navigation.map((item) => {
+        {visibleNavigation.map((item) => {
           const Icon = item.icon;
           const isActive = activeSection === item.id;
           
@@ -66,6 +91,11 @@ export default function Sidebar({ activeSection, setActiveSection, collapsed, us
             >
               <Icon className="h-5 w-5 mr-3" />
               {item.label}
+              {item.id === "updates" && !!unread?.total && (
+                <span className="ml-auto rounded-full bg-white text-blue-700 text-xs font-semibold px-2 py-0.5">
+                  {unread.total}
+                </span>
+              )}
             </Button>
           );
         })}
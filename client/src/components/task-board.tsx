@@ -0,0 +1,409 @@
+import { useState } from "react";
+import { useInfiniteQuery, useMutation, useQuery, useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { DndContext, PointerSensor, KeyboardSensor, useDraggable, useDroppable, useSensor, useSensors, type DragEndEvent } from "@dnd-kit/core";
+import { CSS } from "@dnd-kit/utilities";
+import { AlertTriangle, Calendar, Gauge } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { cn } from "@/lib/utils";
+import { hasPermission } from "@shared/permissions";
+import { TASK_STATUSES, type TaskStatus, type WipLimits } from "@shared/schema";
+
+// Tasks with a status the board doesn't know (older or imported data) collect in "Other" instead of vanishing
+type Column = TaskStatus | "other";
+
+const STATUS_LABELS: Record<Column, string> = {
+  in_progress: "In Progress",
+  needs_approval: "Needs Approval",
+  outstanding: "Outstanding",
+  needs_clarification: "Needs Clarification",
+  completed: "Completed",
+  other: "Other",
+};
+
+const STATUS_ACCENTS: Record<Column, string> = {
+  in_progress: "border-t-blue-500",
+  needs_approval: "border-t-yellow-500",
+  outstanding: "border-t-red-500",
+  needs_clarification: "border-t-orange-500",
+  completed: "border-t-green-500",
+  other: "border-t-gray-400",
+};
+
+const isBoardStatus = (status: string): status is TaskStatus => (TASK_STATUSES as readonly string[]).includes(status);
+const columnOf = (task: any): Column => (isBoardStatus(task.status) ? task.status : "other");
+
+type Swimlane = "none" | "assignee" | "organization";
+
+interface TaskPage {
+  tasks: any[];
+  nextCursor: string | null;
+}
+
+interface Lane {
+  key: string;
+  label: string;
+  tasks: any[];
+}
+
+const laneOf = (task: any, swimlane: Swimlane): { key: string; label: string } => {
+  if (swimlane === "assignee") {
+    // A task with several assignees sits in its first assignee's lane
+    const member = task.assignments?.[0]?.teamMember;
+    return member ? { key: member.id, label: member.name } : { key: "unassigned", label: "Unassigned" };
+  }
+  if (swimlane === "organization") {
+    const organization = task.organization || task.project?.organization;
+    return organization ? { key: organization.id, label: organization.name } : { key: "none", label: "No organization" };
+  }
+  return { key: "all", label: "" };
+};
+
+function BoardCard({ task, showProject }: { task: any; showProject: boolean }) {
+  const { attributes, listeners, setNodeRef, transform, isDragging } = useDraggable({ id: task.id });
+  const overdue = task.dueDate && new Date(task.dueDate) < new Date() && task.status !== "completed";
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Translate.toString(transform) }}
+      {...listeners}
+      {...attributes}
+      className={cn(
+        "rounded-md border bg-white p-3 shadow-sm cursor-grab active:cursor-grabbing",
+        isDragging && "relative z-50 shadow-lg opacity-90"
+      )}
+    >
+      <p className="text-sm font-medium text-gray-900">{task.title}</p>
+      {showProject && task.project?.name && (
+        <p className="text-xs text-gray-500 mt-0.5">{task.project.name}</p>
+      )}
+      <div className="flex items-center gap-2 mt-2 flex-wrap">
+        {(task.priority === "high" || task.priority === "urgent") && (
+          <Badge variant="destructive" className="text-xs">{task.priority === "urgent" ? "URGENT" : "High"}</Badge>
+        )}
+        {task.dueDate && (
+          <span className={cn("flex items-center gap-1 text-xs", overdue ? "text-red-600 font-medium" : "text-gray-500")}>
+            <Calendar className="h-3 w-3" />
+            {new Date(task.dueDate).toLocaleDateString()}
+          </span>
+        )}
+        {task.assignments?.length > 0 && (
+          <span className="ml-auto text-xs text-gray-500">
+            {task.assignments.map((assignment: any) => assignment.teamMember.name.split(" ")[0]).join(", ")}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function BoardColumn({ laneKey, status, tasks, count, limit, showProject }: {
+  laneKey: string;
+  status: Column;
+  tasks: any[];
+  count: number;
+  limit?: number;
+  showProject: boolean;
+}) {
+  // Nothing can be moved into "Other"; its cards can only be moved out
+  const { setNodeRef, isOver } = useDroppable({ id: `${laneKey}::${status}`, data: { status }, disabled: status === "other" });
+  const overLimit = limit !== undefined && count > limit;
+
+  return (
+    <div
+      ref={setNodeRef}
+      className={cn(
+        "flex flex-col gap-2 rounded-lg border-t-4 bg-gray-50 p-2 min-h-[120px] transition-colors",
+        STATUS_ACCENTS[status],
+        isOver && "bg-blue-50",
+        overLimit && "bg-red-50"
+      )}
+    >
+      {tasks.map(task => (
+        <BoardCard key={task.id} task={task} showProject={showProject} />
+      ))}
+    </div>
+  );
+}
+
+interface TaskBoardProps {
+  // Omit for the agency-wide board
+  projectId?: string;
+}
+
+export function TaskBoard({ projectId }: TaskBoardProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const canManage = hasPermission(user?.role, "tasks.manage");
+  const [swimlane, setSwimlane] = useState<Swimlane>("none");
+  const [editingLimits, setEditingLimits] = useState<Partial<Record<TaskStatus, string>> | null>(null);
+
+  const sensors = useSensors(
+    // A short drag distance keeps clicks on cards working
+    useSensor(PointerSensor, { activationConstraint: { distance: 5 } }),
+    useSensor(KeyboardSensor)
+  );
+
+  const queryString = new URLSearchParams({
+    ...(projectId ? { projectId } : {}),
+    sortBy: "priority",
+    sortDir: "desc",
+    limit: "200",
+  }).toString();
+  const tasksKey = ["/api/admin/tasks", "board", projectId || "all"];
+
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = useInfiniteQuery({
+    queryKey: tasksKey,
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }) => {
+      const cursor = pageParam ? `&cursor=${encodeURIComponent(pageParam)}` : "";
+      const response = await apiRequest("GET", `/api/admin/tasks/query?${queryString}${cursor}`);
+      return response.json() as Promise<TaskPage>;
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+  const tasks = data?.pages.flatMap(page => page.tasks) || [];
+
+  // Column totals come from the server so they cover every page, not just the loaded ones
+  const countsKey = [...tasksKey, "counts"];
+  const { data: counts = {} } = useQuery<Record<string, number>>({
+    queryKey: countsKey,
+    queryFn: async () => {
+      const response = await apiRequest("GET", `/api/admin/tasks/status-counts?${projectId ? new URLSearchParams({ projectId }) : ""}`);
+      return response.json();
+    },
+  });
+
+  const limitsKey = projectId ? ["/api/projects", projectId, "board", "wip-limits"] : ["/api/admin/board/wip-limits"];
+  const { data: limits = {} } = useQuery<WipLimits>({ queryKey: limitsKey });
+
+  const countFor = (column: Column) => column === "other"
+    ? Object.entries(counts).reduce((total, [status, count]) => (isBoardStatus(status) ? total : total + count), 0)
+    : counts[column] || 0;
+  const hasOther = countFor("other") > 0 || tasks.some(task => columnOf(task) === "other");
+  const columns: Column[] = hasOther ? [...TASK_STATUSES, "other"] : [...TASK_STATUSES];
+  const gridClass = cn("grid gap-3", hasOther ? "grid-cols-6" : "grid-cols-5");
+
+  const setTaskStatus = (taskId: string, from: string, status: string) => {
+    queryClient.setQueryData<Record<string, number>>(countsKey, current => current && {
+      ...current,
+      [from]: Math.max((current[from] || 0) - 1, 0),
+      [status]: (current[status] || 0) + 1,
+    });
+    queryClient.setQueryData<InfiniteData<TaskPage>>(tasksKey, current => current && {
+      ...current,
+      pages: current.pages.map(page => ({
+        ...page,
+        tasks: page.tasks.map(task => (task.id === taskId ? { ...task, status } : task)),
+      })),
+    });
+  };
+
+  const moveMutation = useMutation({
+    mutationFn: async ({ task, status }: { task: any; status: TaskStatus }) => {
+      const response = await apiRequest("PUT", `/api/tasks/${task.id}`, { status });
+      return response.json();
+    },
+    onMutate: ({ task, status }) => {
+      setTaskStatus(task.id, task.status, status);
+      return { previousStatus: task.status as string };
+    },
+    onError: (error: Error, { task, status }, context) => {
+      if (context) setTaskStatus(task.id, status, context.previousStatus);
+      // 409 means the task still has incomplete upstream dependencies
+      toast({
+        title: error.message.startsWith("409") ? "Task is blocked" : "Error",
+        description: error.message.startsWith("409")
+          ? "Complete the tasks it depends on first."
+          : "Failed to move task",
+        variant: "destructive",
+      });
+    },
+    onSettled: (_data, _error, { task }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tasks"] });
+      if (task.projectId) {
+        queryClient.invalidateQueries({ queryKey: ["/api/projects", task.projectId, "tasks"] });
+        queryClient.invalidateQueries({ queryKey: ["/api/projects", task.projectId, "task-graph"] });
+      }
+    },
+  });
+
+  const saveLimitsMutation = useMutation({
+    mutationFn: async (values: Partial<Record<TaskStatus, string>>) => {
+      const body = Object.fromEntries(
+        TASK_STATUSES.map(status => [status, values[status] ? Number(values[status]) : null])
+      );
+      const response = await apiRequest("PUT", projectId ? `/api/projects/${projectId}/board/wip-limits` : "/api/admin/board/wip-limits", body);
+      return response.json() as Promise<WipLimits>;
+    },
+    onSuccess: (saved) => {
+      queryClient.setQueryData(limitsKey, saved);
+      setEditingLimits(null);
+      toast({ title: "WIP limits saved" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "WIP limits must be whole numbers of at least 1", variant: "destructive" });
+    },
+  });
+
+  const handleDragEnd = ({ active, over }: DragEndEvent) => {
+    const status = over?.data.current?.status as TaskStatus | undefined;
+    const task = tasks.find(candidate => candidate.id === active.id);
+    if (!task || !status || task.status === status) return;
+
+    moveMutation.mutate({ task, status });
+    // Limits are soft: the move goes through, but say so when a column is over
+    const limit = limits[status];
+    if (limit !== undefined && countFor(status) + 1 > limit) {
+      toast({
+        title: `${STATUS_LABELS[status]} is over its WIP limit`,
+        description: `${countFor(status) + 1} tasks against a limit of ${limit}.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const lanes: Lane[] = [];
+  for (const task of tasks) {
+    const { key, label } = laneOf(task, swimlane);
+    const lane = lanes.find(candidate => candidate.key === key);
+    if (lane) lane.tasks.push(task);
+    else lanes.push({ key, label, tasks: [task] });
+  }
+  lanes.sort((a, b) => a.label.localeCompare(b.label));
+
+  if (isLoading) {
+    return <div className="text-center py-8">Loading board...</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-4 flex-wrap">
+        <div className="flex items-center gap-2">
+          <label className="text-sm font-medium">Swimlanes:</label>
+          <Select value={swimlane} onValueChange={(value) => setSwimlane(value as Swimlane)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">None</SelectItem>
+              <SelectItem value="assignee">By assignee</SelectItem>
+              <SelectItem value="organization">By organization</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {canManage && (
+          <Popover
+            open={!!editingLimits}
+            onOpenChange={(open) => setEditingLimits(open
+              ? Object.fromEntries(TASK_STATUSES.map(status => [status, limits[status]?.toString() || ""]))
+              : null)}
+          >
+            <PopoverTrigger asChild>
+              <Button variant="outline" size="sm" className="ml-auto">
+                <Gauge className="h-4 w-4 mr-2" />
+                WIP limits
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-72 space-y-3">
+              <p className="text-xs text-gray-500">Leave a column empty for no limit.</p>
+              {TASK_STATUSES.map(status => (
+                <div key={status} className="flex items-center justify-between gap-3">
+                  <Label htmlFor={`wip-${status}`} className="text-sm">{STATUS_LABELS[status]}</Label>
+                  <Input
+                    id={`wip-${status}`}
+                    type="number"
+                    min={1}
+                    className="w-20 h-8"
+                    value={editingLimits?.[status] || ""}
+                    onChange={(e) => setEditingLimits(current => ({ ...current, [status]: e.target.value }))}
+                  />
+                </div>
+              ))}
+              <Button
+                size="sm"
+                className="w-full"
+                onClick={() => editingLimits && saveLimitsMutation.mutate(editingLimits)}
+                disabled={saveLimitsMutation.isPending}
+              >
+                Save limits
+              </Button>
+            </PopoverContent>
+          </Popover>
+        )}
+      </div>
+
+      <DndContext sensors={sensors} onDragEnd={handleDragEnd}>
+        <div className="overflow-x-auto">
+          <div className="min-w-[1000px] space-y-4">
+            <div className={gridClass}>
+              {columns.map(status => {
+                const count = countFor(status);
+                const limit = status === "other" ? undefined : limits[status];
+                const overLimit = limit !== undefined && count > limit;
+                return (
+                  <div key={status} className="flex items-center justify-between px-1">
+                    <h4 className="text-sm font-semibold text-gray-700">{STATUS_LABELS[status]}</h4>
+                    <span
+                      className={cn("flex items-center gap-1 text-xs", overLimit ? "text-red-600 font-semibold" : "text-gray-500")}
+                      title={overLimit ? "Over the WIP limit" : undefined}
+                    >
+                      {overLimit && <AlertTriangle className="h-3 w-3" />}
+                      {limit !== undefined ? `${count} / ${limit}` : count}
+                    </span>
+                  </div>
+                );
+              })}
+            </div>
+
+            {lanes.length === 0 ? (
+              <div className={gridClass}>
+                {columns.map(status => (
+                  <BoardColumn key={status} laneKey="all" status={status} tasks={[]} count={0} limit={status === "other" ? undefined : limits[status]} showProject={!projectId} />
+                ))}
+              </div>
+            ) : lanes.map(lane => (
+              <div key={lane.key} className="space-y-2">
+                {swimlane !== "none" && (
+                  <h5 className="text-sm font-medium text-gray-600 px-1">
+                    {lane.label} <span className="text-gray-400">({lane.tasks.length})</span>
+                  </h5>
+                )}
+                <div className={gridClass}>
+                  {columns.map(status => (
+                    <BoardColumn
+                      key={status}
+                      laneKey={lane.key}
+                      status={status}
+                      tasks={lane.tasks.filter(task => columnOf(task) === status)}
+                      count={countFor(status)}
+                      limit={status === "other" ? undefined : limits[status]}
+                      showProject={!projectId}
+                    />
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </DndContext>
+
+      {hasNextPage && (
+        <div className="text-center">
+          <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? "Loading..." : "Load more tasks"}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
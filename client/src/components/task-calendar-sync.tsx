@@ -1,8 +1,12 @@
 import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { useToast } from "@/hooks/use-toast";
-import { Calendar, ExternalLink, Loader2 } from "lucide-react";
+import { AlertTriangle, Calendar, ExternalLink, Loader2 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import type { CalendarSyncConflict, EventSyncState, TaskSyncState } from "@shared/schema";
 
 interface TaskCalendarSyncProps {
   taskId: string;
@@ -13,14 +17,98 @@ interface SyncResult {
   ok: boolean;
   eventId?: string;
   htmlLink?: string;
-  startLocalISO?: string;
   error?: string;
+  queued?: number; // Other assignees' calendars, synced in the background
+}
+
+const describeTask = (state: TaskSyncState) =>
+  `${state.title} · ${state.dueAt ? new Date(state.dueAt).toLocaleString([], state.dueTime ? {} : { dateStyle: "medium" }) : "no due date"}`;
+
+const describeEvent = (state: EventSyncState | null) => {
+  if (!state) return "Deleted from the calendar";
+  const start = state.start.startsWith("date:")
+    ? new Date(`${state.start.slice(5)}T00:00`).toLocaleDateString([], { dateStyle: "medium" })
+    : new Date(state.start).toLocaleString();
+  return `${state.summary} · ${start}`;
+};
+
+// Changes made on both sides since the last sync wait here until someone picks which one to keep
+function CalendarConflictLog({ taskId, conflicts }: { taskId: string; conflicts: CalendarSyncConflict[] }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const open = conflicts.filter(conflict => conflict.status === "open");
+
+  const resolveMutation = useMutation({
+    mutationFn: async ({ id, resolution }: { id: string; resolution: "task" | "calendar" }) => {
+      await apiRequest("POST", `/api/calendar/conflicts/${id}/resolve`, { resolution });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks", taskId, "calendar-conflicts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tasks"] });
+      toast({ title: "Conflict resolved" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not resolve conflict", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button size="sm" variant="ghost" className={open.length > 0 ? "text-amber-600" : "text-gray-400"}>
+          <AlertTriangle className="h-4 w-4" />
+          {open.length > 0 && <span className="ml-1 text-xs">{open.length}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 space-y-3" align="end">
+        <h4 className="font-medium">Calendar sync conflicts</h4>
+        {conflicts.map(conflict => (
+          <div key={conflict.id} className="rounded border p-2 text-sm space-y-1">
+            <div className="flex items-center justify-between">
+              <span className="text-xs text-gray-500">{new Date(conflict.updatedAt ?? conflict.createdAt!).toLocaleString()}</span>
+              {conflict.status === "open" ? (
+                <Badge variant="destructive">Open</Badge>
+              ) : (
+                <Badge variant="outline">Kept {conflict.resolution === "task" ? "task" : "calendar"}</Badge>
+              )}
+            </div>
+            <div><span className="text-gray-500">Task:</span> {describeTask(conflict.taskState)}</div>
+            <div><span className="text-gray-500">Calendar:</span> {describeEvent(conflict.eventState ?? null)}</div>
+            {conflict.status === "open" && (
+              <div className="flex justify-end gap-2 pt-1">
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={resolveMutation.isPending}
+                  onClick={() => resolveMutation.mutate({ id: conflict.id, resolution: "task" })}
+                >
+                  Keep task
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={resolveMutation.isPending}
+                  onClick={() => resolveMutation.mutate({ id: conflict.id, resolution: "calendar" })}
+                >
+                  Keep calendar
+                </Button>
+              </div>
+            )}
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
 }
 
 export function TaskCalendarSync({ taskId, className }: TaskCalendarSyncProps) {
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
+  const { data: conflicts = [] } = useQuery<CalendarSyncConflict[]>({
+    queryKey: ["/api/tasks", taskId, "calendar-conflicts"],
+  });
+
   const handleSyncNow = async () => {
     setIsLoading(true);
     try {
@@ -40,12 +128,17 @@ export function TaskCalendarSync({ taskId, className }: TaskCalendarSyncProps) {
                 className="h-6 text-xs"
               >
                 <ExternalLink className="h-3 w-3 mr-1" />
-                Open in Google Calendar
+                Open in calendar
               </Button>
             </div>
           ),
           duration: 5000,
         });
+      } else if (result.ok) {
+        toast({
+          title: "Calendar sync queued",
+          description: "Assignees' calendars will update shortly",
+        });
       } else {
         toast({
           title: "Sync failed",
@@ -56,7 +149,7 @@ export function TaskCalendarSync({ taskId, className }: TaskCalendarSyncProps) {
     } catch (error) {
       toast({
         title: "Sync error",
-        description: "Failed to communicate with calendar service",
+        description: error instanceof Error ? error.message : "Failed to communicate with calendar service",
         variant: "destructive",
       });
     } finally {
@@ -65,19 +158,22 @@ export function TaskCalendarSync({ taskId, className }: TaskCalendarSyncProps) {
   };
 
   return (
-    <Button
-      onClick={handleSyncNow}
-      disabled={isLoading}
-      size="sm"
-      variant="outline"
-      className={className}
-    >
-      {isLoading ? (
-        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-      ) : (
-        <Calendar className="h-4 w-4 mr-2" />
-      )}
-      {isLoading ? "Syncing..." : "Sync Calendar"}
-    </Button>
+    <>
+      {conflicts.length > 0 && <CalendarConflictLog taskId={taskId} conflicts={conflicts} />}
+      <Button
+        onClick={handleSyncNow}
+        disabled={isLoading}
+        size="sm"
+        variant="outline"
+        className={className}
+      >
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : (
+          <Calendar className="h-4 w-4 mr-2" />
+        )}
+        {isLoading ? "Syncing..." : "Sync Calendar"}
+      </Button>
+    </>
   );
 }
\ No newline at end of file
@@ -0,0 +1,193 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { GitBranch, Lock, Flame } from "lucide-react";
+import type { TaskGraph, TaskGraphNode } from "@shared/taskGraph";
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 56;
+const COLUMN_GAP = 60;
+const ROW_GAP = 20;
+
+export function useTaskGraph(projectId: string | undefined, enabled = true) {
+  return useQuery<TaskGraph>({
+    queryKey: ["/api/projects", projectId, "task-graph"],
+    enabled: !!projectId && enabled,
+  });
+}
+
+export function BlockedBadge({ node, graph }: { node?: TaskGraphNode; graph?: TaskGraph }) {
+  if (!node?.blocked) return null;
+
+  const titles = node.blockedBy
+    .map(id => graph?.nodes.find(n => n.id === id)?.title)
+    .filter(Boolean)
+    .join(", ");
+
+  return (
+    <Badge variant="outline" className="text-xs border-orange-300 text-orange-700 bg-orange-50" title={`Waiting on: ${titles}`}>
+      <Lock className="h-3 w-3 mr-1" />
+      Blocked
+    </Badge>
+  );
+}
+
+// Lay out nodes in columns by dependency depth (sources on the left)
+function layoutGraph(graph: TaskGraph) {
+  const byId = new Map(graph.nodes.map(node => [node.id, node]));
+  const depth = new Map<string, number>();
+  const depthOf = (id: string, seen: Set<string> = new Set()): number => {
+    if (depth.has(id)) return depth.get(id)!;
+    if (seen.has(id)) return 0;
+    seen.add(id);
+    const deps = byId.get(id)?.dependencies || [];
+    const value = deps.length === 0 ? 0 : Math.max(...deps.map(dep => depthOf(dep, seen))) + 1;
+    depth.set(id, value);
+    return value;
+  };
+
+  const columns: TaskGraphNode[][] = [];
+  for (const node of graph.nodes) {
+    const column = depthOf(node.id);
+    (columns[column] ||= []).push(node);
+  }
+
+  const positions = new Map<string, { x: number; y: number }>();
+  columns.forEach((column, columnIndex) => {
+    column.forEach((node, rowIndex) => {
+      positions.set(node.id, {
+        x: columnIndex * (NODE_WIDTH + COLUMN_GAP),
+        y: rowIndex * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  });
+
+  const width = Math.max(1, columns.length) * (NODE_WIDTH + COLUMN_GAP) - COLUMN_GAP;
+  const height = Math.max(1, ...columns.map(column => column.length)) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+  return { positions, width, height };
+}
+
+const getNodeColors = (node: TaskGraphNode) => {
+  if (node.status === "completed") return { fill: "#dcfce7", stroke: "#16a34a" };
+  if (node.blocked) return { fill: "#ffedd5", stroke: "#ea580c" };
+  return { fill: "#eff6ff", stroke: "#2563eb" };
+};
+
+interface TaskDependencyGraphProps {
+  projectId: string | undefined;
+}
+
+export function TaskDependencyGraph({ projectId }: TaskDependencyGraphProps) {
+  const { data: graph, isLoading } = useTaskGraph(projectId);
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-gray-500">Loading dependency diagram...</div>;
+  }
+
+  if (!graph || graph.edges.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-8 text-center text-gray-600">
+          No task dependencies have been set up for this project.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // Only draw tasks that take part in at least one dependency
+  const linkedIds = new Set(graph.edges.flatMap(edge => [edge.from, edge.to]));
+  const linkedGraph = { ...graph, nodes: graph.nodes.filter(node => linkedIds.has(node.id)) };
+  const { positions, width, height } = layoutGraph(linkedGraph);
+  const criticalEdges = new Set(
+    graph.criticalPath.slice(1).map((id, index) => `${graph.criticalPath[index]}->${id}`)
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between text-base">
+          <span className="flex items-center gap-2">
+            <GitBranch className="h-4 w-4" />
+            Task Dependencies
+          </span>
+          <span className="text-sm font-normal text-gray-500">
+            {graph.totalHours}h remaining · projected finish {new Date(graph.projectedFinish).toLocaleDateString()}
+          </span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <svg width={width + 2} height={height + 2} className="block">
+            <defs>
+              <marker id="dependency-arrow" markerWidth="8" markerHeight="8" refX="8" refY="4" orient="auto">
+                <path d="M0,0 L8,4 L0,8 z" fill="#94a3b8" />
+              </marker>
+              <marker id="dependency-arrow-critical" markerWidth="8" markerHeight="8" refX="8" refY="4" orient="auto">
+                <path d="M0,0 L8,4 L0,8 z" fill="#dc2626" />
+              </marker>
+            </defs>
+            {graph.edges.map(edge => {
+              const from = positions.get(edge.from);
+              const to = positions.get(edge.to);
+              if (!from || !to) return null;
+              const critical = criticalEdges.has(`${edge.from}->${edge.to}`);
+              const startX = from.x + NODE_WIDTH;
+              const startY = from.y + NODE_HEIGHT / 2;
+              const endX = to.x;
+              const endY = to.y + NODE_HEIGHT / 2;
+              const midX = (startX + endX) / 2;
+              return (
+                <path
+                  key={`${edge.from}->${edge.to}`}
+                  d={`M${startX},${startY} C${midX},${startY} ${midX},${endY} ${endX},${endY}`}
+                  fill="none"
+                  stroke={critical ? "#dc2626" : "#94a3b8"}
+                  strokeWidth={critical ? 2 : 1.5}
+                  markerEnd={`url(#${critical ? "dependency-arrow-critical" : "dependency-arrow"})`}
+                />
+              );
+            })}
+            {linkedGraph.nodes.map(node => {
+              const position = positions.get(node.id)!;
+              const colors = getNodeColors(node);
+              return (
+                <g key={node.id} transform={`translate(${position.x + 1},${position.y + 1})`}>
+                  <title>{`${node.title} (${node.status.replace("_", " ")})`}</title>
+                  <rect
+                    width={NODE_WIDTH}
+                    height={NODE_HEIGHT}
+                    rx={6}
+                    fill={colors.fill}
+                    stroke={node.critical ? "#dc2626" : colors.stroke}
+                    strokeWidth={node.critical ? 2 : 1}
+                  />
+                  <text x={10} y={22} fontSize={12} fontWeight={600} fill="#111827">
+                    {node.title.length > 24 ? `${node.title.slice(0, 23)}…` : node.title}
+                  </text>
+                  <text x={10} y={42} fontSize={11} fill="#6b7280">
+                    {node.estimatedHours ? `${node.estimatedHours}h` : "—"}
+                    {node.dueAt ? ` · due ${new Date(node.dueAt).toLocaleDateString()}` : ""}
+                  </text>
+                </g>
+              );
+            })}
+          </svg>
+        </div>
+        <div className="flex items-center gap-4 mt-4 text-xs text-gray-600">
+          <span className="flex items-center gap-1">
+            <Flame className="h-3 w-3 text-red-600" />
+            Critical path
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm bg-orange-100 border border-orange-500" />
+            Blocked
+          </span>
+          <span className="flex items-center gap-1">
+            <span className="inline-block w-3 h-3 rounded-sm bg-green-100 border border-green-600" />
+            Completed
+          </span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
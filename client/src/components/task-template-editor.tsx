@@ -0,0 +1,439 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core';
+import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy, useSortable } from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { GripVertical, Pencil, Trash2, Plus, Copy, Link2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { wouldCreateCycle } from "@shared/taskGraph";
+import type { Service, TaskTemplate } from "@shared/schema";
+
+const NO_DEPENDENCY = "none";
+
+const ASSIGNEE_ROLES = [
+  { value: "project_manager", label: "Project Manager" },
+  { value: "content_writer", label: "Content Writer" },
+  { value: "photographer", label: "Photographer" },
+  { value: "designer", label: "Designer" },
+  { value: "ghl_lead", label: "GHL Lead" },
+  { value: "strategist", label: "Strategist" },
+  { value: "finance", label: "Finance" },
+];
+
+const emptyForm = {
+  title: "",
+  description: "",
+  taskType: "standard",
+  priority: "medium",
+  estimatedHours: "",
+  dayOffset: "0",
+  assigneeRole: "",
+  dependsOnTemplateId: NO_DEPENDENCY,
+  clientVisible: true,
+};
+
+type TemplateForm = typeof emptyForm;
+
+interface TaskTemplateEditorProps {
+  serviceId: string;
+}
+
+export function TaskTemplateEditor({ serviceId }: TaskTemplateEditorProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editingId, setEditingId] = useState<string | "new" | null>(null);
+  const [formData, setFormData] = useState<TemplateForm>(emptyForm);
+  const [cloneSourceId, setCloneSourceId] = useState("");
+  const templatesKey = ["/api/admin/services", serviceId, "templates"];
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const { data: templates = [], isLoading } = useQuery<TaskTemplate[]>({
+    queryKey: templatesKey,
+  });
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ["/api/services"],
+  });
+
+  const graphNodes = templates.map(template => ({
+    id: template.id,
+    dependencies: template.dependsOnTemplateId ? [template.dependsOnTemplateId] : [],
+  }));
+
+  const onMutationError = (error: Error) => {
+    toast({
+      title: "Error",
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const saveTemplateMutation = useMutation({
+    mutationFn: async (data: TemplateForm) => {
+      const payload = {
+        title: data.title.trim(),
+        description: data.description.trim() || null,
+        taskType: data.taskType,
+        priority: data.priority,
+        estimatedHours: data.estimatedHours ? parseInt(data.estimatedHours, 10) : null,
+        dayOffset: data.dayOffset ? parseInt(data.dayOffset, 10) : 0,
+        assigneeRole: data.assigneeRole || null,
+        dependsOnTemplateId: data.dependsOnTemplateId === NO_DEPENDENCY ? null : data.dependsOnTemplateId,
+        clientVisible: data.clientVisible,
+      };
+      const response = editingId === "new"
+        ? await apiRequest("POST", `/api/admin/services/${serviceId}/templates`, payload)
+        : await apiRequest("PUT", `/api/admin/services/${serviceId}/templates/${editingId}`, payload);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templatesKey });
+      setEditingId(null);
+      setFormData(emptyForm);
+    },
+    onError: onMutationError,
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (templateId: string) => {
+      const response = await apiRequest("DELETE", `/api/admin/services/${serviceId}/templates/${templateId}`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templatesKey });
+    },
+    onError: onMutationError,
+  });
+
+  const reorderTemplatesMutation = useMutation({
+    mutationFn: async (templateOrders: { id: string; displayOrder: number }[]) => {
+      const response = await apiRequest("PUT", `/api/admin/services/${serviceId}/templates/reorder`, { templateOrders });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templatesKey });
+    },
+    onError: onMutationError,
+  });
+
+  const cloneTemplatesMutation = useMutation({
+    mutationFn: async (sourceServiceId: string) => {
+      const response = await apiRequest("POST", `/api/admin/services/${serviceId}/templates/clone`, { sourceServiceId });
+      return response.json();
+    },
+    onSuccess: (cloned: TaskTemplate[]) => {
+      queryClient.invalidateQueries({ queryKey: templatesKey });
+      setCloneSourceId("");
+      toast({
+        title: "Templates Cloned",
+        description: `${cloned.length} template${cloned.length === 1 ? "" : "s"} copied to this service`,
+      });
+    },
+    onError: onMutationError,
+  });
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (!over || active.id === over.id) return;
+
+    const oldIndex = templates.findIndex(t => t.id === active.id);
+    const newIndex = templates.findIndex(t => t.id === over.id);
+    const newOrder = arrayMove(templates, oldIndex, newIndex);
+
+    // Optimistically show the new order while the server catches up
+    queryClient.setQueryData(templatesKey, newOrder);
+    reorderTemplatesMutation.mutate(newOrder.map((template, index) => ({
+      id: template.id,
+      displayOrder: index,
+    })));
+  };
+
+  const startEditing = (template: TaskTemplate) => {
+    setEditingId(template.id);
+    setFormData({
+      title: template.title,
+      description: template.description || "",
+      taskType: template.taskType || "standard",
+      priority: template.priority || "medium",
+      estimatedHours: template.estimatedHours?.toString() || "",
+      dayOffset: template.dayOffset?.toString() || "0",
+      assigneeRole: template.assigneeRole || "",
+      dependsOnTemplateId: template.dependsOnTemplateId || NO_DEPENDENCY,
+      clientVisible: template.clientVisible ?? true,
+    });
+  };
+
+  const handleInputChange = (field: keyof TemplateForm, value: string | boolean) => {
+    setFormData(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = () => {
+    if (!formData.title.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Template title is required",
+        variant: "destructive",
+      });
+      return;
+    }
+    saveTemplateMutation.mutate(formData);
+  };
+
+  const templateTitle = (id: string | null) => templates.find(t => t.id === id)?.title;
+
+  const renderTemplateForm = () => (
+    <div className="border rounded-md p-3 space-y-3 bg-gray-50">
+      <div>
+        <Label htmlFor="template-title">Title *</Label>
+        <Input
+          id="template-title"
+          value={formData.title}
+          onChange={(e) => handleInputChange("title", e.target.value)}
+          placeholder="e.g., Schedule photo shoot"
+        />
+      </div>
+      <div>
+        <Label htmlFor="template-description">Description</Label>
+        <Textarea
+          id="template-description"
+          value={formData.description}
+          onChange={(e) => handleInputChange("description", e.target.value)}
+          rows={2}
+        />
+      </div>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label>Assignee Role</Label>
+          <Select value={formData.assigneeRole || "unassigned"} onValueChange={(value) => handleInputChange("assigneeRole", value === "unassigned" ? "" : value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="unassigned">Unassigned</SelectItem>
+              {ASSIGNEE_ROLES.map(role => (
+                <SelectItem key={role.value} value={role.value}>{role.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Depends On</Label>
+          <Select value={formData.dependsOnTemplateId} onValueChange={(value) => handleInputChange("dependsOnTemplateId", value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_DEPENDENCY}>No dependency</SelectItem>
+              {templates.filter(t => t.id !== editingId).map(template => {
+                // Options that would loop back to this template are shown but disabled
+                const createsCycle = editingId !== "new" && editingId !== null
+                  && wouldCreateCycle(
+                    graphNodes.map(node => node.id === editingId ? { ...node, dependencies: [] } : node),
+                    editingId,
+                    template.id
+                  );
+                return (
+                  <SelectItem key={template.id} value={template.id} disabled={createsCycle}>
+                    {template.title}{createsCycle ? " (would create a cycle)" : ""}
+                  </SelectItem>
+                );
+              })}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="template-hours">Estimated Hours</Label>
+          <Input
+            id="template-hours"
+            type="number"
+            min="0"
+            value={formData.estimatedHours}
+            onChange={(e) => handleInputChange("estimatedHours", e.target.value)}
+          />
+        </div>
+        <div>
+          <Label htmlFor="template-offset">Day Offset</Label>
+          <Input
+            id="template-offset"
+            type="number"
+            min="0"
+            value={formData.dayOffset}
+            onChange={(e) => handleInputChange("dayOffset", e.target.value)}
+          />
+        </div>
+        <div>
+          <Label>Priority</Label>
+          <Select value={formData.priority} onValueChange={(value) => handleInputChange("priority", value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="low">Low</SelectItem>
+              <SelectItem value="medium">Medium</SelectItem>
+              <SelectItem value="high">High</SelectItem>
+              <SelectItem value="urgent">Urgent</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Type</Label>
+          <Select value={formData.taskType} onValueChange={(value) => handleInputChange("taskType", value)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="standard">Standard</SelectItem>
+              <SelectItem value="milestone">Milestone</SelectItem>
+              <SelectItem value="review">Review</SelectItem>
+              <SelectItem value="approval">Approval</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex items-center space-x-2">
+        <input
+          type="checkbox"
+          id="template-client-visible"
+          checked={formData.clientVisible}
+          onChange={(e) => handleInputChange("clientVisible", e.target.checked)}
+          className="h-4 w-4"
+        />
+        <Label htmlFor="template-client-visible">Visible to client</Label>
+      </div>
+      <div className="flex justify-end space-x-2">
+        <Button type="button" variant="outline" size="sm" onClick={() => { setEditingId(null); setFormData(emptyForm); }}>
+          Cancel
+        </Button>
+        <Button type="button" size="sm" onClick={handleSave} disabled={saveTemplateMutation.isPending}>
+          {saveTemplateMutation.isPending ? "Saving..." : "Save Template"}
+        </Button>
+      </div>
+    </div>
+  );
+
+  function SortableTemplateRow({ template }: { template: TaskTemplate }) {
+    const {
+      attributes,
+      listeners,
+      setNodeRef,
+      transform,
+      transition,
+    } = useSortable({ id: template.id });
+
+    const style = {
+      transform: CSS.Transform.toString(transform),
+      transition,
+    };
+
+    return (
+      <div ref={setNodeRef} style={style} className="flex items-center gap-2 border rounded-md p-2 bg-white">
+        <div {...attributes} {...listeners} className="cursor-grab active:cursor-grabbing">
+          <GripVertical className="h-4 w-4 text-gray-400" />
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-medium truncate">{template.title}</p>
+          <div className="flex items-center gap-2 text-xs text-gray-500">
+            {template.assigneeRole && <span>{template.assigneeRole.replace("_", " ")}</span>}
+            {template.estimatedHours ? <span>{template.estimatedHours}h</span> : null}
+            {template.dependsOnTemplateId && (
+              <span className="flex items-center gap-1">
+                <Link2 className="h-3 w-3" />
+                after {templateTitle(template.dependsOnTemplateId)}
+              </span>
+            )}
+          </div>
+        </div>
+        {template.taskType === "milestone" && <Badge variant="outline" className="text-xs">Milestone</Badge>}
+        <Button type="button" variant="ghost" size="sm" onClick={() => startEditing(template)}>
+          <Pencil className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            if (confirm(`Delete the "${template.title}" template?`)) {
+              deleteTemplateMutation.mutate(template.id);
+            }
+          }}
+        >
+          <Trash2 className="h-4 w-4 text-red-600" />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label>Task Templates</Label>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => { setEditingId("new"); setFormData(emptyForm); }}
+          disabled={editingId === "new"}
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add Template
+        </Button>
+      </div>
+
+      {editingId === "new" && renderTemplateForm()}
+
+      {isLoading ? (
+        <div className="text-sm text-gray-500">Loading templates...</div>
+      ) : templates.length === 0 ? (
+        <div className="text-sm text-gray-500">No templates yet. Add one or clone them from another service.</div>
+      ) : (
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+          <SortableContext items={templates.map(t => t.id)} strategy={verticalListSortingStrategy}>
+            <div className="space-y-2 max-h-72 overflow-y-auto">
+              {templates.map(template => (
+                editingId === template.id
+                  ? <div key={template.id}>{renderTemplateForm()}</div>
+                  : <SortableTemplateRow key={template.id} template={template} />
+              ))}
+            </div>
+          </SortableContext>
+        </DndContext>
+      )}
+
+      <div className="flex items-center gap-2">
+        <Select value={cloneSourceId} onValueChange={setCloneSourceId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Clone templates from another service" />
+          </SelectTrigger>
+          <SelectContent>
+            {services.filter(s => s.id !== serviceId).map(s => (
+              <SelectItem key={s.id} value={s.id}>{s.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          disabled={!cloneSourceId || cloneTemplatesMutation.isPending}
+          onClick={() => cloneTemplatesMutation.mutate(cloneSourceId)}
+        >
+          <Copy className="h-4 w-4 mr-1" />
+          {cloneTemplatesMutation.isPending ? "Cloning..." : "Clone"}
+        </Button>
+      </div>
+    </div>
+  );
+}
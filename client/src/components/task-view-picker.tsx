@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Bookmark, Trash2, Users } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { TaskView } from "@shared/schema";
+
+// Filters as the task query API takes them; dates stay ISO strings on the client
+export interface TaskFilterValues {
+  status?: string[];
+  priority?: string[];
+  assigneeRole?: string[];
+  assigneeId?: string[];
+  organizationId?: string;
+  projectId?: string;
+  serviceId?: string;
+  dueFrom?: string;
+  dueTo?: string;
+  overdue?: boolean;
+  clientVisible?: boolean;
+  sortBy?: "created" | "updated" | "due" | "priority" | "title";
+  sortDir?: "asc" | "desc";
+}
+
+type SavedView = Omit<TaskView, "filters"> & { filters: TaskFilterValues; ownerName: string | null };
+
+interface TaskViewPickerProps {
+  filters: TaskFilterValues;
+  activeViewId: string | null;
+  onApply: (view: { id: string; filters: TaskFilterValues } | null) => void;
+}
+
+export function TaskViewPicker({ filters, activeViewId, onApply }: TaskViewPickerProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState("");
+  const [isShared, setIsShared] = useState(false);
+
+  const { data: views = [] } = useQuery<SavedView[]>({
+    queryKey: ["/api/admin/task-views"],
+  });
+
+  const activeView = views.find(view => view.id === activeViewId);
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/task-views", { name, filters, isShared });
+      return response.json() as Promise<SavedView>;
+    },
+    onSuccess: (view) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/task-views"] });
+      onApply({ id: view.id, filters: view.filters });
+      setSaving(false);
+      setName("");
+      setIsShared(false);
+      toast({ title: "View saved", description: view.isShared ? "Everyone on the team can use it." : undefined });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to save view", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/task-views/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/task-views"] });
+      onApply(null);
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to delete view", variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={activeViewId || "none"}
+        onValueChange={(id) => {
+          const view = views.find(candidate => candidate.id === id);
+          onApply(view ? { id: view.id, filters: view.filters } : null);
+        }}
+      >
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder="Saved views" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">No saved view</SelectItem>
+          {views.map(view => (
+            <SelectItem key={view.id} value={view.id}>
+              <span className="flex items-center gap-2">
+                {view.isShared && <Users className="h-3 w-3 text-gray-500" />}
+                {view.name}
+                {view.ownerId !== user?.id && view.ownerName && (
+                  <span className="text-xs text-gray-500">by {view.ownerName}</span>
+                )}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {activeView && activeView.ownerId === user?.id && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => deleteMutation.mutate(activeView.id)}
+          disabled={deleteMutation.isPending}
+          title="Delete this view"
+        >
+          <Trash2 className="h-4 w-4" />
+        </Button>
+      )}
+
+      <Popover open={saving} onOpenChange={setSaving}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm">
+            <Bookmark className="h-4 w-4 mr-2" />
+            Save view
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="task-view-name">Name</Label>
+            <Input
+              id="task-view-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Overdue design work"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox id="task-view-shared" checked={isShared} onCheckedChange={(checked) => setIsShared(checked === true)} />
+            <Label htmlFor="task-view-shared" className="text-sm font-normal">Share with the team</Label>
+          </div>
+          <Button
+            size="sm"
+            className="w-full"
+            onClick={() => saveMutation.mutate()}
+            disabled={!name.trim() || saveMutation.isPending}
+          >
+            Save
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
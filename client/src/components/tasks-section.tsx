@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -9,24 +9,37 @@ import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { EditTaskModal } from "@/components/edit-task-modal";
-import type { Task } from "@shared/schema";
+import { CalendarFeeds } from "@/components/calendar-feeds";
+import type { Project, Service, Task } from "@shared/schema";
+import { isStaffRole } from "@shared/permissions";
 
-export default function TasksSection() {
+interface TasksSectionProps {
+  projectId?: string;
+  // Opened straight away once it loads, e.g. when picked from search
+  focusTaskId?: string;
+}
+
+export default function TasksSection({ projectId, focusTaskId }: TasksSectionProps = {}) {
   const { user } = useAuth();
   const { toast } = useToast();
   const [editingTask, setEditingTask] = useState<Task | null>(null);
 
-  const { data: projects = [] } = useQuery({
+  const { data: projects = [] } = useQuery<Project[]>({
     queryKey: ["/api/projects"],
   });
 
-  const activeProject = projects?.[0];
+  const activeProject = projects?.find(project => project.id === projectId) || projects?.[0];
 
-  const { data: tasks = [], isLoading } = useQuery({
+  const { data: tasks = [], isLoading } = useQuery<(Task & { service?: Service })[]>({
     queryKey: ["/api/projects", activeProject?.id, "tasks"],
     enabled: !!activeProject?.id,
   });
 
+  useEffect(() => {
+    const focused = focusTaskId && tasks.find(task => task.id === focusTaskId);
+    if (focused) setEditingTask(focused);
+  }, [focusTaskId, tasks]);
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -225,6 +238,14 @@ export default function TasksSection() {
         </TabsContent>
       </Tabs>
 
+      {activeProject?.id && (
+        <Card>
+          <CardContent className="pt-6">
+            <CalendarFeeds scope="project" scopeId={activeProject.id} isAdmin={isStaffRole(user?.role)} />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Edit Task Modal */}
       <EditTaskModal
         isOpen={!!editingTask}
@@ -6,9 +6,26 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { User, Mail, Phone, Plus, Edit, Trash2, Users } from "lucide-react";
+import { User, Mail, Phone, Plus, Edit, Trash2, Users, Shield, X } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
 import { apiRequest } from "@/lib/queryClient";
+import { USER_ROLES, ROLE_LABELS, hasPermission, type UserRole } from "@shared/permissions";
+import type { Project } from "@shared/schema";
+
+interface UserSummary {
+  id: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: string;
+}
+
+interface ProjectMemberView {
+  id: string;
+  userId: string;
+  user: UserSummary;
+}
 
 interface TeamMember {
   id: string;
@@ -43,6 +60,7 @@ export function TeamManagementContent() {
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { user } = useAuth();
 
   const { data: teamMembers = [], isLoading } = useQuery({
     queryKey: ["/api/team-members"],
@@ -387,6 +405,171 @@ export function TeamManagementContent() {
           )}
         </>
       )}
+
+      {hasPermission(user?.role, "roles.manage") && <AccessManagement currentRole={user?.role} />}
     </div>
   );
-}
\ No newline at end of file
+}
+
+const userName = (user: UserSummary) =>
+  [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "Unknown user";
+
+// Sign-in roles decide what each person can do; project access adds single projects on top
+function AccessManagement({ currentRole }: { currentRole?: string }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [projectId, setProjectId] = useState("");
+  const [newMemberId, setNewMemberId] = useState("");
+  const isOwner = currentRole === "owner";
+
+  const { data: users = [] } = useQuery<UserSummary[]>({
+    queryKey: ["/api/admin/users"],
+  });
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/admin/projects"],
+  });
+
+  const { data: members = [] } = useQuery<ProjectMemberView[]>({
+    queryKey: ["/api/admin/projects", projectId, "members"],
+    enabled: !!projectId,
+  });
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update access",
+      variant: "destructive",
+    });
+  };
+
+  const updateRoleMutation = useMutation({
+    mutationFn: ({ id, role }: { id: string; role: UserRole }) => apiRequest("PUT", `/api/admin/users/${id}/role`, { role }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      toast({ title: "Role updated" });
+    },
+    onError,
+  });
+
+  const addMemberMutation = useMutation({
+    mutationFn: (userId: string) => apiRequest("POST", `/api/admin/projects/${projectId}/members`, { userId }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/projects", projectId, "members"] });
+      setNewMemberId("");
+    },
+    onError,
+  });
+
+  const removeMemberMutation = useMutation({
+    mutationFn: (userId: string) => apiRequest("DELETE", `/api/admin/projects/${projectId}/members/${userId}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/projects", projectId, "members"] });
+    },
+    onError,
+  });
+
+  const project = projects.find(candidate => candidate.id === projectId);
+  const candidates = users.filter(candidate =>
+    candidate.id !== project?.clientId && !members.some(member => member.userId === candidate.id)
+  );
+
+  return (
+    <Card>
+      <CardContent className="p-6 space-y-6">
+        <div>
+          <h3 className="text-lg font-medium flex items-center gap-2">
+            <Shield className="h-5 w-5" />
+            Access & Permissions
+          </h3>
+          <p className="text-sm text-gray-600">
+            Contributors and client accounts only see the projects they are added to.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          {users.map(account => (
+            <div key={account.id} className="flex items-center justify-between gap-4">
+              <div>
+                <div className="font-medium">{userName(account)}</div>
+                <div className="text-sm text-gray-500">{account.email}</div>
+              </div>
+              <Select
+                value={account.role}
+                onValueChange={(role) => updateRoleMutation.mutate({ id: account.id, role: role as UserRole })}
+                disabled={updateRoleMutation.isPending || (account.role === "owner" && !isOwner)}
+              >
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map(role => (
+                    <SelectItem key={role} value={role} disabled={role === "owner" && !isOwner}>
+                      {ROLE_LABELS[role]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <Label>Project access</Label>
+          <Select value={projectId} onValueChange={setProjectId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a project" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects.map(option => (
+                <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {projectId && (
+            <>
+              {members.length === 0 ? (
+                <p className="text-sm text-gray-500">Nobody has been added to this project yet.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {members.map(member => (
+                    <Badge key={member.id} variant="secondary" className="flex items-center gap-1">
+                      {userName(member.user)} · {ROLE_LABELS[member.user.role as UserRole] || member.user.role}
+                      <button
+                        type="button"
+                        onClick={() => removeMemberMutation.mutate(member.userId)}
+                        aria-label={`Remove ${userName(member.user)}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex gap-2">
+                <Select value={newMemberId} onValueChange={setNewMemberId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Add someone to this project" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {candidates.map(candidate => (
+                      <SelectItem key={candidate.id} value={candidate.id}>{userName(candidate)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button
+                  onClick={() => addMemberMutation.mutate(newMemberId)}
+                  disabled={!newMemberId || addMemberMutation.isPending}
+                >
+                  Add
+                </Button>
+              </div>
+            </>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -8,6 +8,7 @@ import { CheckCircle, Clock, Calendar, Target, User, Building2, AlertTriangle, E
 import CreateTaskModal from './create-task-modal';
 import { useToast } from '@/hooks/use-toast';
 import { formatDueAt } from '@/utils/timeFormatting';
+import { TimeTracker } from './time-tracker';
 
 interface TeamMemberTasksProps {
   teamMemberId: string;
@@ -218,6 +219,13 @@ export function TeamMemberTasks({ teamMemberId, teamMemberName }: TeamMemberTask
                           <Badge className={getStatusColor(assignment.task.status)}>
                             {assignment.task.status.replace('_', ' ').toUpperCase()}
                           </Badge>
+
+                          <TimeTracker
+                            assignmentId={assignment.id}
+                            teamMemberId={teamMemberId}
+                            estimatedHours={assignment.estimatedHours ?? assignment.task.estimatedHours}
+                            actualHours={assignment.actualHours}
+                          />
                         </div>
                         
                         <div className="flex items-center gap-2 ml-4">
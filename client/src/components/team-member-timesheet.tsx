@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { addWeeks, format, parseISO, startOfWeek } from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight, Clock } from "lucide-react";
+import { formatMinutes } from "./time-tracker";
+
+interface TimesheetRow {
+  taskId: string;
+  taskTitle: string;
+  projectId: string | null;
+  projectName: string | null;
+  minutesByDay: number[];
+  totalMinutes: number;
+}
+
+interface WeeklyTimesheet {
+  teamMemberId: string;
+  timezone: string;
+  weekStart: string;
+  days: string[];
+  rows: TimesheetRow[];
+  dailyTotals: number[];
+  totalMinutes: number;
+}
+
+interface TeamMemberTimesheetProps {
+  teamMemberId: string;
+}
+
+// Monday-to-Sunday grid of tracked time, laid out in the team member's timezone by the server
+export function TeamMemberTimesheet({ teamMemberId }: TeamMemberTimesheetProps) {
+  const [weekOf, setWeekOf] = useState(() => format(startOfWeek(new Date(), { weekStartsOn: 1 }), "yyyy-MM-dd"));
+
+  const { data: timesheet, isLoading } = useQuery<WeeklyTimesheet>({
+    queryKey: ["/api/team-members", teamMemberId, `timesheet?week=${weekOf}`],
+  });
+
+  const shiftWeek = (weeks: number) => {
+    setWeekOf(format(addWeeks(parseISO(weekOf), weeks), "yyyy-MM-dd"));
+  };
+
+  const cell = (minutes: number) => (minutes > 0 ? formatMinutes(minutes) : "—");
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Clock className="h-5 w-5 text-blue-600" />
+          Timesheet
+        </CardTitle>
+        <div className="flex items-center gap-2 text-sm">
+          <Button variant="outline" size="sm" onClick={() => shiftWeek(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-gray-700">
+            Week of {format(parseISO(timesheet?.weekStart || weekOf), "MMM d, yyyy")}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => shiftWeek(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !timesheet ? (
+          <div className="animate-pulse text-gray-500">Loading timesheet...</div>
+        ) : timesheet.rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No time tracked this week</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-gray-600">
+                  <th className="py-2 pr-4 text-left font-medium">Task</th>
+                  {timesheet.days.map(day => (
+                    <th key={day} className="px-2 py-2 text-right font-medium">
+                      {format(parseISO(day), "EEE d")}
+                    </th>
+                  ))}
+                  <th className="pl-2 py-2 text-right font-medium">Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {timesheet.rows.map(row => (
+                  <tr key={row.taskId} className="border-b border-gray-100">
+                    <td className="py-2 pr-4">
+                      <div className="font-medium text-gray-900">{row.taskTitle}</div>
+                      {row.projectName && <div className="text-xs text-gray-500">{row.projectName}</div>}
+                    </td>
+                    {row.minutesByDay.map((minutes, index) => (
+                      <td key={index} className="px-2 py-2 text-right text-gray-700">{cell(minutes)}</td>
+                    ))}
+                    <td className="pl-2 py-2 text-right font-medium">{formatMinutes(row.totalMinutes)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-semibold text-gray-900">
+                  <td className="py-2 pr-4">Total</td>
+                  {timesheet.dailyTotals.map((minutes, index) => (
+                    <td key={index} className="px-2 py-2 text-right">{cell(minutes)}</td>
+                  ))}
+                  <td className="pl-2 py-2 text-right">{formatMinutes(timesheet.totalMinutes)}</td>
+                </tr>
+              </tfoot>
+            </table>
+            <p className="mt-2 text-xs text-gray-500">Times shown in {timesheet.timezone}</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { BarChart3 } from "lucide-react";
+import type { Project } from "@shared/schema";
+
+interface BillingReportRow {
+  projectId: string | null;
+  projectName: string | null;
+  serviceId: string | null;
+  serviceName: string | null;
+  teamMemberId: string;
+  teamMemberName: string;
+  estimatedHours: number;
+  billedHours: number;
+  varianceHours: number;
+}
+
+interface BillingReport {
+  from: string | null;
+  to: string | null;
+  rows: BillingReportRow[];
+  totals: { estimatedHours: number; billedHours: number; varianceHours: number };
+}
+
+const varianceClass = (variance: number) =>
+  variance > 0 ? "text-red-600" : variance < 0 ? "text-green-600" : "text-gray-600";
+
+// Admin view of billed (tracked) hours against estimates per project, service and team member
+export function TimeReport() {
+  const [projectId, setProjectId] = useState("all");
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  const { data: projects = [] } = useQuery<Project[]>({
+    queryKey: ["/api/projects"],
+  });
+
+  const params = new URLSearchParams();
+  if (projectId !== "all") params.set("projectId", projectId);
+  if (from) params.set("from", new Date(`${from}T00:00`).toISOString());
+  // The "to" date is inclusive in the UI, so the query runs to the start of the next day
+  if (to) params.set("to", new Date(new Date(`${to}T00:00`).getTime() + 24 * 60 * 60 * 1000).toISOString());
+
+  const { data: report, isLoading } = useQuery<BillingReport>({
+    queryKey: [`/api/admin/reports/time?${params.toString()}`],
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BarChart3 className="h-5 w-5 text-blue-600" />
+          Billed vs. Estimated Hours
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+          <div className="space-y-1">
+            <Label>Project</Label>
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All projects</SelectItem>
+                {projects.map(project => (
+                  <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>From</Label>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label>To</Label>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+          </div>
+        </div>
+
+        {isLoading || !report ? (
+          <div className="animate-pulse text-gray-500">Loading report...</div>
+        ) : report.rows.length === 0 ? (
+          <p className="text-sm text-gray-500">No estimates or tracked time for this selection</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-gray-600">
+                  <th className="py-2 pr-4 text-left font-medium">Project</th>
+                  <th className="py-2 pr-4 text-left font-medium">Service</th>
+                  <th className="py-2 pr-4 text-left font-medium">Team member</th>
+                  <th className="px-2 py-2 text-right font-medium">Estimated</th>
+                  <th className="px-2 py-2 text-right font-medium">Billed</th>
+                  <th className="pl-2 py-2 text-right font-medium">Variance</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map(row => (
+                  <tr key={`${row.projectId}|${row.serviceId}|${row.teamMemberId}`} className="border-b border-gray-100">
+                    <td className="py-2 pr-4">{row.projectName || "No project"}</td>
+                    <td className="py-2 pr-4 text-gray-600">{row.serviceName || "—"}</td>
+                    <td className="py-2 pr-4">{row.teamMemberName}</td>
+                    <td className="px-2 py-2 text-right">{row.estimatedHours.toFixed(2)}h</td>
+                    <td className="px-2 py-2 text-right">{row.billedHours.toFixed(2)}h</td>
+                    <td className={`pl-2 py-2 text-right ${varianceClass(row.varianceHours)}`}>
+                      {row.varianceHours > 0 ? "+" : ""}{row.varianceHours.toFixed(2)}h
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="font-semibold text-gray-900">
+                  <td className="py-2 pr-4" colSpan={3}>Total</td>
+                  <td className="px-2 py-2 text-right">{report.totals.estimatedHours.toFixed(2)}h</td>
+                  <td className="px-2 py-2 text-right">{report.totals.billedHours.toFixed(2)}h</td>
+                  <td className={`pl-2 py-2 text-right ${varianceClass(report.totals.varianceHours)}`}>
+                    {report.totals.varianceHours > 0 ? "+" : ""}{report.totals.varianceHours.toFixed(2)}h
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
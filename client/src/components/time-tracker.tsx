@@ -0,0 +1,260 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { useToast } from "@/hooks/use-toast";
+import { Play, Square, Plus, Trash2, Timer, ChevronDown, ChevronUp } from "lucide-react";
+import type { TimeEntry } from "@shared/schema";
+
+interface TimeTrackerProps {
+  assignmentId: string;
+  teamMemberId: string;
+  estimatedHours?: number | string | null;
+  actualHours?: number | null;
+}
+
+export const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = Math.round(minutes % 60);
+  return hours > 0 ? `${hours}h ${rest.toString().padStart(2, "0")}m` : `${rest}m`;
+};
+
+const elapsedSince = (startedAt: string | Date, now: number) =>
+  Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+
+const formatClock = (seconds: number) => {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return [h, m, s].map(part => part.toString().padStart(2, "0")).join(":");
+};
+
+const todayISO = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, "0")}-${String(now.getDate()).padStart(2, "0")}`;
+};
+
+// Start/stop timer plus manual entries for a single assignment
+export function TimeTracker({ assignmentId, teamMemberId, estimatedHours, actualHours }: TimeTrackerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [now, setNow] = useState(Date.now());
+  const [showEntries, setShowEntries] = useState(false);
+  const [showManual, setShowManual] = useState(false);
+  const [manualDate, setManualDate] = useState(todayISO());
+  const [manualStart, setManualStart] = useState("09:00");
+  const [manualHours, setManualHours] = useState("");
+  const [manualMinutes, setManualMinutes] = useState("");
+  const [manualNotes, setManualNotes] = useState("");
+
+  // One running timer per team member, shared by every tracker on the page
+  const { data: running } = useQuery<TimeEntry | null>({
+    queryKey: ["/api/team-members", teamMemberId, "time-entries", "running"],
+  });
+
+  const { data: entries = [] } = useQuery<TimeEntry[]>({
+    queryKey: ["/api/task-assignments", assignmentId, "time-entries"],
+    enabled: showEntries,
+  });
+
+  const isRunningHere = running?.taskAssignmentId === assignmentId;
+
+  useEffect(() => {
+    if (!isRunningHere) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunningHere]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/team-members", teamMemberId] });
+    queryClient.invalidateQueries({ queryKey: ["/api/task-assignments"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/task-assignments"] });
+  };
+
+  const onError = (error: any) => {
+    toast({
+      title: "Error",
+      description: error.message || "Failed to update time tracking",
+      variant: "destructive",
+    });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/task-assignments/${assignmentId}/timer/start`, {});
+      return response.json();
+    },
+    onSuccess: () => {
+      setNow(Date.now());
+      invalidate();
+    },
+    onError,
+  });
+
+  const stopMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      const response = await apiRequest("POST", `/api/time-entries/${entryId}/stop`, {});
+      return response.json();
+    },
+    onSuccess: (entry: TimeEntry) => {
+      invalidate();
+      toast({
+        title: "Timer stopped",
+        description: `Logged ${formatMinutes(entry.durationMinutes || 0)}.`,
+      });
+    },
+    onError,
+  });
+
+  const manualMutation = useMutation({
+    mutationFn: async () => {
+      const durationMinutes = (parseInt(manualHours || "0", 10) * 60) + parseInt(manualMinutes || "0", 10);
+      const response = await apiRequest("POST", `/api/task-assignments/${assignmentId}/time-entries`, {
+        startedAt: new Date(`${manualDate}T${manualStart}`).toISOString(),
+        durationMinutes,
+        notes: manualNotes || null,
+      });
+      return response.json();
+    },
+    onSuccess: (entry: TimeEntry) => {
+      invalidate();
+      setShowManual(false);
+      setManualHours("");
+      setManualMinutes("");
+      setManualNotes("");
+      toast({
+        title: "Time logged",
+        description: `Logged ${formatMinutes(entry.durationMinutes || 0)}.`,
+      });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (entryId: string) => {
+      await apiRequest("DELETE", `/api/time-entries/${entryId}`);
+    },
+    onSuccess: invalidate,
+    onError,
+  });
+
+  const trackedHours = actualHours || 0;
+  const estimate = estimatedHours ? Number(estimatedHours) : null;
+  const overEstimate = estimate !== null && trackedHours > estimate;
+
+  return (
+    <div className="mt-3 space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {isRunningHere && running ? (
+          <Button
+            size="sm"
+            variant="destructive"
+            onClick={() => stopMutation.mutate(running.id)}
+            disabled={stopMutation.isPending}
+            className="flex items-center gap-2"
+          >
+            <Square className="h-3 w-3" />
+            Stop {formatClock(elapsedSince(running.startedAt, now))}
+          </Button>
+        ) : (
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={() => startMutation.mutate()}
+            disabled={startMutation.isPending}
+            className="flex items-center gap-2"
+            title={running ? "Starting this timer stops the one that is running" : undefined}
+          >
+            <Play className="h-3 w-3" />
+            Start timer
+          </Button>
+        )}
+
+        <Popover open={showManual} onOpenChange={setShowManual}>
+          <PopoverTrigger asChild>
+            <Button size="sm" variant="ghost" className="flex items-center gap-2">
+              <Plus className="h-3 w-3" />
+              Log time
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72 space-y-3">
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-1">
+                <Label className="text-xs">Date</Label>
+                <Input type="date" value={manualDate} onChange={(e) => setManualDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Start</Label>
+                <Input type="time" value={manualStart} onChange={(e) => setManualStart(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Hours</Label>
+                <Input type="number" min="0" max="24" value={manualHours} onChange={(e) => setManualHours(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs">Minutes</Label>
+                <Input type="number" min="0" max="59" value={manualMinutes} onChange={(e) => setManualMinutes(e.target.value)} />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Notes</Label>
+              <Input value={manualNotes} onChange={(e) => setManualNotes(e.target.value)} placeholder="What did you work on?" />
+            </div>
+            <Button
+              size="sm"
+              className="w-full"
+              onClick={() => manualMutation.mutate()}
+              disabled={manualMutation.isPending || !manualDate || (!manualHours && !manualMinutes)}
+            >
+              Save entry
+            </Button>
+          </PopoverContent>
+        </Popover>
+
+        <button
+          type="button"
+          onClick={() => setShowEntries(!showEntries)}
+          className={`flex items-center gap-1 text-xs ${overEstimate ? "text-red-600" : "text-gray-500"}`}
+        >
+          <Timer className="h-3 w-3" />
+          {trackedHours.toFixed(2)}h tracked{estimate !== null ? ` of ${estimate}h` : ""}
+          {showEntries ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
+        </button>
+      </div>
+
+      {showEntries && (
+        <div className="rounded border border-gray-100 divide-y divide-gray-100 text-xs">
+          {entries.length === 0 ? (
+            <p className="p-2 text-gray-500">No time logged yet</p>
+          ) : (
+            entries.map(entry => (
+              <div key={entry.id} className="flex items-center justify-between p-2">
+                <div className="text-gray-700">
+                  <span className="font-medium">
+                    {entry.durationMinutes ? formatMinutes(entry.durationMinutes) : "Running"}
+                  </span>
+                  <span className="text-gray-500"> · {new Date(entry.startedAt).toLocaleString()}</span>
+                  {entry.source === "manual" && <span className="text-gray-400"> · manual</span>}
+                  {entry.notes && <span className="block text-gray-500">{entry.notes}</span>}
+                </div>
+                {entry.endedAt && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => deleteMutation.mutate(entry.id)}
+                    disabled={deleteMutation.isPending}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
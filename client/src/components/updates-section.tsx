@@ -1,96 +1,232 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
-import { MessageSquare, Plus, Paperclip, Send } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MessageSquare, Paperclip, Send, Reply, Pencil, Trash2, History, CheckCheck, X } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest } from "@/lib/queryClient";
-import type { Message, User } from "@shared/schema";
+import { ProjectPresence } from "./project-presence";
+import type { MessageMention, MessageRevision, Project, User } from "@shared/schema";
+import { hasPermission, isStaffRole } from "@shared/permissions";
 
-export default function UpdatesSection() {
+type MessageSender = Pick<User, "id" | "firstName" | "lastName" | "email" | "role" | "profileImageUrl">;
+
+interface ThreadMessage {
+  id: string;
+  projectId: string;
+  senderId: string;
+  parentId: string | null;
+  content: string;
+  mentions: MessageMention[] | null;
+  editedAt: string | null;
+  deletedAt: string | null;
+  createdAt: string;
+  sender: MessageSender;
+  attachments: { id: string; fileName: string; fileType: string | null; fileSize: number | null }[];
+  readBy: { userId: string; name: string; readAt: string }[];
+}
+
+const getInitials = (user: Pick<User, "firstName" | "lastName">) => {
+  return `${user.firstName?.[0] || ''}${user.lastName?.[0] || ''}`.toUpperCase() || 'U';
+};
+
+const formatMessageTime = (timestamp: string) => {
+  const date = new Date(timestamp);
+  const now = new Date();
+  const diffInHours = Math.floor((now.getTime() - date.getTime()) / (1000 * 60 * 60));
+
+  if (diffInHours < 1) {
+    const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60));
+    return diffInMinutes < 1 ? 'Just now' : `${diffInMinutes} minutes ago`;
+  } else if (diffInHours < 24) {
+    return `${diffInHours} hours ago`;
+  } else {
+    const diffInDays = Math.floor(diffInHours / 24);
+    return `${diffInDays} days ago`;
+  }
+};
+
+// Mentions are stored by ID; the text keeps "@Name", which is highlighted here
+const renderContent = (message: ThreadMessage) => {
+  const names = (message.mentions || []).map(mention => `@${mention.name}`);
+  if (names.length === 0) return message.content;
+  const pattern = new RegExp(`(${names.map(name => name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`, "g");
+  return message.content.split(pattern).map((part, index) =>
+    names.includes(part) ? <span key={index} className="font-medium text-blue-600">{part}</span> : part
+  );
+};
+
+interface UpdatesSectionProps {
+  projectId?: string;
+  // Scrolled into view once the conversation loads, e.g. when picked from search
+  focusThreadId?: string;
+}
+
+export default function UpdatesSection({ projectId, focusThreadId }: UpdatesSectionProps = {}) {
   const { user } = useAuth();
+  const canPost = hasPermission(user?.role, 'messages.post', user?.contactAccess);
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedProjectId, setSelectedProjectId] = useState<string | null>(projectId || null);
   const [newMessage, setNewMessage] = useState('');
+  const [mentions, setMentions] = useState<MessageMention[]>([]);
+  const [attachments, setAttachments] = useState<File[]>([]);
+  const [replyTo, setReplyTo] = useState<ThreadMessage | null>(null);
+  const [editing, setEditing] = useState<{ id: string; content: string } | null>(null);
 
-  const { data: projects } = useQuery({
+  const handleUnauthorized = (error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return true;
+    }
+    return false;
+  };
+
+  const { data: projects } = useQuery<Project[]>({
     queryKey: ["/api/projects"],
-    onError: (error: Error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-    },
   });
 
-  const activeProject = projects?.[0];
+  const { data: unread } = useQuery<{ total: number; projects: { projectId: string; unread: number }[] }>({
+    queryKey: ["/api/messages/unread-counts"],
+    refetchInterval: 60000,
+  });
+
+  const activeProject = projects?.find(project => project.id === selectedProjectId) || projects?.[0];
+  const messagesKey = ["/api/projects", activeProject?.id, "messages"];
 
-  const { data: messages, isLoading } = useQuery({
-    queryKey: ["/api/projects", activeProject?.id, "messages"],
+  const { data: messages = [], isLoading } = useQuery<ThreadMessage[]>({
+    queryKey: messagesKey,
     enabled: !!activeProject?.id,
-    onError: (error: Error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
-    },
   });
 
+  const { data: mentionable = [] } = useQuery<MessageMention[]>({
+    queryKey: ["/api/projects", activeProject?.id, "mentionable"],
+    enabled: !!activeProject?.id,
+  });
+
+  useEffect(() => {
+    if (projectId) setSelectedProjectId(projectId);
+  }, [projectId]);
+
+  useEffect(() => {
+    if (!focusThreadId || messages.length === 0) return;
+    document.getElementById(`thread-${focusThreadId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [focusThreadId, messages.length]);
+
+  const unreadFor = (projectId: string) => unread?.projects.find(row => row.projectId === projectId)?.unread || 0;
+
+  // Opening a conversation reads it
+  useEffect(() => {
+    if (!activeProject?.id || unreadFor(activeProject.id) === 0) return;
+    apiRequest("POST", `/api/projects/${activeProject.id}/messages/read`)
+      .then(() => {
+        queryClient.invalidateQueries({ queryKey: ["/api/messages/unread-counts"] });
+        queryClient.invalidateQueries({ queryKey: messagesKey });
+      })
+      .catch(() => undefined);
+  }, [activeProject?.id, unread]);
+
+  const invalidateMessages = () => {
+    queryClient.invalidateQueries({ queryKey: messagesKey });
+    queryClient.invalidateQueries({ queryKey: ["/api/messages/unread-counts"] });
+  };
+
   const sendMessageMutation = useMutation({
     mutationFn: async (content: string) => {
-      const response = await apiRequest("POST", `/api/projects/${activeProject?.id}/messages`, {
-        content,
-        messageType: 'text',
+      // Only mentions still present in the text are sent
+      const stillMentioned = mentions
+        .filter(person => content.includes(`@${person.name}`))
+        .map(({ type, id }) => ({ type, id }));
+
+      if (attachments.length === 0) {
+        const response = await apiRequest("POST", `/api/projects/${activeProject?.id}/messages`, {
+          content,
+          parentId: replyTo?.id,
+          mentions: stillMentioned,
+        });
+        return response.json();
+      }
+
+      // FormData uploads go through fetch directly, like the file upload modal
+      const formData = new FormData();
+      formData.append("content", content);
+      if (replyTo) formData.append("parentId", replyTo.id);
+      formData.append("mentions", JSON.stringify(stillMentioned));
+      attachments.forEach(file => formData.append("attachments", file));
+      const response = await fetch(`/api/projects/${activeProject?.id}/messages`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
       });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${await response.text()}`);
+      }
       return response.json();
     },
     onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/projects", activeProject?.id, "messages"] });
+      invalidateMessages();
+      if (attachments.length > 0) {
+        queryClient.invalidateQueries({ queryKey: ["/api/projects", activeProject?.id, "files"] });
+      }
       setNewMessage('');
+      setMentions([]);
+      setAttachments([]);
+      setReplyTo(null);
       toast({
         title: "Message Sent",
         description: "Your message has been sent successfully.",
       });
     },
     onError: (error: Error) => {
-      if (isUnauthorizedError(error)) {
-        toast({
-          title: "Unauthorized",
-          description: "You are logged out. Logging in again...",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 500);
-        return;
-      }
+      if (handleUnauthorized(error)) return;
       toast({
-        title: "Send Failed",
-        description: "Unable to send message. Please try again.",
+        title: "Error",
+        description: "Failed to send message. Please try again.",
         variant: "destructive",
       });
     },
   });
 
+  const editMutation = useMutation({
+    mutationFn: async ({ id, content }: { id: string; content: string }) => {
+      await apiRequest("PUT", `/api/messages/${id}`, { content });
+    },
+    onSuccess: () => {
+      invalidateMessages();
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      if (handleUnauthorized(error)) return;
+      toast({ title: "Could not edit message", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/messages/${id}`);
+    },
+    onSuccess: invalidateMessages,
+    onError: (error: Error) => {
+      if (handleUnauthorized(error)) return;
+      toast({ title: "Could not delete message", description: error.message, variant: "destructive" });
+    },
+  });
+
   const handleSendMessage = () => {
     if (!newMessage.trim()) {
       toast({
@@ -111,6 +247,17 @@ export default function UpdatesSection() {
     }
   };
 
+  // "@" followed by letters at the end of the text opens the people list
+  const mentionQuery = newMessage.match(/@([\w-]*)$/)?.[1];
+  const mentionSuggestions = mentionQuery === undefined
+    ? []
+    : mentionable.filter(person => person.name.toLowerCase().includes(mentionQuery.toLowerCase())).slice(0, 6);
+
+  const insertMention = (person: MessageMention) => {
+    setNewMessage(newMessage.replace(/@[\w-]*$/, `@${person.name} `));
+    setMentions(current => current.some(m => m.type === person.type && m.id === person.id) ? current : [...current, person]);
+  };
+
   if (isLoading) {
     return (
       <div className="space-y-6">
@@ -122,24 +269,100 @@ export default function UpdatesSection() {
     );
   }
 
-  const getInitials = (user: User) => {
-    return `${user.firstName?.[0] || ''}${user.lastName?.[0] || ''}`.toUpperCase() || 'U';
-  };
+  const threads = messages.filter(message => !message.parentId);
+  const repliesTo = (threadId: string) => messages.filter(message => message.parentId === threadId);
 
-  const formatMessageTime = (timestamp: string) => {
-    const date = new Date(timestamp);
-    const now = new Date();
-    const diffInHours = Math.floor((now.getTime() - date.getTime()) / (1000 * 60 * 60));
-    
-    if (diffInHours < 1) {
-      const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60));
-      return diffInMinutes < 1 ? 'Just now' : `${diffInMinutes} minutes ago`;
-    } else if (diffInHours < 24) {
-      return `${diffInHours} hours ago`;
-    } else {
-      const diffInDays = Math.floor(diffInHours / 24);
-      return `${diffInDays} days ago`;
-    }
+  const renderMessage = (message: ThreadMessage, isReply = false) => {
+    const isOwn = message.senderId === user?.id;
+    const canModerate = hasPermission(user?.role, 'messages.moderate');
+
+    return (
+      <div key={message.id} className={`flex gap-4 ${isReply ? "ml-16" : ""}`}>
+        <Avatar className={isReply ? "w-9 h-9" : "w-12 h-12"}>
+          <AvatarImage
+            src={message.sender.profileImageUrl || undefined}
+            alt={`${message.sender.firstName} ${message.sender.lastName}`}
+          />
+          <AvatarFallback className="bg-blue-100 text-blue-600">
+            {getInitials(message.sender)}
+          </AvatarFallback>
+        </Avatar>
+
+        <div className="flex-1">
+          <div className="bg-gray-50 rounded-lg p-4">
+            <div className="flex justify-between items-center mb-2">
+              <div className="font-medium text-gray-900">
+                {message.sender.firstName} {message.sender.lastName}
+                {isStaffRole(message.sender.role) && (
+                  <Badge variant="secondary" className="ml-2">Team</Badge>
+                )}
+              </div>
+              <span className="text-sm text-gray-500">
+                {formatMessageTime(message.createdAt)}
+                {message.editedAt && !message.deletedAt && " · edited"}
+              </span>
+            </div>
+
+            {message.deletedAt ? (
+              <p className="text-gray-400 italic">This message was deleted.</p>
+            ) : editing?.id === message.id ? (
+              <div className="space-y-2">
+                <Textarea value={editing.content} onChange={(e) => setEditing({ id: message.id, content: e.target.value })} rows={3} />
+                <div className="flex justify-end gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => setEditing(null)}>Cancel</Button>
+                  <Button size="sm" onClick={() => editMutation.mutate(editing)} disabled={!editing.content.trim() || editMutation.isPending}>
+                    Save
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-gray-700 whitespace-pre-wrap">{renderContent(message)}</p>
+            )}
+
+            {message.attachments.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-2">
+                {message.attachments.map(attachment => (
+                  <a key={attachment.id} href={`/api/files/${attachment.id}/download`}>
+                    <Badge variant="outline" className="cursor-pointer">
+                      <Paperclip className="h-3 w-3 mr-1" />
+                      {attachment.fileName}
+                    </Badge>
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="mt-1 flex flex-wrap items-center gap-1 text-xs text-gray-500">
+            {canPost && !isReply && !message.deletedAt && (
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setReplyTo(message)}>
+                <Reply className="h-3 w-3 mr-1" />
+                Reply
+              </Button>
+            )}
+            {isOwn && !message.deletedAt && (
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setEditing({ id: message.id, content: message.content })}>
+                <Pencil className="h-3 w-3 mr-1" />
+                Edit
+              </Button>
+            )}
+            {(isOwn || canModerate) && !message.deletedAt && (
+              <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => deleteMutation.mutate(message.id)}>
+                <Trash2 className="h-3 w-3 mr-1" />
+                Delete
+              </Button>
+            )}
+            {(message.editedAt || message.deletedAt) && <MessageHistory messageId={message.id} />}
+            {isOwn && message.readBy.length > 0 && (
+              <span className="ml-auto flex items-center gap-1" title={message.readBy.map(reader => `${reader.name} · ${new Date(reader.readAt).toLocaleString()}`).join("\n")}>
+                <CheckCheck className="h-3 w-3 text-blue-600" />
+                Seen by {message.readBy.map(reader => reader.name).join(", ")}
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+    );
   };
 
   return (
@@ -149,114 +372,183 @@ export default function UpdatesSection() {
           <h2 className="text-2xl font-bold text-gray-900">Updates & Messages</h2>
           <p className="text-gray-600">Communication and project updates from your team</p>
         </div>
-        <Button className="bg-blue-600 hover:bg-blue-700">
-          <Plus className="h-4 w-4 mr-2" />
-          New Message
-        </Button>
+        {projects && projects.length > 1 && (
+          <Select value={activeProject?.id} onValueChange={setSelectedProjectId}>
+            <SelectTrigger className="w-64">
+              <SelectValue placeholder="Choose a project" />
+            </SelectTrigger>
+            <SelectContent>
+              {projects.map(project => (
+                <SelectItem key={project.id} value={project.id}>
+                  {project.name}
+                  {unreadFor(project.id) > 0 && ` (${unreadFor(project.id)} new)`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
       </div>
 
       <Card>
         <CardHeader>
-          <CardTitle className="flex items-center gap-2">
-            <MessageSquare className="h-5 w-5" />
-            Project Conversation
-          </CardTitle>
+          <div className="flex items-center justify-between gap-4">
+            <CardTitle className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5" />
+              Project Conversation
+            </CardTitle>
+            <ProjectPresence projectId={activeProject?.id} />
+          </div>
         </CardHeader>
         <CardContent>
           {/* Messages */}
           <div className="space-y-6 mb-6">
-            {!messages || messages.length === 0 ? (
+            {threads.length === 0 ? (
               <div className="text-center py-8 text-gray-500">
                 <MessageSquare className="h-16 w-16 mx-auto mb-4 opacity-50" />
                 <h3 className="text-lg font-medium mb-2">No Messages Yet</h3>
                 <p>Start a conversation with your project team!</p>
               </div>
             ) : (
-              messages.map((message) => (
-                <div key={message.id} className="flex gap-4">
-                  <Avatar className="w-12 h-12">
-                    <AvatarImage 
-                      src={message.sender.profileImageUrl || undefined} 
-                      alt={`${message.sender.firstName} ${message.sender.lastName}`} 
-                    />
-                    <AvatarFallback className="bg-blue-100 text-blue-600">
-                      {getInitials(message.sender)}
-                    </AvatarFallback>
-                  </Avatar>
-                  
-                  <div className="flex-1">
-                    <div className="bg-gray-50 rounded-lg p-4">
-                      <div className="flex justify-between items-center mb-2">
-                        <div className="font-medium text-gray-900">
-                          {message.sender.firstName} {message.sender.lastName}
-                          {message.sender.role === 'admin' && (
-                            <Badge variant="secondary" className="ml-2">Team</Badge>
-                          )}
-                        </div>
-                        <span className="text-sm text-gray-500">
-                          {formatMessageTime(message.createdAt)}
-                        </span>
-                      </div>
-                      <p className="text-gray-700">{message.content}</p>
-                      
-                      {message.attachmentPath && (
-                        <div className="mt-3">
-                          <Badge variant="outline">
-                            <Paperclip className="h-3 w-3 mr-1" />
-                            Attachment
-                          </Badge>
-                        </div>
-                      )}
-                    </div>
-                  </div>
+              threads.map((thread) => (
+                <div
+                  key={thread.id}
+                  id={`thread-${thread.id}`}
+                  className={`space-y-3 ${thread.id === focusThreadId ? "rounded-lg ring-2 ring-blue-200 p-2" : ""}`}
+                >
+                  {renderMessage(thread)}
+                  {repliesTo(thread.id).map(reply => renderMessage(reply, true))}
                 </div>
               ))
             )}
           </div>
 
-          {/* Message Input */}
-          <div className="border-t pt-6">
-            <div className="flex gap-4">
-              <Avatar className="w-12 h-12">
-                <AvatarImage 
-                  src={user?.profileImageUrl || undefined} 
-                  alt={`${user?.firstName} ${user?.lastName}`} 
-                />
-                <AvatarFallback className="bg-blue-100 text-blue-600">
-                  {user ? getInitials(user) : 'U'}
-                </AvatarFallback>
-              </Avatar>
-              
-              <div className="flex-1 space-y-3">
-                <Textarea
-                  placeholder="Type your message here..."
-                  value={newMessage}
-                  onChange={(e) => setNewMessage(e.target.value)}
-                  onKeyPress={handleKeyPress}
-                  rows={3}
-                  className="resize-none"
-                />
-                
-                <div className="flex justify-between items-center">
-                  <Button variant="outline" size="sm">
-                    <Paperclip className="h-4 w-4 mr-2" />
-                    Attach File
-                  </Button>
-                  
-                  <Button 
-                    onClick={handleSendMessage}
-                    disabled={!newMessage.trim() || sendMessageMutation.isPending}
-                    className="bg-blue-600 hover:bg-blue-700"
-                  >
-                    <Send className="h-4 w-4 mr-2" />
-                    {sendMessageMutation.isPending ? 'Sending...' : 'Send Message'}
-                  </Button>
+          {/* Message Input; read-only contacts can follow along but not post */}
+          {canPost && (
+            <div className="border-t pt-6">
+              <div className="flex gap-4">
+                <Avatar className="w-12 h-12">
+                  <AvatarImage
+                    src={user?.profileImageUrl || undefined}
+                    alt={`${user?.firstName} ${user?.lastName}`}
+                  />
+                  <AvatarFallback className="bg-blue-100 text-blue-600">
+                    {user ? getInitials(user) : 'U'}
+                  </AvatarFallback>
+                </Avatar>
+
+                <div className="flex-1 space-y-3">
+                  {replyTo && (
+                    <div className="flex items-center justify-between rounded bg-blue-50 px-3 py-2 text-sm text-blue-800">
+                      <span className="truncate">
+                        Replying to {replyTo.sender.firstName}: {replyTo.content}
+                      </span>
+                      <Button variant="ghost" size="sm" className="h-6 px-1" onClick={() => setReplyTo(null)}>
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  )}
+
+                  <div className="relative">
+                    <Textarea
+                      placeholder="Type your message here... Use @ to mention someone"
+                      value={newMessage}
+                      onChange={(e) => setNewMessage(e.target.value)}
+                      onKeyPress={handleKeyPress}
+                      rows={3}
+                      className="resize-none"
+                    />
+                    {mentionSuggestions.length > 0 && (
+                      <div className="absolute bottom-full left-0 z-10 mb-1 w-64 rounded border bg-white shadow">
+                        {mentionSuggestions.map(person => (
+                          <button
+                            key={`${person.type}:${person.id}`}
+                            className="block w-full px-3 py-2 text-left text-sm hover:bg-gray-50"
+                            onClick={() => insertMention(person)}
+                          >
+                            {person.name}
+                            <span className="ml-2 text-xs text-gray-400">{person.type === 'team_member' ? 'Team' : 'Client'}</span>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {attachments.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {attachments.map((file, index) => (
+                        <Badge key={index} variant="outline">
+                          <Paperclip className="h-3 w-3 mr-1" />
+                          {file.name}
+                          <button className="ml-1" onClick={() => setAttachments(attachments.filter((_, i) => i !== index))}>
+                            <X className="h-3 w-3" />
+                          </button>
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex justify-between items-center">
+                    <input
+                      ref={fileInputRef}
+                      type="file"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        setAttachments([...attachments, ...Array.from(e.target.files || [])].slice(0, 5));
+                        e.target.value = '';
+                      }}
+                    />
+                    <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()} disabled={attachments.length >= 5}>
+                      <Paperclip className="h-4 w-4 mr-2" />
+                      Attach File
+                    </Button>
+
+                    <Button
+                      onClick={handleSendMessage}
+                      disabled={!newMessage.trim() || sendMessageMutation.isPending}
+                      className="bg-blue-600 hover:bg-blue-700"
+                    >
+                      <Send className="h-4 w-4 mr-2" />
+                      {sendMessageMutation.isPending ? 'Sending...' : replyTo ? 'Send Reply' : 'Send Message'}
+                    </Button>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
+          )}
         </CardContent>
       </Card>
     </div>
   );
 }
+
+// Earlier wording of an edited or deleted message
+function MessageHistory({ messageId }: { messageId: string }) {
+  const [open, setOpen] = useState(false);
+  const { data: revisions = [] } = useQuery<MessageRevision[]>({
+    queryKey: [`/api/messages/${messageId}/history`],
+    enabled: open,
+  });
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
+          <History className="h-3 w-3 mr-1" />
+          History
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        {revisions.length === 0 && <p className="text-sm text-gray-500">No earlier versions.</p>}
+        {revisions.map(revision => (
+          <div key={revision.id} className="text-sm">
+            <p className="text-xs text-gray-500">
+              {revision.action === 'deleted' ? 'Deleted' : 'Edited'} {revision.changedAt ? new Date(revision.changedAt).toLocaleString() : ''}
+            </p>
+            <p className="whitespace-pre-wrap text-gray-700">{revision.content}</p>
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { getBrowserTimezone, setPreferredTimezone } from "@/utils/timeFormatting";
 
 let authCache: { user: any; timestamp: number; isAuthenticated: boolean } | null = null;
 const CACHE_DURATION = 60000; // 1 minute
@@ -45,6 +46,17 @@ export function useAuth() {
     })
     .then(user => {
       if (!isCancelled) {
+        // First login: store the browser's timezone as the user's preference
+        if (user && !user.timezone) {
+          user = { ...user, timezone: getBrowserTimezone() };
+          fetch('/api/user/timezone', {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json' },
+            credentials: 'include',
+            body: JSON.stringify({ timezone: user.timezone })
+          }).catch(error => console.warn('Could not save detected timezone:', error));
+        }
+        setPreferredTimezone(user?.timezone);
         authCache = {
           user,
           timestamp: Date.now(),
@@ -0,0 +1,29 @@
+import { useEffect, useState } from "react";
+import { realtime, type PresenceViewer } from "@/lib/realtime";
+
+// Keeps the live-update socket open while the user is signed in; events invalidate React Query caches
+export function useRealtimeUpdates(enabled: boolean) {
+  useEffect(() => {
+    if (!enabled) return;
+    realtime.acquire();
+    return () => realtime.release();
+  }, [enabled]);
+}
+
+// Announces that this screen is viewing the project and returns everyone else who is too
+export function useProjectPresence(projectId: string | null | undefined) {
+  const [viewers, setViewers] = useState<PresenceViewer[]>([]);
+
+  useEffect(() => {
+    setViewers([]);
+    if (!projectId) return;
+    realtime.acquire();
+    const stopWatching = realtime.watchProject(projectId, setViewers);
+    return () => {
+      stopWatching();
+      realtime.release();
+    };
+  }, [projectId]);
+
+  return viewers;
+}
@@ -0,0 +1,155 @@
+import type { QueryKey } from "@tanstack/react-query";
+import { queryClient } from "./queryClient";
+
+export type RealtimeEntity = "task" | "assignment" | "message" | "file" | "project";
+
+export interface RealtimeEvent {
+  type: "event";
+  entity: RealtimeEntity;
+  action: "created" | "updated" | "deleted";
+  id: string;
+  projectId: string | null;
+  taskId?: string | null;
+}
+
+export interface PresenceViewer {
+  userId: string;
+  name: string;
+  role: string | null;
+}
+
+type PresenceListener = (viewers: PresenceViewer[]) => void;
+
+const RECONNECT_MAX_DELAY_MS = 30000;
+
+// Query keys that may hold data touched by an event; prefix matching covers the per-id variants
+const keysFor = (event: RealtimeEvent): QueryKey[] => {
+  const { projectId } = event;
+  switch (event.entity) {
+    case "task":
+    case "assignment":
+      return [
+        ["/api/projects", projectId, "tasks"],
+        ["/api/projects", projectId, "task-graph"],
+        ["/api/admin/tasks"],
+        ["/api/admin/task-assignments"],
+        ["/api/task-assignments"],
+        ["/api/team-members"],
+        ["/api/tasks"],
+        ["/api/organizations"],
+        ["/api/approvals"],
+      ];
+    case "message":
+      return [
+        ["/api/projects", projectId, "messages"],
+        ["/api/messages/unread-counts"],
+        ["/api/notifications"],
+      ];
+    case "file":
+      return [
+        ["/api/projects", projectId, "files"],
+        ["/api/approvals"],
+      ];
+    case "project":
+      return [["/api/projects"], ["/api/admin/projects"], ["/api/admin/tasks"]];
+  }
+};
+
+// One socket per tab, shared by every hook. It reconnects with backoff and refetches everything after
+// a drop, since events sent while it was down are gone.
+class RealtimeConnection {
+  private socket: WebSocket | null = null;
+  private users = 0;
+  private attempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private viewing = new Map<string, number>();
+  private presence = new Map<string, Set<PresenceListener>>();
+
+  acquire() {
+    this.users++;
+    if (this.users === 1) this.connect();
+  }
+
+  release() {
+    this.users--;
+    if (this.users > 0) return;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private connect() {
+    const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+    const socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      if (this.attempts > 0) {
+        queryClient.invalidateQueries();
+      }
+      this.attempts = 0;
+      this.viewing.forEach((_count, projectId) => this.send({ type: "presence.join", projectId }));
+    };
+    socket.onmessage = (message) => this.handle(message.data);
+    socket.onclose = () => {
+      if (this.socket !== socket || this.users === 0) return;
+      this.socket = null;
+      const delay = Math.min(1000 * 2 ** this.attempts, RECONNECT_MAX_DELAY_MS);
+      this.attempts++;
+      this.reconnectTimer = setTimeout(() => this.connect(), delay);
+    };
+  }
+
+  private send(message: object) {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    }
+  }
+
+  private handle(raw: string) {
+    let message: any;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    if (message.type === "event") {
+      const event = message as RealtimeEvent;
+      keysFor(event).forEach((queryKey) => queryClient.invalidateQueries({ queryKey }));
+      // File review queries use path-style keys under the project
+      if (event.entity === "file" && event.projectId) {
+        const prefix = `/api/projects/${event.projectId}/files`;
+        queryClient.invalidateQueries({
+          predicate: (query) => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith(prefix),
+        });
+      }
+    } else if (message.type === "presence") {
+      this.presence.get(message.projectId)?.forEach((listener) => listener(message.viewers));
+    }
+  }
+
+  watchProject(projectId: string, listener: PresenceListener) {
+    if (!this.presence.has(projectId)) this.presence.set(projectId, new Set());
+    this.presence.get(projectId)!.add(listener);
+
+    const count = this.viewing.get(projectId) || 0;
+    this.viewing.set(projectId, count + 1);
+    if (count === 0) this.send({ type: "presence.join", projectId });
+
+    return () => {
+      this.presence.get(projectId)?.delete(listener);
+      const remaining = (this.viewing.get(projectId) || 1) - 1;
+      if (remaining > 0) {
+        this.viewing.set(projectId, remaining);
+        return;
+      }
+      this.viewing.delete(projectId);
+      this.presence.delete(projectId);
+      this.send({ type: "presence.leave", projectId });
+    };
+  }
+}
+
+export const realtime = new RealtimeConnection();
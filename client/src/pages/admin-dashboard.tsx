@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Plus, Users, Briefcase, Settings, Eye, Building2, Edit, CheckSquare, Clock, AlertTriangle, Grid3X3, List, UserPlus, FolderOpen, GripVertical, Trash2, User as UserIcon } from "lucide-react";
+import { Plus, Users, Briefcase, Settings, Eye, Building2, Edit, CheckSquare, Clock, AlertTriangle, Grid3X3, List, UserPlus, FolderOpen, GripVertical, Trash2, User as UserIcon, Columns3 } from "lucide-react";
 import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core';
 import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy } from '@dnd-kit/sortable';
 import { useSortable } from '@dnd-kit/sortable';
@@ -40,7 +40,13 @@ import { RestoreDeletedItems } from "@/components/restore-deleted-items";
 import { DeleteConfirmationDialog } from "@/components/delete-confirmation-dialog";
 import { DashboardToggle } from "@/components/dashboard-toggle";
 import { TeamManagementContent } from "@/components/team-management-content";
+import { TimeReport } from "@/components/time-report";
+import { InvoiceManagement } from "@/components/invoice-management";
+import { JobMonitor } from "@/components/job-monitor";
 import type { Project, Task, Service, User, Organization } from "@shared/schema";
+import { NotificationBell } from "@/components/notification-bell";
+import { CommandPalette, type SearchResult } from "@/components/command-palette";
+import { TaskBoard } from "@/components/task-board";
 
 type ProjectWithOrganization = Project & { organization?: Organization };
 
@@ -61,6 +67,7 @@ export default function AdminDashboard() {
   const [activeTab, setActiveTab] = useState("organizations");
   const [organizationViewMode, setOrganizationViewMode] = useState<"grid" | "list">("list");
   const [projectViewMode, setProjectViewMode] = useState<"grid" | "list">("list");
+  const [taskViewMode, setTaskViewMode] = useState<"board" | "list">("list");
   const [editingOrganization, setEditingOrganization] = useState<Organization | null>(null);
   const [viewingOrgContacts, setViewingOrgContacts] = useState<Organization | null>(null);
   const [viewingOrgTasks, setViewingOrgTasks] = useState<Organization | null>(null);
@@ -248,6 +255,40 @@ export default function AdminDashboard() {
     window.location.href = '/client-view';
   };
 
+  // Jump from a search result to where that item is managed
+  const openSearchResult = async (result: SearchResult) => {
+    switch (result.type) {
+      case "organization":
+        setActiveTab("organizations");
+        setSelectedOrgForProjects(result.id);
+        break;
+      case "project": {
+        const project = projects?.find(p => p.id === result.id);
+        if (project) {
+          setSelectedProjectForTasks(project);
+          setShowAgencyTasks(true);
+        }
+        break;
+      }
+      case "task": {
+        const task = allTasks?.find(t => t.id === result.id)
+          || await apiRequest("GET", `/api/tasks/${result.id}`).then(res => res.json()).catch(() => null);
+        if (task) setEditingTask(task);
+        break;
+      }
+      case "message":
+        if (!result.projectId) break;
+        localStorage.setItem('adminViewingProject', result.projectId);
+        window.location.href = `/client-view?tab=messages&thread=${result.threadId || result.id}`;
+        break;
+      case "file":
+        if (!result.projectId) break;
+        localStorage.setItem('adminViewingProject', result.projectId);
+        window.location.href = '/client-view?tab=files';
+        break;
+    }
+  };
+
   // Sortable project card component
   function SortableProjectCard({ project }: { project: ProjectWithOrganization }) {
     const {
@@ -544,6 +585,7 @@ export default function AdminDashboard() {
               <p className="text-gray-600">Manage clients, projects, and team activities</p>
             </div>
             <div className="flex items-center gap-4">
+              <CommandPalette onSelect={openSearchResult} className="w-56 text-gray-500 hover:bg-gray-50" />
               <Button
                 variant="outline"
                 onClick={() => window.location.href = '/my-tasks'}
@@ -560,6 +602,7 @@ export default function AdminDashboard() {
                 <Settings className="h-4 w-4" />
                 Restore Items
               </Button>
+              <NotificationBell />
               <Badge variant="secondary">Admin</Badge>
               <div className="text-right">
                 <p className="text-sm font-medium text-gray-900">
@@ -581,13 +624,16 @@ export default function AdminDashboard() {
       {/* Main Content */}
       <div className="p-6">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-7">
+          <TabsList className="grid w-full grid-cols-10">
             <TabsTrigger value="organizations">Organizations</TabsTrigger>
             <TabsTrigger value="clients">Clients</TabsTrigger>
             <TabsTrigger value="proposals">Proposals</TabsTrigger>
+            <TabsTrigger value="invoices">Invoices</TabsTrigger>
             <TabsTrigger value="services">Services</TabsTrigger>
             <TabsTrigger value="tasks">Tasks</TabsTrigger>
             <TabsTrigger value="team">Team</TabsTrigger>
+            <TabsTrigger value="time">Time</TabsTrigger>
+            <TabsTrigger value="jobs">Jobs</TabsTrigger>
             <TabsTrigger value="deleted">Deleted Items</TabsTrigger>
           </TabsList>
 
@@ -595,10 +641,22 @@ export default function AdminDashboard() {
             <ProposalManagement />
           </TabsContent>
 
+          <TabsContent value="invoices" className="space-y-6">
+            <InvoiceManagement />
+          </TabsContent>
+
           <TabsContent value="team" className="space-y-6">
             <TeamManagementContent />
           </TabsContent>
 
+          <TabsContent value="time" className="space-y-6">
+            <TimeReport />
+          </TabsContent>
+
+          <TabsContent value="jobs" className="space-y-6">
+            <JobMonitor />
+          </TabsContent>
+
           <TabsContent value="tasks" className="space-y-6">
             <div className="flex justify-between items-center">
               <div>
@@ -606,6 +664,26 @@ export default function AdminDashboard() {
                 <p className="text-gray-600">Organized by team member and priority</p>
               </div>
               <div className="flex gap-2">
+                <div className="flex border rounded-lg">
+                  <Button
+                    variant={taskViewMode === "board" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setTaskViewMode("board")}
+                    className="rounded-r-none"
+                    title="Board"
+                  >
+                    <Columns3 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant={taskViewMode === "list" ? "default" : "ghost"}
+                    size="sm"
+                    onClick={() => setTaskViewMode("list")}
+                    className="rounded-l-none"
+                    title="List"
+                  >
+                    <List className="h-4 w-4" />
+                  </Button>
+                </div>
                 <Button
                   variant="outline"
                   size="sm"
@@ -616,7 +694,9 @@ export default function AdminDashboard() {
               </div>
             </div>
 
-            {tasksLoading ? (
+            {taskViewMode === "board" ? (
+              <TaskBoard />
+            ) : tasksLoading ? (
               <div className="animate-pulse space-y-4">
                 {[1, 2, 3].map((i) => (
                   <div key={i} className="h-24 bg-gray-200 rounded"></div>
@@ -15,12 +15,16 @@ import type { Project, Task, ProjectFile, Message, Service, Kpi } from "@shared/
 import { ClientWelcomeSection } from "@/components/client-welcome-section";
 import ProjectProgressCard from "@/components/project-progress-card";
 import { DashboardToggle } from "@/components/dashboard-toggle";
+import { TaskDependencyGraph, BlockedBadge, useTaskGraph } from "@/components/task-dependency-graph";
 
 export default function ClientView() {
   const [, setLocation] = useLocation();
   const { toast } = useToast();
   const [projectId, setProjectId] = useState<string>("");
   const [viewingFile, setViewingFile] = useState<ProjectFile | null>(null);
+  // Search results link straight to a tab and message thread, e.g. ?tab=messages&thread=...
+  const [searchParams] = useState(() => new URLSearchParams(window.location.search));
+  const focusThreadId = searchParams.get('thread');
 
   useEffect(() => {
     // Get the project ID from localStorage (set by admin)
@@ -43,6 +47,8 @@ export default function ClientView() {
     enabled: !!projectId,
   });
 
+  const { data: taskGraph } = useTaskGraph(projectId);
+
   const { data: files } = useQuery<ProjectFile[]>({
     queryKey: ["/api/projects", projectId, "files"],
     enabled: !!projectId,
@@ -53,6 +59,11 @@ export default function ClientView() {
     enabled: !!projectId,
   });
 
+  useEffect(() => {
+    if (!focusThreadId || !messages?.length) return;
+    document.getElementById(`message-${focusThreadId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [focusThreadId, messages?.length]);
+
   const { data: analytics } = useQuery<any[]>({
     queryKey: ["/api/projects", projectId, "analytics"],
     enabled: !!projectId,
@@ -260,7 +271,7 @@ export default function ClientView() {
         </div>
 
         {/* Main Content Tabs */}
-        <Tabs defaultValue="tasks" className="space-y-6">
+        <Tabs defaultValue={searchParams.get('tab') || "tasks"} className="space-y-6">
           <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="tasks">Tasks & Progress</TabsTrigger>
             <TabsTrigger value="files">Project Files</TabsTrigger>
@@ -290,6 +301,7 @@ export default function ClientView() {
                             <Badge className={getStatusColor(task.status)}>
                               {task.status.replace('_', ' ')}
                             </Badge>
+                            <BlockedBadge node={taskGraph?.nodes.find(node => node.id === task.id)} graph={taskGraph} />
                           </div>
                           {task.description && (
                             <p className="text-gray-600 mb-3">{task.description}</p>
@@ -311,6 +323,9 @@ export default function ClientView() {
                 ))}
               </div>
             )}
+            {taskGraph && taskGraph.edges.length > 0 && (
+              <TaskDependencyGraph projectId={projectId} />
+            )}
           </TabsContent>
 
           <TabsContent value="files" className="space-y-4">
@@ -703,7 +718,11 @@ export default function ClientView() {
             ) : (
               <div className="space-y-4">
                 {messages?.map((message: Message & { sender: any }) => (
-                  <Card key={message.id}>
+                  <Card
+                    key={message.id}
+                    id={`message-${message.id}`}
+                    className={message.id === focusThreadId ? 'ring-2 ring-blue-200' : undefined}
+                  >
                     <CardContent className="p-4">
                       <div className="flex justify-between items-start mb-2">
                         <div className="flex items-center gap-3">
@@ -8,15 +8,46 @@ import TasksSection from "@/components/tasks-section";
 import AnalyticsSection from "@/components/analytics-section";
 import FilesSection from "@/components/files-section";
 import UpdatesSection from "@/components/updates-section";
+import ClientInvoices from "@/components/client-invoices";
+import ApprovalsSection from "@/components/approvals-section";
+import { NotificationBell } from "@/components/notification-bell";
 import { Button } from "@/components/ui/button";
 import { Menu } from "lucide-react";
 import { QuoteUpload } from "@/components/quote-upload";
 import { AdminUpgradeButton } from "@/components/admin-upgrade-button";
+import type { SearchResult } from "@/components/command-palette";
+
+// What a search result or deep link points at inside the active section
+interface SectionTarget {
+  projectId?: string;
+  taskId?: string;
+  threadId?: string;
+}
+
+const SEARCH_RESULT_SECTIONS: Record<SearchResult["type"], string> = {
+  project: "overview",
+  task: "tasks",
+  message: "updates",
+  organization: "overview",
+  file: "files",
+};
 
 export default function Dashboard() {
   const { user, isAuthenticated, isLoading } = useAuth();
   const { toast } = useToast();
-  const [activeSection, setActiveSection] = useState("overview");
+  // Email and notification links open a section directly, e.g. /?section=approvals
+  const [activeSection, setActiveSection] = useState(
+    () => new URLSearchParams(window.location.search).get("section") || "overview"
+  );
+  // ...and can point at a project, task or message thread, e.g. /?section=updates&project=...&thread=...
+  const [target, setTarget] = useState<SectionTarget>(() => {
+    const params = new URLSearchParams(window.location.search);
+    return {
+      projectId: params.get("project") || undefined,
+      taskId: params.get("task") || undefined,
+      threadId: params.get("thread") || undefined,
+    };
+  });
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
 
   // Redirect to login if not authenticated
@@ -53,24 +84,37 @@ export default function Dashboard() {
     setSidebarCollapsed(!sidebarCollapsed);
   };
 
+  const openSearchResult = (result: SearchResult) => {
+    setTarget({
+      projectId: result.projectId || undefined,
+      taskId: result.type === "task" ? result.id : undefined,
+      threadId: result.threadId || undefined,
+    });
+    setActiveSection(SEARCH_RESULT_SECTIONS[result.type]);
+  };
+
   const renderActiveSection = () => {
     switch (activeSection) {
       case "overview":
-        return <ProjectOverview />;
+        return <ProjectOverview projectId={target.projectId} />;
       case "tasks":
-        return <TasksSection />;
+        return <TasksSection projectId={target.projectId} focusTaskId={target.taskId} />;
       case "analytics":
         return <AnalyticsSection />;
       case "files":
         return <FilesSection />;
+      case "approvals":
+        return <ApprovalsSection />;
       case "updates":
-        return <UpdatesSection />;
+        return <UpdatesSection projectId={target.projectId} focusThreadId={target.threadId} />;
+      case "invoices":
+        return <ClientInvoices />;
       case "quotes":
         return <QuoteUpload />;
       case "admin-upgrade":
         return <AdminUpgradeButton userRole={(user as any)?.role} />;
       default:
-        return <ProjectOverview />;
+        return <ProjectOverview projectId={target.projectId} />;
     }
   };
 
@@ -80,7 +124,9 @@ export default function Dashboard() {
       tasks: "Tasks & Services",
       analytics: "Analytics & Reports",
       files: "Project Files",
+      approvals: "Approvals",
       updates: "Updates & Messages",
+      invoices: "Invoices",
       quotes: "Quote Upload",
       "admin-upgrade": "Admin Access",
     };
@@ -94,6 +140,7 @@ export default function Dashboard() {
         setActiveSection={setActiveSection}
         collapsed={sidebarCollapsed}
         user={user}
+        onSearchSelect={openSearchResult}
       />
       
       <div className={`transition-all duration-300 ${sidebarCollapsed ? "ml-0" : "ml-72"}`}>
@@ -115,6 +162,7 @@ export default function Dashboard() {
             </div>
             
             <div className="flex items-center gap-4">
+              <NotificationBell onNavigate={setActiveSection} />
               <div className="text-right hidden sm:block">
                 <p className="text-sm text-gray-500">Last updated: Today, 2:30 PM</p>
               </div>
@@ -2,13 +2,16 @@ import { useState, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import { TeamMemberTasks } from '@/components/team-member-tasks';
+import { TeamMemberTimesheet } from '@/components/team-member-timesheet';
 import { CalendarSyncDialog } from '@/components/calendar-sync-dialog';
 import { CalendarSettings } from '@/components/CalendarSettings';
+import { CalendarFeeds } from '@/components/calendar-feeds';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { User, AlertCircle, Calendar, LogIn, Settings } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
 import { useLocation, Link } from "wouter";
+import { isStaffRole } from "@shared/permissions";
 
 export function MyTasksPage() {
   const [showCalendarDialog, setShowCalendarDialog] = useState(false);
@@ -172,10 +175,16 @@ export function MyTasksPage() {
         
         <div className="grid gap-6">
           <CalendarSettings user={user} />
+          <Card>
+            <CardContent className="pt-6">
+              <CalendarFeeds scope="team_member" scopeId={currentTeamMember.id} isAdmin={isStaffRole(user?.role)} />
+            </CardContent>
+          </Card>
           <TeamMemberTasks 
             teamMemberId={currentTeamMember.id} 
             teamMemberName={currentTeamMember.name}
           />
+          <TeamMemberTimesheet teamMemberId={currentTeamMember.id} />
         </div>
         
         <CalendarSyncDialog
@@ -0,0 +1,359 @@
+import { useEffect, useMemo, useState } from "react";
+import { useRoute } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/hooks/use-toast";
+import { Calendar, CheckCircle, Clock, FileSignature, MessageSquare, XCircle } from "lucide-react";
+import { formatCurrency } from "@/utils/currency";
+
+interface PortalItem {
+  id: string;
+  title: string;
+  description: string | null;
+  amount: string;
+  timeline: string | null;
+  phase: number | null;
+  isApproved: boolean | null;
+}
+
+interface PortalView {
+  proposal: {
+    id: string;
+    proposalNumber: string;
+    title: string;
+    description: string | null;
+    totalAmount: string;
+    status: string;
+    validUntil: string | null;
+    terms: string | null;
+    approvalType: string | null;
+    approvedDate: string | null;
+  };
+  items: PortalItem[];
+  contact: { name: string | null; email: string | null };
+  clientName: string | null;
+  organizationName: string | null;
+  contentHash: string;
+  expired: boolean;
+  canSign: boolean;
+  signature: {
+    signerName: string;
+    decision: string;
+    approvedItemIds: string[];
+    approvedTotal: string;
+    comments: string | null;
+    signedAt: string;
+  } | null;
+}
+
+const DECISION_LABELS: Record<string, string> = {
+  full: "Approved in full",
+  partial: "Partially approved",
+  declined: "Declined",
+};
+
+// Public page a client contact opens from their emailed link to review, approve and sign a proposal
+export default function ProposalPortalPage() {
+  const [, params] = useRoute("/proposal/:token");
+  const token = params?.token;
+  const { toast } = useToast();
+
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [itemComments, setItemComments] = useState<Record<string, string>>({});
+  const [openComments, setOpenComments] = useState<Set<string>>(new Set());
+  const [comments, setComments] = useState("");
+  const [signerName, setSignerName] = useState("");
+  const [agree, setAgree] = useState(false);
+
+  const { data: view, isLoading, error, refetch } = useQuery<PortalView>({
+    queryKey: ["/api/proposal-portal", token],
+    enabled: !!token,
+    retry: false,
+  });
+
+  // Everything starts ticked; the client unticks what they don't want
+  useEffect(() => {
+    if (view) {
+      setSelected(new Set(view.items.map(item => item.id)));
+      setSignerName(current => current || view.contact.name || "");
+    }
+  }, [view?.contentHash]);
+
+  const phases = useMemo(() => {
+    const groups = new Map<number | null, PortalItem[]>();
+    for (const item of view?.items || []) {
+      groups.set(item.phase, [...(groups.get(item.phase) || []), item]);
+    }
+    return Array.from(groups.entries());
+  }, [view]);
+
+  const selectedTotal = (view?.items || [])
+    .filter(item => selected.has(item.id))
+    .reduce((sum, item) => sum + Number(item.amount), 0);
+
+  const signMutation = useMutation({
+    mutationFn: async (approvedItemIds: string[]) => {
+      const response = await fetch(`/api/proposal-portal/${token}/sign`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          approvedItemIds,
+          signerName,
+          signerEmail: view?.contact.email || null,
+          comments: comments || null,
+          itemComments,
+          contentHash: view!.contentHash,
+          agree,
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.message || "Failed to sign proposal");
+      return data;
+    },
+    onSuccess: () => {
+      toast({ title: "Thank you!", description: "Your response has been recorded." });
+      refetch();
+    },
+    onError: (signError: Error) => {
+      toast({ title: "Could not sign", description: signError.message, variant: "destructive" });
+      refetch();
+    },
+  });
+
+  const toggle = (set: Set<string>, id: string) => {
+    const next = new Set(set);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    return next;
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-16 w-16 border-b-2 border-blue-600" />
+      </div>
+    );
+  }
+
+  if (error || !view) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center p-4">
+        <Card className="w-full max-w-md">
+          <CardContent className="p-8 text-center space-y-4">
+            <XCircle className="h-16 w-16 text-red-500 mx-auto" />
+            <h1 className="text-2xl font-semibold">Proposal unavailable</h1>
+            <p className="text-gray-600">This link is invalid or has been revoked. Please contact us for a new link.</p>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { proposal, signature } = view;
+  const readOnly = !view.canSign;
+  const canSubmit = signerName.trim().length >= 2 && agree && !signMutation.isPending;
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-8 px-4">
+      <div className="mx-auto max-w-3xl space-y-6">
+        <Card>
+          <CardHeader>
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="text-sm text-gray-500">{proposal.proposalNumber}</p>
+                <CardTitle className="text-2xl">{proposal.title}</CardTitle>
+                {(view.organizationName || view.clientName) && (
+                  <p className="text-gray-600 mt-1">Prepared for {view.organizationName || view.clientName}</p>
+                )}
+              </div>
+              {proposal.validUntil && (
+                <div className={`flex items-center gap-1 text-sm ${view.expired ? "text-red-600" : "text-gray-600"}`}>
+                  <Clock className="h-4 w-4" />
+                  {view.expired ? "Expired" : "Valid until"} {new Date(proposal.validUntil).toLocaleDateString()}
+                </div>
+              )}
+            </div>
+          </CardHeader>
+          {proposal.description && (
+            <CardContent>
+              <p className="text-gray-700 whitespace-pre-line">{proposal.description}</p>
+            </CardContent>
+          )}
+        </Card>
+
+        {signature && (
+          <Card className="border-green-200 bg-green-50">
+            <CardContent className="p-6 space-y-1">
+              <div className="flex items-center gap-2 font-semibold text-green-800">
+                <CheckCircle className="h-5 w-5" />
+                {DECISION_LABELS[signature.decision] || signature.decision}
+              </div>
+              <p className="text-sm text-green-900">
+                Signed by {signature.signerName} on {new Date(signature.signedAt).toLocaleString()}
+                {signature.decision !== "declined" && <> · {formatCurrency(signature.approvedTotal)} approved</>}
+              </p>
+              {signature.comments && <p className="text-sm text-green-900 italic">"{signature.comments}"</p>}
+            </CardContent>
+          </Card>
+        )}
+
+        {view.expired && !signature && (
+          <Card className="border-yellow-200 bg-yellow-50">
+            <CardContent className="p-6 text-yellow-800">
+              This proposal has expired and can no longer be signed. Please contact us for an updated proposal.
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">{readOnly ? "Items" : "Choose the items you'd like to go ahead with"}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {phases.map(([phase, items]) => (
+              <div key={phase ?? "none"} className="space-y-3">
+                {phase !== null && <h3 className="font-medium text-gray-900">Phase {phase}</h3>}
+                {items.map(item => {
+                  const checked = readOnly
+                    ? (signature ? signature.approvedItemIds.includes(item.id) : !!item.isApproved)
+                    : selected.has(item.id);
+                  return (
+                    <div
+                      key={item.id}
+                      className={`rounded-lg border-l-4 border p-4 ${checked ? "border-l-green-500" : "border-l-gray-300"}`}
+                    >
+                      <div className="flex items-start gap-3">
+                        <Checkbox
+                          checked={checked}
+                          disabled={readOnly}
+                          onCheckedChange={() => setSelected(toggle(selected, item.id))}
+                          className="mt-1"
+                        />
+                        <div className="flex-1 space-y-1">
+                          <div className="flex items-start justify-between gap-4">
+                            <span className="font-medium">{item.title}</span>
+                            <span className="font-semibold whitespace-nowrap">{formatCurrency(item.amount)}</span>
+                          </div>
+                          {item.description && <p className="text-sm text-gray-600">{item.description}</p>}
+                          <div className="flex items-center gap-4 text-sm text-gray-500">
+                            {item.timeline && (
+                              <span className="flex items-center gap-1">
+                                <Calendar className="h-3 w-3" />
+                                {item.timeline}
+                              </span>
+                            )}
+                            {!readOnly && (
+                              <button
+                                type="button"
+                                className="flex items-center gap-1 text-blue-600 hover:underline"
+                                onClick={() => setOpenComments(toggle(openComments, item.id))}
+                              >
+                                <MessageSquare className="h-3 w-3" />
+                                {itemComments[item.id] ? "Edit comment" : "Add comment"}
+                              </button>
+                            )}
+                          </div>
+                          {!readOnly && openComments.has(item.id) && (
+                            <Textarea
+                              value={itemComments[item.id] || ""}
+                              onChange={(e) => setItemComments({ ...itemComments, [item.id]: e.target.value })}
+                              placeholder="Questions or changes for this item"
+                              rows={2}
+                            />
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+
+            <div className="flex items-center justify-between border-t pt-4 text-lg font-semibold">
+              <span>{readOnly ? "Proposal total" : "Selected total"}</span>
+              <span>
+                {formatCurrency(readOnly ? (signature?.approvedTotal ?? proposal.totalAmount) : selectedTotal)} CAD
+                {!readOnly && selected.size < view.items.length && (
+                  <span className="ml-2 text-sm font-normal text-gray-500">of {formatCurrency(proposal.totalAmount)}</span>
+                )}
+              </span>
+            </div>
+          </CardContent>
+        </Card>
+
+        {proposal.terms && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Terms</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-sm text-gray-700 whitespace-pre-line">{proposal.terms}</p>
+            </CardContent>
+          </Card>
+        )}
+
+        {!readOnly && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <FileSignature className="h-5 w-5" />
+                Sign
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                <Label htmlFor="proposal-comments">Comments (optional)</Label>
+                <Textarea
+                  id="proposal-comments"
+                  value={comments}
+                  onChange={(e) => setComments(e.target.value)}
+                  rows={3}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="signer-name">Type your full name to sign</Label>
+                <Input
+                  id="signer-name"
+                  value={signerName}
+                  onChange={(e) => setSignerName(e.target.value)}
+                  className="font-serif text-lg italic"
+                />
+              </div>
+              <label className="flex items-start gap-2 text-sm text-gray-700">
+                <Checkbox checked={agree} onCheckedChange={(value) => setAgree(value === true)} className="mt-0.5" />
+                I agree that typing my name above is my electronic signature for the selected items and terms.
+              </label>
+              <div className="flex flex-col gap-2 sm:flex-row sm:justify-end">
+                <Button
+                  variant="outline"
+                  disabled={!canSubmit}
+                  onClick={() => signMutation.mutate([])}
+                  className="text-red-600"
+                >
+                  Decline proposal
+                </Button>
+                <Button
+                  disabled={!canSubmit || selected.size === 0}
+                  onClick={() => signMutation.mutate(Array.from(selected))}
+                  className="bg-green-600 hover:bg-green-700"
+                >
+                  {selected.size === view.items.length ? "Approve & sign" : `Approve ${selected.size} of ${view.items.length} items & sign`}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <p className="text-center text-xs text-gray-400">
+          {signature ? <Badge variant="outline">Signed</Badge> : null} Document fingerprint {view.contentHash.slice(0, 16)}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+/**
+ * Currency formatting for invoices and proposals (amounts are stored as CAD decimals)
+ */
+export const formatCurrency = (value: number | string | null | undefined): string =>
+  `$${Number(value || 0).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const INVOICE_STATUS_COLORS: Record<string, string> = {
+  draft: "bg-gray-100 text-gray-800",
+  sent: "bg-blue-100 text-blue-800",
+  paid: "bg-green-100 text-green-800",
+  overdue: "bg-red-100 text-red-800",
+  void: "bg-gray-200 text-gray-500 line-through",
+};
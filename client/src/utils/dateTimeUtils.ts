@@ -2,27 +2,24 @@
  * Client-side date/time utilities for task handling
  * Focuses on minimal client processing, preserving raw strings
  */
+import { getZonedDateTime } from "./timeFormatting";
 
 /**
- * Format UTC timestamp to local date string (YYYY-MM-DD)
+ * Format UTC timestamp to local date string (YYYY-MM-DD) in the user's timezone
  */
 export function formatLocalDate(utcTimestamp: string | Date): string {
   if (!utcTimestamp) return "";
   
-  const date = new Date(utcTimestamp);
-  return date.toISOString().split('T')[0];
+  return getZonedDateTime(utcTimestamp).date;
 }
 
 /**
- * Format UTC timestamp to local time string (HH:mm 24-hour format)
+ * Format UTC timestamp to local time string (HH:mm 24-hour format) in the user's timezone
  */
 export function formatLocalTime(utcTimestamp: string | Date): string {
   if (!utcTimestamp) return "";
   
-  const date = new Date(utcTimestamp);
-  const hours = date.getHours().toString().padStart(2, '0');
-  const minutes = date.getMinutes().toString().padStart(2, '0');
-  return `${hours}:${minutes}`;
+  return getZonedDateTime(utcTimestamp).time;
 }
 
 /**
@@ -51,11 +48,12 @@ export function isValidTimeFormat(timeStr: string): boolean {
  * Extract date and time from task data for form prefill
  */
 export function extractTaskDateTime(task: any): { dueDate: string; dueTime: string } {
-  // Priority: use due_at if available, fallback to due_date/due_time
-  if (task.due_at) {
+  // Priority: use due_at if available (rendered in the viewer's zone), fallback to due_date/due_time
+  const dueAt = task.due_at || (task.dueTime ? task.dueAt : null);
+  if (dueAt) {
     return {
-      dueDate: formatLocalDate(task.due_at),
-      dueTime: formatLocalTime(task.due_at)
+      dueDate: formatLocalDate(dueAt),
+      dueTime: formatLocalTime(dueAt)
     };
   }
   
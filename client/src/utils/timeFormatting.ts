@@ -2,40 +2,86 @@
  * Client-side time formatting utilities that work with the unified time handling system
  */
 
+// Saved preference of the signed-in user; falls back to the browser zone until it is known
+let preferredTimezone: string | null = null;
+
+/**
+ * Remember the signed-in user's timezone preference (set from /api/auth/user)
+ * @param timezone - IANA timezone string or null to fall back to the browser zone
+ */
+export function setPreferredTimezone(timezone: string | null | undefined): void {
+  preferredTimezone = timezone || null;
+}
+
 /**
- * Format due_at timestamp for display in user's local timezone
+ * Get the browser's timezone (used to detect the preference on first login)
+ * @returns IANA timezone string
+ */
+export function getBrowserTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+  } catch (error) {
+    return "America/Los_Angeles"; // Default fallback
+  }
+}
+
+/**
+ * Get the user's current timezone (saved preference, else the browser zone)
+ * @returns IANA timezone string
+ */
+export function getUserTimezone(): string {
+  return preferredTimezone || getBrowserTimezone();
+}
+
+/**
+ * Wall-clock date and time of a UTC timestamp in a timezone
+ * @param dueAt - UTC ISO string or Date
+ * @param timezone - IANA timezone string (defaults to the user's timezone)
+ * @returns { date: "YYYY-MM-DD", time: "HH:mm" }
+ */
+export function getZonedDateTime(dueAt: string | Date, timezone: string = getUserTimezone()): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(new Date(dueAt));
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '00';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    time: `${part('hour')}:${part('minute')}`
+  };
+}
+
+/**
+ * Format due_at timestamp for display in the viewer's timezone
  * @param dueAt - UTC ISO string from due_at field
+ * @param timezone - IANA timezone string (defaults to the user's timezone)
  * @returns formatted string like "8/17/2025 at 8:35 PM" or just "8/17/2025" for all-day
  */
-export function formatDueAt(dueAt: string): string {
+export function formatDueAt(dueAt: string, timezone: string = getUserTimezone()): string {
   try {
     const date = new Date(dueAt);
     
     const dateFormatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
       month: 'numeric',
       day: 'numeric',
       year: 'numeric'
     });
     
-    const timeFormatter = new Intl.DateTimeFormat('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
-    });
-    
     const dateStr = dateFormatter.format(date);
-    const timeStr = timeFormatter.format(date);
     
-    // Check if it's midnight (all-day task)
-    const hours = date.getHours();
-    const minutes = date.getMinutes();
-    const seconds = date.getSeconds();
-    
-    if (hours === 0 && minutes === 0 && seconds === 0) {
+    // Check if it's midnight in the viewer's zone (all-day task)
+    if (getZonedDateTime(date, timezone).time === '00:00' && date.getSeconds() === 0) {
       return dateStr; // Just date for all-day tasks
     }
     
-    return `${dateStr} at ${timeStr}`;
+    return `${dateStr} at ${formatDueTime(dueAt, timezone)}`;
   } catch (error) {
     console.error('Error formatting due_at:', error);
     return dueAt.slice(0, 10);
@@ -43,15 +89,18 @@ export function formatDueAt(dueAt: string): string {
 }
 
 /**
- * Get the user's current timezone
- * @returns IANA timezone string
+ * Format the time part of due_at in the viewer's timezone
+ * @param dueAt - UTC ISO string from due_at field
+ * @param timezone - IANA timezone string (defaults to the user's timezone)
+ * @returns formatted string like "8:35 PM"
  */
-export function getUserTimezone(): string {
-  try {
-    return Intl.DateTimeFormat().resolvedOptions().timeZone;
-  } catch (error) {
-    return "America/Los_Angeles"; // Default fallback
-  }
+export function formatDueTime(dueAt: string, timezone: string = getUserTimezone()): string {
+  return new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  }).format(new Date(dueAt));
 }
 
 /**
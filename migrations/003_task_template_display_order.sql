@@ -0,0 +1,15 @@
+-- Explicit ordering for task templates (set by the admin template editor)
+ALTER TABLE task_templates
+ADD COLUMN IF NOT EXISTS display_order INTEGER DEFAULT 0;
+
+-- Seed the order from the existing day offsets
+UPDATE task_templates t
+SET display_order = ordered.position
+FROM (
+  SELECT id, ROW_NUMBER() OVER (PARTITION BY service_id ORDER BY day_offset, created_at) - 1 AS position
+  FROM task_templates
+) ordered
+WHERE t.id = ordered.id;
+
+CREATE INDEX IF NOT EXISTS idx_task_templates_service_order
+ON task_templates(service_id, display_order);
@@ -0,0 +1,10 @@
+-- Recurring tasks: RRULE on the series master, occurrences point back at it
+ALTER TABLE tasks
+ADD COLUMN IF NOT EXISTS recurrence_rule TEXT,
+ADD COLUMN IF NOT EXISTS recurrence_timezone VARCHAR,
+ADD COLUMN IF NOT EXISTS recurrence_series_id VARCHAR,
+ADD COLUMN IF NOT EXISTS recurrence_occurrence_at TIMESTAMPTZ;
+
+-- Occurrence lookups by series (generator + "this and following" edits)
+CREATE INDEX IF NOT EXISTS idx_tasks_recurrence_series
+ON tasks(recurrence_series_id, recurrence_occurrence_at);
@@ -0,0 +1,12 @@
+-- Per-user timezone preference (IANA name); NULL falls back to America/Vancouver
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS timezone VARCHAR;
+
+ALTER TABLE team_members
+ADD COLUMN IF NOT EXISTS timezone VARCHAR;
+
+-- Team members that are also users start with the user's preference
+UPDATE team_members tm
+SET timezone = u.timezone
+FROM users u
+WHERE tm.email = u.email AND tm.timezone IS NULL AND u.timezone IS NOT NULL;
@@ -0,0 +1,27 @@
+-- Time tracking: timers and manual entries per assignment, rolled up into actual_hours
+CREATE TABLE IF NOT EXISTS time_entries (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_assignment_id VARCHAR REFERENCES task_assignments(id) ON DELETE SET NULL,
+  task_id VARCHAR NOT NULL REFERENCES tasks(id),
+  team_member_id VARCHAR NOT NULL REFERENCES team_members(id),
+  started_at TIMESTAMPTZ NOT NULL,
+  ended_at TIMESTAMPTZ,
+  duration_minutes INTEGER,
+  source VARCHAR NOT NULL DEFAULT 'timer',
+  notes TEXT,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_assignment ON time_entries(task_assignment_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_member_started ON time_entries(team_member_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_time_entries_task ON time_entries(task_id);
+
+-- Only one running timer per team member
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_one_running
+ON time_entries(team_member_id) WHERE ended_at IS NULL;
+
+-- Minute precision: actual hours become fractional
+ALTER TABLE tasks ALTER COLUMN actual_hours TYPE REAL;
+ALTER TABLE task_assignments ALTER COLUMN actual_hours TYPE REAL;
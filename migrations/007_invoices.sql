@@ -0,0 +1,77 @@
+-- Invoicing: invoices with line items, tax lines and partial payments, plus per-role billing rates
+CREATE TABLE IF NOT EXISTS billing_rates (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  role VARCHAR NOT NULL UNIQUE,
+  hourly_rate DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS invoices (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number VARCHAR NOT NULL UNIQUE,
+  organization_id VARCHAR REFERENCES organizations(id),
+  client_id VARCHAR REFERENCES users(id),
+  project_id VARCHAR REFERENCES projects(id),
+  proposal_id VARCHAR REFERENCES proposals(id),
+  quote_id VARCHAR REFERENCES quotes(id),
+  title TEXT NOT NULL,
+  status VARCHAR NOT NULL DEFAULT 'draft',
+  issue_date TIMESTAMP,
+  due_date TIMESTAMP,
+  subtotal DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  tax_total DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  total DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  amount_paid DECIMAL(10, 2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  terms TEXT,
+  sent_at TIMESTAMP,
+  paid_at TIMESTAMP,
+  voided_at TIMESTAMP,
+  created_by VARCHAR NOT NULL REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoices_organization ON invoices(organization_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_status_due ON invoices(status, due_date);
+
+CREATE TABLE IF NOT EXISTS invoice_line_items (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id VARCHAR NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  description TEXT NOT NULL,
+  quantity DECIMAL(10, 2) NOT NULL DEFAULT 1,
+  unit_price DECIMAL(10, 2) NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL,
+  source_type VARCHAR NOT NULL DEFAULT 'manual',
+  source_id VARCHAR,
+  service_id VARCHAR REFERENCES services(id),
+  item_order INTEGER DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_invoice ON invoice_line_items(invoice_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_line_items_source ON invoice_line_items(source_type, source_id);
+
+CREATE TABLE IF NOT EXISTS invoice_tax_lines (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id VARCHAR NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  name VARCHAR NOT NULL,
+  rate DECIMAL(6, 3) NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS invoice_payments (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id VARCHAR NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+  amount DECIMAL(10, 2) NOT NULL,
+  paid_at TIMESTAMP NOT NULL,
+  method VARCHAR,
+  reference VARCHAR,
+  notes TEXT,
+  recorded_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_invoice_payments_invoice ON invoice_payments(invoice_id);
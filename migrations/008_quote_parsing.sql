@@ -0,0 +1,3 @@
+-- Parsed quotes can carry fractional quantities (e.g. 7.5 hours)
+ALTER TABLE quote_line_items ALTER COLUMN quantity TYPE DECIMAL(10, 2);
+ALTER TABLE quote_line_items ALTER COLUMN quantity SET DEFAULT 1;
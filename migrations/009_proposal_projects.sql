@@ -0,0 +1,13 @@
+-- Proposal → project links recorded when approved proposal items are converted
+CREATE TABLE IF NOT EXISTS proposal_projects (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id VARCHAR NOT NULL REFERENCES proposals(id),
+  proposal_item_id VARCHAR NOT NULL UNIQUE REFERENCES proposal_items(id),
+  project_id VARCHAR NOT NULL REFERENCES projects(id),
+  phase INTEGER,
+  created_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_projects_proposal ON proposal_projects(proposal_id);
+CREATE INDEX IF NOT EXISTS idx_proposal_projects_project ON proposal_projects(project_id);
@@ -0,0 +1,33 @@
+-- Client proposal portal: tokenized share links and signed decisions with their audit trail
+CREATE TABLE IF NOT EXISTS proposal_links (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id VARCHAR NOT NULL REFERENCES proposals(id),
+  token VARCHAR NOT NULL UNIQUE,
+  contact_name VARCHAR,
+  contact_email VARCHAR,
+  created_by VARCHAR REFERENCES users(id),
+  last_viewed_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_links_proposal ON proposal_links(proposal_id);
+
+CREATE TABLE IF NOT EXISTS proposal_signatures (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  proposal_id VARCHAR NOT NULL REFERENCES proposals(id),
+  link_id VARCHAR REFERENCES proposal_links(id),
+  signer_name VARCHAR NOT NULL,
+  signer_email VARCHAR,
+  decision VARCHAR NOT NULL,
+  approved_item_ids JSONB NOT NULL,
+  approved_total DECIMAL(10, 2) NOT NULL,
+  comments TEXT,
+  item_comments JSONB,
+  content_hash VARCHAR NOT NULL,
+  ip_address VARCHAR,
+  user_agent TEXT,
+  signed_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_proposal_signatures_proposal ON proposal_signatures(proposal_id);
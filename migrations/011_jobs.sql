@@ -0,0 +1,23 @@
+-- Durable background job queue with retries, backoff and dead-lettering
+CREATE TABLE IF NOT EXISTS jobs (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  type VARCHAR NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  status VARCHAR NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMP,
+  locked_by VARCHAR,
+  last_error TEXT,
+  result TEXT,
+  idempotency_key VARCHAR,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_status_run_at ON jobs(status, run_at);
+
+-- Only one queued job per key; finished jobs don't block re-enqueueing
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_idempotency_pending ON jobs(idempotency_key) WHERE status = 'pending';
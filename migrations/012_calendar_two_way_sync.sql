@@ -0,0 +1,37 @@
+-- Two-way Google Calendar sync: per-mapping sync snapshots, watch channels/sync tokens and the conflict log
+ALTER TABLE task_event_mappings
+  ADD COLUMN IF NOT EXISTS synced_task_state JSONB,
+  ADD COLUMN IF NOT EXISTS synced_event_state JSONB;
+
+CREATE TABLE IF NOT EXISTS calendar_sync_states (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id),
+  calendar_id VARCHAR NOT NULL DEFAULT 'primary',
+  sync_token TEXT,
+  channel_id VARCHAR UNIQUE,
+  channel_resource_id VARCHAR,
+  channel_token VARCHAR,
+  channel_expiration TIMESTAMP,
+  last_pulled_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_sync_states_user_calendar ON calendar_sync_states(user_id, calendar_id);
+
+CREATE TABLE IF NOT EXISTS calendar_sync_conflicts (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id VARCHAR NOT NULL REFERENCES tasks(id),
+  user_id VARCHAR NOT NULL REFERENCES users(id),
+  event_id VARCHAR NOT NULL,
+  task_state JSONB NOT NULL,
+  event_state JSONB,
+  status VARCHAR NOT NULL DEFAULT 'open',
+  resolution VARCHAR,
+  resolved_by VARCHAR REFERENCES users(id),
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_calendar_sync_conflicts_task ON calendar_sync_conflicts(task_id, status);
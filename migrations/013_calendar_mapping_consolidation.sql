@@ -0,0 +1,85 @@
+-- One source of truth for task ↔ calendar event links: task_event_mappings.
+-- Event IDs recorded by the older sync paths are folded in, then their columns and tables are dropped.
+
+ALTER TABLE task_event_mappings
+  ADD COLUMN IF NOT EXISTS provider VARCHAR NOT NULL DEFAULT 'google';
+
+-- Duplicate mappings for a task/user are what produced duplicate events; keep the most recently synced one
+DELETE FROM task_event_mappings older
+USING task_event_mappings newer
+WHERE older.task_id = newer.task_id
+  AND older.user_id = newer.user_id
+  AND (older.updated_at < newer.updated_at OR (older.updated_at = newer.updated_at AND older.id < newer.id));
+
+DROP INDEX IF EXISTS idx_task_event_mappings_task_user;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_task_event_mappings_task_user ON task_event_mappings(task_id, user_id);
+
+-- Existing task_event_mappings rows win over legacy IDs for the same task/user (ON CONFLICT DO NOTHING)
+DO $$
+BEGIN
+  IF to_regclass('task_google_events') IS NOT NULL THEN
+    INSERT INTO task_event_mappings (task_id, user_id, event_id, calendar_id, provider)
+    SELECT DISTINCT ON (e.task_id, e.user_id) e.task_id, e.user_id, e.event_id, 'primary', 'google'
+    FROM task_google_events e
+    JOIN tasks t ON t.id = e.task_id
+    JOIN users u ON u.id = e.user_id
+    ORDER BY e.task_id, e.user_id, e.updated_at DESC
+    ON CONFLICT (task_id, user_id) DO NOTHING;
+  END IF;
+
+  IF to_regclass('calendar_event_mappings') IS NOT NULL THEN
+    INSERT INTO task_event_mappings (task_id, user_id, event_id, calendar_id, provider)
+    SELECT m.task_id, m.user_id, m.event_id, COALESCE(m.calendar_id, 'primary'), 'google'
+    FROM calendar_event_mappings m
+    JOIN tasks t ON t.id = m.task_id
+    JOIN users u ON u.id = m.user_id
+    ON CONFLICT (task_id, user_id) DO NOTHING;
+  END IF;
+
+  -- Per-assignment event IDs belong to the user behind the assigned team member
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'task_assignments' AND column_name = 'calendar_event_id') THEN
+    INSERT INTO task_event_mappings (task_id, user_id, event_id, calendar_id, provider)
+    SELECT DISTINCT ON (ta.task_id, u.id) ta.task_id, u.id, ta.calendar_event_id, COALESCE(ta.calendar_id, 'primary'), 'google'
+    FROM task_assignments ta
+    JOIN team_members tm ON tm.id = ta.team_member_id
+    JOIN users u ON u.email = tm.email
+    WHERE ta.calendar_event_id IS NOT NULL
+    ORDER BY ta.task_id, u.id, ta.updated_at DESC
+    ON CONFLICT (task_id, user_id) DO NOTHING;
+  END IF;
+
+  -- Task-level event IDs never recorded whose calendar they were written to. They are attributed only when
+  -- exactly one of the task's users (assigned_to or an assignee) has connected a calendar; an event in
+  -- anyone else's calendar could not be reached with their tokens anyway.
+  IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'tasks' AND column_name = 'google_calendar_event_id') THEN
+    INSERT INTO task_event_mappings (task_id, user_id, event_id, calendar_id, provider)
+    SELECT candidates.task_id, MIN(candidates.user_id), MIN(candidates.event_id), 'primary', 'google'
+    FROM (
+      SELECT t.id AS task_id, COALESCE(t.google_calendar_event_id, t.google_event_id) AS event_id, t.assigned_to AS user_id
+      FROM tasks t
+      WHERE COALESCE(t.google_calendar_event_id, t.google_event_id) IS NOT NULL AND t.assigned_to IS NOT NULL
+      UNION
+      SELECT t.id, COALESCE(t.google_calendar_event_id, t.google_event_id), u.id
+      FROM tasks t
+      JOIN task_assignments ta ON ta.task_id = t.id
+      JOIN team_members tm ON tm.id = ta.team_member_id
+      JOIN users u ON u.email = tm.email
+      WHERE COALESCE(t.google_calendar_event_id, t.google_event_id) IS NOT NULL
+    ) candidates
+    JOIN oauth_tokens o ON o.user_id = candidates.user_id
+    GROUP BY candidates.task_id
+    HAVING COUNT(DISTINCT candidates.user_id) = 1
+    ON CONFLICT (task_id, user_id) DO NOTHING;
+  END IF;
+END $$;
+
+ALTER TABLE tasks
+  DROP COLUMN IF EXISTS google_calendar_event_id,
+  DROP COLUMN IF EXISTS google_event_id;
+
+ALTER TABLE task_assignments
+  DROP COLUMN IF EXISTS calendar_event_id,
+  DROP COLUMN IF EXISTS calendar_id;
+
+DROP TABLE IF EXISTS task_google_events;
+DROP TABLE IF EXISTS calendar_event_mappings;
@@ -0,0 +1,15 @@
+-- Microsoft 365 / Outlook and CalDAV calendars next to Google: per-user accounts and the preferred provider
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS calendar_provider VARCHAR;
+
+CREATE TABLE IF NOT EXISTS calendar_connections (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id),
+  provider VARCHAR NOT NULL,
+  account_name VARCHAR,
+  credentials JSONB NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_connections_user_provider ON calendar_connections(user_id, provider);
@@ -0,0 +1,16 @@
+-- Subscribable iCalendar feeds: secret-token URLs for a team member's, project's or organization's tasks
+CREATE TABLE IF NOT EXISTS ical_feeds (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  scope VARCHAR NOT NULL,
+  scope_id VARCHAR NOT NULL,
+  token VARCHAR NOT NULL UNIQUE,
+  component VARCHAR NOT NULL DEFAULT 'VEVENT',
+  client_visible_only BOOLEAN NOT NULL DEFAULT FALSE,
+  created_by VARCHAR NOT NULL REFERENCES users(id),
+  last_accessed_at TIMESTAMP,
+  revoked_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ical_feeds_scope ON ical_feeds(scope, scope_id);
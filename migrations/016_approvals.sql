@@ -0,0 +1,37 @@
+-- Client approval workflow: approval requests with their decision, and in-app notifications
+CREATE TABLE IF NOT EXISTS approval_requests (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  subject_type VARCHAR NOT NULL,
+  task_id VARCHAR REFERENCES tasks(id),
+  file_id VARCHAR REFERENCES project_files(id),
+  project_id VARCHAR REFERENCES projects(id),
+  requested_by VARCHAR NOT NULL REFERENCES users(id),
+  requested_from VARCHAR REFERENCES users(id),
+  message TEXT,
+  status VARCHAR NOT NULL DEFAULT 'pending',
+  previous_task_status VARCHAR,
+  decided_by VARCHAR REFERENCES users(id),
+  decided_at TIMESTAMP,
+  decision_comment TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_approval_requests_task ON approval_requests(task_id);
+CREATE INDEX IF NOT EXISTS idx_approval_requests_file ON approval_requests(file_id);
+CREATE INDEX IF NOT EXISTS idx_approval_requests_requested_from ON approval_requests(requested_from, status);
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id VARCHAR NOT NULL REFERENCES users(id),
+  type VARCHAR NOT NULL,
+  title TEXT NOT NULL,
+  body TEXT,
+  link VARCHAR,
+  entity_type VARCHAR,
+  entity_id VARCHAR,
+  read_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, read_at);
@@ -0,0 +1,23 @@
+-- File version chains and anchored review comments
+ALTER TABLE project_files ADD COLUMN IF NOT EXISTS version_group_id VARCHAR;
+ALTER TABLE project_files ADD COLUMN IF NOT EXISTS version_number INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE project_files ADD COLUMN IF NOT EXISTS is_latest_version BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE project_files ADD COLUMN IF NOT EXISTS version_note TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_project_files_version_group ON project_files(version_group_id);
+
+CREATE TABLE IF NOT EXISTS file_comments (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  file_id VARCHAR NOT NULL REFERENCES project_files(id),
+  parent_id VARCHAR REFERENCES file_comments(id),
+  author_id VARCHAR NOT NULL REFERENCES users(id),
+  body TEXT NOT NULL,
+  page INTEGER,
+  region JSONB,
+  resolved_at TIMESTAMP,
+  resolved_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_file_comments_file ON file_comments(file_id);
@@ -0,0 +1,3 @@
+-- Pluggable file storage: which backend holds each project file, and its checksum
+ALTER TABLE project_files ADD COLUMN IF NOT EXISTS storage_driver VARCHAR;
+ALTER TABLE project_files ADD COLUMN IF NOT EXISTS checksum VARCHAR;
@@ -0,0 +1,41 @@
+-- Threaded project messages: replies, mentions, edit/delete history, per-user read state and attachments
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS parent_id VARCHAR REFERENCES messages(id);
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS mentions JSONB;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS edited_at TIMESTAMP;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+ALTER TABLE messages ADD COLUMN IF NOT EXISTS deleted_by VARCHAR REFERENCES users(id);
+
+CREATE INDEX IF NOT EXISTS idx_messages_project ON messages(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_messages_parent ON messages(parent_id);
+
+CREATE TABLE IF NOT EXISTS message_reads (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id VARCHAR NOT NULL REFERENCES messages(id),
+  user_id VARCHAR NOT NULL REFERENCES users(id),
+  read_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_message_reads_message_user ON message_reads(message_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_message_reads_user ON message_reads(user_id);
+
+CREATE TABLE IF NOT EXISTS message_revisions (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  message_id VARCHAR NOT NULL REFERENCES messages(id),
+  content TEXT NOT NULL,
+  action VARCHAR NOT NULL,
+  changed_by VARCHAR NOT NULL REFERENCES users(id),
+  changed_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_message_revisions_message ON message_revisions(message_id);
+
+-- Attachments are ordinary project files that remember the message they came with
+ALTER TABLE project_files ADD COLUMN IF NOT EXISTS message_id VARCHAR REFERENCES messages(id);
+
+-- The old global flag meant "someone read it"; keep that as a read by the project's client
+INSERT INTO message_reads (message_id, user_id, read_at)
+SELECT m.id, p.client_id, m.created_at
+FROM messages m
+JOIN projects p ON p.id = m.project_id
+WHERE m.is_read = TRUE AND p.client_id IS NOT NULL AND m.sender_id <> p.client_id
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,22 @@
+-- Fine-grained roles and per-project membership
+CREATE TABLE IF NOT EXISTS project_members (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id VARCHAR NOT NULL REFERENCES projects(id),
+  user_id VARCHAR NOT NULL REFERENCES users(id),
+  added_by VARCHAR REFERENCES users(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS uq_project_members_project_user ON project_members(project_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_project_members_user ON project_members(user_id);
+
+-- Someone has to be able to hand out roles: the longest-standing admin becomes the owner.
+-- Sign-ups used to be made admin automatically, so review the remaining admins in Team Management.
+UPDATE users SET role = 'owner'
+WHERE id = (
+  SELECT id FROM users
+  WHERE role = 'admin' AND deleted_at IS NULL
+  ORDER BY created_at
+  LIMIT 1
+)
+AND NOT EXISTS (SELECT 1 FROM users WHERE role = 'owner');
@@ -0,0 +1,8 @@
+-- Organization contacts see their organization's projects; contact_access narrows what each one sees
+ALTER TABLE users ADD COLUMN IF NOT EXISTS contact_access VARCHAR NOT NULL DEFAULT 'full';
+
+-- Contacts can be invited straight into an organization
+ALTER TABLE team_invitations ADD COLUMN IF NOT EXISTS organization_id VARCHAR REFERENCES organizations(id);
+ALTER TABLE team_invitations ADD COLUMN IF NOT EXISTS contact_access VARCHAR;
+
+CREATE INDEX IF NOT EXISTS idx_users_organization ON users(organization_id);
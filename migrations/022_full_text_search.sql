@@ -0,0 +1,12 @@
+-- Full-text search: expression indexes that SearchService queries with the exact same expressions
+CREATE INDEX IF NOT EXISTS idx_tasks_search ON tasks
+  USING GIN (to_tsvector('english', COALESCE(title, '') || ' ' || COALESCE(description, '')));
+
+CREATE INDEX IF NOT EXISTS idx_projects_search ON projects
+  USING GIN (to_tsvector('english', COALESCE(name, '') || ' ' || COALESCE(description, '')));
+
+CREATE INDEX IF NOT EXISTS idx_organizations_search ON organizations
+  USING GIN (to_tsvector('english', COALESCE(name, '') || ' ' || COALESCE(description, '') || ' ' || COALESCE(industry, '')));
+
+CREATE INDEX IF NOT EXISTS idx_messages_search ON messages
+  USING GIN (to_tsvector('english', COALESCE(content, '')));
@@ -0,0 +1,19 @@
+-- Saved task filter views
+CREATE TABLE IF NOT EXISTS task_views (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR NOT NULL,
+  owner_id VARCHAR NOT NULL REFERENCES users(id),
+  filters JSONB NOT NULL DEFAULT '{}',
+  is_shared BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_task_views_owner ON task_views(owner_id);
+
+-- Columns the task query API filters and pages on
+CREATE INDEX IF NOT EXISTS idx_tasks_status ON tasks(status) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_due_date ON tasks(due_date) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_tasks_created_at ON tasks(created_at, id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_task_assignments_task ON task_assignments(task_id);
+CREATE INDEX IF NOT EXISTS idx_task_assignments_team_member ON task_assignments(team_member_id);
@@ -0,0 +1,12 @@
+-- Soft WIP limits per task board column; a NULL project is the agency-wide board
+CREATE TABLE IF NOT EXISTS board_wip_limits (
+  id VARCHAR PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id VARCHAR REFERENCES projects(id),
+  status VARCHAR NOT NULL,
+  wip_limit INTEGER NOT NULL CHECK (wip_limit > 0),
+  updated_by VARCHAR REFERENCES users(id),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_board_wip_limits_project ON board_wip_limits(project_id);
+CREATE UNIQUE INDEX IF NOT EXISTS uq_board_wip_limits_board_status ON board_wip_limits(COALESCE(project_id, ''), status);
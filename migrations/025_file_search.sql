@@ -0,0 +1,3 @@
+-- Full-text search over project files: name and version note, queried with the same expression by SearchService
+CREATE INDEX IF NOT EXISTS idx_project_files_search ON project_files
+  USING GIN (to_tsvector('english', COALESCE(file_name, '') || ' ' || COALESCE(version_note, '')));
@@ -0,0 +1,86 @@
+import '../test/env';
+import { after, afterEach, before, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { pool } from '../db';
+import { calDavCalendarProvider } from './CalDavCalendarProvider';
+import { checkRecurringEvent, checkSingleEvent } from '../test/calendarProviderContract';
+
+const AUTHORIZATION = `Basic ${Buffer.from('dana:secret').toString('base64')}`;
+
+// A CalDAV collection in memory: one iCalendar resource per path, versioned by ETag, honouring the
+// If-Match / If-None-Match preconditions the provider sends
+const resources = new Map<string, { body: string; etag: string }>();
+let version = 0;
+
+const server: Server = createServer((req, res) => {
+  let body = '';
+  req.on('data', chunk => (body += chunk));
+  req.on('end', () => {
+    const path = req.url!;
+    const existing = resources.get(path);
+    if (req.headers.authorization !== AUTHORIZATION) {
+      res.writeHead(401).end();
+    } else if (req.method === 'GET') {
+      if (!existing) res.writeHead(404).end();
+      else res.writeHead(200, { ETag: existing.etag, 'Content-Type': 'text/calendar' }).end(existing.body);
+    } else if (req.method === 'PUT') {
+      if ((req.headers['if-none-match'] === '*' && existing) || (req.headers['if-match'] && req.headers['if-match'] !== existing?.etag)) {
+        res.writeHead(412).end();
+        return;
+      }
+      resources.set(path, { body, etag: `"${++version}"` });
+      res.writeHead(existing ? 204 : 201).end();
+    } else if (req.method === 'DELETE') {
+      res.writeHead(resources.delete(path) ? 204 : 404).end();
+    } else {
+      res.writeHead(405).end();
+    }
+  });
+});
+
+let calendarUrl: string;
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+  calendarUrl = `${serverUrl}calendars/dana/tasks/`;
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  resources.clear();
+  mock.method(pool, 'query', async () => ({
+    rows: [{ account_name: 'dana', credentials: { serverUrl: calendarUrl, username: 'dana', password: 'secret', calendarUrl } }],
+  }));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('CalDavCalendarProvider contract', () => {
+  test('single events', async () => {
+    await checkSingleEvent(calDavCalendarProvider, 'user-1', 'America/Vancouver');
+    assert.equal(resources.size, 0);
+  });
+
+  test('recurring events and their occurrences', async () => {
+    await checkRecurringEvent(calDavCalendarProvider, 'user-1', 'America/Vancouver');
+
+    // The occurrence lives inside the series resource: excluded, with its override dropped
+    const [series] = Array.from(resources.values());
+    assert.equal(resources.size, 1);
+    assert.match(series.body, /EXDATE:20261117T170000Z/);
+    assert.doesNotMatch(series.body, /RECURRENCE-ID/);
+  });
+
+  test('a rejected login is an error, not a missing event', async () => {
+    mock.method(pool, 'query', async () => ({
+      rows: [{ account_name: 'dana', credentials: { serverUrl: calendarUrl, username: 'dana', password: 'wrong', calendarUrl } }],
+    }));
+
+    await assert.rejects(calDavCalendarProvider.getEvent('user-1', 'primary', 'abc'), /failed with 401/);
+    await assert.rejects(calDavCalendarProvider.deleteEvent('user-1', 'primary', 'abc'), /failed with 401/);
+  });
+});
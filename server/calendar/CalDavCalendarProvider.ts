@@ -0,0 +1,246 @@
+import { randomUUID } from 'crypto';
+import { DateTime } from 'luxon';
+import type { CalDavCalendarCredentials } from '@shared/schema';
+import { registerCalendarProvider, type CalendarEvent, type CalendarProvider, type CalendarSummary } from './CalendarProvider';
+import { deleteCalendarConnection, getCalendarConnection, saveCalendarConnection } from './calendarConnections';
+import { parseCalendar, serializeCalendar, type IcsEvent } from './ics';
+
+class CalDavError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const isGone = (error: unknown) => error instanceof CalDavError && (error.status === 404 || error.status === 410);
+
+// The multistatus responses are small and regular enough to read without an XML parser
+const tag = (name: string) => `<(?:[\\w-]+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:[\\w-]+:)?${name}>`;
+const xmlBlocks = (xml: string, name: string) => Array.from(xml.matchAll(new RegExp(tag(name), 'gi')), match => match[1]);
+const xmlText = (xml: string, name: string) => xmlBlocks(xml, name)[0]?.trim();
+const isCalendarCollection = (resourceType: string) => /<(?:[\w-]+:)?calendar[\s/>]/i.test(resourceType);
+
+const propfindBody = (props: string) =>
+  `<?xml version="1.0" encoding="utf-8"?><d:propfind xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav"><d:prop>${props}</d:prop></d:propfind>`;
+
+// Occurrences of a recurring task are addressed as "<uid>_<RECURRENCE-ID>", like Google's instance IDs
+const splitInstanceId = (eventId: string) => {
+  const match = eventId.match(/^(.+)_(\d{8}(?:T\d{6}Z)?)$/);
+  return match ? { uid: match[1], recurrenceId: match[2] } : { uid: eventId, recurrenceId: null };
+};
+
+class CalDavCalendarProvider implements CalendarProvider {
+  readonly id = 'caldav';
+  readonly name = 'CalDAV (Apple, Fastmail, Nextcloud)';
+
+  // Users bring their own server, so there is nothing to configure here
+  isConfigured(): boolean {
+    return true;
+  }
+
+  private async request(credentials: CalDavCalendarCredentials, method: string, url: string, options: { body?: string; headers?: Record<string, string> } = {}) {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${credentials.username}:${credentials.password}`).toString('base64')}`,
+        ...options.headers,
+      },
+      body: options.body,
+    });
+    if (!response.ok) {
+      throw new CalDavError(`CalDAV ${method} ${url} failed with ${response.status}`, response.status);
+    }
+    return { text: await response.text(), etag: response.headers.get('etag') };
+  }
+
+  private async propfind(credentials: CalDavCalendarCredentials, url: string, depth: '0' | '1', props: string): Promise<string> {
+    const { text } = await this.request(credentials, 'PROPFIND', url, {
+      body: propfindBody(props),
+      headers: { Depth: depth, 'Content-Type': 'application/xml; charset=utf-8' },
+    });
+    return text;
+  }
+
+  // Principal -> calendar home -> calendar collections (RFC 4791 section 6.2)
+  private async discoverCalendars(credentials: CalDavCalendarCredentials): Promise<CalendarSummary[]> {
+    const resolve = (href: string) => new URL(href, credentials.serverUrl).toString();
+
+    const principalXml = await this.propfind(credentials, credentials.serverUrl, '0', '<d:current-user-principal/>');
+    const principalHref = xmlText(xmlText(principalXml, 'current-user-principal') || '', 'href');
+    const principalUrl = principalHref ? resolve(principalHref) : credentials.serverUrl;
+
+    const homeXml = await this.propfind(credentials, principalUrl, '0', '<c:calendar-home-set/>');
+    const homeHref = xmlText(xmlText(homeXml, 'calendar-home-set') || '', 'href');
+    const homeUrl = homeHref ? resolve(homeHref) : principalUrl;
+
+    const collectionsXml = await this.propfind(credentials, homeUrl, '1', '<d:resourcetype/><d:displayname/>');
+    return xmlBlocks(collectionsXml, 'response')
+      .filter(response => isCalendarCollection(xmlText(response, 'resourcetype') || ''))
+      .map((response, index) => {
+        const url = resolve(xmlText(response, 'href')!);
+        return { id: url, summary: xmlText(response, 'displayname') || url, primary: index === 0 };
+      });
+  }
+
+  // Verify the account, pick the calendar new events go to and store the connection
+  async connect(userId: string, account: { serverUrl: string; username: string; password: string; calendarUrl?: string }): Promise<CalendarSummary[]> {
+    const credentials: CalDavCalendarCredentials = { ...account, calendarUrl: account.calendarUrl || '' };
+    const calendars = await this.discoverCalendars(credentials);
+    const chosen = account.calendarUrl
+      ? calendars.find(calendar => calendar.id === new URL(account.calendarUrl!).toString())
+      : calendars[0];
+    if (!chosen) {
+      throw new Error(account.calendarUrl ? 'That calendar was not found on the server' : 'No calendars found on the server');
+    }
+
+    await saveCalendarConnection(userId, this.id, account.username, { ...credentials, calendarUrl: chosen.id });
+    return calendars.map(calendar => ({ ...calendar, primary: calendar.id === chosen.id }));
+  }
+
+  private async credentialsFor(userId: string): Promise<CalDavCalendarCredentials> {
+    const connection = await getCalendarConnection<CalDavCalendarCredentials>(userId, this.id);
+    if (!connection) {
+      throw new Error(`Missing CalDAV connection for userId: ${userId}`);
+    }
+    return connection.credentials;
+  }
+
+  // Each task event is its own resource, named after its UID; "primary" is the calendar picked on connect
+  private eventUrl(credentials: CalDavCalendarCredentials, calendarId: string, uid: string): string {
+    const collection = calendarId === 'primary' ? credentials.calendarUrl : calendarId;
+    return new URL(`${encodeURIComponent(uid)}.ics`, collection.endsWith('/') ? collection : `${collection}/`).toString();
+  }
+
+  private async readResource(credentials: CalDavCalendarCredentials, url: string): Promise<{ events: IcsEvent[]; etag: string | null } | null> {
+    try {
+      const { text, etag } = await this.request(credentials, 'GET', url);
+      return { events: parseCalendar(text), etag };
+    } catch (error) {
+      if (isGone(error)) return null;
+      throw error;
+    }
+  }
+
+  private async writeResource(credentials: CalDavCalendarCredentials, url: string, events: IcsEvent[], precondition: Record<string, string>) {
+    await this.request(credentials, 'PUT', url, {
+      body: serializeCalendar(events),
+      headers: { 'Content-Type': 'text/calendar; charset=utf-8', ...precondition },
+    });
+  }
+
+  async hasCredentials(userId: string): Promise<boolean> {
+    return !!(await getCalendarConnection(userId, this.id));
+  }
+
+  async disconnect(userId: string): Promise<void> {
+    await deleteCalendarConnection(userId, this.id);
+  }
+
+  async listCalendars(userId: string): Promise<CalendarSummary[]> {
+    const credentials = await this.credentialsFor(userId);
+    const calendars = await this.discoverCalendars(credentials);
+    return calendars.map(calendar => ({ ...calendar, primary: calendar.id === credentials.calendarUrl }));
+  }
+
+  async getEvent(userId: string, calendarId: string, eventId: string): Promise<CalendarEvent | null> {
+    const credentials = await this.credentialsFor(userId);
+    const { uid, recurrenceId } = splitInstanceId(eventId);
+    const resource = await this.readResource(credentials, this.eventUrl(credentials, calendarId, uid));
+    const master = resource?.events.find(event => !event.recurrenceId);
+    if (!resource || !master) {
+      return null;
+    }
+    if (!recurrenceId) {
+      return master;
+    }
+    if (master.exdates?.includes(recurrenceId)) {
+      return { ...master, id: eventId, status: 'cancelled' };
+    }
+    const override = resource.events.find(event => event.recurrenceId === recurrenceId);
+    return { ...(override || master), id: eventId, recurrence: null };
+  }
+
+  async insertEvent(userId: string, calendarId: string, event: CalendarEvent): Promise<CalendarEvent> {
+    const credentials = await this.credentialsFor(userId);
+    const uid = randomUUID();
+    const stored: IcsEvent = { ...event, uid, id: uid };
+    // If-None-Match keeps a UID collision from overwriting someone else's event
+    await this.writeResource(credentials, this.eventUrl(credentials, calendarId, uid), [stored], { 'If-None-Match': '*' });
+    return stored;
+  }
+
+  async updateEvent(userId: string, calendarId: string, eventId: string, event: CalendarEvent): Promise<CalendarEvent | null> {
+    const credentials = await this.credentialsFor(userId);
+    const { uid, recurrenceId } = splitInstanceId(eventId);
+    const url = this.eventUrl(credentials, calendarId, uid);
+
+    try {
+      const resource = await this.readResource(credentials, url);
+      const master = resource?.events.find(item => !item.recurrenceId);
+      if (!resource || !master) {
+        return null;
+      }
+      const precondition: Record<string, string> = resource.etag ? { 'If-Match': resource.etag } : {};
+      const overrides = resource.events.filter(item => item !== master);
+
+      if (!recurrenceId) {
+        // Cancelled and overridden occurrences of a series survive changes to the series itself
+        const stored: IcsEvent = { ...event, uid, id: uid, exdates: master.exdates };
+        await this.writeResource(credentials, url, [stored, ...overrides], precondition);
+        return stored;
+      }
+
+      // An occurrence is an override VEVENT inside its series' resource
+      if (master.exdates?.includes(recurrenceId)) {
+        return null;
+      }
+      const override: IcsEvent = { ...event, uid, id: eventId, recurrenceId, recurrence: null };
+      const events = [master, ...overrides.filter(item => item.recurrenceId !== recurrenceId), override];
+      await this.writeResource(credentials, url, events, precondition);
+      return override;
+    } catch (error) {
+      if (isGone(error)) return null;
+      throw error;
+    }
+  }
+
+  async deleteEvent(userId: string, calendarId: string, eventId: string): Promise<void> {
+    const credentials = await this.credentialsFor(userId);
+    const { uid, recurrenceId } = splitInstanceId(eventId);
+    const url = this.eventUrl(credentials, calendarId, uid);
+
+    try {
+      if (!recurrenceId) {
+        await this.request(credentials, 'DELETE', url);
+        return;
+      }
+
+      // Deleting one occurrence excludes it from the series
+      const resource = await this.readResource(credentials, url);
+      const master = resource?.events.find(item => !item.recurrenceId);
+      if (!resource || !master || master.exdates?.includes(recurrenceId)) {
+        return;
+      }
+      const events = resource.events
+        .filter(item => item.recurrenceId !== recurrenceId)
+        .map(item => (item === master ? { ...master, exdates: [...(master.exdates || []), recurrenceId] } : item));
+      await this.writeResource(credentials, url, events, resource.etag ? { 'If-Match': resource.etag } : {});
+    } catch (error) {
+      if (!isGone(error)) throw error;
+    }
+  }
+
+  async findInstance(userId: string, calendarId: string, eventId: string, originalStart: Date): Promise<CalendarEvent | null> {
+    const master = await this.getEvent(userId, calendarId, eventId);
+    if (!master?.recurrence?.length) {
+      return null;
+    }
+    // RECURRENCE-ID takes the value type of the series' DTSTART
+    const recurrenceId = master.start?.date
+      ? DateTime.fromJSDate(originalStart).setZone(master.start.timeZone || 'utc').toFormat('yyyyLLdd')
+      : DateTime.fromJSDate(originalStart).toUTC().toFormat("yyyyLLdd'T'HHmmss'Z'");
+    return this.getEvent(userId, calendarId, `${eventId}_${recurrenceId}`);
+  }
+}
+
+export const calDavCalendarProvider = new CalDavCalendarProvider();
+registerCalendarProvider(calDavCalendarProvider);
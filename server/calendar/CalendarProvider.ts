@@ -0,0 +1,59 @@
+// Contract between CalendarService and a calendar backend (Google, Microsoft 365, CalDAV).
+// Providers only talk to their API; mappings, sync state and the kill switch live in CalendarService.
+
+export interface CalendarEventTime {
+  dateTime?: string | null; // Wall-clock time without offset, read in timeZone
+  date?: string | null;     // All-day events: YYYY-MM-DD
+  timeZone?: string | null;
+}
+
+// Provider-neutral event; Google's event resource already has this shape, other providers translate to it
+export interface CalendarEvent {
+  id?: string | null;
+  summary?: string | null;
+  description?: string | null;
+  start?: CalendarEventTime;
+  end?: CalendarEventTime;
+  recurrence?: string[] | null; // RFC 5545 lines, e.g. "RRULE:FREQ=WEEKLY"
+  status?: string | null;       // "cancelled" once deleted
+  htmlLink?: string | null;
+}
+
+export interface CalendarSummary {
+  id: string;
+  summary: string;
+  primary: boolean;
+}
+
+export interface CalendarProvider {
+  // Stored in task_event_mappings.provider
+  readonly id: string;
+  readonly name: string;
+  // Whether the server has what it needs (e.g. OAuth app credentials) for users to connect
+  isConfigured(): boolean;
+  hasCredentials(userId: string): Promise<boolean>;
+  disconnect(userId: string): Promise<void>;
+  listCalendars(userId: string): Promise<CalendarSummary[]>;
+  // Missing events resolve to null instead of throwing
+  getEvent(userId: string, calendarId: string, eventId: string): Promise<CalendarEvent | null>;
+  insertEvent(userId: string, calendarId: string, event: CalendarEvent): Promise<CalendarEvent>;
+  updateEvent(userId: string, calendarId: string, eventId: string, event: CalendarEvent): Promise<CalendarEvent | null>;
+  // Deleting an event that is already gone is not an error
+  deleteEvent(userId: string, calendarId: string, eventId: string): Promise<void>;
+  // The occurrence of a recurring event that was originally scheduled at originalStart
+  findInstance(userId: string, calendarId: string, eventId: string, originalStart: Date): Promise<CalendarEvent | null>;
+}
+
+const providers = new Map<string, CalendarProvider>();
+
+export function registerCalendarProvider(provider: CalendarProvider): void {
+  providers.set(provider.id, provider);
+}
+
+export function getCalendarProvider(id: string): CalendarProvider | undefined {
+  return providers.get(id);
+}
+
+export function getCalendarProviders(): CalendarProvider[] {
+  return Array.from(providers.values());
+}
@@ -0,0 +1,105 @@
+import '../test/env';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { DateTime } from 'luxon';
+import type { calendar_v3 } from 'googleapis';
+import { pool } from '../db';
+import { googleCalendarProvider } from './GoogleCalendarProvider';
+import { checkRecurringEvent, checkSingleEvent } from '../test/calendarProviderContract';
+
+const gone = (code: number) => Object.assign(new Error(code === 404 ? 'Not Found' : 'Resource has been deleted'), { code });
+
+// In-memory stand-in for the events resource of the Google Calendar API, in the style of StubCalendarApi.
+// Deleted events stay readable as cancelled and answer 410 to writes, as Google's do; occurrences of a
+// weekly series are addressed "<seriesId>_<UTC start>" and stored only once they are changed.
+class FakeGoogleEvents {
+  readonly stored = new Map<string, calendar_v3.Schema$Event>();
+
+  private occurrence(eventId: string): calendar_v3.Schema$Event | undefined {
+    const match = eventId.match(/^(.+)_(\d{8}T\d{6}Z)$/);
+    const series = match && this.stored.get(match[1]);
+    if (!series?.recurrence) return undefined;
+
+    const count = Number(series.recurrence[0].match(/COUNT=(\d+)/)?.[1] ?? Infinity);
+    const seriesStart = DateTime.fromISO(series.start!.dateTime!, { zone: series.start!.timeZone! });
+    const originalStart = DateTime.fromFormat(match[2], "yyyyLLdd'T'HHmmss'Z'", { zone: 'utc' });
+    const weeks = originalStart.diff(seriesStart, 'weeks').weeks;
+    if (!Number.isInteger(weeks) || weeks < 0 || weeks >= count) return undefined;
+
+    const start = seriesStart.plus({ weeks });
+    return {
+      ...series,
+      id: eventId,
+      recurrence: undefined,
+      recurringEventId: series.id,
+      start: { dateTime: start.toISO({ includeOffset: false }), timeZone: series.start!.timeZone },
+      end: { dateTime: start.plus({ hours: 1 }).toISO({ includeOffset: false }), timeZone: series.start!.timeZone },
+    };
+  }
+
+  private find(eventId: string) {
+    const event = this.stored.get(eventId) ?? this.occurrence(eventId);
+    if (!event) throw gone(404);
+    return event;
+  }
+
+  readonly events = {
+    get: async ({ eventId }: { calendarId: string; eventId: string }) => ({ data: this.find(eventId) }),
+    insert: async ({ requestBody }: { calendarId: string; requestBody: calendar_v3.Schema$Event }) => {
+      const event = { ...requestBody, id: randomUUID().replace(/-/g, ''), status: 'confirmed' };
+      this.stored.set(event.id, event);
+      return { data: event };
+    },
+    update: async ({ eventId, requestBody }: { calendarId: string; eventId: string; requestBody: calendar_v3.Schema$Event }) => {
+      if (this.find(eventId).status === 'cancelled') throw gone(410);
+      const event = { ...requestBody, id: eventId, status: 'confirmed' };
+      this.stored.set(eventId, event);
+      return { data: event };
+    },
+    delete: async ({ eventId }: { calendarId: string; eventId: string }) => {
+      const event = this.find(eventId);
+      if (event.status === 'cancelled') throw gone(410);
+      this.stored.set(eventId, { ...event, status: 'cancelled' });
+      return { data: undefined };
+    },
+    instances: async ({ eventId, originalStart }: { calendarId: string; eventId: string; originalStart: string }) => {
+      this.find(eventId);
+      const stamp = DateTime.fromISO(originalStart, { zone: 'utc' }).toFormat("yyyyLLdd'T'HHmmss'Z'");
+      const instance = this.stored.get(`${eventId}_${stamp}`) ?? this.occurrence(`${eventId}_${stamp}`);
+      return { data: { items: instance ? [instance] : [] } };
+    },
+  };
+}
+
+let google: FakeGoogleEvents;
+
+beforeEach(() => {
+  google = new FakeGoogleEvents();
+  mock.method(googleCalendarProvider, 'calendarFor', async () => google as unknown as calendar_v3.Calendar);
+  mock.method(pool, 'query', async () => ({ rows: [{ access_token: 'token' }] }));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('GoogleCalendarProvider contract', () => {
+  test('single events', async () => {
+    await checkSingleEvent(googleCalendarProvider, 'user-1', 'America/Vancouver');
+  });
+
+  test('recurring events and their occurrences', async () => {
+    await checkRecurringEvent(googleCalendarProvider, 'user-1', 'America/Vancouver');
+  });
+
+  test('unknown events read as missing', async () => {
+    assert.equal(await googleCalendarProvider.getEvent('user-1', 'primary', 'nope'), null);
+    assert.equal(await googleCalendarProvider.updateEvent('user-1', 'primary', 'nope', { summary: 'x' }), null);
+    await googleCalendarProvider.deleteEvent('user-1', 'primary', 'nope');
+  });
+
+  test('other API errors are not swallowed', async () => {
+    google.events.get = async () => { throw Object.assign(new Error('Rate Limit Exceeded'), { code: 403 }); };
+
+    await assert.rejects(googleCalendarProvider.getEvent('user-1', 'primary', 'any'), /Rate Limit/);
+  });
+});
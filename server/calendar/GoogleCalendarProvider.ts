@@ -0,0 +1,124 @@
+import { google, calendar_v3 } from 'googleapis';
+import { pool } from '../db';
+import { registerCalendarProvider, type CalendarEvent, type CalendarProvider, type CalendarSummary } from './CalendarProvider';
+
+// 404 for unknown IDs, 410 for events that were deleted in Google
+const isGone = (error: any) => {
+  const status = Number(error?.code ?? error?.response?.status);
+  return status === 404 || status === 410;
+};
+
+class GoogleCalendarProvider implements CalendarProvider {
+  readonly id = 'google';
+  readonly name = 'Google Calendar';
+
+  isConfigured(): boolean {
+    return !!(process.env.GOOGLE_CLIENT_ID && process.env.GOOGLE_CLIENT_SECRET && process.env.GOOGLE_REDIRECT_URI);
+  }
+
+  async hasCredentials(userId: string): Promise<boolean> {
+    const result = await pool.query('SELECT access_token FROM oauth_tokens WHERE user_id = $1', [userId]);
+    return !!result.rows[0]?.access_token;
+  }
+
+  // oauth_tokens is the only token store; refreshed tokens are written back as Google issues them
+  async oauthClientFor(userId: string) {
+    const result = await pool.query(
+      'SELECT access_token, refresh_token, expiry FROM oauth_tokens WHERE user_id = $1',
+      [userId]
+    );
+    const tokens = result.rows[0];
+    if (!tokens?.access_token) {
+      throw new Error(`Missing Google OAuth tokens for userId: ${userId}`);
+    }
+
+    const client = new google.auth.OAuth2(
+      process.env.GOOGLE_CLIENT_ID,
+      process.env.GOOGLE_CLIENT_SECRET,
+      process.env.GOOGLE_REDIRECT_URI
+    );
+    client.setCredentials({
+      access_token: tokens.access_token,
+      refresh_token: tokens.refresh_token,
+      expiry_date: tokens.expiry ? new Date(tokens.expiry).getTime() : undefined,
+    });
+    client.on('tokens', async (newTokens) => {
+      await pool.query(
+        `UPDATE oauth_tokens SET access_token = $1, refresh_token = COALESCE($2, refresh_token), expiry = $3, updated_at = NOW()
+         WHERE user_id = $4`,
+        [
+          newTokens.access_token,
+          newTokens.refresh_token ?? null,
+          newTokens.expiry_date ? new Date(newTokens.expiry_date) : null,
+          userId,
+        ]
+      );
+    });
+    return client;
+  }
+
+  async calendarFor(userId: string): Promise<calendar_v3.Calendar> {
+    return google.calendar({ version: 'v3', auth: await this.oauthClientFor(userId) });
+  }
+
+  async disconnect(userId: string): Promise<void> {
+    await pool.query('DELETE FROM oauth_tokens WHERE user_id = $1', [userId]);
+  }
+
+  async listCalendars(userId: string): Promise<CalendarSummary[]> {
+    const calendar = await this.calendarFor(userId);
+    const response = await calendar.calendarList.list();
+    return (response.data.items || []).map(item => ({
+      id: item.id!,
+      summary: item.summary || item.id!,
+      primary: !!item.primary,
+    }));
+  }
+
+  async getEvent(userId: string, calendarId: string, eventId: string): Promise<CalendarEvent | null> {
+    const calendar = await this.calendarFor(userId);
+    try {
+      return (await calendar.events.get({ calendarId, eventId })).data;
+    } catch (error) {
+      if (isGone(error)) return null;
+      throw error;
+    }
+  }
+
+  async insertEvent(userId: string, calendarId: string, event: CalendarEvent): Promise<CalendarEvent> {
+    const calendar = await this.calendarFor(userId);
+    return (await calendar.events.insert({ calendarId, requestBody: event })).data;
+  }
+
+  async updateEvent(userId: string, calendarId: string, eventId: string, event: CalendarEvent): Promise<CalendarEvent | null> {
+    const calendar = await this.calendarFor(userId);
+    try {
+      return (await calendar.events.update({ calendarId, eventId, requestBody: event })).data;
+    } catch (error) {
+      if (isGone(error)) return null;
+      throw error;
+    }
+  }
+
+  async deleteEvent(userId: string, calendarId: string, eventId: string): Promise<void> {
+    const calendar = await this.calendarFor(userId);
+    try {
+      await calendar.events.delete({ calendarId, eventId });
+    } catch (error) {
+      if (!isGone(error)) throw error;
+    }
+  }
+
+  async findInstance(userId: string, calendarId: string, eventId: string, originalStart: Date): Promise<CalendarEvent | null> {
+    const calendar = await this.calendarFor(userId);
+    const instances = await calendar.events.instances({
+      calendarId,
+      eventId,
+      originalStart: originalStart.toISOString(),
+    });
+    return instances.data.items?.[0] ?? null;
+  }
+}
+
+export const googleCalendarProvider = new GoogleCalendarProvider();
+registerCalendarProvider(googleCalendarProvider);
@@ -0,0 +1,145 @@
+import '../test/env';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'crypto';
+import { DateTime } from 'luxon';
+import { pool } from '../db';
+import { microsoftCalendarProvider } from './MicrosoftCalendarProvider';
+import { checkRecurringEvent, checkSingleEvent } from '../test/calendarProviderContract';
+
+const GRAPH_URL = 'https://graph.microsoft.com/v1.0';
+
+// Graph answers in UTC with seven fractional digits unless asked otherwise
+const toGraphTime = (time: { dateTime: string; timeZone: string }) => ({
+  dateTime: DateTime.fromISO(time.dateTime, { zone: time.timeZone }).toUTC().toFormat("yyyy-LL-dd'T'HH:mm:ss.SSS'0000'"),
+  timeZone: 'UTC',
+});
+
+// In-memory stand-in for the Graph calendar endpoints the provider calls. A weekly series is expanded
+// into occurrences when it is created; deleted events and occurrences answer 404, as Graph's do.
+class FakeGraph {
+  readonly events = new Map<string, any>();
+
+  private create(body: any, fields: Record<string, unknown> = {}) {
+    const event = {
+      ...body,
+      id: randomUUID(),
+      start: toGraphTime(body.start),
+      end: toGraphTime(body.end),
+      isCancelled: false,
+      type: body.recurrence ? 'seriesMaster' : 'singleInstance',
+      ...fields,
+    };
+    this.events.set(event.id, event);
+    return event;
+  }
+
+  private expand(series: any, body: any) {
+    const { pattern, range } = body.recurrence;
+    assert.equal(pattern.type, 'weekly');
+    for (let week = 1; week < range.numberOfOccurrences; week++) {
+      const shift = (time: { dateTime: string; timeZone: string }) => ({
+        dateTime: DateTime.fromISO(time.dateTime, { zone: time.timeZone }).plus({ weeks: week * pattern.interval }).toISO({ includeOffset: false })!,
+        timeZone: time.timeZone,
+      });
+      const start = shift(body.start);
+      this.create({ ...body, recurrence: null, start, end: shift(body.end) }, {
+        type: 'occurrence',
+        seriesMasterId: series.id,
+        originalStart: DateTime.fromISO(start.dateTime, { zone: start.timeZone }).toUTC().toISO({ suppressMilliseconds: true }),
+      });
+    }
+  }
+
+  handle(method: string, path: string, body: any): { status: number; data?: any } {
+    const [, id, sub] = path.match(/^\/me\/events\/([^/?]+)(\/instances)?/) || [];
+    const event = id ? this.events.get(decodeURIComponent(id)) : undefined;
+
+    if (method === 'POST' && path === '/me/calendar/events') {
+      const created = this.create(body);
+      if (body.recurrence) this.expand(created, body);
+      return { status: 201, data: created };
+    }
+    if (!event) {
+      return { status: 404, data: { error: { code: 'ErrorItemNotFound', message: 'The specified object was not found in the store.' } } };
+    }
+    if (method === 'GET' && sub) {
+      const query = new URL(`${GRAPH_URL}${path}`).searchParams;
+      const from = Date.parse(query.get('startDateTime')!);
+      const to = Date.parse(query.get('endDateTime')!);
+      const value = Array.from(this.events.values()).filter(item =>
+        item.seriesMasterId === event.id && Date.parse(item.originalStart) >= from && Date.parse(item.originalStart) < to);
+      return { status: 200, data: { value } };
+    }
+    if (method === 'GET') {
+      return { status: 200, data: event };
+    }
+    if (method === 'PATCH') {
+      assert.ok(!(event.seriesMasterId && body.recurrence), 'Graph rejects a recurrence on an occurrence');
+      const updated = {
+        ...event,
+        ...body,
+        start: toGraphTime(body.start),
+        end: toGraphTime(body.end),
+        type: event.type === 'occurrence' ? 'exception' : event.type,
+      };
+      this.events.set(event.id, updated);
+      return { status: 200, data: updated };
+    }
+    if (method === 'DELETE') {
+      for (const [key, item] of this.events) {
+        if (key === event.id || item.seriesMasterId === event.id) this.events.delete(key);
+      }
+      return { status: 204 };
+    }
+    return { status: 405 };
+  }
+}
+
+let graph: FakeGraph;
+const connection = (expiresAt: string) => ({
+  rows: [{ account_name: 'dana@example.com', credentials: { accessToken: 'access', refreshToken: 'refresh', expiresAt } }],
+});
+
+beforeEach(() => {
+  graph = new FakeGraph();
+  mock.method(pool, 'query', async () => connection(new Date(Date.now() + 3600_000).toISOString()));
+  mock.method(globalThis, 'fetch', async (input: string | URL, init: RequestInit = {}) => {
+    const url = String(input);
+    assert.ok(url.startsWith(GRAPH_URL), `unexpected request to ${url}`);
+    assert.equal((init.headers as Record<string, string>).Authorization, 'Bearer access');
+    const { status, data } = graph.handle(init.method || 'GET', url.slice(GRAPH_URL.length), init.body ? JSON.parse(String(init.body)) : undefined);
+    return new Response(data === undefined ? null : JSON.stringify(data), { status, headers: { 'Content-Type': 'application/json' } });
+  });
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('MicrosoftCalendarProvider contract', () => {
+  test('single events', async () => {
+    await checkSingleEvent(microsoftCalendarProvider, 'user-1', 'America/Vancouver');
+    assert.equal(graph.events.size, 0);
+  });
+
+  test('recurring events and their occurrences', async () => {
+    await checkRecurringEvent(microsoftCalendarProvider, 'user-1', 'America/Vancouver');
+
+    const types = Array.from(graph.events.values()).map(event => event.type).sort();
+    assert.deepEqual(types, ['occurrence', 'occurrence', 'seriesMaster']);
+  });
+
+  test('a weekly task becomes a patterned recurrence in the series zone', async () => {
+    await microsoftCalendarProvider.insertEvent('user-1', 'primary', {
+      summary: 'Standup',
+      start: { dateTime: '2026-11-10T09:00:00.000', timeZone: 'America/Vancouver' },
+      end: { dateTime: '2026-11-10T09:15:00.000', timeZone: 'America/Vancouver' },
+      recurrence: ['RRULE:FREQ=WEEKLY;COUNT=4'],
+    });
+
+    const series = Array.from(graph.events.values()).find(event => event.type === 'seriesMaster');
+    assert.deepEqual(series.recurrence, {
+      pattern: { type: 'weekly', daysOfWeek: ['tuesday'], firstDayOfWeek: 'monday', interval: 1 },
+      range: { startDate: '2026-11-10', recurrenceTimeZone: 'America/Vancouver', type: 'numbered', numberOfOccurrences: 4 },
+    });
+  });
+});
@@ -0,0 +1,286 @@
+import { DateTime } from 'luxon';
+import { parseRRule, type RRule } from '@shared/recurrence';
+import type { MicrosoftCalendarCredentials } from '@shared/schema';
+import { registerCalendarProvider, type CalendarEvent, type CalendarProvider, type CalendarSummary } from './CalendarProvider';
+import { deleteCalendarConnection, getCalendarConnection, saveCalendarConnection } from './calendarConnections';
+
+const GRAPH_URL = 'https://graph.microsoft.com/v1.0';
+const SCOPES = 'offline_access User.Read Calendars.ReadWrite';
+const WEEKDAYS = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+const WEEK_INDEXES: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+
+class GraphError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const isGone = (error: unknown) => error instanceof GraphError && (error.status === 404 || error.status === 410);
+
+// Graph returns seven fractional digits; Luxon and the sync-state comparison want milliseconds at most
+const trimFraction = (dateTime: string) => dateTime.replace(/\.(\d{3})\d*$/, '.$1');
+
+// RFC 5545 rule -> Graph patternedRecurrence; only the rule shapes Outlook can represent are accepted
+function toPatternedRecurrence(rule: RRule, start: DateTime): any {
+  const weekdays = (rule.byDay || []).map(day => WEEKDAYS[day.weekday - 1]);
+  const ordinal = rule.byDay?.[0]?.ordinal;
+  let pattern: any;
+
+  switch (rule.freq) {
+    case 'DAILY':
+      pattern = { type: 'daily' };
+      break;
+    case 'WEEKLY':
+      pattern = { type: 'weekly', daysOfWeek: weekdays.length ? weekdays : [WEEKDAYS[start.weekday - 1]], firstDayOfWeek: 'monday' };
+      break;
+    case 'MONTHLY':
+      if (ordinal !== undefined) {
+        if (!WEEK_INDEXES[ordinal]) throw new Error(`Outlook cannot repeat on the ${ordinal} weekday of a month`);
+        pattern = { type: 'relativeMonthly', daysOfWeek: weekdays, index: WEEK_INDEXES[ordinal] };
+      } else {
+        const day = rule.byMonthDay?.[0] ?? start.day;
+        if ((rule.byMonthDay?.length ?? 0) > 1 || day < 1) throw new Error('Outlook monthly recurrences need a single positive BYMONTHDAY');
+        pattern = { type: 'absoluteMonthly', dayOfMonth: day };
+      }
+      break;
+    case 'YEARLY': {
+      const month = rule.byMonth?.[0] ?? start.month;
+      if (ordinal !== undefined) {
+        if (!WEEK_INDEXES[ordinal]) throw new Error(`Outlook cannot repeat on the ${ordinal} weekday of a month`);
+        pattern = { type: 'relativeYearly', daysOfWeek: weekdays, index: WEEK_INDEXES[ordinal], month };
+      } else {
+        pattern = { type: 'absoluteYearly', dayOfMonth: rule.byMonthDay?.[0] ?? start.day, month };
+      }
+      break;
+    }
+  }
+  pattern.interval = rule.interval;
+
+  const range: any = { startDate: start.toISODate(), recurrenceTimeZone: start.zoneName };
+  if (rule.count) {
+    Object.assign(range, { type: 'numbered', numberOfOccurrences: rule.count });
+  } else if (rule.until) {
+    Object.assign(range, { type: 'endDate', endDate: rule.until.setZone(start.zone).toISODate() });
+  } else {
+    range.type = 'noEnd';
+  }
+  return { pattern, range };
+}
+
+function toGraphEvent(event: CalendarEvent): any {
+  const body: any = {
+    subject: event.summary || '',
+    body: { contentType: 'text', content: event.description || '' },
+  };
+
+  if (event.start?.date) {
+    // All-day events run midnight to midnight; the zone only has to be the same on both ends
+    body.isAllDay = true;
+    body.start = { dateTime: `${event.start.date}T00:00:00`, timeZone: 'UTC' };
+    body.end = { dateTime: `${event.end?.date || event.start.date}T00:00:00`, timeZone: 'UTC' };
+  } else {
+    body.isAllDay = false;
+    body.start = { dateTime: event.start?.dateTime, timeZone: event.start?.timeZone || 'UTC' };
+    body.end = { dateTime: event.end?.dateTime, timeZone: event.end?.timeZone || 'UTC' };
+  }
+
+  const rrule = event.recurrence?.find(line => line.startsWith('RRULE:'));
+  if (rrule) {
+    const start = event.start?.date
+      ? DateTime.fromISO(event.start.date, { zone: 'utc' })
+      : DateTime.fromISO(event.start!.dateTime!, { zone: event.start?.timeZone || 'utc' });
+    body.recurrence = toPatternedRecurrence(parseRRule(rrule), start);
+  } else {
+    body.recurrence = null;
+  }
+  return body;
+}
+
+function fromGraphEvent(event: any): CalendarEvent {
+  const timeOf = (time: any) => event.isAllDay
+    ? { date: time.dateTime.slice(0, 10) }
+    : { dateTime: trimFraction(time.dateTime), timeZone: time.timeZone };
+  return {
+    id: event.id,
+    summary: event.subject,
+    description: event.body?.contentType === 'text' ? event.body.content : event.bodyPreview,
+    start: event.start ? timeOf(event.start) : undefined,
+    end: event.end ? timeOf(event.end) : undefined,
+    status: event.isCancelled ? 'cancelled' : 'confirmed',
+    htmlLink: event.webLink,
+  };
+}
+
+class MicrosoftCalendarProvider implements CalendarProvider {
+  readonly id = 'microsoft';
+  readonly name = 'Microsoft 365 / Outlook';
+
+  isConfigured(): boolean {
+    return !!(process.env.MICROSOFT_CLIENT_ID && process.env.MICROSOFT_CLIENT_SECRET && process.env.MICROSOFT_REDIRECT_URI);
+  }
+
+  private tokenUrl(): string {
+    return `https://login.microsoftonline.com/${process.env.MICROSOFT_TENANT_ID || 'common'}/oauth2/v2.0/token`;
+  }
+
+  authUrl(state: string): string {
+    const params = new URLSearchParams({
+      client_id: process.env.MICROSOFT_CLIENT_ID!,
+      response_type: 'code',
+      redirect_uri: process.env.MICROSOFT_REDIRECT_URI!,
+      response_mode: 'query',
+      scope: SCOPES,
+      prompt: 'select_account',
+      state,
+    });
+    return `https://login.microsoftonline.com/${process.env.MICROSOFT_TENANT_ID || 'common'}/oauth2/v2.0/authorize?${params}`;
+  }
+
+  private async requestTokens(grant: Record<string, string>): Promise<MicrosoftCalendarCredentials> {
+    const response = await fetch(this.tokenUrl(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: process.env.MICROSOFT_CLIENT_ID!,
+        client_secret: process.env.MICROSOFT_CLIENT_SECRET!,
+        redirect_uri: process.env.MICROSOFT_REDIRECT_URI!,
+        scope: SCOPES,
+        ...grant,
+      }),
+    });
+    const data: any = await response.json();
+    if (!response.ok) {
+      throw new GraphError(data.error_description || data.error || 'Microsoft token request failed', response.status);
+    }
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token ?? null,
+      expiresAt: new Date(Date.now() + Number(data.expires_in) * 1000).toISOString(),
+    };
+  }
+
+  // OAuth callback: trade the code for tokens and remember which Microsoft account was connected
+  async connect(userId: string, code: string): Promise<void> {
+    const credentials = await this.requestTokens({ grant_type: 'authorization_code', code });
+    const me = await this.graphRequest(credentials.accessToken, 'GET', '/me');
+    await saveCalendarConnection(userId, this.id, me.mail || me.userPrincipalName || null, credentials);
+  }
+
+  // Access token for the user, refreshed a minute before it expires
+  private async accessTokenFor(userId: string): Promise<string> {
+    const connection = await getCalendarConnection<MicrosoftCalendarCredentials>(userId, this.id);
+    if (!connection) {
+      throw new Error(`Missing Microsoft calendar connection for userId: ${userId}`);
+    }
+    const { credentials } = connection;
+    if (new Date(credentials.expiresAt).getTime() - 60_000 > Date.now()) {
+      return credentials.accessToken;
+    }
+    if (!credentials.refreshToken) {
+      throw new Error(`Microsoft access token expired and no refresh token for userId: ${userId}`);
+    }
+
+    const refreshed = await this.requestTokens({ grant_type: 'refresh_token', refresh_token: credentials.refreshToken });
+    await saveCalendarConnection(userId, this.id, null, {
+      ...refreshed,
+      refreshToken: refreshed.refreshToken ?? credentials.refreshToken,
+    });
+    return refreshed.accessToken;
+  }
+
+  private async graphRequest(accessToken: string, method: string, path: string, body?: unknown): Promise<any> {
+    const response = await fetch(`${GRAPH_URL}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        ...(body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    if (response.status === 204) {
+      return null;
+    }
+    const data: any = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new GraphError(data?.error?.message || `Microsoft Graph ${method} ${path} failed`, response.status);
+    }
+    return data;
+  }
+
+  private async graph(userId: string, method: string, path: string, body?: unknown): Promise<any> {
+    return this.graphRequest(await this.accessTokenFor(userId), method, path, body);
+  }
+
+  // "primary" is the mailbox's default calendar
+  private calendarPath(calendarId: string): string {
+    return calendarId === 'primary' ? '/me/calendar' : `/me/calendars/${encodeURIComponent(calendarId)}`;
+  }
+
+  async hasCredentials(userId: string): Promise<boolean> {
+    return !!(await getCalendarConnection(userId, this.id));
+  }
+
+  async disconnect(userId: string): Promise<void> {
+    await deleteCalendarConnection(userId, this.id);
+  }
+
+  async listCalendars(userId: string): Promise<CalendarSummary[]> {
+    const data = await this.graph(userId, 'GET', '/me/calendars?$select=id,name,isDefaultCalendar');
+    return (data.value || []).map((calendar: any) => ({
+      id: calendar.id,
+      summary: calendar.name,
+      primary: !!calendar.isDefaultCalendar,
+    }));
+  }
+
+  async getEvent(userId: string, _calendarId: string, eventId: string): Promise<CalendarEvent | null> {
+    try {
+      return fromGraphEvent(await this.graph(userId, 'GET', `/me/events/${encodeURIComponent(eventId)}`));
+    } catch (error) {
+      if (isGone(error)) return null;
+      throw error;
+    }
+  }
+
+  async insertEvent(userId: string, calendarId: string, event: CalendarEvent): Promise<CalendarEvent> {
+    return fromGraphEvent(await this.graph(userId, 'POST', `${this.calendarPath(calendarId)}/events`, toGraphEvent(event)));
+  }
+
+  async updateEvent(userId: string, _calendarId: string, eventId: string, event: CalendarEvent): Promise<CalendarEvent | null> {
+    const body = toGraphEvent(event);
+    // Occurrences of a series cannot carry their own recurrence
+    if (body.recurrence === null) {
+      delete body.recurrence;
+    }
+    try {
+      return fromGraphEvent(await this.graph(userId, 'PATCH', `/me/events/${encodeURIComponent(eventId)}`, body));
+    } catch (error) {
+      if (isGone(error)) return null;
+      throw error;
+    }
+  }
+
+  async deleteEvent(userId: string, _calendarId: string, eventId: string): Promise<void> {
+    try {
+      await this.graph(userId, 'DELETE', `/me/events/${encodeURIComponent(eventId)}`);
+    } catch (error) {
+      if (!isGone(error)) throw error;
+    }
+  }
+
+  async findInstance(userId: string, _calendarId: string, eventId: string, originalStart: Date): Promise<CalendarEvent | null> {
+    const window = new URLSearchParams({
+      startDateTime: new Date(originalStart.getTime() - 24 * 60 * 60 * 1000).toISOString(),
+      endDateTime: new Date(originalStart.getTime() + 24 * 60 * 60 * 1000).toISOString(),
+    });
+    const data = await this.graph(userId, 'GET', `/me/events/${encodeURIComponent(eventId)}/instances?${window}`);
+    const instances: any[] = data.value || [];
+    // Graph reports originalStart in UTC; all-day series only line up on the date
+    const instance = instances.find(item => new Date(item.originalStart).getTime() === originalStart.getTime())
+      ?? instances.find(item => item.originalStart?.slice(0, 10) === originalStart.toISOString().slice(0, 10));
+    return instance ? fromGraphEvent(instance) : null;
+  }
+}
+
+export const microsoftCalendarProvider = new MicrosoftCalendarProvider();
+registerCalendarProvider(microsoftCalendarProvider);
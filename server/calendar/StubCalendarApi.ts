@@ -0,0 +1,60 @@
+import { randomUUID } from 'crypto';
+import type { calendar_v3 } from 'googleapis';
+import type { CalendarApi } from '../services/CalendarPullService';
+
+interface StoredEvent {
+  event: calendar_v3.Schema$Event;
+  version: number;
+}
+
+// In-memory stand-in for the parts of the Google Calendar API that two-way sync uses.
+// Enabled with GOOGLE_CALENDAR_STUB=true so pulls, webhooks and conflicts can be exercised offline.
+export class StubCalendarApi implements CalendarApi {
+  private calendars = new Map<string, Map<string, StoredEvent>>();
+  private version = 0;
+  readonly channels = {
+    stop: async (_params: { requestBody: { id: string; resourceId: string } }) => ({ data: {} }),
+  };
+
+  readonly events = {
+    list: async (params: { calendarId: string; syncToken?: string; pageToken?: string; showDeleted?: boolean }) => {
+      const since = params.syncToken ? Number(params.syncToken) : 0;
+      if (params.syncToken && (!isFinite(since) || since > this.version)) {
+        throw Object.assign(new Error('Sync token is no longer valid'), { code: 410 });
+      }
+      const items = Array.from(this.calendar(params.calendarId).values())
+        .filter(stored => stored.version > since)
+        .filter(stored => params.showDeleted || since > 0 || stored.event.status !== 'cancelled')
+        .map(stored => stored.event);
+      return { data: { items, nextSyncToken: String(this.version) } };
+    },
+    watch: async (params: { calendarId: string; requestBody: { id?: string | null; address?: string | null; token?: string | null } }) => ({
+      data: {
+        id: params.requestBody.id,
+        resourceId: `stub-${params.calendarId}`,
+        expiration: String(Date.now() + 7 * 24 * 60 * 60 * 1000),
+      },
+    }),
+  };
+
+  private calendar(calendarId: string) {
+    if (!this.calendars.has(calendarId)) this.calendars.set(calendarId, new Map());
+    return this.calendars.get(calendarId)!;
+  }
+
+  // Simulate a change made in Google (create, move or rename)
+  putEvent(calendarId: string, event: calendar_v3.Schema$Event): calendar_v3.Schema$Event {
+    const stored = { ...event, id: event.id || randomUUID().replace(/-/g, ''), status: event.status || 'confirmed' };
+    this.calendar(calendarId).set(stored.id, { event: stored, version: ++this.version });
+    return stored;
+  }
+
+  deleteEvent(calendarId: string, eventId: string): void {
+    const existing = this.calendar(calendarId).get(eventId);
+    if (existing) {
+      this.calendar(calendarId).set(eventId, { event: { ...existing.event, status: 'cancelled' }, version: ++this.version });
+    }
+  }
+}
+
+export const stubCalendarApi = new StubCalendarApi();
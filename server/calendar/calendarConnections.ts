@@ -0,0 +1,32 @@
+import { pool } from '../db';
+
+export interface StoredCalendarConnection<T> {
+  accountName: string | null;
+  credentials: T;
+}
+
+// calendar_connections holds one account per user and provider (Google keeps using oauth_tokens)
+export async function getCalendarConnection<T>(userId: string, provider: string): Promise<StoredCalendarConnection<T> | null> {
+  const result = await pool.query(
+    'SELECT account_name, credentials FROM calendar_connections WHERE user_id = $1 AND provider = $2',
+    [userId, provider]
+  );
+  const row = result.rows[0];
+  return row ? { accountName: row.account_name, credentials: row.credentials } : null;
+}
+
+export async function saveCalendarConnection<T>(userId: string, provider: string, accountName: string | null, credentials: T): Promise<void> {
+  await pool.query(
+    `INSERT INTO calendar_connections (user_id, provider, account_name, credentials)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (user_id, provider) DO UPDATE SET
+       account_name = COALESCE(EXCLUDED.account_name, calendar_connections.account_name),
+       credentials = EXCLUDED.credentials,
+       updated_at = NOW()`,
+    [userId, provider, accountName, JSON.stringify(credentials)]
+  );
+}
+
+export async function deleteCalendarConnection(userId: string, provider: string): Promise<void> {
+  await pool.query('DELETE FROM calendar_connections WHERE user_id = $1 AND provider = $2', [userId, provider]);
+}
@@ -0,0 +1,261 @@
+import { DateTime } from 'luxon';
+import type { CalendarEvent, CalendarEventTime } from './CalendarProvider';
+
+// Just enough RFC 5545 to write task events and feeds, and read back what a CalDAV server stores
+
+export interface IcsEvent extends CalendarEvent {
+  uid: string;
+  recurrenceId?: string | null; // Set on overrides of a single occurrence: UTC stamp, or YYYYMMDD for all-day series
+  exdates?: string[];           // Cancelled occurrences, in the same form as recurrenceId
+  categories?: string[];
+  attendees?: IcsAttendee[];
+  lastModified?: Date | null;
+}
+
+export interface IcsAttendee {
+  name: string;
+  email?: string | null;
+}
+
+// Feeds can publish tasks as to-dos instead of events
+export interface IcsTodo {
+  component: 'VTODO';
+  uid: string;
+  summary: string;
+  description?: string | null;
+  due?: CalendarEventTime;
+  status: 'NEEDS-ACTION' | 'IN-PROCESS' | 'COMPLETED' | 'CANCELLED';
+  completed?: Date | null;
+  priority?: number; // 1 (highest) to 9 (lowest)
+  url?: string | null;
+  categories?: string[];
+  attendees?: IcsAttendee[];
+  lastModified?: Date | null;
+}
+
+const PRODID = '-//ClientFlow//Tasks//EN';
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\([\\;,nN])/g, (_, char: string) => (char === 'n' || char === 'N' ? '\n' : char));
+
+// Content lines are folded at 75 octets; continuation lines start with a space
+function foldLine(line: string): string {
+  const chunks: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      chunks.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  chunks.push(current);
+  return chunks.join('\r\n ');
+}
+
+const compact = (iso: string) => iso.replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+// Parameter values can't carry quotes; anything with a separator in it has to be quoted
+const paramValue = (value: string) => {
+  const clean = value.replace(/"/g, "'");
+  return /[;:,]/.test(clean) ? `"${clean}"` : clean;
+};
+
+function commonLines(item: { categories?: string[]; attendees?: IcsAttendee[]; lastModified?: Date | null }): string[] {
+  const lines: string[] = [];
+  if (item.categories?.length) {
+    lines.push(`CATEGORIES:${item.categories.map(escapeText).join(',')}`);
+  }
+  for (const attendee of item.attendees || []) {
+    if (attendee.email) {
+      lines.push(`ATTENDEE;CN=${paramValue(attendee.name)}:mailto:${attendee.email}`);
+    }
+  }
+  if (item.lastModified) {
+    lines.push(`LAST-MODIFIED:${compact(item.lastModified.toISOString())}`);
+  }
+  return lines;
+}
+
+function formatTime(name: string, time: CalendarEventTime | undefined): string | null {
+  if (time?.date) {
+    return `${name};VALUE=DATE:${time.date.replace(/-/g, '')}`;
+  }
+  if (!time?.dateTime) {
+    return null;
+  }
+  if (time.timeZone) {
+    // Wall-clock time in the zone, so recurring events keep their local time across DST changes
+    const local = DateTime.fromISO(time.dateTime, { zone: time.timeZone });
+    return `${name};TZID=${time.timeZone}:${local.toFormat("yyyyLLdd'T'HHmmss")}`;
+  }
+  return `${name}:${DateTime.fromISO(time.dateTime, { zone: 'utc' }).toUTC().toFormat("yyyyLLdd'T'HHmmss'Z'")}`;
+}
+
+export function serializeEvent(event: IcsEvent, stamp: Date = new Date()): string[] {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${compact(stamp.toISOString())}`,
+  ];
+  if (event.recurrenceId) {
+    lines.push(event.recurrenceId.length === 8 ? `RECURRENCE-ID;VALUE=DATE:${event.recurrenceId}` : `RECURRENCE-ID:${event.recurrenceId}`);
+  }
+  const start = formatTime('DTSTART', event.start);
+  const end = formatTime('DTEND', event.end);
+  if (start) lines.push(start);
+  if (end) lines.push(end);
+  if (event.summary) lines.push(`SUMMARY:${escapeText(event.summary)}`);
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.htmlLink) lines.push(`URL:${event.htmlLink}`);
+  if (event.status === 'cancelled') lines.push('STATUS:CANCELLED');
+  for (const rule of event.recurrence || []) {
+    lines.push(rule);
+  }
+  for (const exdate of event.exdates || []) {
+    lines.push(exdate.length === 8 ? `EXDATE;VALUE=DATE:${exdate}` : `EXDATE:${exdate}`);
+  }
+  lines.push(...commonLines(event));
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+export function serializeTodo(todo: IcsTodo, stamp: Date = new Date()): string[] {
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${todo.uid}`,
+    `DTSTAMP:${compact(stamp.toISOString())}`,
+  ];
+  const due = formatTime('DUE', todo.due);
+  if (due) lines.push(due);
+  lines.push(`SUMMARY:${escapeText(todo.summary)}`);
+  if (todo.description) lines.push(`DESCRIPTION:${escapeText(todo.description)}`);
+  if (todo.url) lines.push(`URL:${todo.url}`);
+  lines.push(`STATUS:${todo.status}`);
+  if (todo.completed) lines.push(`COMPLETED:${compact(todo.completed.toISOString())}`);
+  if (todo.priority) lines.push(`PRIORITY:${todo.priority}`);
+  lines.push(...commonLines(todo));
+  lines.push('END:VTODO');
+  return lines;
+}
+
+export function serializeCalendar(
+  items: (IcsEvent | IcsTodo)[],
+  options: { name?: string; refreshInterval?: string } = {}
+): string {
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODID}`, 'CALSCALE:GREGORIAN'];
+  if (options.name) {
+    lines.push(`X-WR-CALNAME:${escapeText(options.name)}`);
+  }
+  if (options.refreshInterval) {
+    // ISO 8601 duration, e.g. PT1H; the X- form is the one Outlook reads
+    lines.push(`REFRESH-INTERVAL;VALUE=DURATION:${options.refreshInterval}`, `X-PUBLISHED-TTL:${options.refreshInterval}`);
+  }
+  const stamp = new Date();
+  for (const item of items) {
+    lines.push(...('component' in item ? serializeTodo(item, stamp) : serializeEvent(item, stamp)));
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  const match = line.match(/^([A-Za-z0-9-]+)((?:;[A-Za-z0-9-]+=(?:"[^"]*"|[^:;]*))*):(.*)$/);
+  if (!match) {
+    return null;
+  }
+  const params: Record<string, string> = {};
+  for (const param of match[2].split(';').filter(Boolean)) {
+    const [key, ...rest] = param.split('=');
+    params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: match[1].toUpperCase(), params, value: match[3] };
+}
+
+function parseTime(line: ContentLine): CalendarEventTime {
+  const value = line.value.trim();
+  if (line.params.VALUE === 'DATE' || /^\d{8}$/.test(value)) {
+    return { date: `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}` };
+  }
+  const parsed = DateTime.fromFormat(value.replace(/Z$/, ''), "yyyyLLdd'T'HHmmss", { zone: 'utc' });
+  if (value.endsWith('Z') || !line.params.TZID) {
+    return { dateTime: parsed.toISO({ suppressMilliseconds: true }), timeZone: 'UTC' };
+  }
+  return { dateTime: parsed.toISO({ includeOffset: false, suppressMilliseconds: true }), timeZone: line.params.TZID };
+}
+
+// EXDATE / RECURRENCE-ID values are kept as UTC stamps (or plain dates) so they compare across zones
+function occurrenceStamp(line: ContentLine, value: string): string {
+  if (line.params.VALUE === 'DATE' || value.endsWith('Z') || !line.params.TZID) {
+    return value;
+  }
+  return DateTime.fromFormat(value, "yyyyLLdd'T'HHmmss", { zone: line.params.TZID }).toUTC().toFormat("yyyyLLdd'T'HHmmss'Z'");
+}
+
+// Every VEVENT in the document, masters and overrides alike
+export function parseCalendar(text: string): IcsEvent[] {
+  const lines = text.replace(/\r\n[ \t]/g, '').replace(/\n[ \t]/g, '').split(/\r?\n/);
+  const events: IcsEvent[] = [];
+  let current: IcsEvent | null = null;
+
+  for (const raw of lines) {
+    const line = parseContentLine(raw);
+    if (!line) continue;
+    if (line.name === 'BEGIN' && line.value === 'VEVENT') {
+      current = { uid: '' };
+      continue;
+    }
+    if (!current) continue;
+
+    switch (line.name) {
+      case 'END':
+        if (line.value === 'VEVENT') {
+          events.push(current);
+          current = null;
+        }
+        break;
+      case 'UID':
+        current.uid = line.value;
+        current.id = line.value;
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeText(line.value);
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeText(line.value);
+        break;
+      case 'DTSTART':
+        current.start = parseTime(line);
+        break;
+      case 'DTEND':
+        current.end = parseTime(line);
+        break;
+      case 'URL':
+        current.htmlLink = line.value;
+        break;
+      case 'STATUS':
+        current.status = line.value.toUpperCase() === 'CANCELLED' ? 'cancelled' : 'confirmed';
+        break;
+      case 'RRULE':
+        current.recurrence = [...(current.recurrence || []), `RRULE:${line.value}`];
+        break;
+      case 'EXDATE':
+        current.exdates = [...(current.exdates || []), ...line.value.split(',').map(value => occurrenceStamp(line, value))];
+        break;
+      case 'RECURRENCE-ID':
+        current.recurrenceId = occurrenceStamp(line, line.value);
+        break;
+    }
+  }
+  return events;
+}
@@ -5,19 +5,13 @@
 import type { Express } from "express";
 import { pool } from "./db";
 import { storage } from "./storage";
-import { googleCalendarService } from "./googleCalendar";
 import { computeDueAt, getDebugTimeInfo } from "./utils/timeHandling";
-import { syncAllCalendarEventsForTask, getTaskCalendarDebugInfo } from "./calendarEvents";
+import { CalendarService } from "./services/CalendarService";
+import { googleCalendarProvider } from "./calendar/GoogleCalendarProvider";
+import { onTaskCreatedOrUpdated } from "./hooks/taskCalendarHooks";
 import { DateTime } from 'luxon';
 import { debugSyncRouter } from './routes/debugSync';
 
-// Environment variable for sync control
-export let CALENDAR_SYNC_ENABLED = process.env.CALENDAR_SYNC_ENABLED !== 'false';
-
-export function SYNC_ENABLED(): boolean {
-  return CALENDAR_SYNC_ENABLED;
-}
-
 // Helper function to get user by email or ID
 async function getEffectiveUser(identifier?: string) {
   if (!identifier) return null;
@@ -409,13 +403,6 @@ export function registerDebugRoutes(app: Express) {
         return res.status(400).json({ error: 'No Google Calendar tokens found for user' });
       }
 
-      const calendarService = new GoogleCalendarService();
-      const client = await calendarService.getClientForUser(user.id);
-      
-      if (!client) {
-        return res.status(400).json({ error: 'Failed to get Google Calendar client' });
-      }
-
       // Create a 30-minute test event
       const now = new Date();
       const endTime = new Date(now.getTime() + 30 * 60 * 1000);
@@ -430,19 +417,15 @@ export function registerDebugRoutes(app: Express) {
         end: {
           dateTime: endTime.toISOString(), 
           timeZone: 'America/Vancouver'
-        },
-        colorId: '11' // Red color
+        }
       };
 
-      const response = await client.events.insert({
-        calendarId: 'primary',
-        requestBody: event
-      });
+      const created = await googleCalendarProvider.insertEvent(user.id, 'primary', event);
 
       res.json({
         success: true,
-        eventId: response.data.id,
-        eventUrl: response.data.htmlLink,
+        eventId: created.id,
+        eventUrl: created.htmlLink,
         user: user.email
       });
     } catch (error: any) {
@@ -490,7 +473,7 @@ export function registerDebugRoutes(app: Express) {
   // Sync status
   app.get('/debug/sync/status', (req, res) => {
     res.json({
-      calendar_sync_enabled: SYNC_ENABLED(),
+      calendar_sync_enabled: CalendarService.isSyncEnabled(),
       environment_var: process.env.CALENDAR_SYNC_ENABLED
     });
   });
@@ -558,9 +541,7 @@ export function registerDebugRoutes(app: Express) {
       }
 
       const { user } = await resolveUserAndTokens(req);
-      const { googleCalendarService } = await import('./googleCalendar');
-      
-      const event = await googleCalendarService.getEvent(user.id, eventId);
+      const event = await CalendarService.getEvent(user.id, eventId);
       
       if (!event) {
         return res.status(404).json({ error: 'Event not found' });
@@ -577,16 +558,14 @@ export function registerDebugRoutes(app: Express) {
 
   // Enable sync
   app.post('/debug/sync/enable', (req, res) => {
-    CALENDAR_SYNC_ENABLED = true;
-    process.env.CALENDAR_SYNC_ENABLED = 'true';
+    CalendarService.setSyncEnabled(true);
     console.log('Calendar sync ENABLED via debug route');
     res.json({ calendar_sync_enabled: true });
   });
 
   // Disable sync  
   app.post('/debug/sync/disable', (req, res) => {
-    CALENDAR_SYNC_ENABLED = false;
-    process.env.CALENDAR_SYNC_ENABLED = 'false';
+    CalendarService.setSyncEnabled(false);
     console.log('Calendar sync DISABLED via debug route');
     res.json({ calendar_sync_enabled: false });
   });
@@ -602,14 +581,14 @@ export function registerDebugRoutes(app: Express) {
 
       console.log(`Debug calendar flush for task: ${taskId}`);
       
-      // Sync calendar events for the specific task
-      const result = await syncAllCalendarEventsForTask(taskId as string);
+      // Queue calendar sync for every user on the task
+      await onTaskCreatedOrUpdated(taskId as string);
       
       res.json({
         success: true,
         taskId,
-        message: `Calendar flush completed for task ${taskId}`,
-        sync_enabled: SYNC_ENABLED()
+        message: `Calendar flush queued for task ${taskId}`,
+        sync_enabled: CalendarService.isSyncEnabled()
       });
     } catch (error: any) {
       console.error('Debug flush error:', error);
@@ -629,168 +608,14 @@ export function registerDebugRoutes(app: Express) {
     }
 
     try {
-      // Load the task directly from database
-      const taskResult = await pool.query('SELECT * FROM tasks WHERE id = $1', [taskId]);
-      if (taskResult.rows.length === 0) {
+      const task = await storage.getTask(taskId);
+      if (!task) {
         return res.status(404).json({ error: `Task ${taskId} not found` });
       }
-      const task = taskResult.rows[0];
-
-      if (!task.due_at) {
-        return res.status(400).json({ error: 'Task has no due_at timestamp for calendar sync' });
-      }
 
-      // Get assignee info - check who this task is assigned to
+      // Direct user assignment first, then the first team member assignment
       let assigneeTeamMemberId: string | undefined;
-      
-      if (task.assigned_to) {
-        // Direct user assignment - we still need to resolve through the enhanced method
-        const resolution = await resolveUserAndTokensEnhanced({
-          asEmail: impersonateAs,
-          sessionUserId: task.assigned_to
-        });
-        
-        if (!resolution.ok) {
-          return res.status(400).json({ 
-            error: `Token resolution failed: ${resolution.reason}`,
-            details: resolution
-          });
-        }
-        
-        const { userId, tz, tokens } = resolution;
-        
-        // Use Luxon for proper timezone handling - avoid double conversion
-        const { DateTime } = await import('luxon');
-        const legacyCalendarTz = 'America/Vancouver';
-        
-        let legacyStartLocal: DateTime;
-        
-        if (task.due_at instanceof Date) {
-          legacyStartLocal = DateTime.fromJSDate(task.due_at, { zone: 'utc' }).setZone(legacyCalendarTz);
-        } else if (typeof task.due_at === 'string') {
-          legacyStartLocal = DateTime.fromISO(task.due_at, { zone: 'utc' }).setZone(legacyCalendarTz);
-        } else if (typeof task.due_at === 'number') {
-          // Handle epoch seconds/milliseconds conversion
-          const ms = task.due_at < 1e12 ? task.due_at * 1000 : task.due_at;
-          legacyStartLocal = DateTime.fromMillis(ms, { zone: 'utc' }).setZone(legacyCalendarTz);
-        } else {
-          legacyStartLocal = DateTime.now().setZone(legacyCalendarTz);
-        }
-        
-        const legacyEndLocal = legacyStartLocal.plus({ minutes: 60 });
-
-        console.info('[CAL LEGACY]', { 
-          taskId, 
-          originalDueAt: task.due_at,
-          startLocal: legacyStartLocal.toISO({ includeOffset: false }),
-          endLocal: legacyEndLocal.toISO({ includeOffset: false }),
-          tz: legacyCalendarTz
-        });
-
-        // If forceCreate=1, clear existing mappings first
-        if (forceCreate === '1') {
-          console.log(`[DEBUG] forceCreate=1 - clearing existing mappings for task ${taskId}`);
-          
-          // Clear task mapping fields
-          await pool.query(`
-            UPDATE tasks 
-            SET google_event_id = NULL, google_calendar_event_id = NULL
-            WHERE id = $1
-          `, [taskId]);
-          
-          // Clear mapping table rows
-          await pool.query(`
-            DELETE FROM task_google_events 
-            WHERE task_id = $1 AND user_id = $2
-          `, [taskId, userId]);
-          
-          if (verbose === '1') {
-            console.log(`[DEBUG] Cleared mappings for task ${taskId}`);
-          }
-        }
-        
-        // Check if this task already has a calendar event for this user (idempotent)
-        const existingEventResult = await pool.query(
-          'SELECT event_id FROM task_google_events WHERE task_id = $1 AND user_id = $2', 
-          [taskId, userId]
-        );
-        
-        // Get Google Calendar service
-        const { googleCalendarService } = await import('./googleCalendar');
-        
-        let eventId: string;
-        let htmlLink: string = '';
-        
-        if (existingEventResult.rows.length > 0) {
-          // PATCH existing event
-          eventId = existingEventResult.rows[0].event_id;
-          console.log(`Updating existing calendar event ${eventId}`);
-          
-          const updateResult = await googleCalendarService.updateTaskEvent(userId, eventId, {
-            title: task.title,
-            description: task.description || '',
-            dueDate: legacyStartLocal.toJSDate(), // Pass local Date object
-            status: task.status || 'pending',
-            priority: task.priority || 'medium'
-          });
-          
-          if (!updateResult.success) {
-            throw new Error(`Failed to update calendar event ${eventId}`);
-          }
-          
-          htmlLink = updateResult.htmlLink || '';
-        } else {
-          // CREATE new event and store mapping
-          console.log(`Creating new calendar event for task ${taskId}`);
-          
-          const createResult = await googleCalendarService.createTaskEvent(userId, {
-            title: task.title,
-            description: task.description || '',
-            dueDate: legacyStartLocal.toJSDate(), // Pass local Date object
-            status: task.status || 'pending',
-            priority: task.priority || 'medium'
-          });
-          
-          if (!createResult) {
-            throw new Error('Failed to create calendar event - no result returned');
-          }
-          
-          eventId = createResult.eventId;
-          htmlLink = createResult.htmlLink;
-          
-          // Store event mapping in task_google_events table
-          await pool.query(
-            'INSERT INTO task_google_events (task_id, user_id, event_id) VALUES ($1, $2, $3) ON CONFLICT (task_id, user_id) DO UPDATE SET event_id = $3, updated_at = now()',
-            [taskId, userId, eventId]
-          );
-        }
-
-        console.log(`[CAL] upsert ok task=${taskId} user=${userId} cal=primary event=${eventId} startLocal=${legacyStartLocal.toISO({ includeOffset: false })} tz=${legacyCalendarTz}`);
-
-        const operation = forceCreate === '1' ? 'create' : (existingEventResult.rows.length > 0 ? 'update' : 'create');
-        
-        const result = { 
-          ok: true, 
-          op: operation,
-          taskId, 
-          assigneeUserId: userId,
-          calendarId: 'primary',
-          eventId,
-          htmlLink: htmlLink || '',
-          payload: {
-            start: legacyStartLocal.toFormat("yyyy-MM-dd'T'HH:mm:ss"),
-            end: legacyEndLocal.toFormat("yyyy-MM-dd'T'HH:mm:ss"),
-            timeZone: legacyCalendarTz
-          }
-        };
-        
-        if (verbose === '1') {
-          console.log(`[DEBUG] Enhanced result:`, result);
-        }
-
-        return res.json(result);
-      } else {
-        // Check task_assignments table
+      if (!task.assignedTo) {
         const assignmentResult = await pool.query('SELECT team_member_id FROM task_assignments WHERE task_id = $1 LIMIT 1', [taskId]);
         if (assignmentResult.rows.length === 0) {
           return res.status(400).json({ error: 'Task has no assignee - cannot sync to calendar' });
@@ -798,9 +623,9 @@ export function registerDebugRoutes(app: Express) {
         assigneeTeamMemberId = assignmentResult.rows[0].team_member_id;
       }
 
-      // Resolve user and tokens using enhanced resolution with team member
       const resolution = await resolveUserAndTokensEnhanced({
         asEmail: impersonateAs,
+        sessionUserId: task.assignedTo || undefined,
         assigneeTeamMemberId
       });
       
@@ -811,102 +636,35 @@ export function registerDebugRoutes(app: Express) {
         });
       }
       
-      const { userId, email, tz, tokens } = resolution;
-      
-      // Use Luxon for proper timezone handling - avoid double conversion
-      const { DateTime } = await import('luxon');
-      const calendarTz = 'America/Vancouver';
-      
-      let startLocal: DateTime;
-      
-      if (task.due_at instanceof Date) {
-        startLocal = DateTime.fromJSDate(task.due_at, { zone: 'utc' }).setZone(calendarTz);
-      } else if (typeof task.due_at === 'string') {
-        startLocal = DateTime.fromISO(task.due_at, { zone: 'utc' }).setZone(calendarTz);
-      } else if (typeof task.due_at === 'number') {
-        // Handle epoch seconds/milliseconds conversion
-        const ms = task.due_at < 1e12 ? task.due_at * 1000 : task.due_at;
-        startLocal = DateTime.fromMillis(ms, { zone: 'utc' }).setZone(calendarTz);
-      } else {
-        startLocal = DateTime.now().setZone(calendarTz);
-      }
-      
-      const endLocal = startLocal.plus({ minutes: 60 });
+      const userId = resolution.userId!;
 
-      console.info('[CAL DEBUG]', { 
-        taskId, 
-        originalDueAt: task.due_at,
-        startLocal: startLocal.toISO({ includeOffset: false }),
-        endLocal: endLocal.toISO({ includeOffset: false }),
-        tz: calendarTz
-      });
-
-      // Check if this task already has a calendar event for this user (idempotent)
-      const existingEventResult = await pool.query(
-        'SELECT event_id FROM task_google_events WHERE task_id = $1 AND user_id = $2', 
-        [taskId, userId]
-      );
-      
-      // Get Google Calendar service
-      const { googleCalendarService } = await import('./googleCalendar');
-      
-      let eventId: string;
-      let htmlLink: string = '';
-      
-      if (existingEventResult.rows.length > 0) {
-        // PATCH existing event
-        eventId = existingEventResult.rows[0].event_id;
-        console.log(`Updating existing calendar event ${eventId}`);
-        
-        const updateResult = await googleCalendarService.updateTaskEvent(userId, eventId, {
-          title: task.title,
-          description: task.description || '',
-          dueDate: startLocal.toJSDate(), // Pass local Date object
-          status: task.status || 'pending',
-          priority: task.priority || 'medium'
-        });
-        
-        if (!updateResult.success) {
-          throw new Error(`Failed to update calendar event ${eventId}`);
-        }
-        
-        htmlLink = updateResult.htmlLink || '';
-      } else {
-        // CREATE new event and store mapping
-        console.log(`Creating new calendar event for task ${taskId}`);
-        
-        const createResult = await googleCalendarService.createTaskEvent(userId, {
-          title: task.title,
-          description: task.description || '',
-          dueDate: startLocal.toJSDate(), // Pass local Date object
-          status: task.status || 'pending',
-          priority: task.priority || 'medium'
-        });
-        
-        if (!createResult) {
-          throw new Error('Failed to create calendar event - no result returned');
-        }
-        
-        eventId = createResult.eventId;
-        htmlLink = createResult.htmlLink;
-        
-        // Store event mapping in task_google_events table
-        await pool.query(
-          'INSERT INTO task_google_events (task_id, user_id, event_id) VALUES ($1, $2, $3) ON CONFLICT (task_id, user_id) DO UPDATE SET event_id = $3, updated_at = now()',
-          [taskId, userId, eventId]
-        );
+      // If forceCreate=1, drop the existing event and mapping so a fresh event is created
+      if (forceCreate === '1') {
+        console.log(`[DEBUG] forceCreate=1 - clearing existing mapping for task ${taskId}`);
+        await CalendarService.removeTaskEvent(taskId, userId);
       }
 
-      console.log(`[CAL] upsert ok task=${taskId} user=${userId} cal=primary event=${eventId} startLocal=${startLocal.toISO({ includeOffset: false })} tz=${calendarTz}`);
+      const result = await CalendarService.syncTask(taskId, userId);
+      if (!result.ok) {
+        return res.status(400).json({ error: 'Task upsert failed', details: result.error, taskId });
+      }
 
-      res.json({ 
-        ok: true, 
-        taskId, 
+      const mapping = await CalendarService.getTaskMapping(taskId, userId);
+      const response = {
+        ok: true,
+        op: result.isUpdate ? 'update' : 'create',
+        taskId,
         assigneeUserId: userId,
-        calendarId: 'primary',
-        eventId,
-        htmlLink: htmlLink || ''
-      });
+        calendarId: mapping?.calendar_id,
+        eventId: result.eventId,
+        htmlLink: result.htmlLink || ''
+      };
+
+      if (verbose === '1') {
+        console.log(`[DEBUG] Enhanced result:`, response);
+      }
+
+      res.json(response);
     } catch (error: any) {
       console.error('Task upsert failed:', error);
       res.status(500).json({ 
@@ -932,11 +690,9 @@ export function registerDebugRoutes(app: Express) {
 
       // Get tasks for sync - either assigned directly OR via team member assignment
       const tasksQuery = `
-        SELECT DISTINCT tasks.*, 
-               tm.id as team_member_id
+        SELECT DISTINCT tasks.id, tasks.due_at
         FROM tasks 
         LEFT JOIN task_assignments ta ON ta.task_id = tasks.id
-        LEFT JOIN team_members tm ON tm.id = ta.team_member_id
         WHERE (
           tasks.assigned_to = $1
           OR ta.team_member_id = $2
@@ -957,61 +713,16 @@ export function registerDebugRoutes(app: Express) {
       let updated = 0;
       let skipped = 0;
 
-      // Get Google Calendar service
-      const { googleCalendarService } = await import('./googleCalendar');
-      const calendarService = googleCalendarService;
-
       for (const task of tasks) {
         scanned++;
-        
-        try {
-          if (!task.due_at) {
-            skipped++;
-            continue;
-          }
-
-          const startTime = new Date(task.due_at);
-          const endTime = new Date(startTime.getTime() + 60 * 60 * 1000);
-          
-          if (task.google_calendar_event_id) {
-            // Update existing
-            const updateResult = await calendarService.updateTaskEvent(task.team_member_id || user.id, task.google_calendar_event_id, {
-              title: task.title,
-              description: task.description || undefined,
-              dueDate: startTime,
-              status: task.status || 'pending',
-              priority: task.priority || 'medium'
-            });
-            if (updateResult) {
-              updated++;
-              console.log(`Updated calendar event ${task.google_calendar_event_id} for task ${task.id}`);
-            } else {
-              skipped++;
-              console.log(`Failed to update calendar event ${task.google_calendar_event_id} for task ${task.id}`);
-            }
-          } else {
-            // Create new
-            const eventId = await calendarService.createTaskEvent(task.team_member_id || user.id, {
-              title: task.title,
-              description: task.description || undefined,
-              dueDate: startTime,
-              status: task.status || 'pending',
-              priority: task.priority || 'medium'
-            });
-            
-            if (eventId) {
-              // Save event ID back to task
-              await pool.query('UPDATE tasks SET google_calendar_event_id = $1 WHERE id = $2', [eventId, task.id]);
-              created++;
-              console.log(`Created calendar event ${eventId} for task ${task.id}`);
-            } else {
-              skipped++;
-              console.log(`Failed to create calendar event for task ${task.id}`);
-            }
-          }
-        } catch (taskError: any) {
-          console.error(`Failed to sync task ${task.id}:`, taskError);
+        const result = await CalendarService.syncTask(task.id, user.id);
+        if (!result.ok) {
+          console.log(`Skipped task ${task.id}: ${result.error}`);
           skipped++;
+        } else if (result.isUpdate) {
+          updated++;
+        } else {
+          created++;
         }
       }
 
@@ -1084,11 +795,19 @@ export function registerDebugRoutes(app: Express) {
   app.get('/debug/task/:taskId/calendar', async (req: any, res) => {
     try {
       const { taskId } = req.params;
-      const userEmail = req.query.as;
       
-      const debugInfo = await getTaskCalendarDebugInfo(taskId, userEmail);
+      const task = await storage.getTask(taskId);
+      if (!task) {
+        return res.status(404).json({ message: 'Task not found' });
+      }
+      
+      const mappings = await CalendarService.getTaskMappings(taskId);
+      const calendars = await Promise.all(mappings.map(async mapping => ({
+        mapping,
+        payload: CalendarService.buildEventPayload(task, await CalendarService.getOwnerTimezone(mapping.user_id)),
+      })));
       
-      res.json(debugInfo);
+      res.json({ task, calendars, syncEnabled: CalendarService.isSyncEnabled() });
     } catch (error) {
       console.error('Error in debug/task/calendar:', error);
       res.status(500).json({ message: 'Failed to get task calendar debug info', error: error.message });
@@ -1225,12 +944,8 @@ export function registerDebugRoutes(app: Express) {
           assignedBy: user.id,
         });
         
-        // Sync calendar events
-        try {
-          await syncAllCalendarEventsForTask(task.id);
-        } catch (calendarError) {
-          console.error('Calendar sync error:', calendarError);
-        }
+        // Queue calendar sync for the new assignee
+        await onTaskCreatedOrUpdated(task.id);
       }
       
       res.json({
@@ -1248,20 +963,20 @@ export function registerDebugRoutes(app: Express) {
   
   // Debug: sync controls
   app.post('/debug/sync/disable', (req: any, res) => {
-    CALENDAR_SYNC_ENABLED = false;
+    CalendarService.setSyncEnabled(false);
     console.log('🛑 Calendar sync DISABLED');
     res.json({ message: 'Calendar sync disabled', enabled: false });
   });
   
   app.post('/debug/sync/enable', (req: any, res) => {
-    CALENDAR_SYNC_ENABLED = true;
+    CalendarService.setSyncEnabled(true);
     console.log('✅ Calendar sync ENABLED');
     res.json({ message: 'Calendar sync enabled', enabled: true });
   });
   
   app.get('/debug/sync/status', (req: any, res) => {
     res.json({ 
-      enabled: CALENDAR_SYNC_ENABLED,
+      enabled: CalendarService.isSyncEnabled(),
       envVar: process.env.CALENDAR_SYNC_ENABLED
     });
   });
@@ -1270,13 +985,14 @@ export function registerDebugRoutes(app: Express) {
   app.post('/debug/task/:taskId/sync', async (req: any, res) => {
     try {
       const { taskId } = req.params;
-      const syncedCount = await syncAllCalendarEventsForTask(taskId);
+      await onTaskCreatedOrUpdated(taskId);
+      const mappings = await CalendarService.getTaskMappings(taskId);
       
       res.json({
-        message: `Synced ${syncedCount} calendar events for task ${taskId}`,
+        message: `Queued calendar sync for task ${taskId}`,
         taskId,
-        syncedCount,
-        syncEnabled: CALENDAR_SYNC_ENABLED
+        mappedCount: mappings.length,
+        syncEnabled: CalendarService.isSyncEnabled()
       });
     } catch (error) {
       console.error('Error syncing task calendar events:', error);
@@ -1287,7 +1003,7 @@ export function registerDebugRoutes(app: Express) {
   // Debug: emergency kill switch for runaway tasks
   app.post('/debug/emergency/kill-sync', async (req: any, res) => {
     try {
-      CALENDAR_SYNC_ENABLED = false;
+      CalendarService.setSyncEnabled(false);
       console.log('🚨 EMERGENCY: Calendar sync KILLED');
       
       res.json({ 
@@ -1382,11 +1098,15 @@ export function registerDebugRoutes(app: Express) {
     try {
       const { user } = await resolveUserAndTokens(impersonateEmail as string);
       
-      // Force sync calendar events for this task
-      await syncAllCalendarEventsForTask(taskId as string);
+      const result = await CalendarService.syncTask(taskId as string, user.id);
+      if (!result.ok) {
+        return res.status(400).json({ error: result.error, taskId, success: false });
+      }
       
       res.json({
         message: `Forced calendar sync for task ${taskId}`,
+        eventId: result.eventId,
+        htmlLink: result.htmlLink,
         taskId,
         userEmail: user.email,
         success: true
@@ -1493,17 +1213,15 @@ export function registerDebugRoutes(app: Express) {
         LIMIT 20
       `, [user.email]);
       
-      const { syncAllCalendarEventsForTask } = await import('./calendarEvents');
       let syncedCount = 0;
       const errors: string[] = [];
       
       for (const taskRow of rows.rows) {
-        try {
-          await syncAllCalendarEventsForTask(taskRow.id);
+        const result = await CalendarService.syncTask(taskRow.id, user.id);
+        if (result.ok) {
           syncedCount++;
-        } catch (err) {
-          errors.push(`Task ${taskRow.id}: ${err.message}`);
-          console.error(`Sync error for task ${taskRow.id}:`, err);
+        } else {
+          errors.push(`Task ${taskRow.id}: ${result.error}`);
         }
       }
       
@@ -1520,107 +1238,6 @@ export function registerDebugRoutes(app: Express) {
     }
   });
 
-  // Simple test route for debugging calendar upsert
-  app.get('/debug/test-upsert', async (req, res) => {
-    const taskId = req.query.taskId as string;
-    
-    try {
-      console.log(`[SIMPLE] Testing upsert for task ${taskId}`);
-      
-      // 1. Load task
-      const taskResult = await pool.query('SELECT * FROM tasks WHERE id = $1', [taskId]);
-      if (taskResult.rows.length === 0) {
-        return res.status(404).json({ error: 'Task not found' });
-      }
-      const task = taskResult.rows[0];
-      
-      // 2. Load task assignment
-      const assignmentResult = await pool.query('SELECT team_member_id FROM task_assignments WHERE task_id = $1', [taskId]);
-      if (assignmentResult.rows.length === 0) {
-        return res.status(400).json({ error: 'Task has no assignment' });
-      }
-      const teamMemberId = assignmentResult.rows[0].team_member_id;
-      
-      // 3. Load team member
-      const teamMemberResult = await pool.query('SELECT * FROM team_members WHERE id = $1', [teamMemberId]);
-      if (teamMemberResult.rows.length === 0) {
-        return res.status(400).json({ error: 'Team member not found' });
-      }
-      const teamMember = teamMemberResult.rows[0];
-      
-      // 4. Load user by email match
-      const userResult = await pool.query('SELECT * FROM users WHERE email = $1', [teamMember.email]);
-      if (userResult.rows.length === 0) {
-        return res.status(400).json({ error: 'User not found for team member email', teamMemberEmail: teamMember.email });
-      }
-      const user = userResult.rows[0];
-      
-      // 5. Load OAuth tokens
-      const tokenResult = await pool.query('SELECT * FROM oauth_tokens WHERE user_id = $1', [user.id]);
-      if (tokenResult.rows.length === 0) {
-        return res.status(400).json({ error: 'No OAuth tokens for user', userId: user.id });
-      }
-      
-      // 6. Check for existing event mapping
-      const eventResult = await pool.query('SELECT event_id FROM task_google_events WHERE task_id = $1 AND user_id = $2', [taskId, user.id]);
-      
-      // 7. Convert timezone properly - handle various date formats
-      let dueAtUtc: DateTime;
-      if (typeof task.due_at === 'string') {
-        dueAtUtc = DateTime.fromISO(task.due_at, { zone: 'utc' });
-      } else {
-        dueAtUtc = DateTime.fromJSDate(new Date(task.due_at), { zone: 'utc' });
-      }
-      const startLocal = dueAtUtc.setZone('America/Vancouver');
-      
-      console.log(`[SIMPLE] due_at type: ${typeof task.due_at}, value: ${task.due_at}`);
-      console.log(`[SIMPLE] dueAtUtc valid: ${dueAtUtc.isValid}, startLocal valid: ${startLocal.isValid}`);
-      console.log(`[SIMPLE] Timezone conversion: ${task.due_at} UTC -> ${startLocal.toISO()} Vancouver`);
-      
-      // 8. Test Google Calendar creation
-      const { googleCalendarService } = await import('./googleCalendar');
-      
-      let eventId: string | null = null;
-      if (eventResult.rows.length > 0) {
-        eventId = eventResult.rows[0].event_id;
-        console.log(`[SIMPLE] Found existing event: ${eventId}`);
-      } else {
-        console.log(`[SIMPLE] Creating new calendar event...`);
-        eventId = await googleCalendarService.createTaskEvent(user.id, {
-          title: task.title,
-          description: task.description || '',
-          dueDate: new Date(startLocal.toISO()),
-          status: task.status || 'pending',
-          priority: task.priority || 'medium'
-        });
-        
-        if (eventId) {
-          // Store the mapping
-          await pool.query(
-            'INSERT INTO task_google_events (task_id, user_id, event_id) VALUES ($1, $2, $3)',
-            [taskId, user.id, eventId]
-          );
-          console.log(`[SIMPLE] Created event ${eventId} and stored mapping`);
-        }
-      }
-      
-      res.json({
-        ok: true,
-        task: { id: task.id, title: task.title, due_at: task.due_at },
-        teamMember: { id: teamMember.id, email: teamMember.email },
-        user: { id: user.id, email: user.email },
-        startLocal: startLocal.isValid ? startLocal.toISO() : 'INVALID_DATETIME',
-        hasTokens: true,
-        eventId,
-        action: eventResult.rows.length > 0 ? 'found_existing' : 'created_new'
-      });
-      
-    } catch (error: any) {
-      console.error('[SIMPLE] Test failed:', error);
-      res.status(500).json({ error: error.message });
-    }
-  });
-
   // Debug route: Get raw Google event JSON (fixed)
   app.get('/debug/sync/get-event', async (req, res) => {
     try {
@@ -1648,9 +1265,7 @@ export function registerDebugRoutes(app: Express) {
       
       const { userId } = resolution;
       
-      // Get Google Calendar service
-      const { googleCalendarService } = await import('./googleCalendar');
-      const event = await googleCalendarService.getEvent(userId, eventId, 'primary');
+      const event = await CalendarService.getEvent(userId!, eventId, 'primary');
       
       if (!event) {
         return res.json({
@@ -1669,9 +1284,7 @@ export function registerDebugRoutes(app: Express) {
           start: event.start,
           end: event.end,
           htmlLink: event.htmlLink,
-          status: event.status,
-          created: event.created,
-          updated: event.updated
+          status: event.status
         },
         eventId: event.id,
         calendarId: 'primary'
@@ -1697,7 +1310,7 @@ export function registerDebugRoutes(app: Express) {
       
       // Get task basic info
       const taskResult = await pool.query(`
-        SELECT id, title, google_event_id, google_calendar_event_id, due_at, due_date, due_time
+        SELECT id, title, due_at, due_date, due_time
         FROM tasks 
         WHERE id = $1
       `, [taskId]);
@@ -1706,18 +1319,13 @@ export function registerDebugRoutes(app: Express) {
         return res.status(404).json({ error: `Task ${taskId} not found` });
       }
       
-      // Get mapping table entries
-      const mappingResult = await pool.query(`
-        SELECT task_id, user_id, event_id, created_at, updated_at
-        FROM task_google_events 
-        WHERE task_id = $1
-      `, [taskId]);
+      const mappings = await CalendarService.getTaskMappings(taskId);
       
       res.json({
         taskId,
         task: taskResult.rows[0],
-        mappings: mappingResult.rows,
-        mappingCount: mappingResult.rows.length
+        mappings,
+        mappingCount: mappings.length
       });
       
     } catch (error) {
@@ -1752,18 +1360,12 @@ export function registerDebugRoutes(app: Express) {
       }
       
       const { userId } = resolution;
-      const { googleCalendarService } = await import('./googleCalendar');
-      
-      const calendars = await googleCalendarService.listCalendars(userId);
+      const calendars = await googleCalendarProvider.listCalendars(userId!);
       
       res.json({
         userEmail: impersonateAs,
         userId,
-        calendars: calendars.map(cal => ({
-          id: cal.id,
-          summary: cal.summary,
-          primary: cal.primary || false
-        }))
+        calendars
       });
     } catch (error: any) {
       console.error('Calendar list failed:', error);
@@ -1796,9 +1398,7 @@ export function registerDebugRoutes(app: Express) {
       }
       
       const { userId } = resolution;
-      const { googleCalendarService } = await import('./googleCalendar');
-      
-      const event = await googleCalendarService.getEvent(userId, eventId as string, calendarId);
+      const event = await CalendarService.getEvent(userId!, eventId as string, calendarId);
       
       if (!event) {
         return res.json({
@@ -1837,7 +1437,7 @@ export function registerDebugRoutes(app: Express) {
     
     try {
       const result = await pool.query(
-        'SELECT task_id, user_id, event_id, created_at, updated_at FROM task_google_events WHERE task_id = $1',
+        'SELECT task_id, user_id, provider, calendar_id, event_id, created_at, updated_at FROM task_event_mappings WHERE task_id = $1',
         [taskId]
       );
       
@@ -1864,9 +1464,8 @@ export function registerDebugRoutes(app: Express) {
       }
       
       // Get task basic info
-      const { pool } = await import('../db');
       const taskResult = await pool.query(`
-        SELECT id, title, status, due_at, due_date, due_time, google_calendar_event_id
+        SELECT id, title, status, due_at, due_date, due_time
         FROM tasks 
         WHERE id = $1
       `, [taskId]);
@@ -1887,25 +1486,24 @@ export function registerDebugRoutes(app: Express) {
       
       // Get mapping table entries
       const mappingResult = await pool.query(`
-        SELECT tge.task_id, tge.user_id, tge.event_id, tge.created_at, tge.updated_at,
+        SELECT tem.task_id, tem.user_id, tem.provider, tem.calendar_id, tem.event_id, tem.created_at, tem.updated_at,
                u.email as user_email
-        FROM task_google_events tge
-        LEFT JOIN users u ON tge.user_id = u.id
-        WHERE tge.task_id = $1
+        FROM task_event_mappings tem
+        LEFT JOIN users u ON tem.user_id = u.id
+        WHERE tem.task_id = $1
       `, [taskId]);
       
       // Get event details if impersonation provided and event exists
       let eventDetails = null;
-      if (impersonateAs && mappingResult.rows.length > 0) {
+      if (impersonateAs) {
         try {
-          const eventId = mappingResult.rows[0].event_id;
           const resolution = await resolveUserAndTokensEnhanced({
             asEmail: impersonateAs
           });
+          const mapping = mappingResult.rows.find(row => row.user_id === resolution.userId);
           
-          if (resolution.ok) {
-            const { googleCalendarService } = await import('./googleCalendar');
-            const event = await googleCalendarService.getEvent(resolution.userId, eventId, 'primary');
+          if (resolution.ok && mapping) {
+            const event = await CalendarService.getEvent(mapping.user_id, mapping.event_id, mapping.calendar_id);
             
             if (event) {
               eventDetails = {
@@ -1931,8 +1529,7 @@ export function registerDebugRoutes(app: Express) {
           status: task.status,
           due_at: task.due_at,
           due_date: task.due_date,
-          due_time: task.due_time,
-          google_calendar_event_id: task.google_calendar_event_id
+          due_time: task.due_time
         },
         assignments: assignmentResult.rows,
         mappings: mappingResult.rows,
@@ -1959,9 +1556,8 @@ export function registerDebugRoutes(app: Express) {
         return res.status(400).json({ error: 'eventId and as (userId) required' });
       }
 
-      const { calendarAutoSync } = await import('./calendarAutoSync');
-      const result = await calendarAutoSync.getEventFromGoogle(eventId as string, userId as string);
-      res.json(result);
+      const event = await CalendarService.getEvent(userId as string, eventId as string);
+      res.json({ found: !!event, event });
     } catch (error) {
       console.error('Debug get-event error:', error);
       res.status(500).json({ 
@@ -1981,9 +1577,12 @@ export function registerDebugRoutes(app: Express) {
         return res.status(400).json({ error: 'taskId and as (userId) required' });
       }
 
-      const { calendarAutoSync } = await import('./calendarAutoSync');
-      const result = await calendarAutoSync.getComputedPayload(taskId as string, userId as string);
-      res.json(result);
+      const task = await storage.getTask(taskId as string);
+      if (!task) {
+        return res.status(404).json({ error: 'Task not found' });
+      }
+      const timezone = await CalendarService.getOwnerTimezone(userId as string);
+      res.json({ timezone, payload: CalendarService.buildEventPayload(task, timezone) });
     } catch (error) {
       console.error('Debug get-payload error:', error);
       res.status(500).json({ 
@@ -2003,27 +1602,19 @@ export function registerDebugRoutes(app: Express) {
         return res.status(400).json({ error: 'taskId and as (userId) required' });
       }
 
-      const { calendarAutoSync } = await import('./calendarAutoSync');
-      
       if (forceCreate === '1') {
-        // Force create new event by clearing existing mapping
-        const mappingDeleted = await pool.query(
-          'DELETE FROM task_event_mappings WHERE task_id = $1 AND user_id = $2',
-          [taskId, userId]
-        );
+        // Force create new event by removing the existing one and its mapping
+        const { deleted } = await CalendarService.removeTaskEvent(taskId as string, userId as string);
         if (verbose === '1') {
-          console.log('Force create: deleted', mappingDeleted.rowCount, 'existing mappings');
+          console.log('Force create: removed existing event', deleted);
         }
       }
       
-      const result = await calendarAutoSync.upsertTaskEvent(taskId as string, userId as string);
+      const result = await CalendarService.syncTask(taskId as string, userId as string);
       
       if (verbose === '1') {
-        const mapping = await pool.query(
-          'SELECT * FROM task_event_mappings WHERE task_id = $1 AND user_id = $2',
-          [taskId, userId]
-        );
-        result.mapping = mapping.rows[0] || null;
+        const mapping = await CalendarService.getTaskMapping(taskId as string, userId as string);
+        return res.json({ ...result, mapping });
       }
       
       res.json(result);
@@ -1,4 +1,5 @@
 import sgMail from '@sendgrid/mail';
+import { formatInTimezone } from '@shared/timezone';
 
 interface EmailNotificationData {
   to: string;
@@ -22,6 +23,11 @@ class EmailService {
     this.initializeSendGrid();
   }
 
+  // False when SENDGRID_API_KEY is missing; sends are skipped rather than failed
+  get isEnabled(): boolean {
+    return this.initialized;
+  }
+
   private initializeSendGrid() {
     const apiKey = process.env.SENDGRID_API_KEY;
     if (apiKey) {
@@ -180,9 +186,12 @@ class EmailService {
       priority?: string;
       assignedBy?: string;
       dueDate?: string;
+      dueAt?: Date | string | null; // Preferred over dueDate: rendered in the recipient's timezone
+      timezone?: string | null;
       notes?: string;
     } = {}
   ): Promise<boolean> {
+    const { dueAt, timezone, ...details } = options;
     return this.sendNotification({
       to: teamMemberEmail,
       subject: `New Task Assigned: ${taskTitle}`,
@@ -191,7 +200,8 @@ class EmailService {
         teamMemberName,
         taskTitle,
         projectName,
-        ...options,
+        ...details,
+        dueDate: dueAt ? formatInTimezone(dueAt, timezone) : details.dueDate,
       },
     });
   }
@@ -303,6 +313,219 @@ class EmailService {
       return false;
     }
   }
+
+  async sendProposalLink(
+    recipientEmail: string,
+    recipientName: string | null,
+    proposalTitle: string,
+    proposalUrl: string,
+    validUntil?: Date | null
+  ): Promise<boolean> {
+    if (!this.initialized) {
+      console.log("SendGrid not configured - would send proposal link to:", recipientEmail);
+      return false;
+    }
+
+    try {
+      const greeting = recipientName ? `Hi ${recipientName},` : 'Hello,';
+      const expiry = validUntil ? `This proposal is valid until ${new Date(validUntil).toLocaleDateString('en-CA', { dateStyle: 'long' })}.` : '';
+
+      const msg = {
+        to: recipientEmail,
+        from: 'noreply@agencypro.app',
+        subject: `Proposal for your review: ${proposalTitle}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #333;">${proposalTitle}</h2>
+            <p>${greeting}</p>
+            <p>Your proposal is ready. You can review each item, approve all or part of it, leave comments and sign online.</p>
+            <div style="margin: 30px 0;">
+              <a href="${proposalUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">Review Proposal</a>
+            </div>
+            ${expiry ? `<p><em>${expiry}</em></p>` : ''}
+            <p>Thank you!</p>
+          </div>
+        `,
+        text: `
+          ${proposalTitle}
+
+          ${greeting}
+
+          Your proposal is ready. You can review each item, approve all or part of it, leave comments and sign online:
+          ${proposalUrl}
+
+          ${expiry}
+
+          Thank you!
+        `
+      };
+
+      await sgMail.send(msg);
+      console.log(`Proposal link sent to ${recipientEmail}`);
+      return true;
+    } catch (error) {
+      console.error("Error sending proposal link:", error);
+      return false;
+    }
+  }
+
+  async sendApprovalRequest(
+    recipientEmail: string,
+    recipientName: string | null,
+    subjectTitle: string,
+    projectName: string | null,
+    message: string | null,
+    dashboardUrl: string
+  ): Promise<boolean> {
+    if (!this.initialized) {
+      console.log("SendGrid not configured - would send approval request to:", recipientEmail);
+      return false;
+    }
+
+    try {
+      const greeting = recipientName ? `Hi ${recipientName},` : 'Hello,';
+      const project = projectName ? ` for ${projectName}` : '';
+
+      const msg = {
+        to: recipientEmail,
+        from: 'noreply@agencypro.app',
+        subject: `Approval needed: ${subjectTitle}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #333;">Approval needed</h2>
+            <p>${greeting}</p>
+            <p>We need your sign-off on <strong>${subjectTitle}</strong>${project}. You can approve it, request changes or reject it from your dashboard.</p>
+            ${message ? `<div style="background: #f8fafc; padding: 20px; border-radius: 8px; margin: 20px 0;"><p style="margin: 0;">${message}</p></div>` : ''}
+            <div style="margin: 30px 0;">
+              <a href="${dashboardUrl}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">Review &amp; Decide</a>
+            </div>
+            <p>Thank you!</p>
+          </div>
+        `,
+        text: `
+          Approval needed
+
+          ${greeting}
+
+          We need your sign-off on ${subjectTitle}${project}. You can approve it, request changes or reject it from your dashboard:
+          ${dashboardUrl}
+
+          ${message || ''}
+
+          Thank you!
+        `
+      };
+
+      await sgMail.send(msg);
+      console.log(`Approval request sent to ${recipientEmail}`);
+      return true;
+    } catch (error) {
+      console.error("Error sending approval request:", error);
+      return false;
+    }
+  }
+
+  async sendMessageMention(
+    recipientEmail: string,
+    recipientName: string | null,
+    senderName: string,
+    projectName: string,
+    excerpt: string
+  ): Promise<boolean> {
+    if (!this.initialized) {
+      console.log("SendGrid not configured - would send mention notification to:", recipientEmail);
+      return false;
+    }
+
+    try {
+      const greeting = recipientName ? `Hi ${recipientName},` : 'Hello,';
+
+      const msg = {
+        to: recipientEmail,
+        from: 'noreply@agencypro.app',
+        subject: `${senderName} mentioned you in ${projectName}`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #333;">You were mentioned</h2>
+            <p>${greeting}</p>
+            <p><strong>${senderName}</strong> mentioned you in the <strong>${projectName}</strong> conversation:</p>
+            <div style="background: #f8fafc; padding: 20px; border-radius: 8px; margin: 20px 0;"><p style="margin: 0;">${excerpt}</p></div>
+            <p>Thank you!</p>
+          </div>
+        `,
+        text: `
+          You were mentioned
+
+          ${greeting}
+
+          ${senderName} mentioned you in the ${projectName} conversation:
+
+          ${excerpt}
+
+          Thank you!
+        `
+      };
+
+      await sgMail.send(msg);
+      console.log(`Mention notification sent to ${recipientEmail}`);
+      return true;
+    } catch (error) {
+      console.error("Error sending mention notification:", error);
+      return false;
+    }
+  }
+
+  async sendContactInvitation(
+    recipientEmail: string,
+    organizationName: string,
+    inviterName: string,
+    invitationLink: string
+  ): Promise<boolean> {
+    if (!this.initialized) {
+      console.log("SendGrid not configured - would send contact invitation to:", recipientEmail);
+      return false;
+    }
+
+    try {
+      const msg = {
+        to: recipientEmail,
+        from: 'noreply@agencypro.app',
+        subject: `${inviterName} invited you to follow ${organizationName}'s projects`,
+        html: `
+          <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+            <h2 style="color: #333;">You're invited</h2>
+            <p>Hello,</p>
+            <p><strong>${inviterName}</strong> has invited you to see <strong>${organizationName}</strong>'s projects, files and updates.</p>
+            <div style="text-align: center; margin: 30px 0;">
+              <a href="${invitationLink}" style="background-color: #007bff; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px;">Accept Invitation</a>
+            </div>
+            <p>This invitation expires in 7 days.</p>
+            <p>Thank you!</p>
+          </div>
+        `,
+        text: `
+          You're invited
+
+          Hello,
+
+          ${inviterName} has invited you to see ${organizationName}'s projects, files and updates.
+
+          Accept the invitation: ${invitationLink}
+
+          This invitation expires in 7 days.
+
+          Thank you!
+        `
+      };
+
+      await sgMail.send(msg);
+      console.log(`Contact invitation sent to ${recipientEmail}`);
+      return true;
+    } catch (error) {
+      console.error("Error sending contact invitation:", error);
+      return false;
+    }
+  }
 }
 
 export const emailService = new EmailService();
\ No newline at end of file
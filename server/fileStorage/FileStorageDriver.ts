@@ -0,0 +1,68 @@
+// Contract between FileStorageService and where file bytes live (local disk, S3-compatible buckets).
+// Drivers only move bytes; which driver a file is in and its checksum are recorded on project_files.
+
+export interface SignedUrlOptions {
+  expiresInSeconds: number;
+  fileName?: string;
+  contentType?: string | null;
+  disposition?: 'inline' | 'attachment';
+}
+
+export interface FileStorageDriver {
+  // Stored in project_files.storage_driver
+  readonly id: string;
+  // Whether the server has what it needs (e.g. bucket credentials) to use this driver
+  isConfigured(): boolean;
+  put(key: string, body: Buffer, contentType?: string | null): Promise<void>;
+  // Missing objects resolve to null instead of throwing
+  get(key: string): Promise<Buffer | null>;
+  exists(key: string): Promise<boolean>;
+  // Deleting an object that is already gone is not an error
+  delete(key: string): Promise<void>;
+  // A URL anyone can fetch until it expires, so downloads don't stream through the app
+  signedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
+
+const drivers = new Map<string, FileStorageDriver>();
+
+export function registerFileStorageDriver(driver: FileStorageDriver): void {
+  drivers.set(driver.id, driver);
+}
+
+export function getFileStorageDriver(id: string): FileStorageDriver | undefined {
+  return drivers.get(id);
+}
+
+export function getFileStorageDrivers(): FileStorageDriver[] {
+  return Array.from(drivers.values());
+}
+
+export const contentDisposition = (disposition: 'inline' | 'attachment', fileName?: string) =>
+  fileName
+    ? `${disposition}; filename="${fileName.replace(/["\\\r\n]/g, '_')}"; filename*=UTF-8''${encodeURIComponent(fileName)}`
+    : disposition;
+
+// Types a browser renders inline without running anything the uploader wrote; never SVG or HTML
+const INLINE_CONTENT_TYPES = new Set([
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'image/avif',
+  'image/bmp',
+  'application/pdf',
+]);
+
+// The uploader declares a file's type, so only allow-listed types keep it; everything else downloads as opaque bytes
+export function fileDelivery(contentType: string | null | undefined, disposition: 'inline' | 'attachment') {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  return INLINE_CONTENT_TYPES.has(type)
+    ? { contentType: type, disposition }
+    : { contentType: 'application/octet-stream', disposition: 'attachment' as const };
+}
+
+// Sent with uploaded bytes served from the app's origin, so nothing in them can be sniffed into a page or run
+export const FILE_RESPONSE_HEADERS = {
+  'X-Content-Type-Options': 'nosniff',
+  'Content-Security-Policy': 'sandbox',
+};
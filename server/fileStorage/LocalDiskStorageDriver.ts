@@ -0,0 +1,92 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { fileDelivery, registerFileStorageDriver, type FileStorageDriver, type SignedUrlOptions } from './FileStorageDriver';
+
+const rootDir = () => path.resolve(process.env.FILE_STORAGE_LOCAL_DIR || path.join(process.cwd(), 'uploads', 'storage'));
+
+const signingSecret = () => process.env.FILE_STORAGE_SIGNING_SECRET || process.env.SESSION_SECRET || '';
+
+export interface LocalSignedParams {
+  expires: string;
+  disposition: string;
+  name: string;
+  type: string;
+  signature: string;
+}
+
+const sign = (key: string, params: Omit<LocalSignedParams, 'signature'>) =>
+  createHmac('sha256', signingSecret())
+    .update([key, params.expires, params.disposition, params.name, params.type].join('\n'))
+    .digest('hex');
+
+// Signed URLs for local files are served by the app itself at /files/local/:key
+export function verifyLocalSignedUrl(key: string, params: Partial<LocalSignedParams>): boolean {
+  if (!params.expires || !params.signature || Number(params.expires) * 1000 < Date.now()) return false;
+  const expected = Buffer.from(sign(key, {
+    expires: params.expires,
+    disposition: params.disposition || '',
+    name: params.name || '',
+    type: params.type || '',
+  }));
+  const given = Buffer.from(params.signature);
+  return expected.length === given.length && timingSafeEqual(expected, given);
+}
+
+// Single-instance default: files under FILE_STORAGE_LOCAL_DIR, lost on redeploy unless that is a persistent volume
+class LocalDiskStorageDriver implements FileStorageDriver {
+  readonly id = 'local';
+
+  isConfigured(): boolean {
+    return !!signingSecret();
+  }
+
+  // Keys never escape the storage root, whatever they contain
+  resolve(key: string): string {
+    const root = rootDir();
+    const fullPath = path.resolve(root, key);
+    if (!fullPath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return fullPath;
+  }
+
+  async put(key: string, body: Buffer): Promise<void> {
+    const fullPath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(fullPath), { recursive: true });
+    await fs.promises.writeFile(fullPath, body);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fs.existsSync(this.resolve(key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  // These URLs are served from the app's own origin, so the type is narrowed here as well as when served
+  async signedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const { contentType, disposition } = fileDelivery(options.contentType, options.disposition || 'attachment');
+    const params = {
+      expires: String(Math.floor(Date.now() / 1000) + options.expiresInSeconds),
+      disposition,
+      name: options.fileName || '',
+      type: contentType,
+    };
+    const query = new URLSearchParams({ ...params, signature: sign(key, params) });
+    return `/files/local/${encodeURIComponent(key)}?${query}`;
+  }
+}
+
+export const localDiskStorageDriver = new LocalDiskStorageDriver();
+registerFileStorageDriver(localDiskStorageDriver);
@@ -0,0 +1,179 @@
+import { createHash, createHmac } from 'crypto';
+import { contentDisposition, registerFileStorageDriver, type FileStorageDriver, type SignedUrlOptions } from './FileStorageDriver';
+
+class S3Error extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+  }
+}
+
+const EMPTY_PAYLOAD_HASH = createHash('sha256').update('').digest('hex');
+// SigV4 presigned URLs can't live longer than a week
+const MAX_EXPIRES_SECONDS = 7 * 24 * 60 * 60;
+
+const sha256 = (data: string | Buffer) => createHash('sha256').update(data).digest('hex');
+const hmac = (key: string | Buffer, data: string) => createHmac('sha256', key).update(data).digest();
+
+// S3 wants RFC 3986 encoding, which is stricter than encodeURIComponent
+const encodeRfc3986 = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const encodeKey = (key: string) => key.split('/').map(encodeRfc3986).join('/');
+
+const amzDateOf = (now: Date) => now.toISOString().replace(/[:-]|\.\d{3}/g, '');
+
+interface S3Config {
+  endpoint: string;
+  region: string;
+  bucket: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  pathStyle: boolean;
+}
+
+// Any S3-compatible store (AWS S3, MinIO, R2, Spaces), spoken to directly with Signature Version 4
+class S3StorageDriver implements FileStorageDriver {
+  readonly id = 's3';
+
+  private config(): S3Config {
+    const region = process.env.S3_REGION || 'us-east-1';
+    return {
+      endpoint: (process.env.S3_ENDPOINT || `https://s3.${region}.amazonaws.com`).replace(/\/+$/, ''),
+      region,
+      bucket: process.env.S3_BUCKET || '',
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || '',
+      // MinIO and most self-hosted stores only understand bucket-in-path URLs
+      pathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+    };
+  }
+
+  isConfigured(): boolean {
+    const { bucket, accessKeyId, secretAccessKey } = this.config();
+    return !!(bucket && accessKeyId && secretAccessKey);
+  }
+
+  private objectUrl(config: S3Config, key: string): URL {
+    const endpoint = new URL(config.endpoint);
+    return config.pathStyle
+      ? new URL(`${endpoint.origin}/${config.bucket}/${encodeKey(key)}`)
+      : new URL(`${endpoint.protocol}//${config.bucket}.${endpoint.host}/${encodeKey(key)}`);
+  }
+
+  private credentialScope(config: S3Config, amzDate: string) {
+    return `${amzDate.slice(0, 8)}/${config.region}/s3/aws4_request`;
+  }
+
+  private signature(config: S3Config, method: string, url: URL, headers: Record<string, string>, payloadHash: string, amzDate: string): string {
+    const canonicalQuery = Array.from(url.searchParams.entries())
+      .map(([name, value]) => [encodeRfc3986(name), encodeRfc3986(value)])
+      .sort(([a, aValue], [b, bValue]) => (a === b ? (aValue < bValue ? -1 : 1) : a < b ? -1 : 1))
+      .map(([name, value]) => `${name}=${value}`)
+      .join('&');
+    const names = Object.keys(headers).sort();
+    const canonicalRequest = [
+      method,
+      url.pathname,
+      canonicalQuery,
+      names.map(name => `${name}:${headers[name].trim()}\n`).join(''),
+      names.join(';'),
+      payloadHash,
+    ].join('\n');
+
+    const scope = this.credentialScope(config, amzDate);
+    const stringToSign = ['AWS4-HMAC-SHA256', amzDate, scope, sha256(canonicalRequest)].join('\n');
+    const signingKey = ['s3', 'aws4_request'].reduce(
+      (key, part) => hmac(key, part),
+      hmac(hmac(`AWS4${config.secretAccessKey}`, amzDate.slice(0, 8)), config.region)
+    );
+    return createHmac('sha256', signingKey).update(stringToSign).digest('hex');
+  }
+
+  private async request(method: string, key: string, body?: Buffer, contentType?: string | null): Promise<Response> {
+    const config = this.config();
+    const url = this.objectUrl(config, key);
+    const amzDate = amzDateOf(new Date());
+    const payloadHash = body ? sha256(body) : EMPTY_PAYLOAD_HASH;
+    const headers: Record<string, string> = {
+      host: url.host,
+      'x-amz-content-sha256': payloadHash,
+      'x-amz-date': amzDate,
+      ...(contentType ? { 'content-type': contentType } : {}),
+    };
+    const signature = this.signature(config, method, url, headers, payloadHash, amzDate);
+    const { host, ...sentHeaders } = headers;
+
+    return fetch(url, {
+      method,
+      headers: {
+        ...sentHeaders,
+        Authorization: `AWS4-HMAC-SHA256 Credential=${config.accessKeyId}/${this.credentialScope(config, amzDate)}, SignedHeaders=${Object.keys(headers).sort().join(';')}, Signature=${signature}`,
+      },
+      body,
+    });
+  }
+
+  async put(key: string, body: Buffer, contentType?: string | null): Promise<void> {
+    const response = await this.request('PUT', key, body, contentType || 'application/octet-stream');
+    if (!response.ok) {
+      throw new S3Error(`S3 PUT ${key} failed with ${response.status}: ${await response.text()}`, response.status);
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const response = await this.request('GET', key);
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new S3Error(`S3 GET ${key} failed with ${response.status}`, response.status);
+    }
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const response = await this.request('HEAD', key);
+    if (response.status === 404) return false;
+    if (!response.ok) {
+      throw new S3Error(`S3 HEAD ${key} failed with ${response.status}`, response.status);
+    }
+    return true;
+  }
+
+  async delete(key: string): Promise<void> {
+    const response = await this.request('DELETE', key);
+    if (!response.ok && response.status !== 404) {
+      throw new S3Error(`S3 DELETE ${key} failed with ${response.status}`, response.status);
+    }
+  }
+
+  async signedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    return this.presign(key, options, new Date());
+  }
+
+  presign(key: string, options: SignedUrlOptions, now: Date): string {
+    const config = this.config();
+    const url = this.objectUrl(config, key);
+    const amzDate = amzDateOf(now);
+
+    url.searchParams.set('X-Amz-Algorithm', 'AWS4-HMAC-SHA256');
+    url.searchParams.set('X-Amz-Credential', `${config.accessKeyId}/${this.credentialScope(config, amzDate)}`);
+    url.searchParams.set('X-Amz-Date', amzDate);
+    url.searchParams.set('X-Amz-Expires', String(Math.min(options.expiresInSeconds, MAX_EXPIRES_SECONDS)));
+    url.searchParams.set('X-Amz-SignedHeaders', 'host');
+    // The bucket serves the file under its original name rather than the storage key
+    if (options.disposition || options.fileName) {
+      url.searchParams.set('response-content-disposition', contentDisposition(options.disposition || 'attachment', options.fileName));
+    }
+    if (options.contentType) {
+      url.searchParams.set('response-content-type', options.contentType);
+    }
+
+    const signature = this.signature(config, 'GET', url, { host: url.host }, 'UNSIGNED-PAYLOAD', amzDate);
+    const query = Array.from(url.searchParams.entries())
+      .map(([name, value]) => `${encodeRfc3986(name)}=${encodeRfc3986(value)}`)
+      .join('&');
+    return `${url.origin}${url.pathname}?${query}&X-Amz-Signature=${signature}`;
+  }
+}
+
+export const s3StorageDriver = new S3StorageDriver();
+registerFileStorageDriver(s3StorageDriver);
@@ -0,0 +1,74 @@
+/**
+ * File Storage Migration
+ * Moves project files into another storage backend, verifying each copy by checksum before repointing the row.
+ *
+ *   npm run storage:migrate -- --to s3 [--dry-run] [--delete-source] [--limit 100]
+ *
+ * Safe to re-run: files already in the target backend are skipped, and a failed copy leaves the row untouched.
+ */
+
+import { pool } from '../db';
+import { storage } from '../storage';
+import { FileStorageService } from '../services/FileStorageService';
+import { getFileStorageDriver } from './FileStorageDriver';
+
+const argValue = (name: string) => {
+  const index = process.argv.indexOf(name);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+async function main() {
+  const targetId = argValue('--to') || process.env.FILE_STORAGE_DRIVER || 'local';
+  const dryRun = process.argv.includes('--dry-run');
+  const deleteSource = process.argv.includes('--delete-source');
+  const limit = Number(argValue('--limit')) || null;
+
+  const target = getFileStorageDriver(targetId);
+  if (!target) {
+    throw new Error(`Unknown file storage driver: ${targetId}`);
+  }
+  if (!target.isConfigured()) {
+    throw new Error(`File storage driver "${targetId}" is not configured`);
+  }
+
+  const { rows } = await pool.query(
+    'SELECT id FROM project_files WHERE storage_driver IS DISTINCT FROM $1 ORDER BY created_at LIMIT $2',
+    [targetId, limit]
+  );
+  console.log(`[STORAGE MIGRATE] ${rows.length} file(s) to move into "${targetId}"${dryRun ? ' (dry run)' : ''}`);
+
+  let moved = 0;
+  let failed = 0;
+  for (const { id } of rows) {
+    const file = await storage.getProjectFile(id);
+    if (!file) continue;
+
+    try {
+      const result = await FileStorageService.migrate(file, target, { dryRun, deleteSource });
+      if (result.error) {
+        failed++;
+        console.error(`[STORAGE MIGRATE] FAIL ${file.id} ${file.fileName}: ${result.error}`);
+      } else if (!result.skipped) {
+        moved++;
+        console.log(`[STORAGE MIGRATE] ${dryRun ? 'OK  ' : 'MOVED'} ${file.id} ${file.fileName} (${result.from} -> ${result.to}, sha256 ${result.checksum})`);
+      }
+    } catch (error) {
+      failed++;
+      console.error(`[STORAGE MIGRATE] FAIL ${file.id} ${file.fileName}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  console.log(`[STORAGE MIGRATE] Done: ${moved} ${dryRun ? 'verified' : 'moved'}, ${failed} failed`);
+  return failed;
+}
+
+main()
+  .then(async failed => {
+    await pool.end();
+    process.exit(failed > 0 ? 1 : 0);
+  })
+  .catch(async error => {
+    console.error('[STORAGE MIGRATE] Aborted:', error);
+    await pool.end();
+    process.exit(1);
+  });
@@ -1,27 +1,27 @@
-import { SYNC_ENABLED } from '../debugRoutes';
+import { CalendarService } from '../services/CalendarService';
 import { storage } from '../storage';
+import { queueCalendarDelete, queueCalendarUpsert } from '../jobs/handlers';
+
+// Calendar work is queued as background jobs (retried with backoff) instead of running inside the request.
+// Task and user ids are resolved now, while the assignment still exists.
+
+const assignmentUserId = async (assignment: { teamMember: { email: string } }) => {
+  const user = await storage.getUserByEmail(assignment.teamMember.email);
+  return user?.id ?? null;
+};
 
 export const onTaskCreatedOrUpdated = async (taskId: string) => {
-  if (!SYNC_ENABLED) { 
-    console.log('Calendar sync disabled - onTaskCreatedOrUpdated skipped'); 
-    return; 
+  if (!CalendarService.isSyncEnabled()) {
+    console.log('Calendar sync disabled - onTaskCreatedOrUpdated skipped');
+    return;
   }
   try {
     console.log('Calendar hook', { taskId, action: 'task_created_or_updated' });
-    
-    // Use new auto-sync system for all assignments
+
     const assignments = await storage.getTaskAssignments(taskId);
     for (const assignment of assignments) {
-      try {
-        const teamMember = assignment.teamMember;
-        const user = await storage.getUserByEmail(teamMember.email);
-        if (user?.id) {
-          const { calendarAutoSync } = await import('../calendarAutoSync');
-          await calendarAutoSync.syncTaskIfEligible(taskId, user.id);
-        }
-      } catch (e) {
-        console.error('Error syncing assignment calendar event:', e);
-      }
+      const userId = await assignmentUserId(assignment);
+      if (userId) await queueCalendarUpsert(taskId, userId);
     }
   } catch (error) {
     console.error('Error in onTaskCreatedOrUpdated:', error);
@@ -31,20 +31,11 @@ export const onTaskCreatedOrUpdated = async (taskId: string) => {
 export const onTaskDeleted = async (taskId: string) => {
   try {
     console.log('Calendar hook', { taskId, action: 'task_deleted' });
-    // delete all assignment events using new auto-sync
-    const assignments = await storage.getTaskAssignments(taskId);
-    for (const assignment of assignments) {
-      try { 
-        console.log('Calendar hook', { taskId, assignmentId: assignment.id, action: 'delete_assignment_event' });
-        const teamMember = assignment.teamMember;
-        const user = await storage.getUserByEmail(teamMember.email);
-        if (user?.id) {
-          const { calendarAutoSync } = await import('../calendarAutoSync');
-          await calendarAutoSync.deleteTaskEvent(taskId, user.id);
-        }
-      } catch (e) {
-        console.error('Error deleting assignment calendar event:', e);
-      }
+    // Every mapped event goes, including any for users no longer assigned
+    const mappings = await CalendarService.getTaskMappings(taskId);
+    for (const mapping of mappings) {
+      console.log('Calendar hook', { taskId, userId: mapping.user_id, action: 'delete_task_event' });
+      await queueCalendarDelete(taskId, mapping.user_id);
     }
   } catch (error) {
     console.error('Error in onTaskDeleted:', error);
@@ -52,19 +43,17 @@ export const onTaskDeleted = async (taskId: string) => {
 };
 
 export const onAssignmentCreated = async (assignmentId: string) => {
-  if (!SYNC_ENABLED) { 
-    console.log('Calendar sync disabled - onAssignmentCreated skipped'); 
-    return; 
+  if (!CalendarService.isSyncEnabled()) {
+    console.log('Calendar sync disabled - onAssignmentCreated skipped');
+    return;
   }
   try {
     const assignment = await storage.getTaskAssignment(assignmentId);
     if (assignment) {
-      const teamMember = assignment.teamMember;
-      const user = await storage.getUserByEmail(teamMember.email);
-      if (user?.id) {
-        console.log('Calendar hook', { taskId: assignment.taskId, userId: user.id, assignmentId, action: 'assignment_created' });
-        const { calendarAutoSync } = await import('../calendarAutoSync');
-        await calendarAutoSync.syncTaskIfEligible(assignment.taskId, user.id);
+      const userId = await assignmentUserId(assignment);
+      if (userId) {
+        console.log('Calendar hook', { taskId: assignment.taskId, userId, assignmentId, action: 'assignment_created' });
+        await queueCalendarUpsert(assignment.taskId, userId);
       }
     }
   } catch (error) {
@@ -72,26 +61,20 @@ export const onAssignmentCreated = async (assignmentId: string) => {
   }
 };
 
+// Call before deleting the assignment; afterwards there is nothing left to look up
 export const onAssignmentDeleted = async (assignmentId: string) => {
-  if (!SYNC_ENABLED) { 
-    console.log('Calendar sync disabled - onAssignmentDeleted skipped'); 
-    return; 
+  if (!CalendarService.isSyncEnabled()) {
+    console.log('Calendar sync disabled - onAssignmentDeleted skipped');
+    return;
   }
   try {
     console.log('Calendar hook', { assignmentId, action: 'assignment_deleted' });
-    // Get assignment first to find task and user info
     const assignment = await storage.getTaskAssignment(assignmentId);
     if (assignment) {
-      const teamMember = assignment.teamMember;
-      const user = await storage.getUserByEmail(teamMember.email);
-      if (user?.id) {
-        const { calendarAutoSync } = await import('../calendarAutoSync');
-        await calendarAutoSync.deleteTaskEvent(assignment.taskId, user.id);
-      }
+      const userId = await assignmentUserId(assignment);
+      if (userId) await queueCalendarDelete(assignment.taskId, userId);
     }
   } catch (error) {
     console.error('Error in onAssignmentDeleted:', error);
   }
 };
-
-// Legacy functions removed - now using CalendarAutoSync system
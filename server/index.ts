@@ -7,6 +7,13 @@ import { googleRouter } from './oauth/googleRoutes';
 import { registerDebugRoutes } from './debugRoutes';
 import { devAuthRouter } from './auth/devAuth';
 import { pool } from './db';
+import { RecurrenceService } from './services/RecurrenceService';
+import { JobQueueService } from './services/JobQueueService';
+import { registerJobHandlers } from './jobs/handlers';
+import { CalendarPullService } from './services/CalendarPullService';
+
+const RECURRENCE_SWEEP_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const CALENDAR_PULL_SWEEP_INTERVAL_MS = 15 * 60 * 1000;
 
 const app = express();
 app.use(express.json());
@@ -126,4 +133,24 @@ process.on('uncaughtException', (e) => {
   }, () => {
     log(`serving on port ${port}`);
   });
+
+  // Keep recurring task series generated up to the rolling horizon
+  const sweepRecurringTasks = () => {
+    RecurrenceService.fillHorizon().catch((error) => {
+      console.error('Recurring task sweep failed:', error);
+    });
+  };
+  sweepRecurringTasks();
+  setInterval(sweepRecurringTasks, RECURRENCE_SWEEP_INTERVAL_MS);
+
+  // Calendar syncs, emails and integration syncs queued by request handlers
+  registerJobHandlers();
+  JobQueueService.start();
+
+  // Catch calendar changes whose push notification never arrived, and renew watch channels
+  setInterval(() => {
+    CalendarPullService.sweep().catch((error) => {
+      console.error('Calendar pull sweep failed:', error);
+    });
+  }, CALENDAR_PULL_SWEEP_INTERVAL_MS);
 })();
@@ -0,0 +1,101 @@
+import { JobQueueService, PermanentJobError } from '../services/JobQueueService';
+import { CalendarService } from '../services/CalendarService';
+import { CalendarPullService } from '../services/CalendarPullService';
+import { emailService } from '../emailService';
+import { nangoService } from '../nangoService';
+
+export const JOB_TYPES = {
+  calendarUpsert: 'calendar.upsert',
+  calendarDelete: 'calendar.delete',
+  calendarPull: 'calendar.pull',
+  taskAssignmentEmail: 'email.task_assignment',
+  teamMemberWelcomeEmail: 'email.team_member_welcome',
+  proposalLinkEmail: 'email.proposal_link',
+  approvalRequestEmail: 'email.approval_request',
+  messageMentionEmail: 'email.message_mention',
+  contactInvitationEmail: 'email.contact_invitation',
+  integrationSync: 'integration.sync',
+} as const;
+
+// Nothing will change on a retry for these, so the job finishes as skipped instead of failing
+const CALENDAR_SKIP_REASONS = ['Sync disabled', 'Task not found', 'No due date', 'User not found', 'No calendar tokens'];
+
+const calendarKey = (type: string, taskId: string, userId: string) => `${type}:${taskId}:${userId}`;
+
+export async function queueCalendarUpsert(taskId: string, userId: string) {
+  return JobQueueService.enqueue(
+    JOB_TYPES.calendarUpsert,
+    { taskId, userId },
+    { idempotencyKey: calendarKey(JOB_TYPES.calendarUpsert, taskId, userId) }
+  );
+}
+
+// A queued upsert for the same event would recreate it after the delete, so it is dropped first
+export async function queueCalendarDelete(taskId: string, userId: string) {
+  await JobQueueService.cancel(calendarKey(JOB_TYPES.calendarUpsert, taskId, userId));
+  return JobQueueService.enqueue(
+    JOB_TYPES.calendarDelete,
+    { taskId, userId },
+    { idempotencyKey: calendarKey(JOB_TYPES.calendarDelete, taskId, userId) }
+  );
+}
+
+async function sendEmail(send: () => Promise<boolean>): Promise<string | void> {
+  if (!emailService.isEnabled) {
+    return 'Skipped: email service not configured';
+  }
+  if (!(await send())) {
+    throw new Error('Email provider rejected the message');
+  }
+}
+
+export function registerJobHandlers(): void {
+  JobQueueService.register(JOB_TYPES.calendarUpsert, async ({ taskId, userId }) => {
+    const result = await CalendarService.syncTask(taskId, userId);
+    if (result.ok) return result.eventId ? `Event ${result.eventId}` : undefined;
+    if (result.error && CALENDAR_SKIP_REASONS.includes(result.error)) return `Skipped: ${result.error}`;
+    throw new Error(result.error || 'Calendar sync failed');
+  });
+
+  JobQueueService.register(JOB_TYPES.calendarDelete, async ({ taskId, userId }) => {
+    const { deleted } = await CalendarService.removeTaskEvent(taskId, userId);
+    if (!deleted) return 'Skipped: No calendar event';
+  });
+
+  JobQueueService.register(JOB_TYPES.calendarPull, async ({ userId, calendarId }) => {
+    if (!CalendarService.isSyncEnabled()) return 'Skipped: Sync disabled';
+    const summary = await CalendarPullService.pull(userId, calendarId);
+    return `${summary.processed} mapped events, ${summary.updated} tasks updated, ${summary.conflicts} conflicts`;
+  });
+
+  JobQueueService.register(JOB_TYPES.taskAssignmentEmail, async ({ to, name, taskTitle, projectName, options }) =>
+    sendEmail(() => emailService.sendTaskAssignmentNotification(to, name, taskTitle, projectName, options))
+  );
+
+  JobQueueService.register(JOB_TYPES.teamMemberWelcomeEmail, async ({ to, name, agencyName, options }) =>
+    sendEmail(() => emailService.sendTeamMemberWelcomeEmail(to, name, agencyName, options))
+  );
+
+  JobQueueService.register(JOB_TYPES.proposalLinkEmail, async ({ to, name, proposalTitle, proposalUrl, validUntil }) =>
+    sendEmail(() => emailService.sendProposalLink(to, name, proposalTitle, proposalUrl, validUntil ? new Date(validUntil) : null))
+  );
+
+  JobQueueService.register(JOB_TYPES.approvalRequestEmail, async ({ to, name, subjectTitle, projectName, message, dashboardUrl }) =>
+    sendEmail(() => emailService.sendApprovalRequest(to, name, subjectTitle, projectName, message, dashboardUrl))
+  );
+
+  JobQueueService.register(JOB_TYPES.messageMentionEmail, async ({ to, name, senderName, projectName, excerpt }) =>
+    sendEmail(() => emailService.sendMessageMention(to, name, senderName, projectName, excerpt))
+  );
+
+  JobQueueService.register(JOB_TYPES.contactInvitationEmail, async ({ to, organizationName, inviterName, invitationLink }) =>
+    sendEmail(() => emailService.sendContactInvitation(to, organizationName, inviterName, invitationLink))
+  );
+
+  JobQueueService.register(JOB_TYPES.integrationSync, async ({ connectionId, syncName }) => {
+    if (!connectionId || !syncName) {
+      throw new PermanentJobError('Connection ID and sync name are required');
+    }
+    await nangoService.triggerSync(connectionId, syncName);
+  });
+}
@@ -0,0 +1,93 @@
+import '../test/env';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { authorize, projectParam } from './authorize';
+import type { Project, User } from '@shared/schema';
+
+const users: Record<string, User> = {
+  'admin-1': { id: 'admin-1', role: 'admin', organizationId: null } as User,
+  'pm-1': { id: 'pm-1', role: 'project_manager', organizationId: null } as User,
+  'client-1': { id: 'client-1', role: 'client', organizationId: 'org-1' } as User,
+};
+const projects: Record<string, Project> = {
+  mine: { id: 'mine', clientId: 'client-1', organizationId: null } as Project,
+  theirs: { id: 'theirs', clientId: 'client-9', organizationId: 'org-9' } as Project,
+};
+
+// Runs the middleware against a bare request and reports how it answered
+const run = async (middleware: ReturnType<typeof authorize>, userId?: string, params: Record<string, string> = {}) => {
+  const req: any = { user: userId ? { claims: { sub: userId } } : undefined, params };
+  const outcome: { status?: number; body?: any; next: boolean; error?: unknown } = { next: false };
+  const res: any = {
+    status(code: number) {
+      outcome.status = code;
+      return this;
+    },
+    json(body: unknown) {
+      outcome.body = body;
+      return this;
+    },
+  };
+  await middleware(req, res, (error?: unknown) => {
+    outcome.next = true;
+    outcome.error = error;
+  });
+  return { ...outcome, req };
+};
+
+beforeEach(() => {
+  mock.method(storage, 'getUser', async (id: string) => users[id]);
+  mock.method(storage, 'getProject', async (id: string) => projects[id]);
+  mock.method(storage, 'isProjectMember', async () => false);
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('authorize', () => {
+  test('lets a role with the permission through and hands the handler the user', async () => {
+    const { next, req } = await run(authorize('billing.manage'), 'admin-1');
+
+    assert.equal(next, true);
+    assert.equal(req.currentUser.id, 'admin-1');
+  });
+
+  test('refuses a role without the permission', async () => {
+    const manager = await run(authorize('billing.manage'), 'pm-1');
+    const client = await run(authorize('team.manage'), 'client-1');
+
+    assert.deepEqual([manager.status, manager.next], [403, false]);
+    assert.deepEqual([client.status, client.next], [403, false]);
+  });
+
+  test('refuses requests without a known user', async () => {
+    assert.equal((await run(authorize('project.view'))).status, 401);
+    assert.equal((await run(authorize('project.view'), 'ghost')).status, 401);
+  });
+
+  test('checks access to the project named in the request', async () => {
+    const allowed = await run(authorize('project.view', projectParam()), 'client-1', { projectId: 'mine' });
+    const denied = await run(authorize('project.view', projectParam()), 'client-1', { projectId: 'theirs' });
+    const missing = await run(authorize('project.view', projectParam()), 'client-1', { projectId: 'gone' });
+
+    assert.equal(allowed.next, true);
+    assert.equal(allowed.req.project.id, 'mine');
+    assert.deepEqual([denied.status, denied.next], [403, false]);
+    assert.deepEqual([missing.status, missing.next], [404, false]);
+  });
+
+  test('staff who see everything can reach any project', async () => {
+    const { next, req } = await run(authorize('project.view', projectParam()), 'pm-1', { projectId: 'theirs' });
+
+    assert.equal(next, true);
+    assert.equal(req.project.id, 'theirs');
+  });
+
+  test('passes lookup failures on to the error handler', async () => {
+    mock.method(storage, 'getUser', async () => { throw new Error('db down'); });
+    const { next, error } = await run(authorize('project.view'), 'admin-1');
+
+    assert.equal(next, true);
+    assert.match(String(error), /db down/);
+  });
+});
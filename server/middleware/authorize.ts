@@ -0,0 +1,50 @@
+import type { NextFunction, Response } from 'express';
+import { storage } from '../storage';
+import { AccessService } from '../services/AccessService';
+import type { Permission } from '@shared/permissions';
+import type { Project } from '@shared/schema';
+
+// Finds the project a request is about, so access can be checked before the handler runs
+export type ProjectResource = (req: any) => Promise<Project | undefined>;
+
+export const projectParam = (name = 'projectId'): ProjectResource =>
+  (req) => storage.getProject(req.params[name]);
+
+export const fileProject = (name = 'id'): ProjectResource =>
+  async (req) => {
+    const file = await storage.getProjectFile(req.params[name]);
+    return file ? storage.getProject(file.projectId) : undefined;
+  };
+
+// Runs after isAuthenticated. Checks the user's role grants the permission and, when a resource is given,
+// that they can see that project. The handler finds the user on req.currentUser and the project on req.project.
+export function authorize(permission: Permission, resource?: ProjectResource) {
+  return async (req: any, res: Response, next: NextFunction) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      const user = userId ? await storage.getUser(userId) : undefined;
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+      if (!AccessService.can(user, permission)) {
+        return res.status(403).json({ message: "You don't have permission to do that" });
+      }
+      req.currentUser = user;
+
+      if (resource) {
+        const project = await resource(req);
+        if (!project) {
+          return res.status(404).json({ message: "Project not found" });
+        }
+        if (!(await AccessService.canAccessProject(user, project))) {
+          return res.status(403).json({ message: "Access denied" });
+        }
+        req.project = project;
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
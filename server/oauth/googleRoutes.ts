@@ -3,6 +3,7 @@ import { google } from 'googleapis';
 import { Pool } from 'pg';
 import { storage } from '../storage';
 import { CalendarService } from '../services/CalendarService';
+import { CalendarPullService } from '../services/CalendarPullService';
 
 export const googleRouter = Router();
 
@@ -193,6 +194,13 @@ googleRouter.get('/auth/google/callback', async (req: any, res) => {
     const scopes = (tokens.scope as string) || 'https://www.googleapis.com/auth/calendar.events openid email profile';
     await saveTokens(db, canonicalUserId, tokens, scopes, teamMemberId);
 
+    // Two-way sync: have Google notify us when this calendar changes (only where a public webhook URL exists)
+    if (canonicalUserId && CalendarPullService.webhookUrl()) {
+      CalendarPullService.watch(canonicalUserId).catch((error) => {
+        console.error('Failed to start calendar watch channel:', error);
+      });
+    }
+
     // Establish user session after successful OAuth
     (req.session as any).user = {
       userId: canonicalUserId,
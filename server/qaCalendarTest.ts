@@ -4,9 +4,8 @@
  */
 
 import { storage } from './storage';
-import { calendarAutoSync } from './calendarAutoSync';
+import { CalendarService } from './services/CalendarService';
 import { onTaskCreatedOrUpdated, onAssignmentCreated } from './hooks/taskCalendarHooks';
-import { SYNC_ENABLED } from './debugRoutes';
 
 interface QATestResult {
   step: string;
@@ -60,7 +59,7 @@ export class CalendarQATest {
 
   private async testPrerequisites(): Promise<void> {
     // Check if calendar sync is enabled
-    if (!SYNC_ENABLED) {
+    if (!CalendarService.isSyncEnabled()) {
       this.addResult('prerequisites', 'skip', 'Calendar sync is disabled globally');
       return;
     }
@@ -79,14 +78,14 @@ export class CalendarQATest {
 
   private async testCalendarServiceInit(): Promise<void> {
     try {
-      // Test that CalendarAutoSync can be imported and initialized
-      if (!calendarAutoSync) {
-        this.addResult('calendar_service', 'fail', 'CalendarAutoSync not available');
+      // A provider has to be configured for CalendarService to sync anything
+      if (!CalendarService.isAvailable()) {
+        this.addResult('calendar_service', 'fail', 'No calendar provider configured');
         return;
       }
-      this.addResult('calendar_service', 'pass', 'CalendarAutoSync service initialized');
+      this.addResult('calendar_service', 'pass', 'CalendarService has a configured provider');
     } catch (error) {
-      this.addResult('calendar_service', 'fail', `CalendarAutoSync init failed: ${error instanceof Error ? error.message : String(error)}`);
+      this.addResult('calendar_service', 'fail', `CalendarService init failed: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -183,8 +182,8 @@ export class CalendarQATest {
         return;
       }
 
-      // Test manual sync via CalendarAutoSync
-      const result = await calendarAutoSync.syncTaskIfEligible(this.testTaskId, this.testUserId);
+      // Test manual sync via CalendarService
+      const result = await CalendarService.syncTask(this.testTaskId, this.testUserId);
       
       if (result.ok) {
         this.addResult('manual_sync', 'pass', 'Manual sync completed successfully', result);
@@ -211,7 +210,7 @@ export class CalendarQATest {
   // Specific diagnostic tests
   async testCalendarEventCreation(taskId: string, userId: string): Promise<QATestResult> {
     try {
-      const result = await calendarAutoSync.syncTaskIfEligible(taskId, userId);
+      const result = await CalendarService.syncTask(taskId, userId);
       if (result.ok && result.eventId) {
         return { 
           step: 'calendar_event_creation',
@@ -248,7 +247,7 @@ export class CalendarQATest {
       }
 
       // Test token refresh via calendar service call
-      const result = await calendarAutoSync.syncTaskIfEligible('test-task-id', userId);
+      const result = await CalendarService.syncTask('test-task-id', userId);
       return {
         step: 'token_refresh',
         status: result.ok ? 'pass' : 'warn',
@@ -7,6 +7,7 @@ import type { Express, RequestHandler } from "express";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
+import { hasPermission, isStaffRole } from "@shared/permissions";
 
 if (!process.env.REPLIT_DOMAINS) {
   throw new Error("Environment variable REPLIT_DOMAINS not provided");
@@ -22,7 +23,11 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
+// One session middleware (and one store) shared by the API and the realtime socket upgrade
+let sessionMiddleware: RequestHandler | undefined;
+
 export function getSession() {
+  if (sessionMiddleware) return sessionMiddleware;
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
   const sessionStore = new pgStore({
@@ -31,7 +36,7 @@ export function getSession() {
     ttl: sessionTtl,
     tableName: "sessions",
   });
-  return session({
+  sessionMiddleware = session({
     secret: process.env.SESSION_SECRET!,
     store: sessionStore,
     resave: false,
@@ -45,6 +50,7 @@ export function getSession() {
     },
     name: 'sid', // Explicit cookie name
   });
+  return sessionMiddleware;
 }
 
 function updateUserSession(
@@ -60,36 +66,37 @@ function updateUserSession(
 async function upsertUser(
   claims: any,
 ) {
-  // Check if this user has an accepted invitation
-  const userEmail = claims["email"];
-  if (userEmail) {
-    const invitations = await storage.getTeamInvitations();
+  // Roles are managed in the app; logging in never changes an existing user's role
+  const existingUser = await storage.getUser(claims["sub"]);
+  let role = existingUser?.role;
+  let organizationFields = {};
+
+  if (!role) {
+    // Invited people get the role they were invited with, and contacts join their organization; everyone else starts as a client
+    const userEmail = claims["email"]?.toLowerCase();
+    const invitations = userEmail ? await storage.getTeamInvitations() : [];
     const acceptedInvitation = invitations.find(inv => 
-      inv.email === userEmail && inv.status === 'accepted'
+      inv.email.toLowerCase() === userEmail && inv.status === 'accepted'
     );
-    
-    // If user has an accepted invitation, create them with admin role
-    if (acceptedInvitation) {
-      await storage.upsertUser({
-        id: claims["sub"],
-        email: claims["email"],
-        firstName: claims["first_name"],
-        lastName: claims["last_name"],
-        profileImageUrl: claims["profile_image_url"],
-        role: 'admin', // Team members get admin access
-      });
-      return;
+    role = acceptedInvitation && (isStaffRole(acceptedInvitation.role) || acceptedInvitation.organizationId)
+      ? acceptedInvitation.role
+      : 'client';
+    if (acceptedInvitation?.organizationId) {
+      organizationFields = {
+        organizationId: acceptedInvitation.organizationId,
+        contactAccess: acceptedInvitation.contactAccess || 'full',
+      };
     }
   }
-  
-  // Default user creation with admin role for testing
+
   await storage.upsertUser({
     id: claims["sub"],
     email: claims["email"],
     firstName: claims["first_name"],
     lastName: claims["last_name"],
     profileImageUrl: claims["profile_image_url"],
-    role: 'admin', // Make all users admin for testing
+    role,
+    ...organizationFields,
   });
 }
 
@@ -192,7 +199,7 @@ export async function setupAuth(app: Express) {
         let redirectPath = (req.session as any)?.returnTo;
         if (!redirectPath) {
           // Default redirect based on role
-          redirectPath = dbUser?.role === 'admin' ? '/' : '/my-tasks';
+          redirectPath = hasPermission(dbUser?.role, 'admin.access') ? '/' : '/my-tasks';
         }
         delete (req.session as any).returnTo; // Clean up
         return res.redirect(redirectPath);
@@ -0,0 +1,441 @@
+import './test/env';
+import { after, afterEach, before, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pool } from './db';
+import { storage } from './storage';
+import { AccessService } from './services/AccessService';
+import { MessageService } from './services/MessageService';
+import { startApp, type TestApp } from './test/app';
+import type { Permission } from '@shared/permissions';
+import type { Project, User } from '@shared/schema';
+
+const users: Record<string, User> = {
+  'admin-1': { id: 'admin-1', role: 'admin', organizationId: null } as User,
+  'pm-1': { id: 'pm-1', role: 'project_manager', organizationId: null } as User,
+  'staff-1': { id: 'staff-1', role: 'contributor', organizationId: null } as User,
+  'client-1': { id: 'client-1', role: 'client', organizationId: 'org-1' } as User,
+  'viewer-1': { id: 'viewer-1', role: 'client_viewer', organizationId: 'org-1' } as User,
+  'outsider-1': { id: 'outsider-1', role: 'client_admin', organizationId: 'org-9' } as User,
+};
+
+// p1 belongs to client-1's organization; staff-1 was added to it
+const project = { id: 'p1', name: 'Spring campaign', clientId: 'client-1', organizationId: 'org-1', budget: '5000' } as Project;
+const file = { id: 'f1', projectId: 'p1', fileName: 'proof.png', fileType: 'image/png', isApprovalRequired: false };
+
+// The lookups authorize needs answer; any other storage or pool call means a refused request reached its handler
+const trapHandlers = () => {
+  const reached: string[] = [];
+  const gate = new Set(['constructor', 'getUser', 'getProject', 'getProjectFile', 'isProjectMember']);
+  for (const name of Object.getOwnPropertyNames(Object.getPrototypeOf(storage))) {
+    if (gate.has(name) || typeof (storage as any)[name] !== 'function') continue;
+    mock.method(storage as any, name, async () => {
+      reached.push(name);
+    });
+  }
+  mock.method(pool, 'query', async () => {
+    reached.push('pool.query');
+    return { rows: [] };
+  });
+  return reached;
+};
+
+// Every user whose role lacks the permission, or who can't see p1 on a project-scoped route, gets a 403
+// and signed-out requests a 401, before the handler touches anything
+const assertGated = async (routes: [string, string, unknown?][], permission: Permission, scoped = false) => {
+  const reached = trapHandlers();
+  for (const [method, path, body] of routes) {
+    for (const user of Object.values(users)) {
+      const allowed = AccessService.can(user, permission) && (!scoped || await AccessService.canAccessProject(user, project));
+      if (allowed) continue;
+      const { status } = await app.request(method, path, { as: user.id, body });
+      assert.equal(status, 403, `${method} ${path} as ${user.id}`);
+    }
+    assert.equal((await app.request(method, path, { body })).status, 401, `${method} ${path} signed out`);
+  }
+  assert.deepEqual(reached, []);
+};
+
+const uploads = () => fs.readdirSync(path.join(process.cwd(), 'uploads')).sort();
+
+let app: TestApp;
+
+before(async () => {
+  app = await startApp();
+});
+
+after(() => app.close());
+
+beforeEach(() => {
+  mock.method(storage, 'getUser', async (id: string) => users[id]);
+  mock.method(storage, 'getProject', async (id: string) => (id === 'p1' ? project : undefined));
+  mock.method(storage, 'getProjectFile', async (id: string) => (id === 'f1' ? file : undefined));
+  mock.method(storage, 'isProjectMember', async (projectId: string, userId: string) => projectId === 'p1' && userId === 'staff-1');
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('project routes', () => {
+  test('viewing a project needs access to it', async () => {
+    await assertGated([['GET', '/api/projects/p1'], ['GET', '/api/projects/p1/kpis'], ['GET', '/api/projects/p1/analytics']], 'project.view', true);
+  });
+
+  test('managing projects is for project staff', async () => {
+    await assertGated([
+      ['POST', '/api/projects', { name: 'New' }],
+      ['POST', '/api/admin/projects', { name: 'New' }],
+      ['PUT', '/api/admin/projects/p1', { name: 'Renamed' }],
+      ['PUT', '/api/admin/projects/p1/status', { status: 'completed' }],
+      ['POST', '/api/admin/projects/p1/kickoff', {}],
+      ['POST', '/api/projects/p1/kpis', { name: 'Reach' }],
+      ['DELETE', '/api/projects/p1/soft'],
+      ['DELETE', '/api/admin/projects/p1'],
+    ], 'projects.manage');
+    await assertGated([['GET', '/api/admin/projects']], 'projects.view_all');
+  });
+
+  test('answer the people allowed', async () => {
+    mock.method(storage, 'getAllProjects', async () => [project]);
+
+    const own = await app.request('GET', '/api/projects/p1', { as: 'client-1' });
+    assert.deepEqual([own.status, own.body.budget], [200, '5000']);
+    assert.equal((await app.request('GET', '/api/projects/p1', { as: 'staff-1' })).status, 200);
+    assert.equal((await app.request('GET', '/api/admin/projects', { as: 'pm-1' })).status, 200);
+  });
+});
+
+describe('file routes', () => {
+  test('viewing files needs access to the project', async () => {
+    await assertGated([
+      ['GET', '/api/projects/p1/files'],
+      ['GET', '/api/projects/p1/files/f1/preview'],
+      ['GET', '/api/projects/p1/files/f1/download'],
+      ['GET', '/api/files/f1/download'],
+    ], 'files.view', true);
+  });
+
+  test('uploading and reviewing need the permission and access', async () => {
+    await assertGated([['POST', '/api/projects/p1/files'], ['POST', '/api/projects/p1/files/f1/versions']], 'files.upload', true);
+    await assertGated([['POST', '/api/projects/p1/files/f1/comments', { body: 'Looks good' }]], 'files.review');
+  });
+
+  test('a refused version upload never reaches the disk', async () => {
+    const before = uploads();
+    const form = () => {
+      const body = new FormData();
+      body.append('file', new Blob(['<svg/>'], { type: 'image/svg+xml' }), 'logo.svg');
+      return body;
+    };
+
+    assert.equal((await app.request('POST', '/api/projects/p1/files/f1/versions', { as: 'outsider-1', body: form() })).status, 403);
+    assert.equal((await app.request('POST', '/api/projects/p1/files/f1/versions', { as: 'viewer-1', body: form() })).status, 403);
+    // Allowed in, but the file belongs to another project: the temp upload is removed
+    mock.method(storage, 'getProjectFile', async () => ({ ...file, projectId: 'p2' }));
+    assert.equal((await app.request('POST', '/api/projects/p1/files/f1/versions', { as: 'client-1', body: form() })).status, 404);
+
+    assert.deepEqual(uploads(), before);
+  });
+
+  test('answer the people allowed', async () => {
+    mock.method(storage, 'getFilesByProject', async () => [file]);
+
+    for (const userId of ['client-1', 'viewer-1', 'staff-1', 'pm-1']) {
+      const { status, body } = await app.request('GET', '/api/projects/p1/files', { as: userId });
+      assert.deepEqual([status, body.length], [200, 1], userId);
+    }
+  });
+});
+
+describe('message routes', () => {
+  test('reading needs access to the project; posting needs the permission too', async () => {
+    await assertGated([
+      ['GET', '/api/projects/p1/messages'],
+      ['POST', '/api/projects/p1/messages/read', {}],
+      ['GET', '/api/projects/p1/mentionable'],
+    ], 'messages.view', true);
+    await assertGated([['POST', '/api/projects/p1/messages', { body: 'Hello' }]], 'messages.post', true);
+  });
+
+  test('answer the people allowed', async () => {
+    mock.method(MessageService, 'list', async () => [{ id: 'm1', body: 'Hello' }]);
+
+    for (const userId of ['client-1', 'viewer-1', 'staff-1']) {
+      assert.equal((await app.request('GET', '/api/projects/p1/messages', { as: userId })).status, 200, userId);
+    }
+  });
+});
+
+describe('task routes', () => {
+  test('project task lists need access to the project', async () => {
+    await assertGated([['GET', '/api/projects/p1/tasks'], ['GET', '/api/projects/p1/task-graph']], 'project.view', true);
+  });
+
+  test('managing tasks is for people who manage tasks', async () => {
+    await assertGated([
+      ['POST', '/api/projects/p1/tasks', { title: 'Shoot' }],
+      ['GET', '/api/tasks/t1/assignments'],
+      ['POST', '/api/tasks/t1/assignments', { teamMemberId: 'tm-1' }],
+      ['PUT', '/api/assignments/a1', { hours: 2 }],
+      ['DELETE', '/api/assignments/a1'],
+      ['PUT', '/api/admin/board/wip-limits', { in_progress: 5 }],
+      ['DELETE', '/api/admin/tasks/t1'],
+      ['DELETE', '/api/tasks/t1/soft'],
+    ], 'tasks.manage');
+    await assertGated([['GET', '/api/admin/tasks'], ['GET', '/api/admin/task-assignments']], 'projects.view_all');
+  });
+
+  test('answer the people allowed', async () => {
+    mock.method(storage, 'getTasksByProjectWithDetails', async () => [{ id: 't1', title: 'Shoot' }]);
+    mock.method(storage, 'getTaskAssignments', async () => []);
+
+    assert.equal((await app.request('GET', '/api/projects/p1/tasks', { as: 'viewer-1' })).status, 200);
+    assert.equal((await app.request('GET', '/api/projects/p1/tasks', { as: 'staff-1' })).status, 200);
+    assert.equal((await app.request('GET', '/api/tasks/t1/assignments', { as: 'pm-1' })).status, 200);
+  });
+});
+
+describe('invoice and billing routes', () => {
+  test('are billing staff only', async () => {
+    await assertGated([
+      ['GET', '/api/admin/invoices'],
+      ['POST', '/api/admin/invoices', { title: 'March' }],
+      ['PUT', '/api/admin/invoices/i1', { title: 'April' }],
+      ['POST', '/api/admin/invoices/i1/send', {}],
+      ['POST', '/api/admin/invoices/i1/void', {}],
+      ['POST', '/api/admin/invoices/i1/payments', { amount: 10 }],
+      ['DELETE', '/api/admin/invoices/i1'],
+      ['POST', '/api/admin/projects/p1/invoice-time', {}],
+      ['GET', '/api/admin/billing-rates'],
+      ['PUT', '/api/admin/billing-rates/admin', { hourlyRate: 100 }],
+      ['DELETE', '/api/admin/billing-rates/admin'],
+      ['GET', '/api/admin/reports/time'],
+      ['GET', '/api/admin/reports/ar-aging'],
+      ['GET', '/api/admin/proposals'],
+      ['POST', '/api/admin/proposals/pr1/convert', {}],
+    ], 'billing.manage');
+  });
+
+  test('answer admins', async () => {
+    mock.method(pool, 'query', async () => ({ rows: [], rowCount: 0 }));
+    mock.method(storage, 'getInvoices', async () => [{ id: 'i1', organizationId: 'org-1' }]);
+    mock.method(storage, 'getOrganizations', async () => [{ id: 'org-1', name: 'Acme' }]);
+
+    const { status, body } = await app.request('GET', '/api/admin/invoices', { as: 'admin-1' });
+    assert.equal(status, 200);
+    assert.equal(body[0].organizationName, 'Acme');
+  });
+});
+
+describe('team management routes', () => {
+  test('are for people who manage the team', async () => {
+    await assertGated([
+      ['GET', '/api/admin/team-invitations'],
+      ['POST', '/api/admin/team-invitations', { email: 'new@example.com' }],
+      ['GET', '/api/admin/team-members'],
+      ['POST', '/api/team-members', { name: 'Sam' }],
+      ['PUT', '/api/team-members/tm-1', { name: 'Sam' }],
+      ['DELETE', '/api/team-members/tm-1'],
+    ], 'team.manage');
+  });
+
+  test('answer admins', async () => {
+    mock.method(storage, 'getTeamInvitations', async () => [{ id: 'inv-1', organizationId: null }, { id: 'inv-2', organizationId: 'org-1' }]);
+    mock.method(storage, 'getAllTeamMembers', async () => [{ id: 'tm-1', isActive: true }]);
+
+    const invitations = await app.request('GET', '/api/admin/team-invitations', { as: 'admin-1' });
+    assert.deepEqual([invitations.status, invitations.body.map((invitation: { id: string }) => invitation.id)], [200, ['inv-1']]);
+    assert.equal((await app.request('GET', '/api/admin/team-members', { as: 'admin-1' })).status, 200);
+  });
+});
+
+describe('role and membership routes', () => {
+  test('are for people who manage roles', async () => {
+    await assertGated([
+      ['GET', '/api/admin/users'],
+      ['PUT', '/api/admin/users/staff-1/role', { role: 'admin' }],
+      ['GET', '/api/admin/projects/p1/members'],
+      ['POST', '/api/admin/projects/p1/members', { userId: 'staff-1' }],
+      ['DELETE', '/api/admin/projects/p1/members/staff-1'],
+    ], 'roles.manage');
+  });
+
+  test('answer admins', async () => {
+    mock.method(storage, 'getActiveUsers', async () => Object.values(users));
+
+    const { status, body } = await app.request('GET', '/api/admin/users', { as: 'admin-1' });
+    assert.deepEqual([status, body.length], [200, Object.keys(users).length]);
+  });
+});
+
+describe('quote routes', () => {
+  const routes: [string, string, unknown?][] = [
+    ['GET', '/api/quotes'],
+    ['POST', '/api/quotes/upload'],
+    ['POST', '/api/quotes/q1/convert'],
+    ['GET', '/api/quotes/q1/line-items'],
+    ['PUT', '/api/quotes/q1/line-items', { lineItems: [] }],
+    ['POST', '/api/quotes/q1/reparse'],
+    ['GET', '/api/quotes/q1'],
+    ['PUT', '/api/quotes/q1', { title: 'Renamed' }],
+  ];
+
+  test('are billing staff only', async () => {
+    const convert = mock.method(storage, 'convertQuoteToProject', async () => ({}));
+    const update = mock.method(storage, 'updateQuote', async () => ({}));
+
+    for (const [method, path, body] of routes) {
+      for (const userId of ['pm-1', 'staff-1', 'client-1']) {
+        const { status } = await app.request(method, path, { as: userId, body });
+        assert.equal(status, 403, `${method} ${path} as ${userId}`);
+      }
+      assert.equal((await app.request(method, path, { body })).status, 401, `${method} ${path} signed out`);
+    }
+    assert.equal(convert.mock.callCount(), 0);
+    assert.equal(update.mock.callCount(), 0);
+  });
+
+  test('answer admins', async () => {
+    mock.method(storage, 'getQuotes', async () => [{ id: 'q1', quoteNumber: 'Q-1' }]);
+    mock.method(storage, 'getQuote', async () => ({ id: 'q1', quoteNumber: 'Q-1' }));
+
+    const list = await app.request('GET', '/api/quotes', { as: 'admin-1' });
+    const quote = await app.request('GET', '/api/quotes/q1', { as: 'admin-1' });
+
+    assert.equal(list.status, 200);
+    assert.deepEqual(list.body, [{ id: 'q1', quoteNumber: 'Q-1' }]);
+    assert.equal(quote.status, 200);
+  });
+});
+
+describe('GET /api/team-members', () => {
+  test('is for people who manage tasks', async () => {
+    mock.method(storage, 'getAllTeamMembers', async () => [{ id: 'tm-1', name: 'Sam', hourlyRate: '90' }]);
+
+    assert.equal((await app.request('GET', '/api/team-members', { as: 'staff-1' })).status, 403);
+    assert.equal((await app.request('GET', '/api/team-members', { as: 'client-1' })).status, 403);
+    assert.equal((await app.request('GET', '/api/team-members')).status, 401);
+    assert.equal((await app.request('GET', '/api/team-members', { as: 'pm-1' })).status, 200);
+    assert.equal((await app.request('GET', '/api/team-members', { as: 'admin-1' })).status, 200);
+  });
+});
+
+describe('GET /api/tasks/:id/calendar-conflicts', () => {
+  test('shows each person only their own conflicts; team admins see all', async () => {
+    mock.method(storage, 'getCalendarSyncConflicts', async () => [
+      { id: 'c1', taskId: 't1', userId: 'staff-1' },
+      { id: 'c2', taskId: 't1', userId: 'pm-1' },
+    ]);
+    const ids = (response: { body: any }) => response.body.map((conflict: { id: string }) => conflict.id);
+
+    assert.deepEqual(ids(await app.request('GET', '/api/tasks/t1/calendar-conflicts', { as: 'staff-1' })), ['c1']);
+    assert.deepEqual(ids(await app.request('GET', '/api/tasks/t1/calendar-conflicts', { as: 'pm-1' })), ['c2']);
+    assert.deepEqual(ids(await app.request('GET', '/api/tasks/t1/calendar-conflicts', { as: 'client-1' })), []);
+    assert.deepEqual(ids(await app.request('GET', '/api/tasks/t1/calendar-conflicts', { as: 'admin-1' })), ['c1', 'c2']);
+    assert.equal((await app.request('GET', '/api/tasks/t1/calendar-conflicts')).status, 401);
+  });
+});
+
+describe('PUT /api/admin/services/:serviceId/templates/reorder', () => {
+  test('refuses malformed orders before they reach storage', async () => {
+    const reorder = mock.method(storage, 'updateTaskTemplateOrder', async () => {});
+    const path = '/api/admin/services/s1/templates/reorder';
+
+    for (const templateOrders of [
+      undefined,
+      [{ displayOrder: 1 }],
+      [{ id: 't1', displayOrder: 1.5 }],
+      [{ id: 't1', displayOrder: -1 }],
+      ['t1'],
+    ]) {
+      const { status } = await app.request('PUT', path, { as: 'admin-1', body: { templateOrders } });
+      assert.equal(status, 400, JSON.stringify(templateOrders));
+    }
+    assert.equal(reorder.mock.callCount(), 0);
+
+    const { status } = await app.request('PUT', path, { as: 'admin-1', body: { templateOrders: [{ id: 't1', displayOrder: 0 }] } });
+    assert.equal(status, 200);
+    assert.deepEqual(reorder.mock.calls[0].arguments, ['s1', [{ id: 't1', displayOrder: 0 }]]);
+  });
+});
+
+describe('GET /api/projects/:projectId/files/:fileId/preview', () => {
+  let dir: string;
+  const preview = (file: Record<string, unknown>) => {
+    mock.method(storage, 'getProject', async () => ({ id: 'p1', clientId: 'client-1', organizationId: null }));
+    mock.method(storage, 'getProjectFile', async () => ({ id: 'f1', projectId: 'p1', isApprovalRequired: false, ...file }));
+    return app.request('GET', '/api/projects/p1/files/f1/preview', { as: 'admin-1' });
+  };
+  const legacy = (fileName: string, fileType: string) => {
+    const filePath = path.join(dir, fileName);
+    fs.writeFileSync(filePath, '<script>alert(document.cookie)</script>');
+    return preview({ fileName, fileType, filePath, storageDriver: null });
+  };
+
+  before(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'preview-'));
+    process.env.FILE_STORAGE_LOCAL_DIR = dir;
+  });
+
+  after(() => {
+    delete process.env.FILE_STORAGE_LOCAL_DIR;
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('downloads uploads of scriptable types instead of rendering them', async () => {
+    for (const [fileName, fileType] of [['brief.html', 'text/html'], ['logo.svg', 'image/svg+xml'], ['notes.png', 'text/html; charset=utf-8']]) {
+      const { headers } = await legacy(fileName, fileType);
+      assert.equal(headers.get('content-type'), 'application/octet-stream', fileName);
+      assert.match(headers.get('content-disposition')!, /^attachment;/, fileName);
+      assert.equal(headers.get('x-content-type-options'), 'nosniff');
+      assert.equal(headers.get('content-security-policy'), 'sandbox');
+    }
+  });
+
+  test('shows images and PDFs inline', async () => {
+    for (const [fileName, fileType] of [['proof.png', 'image/png'], ['contract.pdf', 'application/pdf']]) {
+      const { status, headers } = await legacy(fileName, fileType);
+      assert.equal(status, 200);
+      assert.equal(headers.get('content-type'), fileType);
+      assert.match(headers.get('content-disposition')!, /^inline;/);
+      assert.equal(headers.get('x-content-type-options'), 'nosniff');
+    }
+  });
+
+  test('signed local links follow the same rules and headers', async () => {
+    fs.mkdirSync(path.join(dir, 'projects'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'projects', 'page.html'), '<script>alert(document.cookie)</script>');
+    fs.writeFileSync(path.join(dir, 'projects', 'proof.png'), 'png');
+
+    const html = await preview({ fileName: 'page.html', fileType: 'text/html', filePath: 'projects/page.html', storageDriver: 'local' });
+    const png = await preview({ fileName: 'proof.png', fileType: 'image/png', filePath: 'projects/proof.png', storageDriver: 'local' });
+
+    assert.equal(html.status, 200);
+    assert.equal(html.headers.get('content-type'), 'application/octet-stream');
+    assert.match(html.headers.get('content-disposition')!, /^attachment;/);
+    assert.equal(png.headers.get('content-type'), 'image/png');
+    assert.match(png.headers.get('content-disposition')!, /^inline;/);
+    for (const { headers } of [html, png]) {
+      assert.equal(headers.get('x-content-type-options'), 'nosniff');
+      assert.equal(headers.get('content-security-policy'), 'sandbox');
+    }
+  });
+
+  test('links signed before the allowlist still download scriptable types', async () => {
+    fs.writeFileSync(path.join(dir, 'projects', 'old.html'), '<script>alert(document.cookie)</script>');
+    // Signed the way LocalDiskStorageDriver signs, with the uploader's type and inline, as older links were
+    const params = { expires: String(Math.floor(Date.now() / 1000) + 60), disposition: 'inline', name: 'old.html', type: 'text/html' };
+    const signature = createHmac('sha256', process.env.SESSION_SECRET!)
+      .update(['projects/old.html', params.expires, params.disposition, params.name, params.type].join('\n'))
+      .digest('hex');
+
+    const { status, headers } = await app.request('GET', `/files/local/${encodeURIComponent('projects/old.html')}?${new URLSearchParams({ ...params, signature })}`);
+
+    assert.equal(status, 200);
+    assert.equal(headers.get('content-type'), 'application/octet-stream');
+    assert.match(headers.get('content-disposition')!, /^attachment;/);
+    assert.equal(headers.get('content-security-policy'), 'sandbox');
+  });
+});
@@ -1,14 +1,15 @@
 import type { Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { setupAuth, isAuthenticated } from "./replitAuth";
+import { setupAuth, isAuthenticated, getSession } from "./replitAuth";
 import { requireAuth, getCurrentUser } from "./middleware/auth";
-import { insertProjectSchema, insertTaskSchema, insertMessageSchema, insertAnalyticsSchema, insertTeamMemberSchema, insertTaskAssignmentSchema, insertProposalSchema, insertProposalItemSchema, type TeamMember } from "@shared/schema";
+import { authorize, projectParam, fileProject } from "./middleware/authorize";
+import { insertProjectSchema, insertTaskSchema, insertAnalyticsSchema, insertTeamMemberSchema, insertTaskAssignmentSchema, insertProposalSchema, insertProposalItemSchema, insertTaskTemplateSchema, taskTemplateOrderSchema, insertTimeEntrySchema, manualTimeEntrySchema, invoiceBodySchema, invoiceTaxesBodySchema, invoicePaymentInputSchema, billingRateInputSchema, quoteReviewSchema, proposalConversionSchema, proposalShareSchema, proposalSignSchema, proposalValiditySchema, calendarConflictResolutionSchema, calendarProviderPreferenceSchema, calDavConnectSchema, icalFeedCreateSchema, icalFeedUpdateSchema, approvalRequestSchema, approvalDecisionSchema, fileCommentCreateSchema, fileCommentUpdateSchema, messageCreateSchema, messageUpdateSchema, userRoleUpdateSchema, projectMemberCreateSchema, organizationContactInviteSchema, contactAccessUpdateSchema, taskViewInputSchema, taskViewUpdateSchema, wipLimitsSchema, type TeamMember, type ProjectFile, type User, type Message } from "@shared/schema";
 import { computeDueAt, buildDueAtUTC, parseTaskDateTime, backfillDisplayFields } from "./utils/timeHandling";
 import { emailService } from "./emailService";
 import { nangoService } from "./nangoService";
-import { googleCalendarService } from "./googleCalendar";
 import multer from "multer";
+import { randomUUID } from "crypto";
 import path from "path";
 import fs from "fs";
 import {
@@ -17,9 +18,35 @@ import {
   onAssignmentCreated,
   onAssignmentDeleted
 } from './hooks/taskCalendarHooks';
-import { AutoCalendarSync } from './hooks/autoCalendarSync';
 import { CalendarService } from './services/CalendarService';
-import { syncAllCalendarEventsForTask } from "./calendarEvents";
+import { microsoftCalendarProvider } from './calendar/MicrosoftCalendarProvider';
+import { calDavCalendarProvider } from './calendar/CalDavCalendarProvider';
+import { TaskDependencyService, COMPLETED_STATUS } from './services/TaskDependencyService';
+import { ProjectKickoffService } from './services/ProjectKickoffService';
+import { TaskTemplateService } from './services/TaskTemplateService';
+import { RecurrenceService } from './services/RecurrenceService';
+import { TimeTrackingService } from './services/TimeTrackingService';
+import { InvoiceService } from './services/InvoiceService';
+import { QuoteParserService, QuoteTooLargeError } from './services/QuoteParserService';
+import { ProposalConversionService } from './services/ProposalConversionService';
+import { ProposalPortalService } from './services/ProposalPortalService';
+import { IcalFeedService } from './services/IcalFeedService';
+import { ApprovalService, APPROVALS_LINK } from './services/ApprovalService';
+import { FileVersionService } from './services/FileVersionService';
+import { FileStorageService } from './services/FileStorageService';
+import { MessageService } from './services/MessageService';
+import { RealtimeService } from './services/RealtimeService';
+import { AccessService } from './services/AccessService';
+import { SearchService } from './services/SearchService';
+import { TaskQueryService } from './services/TaskQueryService';
+import { localDiskStorageDriver, verifyLocalSignedUrl } from './fileStorage/LocalDiskStorageDriver';
+import { contentDisposition, fileDelivery, FILE_RESPONSE_HEADERS } from './fileStorage/FileStorageDriver';
+import { JobQueueService } from './services/JobQueueService';
+import { CalendarPullService } from './services/CalendarPullService';
+import { JOB_TYPES, queueCalendarUpsert } from './jobs/handlers';
+import { normalizeRRule } from '@shared/recurrence';
+import { isStaffRole } from '@shared/permissions';
+import { resolveTimezone, isValidTimezone } from '@shared/timezone';
 
 // Configure multer for file uploads
 const uploadDir = path.join(process.cwd(), "uploads");
@@ -58,14 +85,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (req.user?.claims?.sub) {
         const replitUser = req.user.claims;
         
-        // Always ensure user exists in database with admin role
+        // Ensure the user exists in the database; their role is left as it is
         await storage.upsertUser({
           id: replitUser.sub,
           email: replitUser.email,
           firstName: replitUser.first_name || '',
           lastName: replitUser.last_name || '',
           profileImageUrl: replitUser.profile_image_url || '',
-          role: 'admin' // Always set admin for testing
         });
         
         user = await storage.getUser(replitUser.sub);
@@ -112,7 +138,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Lightweight API route for manual sync with UI integration
+  // Manual "Sync Calendar" button: the requester's own event is pushed now, other assignees' are queued
   app.post('/api/tasks/:id/sync-calendar', isAuthenticated, async (req: any, res) => {
     try {
       const taskId = req.params.id;
@@ -131,52 +157,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         assignment.teamMember?.email === user?.email
       );
       
-      if (user?.role !== 'admin' && !isAssigned) {
+      if (!AccessService.can(user, 'tasks.manage') && !isAssigned) {
         return res.status(403).json({ message: "Not authorized to sync this task" });
       }
       
-      // Trigger the calendar sync using the unified system
-      await syncAllCalendarEventsForTask(taskId);
-      
-      // Get the first assignment's calendar event for the response
-      let eventId = null;
-      let htmlLink = null;
-      
-      if (assignments.length > 0) {
-        const assignment = assignments[0];
-        if (assignment.teamMember?.email) {
-          // Get user by email and check for calendar event
-          const assigneeUser = await storage.getUserByEmail(assignment.teamMember.email);
-          if (assigneeUser) {
-            const { pool } = await import('./db');
-            const eventResult = await pool.query(
-              'SELECT event_id FROM task_google_events WHERE task_id = $1 AND user_id = $2',
-              [taskId, assigneeUser.id]
-            );
-            
-            if (eventResult.rows.length > 0) {
-              eventId = eventResult.rows[0].event_id;
-              
-              // Try to get the htmlLink from Google Calendar
-              try {
-                const { googleCalendarService } = await import('./googleCalendar');
-                const event = await googleCalendarService.getEvent(assigneeUser.id, eventId);
-                htmlLink = event?.htmlLink || null;
-              } catch (error) {
-                console.warn('Could not fetch event htmlLink:', error);
-              }
-            }
-          }
+      let queued = 0;
+      for (const assignment of assignments) {
+        const assignee = await storage.getUserByEmail(assignment.teamMember.email);
+        if (assignee && assignee.id !== userId) {
+          await queueCalendarUpsert(taskId, assignee.id);
+          queued++;
         }
       }
-      
-      res.json({ 
-        ok: true, 
-        success: true, 
-        message: "Calendar sync completed successfully",
-        eventId,
-        htmlLink
-      });
+
+      if (!isAssigned) {
+        return res.json({ ok: true, queued });
+      }
+
+      const result = await CalendarService.syncTask(taskId, userId);
+      if (!result.ok) {
+        return res.status(400).json({ ...result, queued, message: result.error });
+      }
+      res.json({ ...result, queued });
     } catch (error) {
       console.error("Error syncing task calendar:", error);
       res.status(500).json({ 
@@ -395,6 +397,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Temporary route to upgrade current user to admin (for development)
   app.post('/api/auth/upgrade-to-admin', isAuthenticated, async (req: any, res) => {
+    if (process.env.NODE_ENV !== 'development') {
+      return res.status(404).json({ message: "Not found" });
+    }
     try {
       const userId = req.user.claims.sub;
       const claims = req.user.claims;
@@ -428,64 +433,45 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       let projects: any[];
-      if (user.role === 'admin') {
+      if (AccessService.can(user, 'projects.view_all')) {
         // Admins can see all projects - for now just return empty array
         // In a real implementation, you'd have a method to get all projects
         projects = [];
       } else {
-        projects = await storage.getProjectsByClient(userId);
+        projects = await AccessService.visibleProjects(user);
       }
       
-      res.json(projects);
+      res.json(projects.map(project => AccessService.redactProject(user, project)));
     } catch (error) {
       console.error("Error fetching projects:", error);
       res.status(500).json({ message: "Failed to fetch projects" });
     }
   });
 
-  app.get('/api/projects/:id', isAuthenticated, async (req: any, res) => {
+  app.get('/api/projects/:id', isAuthenticated, authorize('project.view', projectParam('id')), async (req: any, res) => {
     try {
-      const project = await storage.getProject(req.params.id);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      // Check access permissions
-      if (user?.role !== 'admin' && project.clientId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
-      res.json(project);
+      res.json(AccessService.redactProject(req.currentUser, req.project));
     } catch (error) {
       console.error("Error fetching project:", error);
       res.status(500).json({ message: "Failed to fetch project" });
     }
   });
 
-  app.post('/api/projects', isAuthenticated, async (req: any, res) => {
+  app.post('/api/projects', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can create projects" });
-      }
-
       const projectData = insertProjectSchema.parse(req.body);
       const project = await storage.createProject(projectData);
       
-      // Auto-generate tasks for Faces of Kelowna services
+      // Kick off template tasks for the service (no-op when the service has no templates)
       if (project.serviceId) {
-        const service = await storage.getServices();
-        const selectedService = service.find(s => s.id === project.serviceId);
-        if (selectedService && selectedService.name.includes('Faces of Kelowna')) {
-          await storage.createTasksFromTemplates(project.id, project.serviceId);
+        const startDate = ProjectKickoffService.parseStartDate(project.startDate);
+        if (startDate) {
+          await ProjectKickoffService.kickoff(project.id, project.serviceId, startDate, userId);
         }
       }
       
+      RealtimeService.publish({ entity: 'project', action: 'created', id: project.id, projectId: project.id });
       res.status(201).json(project);
     } catch (error) {
       console.error("Error creating project:", error);
@@ -493,22 +479,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Project status update route
-  app.put('/api/admin/projects/:projectId/status', isAuthenticated, async (req: any, res) => {
+  // Preview the schedule a template kickoff would generate, without creating anything
+  app.get('/api/admin/projects/:projectId/kickoff/preview', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
+    try {
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+
+      const serviceId = (req.query.serviceId as string) || project.serviceId;
+      if (!serviceId) {
+        return res.status(400).json({ message: "A service is required to kick off a project" });
+      }
+
+      const startDate = ProjectKickoffService.parseStartDate((req.query.startDate as string) || project.startDate);
+      if (!startDate) {
+        return res.status(400).json({ message: "Invalid start date" });
+      }
+
+      const schedule = await ProjectKickoffService.buildSchedule(serviceId, startDate);
+      res.json(schedule);
+    } catch (error: any) {
+      console.error("Error previewing project kickoff:", error);
+      if (error.message?.startsWith('Dependency cycle')) {
+        return res.status(400).json({ message: `Service templates contain a ${error.message.charAt(0).toLowerCase()}${error.message.slice(1)}` });
+      }
+      res.status(500).json({ message: "Failed to preview project kickoff" });
+    }
+  });
+
+  // Create scheduled, assigned tasks from the service templates
+  app.post('/api/admin/projects/:projectId/kickoff', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can update project status" });
+      const project = await storage.getProject(req.params.projectId);
+      if (!project) {
+        return res.status(404).json({ message: "Project not found" });
       }
 
+      const serviceId = req.body.serviceId || project.serviceId;
+      if (!serviceId) {
+        return res.status(400).json({ message: "A service is required to kick off a project" });
+      }
+
+      const startDate = ProjectKickoffService.parseStartDate(req.body.startDate || project.startDate);
+      if (!startDate) {
+        return res.status(400).json({ message: "Invalid start date" });
+      }
+
+      // Guard against generating the template tasks twice
+      const existingTasks = await storage.getTasksByProject(project.id);
+      if (req.body.force !== true && existingTasks.some(task => task.serviceId === serviceId)) {
+        return res.status(409).json({ message: "This project already has tasks for the selected service" });
+      }
+
+      const result = await ProjectKickoffService.kickoff(project.id, serviceId, startDate, userId);
+      RealtimeService.publish({ entity: 'project', action: 'updated', id: project.id, projectId: project.id });
+      res.status(201).json(result);
+    } catch (error: any) {
+      console.error("Error kicking off project:", error);
+      if (error.message?.startsWith('Dependency cycle')) {
+        return res.status(400).json({ message: `Service templates contain a ${error.message.charAt(0).toLowerCase()}${error.message.slice(1)}` });
+      }
+      res.status(500).json({ message: "Failed to kick off project" });
+    }
+  });
+
+  // Project status update route
+  app.put('/api/admin/projects/:projectId/status', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
+    try {
       const { status } = req.body;
       if (!status || !['active', 'pending', 'on_hold', 'completed'].includes(status)) {
         return res.status(400).json({ message: "Invalid status value" });
       }
 
       const project = await storage.updateProject(req.params.projectId, { status });
+      RealtimeService.publish({ entity: 'project', action: 'updated', id: project.id, projectId: project.id });
       res.json(project);
     } catch (error) {
       console.error("Error updating project status:", error);
@@ -517,15 +563,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Project reordering route
-  app.put('/api/admin/organizations/:orgId/projects/reorder', isAuthenticated, async (req: any, res) => {
+  app.put('/api/admin/organizations/:orgId/projects/reorder', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can reorder projects" });
-      }
-
       const { projectOrders } = req.body;
       if (!Array.isArray(projectOrders)) {
         return res.status(400).json({ message: "Invalid project orders data" });
@@ -540,15 +579,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Task routes
-  app.get('/api/admin/tasks', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/tasks', isAuthenticated, authorize('projects.view_all'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can view all tasks" });
-      }
-
       const tasks = await storage.getAllTasksWithDetails();
       res.json(tasks);
     } catch (error) {
@@ -557,21 +589,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/projects/:projectId/tasks', isAuthenticated, async (req: any, res) => {
+  // Filtered, sorted, cursor-paged tasks, e.g. ?status=in_progress,outstanding&overdue=true&sortBy=due&sortDir=asc
+  app.get('/api/admin/tasks/query', isAuthenticated, authorize('projects.view_all'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      const project = await storage.getProject(req.params.projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      const result = await TaskQueryService.query(req.currentUser, req.query);
+      if (!result.ok) {
+        return res.status(result.notFound ? 404 : 400).json({ message: result.error });
       }
 
-      // Check access permissions
-      if (user?.role !== 'admin' && project.clientId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error querying tasks:", error);
+      res.status(500).json({ message: "Failed to fetch tasks" });
+    }
+  });
+
+  // Per-status totals for the same filters; boards show these rather than counting the pages they have loaded
+  app.get('/api/admin/tasks/status-counts', isAuthenticated, authorize('projects.view_all'), async (req: any, res) => {
+    try {
+      const result = await TaskQueryService.statusCounts(req.currentUser, req.query);
+      if (!result.ok) {
+        return res.status(result.notFound ? 404 : 400).json({ message: result.error });
+      }
+
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error counting tasks:", error);
+      res.status(500).json({ message: "Failed to count tasks" });
+    }
+  });
+
+  // Saved task views: your own plus the ones shared with the team
+  app.get('/api/admin/task-views', isAuthenticated, authorize('projects.view_all'), async (req: any, res) => {
+    try {
+      res.json(await TaskQueryService.listViews(req.currentUser));
+    } catch (error) {
+      console.error("Error fetching task views:", error);
+      res.status(500).json({ message: "Failed to fetch task views" });
+    }
+  });
+
+  app.post('/api/admin/task-views', isAuthenticated, authorize('projects.view_all'), async (req: any, res) => {
+    try {
+      const parsed = taskViewInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid task view", errors: parsed.error.errors });
+      }
+
+      const view = await TaskQueryService.createView(req.currentUser, parsed.data);
+      res.status(201).json(view);
+    } catch (error) {
+      console.error("Error saving task view:", error);
+      res.status(500).json({ message: "Failed to save task view" });
+    }
+  });
+
+  app.put('/api/admin/task-views/:id', isAuthenticated, authorize('projects.view_all'), async (req: any, res) => {
+    try {
+      const parsed = taskViewUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid task view", errors: parsed.error.errors });
+      }
+
+      const result = await TaskQueryService.updateView(req.currentUser, req.params.id, parsed.data);
+      if (!result.ok) {
+        return res.status(result.notFound ? 404 : 403).json({ message: result.error });
+      }
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error updating task view:", error);
+      res.status(500).json({ message: "Failed to update task view" });
+    }
+  });
+
+  app.delete('/api/admin/task-views/:id', isAuthenticated, authorize('projects.view_all'), async (req: any, res) => {
+    try {
+      const result = await TaskQueryService.deleteView(req.currentUser, req.params.id);
+      if (!result.ok) {
+        return res.status(result.notFound ? 404 : 403).json({ message: result.error });
+      }
+      res.json({ message: "Task view deleted" });
+    } catch (error) {
+      console.error("Error deleting task view:", error);
+      res.status(500).json({ message: "Failed to delete task view" });
+    }
+  });
+
+  // Task board WIP limits: agency-wide, and per project
+  app.get('/api/admin/board/wip-limits', isAuthenticated, authorize('projects.view_all'), async (req: any, res) => {
+    try {
+      res.json(await storage.getWipLimits(null));
+    } catch (error) {
+      console.error("Error fetching WIP limits:", error);
+      res.status(500).json({ message: "Failed to fetch WIP limits" });
+    }
+  });
+
+  app.put('/api/admin/board/wip-limits', isAuthenticated, authorize('tasks.manage'), async (req: any, res) => {
+    try {
+      const parsed = wipLimitsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid WIP limits", errors: parsed.error.errors });
+      }
+
+      res.json(await storage.setWipLimits(null, parsed.data, req.currentUser.id));
+    } catch (error) {
+      console.error("Error saving WIP limits:", error);
+      res.status(500).json({ message: "Failed to save WIP limits" });
+    }
+  });
+
+  app.get('/api/projects/:projectId/board/wip-limits', isAuthenticated, authorize('project.view', projectParam('projectId')), async (req: any, res) => {
+    try {
+      res.json(await storage.getWipLimits(req.params.projectId));
+    } catch (error) {
+      console.error("Error fetching WIP limits:", error);
+      res.status(500).json({ message: "Failed to fetch WIP limits" });
+    }
+  });
+
+  app.put('/api/projects/:projectId/board/wip-limits', isAuthenticated, authorize('tasks.manage', projectParam('projectId')), async (req: any, res) => {
+    try {
+      const parsed = wipLimitsSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid WIP limits", errors: parsed.error.errors });
       }
 
+      res.json(await storage.setWipLimits(req.params.projectId, parsed.data, req.currentUser.id));
+    } catch (error) {
+      console.error("Error saving WIP limits:", error);
+      res.status(500).json({ message: "Failed to save WIP limits" });
+    }
+  });
+
+  app.get('/api/projects/:projectId/tasks', isAuthenticated, authorize('project.view', projectParam('projectId')), async (req: any, res) => {
+    try {
       const tasks = await storage.getTasksByProjectWithDetails(req.params.projectId);
       res.json(tasks);
     } catch (error: any) {
@@ -580,15 +732,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/projects/:projectId/tasks', isAuthenticated, async (req: any, res) => {
+  // Task dependency graph with blocked flags and critical path
+  app.get('/api/projects/:projectId/task-graph', isAuthenticated, authorize('project.view', projectParam('projectId')), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can create tasks" });
+      const graph = await TaskDependencyService.getProjectGraph(req.params.projectId);
+      res.json(graph);
+    } catch (error: any) {
+      console.error("Error building task graph:", error);
+      res.status(500).json({ message: "Failed to build task graph" });
+    }
+  });
+
+  // Preview the next occurrences of an RRULE (used by the task forms' repeat picker)
+  app.get('/api/recurrence/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const { rule, start, timezone } = req.query as { rule?: string; start?: string; timezone?: string };
+      const preview = RecurrenceService.preview(rule || '', start, timezone);
+      if (!preview.ok) {
+        return res.status(400).json({ message: preview.error });
       }
 
+      res.json(preview.preview);
+    } catch (error) {
+      console.error("Error previewing recurrence:", error);
+      res.status(500).json({ message: "Failed to preview recurrence" });
+    }
+  });
+
+  app.post('/api/projects/:projectId/tasks', isAuthenticated, authorize('tasks.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = req.currentUser;
+      
       const { selectedTeamMembers = [], ...bodyData } = req.body;
       
       // Compute due_at using new CalendarService time normalization
@@ -597,10 +772,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         projectId: req.params.projectId
       };
 
-      // Normalize due_at using Luxon (America/Vancouver)
+      // Normalize due_at using Luxon in the creator's timezone (browser zone, then saved preference)
+      const creatorTimezone = resolveTimezone(bodyData.timezone, user.timezone);
       if (bodyData.dueDate) {
         try {
-          finalTaskData.dueAt = CalendarService.computeDueAt(bodyData.dueDate, bodyData.dueTime);
+          finalTaskData.dueAt = CalendarService.computeDueAt(bodyData.dueDate, bodyData.dueTime, creatorTimezone);
         } catch (error: any) {
           console.warn('Time computation failed:', error.message);
           // Keep original data if time computation fails
@@ -608,6 +784,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       const taskData = insertTaskSchema.parse(finalTaskData);
+
+      // Recurring tasks: validate the RRULE up front; the series is started once the task exists
+      if (taskData.recurrenceRule) {
+        const ruleCheck = normalizeRRule(taskData.recurrenceRule);
+        if (!ruleCheck.ok) {
+          return res.status(400).json({ message: `Invalid recurrence rule: ${ruleCheck.error}` });
+        }
+        if (!taskData.dueAt) {
+          return res.status(400).json({ message: "Recurring tasks need a due date and time" });
+        }
+      }
+      const { recurrenceRule, recurrenceTimezone } = taskData;
+      delete taskData.recurrenceRule;
+      delete taskData.recurrenceSeriesId;
+      delete taskData.recurrenceOccurrenceAt;
+
+      // Validate dependencies (same project, no deleted tasks, no cycles)
+      const dependencyCheck = await TaskDependencyService.validateDependencies(null, req.params.projectId, taskData.dependencies);
+      if (!dependencyCheck.ok) {
+        return res.status(400).json({ message: dependencyCheck.error });
+      }
+      taskData.dependencies = dependencyCheck.dependencies;
       
       // Remove timezone from the final data (not a database field)
       delete (finalTaskData as any).timezone;
@@ -619,16 +817,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       try {
         // Create the task (pass the validated taskData, not finalTaskData)
         task = await storage.createTask(taskData);
-        console.log('Created task:', { taskId: task.id, title: task.title, dueDate: task.dueDate, dueTime: task.dueTime });
-        
-        // Auto-sync calendar events for task using new system
-        try {
-          await AutoCalendarSync.onTaskChanged(task.id);
-          console.log(`Auto-synced calendar events for task ${task.id}`);
-        } catch (calendarError) {
-          console.warn('Auto calendar sync failed:', calendarError);
-          // Don't fail task creation if calendar sync fails
+        if (recurrenceRule) {
+          const seriesResult = await RecurrenceService.startSeries(task, recurrenceRule, recurrenceTimezone || creatorTimezone);
+          task = seriesResult.task ?? task;
         }
+        console.log('Created task:', { taskId: task.id, title: task.title, dueDate: task.dueDate, dueTime: task.dueTime });
         
         // Create task assignments for each selected team member
         for (const teamMemberId of selectedTeamMembers) {
@@ -662,21 +855,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
             const project = await storage.getProject(req.params.projectId!);
             
             if (teamMember && project) {
-              await emailService.sendTaskAssignmentNotification(
-                teamMember.email,
-                teamMember.name,
-                task.title,
-                project.name,
-                {
+              await JobQueueService.enqueue(JOB_TYPES.taskAssignmentEmail, {
+                to: teamMember.email,
+                name: teamMember.name,
+                taskTitle: task.title,
+                projectName: project.name,
+                options: {
                   priority: task.priority ?? undefined,
                   assignedBy: `${user.firstName ?? ''} ${user.lastName ?? ''}`,
                   dueDate: task.dueDate ? new Date(task.dueDate).toLocaleDateString() : undefined,
+                  dueAt: task.dueAt,
+                  timezone: teamMember.timezone,
                   notes: task.notes ?? undefined,
-                }
-              );
+                },
+              }, { idempotencyKey: `${JOB_TYPES.taskAssignmentEmail}:${assignment.id}` });
             }
           } catch (emailError) {
-            console.error("Failed to send task assignment email:", emailError);
+            console.error("Failed to queue task assignment email:", emailError);
             // Don't fail the task creation if email fails
           }
         }
@@ -691,20 +886,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
         
-        // Auto-sync calendar event if eligible
-        try {
-          const { calendarAutoSync } = await import('./calendarAutoSync');
-          const syncResult = await calendarAutoSync.syncTaskIfEligible(task.id, userId);
-          if (syncResult.ok) {
-            console.log(`Auto-synced calendar for task ${task.id}:`, syncResult.eventId);
-          } else {
-            console.log(`Auto-sync skipped for task ${task.id}:`, syncResult.error);
+        // Generate upcoming occurrences now that there are assignments to copy onto them
+        if (task.recurrenceRule) {
+          try {
+            await RecurrenceService.extendSeries(task);
+          } catch (recurrenceError) {
+            console.error('Failed to generate occurrences for task:', task.id, recurrenceError);
           }
-        } catch (calendarError) {
-          console.error('Auto-sync error for task:', task.id, calendarError);
-          // Don't fail task creation if calendar sync fails
         }
 
+        RealtimeService.publish({ entity: 'task', action: 'created', id: task.id, projectId: task.projectId });
         res.status(201).json({ task, assignments });
       } catch (transactionError) {
         console.error('Task creation transaction failed:', transactionError);
@@ -738,8 +929,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return assignment.teamMember?.email === user.email;
       });
       
-      // Allow access if user is admin or assigned to task
-      if (user.role !== 'admin' && !isAssigned) {
+      // Allow access if user manages tasks or is assigned to this one
+      if (!AccessService.can(user, 'tasks.manage') && !isAssigned) {
         return res.status(403).json({ message: 'Not authorized to view this task' });
       }
       
@@ -750,37 +941,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Lightweight manual sync endpoint for UI integration
-  app.post('/api/tasks/:id/sync-calendar', isAuthenticated, async (req: any, res) => {
-    try {
-      const taskId = req.params.id;
-      const userId = req.user.claims.sub;
-      
-      // Get task and verify access
-      const task = await storage.getTask(taskId);
-      if (!task) {
-        return res.status(404).json({ message: 'Task not found' });
-      }
-      
-      const assignments = await storage.getTaskAssignments(taskId);
-      const user = await storage.getUser(userId);
-      const isAssigned = assignments.some(assignment => 
-        assignment.teamMember?.email === user.email
-      );
-      
-      if (user.role !== 'admin' && !isAssigned) {
-        return res.status(403).json({ message: 'Not authorized to sync this task' });
-      }
-      
-      // Use new auto-sync system
-      await AutoCalendarSync.onTaskChanged(taskId);
-      res.json({ ok: true, message: 'Calendar sync triggered successfully' });
-    } catch (error) {
-      console.error('Manual sync error:', error);
-      res.status(500).json({ message: 'Failed to sync calendar' });
-    }
-  });
-
   app.put('/api/tasks/:id', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -800,12 +960,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return assignment.teamMember?.email === user.email;
       });
       
-      if (user.role !== 'admin' && !isAssigned) {
+      if (!AccessService.can(user, 'tasks.manage') && !(isAssigned && AccessService.can(user, 'tasks.update_assigned'))) {
         return res.status(403).json({ message: 'Not authorized to edit this task' });
       }
 
       // Parse and validate the request body
-      const { title, description, status, priority, dueDate, dueTime, timezone, assigneeUserIds } = req.body;
+      const { title, description, status, priority, dueDate, dueTime, timezone, assigneeUserIds, dependencies, overrideDependencies, recurrenceRule, recurrenceTimezone, recurrenceScope = 'this' } = req.body;
       
       // SAFEGUARD: Prevent accidental unassignment when assigneeUserIds is not explicitly provided
       const isAssignmentUpdate = 'assigneeUserIds' in req.body;
@@ -824,7 +984,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (dueDate) {
         try {
           const { computeDueAt } = await import('./utils/timeHandling');
-          const timeResult = computeDueAt(dueDate, dueTime);
+          const timeResult = computeDueAt(dueDate, dueTime, resolveTimezone(timezone, user.timezone));
           updateData.dueAt = timeResult.due_at;
           updateData.dueTime = timeResult.due_time_db;
           updateData.dueDate = timeResult.due_date_db ? new Date(timeResult.due_date_db) : updateData.dueDate;
@@ -834,6 +994,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
+      // Validate dependency changes against the project graph
+      if (dependencies !== undefined) {
+        const dependencyCheck = await TaskDependencyService.validateDependencies(taskId, existingTask.projectId, dependencies);
+        if (!dependencyCheck.ok) {
+          return res.status(400).json({ message: dependencyCheck.error });
+        }
+        updateData.dependencies = dependencyCheck.dependencies;
+      }
+
+      // Recurrence changes always apply to the series from this occurrence onwards
+      const isRuleUpdate = 'recurrenceRule' in req.body;
+      if (recurrenceScope !== 'this' && recurrenceScope !== 'following') {
+        return res.status(400).json({ message: "recurrenceScope must be 'this' or 'following'" });
+      }
+      if (isRuleUpdate && recurrenceRule) {
+        const ruleCheck = normalizeRRule(recurrenceRule);
+        if (!ruleCheck.ok) {
+          return res.status(400).json({ message: `Invalid recurrence rule: ${ruleCheck.error}` });
+        }
+        if (!(updateData.dueAt ?? existingTask.dueAt)) {
+          return res.status(400).json({ message: "Recurring tasks need a due date and time" });
+        }
+      }
+      if (recurrenceTimezone) {
+        updateData.recurrenceTimezone = recurrenceTimezone;
+      }
+
       // Remove undefined values
       Object.keys(updateData).forEach(key => {
         if (updateData[key] === undefined) {
@@ -841,18 +1028,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       });
 
-      // Update the task
-      const updatedTask = await storage.updateTask(taskId, updateData);
+      // Completion is blocked while upstream tasks are open; task managers may override explicitly,
+      // e.g. when a prerequisite was handled outside the app
+      const update = await TaskDependencyService.updateTask(existingTask, updateData, {
+        overrideDependencies: overrideDependencies === true && AccessService.can(user, 'tasks.manage'),
+      });
+      if (!update.ok) {
+        return res.status(409).json({ message: update.error, blockedBy: update.blockedBy });
+      }
+      const { blockedBy } = update;
+      let updatedTask = update.value!;
 
-      // Auto-sync calendar event using new system (single call to avoid double-sync)
-      try {
-        await AutoCalendarSync.onTaskChanged(taskId);
-        console.log(`Auto-synced calendar for updated task ${taskId}`);
-      } catch (calendarError) {
-        console.error('Auto-sync error for updated task:', taskId, calendarError);
-        // Don't fail task update if calendar sync fails
+      // Apply recurrence edits: "this occurrence" is the plain update above, "this and following" splits the series
+      if (existingTask.recurrenceSeriesId && (recurrenceScope === 'following' || isRuleUpdate)) {
+        const seriesResult = await RecurrenceService.splitSeries(updatedTask, userId, isRuleUpdate ? recurrenceRule || null : undefined);
+        updatedTask = seriesResult.task ?? updatedTask;
+      } else if (!existingTask.recurrenceSeriesId && isRuleUpdate && recurrenceRule) {
+        const seriesResult = await RecurrenceService.startSeries(updatedTask, recurrenceRule, recurrenceTimezone);
+        updatedTask = seriesResult.task ?? updatedTask;
       }
 
+      // Queue calendar updates for every assignee (single call to avoid double-sync)
+      await onTaskCreatedOrUpdated(taskId);
+
       // Handle assignment changes ONLY if explicitly provided in request body
       // This prevents accidental unassignment when updating other task fields
       if (isAssignmentUpdate && assigneeUserIds !== undefined && assigneeUserIds !== null && Array.isArray(assigneeUserIds)) {
@@ -869,10 +1067,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         for (const assignment of currentAssignments) {
           if (toRemove.includes(assignment.teamMemberId)) {
             console.log(`[TASK-UPDATE-SAFEGUARD] Removing assignment: task ${taskId} ← teamMember ${assignment.teamMemberId}`);
-            await storage.deleteTaskAssignment(assignment.id);
-            // Fire calendar hook for removal
+            // Fire calendar hook for removal (while the assignment can still be looked up)
             const { onAssignmentDeleted } = await import('./hooks/taskCalendarHooks');
             await onAssignmentDeleted(assignment.id);
+            await storage.deleteTaskAssignment(assignment.id);
           }
         }
         
@@ -890,7 +1088,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
-      // Note: Calendar sync is handled above in the AutoCalendarSync.onTaskChanged() call
+      // Completing an occurrence queues up the next one (after assignment changes, so they carry over)
+      let nextOccurrence = null;
+      if (status === COMPLETED_STATUS && existingTask.status !== COMPLETED_STATUS && updatedTask.recurrenceSeriesId) {
+        try {
+          nextOccurrence = await RecurrenceService.onOccurrenceCompleted(updatedTask);
+        } catch (recurrenceError) {
+          console.error('Failed to generate next occurrence for task:', taskId, recurrenceError);
+        }
+      }
+
+      // Note: Calendar sync is handled above in the onTaskCreatedOrUpdated() call
       // Removed duplicate calendar sync to prevent conflicts
 
       // SAFEGUARD: Verify task still has assignments after update
@@ -899,7 +1107,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         console.warn(`[TASK-UPDATE-WARNING] Task ${taskId} (${updatedTask.title}) has no assignments after update. This might be unintentional.`);
       }
       
-      res.json({ task: updatedTask });
+      RealtimeService.publish({ entity: 'task', action: 'updated', id: updatedTask.id, projectId: updatedTask.projectId });
+      res.json({ task: updatedTask, blockedBy, nextOccurrence });
     } catch (error) {
       console.error('Error updating task:', error);
       res.status(500).json({ message: 'Failed to update task' });
@@ -920,8 +1129,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Team member not found" });
       }
       
-      // Allow access if user is admin or if the team member's email matches the user's email
-      if (user?.role !== 'admin' && user?.email !== teamMember.email) {
+      // Allow access if user manages tasks or if the team member's email matches the user's email
+      if (!AccessService.can(user, 'tasks.manage') && user?.email !== teamMember.email) {
         return res.status(403).json({ message: "Access denied" });
       }
 
@@ -950,12 +1159,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Assignment not found" });
       }
       
-      // Allow access if user is admin or if the assignment belongs to a team member with matching email
-      if (user?.role !== 'admin' && user?.email !== assignment.teamMember.email) {
+      // Allow access if user manages tasks or if the assignment belongs to a team member with matching email
+      if (!AccessService.can(user, 'tasks.manage') && user?.email !== assignment.teamMember.email) {
         return res.status(403).json({ message: "Access denied" });
       }
 
       const updatedAssignment = await storage.updateTaskAssignment(assignmentId, updates);
+      RealtimeService.publish({ entity: 'assignment', action: 'updated', id: assignmentId, taskId: assignment.taskId });
       res.json(updatedAssignment);
     } catch (error) {
       console.error("Error updating task assignment:", error);
@@ -963,15 +1173,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/admin/task-assignments', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/task-assignments', isAuthenticated, authorize('projects.view_all'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can view all task assignments" });
-      }
-
       // Get all task assignments with team member and task details
       const allAssignments = await storage.getAllTaskAssignments();
       res.json(allAssignments);
@@ -981,15 +1184,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/tasks/:taskId/assignments', isAuthenticated, async (req: any, res) => {
+  app.get('/api/tasks/:taskId/assignments', isAuthenticated, authorize('tasks.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can view task assignments" });
-      }
-
       const assignments = await storage.getTaskAssignments(req.params.taskId);
       res.json(assignments);
     } catch (error) {
@@ -998,15 +1194,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/tasks/:taskId/assignments', isAuthenticated, async (req: any, res) => {
+  app.post('/api/tasks/:taskId/assignments', isAuthenticated, authorize('tasks.manage'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
+      const user = req.currentUser;
       
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can create task assignments" });
-      }
-
       const validation = insertTaskAssignmentSchema.safeParse({
         ...req.body,
         taskId: req.params.taskId,
@@ -1026,26 +1218,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const project = task ? await storage.getProject(task.projectId) : null;
         
         if (teamMember && task && project) {
-          await emailService.sendTaskAssignmentNotification(
-            teamMember.email,
-            teamMember.name,
-            task.title,
-            project.name,
-            {
+          await JobQueueService.enqueue(JOB_TYPES.taskAssignmentEmail, {
+            to: teamMember.email,
+            name: teamMember.name,
+            taskTitle: task.title,
+            projectName: project.name,
+            options: {
               priority: task.priority,
               assignedBy: `${user.firstName} ${user.lastName}`,
               dueDate: task.dueDate ? new Date(task.dueDate).toLocaleDateString() : undefined,
+              dueAt: task.dueAt,
+              timezone: teamMember.timezone,
               notes: assignment.notes || undefined,
-            }
-          );
+            },
+          }, { idempotencyKey: `${JOB_TYPES.taskAssignmentEmail}:${assignment.id}` });
         }
       } catch (emailError) {
-        console.error("Failed to send task assignment email:", emailError);
+        console.error("Failed to queue task assignment email:", emailError);
       }
 
       // Calendar hook: Assignment created
       await onAssignmentCreated(assignment.id);
 
+      RealtimeService.publish({ entity: 'assignment', action: 'created', id: assignment.id, taskId: assignment.taskId });
       res.status(201).json(assignment);
     } catch (error) {
       console.error("Error creating task assignment:", error);
@@ -1065,8 +1260,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Team member not found" });
       }
       
-      // Allow access if user is admin or if the team member's email matches the user's email
-      if (user?.role !== 'admin' && user?.email !== teamMember.email) {
+      // Allow access if user manages tasks or if the team member's email matches the user's email
+      if (!AccessService.can(user, 'tasks.manage') && user?.email !== teamMember.email) {
         return res.status(403).json({ message: "Access denied" });
       }
 
@@ -1078,15 +1273,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/assignments/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/assignments/:id', isAuthenticated, authorize('tasks.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can update task assignments" });
-      }
-
       const updates: any = {};
       
       // Only copy non-undefined values from request body
@@ -1109,6 +1297,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       updates.updatedAt = new Date();
 
       const assignment = await storage.updateTaskAssignment(req.params.id, updates);
+      RealtimeService.publish({ entity: 'assignment', action: 'updated', id: assignment.id, taskId: assignment.taskId });
       res.json(assignment);
     } catch (error) {
       console.error("Error updating task assignment:", error);
@@ -1116,19 +1305,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/assignments/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/assignments/:id', isAuthenticated, authorize('tasks.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can delete task assignments" });
-      }
+      const existing = await storage.getTaskAssignment(req.params.id);
 
       // Calendar hook: Assignment deleted
       await onAssignmentDeleted(req.params.id);
       
       await storage.deleteTaskAssignment(req.params.id);
+      if (existing) {
+        RealtimeService.publish({ entity: 'assignment', action: 'deleted', id: existing.id, taskId: existing.taskId });
+      }
       res.status(204).send();
     } catch (error) {
       console.error("Error deleting task assignment:", error);
@@ -1136,53 +1323,227 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // File routes
-  app.get('/api/projects/:projectId/files', isAuthenticated, async (req: any, res) => {
+  // Time tracking routes (team members track their own assignments; admins can manage all)
+  app.get('/api/task-assignments/:assignmentId/time-entries', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      const project = await storage.getProject(req.params.projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      const assignment = await storage.getTaskAssignmentById(req.params.assignmentId);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
       }
-
-      // Check access permissions
-      if (user?.role !== 'admin' && project.clientId !== userId) {
+      if (!(await TimeTrackingService.canAccess(user, assignment.teamMemberId))) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      const files = await storage.getFilesByProject(req.params.projectId);
-      res.json(files);
+      const entries = await storage.getTimeEntriesForAssignment(assignment.id);
+      res.json(entries);
     } catch (error) {
-      console.error("Error fetching files:", error);
-      res.status(500).json({ message: "Failed to fetch files" });
+      console.error("Error fetching time entries:", error);
+      res.status(500).json({ message: "Failed to fetch time entries" });
     }
   });
 
-  app.post('/api/projects/:projectId/files', isAuthenticated, upload.single('file'), async (req: any, res) => {
+  app.post('/api/task-assignments/:assignmentId/timer/start', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      const project = await storage.getProject(req.params.projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      const assignment = await storage.getTaskAssignmentById(req.params.assignmentId);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
       }
-
-      // Check access permissions
-      if (user?.role !== 'admin' && project.clientId !== userId) {
+      if (!(await TimeTrackingService.canAccess(user, assignment.teamMemberId))) {
         return res.status(403).json({ message: "Access denied" });
       }
 
-      if (!req.file) {
-        return res.status(400).json({ message: "No file uploaded" });
+      const result = await TimeTrackingService.startTimer(assignment, userId, req.body?.notes);
+      if (!result.ok) {
+        return res.status(409).json({ message: result.error });
       }
+      res.status(201).json(result.entry);
+    } catch (error) {
+      console.error("Error starting timer:", error);
+      res.status(500).json({ message: "Failed to start timer" });
+    }
+  });
 
+  app.post('/api/time-entries/:entryId/stop', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const entry = await storage.getTimeEntry(req.params.entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+      if (!(await TimeTrackingService.canAccess(user, entry.teamMemberId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const result = await TimeTrackingService.stopTimer(entry, req.body?.notes);
+      if (!result.ok) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json(result.entry);
+    } catch (error) {
+      console.error("Error stopping timer:", error);
+      res.status(500).json({ message: "Failed to stop timer" });
+    }
+  });
+
+  app.post('/api/task-assignments/:assignmentId/time-entries', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const assignment = await storage.getTaskAssignmentById(req.params.assignmentId);
+      if (!assignment) {
+        return res.status(404).json({ message: "Assignment not found" });
+      }
+      if (!(await TimeTrackingService.canAccess(user, assignment.teamMemberId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const parsed = manualTimeEntrySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid time entry", errors: parsed.error.errors });
+      }
+
+      const result = await TimeTrackingService.logManualEntry(assignment, parsed.data, userId);
+      res.status(201).json(result.entry);
+    } catch (error) {
+      console.error("Error logging time entry:", error);
+      res.status(500).json({ message: "Failed to log time entry" });
+    }
+  });
+
+  app.put('/api/time-entries/:entryId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const entry = await storage.getTimeEntry(req.params.entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+      if (!(await TimeTrackingService.canAccess(user, entry.teamMemberId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const parsed = insertTimeEntrySchema.pick({ startedAt: true, durationMinutes: true, notes: true }).partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid time entry", errors: parsed.error.errors });
+      }
+
+      const result = await TimeTrackingService.updateEntry(entry, parsed.data);
+      if (!result.ok) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json(result.entry);
+    } catch (error) {
+      console.error("Error updating time entry:", error);
+      res.status(500).json({ message: "Failed to update time entry" });
+    }
+  });
+
+  app.delete('/api/time-entries/:entryId', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const entry = await storage.getTimeEntry(req.params.entryId);
+      if (!entry) {
+        return res.status(404).json({ message: "Time entry not found" });
+      }
+      if (!(await TimeTrackingService.canAccess(user, entry.teamMemberId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      await TimeTrackingService.deleteEntry(entry);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting time entry:", error);
+      res.status(500).json({ message: "Failed to delete time entry" });
+    }
+  });
+
+  app.get('/api/team-members/:teamMemberId/time-entries/running', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      if (!(await TimeTrackingService.canAccess(user, req.params.teamMemberId))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const entry = await storage.getRunningTimeEntry(req.params.teamMemberId);
+      res.json(entry ?? null);
+    } catch (error) {
+      console.error("Error fetching running timer:", error);
+      res.status(500).json({ message: "Failed to fetch running timer" });
+    }
+  });
+
+  app.get('/api/team-members/:teamMemberId/timesheet', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const teamMember = await storage.getTeamMember(req.params.teamMemberId);
+      if (!teamMember) {
+        return res.status(404).json({ message: "Team member not found" });
+      }
+      if (!(await TimeTrackingService.canAccess(user, teamMember.id))) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      // The week is laid out in the team member's own timezone
+      const timesheet = await TimeTrackingService.getWeeklyTimesheet(
+        teamMember.id,
+        req.query.week as string | undefined,
+        teamMember.timezone || (teamMember.email === user?.email ? user?.timezone : null)
+      );
+      res.json(timesheet);
+    } catch (error) {
+      console.error("Error building timesheet:", error);
+      res.status(500).json({ message: "Failed to build timesheet" });
+    }
+  });
+
+  app.get('/api/admin/reports/time', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const { projectId, from, to } = req.query as { projectId?: string; from?: string; to?: string };
+      const fromDate = from ? new Date(from) : null;
+      const toDate = to ? new Date(to) : null;
+      if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+        return res.status(400).json({ message: "from and to must be valid dates" });
+      }
+
+      const report = await TimeTrackingService.getBillingReport({ projectId, from: fromDate, to: toDate });
+      res.json(report);
+    } catch (error) {
+      console.error("Error building time report:", error);
+      res.status(500).json({ message: "Failed to build time report" });
+    }
+  });
+
+  // File routes
+  app.get('/api/projects/:projectId/files', isAuthenticated, authorize('files.view', projectParam('projectId')), async (req: any, res) => {
+    try {
+      const files = await storage.getFilesByProject(req.params.projectId);
+      res.json(files);
+    } catch (error) {
+      console.error("Error fetching files:", error);
+      res.status(500).json({ message: "Failed to fetch files" });
+    }
+  });
+
+  app.post('/api/projects/:projectId/files', isAuthenticated, authorize('files.upload', projectParam('projectId')), upload.single('file'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const stored = await FileStorageService.storeUpload(req.params.projectId, req.file);
       const fileData = {
         projectId: req.params.projectId,
         fileName: req.file.originalname,
-        filePath: req.file.path,
+        ...stored,
         fileSize: req.file.size,
         fileType: req.file.mimetype,
         category: req.body.category || 'document',
@@ -1191,6 +1552,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       const file = await storage.createProjectFile(fileData);
+      RealtimeService.publish({ entity: 'file', action: 'created', id: file.id, projectId: file.projectId });
       res.status(201).json(file);
     } catch (error) {
       console.error("Error uploading file:", error);
@@ -1198,7 +1560,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/files/:id/download', isAuthenticated, async (req: any, res) => {
+  app.get('/api/files/:id/download', isAuthenticated, authorize('files.view', fileProject('id')), async (req: any, res) => {
     try {
       const file = await storage.getProjectFile(req.params.id);
       
@@ -1206,19 +1568,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "File not found" });
       }
 
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      const project = await storage.getProject(file.projectId);
-      
-      // Check access permissions
-      if (user?.role !== 'admin' && project?.clientId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
+      // Files in a storage backend are fetched from a short-lived signed URL instead of through the app
+      const signed = await FileStorageService.signedUrl(file, 'attachment');
+      if (req.query.format === 'url') {
+        return res.json(signed || { url: `/api/files/${file.id}/download`, expiresAt: null });
+      }
+      if (signed) {
+        return res.redirect(signed.url);
       }
 
       if (!fs.existsSync(file.filePath)) {
         return res.status(404).json({ message: "File not found on disk" });
       }
 
+      res.set(FILE_RESPONSE_HEADERS);
       res.download(file.filePath, file.fileName);
     } catch (error) {
       console.error("Error downloading file:", error);
@@ -1227,21 +1590,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Analytics routes
-  app.get('/api/projects/:projectId/analytics', isAuthenticated, async (req: any, res) => {
+  app.get('/api/projects/:projectId/analytics', isAuthenticated, authorize('project.view', projectParam('projectId')), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      const project = await storage.getProject(req.params.projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-
-      // Check access permissions
-      if (user?.role !== 'admin' && project.clientId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
       const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
       const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
       
@@ -1253,15 +1603,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/projects/:projectId/analytics', isAuthenticated, async (req: any, res) => {
+  app.post('/api/projects/:projectId/analytics', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can create analytics" });
-      }
-
       const analyticsData = insertAnalyticsSchema.parse({
         ...req.body,
         projectId: req.params.projectId,
@@ -1276,55 +1619,254 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Message routes
-  app.get('/api/projects/:projectId/messages', isAuthenticated, async (req: any, res) => {
+  app.get('/api/projects/:projectId/messages', isAuthenticated, authorize('messages.view', projectParam('projectId')), async (req: any, res) => {
+    try {
+      const messages = await MessageService.list(req.params.projectId);
+      res.json(messages);
+    } catch (error) {
+      console.error("Error fetching messages:", error);
+      res.status(500).json({ message: "Failed to fetch messages" });
+    }
+  });
+
+  // Accepts JSON, or multipart form data when files are attached
+  app.post('/api/projects/:projectId/messages', isAuthenticated, authorize('messages.post', projectParam('projectId')), upload.array('attachments', 5), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+      const project = req.project;
+
+      // Multipart forms carry mentions as a JSON string
+      let mentions = req.body.mentions;
+      if (typeof mentions === 'string') {
+        try {
+          mentions = JSON.parse(mentions || '[]');
+        } catch {
+          mentions = null;
+        }
+      }
+
+      const parsed = messageCreateSchema.safeParse({ ...req.body, mentions });
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid message", errors: parsed.error.errors });
+      }
+
+      const files: any[] = req.files || [];
+      const attachments = [];
+      for (const file of files) {
+        const stored = await FileStorageService.storeUpload(project.id, file);
+        attachments.push({ ...stored, fileName: file.originalname, fileSize: file.size, fileType: file.mimetype });
+      }
+
+      const result = await MessageService.post(user, project, parsed.data, attachments);
+      if (!result.ok) {
+        await Promise.all(attachments.map(attachment => FileStorageService.discard(attachment)));
+        return res.status(404).json({ message: result.error });
+      }
+
+      const { message, mentionEmails } = result.value!;
+      if (emailService.isEnabled) {
+        for (const recipient of mentionEmails) {
+          await JobQueueService.enqueue(JOB_TYPES.messageMentionEmail, {
+            to: recipient.email,
+            name: recipient.name,
+            senderName: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
+            projectName: project.name,
+            excerpt: message.content.slice(0, 500),
+          }, { idempotencyKey: `${JOB_TYPES.messageMentionEmail}:${message.id}:${recipient.email}` });
+        }
+      }
+
+      RealtimeService.publish({ entity: 'message', action: 'created', id: message.id, projectId: message.projectId });
+      res.status(201).json(message);
+    } catch (error) {
+      console.error("Error creating message:", error);
+      res.status(500).json({ message: "Failed to create message" });
+    }
+  });
+
+  app.post('/api/projects/:projectId/messages/read', isAuthenticated, authorize('messages.view', projectParam('projectId')), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const project = req.project;
+      const marked = await MessageService.markRead(userId, project.id);
+      res.json({ marked });
+    } catch (error) {
+      console.error("Error marking messages read:", error);
+      res.status(500).json({ message: "Failed to mark messages read" });
+    }
+  });
+
+  app.get('/api/projects/:projectId/mentionable', isAuthenticated, authorize('messages.view', projectParam('projectId')), async (req: any, res) => {
+    try {
+      const project = req.project;
+      res.json(await MessageService.mentionable(project));
+    } catch (error) {
+      console.error("Error fetching mentionable people:", error);
+      res.status(500).json({ message: "Failed to fetch people" });
+    }
+  });
+
+  app.get('/api/messages/unread-counts', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      const project = await storage.getProject(req.params.projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
       }
 
-      // Check access permissions
-      if (user?.role !== 'admin' && project.clientId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
+      res.json(await MessageService.unreadCounts(user));
+    } catch (error) {
+      console.error("Error fetching unread counts:", error);
+      res.status(500).json({ message: "Failed to fetch unread counts" });
+    }
+  });
+
+  // Loads a message for someone on its project
+  const loadMessage = async (req: any): Promise<{ user?: User; message?: Message; status?: number; error?: string }> => {
+    const userId = req.user.claims.sub;
+    const user = await storage.getUser(userId);
+    const message = await storage.getMessage(req.params.id);
+    if (!user || !message) {
+      return { status: 404, error: "Message not found" };
+    }
+    const project = await storage.getProject(message.projectId);
+    if (!project || !AccessService.can(user, 'messages.view') || !(await AccessService.canAccessProject(user, project))) {
+      return { status: 403, error: "Access denied" };
+    }
+    return { user, message };
+  };
+
+  app.put('/api/messages/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { user, message, status, error } = await loadMessage(req);
+      if (!message) {
+        return res.status(status!).json({ message: error });
       }
 
-      const messages = await storage.getMessagesByProject(req.params.projectId);
-      res.json(messages);
+      const parsed = messageUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid message", errors: parsed.error.errors });
+      }
+
+      const result = await MessageService.edit(user!, message, parsed.data.content);
+      if (!result.ok) {
+        return res.status(result.forbidden ? 403 : 409).json({ message: result.error });
+      }
+      RealtimeService.publish({ entity: 'message', action: 'updated', id: message.id, projectId: message.projectId });
+      res.json(result.value);
     } catch (error) {
-      console.error("Error fetching messages:", error);
-      res.status(500).json({ message: "Failed to fetch messages" });
+      console.error("Error editing message:", error);
+      res.status(500).json({ message: "Failed to edit message" });
+    }
+  });
+
+  app.delete('/api/messages/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const { user, message, status, error } = await loadMessage(req);
+      if (!message) {
+        return res.status(status!).json({ message: error });
+      }
+
+      const result = await MessageService.remove(user!, message);
+      if (!result.ok) {
+        return res.status(403).json({ message: result.error });
+      }
+      RealtimeService.publish({ entity: 'message', action: 'deleted', id: message.id, projectId: message.projectId });
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error deleting message:", error);
+      res.status(500).json({ message: "Failed to delete message" });
+    }
+  });
+
+  app.get('/api/messages/:id/history', isAuthenticated, async (req: any, res) => {
+    try {
+      const { message, status, error } = await loadMessage(req);
+      if (!message) {
+        return res.status(status!).json({ message: error });
+      }
+
+      res.json(await MessageService.history(message));
+    } catch (error) {
+      console.error("Error fetching message history:", error);
+      res.status(500).json({ message: "Failed to fetch message history" });
+    }
+  });
+
+  // Google push notifications for watched calendars (public; verified by channel token)
+  app.post('/api/calendar/webhook', async (req, res) => {
+    try {
+      const result = await CalendarPullService.handleNotification({
+        channelId: req.get('X-Goog-Channel-ID'),
+        channelToken: req.get('X-Goog-Channel-Token'),
+        resourceId: req.get('X-Goog-Resource-ID'),
+        resourceState: req.get('X-Goog-Resource-State'),
+      });
+      if (!result.ok) {
+        return res.status(result.forbidden ? 403 : 404).json({ message: result.error });
+      }
+      res.status(200).end();
+    } catch (error) {
+      console.error('Calendar webhook error:', error);
+      res.status(500).json({ message: 'Failed to process notification' });
+    }
+  });
+
+  // Start two-way sync for the current user's primary calendar
+  app.post('/api/calendar/watch', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const result = await CalendarPullService.watch(userId);
+      if (!result.ok) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.json(result.value);
+    } catch (error) {
+      console.error('Error watching calendar:', error);
+      res.status(500).json({ message: 'Failed to watch calendar' });
     }
   });
 
-  app.post('/api/projects/:projectId/messages', isAuthenticated, async (req: any, res) => {
+  // Each conflict belongs to one person's calendar; only they and team admins see it
+  app.get('/api/tasks/:id/calendar-conflicts', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      const project = await storage.getProject(req.params.projectId);
-      
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      const conflicts = await storage.getCalendarSyncConflicts(req.params.id);
+      res.json(AccessService.can(user, 'team.manage') ? conflicts : conflicts.filter(conflict => conflict.userId === userId));
+    } catch (error) {
+      console.error('Error fetching calendar conflicts:', error);
+      res.status(500).json({ message: 'Failed to fetch calendar conflicts' });
+    }
+  });
+
+  // Pick a side for a task/event that changed in both places
+  app.post('/api/calendar/conflicts/:id/resolve', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      const parsed = calendarConflictResolutionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid resolution", errors: parsed.error.errors });
       }
 
-      // Check access permissions
-      if (user?.role !== 'admin' && project.clientId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
+      const conflict = await storage.getCalendarSyncConflict(req.params.id);
+      if (!conflict) {
+        return res.status(404).json({ message: 'Conflict not found' });
+      }
+      if (conflict.userId !== userId && !AccessService.can(user, 'team.manage')) {
+        return res.status(403).json({ message: 'Only the calendar owner or an admin can resolve this conflict' });
       }
 
-      const messageData = insertMessageSchema.parse({
-        ...req.body,
-        projectId: req.params.projectId,
-        senderId: userId,
-      });
-      
-      const message = await storage.createMessage(messageData);
-      res.status(201).json(message);
+      const result = await CalendarPullService.resolveConflict(conflict, parsed.data.resolution, userId);
+      if (!result.ok) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json(result.value);
     } catch (error) {
-      console.error("Error creating message:", error);
-      res.status(500).json({ message: "Failed to create message" });
+      console.error('Error resolving calendar conflict:', error);
+      res.status(500).json({ message: 'Failed to resolve calendar conflict' });
     }
   });
 
@@ -1338,11 +1880,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.json({ connected: false, reason: 'no_user' });
       }
 
-      // Check if user has Google Calendar tokens
-      const tokens = await storage.getOAuthTokensByUserId(userId);
-      const hasTokens = !!tokens;
-
-      res.json({ connected: hasTokens, userId });
+      res.json({ connected: await CalendarService.hasConnectedCalendar(userId), userId });
     } catch (error) {
       console.error('Calendar status check error:', error);
       res.json({ connected: false, error: 'check_failed' });
@@ -1350,15 +1888,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // QA Calendar Test route - One-click self-test
-  app.get('/api/qa/calendar-test', isAuthenticated, async (req: any, res) => {
+  app.get('/api/qa/calendar-test', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can run QA tests" });
-      }
-
       const { qaCalendarTest } = await import('./qaCalendarTest');
       const results = await qaCalendarTest.runFullQATest();
       
@@ -1388,15 +1919,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/service-categories', isAuthenticated, async (req: any, res) => {
+  app.post('/api/service-categories', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can create service categories" });
-      }
-
       const category = await storage.createServiceCategory(req.body);
       res.status(201).json(category);
     } catch (error) {
@@ -1405,15 +1929,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/service-categories/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/service-categories/:id', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can update service categories" });
-      }
-
       const category = await storage.updateServiceCategory(req.params.id, req.body);
       res.json(category);
     } catch (error) {
@@ -1422,15 +1939,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/service-categories/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/service-categories/:id', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can delete service categories" });
-      }
-
       await storage.deleteServiceCategory(req.params.id);
       res.status(204).send();
     } catch (error) {
@@ -1451,15 +1961,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create new service
-  app.post('/api/services', isAuthenticated, async (req: any, res) => {
+  app.post('/api/services', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can create services" });
-      }
-
       console.log("Creating service with data:", req.body);
       
       // Validate required fields
@@ -1478,15 +1981,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update service
-  app.put('/api/services/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/services/:id', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can update services" });
-      }
-
       console.log("Updating service with data:", req.body);
       
       const updatedService = await storage.updateService(req.params.id, req.body);
@@ -1499,15 +1995,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete service
-  app.delete('/api/services/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/services/:id', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can delete services" });
-      }
-
       console.log("Deleting service:", req.params.id);
       
       await storage.deleteService(req.params.id);
@@ -1521,15 +2010,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Admin routes
-  app.get('/api/admin/projects', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/projects', isAuthenticated, authorize('projects.view_all'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
       const projects = await storage.getAllProjects();
       res.json(projects);
     } catch (error) {
@@ -1538,15 +2020,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/admin/projects', isAuthenticated, async (req: any, res) => {
+  app.post('/api/admin/projects', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
       const { 
         name, 
         description, 
@@ -1583,6 +2058,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const newProject = await storage.createProject(projectData);
       console.log("Successfully created project:", newProject);
+      RealtimeService.publish({ entity: 'project', action: 'created', id: newProject.id, projectId: newProject.id });
       res.status(201).json(newProject);
     } catch (error) {
       console.error("Error creating project:", error);
@@ -1591,15 +2067,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update project endpoint
-  app.put('/api/admin/projects/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/admin/projects/:id', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
       const { 
         name, 
         description, 
@@ -1635,6 +2104,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const updatedProject = await storage.updateProject(req.params.id, updateData);
       console.log("Successfully updated project:", updatedProject);
+      RealtimeService.publish({ entity: 'project', action: 'updated', id: updatedProject.id, projectId: updatedProject.id });
       res.json(updatedProject);
     } catch (error) {
       console.error("Error updating project:", error);
@@ -1643,15 +2113,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update project Google Drive links
-  app.put('/api/admin/projects/:id/google-drive', isAuthenticated, async (req: any, res) => {
+  app.put('/api/admin/projects/:id/google-drive', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
       const { googleDriveFolderId, googleDriveFolderUrl } = req.body;
       
       // Verify project exists
@@ -1668,6 +2131,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const updatedProject = await storage.updateProject(req.params.id, updateData);
       console.log("Successfully updated project Google Drive links:", updatedProject);
+      RealtimeService.publish({ entity: 'project', action: 'updated', id: updatedProject.id, projectId: updatedProject.id });
       res.json(updatedProject);
     } catch (error) {
       console.error("Error updating project Google Drive links:", error);
@@ -1677,17 +2141,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update project status
-  app.put('/api/admin/projects/:id/status', isAuthenticated, async (req: any, res) => {
+  app.put('/api/admin/projects/:id/status', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can update project status" });
-      }
-
       const { status } = req.body;
       const project = await storage.updateProject(req.params.id, { status });
+      RealtimeService.publish({ entity: 'project', action: 'updated', id: project.id, projectId: project.id });
       res.json(project);
     } catch (error) {
       console.error("Error updating project status:", error);
@@ -1696,15 +2154,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reorder projects within an organization
-  app.put('/api/admin/organizations/:orgId/projects/reorder', isAuthenticated, async (req: any, res) => {
+  app.put('/api/admin/organizations/:orgId/projects/reorder', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can reorder projects" });
-      }
-
       const { projectOrders } = req.body; // Array of { id, displayOrder }
       await storage.updateProjectOrder(req.params.orgId, projectOrders);
       res.json({ success: true });
@@ -1714,15 +2165,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/admin/clients', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/clients', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
       const clients = await storage.getClientUsers();
       res.json(clients);
     } catch (error) {
@@ -1732,22 +2176,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Individual project route (for client view)
-  app.get('/api/projects/:id', isAuthenticated, async (req: any, res) => {
+  app.get('/api/projects/:id', isAuthenticated, authorize('project.view', projectParam('id')), async (req: any, res) => {
     try {
-      const project = await storage.getProject(req.params.id);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      // Check access permissions
-      if (user?.role !== 'admin' && project.clientId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
-
-      res.json(project);
+      res.json(AccessService.redactProject(req.currentUser, req.project));
     } catch (error) {
       console.error("Error fetching project:", error);
       res.status(500).json({ message: "Failed to fetch project" });
@@ -1755,22 +2186,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // File preview route (for viewing images and documents)
-  app.get('/api/projects/:projectId/files/:fileId/preview', isAuthenticated, async (req: any, res) => {
+  app.get('/api/projects/:projectId/files/:fileId/preview', isAuthenticated, authorize('files.view', projectParam('projectId')), async (req: any, res) => {
     try {
       const { projectId, fileId } = req.params;
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      // Get the project to check permissions
-      const project = await storage.getProject(projectId);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-
-      // Check access permissions
-      if (user?.role !== 'admin' && project.clientId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
+      const user = req.currentUser;
 
       // Get the file
       const file = await storage.getProjectFile(fileId);
@@ -1778,13 +2197,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "File not found" });
       }
 
-      // For clients, same access rules apply for preview as download
-      if (user?.role !== 'admin' && file.isApprovalRequired && file.isApproved === null) {
+      // For clients, same access rules apply for preview as download, except for a file awaiting their decision
+      if (!isStaffRole(user.role) && file.isApprovalRequired && file.isApproved === null && !(await ApprovalService.isAwaitingDecision(user, file))) {
         return res.status(403).json({ message: "File is pending approval and cannot be viewed yet" });
       }
 
-      // Set appropriate headers for inline viewing
-      res.setHeader('Content-Type', file.fileType || 'application/octet-stream');
+      const signed = await FileStorageService.signedUrl(file, 'inline');
+      if (signed) {
+        return res.redirect(signed.url);
+      }
+
+      // Uploads from before pluggable storage still sit on local disk; stream them so the review view can draw them
+      if (fs.existsSync(file.filePath)) {
+        const delivery = fileDelivery(file.fileType, 'inline');
+        res.set({
+          ...FILE_RESPONSE_HEADERS,
+          'Content-Type': delivery.contentType,
+          'Content-Disposition': contentDisposition(delivery.disposition, file.fileName),
+        });
+        return res.sendFile(path.resolve(file.filePath));
+      }
       
       // For now, return a placeholder response since we don't have actual file storage
       // In a real implementation, you would stream the actual file content
@@ -1796,22 +2228,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // File download route with access control
-  app.get('/api/projects/:projectId/files/:fileId/download', isAuthenticated, async (req: any, res) => {
+  app.get('/api/projects/:projectId/files/:fileId/download', isAuthenticated, authorize('files.view', projectParam('projectId')), async (req: any, res) => {
     try {
       const { projectId, fileId } = req.params;
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      // Get the project to check permissions
-      const project = await storage.getProject(projectId);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
-      }
-
-      // Check access permissions
-      if (user?.role !== 'admin' && project.clientId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
-      }
+      const user = req.currentUser;
 
       // Get the file
       const file = await storage.getProjectFile(fileId);
@@ -1824,7 +2244,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // - Need changes (is_approved = false) - so they can see iteration history
       // - Don't require approval (is_approval_required = false)
       // They cannot download files pending approval (is_approved = null)
-      if (user?.role !== 'admin' && file.isApprovalRequired && file.isApproved === null) {
+      if (!isStaffRole(user.role) && file.isApprovalRequired && file.isApproved === null) {
         return res.status(403).json({ message: "File is pending approval and cannot be downloaded yet" });
       }
 
@@ -1832,10 +2252,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.setHeader('Content-Disposition', `attachment; filename="${file.fileName}"`);
       res.setHeader('Content-Type', file.fileType || 'application/octet-stream');
 
-      // In a real implementation, you would serve the actual file from storage
-      // For now, we'll just return file metadata
+      // The bytes come from a signed URL; this returns where to fetch them along with the file metadata
+      const signed = await FileStorageService.signedUrl(file, 'attachment');
       res.json({
         message: `Downloading ${file.fileName}`,
+        url: signed?.url || `/api/files/${file.id}/download`,
+        expiresAt: signed?.expiresAt || null,
         fileName: file.fileName,
         fileType: file.fileType,
         filePath: file.filePath,
@@ -1849,23 +2271,170 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get project KPIs
-  app.get('/api/projects/:projectId/kpis', isAuthenticated, async (req: any, res) => {
+  // File versions and review comments share the preview route's access rules
+  const loadReviewableFile = async (req: any): Promise<{ user?: User; file?: ProjectFile; status?: number; message?: string }> => {
+    const { projectId, fileId } = req.params;
+    const userId = req.user.claims.sub;
+    const user = await storage.getUser(userId);
+
+    const project = await storage.getProject(projectId);
+    if (!user || !project) {
+      return { status: 404, message: "Project not found" };
+    }
+    if (!AccessService.can(user, 'files.view') || !(await AccessService.canAccessProject(user, project))) {
+      return { status: 403, message: "Access denied" };
+    }
+
+    const file = await storage.getProjectFile(fileId);
+    if (!file || file.projectId !== projectId) {
+      return { status: 404, message: "File not found" };
+    }
+    if (!isStaffRole(user.role) && file.isApprovalRequired && file.isApproved === null && !(await ApprovalService.isAwaitingDecision(user, file))) {
+      return { status: 403, message: "File is pending approval and cannot be viewed yet" };
+    }
+    return { user, file };
+  };
+
+  app.get('/api/projects/:projectId/files/:fileId/versions', isAuthenticated, async (req: any, res) => {
     try {
-      const { projectId } = req.params;
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
+      const { file, status, message } = await loadReviewableFile(req);
+      if (!file) {
+        return res.status(status!).json({ message });
+      }
 
-      // Get the project to check permissions
-      const project = await storage.getProject(projectId);
-      if (!project) {
-        return res.status(404).json({ message: "Project not found" });
+      const versions = await FileVersionService.getVersions(file);
+      res.json(versions);
+    } catch (error) {
+      console.error("Error fetching file versions:", error);
+      res.status(500).json({ message: "Failed to fetch file versions" });
+    }
+  });
+
+  // Uploading a revision adds to the file's version chain instead of creating an unrelated file
+  // Project access is checked before multer writes anything; later refusals remove the temp upload
+  app.post('/api/projects/:projectId/files/:fileId/versions', isAuthenticated, authorize('files.upload', projectParam('projectId')), upload.single('file'), async (req: any, res) => {
+    const discardUpload = () => req.file && fs.promises.rm(req.file.path, { force: true });
+    try {
+      const { user, file, status, message } = await loadReviewableFile(req);
+      if (!file) {
+        await discardUpload();
+        return res.status(status!).json({ message });
       }
 
-      // Check access permissions
-      if (user?.role !== 'admin' && project.clientId !== userId) {
-        return res.status(403).json({ message: "Access denied" });
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+
+      const stored = await FileStorageService.storeUpload(file.projectId, req.file);
+      const result = await FileVersionService.createVersion(file, {
+        fileName: req.file.originalname,
+        ...stored,
+        fileSize: req.file.size,
+        fileType: req.file.mimetype,
+        versionNote: typeof req.body.versionNote === 'string' ? req.body.versionNote.trim().slice(0, 2000) : null,
+      }, user!.id);
+      if (!result.ok) {
+        await FileStorageService.discard(stored);
+        return res.status(409).json({ message: result.error });
+      }
+      RealtimeService.publish({ entity: 'file', action: 'created', id: result.value!.id, projectId: file.projectId });
+      res.status(201).json(result.value);
+    } catch (error) {
+      await discardUpload();
+      console.error("Error uploading file version:", error);
+      res.status(500).json({ message: "Failed to upload new version" });
+    }
+  });
+
+  app.get('/api/projects/:projectId/files/:fileId/compare', isAuthenticated, async (req: any, res) => {
+    try {
+      const { file, status, message } = await loadReviewableFile(req);
+      if (!file) {
+        return res.status(status!).json({ message });
+      }
+
+      if (!req.query.with) {
+        return res.status(400).json({ message: "Choose a version to compare with" });
+      }
+
+      const result = await FileVersionService.compare(file, req.query.with as string);
+      if (!result.ok) {
+        return res.status(404).json({ message: result.error });
+      }
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error comparing file versions:", error);
+      res.status(500).json({ message: "Failed to compare versions" });
+    }
+  });
+
+  app.get('/api/projects/:projectId/files/:fileId/comments', isAuthenticated, async (req: any, res) => {
+    try {
+      const { file, status, message } = await loadReviewableFile(req);
+      if (!file) {
+        return res.status(status!).json({ message });
+      }
+
+      const comments = await FileVersionService.listComments(file);
+      res.json(comments);
+    } catch (error) {
+      console.error("Error fetching file comments:", error);
+      res.status(500).json({ message: "Failed to fetch comments" });
+    }
+  });
+
+  app.post('/api/projects/:projectId/files/:fileId/comments', isAuthenticated, authorize('files.review'), async (req: any, res) => {
+    try {
+      const { user, file, status, message } = await loadReviewableFile(req);
+      if (!file) {
+        return res.status(status!).json({ message });
+      }
+
+      const parsed = fileCommentCreateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid comment", errors: parsed.error.errors });
+      }
+
+      const result = await FileVersionService.addComment(user!, file, parsed.data);
+      if (!result.ok) {
+        return res.status(404).json({ message: result.error });
+      }
+      RealtimeService.publish({ entity: 'file', action: 'updated', id: file.id, projectId: file.projectId });
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error adding file comment:", error);
+      res.status(500).json({ message: "Failed to add comment" });
+    }
+  });
+
+  app.put('/api/projects/:projectId/files/:fileId/comments/:commentId', isAuthenticated, authorize('files.review'), async (req: any, res) => {
+    try {
+      const { user, file, status, message } = await loadReviewableFile(req);
+      if (!file) {
+        return res.status(status!).json({ message });
+      }
+
+      const parsed = fileCommentUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid comment update", errors: parsed.error.errors });
+      }
+
+      const result = await FileVersionService.updateComment(user!, file, req.params.commentId, parsed.data);
+      if (!result.ok) {
+        return res.status(result.notFound ? 404 : result.forbidden ? 403 : 400).json({ message: result.error });
       }
+      RealtimeService.publish({ entity: 'file', action: 'updated', id: file.id, projectId: file.projectId });
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error updating file comment:", error);
+      res.status(500).json({ message: "Failed to update comment" });
+    }
+  });
+
+  // Get project KPIs
+  app.get('/api/projects/:projectId/kpis', isAuthenticated, authorize('project.view', projectParam('projectId')), async (req: any, res) => {
+    try {
+      const { projectId } = req.params;
 
       const kpis = await storage.getKpisByProject(projectId);
       res.json(kpis);
@@ -1876,17 +2445,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Create project KPI (admin only)
-  app.post('/api/projects/:projectId/kpis', isAuthenticated, async (req: any, res) => {
+  app.post('/api/projects/:projectId/kpis', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
     try {
       const { projectId } = req.params;
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      // Only admins can create KPIs
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can create KPIs" });
-      }
-
       const kpiData = {
         ...req.body,
         projectId,
@@ -1902,17 +2464,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update KPI (admin only)
-  app.put('/api/projects/:projectId/kpis/:kpiId', isAuthenticated, async (req: any, res) => {
+  app.put('/api/projects/:projectId/kpis/:kpiId', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
     try {
       const { kpiId } = req.params;
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      // Only admins can update KPIs
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can update KPIs" });
-      }
-
       const updatedKpi = await storage.updateKpi(kpiId, req.body);
       if (!updatedKpi) {
         return res.status(404).json({ message: "KPI not found" });
@@ -1926,36 +2480,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Team invitation routes (admin only)
-  app.get('/api/admin/team-invitations', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/team-invitations', isAuthenticated, authorize('team.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can view team invitations" });
-      }
-
+      // Client contacts are invited from their organization instead
       const invitations = await storage.getTeamInvitations();
-      res.json(invitations);
+      res.json(invitations.filter(invitation => !invitation.organizationId));
     } catch (error) {
       console.error("Error fetching team invitations:", error);
       res.status(500).json({ message: "Failed to fetch team invitations" });
     }
   });
 
-  app.post('/api/admin/team-invitations', isAuthenticated, async (req: any, res) => {
+  app.post('/api/admin/team-invitations', isAuthenticated, authorize('team.manage'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can send invitations" });
-      }
 
-      const { email } = req.body;
+      const { email, role = 'admin' } = req.body;
       if (!email) {
         return res.status(400).json({ message: "Email is required" });
       }
+      // Owners are made by promoting an existing user, never through an invitation
+      if (!isStaffRole(role) || role === 'owner') {
+        return res.status(400).json({ message: "Invalid role" });
+      }
 
       // Check if user already exists
       const existingUser = await storage.getUserByEmail?.(email);
@@ -1981,7 +2528,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const invitation = await storage.createTeamInvitation({
         email,
         invitedBy: userId,
-        role: 'admin',
+        role,
         status: 'pending',
         invitationToken,
         expiresAt,
@@ -2035,15 +2582,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Organization task routes removed - all tasks are now project-based
 
   // Organization management routes (admin only)
-  app.get('/api/admin/organizations', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/organizations', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can view organizations" });
-      }
-
       const organizations = await storage.getOrganizations();
       res.json(organizations);
     } catch (error) {
@@ -2052,15 +2592,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/admin/organizations', isAuthenticated, async (req: any, res) => {
+  app.post('/api/admin/organizations', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can create organizations" });
-      }
-
       // Validate required fields
       const { name, description, website, industry, primaryContactId } = req.body;
       
@@ -2099,15 +2632,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/admin/organizations/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/admin/organizations/:id', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can update organizations" });
-      }
-
       const { name, description, website, industry, primaryContactId } = req.body;
       
       if (!name || typeof name !== 'string' || name.trim().length === 0) {
@@ -2133,15 +2659,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/admin/organizations/:id/users', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/organizations/:id/users', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can view organization users" });
-      }
-
       const users = await storage.getOrganizationUsers(req.params.id);
       res.json(users);
     } catch (error) {
@@ -2150,16 +2669,109 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Assign user to organization
-  app.put('/api/admin/users/:userId/organization', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/organizations/:id/invitations', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
+      const invitations = await storage.getTeamInvitations();
+      res.json(invitations
+        .filter(invitation => invitation.organizationId === req.params.id && invitation.status === 'pending')
+        .map(invitation => ({ ...invitation, invitationToken: undefined })));
+    } catch (error) {
+      console.error("Error fetching contact invitations:", error);
+      res.status(500).json({ message: "Failed to fetch contact invitations" });
+    }
+  });
+
+  // Invites a contact into the organization; someone who already has a client account is added straight away
+  app.post('/api/admin/organizations/:id/invitations', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+      const parsed = organizationContactInviteSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid invitation", errors: parsed.error.errors });
+      }
+      const { email, contactAccess } = parsed.data;
+
+      const organization = await storage.getOrganization(req.params.id);
+      if (!organization || organization.deletedAt) {
+        return res.status(404).json({ message: "Organization not found" });
+      }
+
+      const existingUser = await storage.getUserByEmail(email);
+      if (existingUser) {
+        if (isStaffRole(existingUser.role)) {
+          return res.status(400).json({ message: "That email belongs to a team member" });
+        }
+        if (existingUser.organizationId && existingUser.organizationId !== organization.id) {
+          return res.status(409).json({ message: "That contact already belongs to another organization" });
+        }
+        const contact = await storage.updateUser(existingUser.id, { organizationId: organization.id, contactAccess });
+        return res.json({ message: "Contact added to the organization", user: contact });
+      }
+
+      const invitations = await storage.getTeamInvitations();
+      if (invitations.some(invitation => invitation.email === email && invitation.status === 'pending')) {
+        return res.status(400).json({ message: "Invitation already sent to this email" });
+      }
+
+      const invitationToken = randomUUID().replace(/-/g, '');
+      const expiresAt = new Date();
+      expiresAt.setDate(expiresAt.getDate() + 7);
+
+      const invitation = await storage.createTeamInvitation({
+        email,
+        invitedBy: user.id,
+        role: 'client_admin',
+        organizationId: organization.id,
+        contactAccess,
+        status: 'pending',
+        invitationToken,
+        expiresAt,
+      });
+
+      const invitationLink = `${req.protocol}://${req.get('host')}/invite/${invitationToken}`;
+      if (emailService.isEnabled) {
+        await JobQueueService.enqueue(JOB_TYPES.contactInvitationEmail, {
+          to: email,
+          organizationName: organization.name,
+          inviterName: [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email,
+          invitationLink,
+        }, { idempotencyKey: `${JOB_TYPES.contactInvitationEmail}:${invitation.id}` });
+      }
+
+      res.status(201).json({
+        message: "Invitation sent successfully",
+        invitation: { ...invitation, invitationToken: undefined },
+        invitationLink,
+      });
+    } catch (error) {
+      console.error("Error inviting contact:", error);
+      res.status(500).json({ message: "Failed to invite contact" });
+    }
+  });
+
+  app.put('/api/admin/organizations/:id/contacts/:userId', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
+    try {
+      const parsed = contactAccessUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid access level", errors: parsed.error.errors });
+      }
 
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can manage user organizations" });
+      const contact = await storage.getUser(req.params.userId);
+      if (!contact || contact.organizationId !== req.params.id) {
+        return res.status(404).json({ message: "Contact not found" });
       }
 
+      const updated = await storage.updateUser(contact.id, { contactAccess: parsed.data.contactAccess });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating contact access:", error);
+      res.status(500).json({ message: "Failed to update contact access" });
+    }
+  });
+
+  // Assign user to organization
+  app.put('/api/admin/users/:userId/organization', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
+    try {
       const { organizationId } = req.body;
       
       if (organizationId) {
@@ -2175,17 +2787,114 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create new client
-  app.post('/api/admin/clients', isAuthenticated, async (req: any, res) => {
+  // Enough of a user for the role editor, without their calendar tokens
+  const userSummary = (user: User) => ({
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    profileImageUrl: user.profileImageUrl,
+    role: user.role,
+    companyName: user.companyName,
+    organizationId: user.organizationId,
+  });
+
+  app.get('/api/admin/users', isAuthenticated, authorize('roles.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
+      const users = await storage.getActiveUsers();
+      res.json(users.map(userSummary));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
 
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can create clients" });
+  // Only an owner can hand out or take away ownership, and the last owner cannot be demoted
+  app.put('/api/admin/users/:userId/role', isAuthenticated, authorize('roles.manage'), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
+      const parsed = userRoleUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid role", errors: parsed.error.errors });
       }
+      const { role } = parsed.data;
 
-      console.log("Creating client with data:", req.body);
+      const target = await storage.getUser(req.params.userId);
+      if (!target || target.deletedAt) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if ((role === 'owner' || target.role === 'owner') && user.role !== 'owner') {
+        return res.status(403).json({ message: "Only an owner can grant or remove the owner role" });
+      }
+      if (target.role === 'owner' && role !== 'owner') {
+        const owners = (await storage.getActiveUsers()).filter(candidate => candidate.role === 'owner');
+        if (owners.length <= 1) {
+          return res.status(409).json({ message: "There must always be at least one owner" });
+        }
+      }
+
+      const updated = await storage.updateUser(target.id, { role });
+      res.json(userSummary(updated!));
+    } catch (error) {
+      console.error("Error updating user role:", error);
+      res.status(500).json({ message: "Failed to update user role" });
+    }
+  });
+
+  // People added to a project beyond its client, e.g. contributors and extra client contacts
+  app.get('/api/admin/projects/:projectId/members', isAuthenticated, authorize('roles.manage'), async (req: any, res) => {
+    try {
+      const members = await storage.getProjectMembers(req.params.projectId);
+      res.json(members.map(member => ({ ...member, user: userSummary(member.user) })));
+    } catch (error) {
+      console.error("Error fetching project members:", error);
+      res.status(500).json({ message: "Failed to fetch project members" });
+    }
+  });
+
+  app.post('/api/admin/projects/:projectId/members', isAuthenticated, authorize('roles.manage'), async (req: any, res) => {
+    try {
+      const parsed = projectMemberCreateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid member", errors: parsed.error.errors });
+      }
+
+      const project = await storage.getProject(req.params.projectId);
+      if (!project || project.deletedAt) {
+        return res.status(404).json({ message: "Project not found" });
+      }
+      const member = await storage.getUser(parsed.data.userId);
+      if (!member || member.deletedAt) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const created = await storage.addProjectMember(project.id, member.id, req.currentUser.id);
+      RealtimeService.publish({ entity: 'project', action: 'updated', id: project.id, projectId: project.id });
+      res.status(201).json({ ...created, user: userSummary(member) });
+    } catch (error) {
+      console.error("Error adding project member:", error);
+      res.status(500).json({ message: "Failed to add project member" });
+    }
+  });
+
+  app.delete('/api/admin/projects/:projectId/members/:userId', isAuthenticated, authorize('roles.manage'), async (req: any, res) => {
+    try {
+      const removed = await storage.removeProjectMember(req.params.projectId, req.params.userId);
+      if (!removed) {
+        return res.status(404).json({ message: "Member not found" });
+      }
+      RealtimeService.publish({ entity: 'project', action: 'updated', id: req.params.projectId, projectId: req.params.projectId });
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error removing project member:", error);
+      res.status(500).json({ message: "Failed to remove project member" });
+    }
+  });
+
+  // Create new client
+  app.post('/api/admin/clients', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
+    try {
+      console.log("Creating client with data:", req.body);
       
       // Validate required fields
       const { firstName, lastName, email } = req.body;
@@ -2203,15 +2912,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Update existing client
-  app.put('/api/admin/clients/:clientId', isAuthenticated, async (req: any, res) => {
+  app.put('/api/admin/clients/:clientId', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can update clients" });
-      }
-
       const clientId = req.params.clientId;
       console.log("Updating client with data:", req.body);
       
@@ -2235,15 +2937,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Delete client
-  app.delete('/api/admin/clients/:clientId', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/admin/clients/:clientId', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Only admins can delete clients" });
-      }
-
       const clientId = req.params.clientId;
       console.log("Deleting client:", clientId);
       
@@ -2383,8 +3078,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     `);
   });
 
-  // Team member management routes
-  app.get("/api/team-members", isAuthenticated, async (req, res) => {
+  // Team member management routes; the full roster also feeds the assignee pickers of anyone who manages tasks
+  app.get("/api/team-members", isAuthenticated, authorize('tasks.manage'), async (req, res) => {
     try {
       const teamMembers = await storage.getAllTeamMembers();
       res.json(teamMembers);
@@ -2394,15 +3089,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/admin/team-members", isAuthenticated, async (req: any, res) => {
+  app.get("/api/admin/team-members", isAuthenticated, authorize('team.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
       const teamMembers = await storage.getAllTeamMembers();
       // Filter for active team members only
       const activeTeamMembers = teamMembers.filter(member => member.isActive);
@@ -2413,7 +3101,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/team-members", isAuthenticated, async (req: any, res) => {
+  app.post("/api/team-members", isAuthenticated, authorize('team.manage'), async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
@@ -2433,17 +3121,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Send welcome email to new team member
       try {
-        await emailService.sendTeamMemberWelcomeEmail(
-          teamMember.email,
-          teamMember.name,
-          "Your Agency", // You can customize this agency name
-          {
+        await JobQueueService.enqueue(JOB_TYPES.teamMemberWelcomeEmail, {
+          to: teamMember.email,
+          name: teamMember.name,
+          agencyName: "Your Agency", // You can customize this agency name
+          options: {
             role: teamMember.role,
             addedBy: `${user?.firstName} ${user?.lastName}`,
-          }
-        );
+          },
+        }, { idempotencyKey: `${JOB_TYPES.teamMemberWelcomeEmail}:${teamMember.id}` });
       } catch (emailError) {
-        console.error("Failed to send welcome email to team member:", emailError);
+        console.error("Failed to queue welcome email to team member:", emailError);
         // Don't fail the team member creation if email fails
       }
 
@@ -2454,7 +3142,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/team-members/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/team-members/:id", isAuthenticated, authorize('team.manage'), async (req, res) => {
     try {
       const teamMember = await storage.updateTeamMember(req.params.id, req.body);
       res.json(teamMember);
@@ -2464,7 +3152,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/team-members/:id", isAuthenticated, async (req, res) => {
+  app.delete("/api/team-members/:id", isAuthenticated, authorize('team.manage'), async (req, res) => {
     try {
       await storage.deleteTeamMember(req.params.id);
       res.status(204).send();
@@ -2545,8 +3233,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Connection ID and sync name are required" });
       }
 
-      await nangoService.triggerSync(connectionId, syncName);
-      res.json({ message: "Sync triggered successfully" });
+      await JobQueueService.enqueue(JOB_TYPES.integrationSync, { connectionId, syncName }, {
+        idempotencyKey: `${JOB_TYPES.integrationSync}:${connectionId}:${syncName}`,
+      });
+      res.json({ message: "Sync queued" });
     } catch (error) {
       console.error("Error triggering Facebook sync:", error);
       res.status(500).json({ error: "Failed to trigger sync" });
@@ -2554,7 +3244,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Quote management routes
-  app.get("/api/quotes", isAuthenticated, async (req, res) => {
+  app.get("/api/quotes", isAuthenticated, authorize('billing.manage'), async (req, res) => {
     try {
       const quotes = await storage.getQuotes();
       res.json(quotes);
@@ -2564,7 +3254,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/quotes/upload", isAuthenticated, upload.single("quote"), async (req: any, res) => {
+  app.post("/api/quotes/upload", isAuthenticated, authorize('billing.manage'), upload.single("quote"), async (req: any, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: "No file uploaded" });
@@ -2579,27 +3269,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Extract basic info from filename
       const title = file.originalname.replace(/\.[^/.]+$/, "").replace(/[-_]/g, " ");
 
+      // Parse line items offline; staff review and correct them before the quote is used
+      const services = await storage.getServices();
+      const parsed = QuoteParserService.parse(await fs.promises.readFile(file.path), file.originalname, services);
+
       const quoteData = {
         quoteNumber,
         title,
         description: `Uploaded quote from ${file.originalname}`,
-        totalAmount: "0", // Will be updated later
+        totalAmount: parsed.total.toFixed(2),
         status: "draft",
         filePath: file.path,
         fileName: file.originalname,
         fileSize: file.size,
+        parsedData: parsed,
         createdBy: userId,
       };
 
       const quote = await storage.createQuote(quoteData);
-      res.json(quote);
+      const lineItems = await storage.replaceQuoteLineItems(quote.id, QuoteParserService.toLineItems(quote.id, parsed.lineItems));
+      res.json({ ...quote, lineItems });
     } catch (error) {
+      if (error instanceof QuoteTooLargeError) {
+        if (req.file) await fs.promises.rm(req.file.path, { force: true });
+        return res.status(422).json({ error: `Could not read the quote: ${error.message}` });
+      }
       console.error("Error uploading quote:", error);
       res.status(500).json({ error: "Failed to upload quote" });
     }
   });
 
-  app.post("/api/quotes/:id/convert", isAuthenticated, async (req, res) => {
+  app.post("/api/quotes/:id/convert", isAuthenticated, authorize('billing.manage'), async (req, res) => {
     try {
       const { id } = req.params;
       const project = await storage.convertQuoteToProject(id);
@@ -2610,7 +3310,88 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/quotes/:id", isAuthenticated, async (req, res) => {
+  app.get("/api/quotes/:id/line-items", isAuthenticated, authorize('billing.manage'), async (req, res) => {
+    try {
+      const quote = await storage.getQuote(req.params.id);
+      if (!quote) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+      res.json(await storage.getQuoteLineItems(quote.id));
+    } catch (error) {
+      console.error("Error fetching quote line items:", error);
+      res.status(500).json({ error: "Failed to fetch quote line items" });
+    }
+  });
+
+  // Save the reviewed parse: corrected line items, tax, client and organization
+  app.put("/api/quotes/:id/line-items", isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const quote = await storage.getQuote(req.params.id);
+      if (!quote) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+      if (quote.status === "converted") {
+        return res.status(409).json({ error: "Converted quotes cannot be edited" });
+      }
+
+      const parsed = quoteReviewSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ error: "Invalid line items", errors: parsed.error.errors });
+      }
+      const { lineItems, tax, title, clientId, organizationId } = parsed.data;
+
+      const saved = await storage.replaceQuoteLineItems(quote.id, QuoteParserService.toLineItems(quote.id, lineItems));
+      const subtotal = saved.reduce((sum, item) => sum + Number(item.totalPrice), 0);
+      const updated = await storage.updateQuote(quote.id, {
+        ...(title ? { title } : {}),
+        ...(clientId !== undefined ? { clientId } : {}),
+        ...(organizationId !== undefined ? { organizationId } : {}),
+        totalAmount: (subtotal + (tax ?? 0)).toFixed(2),
+        parsedData: {
+          ...((quote.parsedData as Record<string, unknown>) || {}),
+          tax: tax ?? null,
+          reviewedAt: new Date().toISOString(),
+          reviewedBy: req.user.claims.sub,
+        },
+      });
+
+      res.json({ ...updated, lineItems: saved });
+    } catch (error) {
+      console.error("Error saving quote line items:", error);
+      res.status(500).json({ error: "Failed to save quote line items" });
+    }
+  });
+
+  // Re-run the parser on the stored file, e.g. after services were added
+  app.post("/api/quotes/:id/reparse", isAuthenticated, authorize('billing.manage'), async (req, res) => {
+    try {
+      const quote = await storage.getQuote(req.params.id);
+      if (!quote) {
+        return res.status(404).json({ error: "Quote not found" });
+      }
+      if (quote.status === "converted") {
+        return res.status(409).json({ error: "Converted quotes cannot be edited" });
+      }
+      if (!quote.filePath || !fs.existsSync(quote.filePath)) {
+        return res.status(404).json({ error: "Quote file not found" });
+      }
+
+      const services = await storage.getServices();
+      const parsed = QuoteParserService.parse(await fs.promises.readFile(quote.filePath), quote.fileName || quote.filePath, services);
+      const lineItems = await storage.replaceQuoteLineItems(quote.id, QuoteParserService.toLineItems(quote.id, parsed.lineItems));
+      const updated = await storage.updateQuote(quote.id, { totalAmount: parsed.total.toFixed(2), parsedData: parsed });
+
+      res.json({ ...updated, lineItems });
+    } catch (error) {
+      if (error instanceof QuoteTooLargeError) {
+        return res.status(422).json({ error: `Could not read the quote: ${error.message}` });
+      }
+      console.error("Error re-parsing quote:", error);
+      res.status(500).json({ error: "Failed to re-parse quote" });
+    }
+  });
+
+  app.get("/api/quotes/:id", isAuthenticated, authorize('billing.manage'), async (req, res) => {
     try {
       const { id } = req.params;
       const quote = await storage.getQuote(id);
@@ -2624,7 +3405,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/quotes/:id", isAuthenticated, async (req, res) => {
+  app.put("/api/quotes/:id", isAuthenticated, authorize('billing.manage'), async (req, res) => {
     try {
       const { id } = req.params;
       const updates = req.body;
@@ -2637,440 +3418,1300 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Proposal Management Routes
-  app.get('/api/admin/proposals', isAuthenticated, async (req: any, res) => {
+  app.get('/api/admin/proposals', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
+      await ProposalPortalService.expireStale();
       const proposals = await storage.getProposals();
       
       // Enrich proposals with items, client, and organization data
       const enrichedProposals = await Promise.all(proposals.map(async (proposal) => {
-        const [items, client, organization] = await Promise.all([
+        const [items, client, organization, projectLinks] = await Promise.all([
           storage.getProposalItems(proposal.id),
           proposal.clientId ? storage.getUser(proposal.clientId) : null,
-          proposal.organizationId ? storage.getOrganization(proposal.organizationId) : null
+          proposal.organizationId ? storage.getOrganization(proposal.organizationId) : null,
+          storage.getProposalProjects(proposal.id)
         ]);
         
         return {
           ...proposal,
           items,
           client,
-          organization
+          organization,
+          projectLinks
         };
       }));
       
       res.json(enrichedProposals);
     } catch (error) {
-      console.error("Error fetching proposals:", error);
-      res.status(500).json({ message: "Failed to fetch proposals" });
+      console.error("Error fetching proposals:", error);
+      res.status(500).json({ message: "Failed to fetch proposals" });
+    }
+  });
+
+  app.post('/api/admin/proposals', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const proposalData = insertProposalSchema.parse(req.body);
+      proposalData.proposalNumber = `PROP-${Date.now()}`;
+      
+      const proposal = await storage.createProposal(proposalData);
+      res.status(201).json(proposal);
+    } catch (error) {
+      console.error("Error creating proposal:", error);
+      res.status(500).json({ message: "Failed to create proposal" });
+    }
+  });
+
+  app.post('/api/admin/proposal-items', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const itemData = insertProposalItemSchema.parse(req.body);
+      const item = await storage.createProposalItem(itemData);
+      res.status(201).json(item);
+    } catch (error) {
+      console.error("Error creating proposal item:", error);
+      res.status(500).json({ message: "Failed to create proposal item" });
+    }
+  });
+
+  app.put('/api/admin/proposals/:id/approve', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const { itemApprovals } = req.body;
+      
+      for (const [itemId, isApproved] of Object.entries(itemApprovals)) {
+        await storage.updateProposalItem(itemId, { isApproved: !!isApproved });
+      }
+      
+      res.json({ message: "Proposal approvals updated" });
+    } catch (error) {
+      console.error("Error updating proposal approvals:", error);
+      res.status(500).json({ message: "Failed to update approvals" });
+    }
+  });
+
+  // Share a proposal with a client contact through a tokenized portal link
+  app.post('/api/admin/proposals/:id/links', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const proposal = await storage.getProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+
+      const parsed = proposalShareSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid contact details", errors: parsed.error.errors });
+      }
+
+      const result = await ProposalPortalService.createLink(proposal, parsed.data, userId);
+      if (!result.ok) {
+        return res.status(result.notFound ? 404 : 409).json({ message: result.error });
+      }
+
+      const link = result.value!;
+      const proposalUrl = `${req.protocol}://${req.get('host')}/proposal/${link.token}`;
+      const emailQueued = !!(parsed.data.sendEmail && link.contactEmail && emailService.isEnabled);
+      if (emailQueued) {
+        await JobQueueService.enqueue(JOB_TYPES.proposalLinkEmail, {
+          to: link.contactEmail,
+          name: link.contactName,
+          proposalTitle: proposal.title,
+          proposalUrl,
+          validUntil: proposal.validUntil,
+        }, { idempotencyKey: `${JOB_TYPES.proposalLinkEmail}:${link.id}` });
+      }
+
+      res.status(201).json({ link, proposalUrl, emailQueued });
+    } catch (error) {
+      console.error("Error sharing proposal:", error);
+      res.status(500).json({ message: "Failed to share proposal" });
+    }
+  });
+
+  // Share links and signed decisions (with audit trail) for a proposal
+  app.get('/api/admin/proposals/:id/links', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const [links, signatures] = await Promise.all([
+        storage.getProposalLinks(req.params.id),
+        storage.getProposalSignatures(req.params.id),
+      ]);
+      res.json({ links, signatures });
+    } catch (error) {
+      console.error("Error fetching proposal links:", error);
+      res.status(500).json({ message: "Failed to fetch proposal links" });
+    }
+  });
+
+  app.delete('/api/admin/proposal-links/:linkId', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const link = await storage.updateProposalLink(req.params.linkId, { revokedAt: new Date() });
+      if (!link) {
+        return res.status(404).json({ message: "Link not found" });
+      }
+      res.json(link);
+    } catch (error) {
+      console.error("Error revoking proposal link:", error);
+      res.status(500).json({ message: "Failed to revoke link" });
+    }
+  });
+
+  // Extending validUntil reopens an expired proposal for signing
+  app.put('/api/admin/proposals/:id/validity', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const proposal = await storage.getProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+
+      const parsed = proposalValiditySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid date", errors: parsed.error.errors });
+      }
+      const { validUntil } = parsed.data;
+
+      const reopen = proposal.status === 'expired' && (!validUntil || validUntil > new Date());
+      const updated = await storage.updateProposal(proposal.id, {
+        validUntil,
+        ...(reopen ? { status: 'sent' } : {}),
+      });
+      res.json(updated);
+    } catch (error) {
+      console.error("Error updating proposal validity:", error);
+      res.status(500).json({ message: "Failed to update proposal" });
+    }
+  });
+
+  // Public proposal portal - the token is the credential, no login required
+  app.get('/api/proposal-portal/:token', async (req, res) => {
+    try {
+      const result = await ProposalPortalService.getView(req.params.token);
+      if (!result.ok) {
+        return res.status(404).json({ message: result.error });
+      }
+      res.json(result.value);
+    } catch (error) {
+      console.error("Error loading proposal portal:", error);
+      res.status(500).json({ message: "Failed to load proposal" });
+    }
+  });
+
+  app.post('/api/proposal-portal/:token/sign', async (req, res) => {
+    try {
+      const parsed = proposalSignSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid signature", errors: parsed.error.errors });
+      }
+
+      const result = await ProposalPortalService.sign(req.params.token, parsed.data, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+      if (!result.ok) {
+        return res.status(result.notFound ? 404 : 409).json({ message: result.error });
+      }
+
+      res.status(201).json(result.value);
+    } catch (error) {
+      console.error("Error signing proposal:", error);
+      res.status(500).json({ message: "Failed to sign proposal" });
+    }
+  });
+
+  app.post('/api/admin/proposals/:id/convert', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { id } = req.params;
+      const proposal = await storage.getProposal(id);
+      
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+
+      const parsed = proposalConversionSchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid conversion options", errors: parsed.error.errors });
+      }
+
+      // Idempotent: items already linked to a project are skipped, so repeating the call creates nothing new
+      const result = await ProposalConversionService.convert(proposal, parsed.data, userId);
+      if (!result.ok) {
+        return res.status(result.conflict ? 409 : 400).json({ message: result.error });
+      }
+
+      res.json({ 
+        message: result.alreadyConverted
+          ? "All approved items were already converted"
+          : `Successfully converted approved items into ${result.created.length} project${result.created.length === 1 ? '' : 's'}`,
+        created: result.created,
+        projects: result.projects,
+        links: result.links,
+        alreadyConverted: result.alreadyConverted,
+      });
+    } catch (error) {
+      console.error("Error converting proposal to projects:", error);
+      res.status(500).json({ message: "Failed to convert proposal to projects" });
+    }
+  });
+
+  // Invoice routes
+  app.get('/api/admin/billing-rates', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const rates = await storage.getBillingRates();
+      res.json(rates);
+    } catch (error) {
+      console.error("Error fetching billing rates:", error);
+      res.status(500).json({ message: "Failed to fetch billing rates" });
+    }
+  });
+
+  app.put('/api/admin/billing-rates/:role', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const parsed = billingRateInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid hourly rate", errors: parsed.error.errors });
+      }
+
+      const rate = await storage.upsertBillingRate(req.params.role, parsed.data.hourlyRate.toFixed(2));
+      res.json(rate);
+    } catch (error) {
+      console.error("Error saving billing rate:", error);
+      res.status(500).json({ message: "Failed to save billing rate" });
+    }
+  });
+
+  app.delete('/api/admin/billing-rates/:role', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      await storage.deleteBillingRate(req.params.role);
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting billing rate:", error);
+      res.status(500).json({ message: "Failed to delete billing rate" });
+    }
+  });
+
+  app.get('/api/admin/invoices', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      await InvoiceService.markOverdue();
+      const invoices = await storage.getInvoices({ organizationId: req.query.organizationId as string | undefined });
+      const organizations = await storage.getOrganizations();
+      const organizationNames = new Map(organizations.map(org => [org.id, org.name]));
+
+      res.json(invoices.map(invoice => ({
+        ...invoice,
+        organizationName: invoice.organizationId ? organizationNames.get(invoice.organizationId) || null : null,
+      })));
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+
+  // Client dashboard: invoices billed to the user's organization (drafts are never shown)
+  app.get('/api/invoices', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+
+      await InvoiceService.markOverdue();
+      const invoices = await InvoiceService.listForUser(user);
+      res.json(invoices);
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+
+  app.get('/api/invoices/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const invoice = await InvoiceService.getDetail(req.params.id);
+      
+      if (!invoice || !InvoiceService.canView(user, invoice)) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      res.json(invoice);
+    } catch (error) {
+      console.error("Error fetching invoice:", error);
+      res.status(500).json({ message: "Failed to fetch invoice" });
+    }
+  });
+
+  app.get('/api/invoices/:id/pdf', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const user = await storage.getUser(userId);
+      const invoice = await InvoiceService.getDetail(req.params.id);
+      
+      if (!invoice || !InvoiceService.canView(user, invoice)) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const pdf = InvoiceService.renderPdf(invoice);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `inline; filename="${invoice.invoiceNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error rendering invoice PDF:", error);
+      res.status(500).json({ message: "Failed to render invoice PDF" });
+    }
+  });
+
+  app.post('/api/admin/invoices', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = invoiceBodySchema.required({ title: true }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid invoice", errors: parsed.error.errors });
+      }
+
+      const { lineItems = [], taxLines = [], ...header } = parsed.data;
+      const result = await InvoiceService.createDraft(header, lineItems, taxLines, userId);
+      res.status(201).json(result.invoice);
+    } catch (error) {
+      console.error("Error creating invoice:", error);
+      res.status(500).json({ message: "Failed to create invoice" });
+    }
+  });
+
+  app.post('/api/admin/proposals/:id/invoice', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const proposal = await storage.getProposal(req.params.id);
+      if (!proposal) {
+        return res.status(404).json({ message: "Proposal not found" });
+      }
+
+      const parsed = invoiceTaxesBodySchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid tax lines", errors: parsed.error.errors });
+      }
+
+      const result = await InvoiceService.createFromProposal(proposal, parsed.data.taxLines, userId);
+      if (!result.ok) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.status(201).json(result.invoice);
+    } catch (error) {
+      console.error("Error invoicing proposal:", error);
+      res.status(500).json({ message: "Failed to create invoice from proposal" });
+    }
+  });
+
+  app.post('/api/admin/quotes/:id/invoice', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const quote = await storage.getQuote(req.params.id);
+      if (!quote) {
+        return res.status(404).json({ message: "Quote not found" });
+      }
+
+      const parsed = invoiceTaxesBodySchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid tax lines", errors: parsed.error.errors });
+      }
+
+      const result = await InvoiceService.createFromQuote(quote, parsed.data.taxLines, userId);
+      if (!result.ok) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.status(201).json(result.invoice);
+    } catch (error) {
+      console.error("Error invoicing quote:", error);
+      res.status(500).json({ message: "Failed to create invoice from quote" });
+    }
+  });
+
+  app.post('/api/admin/projects/:id/invoice-time', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const parsed = invoiceTaxesBodySchema.safeParse(req.body || {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid tax lines", errors: parsed.error.errors });
+      }
+
+      const result = await InvoiceService.createFromTrackedTime(req.params.id, parsed.data.taxLines, userId);
+      if (!result.ok) {
+        return res.status(400).json({ message: result.error });
+      }
+      res.status(201).json({ ...result.invoice, missingRates: result.missingRates });
+    } catch (error) {
+      console.error("Error invoicing tracked time:", error);
+      res.status(500).json({ message: "Failed to create invoice from tracked time" });
+    }
+  });
+
+  app.put('/api/admin/invoices/:id', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const parsed = invoiceBodySchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid invoice", errors: parsed.error.errors });
+      }
+
+      const { lineItems, taxLines, ...header } = parsed.data;
+      const result = await InvoiceService.updateDraft(invoice, header, lineItems, taxLines);
+      if (!result.ok) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json(result.invoice);
+    } catch (error) {
+      console.error("Error updating invoice:", error);
+      res.status(500).json({ message: "Failed to update invoice" });
+    }
+  });
+
+  app.post('/api/admin/invoices/:id/send', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const result = await InvoiceService.send(invoice);
+      if (!result.ok) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json(result.invoice);
+    } catch (error) {
+      console.error("Error sending invoice:", error);
+      res.status(500).json({ message: "Failed to send invoice" });
+    }
+  });
+
+  app.post('/api/admin/invoices/:id/void', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const result = await InvoiceService.voidInvoice(invoice);
+      if (!result.ok) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.json(result.invoice);
+    } catch (error) {
+      console.error("Error voiding invoice:", error);
+      res.status(500).json({ message: "Failed to void invoice" });
+    }
+  });
+
+  app.delete('/api/admin/invoices/:id', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const result = await InvoiceService.deleteDraft(invoice);
+      if (!result.ok) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.status(204).send();
+    } catch (error) {
+      console.error("Error deleting invoice:", error);
+      res.status(500).json({ message: "Failed to delete invoice" });
+    }
+  });
+
+  app.post('/api/admin/invoices/:id/payments', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const invoice = await storage.getInvoice(req.params.id);
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+
+      const parsed = invoicePaymentInputSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid payment", errors: parsed.error.errors });
+      }
+
+      const result = await InvoiceService.recordPayment(invoice, parsed.data, userId);
+      if (!result.ok) {
+        return res.status(409).json({ message: result.error });
+      }
+      res.status(201).json(result.invoice);
+    } catch (error) {
+      console.error("Error recording payment:", error);
+      res.status(500).json({ message: "Failed to record payment" });
+    }
+  });
+
+  app.get('/api/admin/reports/ar-aging', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const report = await InvoiceService.getAgingReport();
+      res.json(report);
+    } catch (error) {
+      console.error("Error building AR aging report:", error);
+      res.status(500).json({ message: "Failed to build AR aging report" });
+    }
+  });
+
+  // Soft delete endpoints (admin only)
+  app.delete('/api/admin/organizations/:id', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const result = await storage.softDeleteOrganization(req.params.id, userId);
+      res.json({ message: "Organization deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting organization:", error);
+      res.status(500).json({ message: "Failed to delete organization" });
+    }
+  });
+
+  app.delete('/api/admin/clients/:id', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const result = await storage.softDeleteUser(req.params.id, userId);
+      res.json({ message: "Client deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting client:", error);
+      res.status(500).json({ message: "Failed to delete client" });
+    }
+  });
+
+  app.delete('/api/admin/projects/:id', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const result = await storage.softDeleteProject(req.params.id, userId);
+      RealtimeService.publish({ entity: 'project', action: 'deleted', id: req.params.id, projectId: req.params.id });
+      res.json({ message: "Project deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting project:", error);
+      res.status(500).json({ message: "Failed to delete project" });
+    }
+  });
+
+  app.delete('/api/admin/services/:id', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const result = await storage.softDeleteService(req.params.id, userId);
+      res.json({ message: "Service deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting service:", error);
+      res.status(500).json({ message: "Failed to delete service" });
+    }
+  });
+
+  // Task template management
+  const taskTemplateBodySchema = insertTaskTemplateSchema.omit({ serviceId: true });
+
+  app.get('/api/admin/services/:serviceId/templates', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
+    try {
+      const templates = await storage.getTaskTemplatesForService(req.params.serviceId);
+      res.json(templates);
+    } catch (error) {
+      console.error("Error fetching task templates:", error);
+      res.status(500).json({ message: "Failed to fetch task templates" });
+    }
+  });
+
+  app.post('/api/admin/services/:serviceId/templates', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
+    try {
+      const validation = taskTemplateBodySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid template data", errors: validation.error.errors });
+      }
+
+      const { serviceId } = req.params;
+      const dependencyCheck = await TaskTemplateService.validateDependency(serviceId, null, validation.data.dependsOnTemplateId);
+      if (!dependencyCheck.ok) {
+        return res.status(400).json({ message: dependencyCheck.error });
+      }
+
+      // New templates go to the end of the list unless an order is given
+      const existing = await storage.getTaskTemplatesForService(serviceId);
+      const template = await storage.createTaskTemplate({
+        displayOrder: existing.length,
+        ...validation.data,
+        serviceId,
+      });
+      res.status(201).json(template);
+    } catch (error) {
+      console.error("Error creating task template:", error);
+      res.status(500).json({ message: "Failed to create task template" });
+    }
+  });
+
+  app.put('/api/admin/services/:serviceId/templates/reorder', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
+    try {
+      const parsed = taskTemplateOrderSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid template orders data", errors: parsed.error.errors });
+      }
+
+      await storage.updateTaskTemplateOrder(req.params.serviceId, parsed.data.templateOrders);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error reordering task templates:", error);
+      res.status(500).json({ message: "Failed to reorder task templates" });
+    }
+  });
+
+  app.post('/api/admin/services/:serviceId/templates/clone', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
+    try {
+      const { sourceServiceId } = req.body;
+      if (!sourceServiceId || sourceServiceId === req.params.serviceId) {
+        return res.status(400).json({ message: "Choose a different service to clone templates from" });
+      }
+
+      const templates = await storage.cloneTaskTemplates(sourceServiceId, req.params.serviceId);
+      res.status(201).json(templates);
+    } catch (error) {
+      console.error("Error cloning task templates:", error);
+      res.status(500).json({ message: "Failed to clone task templates" });
+    }
+  });
+
+  app.put('/api/admin/services/:serviceId/templates/:templateId', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
+    try {
+      const { serviceId, templateId } = req.params;
+      const existing = await storage.getTaskTemplate(templateId);
+      if (!existing || existing.serviceId !== serviceId) {
+        return res.status(404).json({ message: "Task template not found" });
+      }
+
+      const validation = taskTemplateBodySchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid template data", errors: validation.error.errors });
+      }
+
+      if (validation.data.dependsOnTemplateId !== undefined) {
+        const dependencyCheck = await TaskTemplateService.validateDependency(serviceId, templateId, validation.data.dependsOnTemplateId);
+        if (!dependencyCheck.ok) {
+          return res.status(400).json({ message: dependencyCheck.error });
+        }
+      }
+
+      const template = await storage.updateTaskTemplate(templateId, validation.data);
+      res.json(template);
+    } catch (error) {
+      console.error("Error updating task template:", error);
+      res.status(500).json({ message: "Failed to update task template" });
+    }
+  });
+
+  app.delete('/api/admin/services/:serviceId/templates/:templateId', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
+    try {
+      const existing = await storage.getTaskTemplate(req.params.templateId);
+      if (!existing || existing.serviceId !== req.params.serviceId) {
+        return res.status(404).json({ message: "Task template not found" });
+      }
+
+      await storage.deleteTaskTemplate(req.params.templateId);
+      res.json({ message: "Task template deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting task template:", error);
+      res.status(500).json({ message: "Failed to delete task template" });
+    }
+  });
+
+  app.delete('/api/admin/tasks/:id', isAuthenticated, authorize('tasks.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const task = await storage.getTask(req.params.id);
+      const result = await storage.softDeleteTask(req.params.id, userId);
+      if (task) {
+        RealtimeService.publish({ entity: 'task', action: 'deleted', id: task.id, projectId: task.projectId });
+      }
+      res.json({ message: "Task deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      res.status(500).json({ message: "Failed to delete task" });
+    }
+  });
+
+  app.delete('/api/admin/proposals/:id', isAuthenticated, authorize('billing.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const result = await storage.softDeleteProposal(req.params.id, userId);
+      res.json({ message: "Proposal deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting proposal:", error);
+      res.status(500).json({ message: "Failed to delete proposal" });
+    }
+  });
+
+  // Additional soft delete endpoints for frontend compatibility
+  app.delete('/api/organizations/:id/soft', isAuthenticated, authorize('clients.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      // Get all projects for this organization first
+      const orgProjects = await storage.getProjectsByOrganization(req.params.id);
+      
+      // Delete all task assignments and tasks for projects in this organization
+      for (const project of orgProjects) {
+        const projectTasks = await storage.getProjectTasks(project.id);
+        for (const task of projectTasks) {
+          await storage.deleteTaskAssignments(task.id);
+        }
+        await storage.deleteProjectTasks(project.id);
+      }
+
+      const result = await storage.softDeleteOrganization(req.params.id, userId);
+      res.json({ message: "Organization and related tasks deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting organization:", error);
+      res.status(500).json({ message: "Failed to delete organization" });
+    }
+  });
+
+  app.delete('/api/projects/:id/soft', isAuthenticated, authorize('projects.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      // Delete all task assignments and tasks for this project
+      const projectTasks = await storage.getProjectTasks(req.params.id);
+      for (const task of projectTasks) {
+        await storage.deleteTaskAssignments(task.id);
+      }
+      await storage.deleteProjectTasks(req.params.id);
+
+      const result = await storage.softDeleteProject(req.params.id, userId);
+      RealtimeService.publish({ entity: 'project', action: 'deleted', id: req.params.id, projectId: req.params.id });
+      res.json({ message: "Project and related tasks deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting project:", error);
+      res.status(500).json({ message: "Failed to delete project" });
+    }
+  });
+
+  app.delete('/api/tasks/:id/soft', isAuthenticated, authorize('tasks.manage'), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const task = await storage.getTask(req.params.id);
+      const result = await storage.softDeleteTask(req.params.id, userId);
+      if (task) {
+        RealtimeService.publish({ entity: 'task', action: 'deleted', id: task.id, projectId: task.projectId });
+      }
+      res.json({ message: "Task deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting task:", error);
+      res.status(500).json({ message: "Failed to delete task" });
+    }
+  });
+
+  // Background job monitor (admin only)
+  app.get('/api/admin/jobs', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
+    try {
+      const status = typeof req.query.status === 'string' && req.query.status !== 'all' ? req.query.status : undefined;
+      const type = typeof req.query.type === 'string' && req.query.type ? req.query.type : undefined;
+      const [jobs, counts] = await Promise.all([
+        storage.getJobs({ status, type, limit: 200 }),
+        storage.getJobStatusCounts(),
+      ]);
+      res.json({ jobs, counts });
+    } catch (error) {
+      console.error("Error fetching jobs:", error);
+      res.status(500).json({ message: "Failed to fetch jobs" });
+    }
+  });
+
+  app.post('/api/admin/jobs/:id/retry', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
+    try {
+      const result = await JobQueueService.retry(req.params.id);
+      if (!result.ok) {
+        return res.status(result.notFound ? 404 : 409).json({ message: result.error });
+      }
+      res.json(result.job);
+    } catch (error) {
+      console.error("Error retrying job:", error);
+      res.status(500).json({ message: "Failed to retry job" });
+    }
+  });
+
+  // Get deleted items endpoint (admin only)
+  app.get('/api/admin/deleted-items', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
+    try {
+      const deletedItems = await storage.getDeletedItems();
+      res.json(deletedItems);
+    } catch (error) {
+      console.error("Error fetching deleted items:", error);
+      res.status(500).json({ message: "Failed to fetch deleted items" });
+    }
+  });
+
+  // Restore endpoints (admin only)
+  app.post('/api/admin/restore/:type/:id', isAuthenticated, authorize('settings.manage'), async (req: any, res) => {
+    try {
+      
+      const { type, id } = req.params;
+      let result;
+
+      switch (type) {
+        case 'organization':
+          result = await storage.restoreOrganization(id);
+          break;
+        case 'user':
+          result = await storage.restoreUser(id);
+          break;
+        case 'project':
+          result = await storage.restoreProject(id);
+          break;
+        case 'service':
+          result = await storage.restoreService(id);
+          break;
+        case 'task':
+          result = await storage.restoreTask(id);
+          break;
+        case 'proposal':
+          result = await storage.restoreProposal(id);
+          break;
+        default:
+          return res.status(400).json({ message: "Invalid item type" });
+      }
+
+      res.json({ message: `${type.charAt(0).toUpperCase() + type.slice(1)} restored successfully` });
+    } catch (error) {
+      console.error("Error restoring item:", error);
+      res.status(500).json({ message: "Failed to restore item" });
+    }
+  });
+
+  // Google Calendar integration routes
+  app.get('/api/auth/google/calendar', isAuthenticated, async (req: any, res) => {
+    try {
+      // The OAuth flow itself lives in oauth/googleRoutes.ts
+      res.json({ authUrl: '/oauth/google/connect?returnTo=/my-tasks' });
+    } catch (error) {
+      console.error('Error getting Google auth URL:', error);
+      res.status(500).json({ message: 'Failed to get authorization URL' });
+    }
+  });
+
+
+  // Microsoft 365 / Outlook: the state round-trips through the session so the callback knows it started here
+  app.get('/api/auth/microsoft/calendar', isAuthenticated, async (req: any, res) => {
+    try {
+      if (!microsoftCalendarProvider.isConfigured()) {
+        return res.status(400).json({ message: 'Microsoft 365 calendars are not configured on this server' });
+      }
+      const state = randomUUID();
+      req.session.microsoftOAuthState = state;
+      res.json({ authUrl: microsoftCalendarProvider.authUrl(state) });
+    } catch (error) {
+      console.error('Error getting Microsoft auth URL:', error);
+      res.status(500).json({ message: 'Failed to get authorization URL' });
     }
   });
 
-  app.post('/api/admin/proposals', isAuthenticated, async (req: any, res) => {
+  app.get('/oauth/microsoft/callback', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const { code, state, error } = req.query as { code?: string; state?: string; error?: string };
+
+      if (error || !code || !state || state !== req.session.microsoftOAuthState) {
+        console.error('Microsoft OAuth callback rejected', { error, hasCode: !!code });
+        return res.redirect(303, '/my-tasks?calendar=error');
       }
+      delete req.session.microsoftOAuthState;
 
-      const proposalData = insertProposalSchema.parse(req.body);
-      proposalData.proposalNumber = `PROP-${Date.now()}`;
-      
-      const proposal = await storage.createProposal(proposalData);
-      res.status(201).json(proposal);
+      await microsoftCalendarProvider.connect(userId, code);
+      const user = await storage.getUser(userId);
+      if (!user?.calendarProvider) {
+        await storage.updateUserCalendarProvider(userId, microsoftCalendarProvider.id);
+      }
+      res.redirect(303, '/my-tasks?calendar=connected');
     } catch (error) {
-      console.error("Error creating proposal:", error);
-      res.status(500).json({ message: "Failed to create proposal" });
+      console.error('Microsoft OAuth callback failure:', error);
+      res.redirect(303, '/my-tasks?calendar=error');
     }
   });
 
-  app.post('/api/admin/proposal-items', isAuthenticated, async (req: any, res) => {
+  app.post('/api/user/calendar-providers/caldav', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+
+      const parsed = calDavConnectSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid CalDAV account", errors: parsed.error.errors });
       }
 
-      const itemData = insertProposalItemSchema.parse(req.body);
-      const item = await storage.createProposalItem(itemData);
-      res.status(201).json(item);
+      let calendars;
+      try {
+        calendars = await calDavCalendarProvider.connect(userId, parsed.data);
+      } catch (error: any) {
+        return res.status(400).json({ message: `Could not connect to the CalDAV server: ${error.message}` });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user?.calendarProvider) {
+        await storage.updateUserCalendarProvider(userId, calDavCalendarProvider.id);
+      }
+      res.json({ success: true, calendars });
     } catch (error) {
-      console.error("Error creating proposal item:", error);
-      res.status(500).json({ message: "Failed to create proposal item" });
+      console.error('Error connecting CalDAV calendar:', error);
+      res.status(500).json({ message: 'Failed to connect CalDAV calendar' });
     }
   });
 
-  app.put('/api/admin/proposals/:id/approve', isAuthenticated, async (req: any, res) => {
+  // Every calendar provider, whether the user has connected it, and which one new events go to
+  app.get('/api/user/calendar-providers', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      res.json({
+        preferred: user?.calendarProvider || null,
+        providers: await CalendarService.getConnections(userId),
+      });
+    } catch (error) {
+      console.error('Error getting calendar providers:', error);
+      res.status(500).json({ message: 'Failed to get calendar providers' });
+    }
+  });
+
+  app.put('/api/user/calendar-provider', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+
+      const parsed = calendarProviderPreferenceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid calendar provider", errors: parsed.error.errors });
       }
 
-      const { itemApprovals } = req.body;
-      
-      for (const [itemId, isApproved] of Object.entries(itemApprovals)) {
-        await storage.updateProposalItem(itemId, { isApproved: !!isApproved });
+      const { provider } = parsed.data;
+      if (provider) {
+        const connection = (await CalendarService.getConnections(userId)).find(item => item.id === provider);
+        if (!connection?.connected) {
+          return res.status(400).json({ message: `Connect ${connection?.name || provider} before choosing it` });
+        }
       }
-      
-      res.json({ message: "Proposal approvals updated" });
+
+      const user = await storage.updateUserCalendarProvider(userId, provider);
+      res.json({ success: true, provider: user.calendarProvider });
     } catch (error) {
-      console.error("Error updating proposal approvals:", error);
-      res.status(500).json({ message: "Failed to update approvals" });
+      console.error('Error updating calendar provider:', error);
+      res.status(500).json({ message: 'Failed to update calendar provider' });
     }
   });
 
-  app.post('/api/admin/proposals/:id/convert', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/user/calendar-providers/:provider', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
+      const { provider } = req.params;
+
+      await CalendarService.disconnect(userId, provider);
       const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      if (user?.calendarProvider === provider) {
+        await storage.updateUserCalendarProvider(userId, null);
       }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error disconnecting calendar provider:', error);
+      res.status(500).json({ message: 'Failed to disconnect calendar provider' });
+    }
+  });
 
-      const { id } = req.params;
-      const proposal = await storage.getProposal(id);
+  // Client approvals - admins request sign-off on a task or file, the client contact decides
+  app.post('/api/admin/approvals', isAuthenticated, authorize('approvals.request'), async (req: any, res) => {
+    try {
+      const user = req.currentUser;
       
-      if (!proposal) {
-        return res.status(404).json({ message: "Proposal not found" });
+      const parsed = approvalRequestSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid approval request", errors: parsed.error.errors });
       }
 
-      const approvedItems = await storage.getProposalItems(id);
-      const approvedItemsList = approvedItems.filter(item => item.isApproved);
-      
-      if (approvedItemsList.length === 0) {
-        return res.status(400).json({ message: "No approved items to convert" });
+      const result = await ApprovalService.requestApproval(user, parsed.data);
+      if (!result.ok) {
+        return res.status(result.notFound ? 404 : result.conflict ? 409 : 400).json({ message: result.error });
       }
 
-      const createdProjects = [];
-      
-      for (const item of approvedItemsList) {
-        const projectData = {
-          name: item.title,
-          description: item.description || '',
-          clientId: proposal.clientId!,
-          organizationId: proposal.organizationId,
-          budget: item.amount,
-          status: 'active',
-          progress: 0,
-          startDate: new Date(),
-          expectedCompletion: null
-        };
-        
-        const project = await storage.createProject(projectData);
-        createdProjects.push(project);
+      const { request, recipient, subjectTitle, projectName } = result.value!;
+      const emailQueued = !!(recipient.email && emailService.isEnabled);
+      if (emailQueued) {
+        await JobQueueService.enqueue(JOB_TYPES.approvalRequestEmail, {
+          to: recipient.email,
+          name: recipient.firstName,
+          subjectTitle,
+          projectName,
+          message: request.message,
+          dashboardUrl: `${process.env.BASE_URL || `${req.protocol}://${req.get('host')}`}${APPROVALS_LINK}`,
+        }, { idempotencyKey: `${JOB_TYPES.approvalRequestEmail}:${request.id}` });
       }
 
-      await storage.updateProposal(id, {
-        status: 'converted',
-        convertedToProjectsAt: new Date()
-      });
-
-      res.json({ 
-        message: `Successfully converted ${createdProjects.length} approved items to projects`,
-        projects: createdProjects 
-      });
+      res.status(201).json({ request, emailQueued });
     } catch (error) {
-      console.error("Error converting proposal to projects:", error);
-      res.status(500).json({ message: "Failed to convert proposal to projects" });
+      console.error("Error requesting approval:", error);
+      res.status(500).json({ message: "Failed to request approval" });
     }
   });
 
-  // Soft delete endpoints (admin only)
-  app.delete('/api/admin/organizations/:id', isAuthenticated, async (req: any, res) => {
+  app.post('/api/admin/approvals/:id/cancel', isAuthenticated, authorize('approvals.request'), async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const result = await ApprovalService.cancel(req.params.id);
+      if (!result.ok) {
+        return res.status(result.notFound ? 404 : 409).json({ message: result.error });
       }
-
-      const result = await storage.softDeleteOrganization(req.params.id, userId);
-      res.json({ message: "Organization deleted successfully" });
+      res.json(result.value);
     } catch (error) {
-      console.error("Error deleting organization:", error);
-      res.status(500).json({ message: "Failed to delete organization" });
+      console.error("Error cancelling approval request:", error);
+      res.status(500).json({ message: "Failed to cancel approval request" });
     }
   });
 
-  app.delete('/api/admin/clients/:id', isAuthenticated, async (req: any, res) => {
+  // Approval requests with their decisions; clients only see their own projects'
+  app.get('/api/approvals', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
       }
 
-      const result = await storage.softDeleteUser(req.params.id, userId);
-      res.json({ message: "Client deleted successfully" });
+      const { status, taskId, fileId, projectId } = req.query as Record<string, string | undefined>;
+      const requests = await ApprovalService.listForUser(user, { status, taskId, fileId, projectId });
+      res.json(requests);
     } catch (error) {
-      console.error("Error deleting client:", error);
-      res.status(500).json({ message: "Failed to delete client" });
+      console.error("Error fetching approval requests:", error);
+      res.status(500).json({ message: "Failed to fetch approval requests" });
     }
   });
 
-  app.delete('/api/admin/projects/:id', isAuthenticated, async (req: any, res) => {
+  app.post('/api/approvals/:id/decision', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
       }
 
-      const result = await storage.softDeleteProject(req.params.id, userId);
-      res.json({ message: "Project deleted successfully" });
+      const parsed = approvalDecisionSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.errors[0]?.message || "Invalid decision", errors: parsed.error.errors });
+      }
+
+      const result = await ApprovalService.decide(user, req.params.id, parsed.data.decision, parsed.data.comment);
+      if (!result.ok) {
+        return res.status(result.notFound ? 404 : result.forbidden ? 403 : 409).json({ message: result.error });
+      }
+      const decided = result.value!;
+      RealtimeService.publish(decided.subjectType === 'task'
+        ? { entity: 'task', action: 'updated', id: decided.taskId!, projectId: decided.projectId }
+        : { entity: 'file', action: 'updated', id: decided.fileId!, projectId: decided.projectId });
+      res.json(result.value);
     } catch (error) {
-      console.error("Error deleting project:", error);
-      res.status(500).json({ message: "Failed to delete project" });
+      console.error("Error recording approval decision:", error);
+      res.status(500).json({ message: "Failed to record decision" });
     }
   });
 
-  app.delete('/api/admin/services/:id', isAuthenticated, async (req: any, res) => {
+  // Full-text search over tasks, projects, organizations, messages and files the user can open
+  app.get('/api/search', isAuthenticated, async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const user = await storage.getUser(req.user.claims.sub);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
       }
 
-      const result = await storage.softDeleteService(req.params.id, userId);
-      res.json({ message: "Service deleted successfully" });
+      const q = typeof req.query.q === 'string' ? req.query.q : '';
+      res.json(await SearchService.search(user, q));
     } catch (error) {
-      console.error("Error deleting service:", error);
-      res.status(500).json({ message: "Failed to delete service" });
+      console.error("Error searching:", error);
+      res.status(500).json({ message: "Search failed" });
     }
   });
 
-  app.delete('/api/admin/tasks/:id', isAuthenticated, async (req: any, res) => {
+  // In-app notifications for the signed-in user
+  app.get('/api/notifications', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
-      const result = await storage.softDeleteTask(req.params.id, userId);
-      res.json({ message: "Task deleted successfully" });
+      const [notifications, unreadCount] = await Promise.all([
+        storage.getNotifications(userId),
+        storage.getUnreadNotificationCount(userId),
+      ]);
+      res.json({ notifications, unreadCount });
     } catch (error) {
-      console.error("Error deleting task:", error);
-      res.status(500).json({ message: "Failed to delete task" });
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ message: "Failed to fetch notifications" });
     }
   });
 
-  app.delete('/api/admin/proposals/:id', isAuthenticated, async (req: any, res) => {
+  app.post('/api/notifications/:id/read', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const notification = await storage.markNotificationRead(req.params.id, userId);
+      if (!notification) {
+        return res.status(404).json({ message: "Notification not found" });
       }
-
-      const result = await storage.softDeleteProposal(req.params.id, userId);
-      res.json({ message: "Proposal deleted successfully" });
+      res.json(notification);
     } catch (error) {
-      console.error("Error deleting proposal:", error);
-      res.status(500).json({ message: "Failed to delete proposal" });
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ message: "Failed to update notification" });
     }
   });
 
-  // Additional soft delete endpoints for frontend compatibility
-  app.delete('/api/organizations/:id/soft', isAuthenticated, async (req: any, res) => {
+  app.post('/api/notifications/read-all', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
-      // Get all projects for this organization first
-      const orgProjects = await storage.getProjectsByOrganization(req.params.id);
-      
-      // Delete all task assignments and tasks for projects in this organization
-      for (const project of orgProjects) {
-        const projectTasks = await storage.getProjectTasks(project.id);
-        for (const task of projectTasks) {
-          await storage.deleteTaskAssignments(task.id);
-        }
-        await storage.deleteProjectTasks(project.id);
-      }
-
-      const result = await storage.softDeleteOrganization(req.params.id, userId);
-      res.json({ message: "Organization and related tasks deleted successfully" });
+      await storage.markAllNotificationsRead(userId);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error deleting organization:", error);
-      res.status(500).json({ message: "Failed to delete organization" });
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ message: "Failed to update notifications" });
     }
   });
 
-  app.delete('/api/projects/:id/soft', isAuthenticated, async (req: any, res) => {
+  // Signed URLs for the local disk storage driver - the signature is the credential, so no session needed
+  app.get('/files/local/:key', async (req, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const key = req.params.key;
+      if (!verifyLocalSignedUrl(key, req.query as Record<string, string>)) {
+        return res.status(403).json({ message: "This link is invalid or has expired" });
       }
 
-      // Delete all task assignments and tasks for this project
-      const projectTasks = await storage.getProjectTasks(req.params.id);
-      for (const task of projectTasks) {
-        await storage.deleteTaskAssignments(task.id);
+      const { disposition, name, type } = req.query as Record<string, string>;
+      const fullPath = localDiskStorageDriver.resolve(key);
+      if (!fs.existsSync(fullPath)) {
+        return res.status(404).json({ message: "File not found" });
       }
-      await storage.deleteProjectTasks(req.params.id);
 
-      const result = await storage.softDeleteProject(req.params.id, userId);
-      res.json({ message: "Project and related tasks deleted successfully" });
+      // Links signed before the allowlist may still carry any type
+      const delivery = fileDelivery(type, disposition === 'inline' ? 'inline' : 'attachment');
+      res.set({
+        ...FILE_RESPONSE_HEADERS,
+        'Content-Type': delivery.contentType,
+        'Content-Disposition': contentDisposition(delivery.disposition, name || undefined),
+        'Cache-Control': 'private, no-store',
+      });
+      res.sendFile(fullPath);
     } catch (error) {
-      console.error("Error deleting project:", error);
-      res.status(500).json({ message: "Failed to delete project" });
+      console.error("Error serving signed file:", error);
+      res.status(500).json({ message: "Failed to serve file" });
+    }
+  });
+
+  // Subscribable iCalendar feeds - the token in the URL is the credential
+  const feedBaseUrl = (req: any) => process.env.BASE_URL || `${req.protocol}://${req.get('host')}`;
+  const withFeedUrl = (req: any, feed: any) => ({ ...feed, feedUrl: IcalFeedService.feedUrl(feedBaseUrl(req), feed.token) });
+
+  app.get('/ical/:token.ics', async (req, res) => {
+    try {
+      const result = await IcalFeedService.render(req.params.token, feedBaseUrl(req));
+      if (!result.ok) {
+        return res.status(404).type('text/plain').send(result.error);
+      }
+      res.set({
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="tasks.ics"',
+        'Cache-Control': 'private, max-age=300',
+      });
+      res.send(result.value!.body);
+    } catch (error) {
+      console.error("Error rendering calendar feed:", error);
+      res.status(500).type('text/plain').send("Failed to render calendar feed");
     }
   });
 
-  app.delete('/api/tasks/:id/soft', isAuthenticated, async (req: any, res) => {
+  // Feeds the user created, or (admins) every feed for one team member, project or organization
+  app.get('/api/ical-feeds', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
+      const { scope, scopeId } = req.query as { scope?: string; scopeId?: string };
 
-      const result = await storage.softDeleteTask(req.params.id, userId);
-      res.json({ message: "Task deleted successfully" });
+      const feeds = await storage.getIcalFeeds({
+        scope,
+        scopeId,
+        ...(AccessService.can(user, 'projects.view_all') && scope && scopeId ? {} : { createdBy: userId }),
+      });
+      res.json(feeds.map(feed => withFeedUrl(req, feed)));
     } catch (error) {
-      console.error("Error deleting task:", error);
-      res.status(500).json({ message: "Failed to delete task" });
+      console.error("Error fetching calendar feeds:", error);
+      res.status(500).json({ message: "Failed to fetch calendar feeds" });
     }
   });
 
-  // Get deleted items endpoint (admin only)
-  app.get('/api/admin/deleted-items', isAuthenticated, async (req: any, res) => {
+  app.post('/api/ical-feeds', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
       }
 
-      const deletedItems = await storage.getDeletedItems();
-      res.json(deletedItems);
+      const parsed = icalFeedCreateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid calendar feed", errors: parsed.error.errors });
+      }
+
+      const result = await IcalFeedService.createFeed(user, parsed.data);
+      if (!result.ok) {
+        return res.status(result.notFound ? 404 : result.forbidden ? 403 : 400).json({ message: result.error });
+      }
+      res.status(201).json(withFeedUrl(req, result.value));
     } catch (error) {
-      console.error("Error fetching deleted items:", error);
-      res.status(500).json({ message: "Failed to fetch deleted items" });
+      console.error("Error creating calendar feed:", error);
+      res.status(500).json({ message: "Failed to create calendar feed" });
     }
   });
 
-  // Restore endpoints (admin only)
-  app.post('/api/admin/restore/:type/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/ical-feeds/:id', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
       const user = await storage.getUser(userId);
-      
-      if (user?.role !== 'admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      const feed = await storage.getIcalFeed(req.params.id);
+      if (!user || !feed || feed.revokedAt) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+      if (!IcalFeedService.canManage(user, feed)) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
-      const { type, id } = req.params;
-      let result;
-
-      switch (type) {
-        case 'organization':
-          result = await storage.restoreOrganization(id);
-          break;
-        case 'user':
-          result = await storage.restoreUser(id);
-          break;
-        case 'project':
-          result = await storage.restoreProject(id);
-          break;
-        case 'service':
-          result = await storage.restoreService(id);
-          break;
-        case 'task':
-          result = await storage.restoreTask(id);
-          break;
-        case 'proposal':
-          result = await storage.restoreProposal(id);
-          break;
-        default:
-          return res.status(400).json({ message: "Invalid item type" });
+      const parsed = icalFeedUpdateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid calendar feed", errors: parsed.error.errors });
       }
 
-      res.json({ message: `${type.charAt(0).toUpperCase() + type.slice(1)} restored successfully` });
+      const updated = await IcalFeedService.updateFeed(user, feed, parsed.data);
+      res.json(withFeedUrl(req, updated));
     } catch (error) {
-      console.error("Error restoring item:", error);
-      res.status(500).json({ message: "Failed to restore item" });
+      console.error("Error updating calendar feed:", error);
+      res.status(500).json({ message: "Failed to update calendar feed" });
     }
   });
 
-  // Google Calendar integration routes
-  app.get('/api/auth/google/calendar', isAuthenticated, async (req: any, res) => {
+  app.post('/api/ical-feeds/:id/regenerate', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const authUrl = googleCalendarService.getAuthUrl(userId);
-      res.json({ authUrl });
+      const user = await storage.getUser(userId);
+      const feed = await storage.getIcalFeed(req.params.id);
+      if (!user || !feed || feed.revokedAt) {
+        return res.status(404).json({ message: "Calendar feed not found" });
+      }
+      if (!IcalFeedService.canManage(user, feed)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      const updated = await IcalFeedService.regenerate(feed);
+      res.json(withFeedUrl(req, updated));
     } catch (error) {
-      console.error('Error getting Google auth URL:', error);
-      res.status(500).json({ message: 'Failed to get authorization URL' });
+      console.error("Error regenerating calendar feed:", error);
+      res.status(500).json({ message: "Failed to regenerate calendar feed" });
     }
   });
 
-
-
-  app.post('/api/tasks/:id/sync-calendar', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/ical-feeds/:id', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const taskId = req.params.id;
-
-      // Get the task with project info
-      const task = await storage.getTask(taskId);
-      if (!task) {
-        return res.status(404).json({ message: 'Task not found' });
+      const user = await storage.getUser(userId);
+      const feed = await storage.getIcalFeed(req.params.id);
+      if (!user || !feed) {
+        return res.status(404).json({ message: "Calendar feed not found" });
       }
-
-      // Get project name if it's a project task
-      let projectName = null;
-      if (task.projectId) {
-        const project = await storage.getProject(task.projectId);
-        projectName = project?.name;
+      if (!IcalFeedService.canManage(user, feed)) {
+        return res.status(403).json({ message: "Access denied" });
       }
 
-      // Create calendar event
-      const eventId = await googleCalendarService.createTaskEvent(userId, {
-        ...task,
-        projectName
-      });
-
-      if (eventId) {
-        // Store the event ID in the task
-        await storage.updateTaskCalendarEvent(taskId, eventId);
-        res.json({ success: true, eventId });
-      } else {
-        res.status(500).json({ message: 'Failed to create calendar event' });
-      }
+      await IcalFeedService.revoke(feed);
+      res.json({ success: true });
     } catch (error) {
-      console.error('Error syncing task to calendar:', error);
-      res.status(500).json({ message: 'Failed to sync task to calendar' });
+      console.error("Error revoking calendar feed:", error);
+      res.status(500).json({ message: "Failed to revoke calendar feed" });
     }
   });
 
@@ -3079,21 +4720,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const userId = req.user.claims.sub;
       const taskId = req.params.id;
 
-      const task = await storage.getTask(taskId);
-      if (!task || !task.googleCalendarEventId) {
+      const { deleted } = await CalendarService.removeTaskEvent(taskId, userId);
+      if (!deleted) {
         return res.status(404).json({ message: 'Task or calendar event not found' });
       }
-
-      // Delete calendar event
-      const success = await googleCalendarService.deleteTaskEvent(userId, task.googleCalendarEventId);
-
-      if (success) {
-        // Remove event ID from task
-        await storage.updateTaskCalendarEvent(taskId, null);
-        res.json({ success: true });
-      } else {
-        res.status(500).json({ message: 'Failed to delete calendar event' });
-      }
+      res.json({ success: true });
     } catch (error) {
       console.error('Error removing calendar sync:', error);
       res.status(500).json({ message: 'Failed to remove calendar sync' });
@@ -3103,13 +4734,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get('/api/user/calendar-status', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const isAvailable = await googleCalendarService.isCalendarSyncAvailable(userId);
       const user = await storage.getUser(userId);
       
       res.json({
-        available: isAvailable,
+        available: CalendarService.isAvailable(),
         enabled: user?.calendarSyncEnabled || false,
-        hasTokens: !!(user?.googleAccessToken)
+        hasTokens: await CalendarService.hasConnectedCalendar(userId)
       });
     } catch (error) {
       console.error('Error getting calendar status:', error);
@@ -3130,16 +4760,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/user/calendar-access', isAuthenticated, async (req: any, res) => {
+  app.put('/api/user/timezone', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const success = await googleCalendarService.revokeAccess(userId);
-      
-      if (success) {
-        res.json({ success: true });
-      } else {
-        res.status(500).json({ message: 'Failed to revoke calendar access' });
+      const { timezone } = req.body;
+
+      if (!isValidTimezone(timezone)) {
+        return res.status(400).json({ message: "timezone must be a valid IANA timezone, e.g. America/Toronto" });
       }
+
+      const user = await storage.updateUserTimezone(userId, timezone);
+      res.json({ success: true, timezone: user.timezone });
+    } catch (error) {
+      console.error('Error updating timezone preference:', error);
+      res.status(500).json({ message: 'Failed to update timezone preference' });
+    }
+  });
+
+  app.delete('/api/user/calendar-access', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      await CalendarService.disconnect(userId);
+      await storage.updateUserCalendarSync(userId, false);
+      res.json({ success: true });
     } catch (error) {
       console.error('Error revoking calendar access:', error);
       res.status(500).json({ message: 'Failed to revoke calendar access' });
@@ -3184,7 +4827,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: 'User not found' });
       }
 
-      // Find tasks assigned to user where due_at exists but calendar_event_id is null
+      // Find tasks assigned to user where due_at exists but no event has been pushed to their calendar
       const { pool } = await import('./db');
       const hoursAgo = new Date(Date.now() - parseInt(hours) * 60 * 60 * 1000);
       
@@ -3194,21 +4837,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         JOIN team_members tm ON ta.team_member_id = tm.id 
         WHERE tm.email = $1 
           AND t.due_at IS NOT NULL 
-          AND t.google_calendar_event_id IS NULL 
+          AND t.deleted_at IS NULL
           AND t.updated_at >= $2
+          AND NOT EXISTS (SELECT 1 FROM task_event_mappings m WHERE m.task_id = t.id AND m.user_id = $3)
       `;
       
-      const result = await pool.query(query, [as, hoursAgo]);
+      const result = await pool.query(query, [as, hoursAgo, user.id]);
       const tasksToBackfill = result.rows;
       
-      const { calendarUpsert } = await import('./calendarUpsert');
       let backfilled = 0;
       
       for (const task of tasksToBackfill) {
-        const upsertResult = await calendarUpsert(task, user.id);
+        const upsertResult = await CalendarService.syncTask(task.id, user.id);
         
-        if (upsertResult.success && upsertResult.eventId) {
-          await storage.updateTask(task.id, { googleCalendarEventId: upsertResult.eventId });
+        if (upsertResult.ok) {
           backfilled++;
           console.log('Backfilled calendar event:', { taskId: task.id, eventId: upsertResult.eventId });
         }
@@ -3272,5 +4914,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   const httpServer = createServer(app);
+  RealtimeService.attach(httpServer, getSession());
   return httpServer;
 }
@@ -1,6 +1,5 @@
 import { Router } from 'express';
 import { CalendarService } from '../services/CalendarService';
-import { AutoCalendarSync } from '../hooks/autoCalendarSync';
 import { pool } from '../db';
 import { DateTime } from 'luxon';
 
@@ -45,12 +44,8 @@ router.get('/get-event', async (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
     
-    // Get team member ID for fallback
-    const teamResult = await pool.query('SELECT id FROM team_members WHERE email = $1', [as]);
-    const teamMemberId = teamResult.rows[0]?.id;
-    
     const userId = userResult.rows[0].id;
-    const event = await CalendarService.getEventDetails(eventId as string, userId, teamMemberId);
+    const event = await CalendarService.getEvent(userId, eventId as string);
     
     res.json({ event });
   } catch (error: any) {
@@ -73,19 +68,10 @@ router.get('/upsert-task', async (req, res) => {
       return res.status(404).json({ error: 'User not found' });
     }
     
-    // Get team member ID for token resolution
-    const teamResult = await pool.query('SELECT id FROM team_members WHERE email = $1', [as]);
-    const teamMemberId = teamResult.rows[0]?.id;
-    
     const userId = userResult.rows[0].id;
-    const result = await CalendarService.upsertTaskEvent(taskId as string, userId, teamMemberId);
+    const result = await CalendarService.syncTask(taskId as string, userId);
     
-    res.json({ 
-      ok: true, 
-      eventId: result.eventId, 
-      htmlLink: result.htmlLink,
-      isUpdate: result.isUpdate
-    });
+    res.status(result.ok ? 200 : 400).json(result);
   } catch (error: any) {
     res.status(500).json({ error: error.message, stack: error.stack });
   }
@@ -124,12 +110,8 @@ router.get('/flush', async (req, res) => {
     const results = [];
     
     for (const assignment of assignmentResult.rows) {
-      try {
-        const result = await CalendarService.upsertTaskEvent(assignment.task_id, userId);
-        results.push({ taskId: assignment.task_id, success: true, eventId: result.eventId });
-      } catch (error: any) {
-        results.push({ taskId: assignment.task_id, success: false, error: error.message });
-      }
+      const result = await CalendarService.syncTask(assignment.task_id, userId);
+      results.push({ taskId: assignment.task_id, success: result.ok, eventId: result.eventId, error: result.error });
     }
     
     res.json({ ok: true, synced: results.length, results });
@@ -167,13 +149,8 @@ router.get('/self-test', async (req, res) => {
     const teamMemberId = teamResult.rows[0]?.id;
     
     // Check tokens
-    const tokenResult = await pool.query(
-      'SELECT * FROM google_tokens WHERE (owner_type = $1 AND owner_id = $2) OR (owner_type = $3 AND owner_id = $4)',
-      ['userId', userId, 'teamMemberId', teamMemberId]
-    );
-    
-    if (tokenResult.rows.length === 0) {
-      return res.status(400).json({ error: 'No Google Calendar tokens found', userId, teamMemberId });
+    if (!(await CalendarService.hasConnectedCalendar(userId))) {
+      return res.status(400).json({ error: 'No calendar connected', userId, teamMemberId });
     }
     
     log(`Found user ${as} with calendar tokens (user_id: ${userId})`);
@@ -255,12 +232,11 @@ router.get('/self-test', async (req, res) => {
     log(`Updated task with due date: ${dueDateTime.toISO()}`);
     
     // Step 3: Test calendar sync
-    let syncResult;
-    try {
-      syncResult = await CalendarService.upsertTaskEvent(taskId, userId, teamMemberId);
+    const syncResult = await CalendarService.syncTask(taskId, userId);
+    if (syncResult.ok) {
       log(`Calendar sync successful: ${syncResult.htmlLink}`);
-    } catch (error: any) {
-      log(`Create test failed: ${error.message}`);
+    } else {
+      log(`Create test failed: ${syncResult.error}`);
       // Clean up test task
       await pool.query('DELETE FROM task_assignments WHERE task_id = $1', [taskId]);
       await pool.query('DELETE FROM tasks WHERE id = $1', [taskId]);
@@ -272,7 +248,7 @@ router.get('/self-test', async (req, res) => {
         logs,
         create: {
           ok: false,
-          error: error.message
+          error: syncResult.error
         }
       });
     }
@@ -292,30 +268,26 @@ router.get('/self-test', async (req, res) => {
     
     log(`Updated task due time to: ${newDueTime.toISO()}`);
     
-    // Trigger auto-sync
-    await AutoCalendarSync.onTaskChanged(taskId);
-    log('Triggered auto-sync via task update hook');
+    // Same call the queued calendar_upsert job makes
+    const updateResult = await CalendarService.syncTask(taskId, userId);
+    log(`Re-synced task, event ID unchanged: ${updateResult.eventId === syncResult.eventId}`);
     
     // Verify update
-    const updatedEvent = await CalendarService.getEventDetails(syncResult.eventId, userId, teamMemberId);
-    log(`Event updated, new start time: ${updatedEvent.start?.dateTime || updatedEvent.start?.date}`);
+    const updatedEvent = await CalendarService.getEvent(userId, syncResult.eventId!);
+    log(`Event updated, new start time: ${updatedEvent?.start?.dateTime || updatedEvent?.start?.date}`);
     
     // Step 5: Test cleanup
     log('Testing task deletion and calendar cleanup...');
     
-    await AutoCalendarSync.onTaskDeleted(taskId);
-    log('Triggered delete hook');
+    await CalendarService.removeTaskEvent(taskId, userId);
+    log('Removed task event');
     
     // Clean up task
     await pool.query('DELETE FROM task_assignments WHERE task_id = $1', [taskId]);
     await pool.query('DELETE FROM tasks WHERE id = $1', [taskId]);
     
-    let eventDeleted = false;
-    try {
-      await CalendarService.getEventDetails(syncResult.eventId, userId, teamMemberId);
-    } catch (error) {
-      eventDeleted = true;
-    }
+    const deletedEvent = await CalendarService.getEvent(userId, syncResult.eventId!);
+    const eventDeleted = !deletedEvent || deletedEvent.status === 'cancelled';
     
     const mappingCheck = await CalendarService.getTaskMapping(taskId, userId);
     log(`Event deleted: ${eventDeleted}, Mapping removed: ${!mappingCheck}`);
@@ -336,7 +308,7 @@ router.get('/self-test', async (req, res) => {
       },
       update: {
         ok: true,
-        eventIdUnchanged: true,
+        eventIdUnchanged: updateResult.eventId === syncResult.eventId,
         newStartLocal: newDueTime.toISO()
       },
       delete: {
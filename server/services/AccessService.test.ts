@@ -0,0 +1,106 @@
+import '../test/env';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { AccessService } from './AccessService';
+import type { Project, User } from '@shared/schema';
+
+const project = (id: string, fields: Partial<Project> = {}) =>
+  ({ id, name: `Project ${id}`, clientId: null, organizationId: null, budget: '5000', ...fields }) as Project;
+
+const own = project('own', { clientId: 'client-1' });
+const shared = project('shared', { organizationId: 'org-1' });
+const joined = project('joined');
+const elsewhere = project('elsewhere', { organizationId: 'org-2' });
+const projects = [own, shared, joined, elsewhere, project('removed', { deletedAt: new Date() })];
+
+const user = (id: string, role: string, fields: Partial<User> = {}) => ({ id, role, organizationId: null, ...fields }) as User;
+const admin = user('admin-1', 'admin');
+const manager = user('pm-1', 'project_manager');
+const client = user('client-1', 'client', { organizationId: 'org-1' });
+const colleague = user('client-2', 'client_admin', { organizationId: 'org-1' });
+const contributor = user('staff-1', 'contributor', { organizationId: 'org-1' });
+
+beforeEach(() => {
+  mock.method(storage, 'getAllProjects', async () => projects);
+  mock.method(storage, 'getProject', async (id: string) => projects.find(item => item.id === id));
+  mock.method(storage, 'getProjectsByClient', async (id: string) => projects.filter(item => item.clientId === id));
+  mock.method(storage, 'getProjectsByOrganization', async (id: string) => projects.filter(item => item.organizationId === id));
+  mock.method(storage, 'getMemberProjectIds', async (id: string) => (id === 'staff-1' || id === 'client-1' ? ['joined', 'own', 'removed'] : []));
+  mock.method(storage, 'isProjectMember', async (projectId: string, userId: string) => projectId === 'joined' && (userId === 'staff-1' || userId === 'client-1'));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('AccessService.can', () => {
+  test('follows the role permissions', () => {
+    assert.equal(AccessService.can(admin, 'billing.manage'), true);
+    assert.equal(AccessService.can(manager, 'tasks.manage'), true);
+    assert.equal(AccessService.can(manager, 'billing.manage'), false);
+    assert.equal(AccessService.can(manager, 'team.manage'), false);
+    assert.equal(AccessService.can(contributor, 'tasks.manage'), false);
+    assert.equal(AccessService.can(client, 'approvals.decide'), true);
+  });
+
+  test('denies unknown roles and missing users', () => {
+    assert.equal(AccessService.can(user('x', 'superuser'), 'project.view'), false);
+    assert.equal(AccessService.can(null, 'project.view'), false);
+    assert.equal(AccessService.can(undefined, 'project.view'), false);
+  });
+});
+
+describe('AccessService.canAccessProject', () => {
+  test('staff who see everything can open any project', async () => {
+    assert.equal(await AccessService.canAccessProject(admin, elsewhere), true);
+    assert.equal(await AccessService.canAccessProject(manager, elsewhere), true);
+  });
+
+  test('clients see their own projects and their organization\'s', async () => {
+    assert.equal(await AccessService.canAccessProject(client, own), true);
+    assert.equal(await AccessService.canAccessProject(client, shared), true);
+    assert.equal(await AccessService.canAccessProject(colleague, shared), true);
+    assert.equal(await AccessService.canAccessProject(colleague, own), false);
+    assert.equal(await AccessService.canAccessProject(client, elsewhere), false);
+  });
+
+  test('staff only see the projects they were added to, whatever organization they carry', async () => {
+    assert.equal(await AccessService.canAccessProject(contributor, joined), true);
+    assert.equal(await AccessService.canAccessProject(contributor, shared), false);
+    assert.equal(AccessService.isOrganizationContact(contributor, shared), false);
+  });
+
+  test('nobody signed in sees nothing', async () => {
+    assert.equal(await AccessService.canAccessProject(null, own), false);
+  });
+});
+
+describe('AccessService.visibleProjects', () => {
+  const ids = (list: Project[]) => list.map(item => item.id).sort();
+
+  test('staff who see everything get every project', async () => {
+    assert.deepEqual(ids(await AccessService.visibleProjects(admin)), ids(projects));
+  });
+
+  test('clients get their own, their organization\'s and joined projects once each', async () => {
+    assert.deepEqual(ids(await AccessService.visibleProjects(client)), ['joined', 'own', 'shared']);
+    assert.deepEqual(ids(await AccessService.visibleProjects(colleague)), ['shared']);
+  });
+
+  test('staff get joined projects only, never deleted ones', async () => {
+    assert.deepEqual(ids(await AccessService.visibleProjects(contributor)), ['joined', 'own']);
+  });
+});
+
+describe('AccessService.redactProject', () => {
+  test('keeps the budget for people who may see money', () => {
+    assert.equal(AccessService.redactProject(admin, own).budget, '5000');
+    assert.equal(AccessService.redactProject(client, own).budget, '5000');
+  });
+
+  test('clears it for everyone else', () => {
+    assert.equal(AccessService.redactProject(contributor, joined).budget, null);
+    assert.equal(AccessService.redactProject(user('client-3', 'client_viewer'), own).budget, null);
+    assert.equal(AccessService.redactProject(null, own).budget, null);
+    assert.equal(own.budget, '5000');
+  });
+});
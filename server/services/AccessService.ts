@@ -0,0 +1,46 @@
+import { storage } from '../storage';
+import { hasPermission, isStaffRole, type Permission } from '@shared/permissions';
+import type { Project, User } from '@shared/schema';
+
+type Actor = Pick<User, 'id' | 'role' | 'organizationId'>;
+
+// The one place that answers "may this user do that?"; routes reach it through the authorize middleware
+export class AccessService {
+  static can(user: { role?: string | null; contactAccess?: string | null } | null | undefined, permission: Permission): boolean {
+    return !!user && hasPermission(user.role, permission, user.contactAccess);
+  }
+
+  // Client contacts share their organization's projects
+  static isOrganizationContact(user: Actor, project: Pick<Project, 'organizationId'>): boolean {
+    return !isStaffRole(user.role) && !!user.organizationId && user.organizationId === project.organizationId;
+  }
+
+  // Staff who see everything, the project's client, their organization's contacts, or someone added to the project
+  static async canAccessProject(user: Actor | null | undefined, project: Project): Promise<boolean> {
+    if (!user) return false;
+    if (this.can(user, 'projects.view_all')) return true;
+    if (project.clientId === user.id || this.isOrganizationContact(user, project)) return true;
+    return storage.isProjectMember(project.id, user.id);
+  }
+
+  static async visibleProjects(user: Actor): Promise<Project[]> {
+    if (this.can(user, 'projects.view_all')) {
+      return storage.getAllProjects();
+    }
+
+    const own = await storage.getProjectsByClient(user.id);
+    const organization = user.organizationId && !isStaffRole(user.role)
+      ? await storage.getProjectsByOrganization(user.organizationId)
+      : [];
+    const visible = [...own, ...organization.filter(project => !own.some(mine => mine.id === project.id))];
+
+    const memberIds = (await storage.getMemberProjectIds(user.id)).filter(id => !visible.some(project => project.id === id));
+    const memberProjects = await Promise.all(memberIds.map(id => storage.getProject(id)));
+    return [...visible, ...memberProjects.filter((project): project is Project => !!project && !project.deletedAt)];
+  }
+
+  // Budgets stay with the people allowed to see money on a project
+  static redactProject<T extends Project>(user: { role?: string | null; contactAccess?: string | null } | null | undefined, project: T): T {
+    return this.can(user, 'project.budget.view') ? project : { ...project, budget: null };
+  }
+}
@@ -0,0 +1,116 @@
+import '../test/env';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pool } from '../db';
+import { storage } from '../storage';
+import { ApprovalService } from './ApprovalService';
+import type { ApprovalRequest, Project, Task, User } from '@shared/schema';
+
+const project = { id: 'p1', name: 'Spring campaign', clientId: 'client-1', organizationId: 'org-1' } as Project;
+const admin = { id: 'admin-1', role: 'admin', organizationId: null } as User;
+const client = { id: 'client-1', role: 'client', organizationId: 'org-1', firstName: 'Dana' } as User;
+const colleague = { id: 'client-2', role: 'client_admin', organizationId: 'org-1' } as User;
+// Staff whose profile happens to carry the client's organization
+const contributor = { id: 'staff-1', role: 'contributor', organizationId: 'org-1' } as User;
+
+const request = (fields: Partial<ApprovalRequest> = {}) => ({
+  id: 'ar-1',
+  subjectType: 'task',
+  taskId: 'review',
+  fileId: null,
+  projectId: 'p1',
+  requestedBy: 'admin-1',
+  requestedFrom: 'client-1',
+  status: 'pending',
+  ...fields,
+}) as ApprovalRequest;
+
+let tasks: Map<string, Task>;
+let updateTask: ReturnType<typeof mock.method>;
+let createNotification: ReturnType<typeof mock.method>;
+
+beforeEach(() => {
+  tasks = new Map([
+    ['copy', { id: 'copy', title: 'Copy', status: 'in_progress', projectId: 'p1', dependencies: [] } as unknown as Task],
+    ['review', { id: 'review', title: 'Final cut', status: 'needs_approval', projectId: 'p1', dependencies: ['copy'] } as unknown as Task],
+  ]);
+  mock.method(storage, 'getApprovalRequest', async () => request());
+  mock.method(storage, 'getTask', async (id: string) => tasks.get(id));
+  mock.method(storage, 'getProject', async () => project);
+  mock.method(storage, 'isProjectMember', async () => false);
+  mock.method(storage, 'getTaskAssignments', async () => []);
+  updateTask = mock.method(storage, 'updateTask', async (id: string, updates: Partial<Task>) => ({ ...tasks.get(id)!, ...updates }));
+  createNotification = mock.method(storage, 'createNotification', async (notification: unknown) => notification);
+  mock.method(pool, 'query', async () => ({ rowCount: 1, rows: [] }));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('ApprovalService.decide', () => {
+  test('an approval with open upstream tasks is recorded but leaves the task awaiting approval', async () => {
+    const result = await ApprovalService.decide(client, 'ar-1', 'approved', 'Looks great');
+
+    assert.equal(result.ok, true);
+    assert.equal(updateTask.mock.callCount(), 0);
+    const [notification] = createNotification.mock.calls[0].arguments as any[];
+    assert.equal(notification.userId, 'admin-1');
+    assert.match(notification.body, /^Looks great\n\n.*not completed/);
+  });
+
+  test('an approval with nothing open completes the task', async () => {
+    tasks.set('copy', { ...tasks.get('copy')!, status: 'completed' });
+    const result = await ApprovalService.decide(client, 'ar-1', 'approved');
+
+    assert.equal(result.ok, true);
+    const [id, updates] = updateTask.mock.calls[0].arguments as any[];
+    assert.equal(id, 'review');
+    assert.equal(updates.status, 'completed');
+    assert.equal((createNotification.mock.calls[0].arguments as any[])[0].body, null);
+  });
+
+  test('requested changes move the task on regardless of upstream tasks', async () => {
+    await ApprovalService.decide(client, 'ar-1', 'changes_requested');
+
+    assert.equal((updateTask.mock.calls[0].arguments as any[])[1].status, 'in_progress');
+  });
+});
+
+describe('ApprovalService.canDecide', () => {
+  test('the client and their organization contacts can decide', async () => {
+    assert.equal(await ApprovalService.canDecide(client, request(), project), true);
+    assert.equal(await ApprovalService.canDecide(colleague, request(), project), true);
+  });
+
+  test('staff sharing the client organization cannot', async () => {
+    assert.equal(await ApprovalService.canDecide(contributor, request(), project), false);
+    assert.equal(await ApprovalService.canDecide(admin, request(), project), false);
+  });
+
+  test('a client outside the project cannot, even from another organization', async () => {
+    const outsider = { id: 'client-9', role: 'client', organizationId: 'org-2' } as User;
+    assert.equal(await ApprovalService.canDecide(outsider, request(), project), false);
+  });
+
+  test('someone asked directly can decide while they still have access to the project', async () => {
+    const asked = { id: 'client-9', role: 'client', organizationId: 'org-2' } as User;
+    assert.equal(await ApprovalService.canDecide(asked, request({ requestedFrom: 'client-9' }), project), false);
+
+    mock.method(storage, 'isProjectMember', async () => true);
+    assert.equal(await ApprovalService.canDecide(asked, request({ requestedFrom: 'client-9' }), project), true);
+  });
+
+  test('read-only client accounts never decide', async () => {
+    const viewer = { id: 'client-3', role: 'client_viewer', organizationId: 'org-1' } as User;
+    assert.equal(await ApprovalService.canDecide(viewer, request(), project), false);
+  });
+});
+
+describe('ApprovalService.requestApproval', () => {
+  test('refuses to ask staff who share the client organization', async () => {
+    mock.method(storage, 'getUser', async () => contributor);
+
+    const result = await ApprovalService.requestApproval(admin, { subjectType: 'task', subjectId: 'review', requestedFrom: 'staff-1' });
+
+    assert.deepEqual(result, { ok: false, error: 'That contact is not a client on this project' });
+  });
+});
@@ -0,0 +1,298 @@
+import { storage } from '../storage';
+import { pool } from '../db';
+import { onTaskCreatedOrUpdated } from '../hooks/taskCalendarHooks';
+import { RecurrenceService } from './RecurrenceService';
+import { COMPLETED_STATUS, TaskDependencyService } from './TaskDependencyService';
+import { AccessService } from './AccessService';
+import { isStaffRole } from '@shared/permissions';
+import type { ApprovalRequest, Project, ProjectFile, Task, User } from '@shared/schema';
+
+export type ApprovalDecision = 'approved' | 'rejected' | 'changes_requested';
+
+// Where each decision sends the task next
+export const APPROVAL_TASK_STATUS: Record<ApprovalDecision, string> = {
+  approved: COMPLETED_STATUS,
+  changes_requested: 'in_progress',
+  rejected: 'needs_clarification',
+};
+
+const AWAITING_APPROVAL_STATUS = 'needs_approval';
+
+const DECISION_LABELS: Record<ApprovalDecision, string> = {
+  approved: 'approved',
+  changes_requested: 'requested changes to',
+  rejected: 'rejected',
+};
+
+// Client dashboard section listing the requests
+export const APPROVALS_LINK = '/?section=approvals';
+
+interface ApprovalResult<T> {
+  ok: boolean;
+  value?: T;
+  error?: string;
+  notFound?: boolean;
+  forbidden?: boolean;
+  conflict?: boolean;
+}
+
+interface ApprovalSubject {
+  task?: Task;
+  file?: ProjectFile;
+  project?: Project;
+  title: string;
+}
+
+export interface ApprovalRequestView extends ApprovalRequest {
+  subjectTitle: string | null;
+  fileVersionNumber: number | null;
+  fileIsLatestVersion: boolean | null;
+  projectName: string | null;
+  requestedByName: string | null;
+  requestedFromName: string | null;
+  decidedByName: string | null;
+}
+
+const displayName = (user: Pick<User, 'firstName' | 'lastName' | 'email'>) =>
+  [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || 'Client';
+
+const userNameSql = (alias: string) =>
+  `COALESCE(NULLIF(TRIM(CONCAT(${alias}.first_name, ' ', ${alias}.last_name)), ''), ${alias}.email)`;
+
+// Client sign-off on tasks and files: admins ask, the client contact decides, the task moves on by itself
+export class ApprovalService {
+  private static async resolveSubject(subjectType: string, subjectId: string): Promise<ApprovalResult<ApprovalSubject>> {
+    if (subjectType === 'task') {
+      const task = await storage.getTask(subjectId);
+      if (!task || task.deletedAt) return { ok: false, notFound: true, error: 'Task not found' };
+      const project = task.projectId ? await storage.getProject(task.projectId) : undefined;
+      return { ok: true, value: { task, project, title: task.title } };
+    }
+
+    const file = await storage.getProjectFile(subjectId);
+    if (!file) return { ok: false, notFound: true, error: 'File not found' };
+    const project = await storage.getProject(file.projectId);
+    // Approval is recorded against one version, so name the version being decided on
+    const title = file.versionNumber > 1 ? `${file.fileName} (v${file.versionNumber})` : file.fileName;
+    return { ok: true, value: { file, project, title } };
+  }
+
+  // Client accounts with access to the project can decide: its client, their organization's contacts and client members
+  private static async isClientContact(user: User, project: Project | undefined): Promise<boolean> {
+    return !!project && !isStaffRole(user.role) && AccessService.canAccessProject(user, project);
+  }
+
+  // Read-only client accounts can see approvals but never decide them; staff only when asked directly
+  static async canDecide(user: User, request: ApprovalRequest, project: Project | undefined): Promise<boolean> {
+    if (!AccessService.can(user, 'approvals.decide')) return false;
+    if (request.requestedFrom === user.id) return !!project && AccessService.canAccessProject(user, project);
+    return this.isClientContact(user, project);
+  }
+
+  private static async resolveRecipient(project: Project | undefined, requestedFrom?: string | null): Promise<User | undefined> {
+    if (requestedFrom) {
+      const user = await storage.getUser(requestedFrom);
+      return user && (await this.isClientContact(user, project)) ? user : undefined;
+    }
+    if (project?.clientId) {
+      return storage.getUser(project.clientId);
+    }
+    const organization = project?.organizationId ? await storage.getOrganization(project.organizationId) : undefined;
+    return organization?.primaryContactId ? storage.getUser(organization.primaryContactId) : undefined;
+  }
+
+  static async requestApproval(
+    admin: User,
+    input: { subjectType: 'task' | 'file'; subjectId: string; requestedFrom?: string | null; message?: string | null }
+  ): Promise<ApprovalResult<{ request: ApprovalRequest; recipient: User; subjectTitle: string; projectName: string | null }>> {
+    const subject = await this.resolveSubject(input.subjectType, input.subjectId);
+    if (!subject.ok) return { ok: false, notFound: true, error: subject.error };
+    const { task, file, project, title } = subject.value!;
+
+    const recipient = await this.resolveRecipient(project, input.requestedFrom);
+    if (!recipient) {
+      return { ok: false, error: input.requestedFrom ? 'That contact is not a client on this project' : 'This project has no client contact to ask' };
+    }
+
+    const pending = await storage.getApprovalRequests({ taskId: task?.id, fileId: file?.id, status: 'pending' });
+    if (pending.length > 0) {
+      return { ok: false, conflict: true, error: 'An approval request is already pending' };
+    }
+
+    const request = await storage.createApprovalRequest({
+      subjectType: input.subjectType,
+      taskId: task?.id ?? null,
+      fileId: file?.id ?? null,
+      projectId: project?.id ?? null,
+      requestedBy: admin.id,
+      requestedFrom: recipient.id,
+      message: input.message || null,
+      previousTaskStatus: task?.status ?? null,
+    });
+
+    if (task) {
+      await this.moveTask(task, AWAITING_APPROVAL_STATUS);
+    } else if (file) {
+      await storage.updateProjectFile(file.id, { isApprovalRequired: true, isApproved: null, approvedBy: null, approvedAt: null });
+    }
+
+    await storage.createNotification({
+      userId: recipient.id,
+      type: 'approval_requested',
+      title: `Approval needed: ${title}`,
+      body: input.message || `${displayName(admin)} asked you to review this ${input.subjectType}.`,
+      link: APPROVALS_LINK,
+      entityType: 'approval_request',
+      entityId: request.id,
+    });
+
+    return { ok: true, value: { request, recipient, subjectTitle: title, projectName: project?.name ?? null } };
+  }
+
+  static async decide(
+    user: User,
+    requestId: string,
+    decision: ApprovalDecision,
+    comment?: string | null
+  ): Promise<ApprovalResult<ApprovalRequest>> {
+    const request = await storage.getApprovalRequest(requestId);
+    if (!request) return { ok: false, notFound: true, error: 'Approval request not found' };
+
+    const subject = await this.resolveSubject(request.subjectType, (request.taskId || request.fileId)!);
+    if (!subject.ok) return { ok: false, notFound: true, error: subject.error };
+    const { task, file, project, title } = subject.value!;
+
+    if (!(await this.canDecide(user, request, project))) {
+      return { ok: false, forbidden: true, error: 'Access denied' };
+    }
+    if (request.status !== 'pending') {
+      return { ok: false, conflict: true, error: 'This request has already been decided' };
+    }
+
+    // Conditional on still being pending, so two contacts deciding at once can't both win
+    const claimed = await pool.query(`
+      UPDATE approval_requests
+      SET status = $2, decided_by = $3, decided_at = NOW(), decision_comment = $4, updated_at = NOW()
+      WHERE id = $1 AND status = 'pending'
+    `, [request.id, decision, user.id, comment || null]);
+    if (claimed.rowCount === 0) {
+      return { ok: false, conflict: true, error: 'This request has already been decided' };
+    }
+    const decided = await storage.getApprovalRequest(request.id);
+
+    // The decision stands either way; an approved task with open upstream tasks stays awaiting approval
+    let blocked = false;
+    if (task) {
+      blocked = !(await this.moveTask(task, APPROVAL_TASK_STATUS[decision]));
+    } else if (file) {
+      await storage.updateProjectFile(file.id, decision === 'approved'
+        ? { isApproved: true, approvedBy: user.id, approvedAt: new Date() }
+        : { isApproved: false, approvedBy: null, approvedAt: null });
+    }
+
+    const blockedNote = blocked ? 'The task is still waiting on tasks it depends on, so it was not completed.' : null;
+    await storage.createNotification({
+      userId: request.requestedBy,
+      type: 'approval_decided',
+      title: `${displayName(user)} ${DECISION_LABELS[decision]} ${title}`,
+      body: [comment, blockedNote].filter(Boolean).join('\n\n') || null,
+      link: null,
+      entityType: 'approval_request',
+      entityId: request.id,
+    });
+
+    return { ok: true, value: decided };
+  }
+
+  // Withdrawing a request puts the task back where it was, unless someone has moved it since
+  static async cancel(requestId: string): Promise<ApprovalResult<ApprovalRequest>> {
+    const request = await storage.getApprovalRequest(requestId);
+    if (!request) return { ok: false, notFound: true, error: 'Approval request not found' };
+    if (request.status !== 'pending') {
+      return { ok: false, conflict: true, error: 'Only pending requests can be cancelled' };
+    }
+
+    const cancelled = await storage.updateApprovalRequest(request.id, { status: 'cancelled' });
+    const task = request.taskId ? await storage.getTask(request.taskId) : undefined;
+    if (task && task.status === AWAITING_APPROVAL_STATUS && request.previousTaskStatus) {
+      await this.moveTask(task, request.previousTaskStatus);
+    }
+    return { ok: true, value: cancelled };
+  }
+
+  // Clients may preview a file that is waiting for their decision
+  static async isAwaitingDecision(user: User, file: ProjectFile): Promise<boolean> {
+    const [pending] = await storage.getApprovalRequests({ fileId: file.id, status: 'pending' });
+    if (!pending) return false;
+    return this.canDecide(user, pending, await storage.getProject(file.projectId));
+  }
+
+  // Admins see every request; clients see the ones for their projects (organization-wide for client contacts only)
+  static async listForUser(
+    user: User,
+    filter: { status?: string; taskId?: string; fileId?: string; projectId?: string }
+  ): Promise<ApprovalRequestView[]> {
+    const result = await pool.query(`
+      SELECT
+        ar.id, ar.subject_type AS "subjectType", ar.task_id AS "taskId", ar.file_id AS "fileId",
+        ar.project_id AS "projectId", ar.requested_by AS "requestedBy", ar.requested_from AS "requestedFrom",
+        ar.message, ar.status, ar.previous_task_status AS "previousTaskStatus",
+        ar.decided_by AS "decidedBy", ar.decided_at AS "decidedAt", ar.decision_comment AS "decisionComment",
+        ar.created_at AS "createdAt", ar.updated_at AS "updatedAt",
+        COALESCE(t.title, f.file_name) AS "subjectTitle",
+        f.version_number AS "fileVersionNumber", f.is_latest_version AS "fileIsLatestVersion",
+        p.name AS "projectName",
+        ${userNameSql('rb')} AS "requestedByName",
+        ${userNameSql('rf')} AS "requestedFromName",
+        ${userNameSql('du')} AS "decidedByName"
+      FROM approval_requests ar
+      LEFT JOIN tasks t ON t.id = ar.task_id
+      LEFT JOIN project_files f ON f.id = ar.file_id
+      LEFT JOIN projects p ON p.id = ar.project_id
+      LEFT JOIN users rb ON rb.id = ar.requested_by
+      LEFT JOIN users rf ON rf.id = ar.requested_from
+      LEFT JOIN users du ON du.id = ar.decided_by
+      WHERE ($1::varchar IS NULL OR ar.status = $1)
+        AND ($2::varchar IS NULL OR ar.task_id = $2)
+        AND ($3::varchar IS NULL OR ar.file_id = $3)
+        AND ($4::varchar IS NULL OR ar.project_id = $4)
+        AND (
+          $5::boolean
+          OR ar.requested_from = $6
+          OR p.client_id = $6
+          OR EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = p.id AND pm.user_id = $6)
+          OR ($7::varchar IS NOT NULL AND p.organization_id = $7)
+        )
+      ORDER BY (ar.status = 'pending') DESC, ar.created_at DESC
+      LIMIT 200
+    `, [
+      filter.status || null,
+      filter.taskId || null,
+      filter.fileId || null,
+      filter.projectId || null,
+      AccessService.can(user, 'projects.view_all'),
+      user.id,
+      (!isStaffRole(user.role) && user.organizationId) || null,
+    ]);
+    return result.rows;
+  }
+
+  // Same bookkeeping as a manual status change: dependency check, completion time, calendar events
+  // and the next occurrence. Returns false when open upstream tasks keep the task from completing.
+  private static async moveTask(task: Task, status: string): Promise<boolean> {
+    if (task.status === status) return true;
+    const update = await TaskDependencyService.updateTask(task, { status });
+    if (!update.ok) return false;
+    await onTaskCreatedOrUpdated(task.id);
+
+    const updated = update.value!;
+    if (status === COMPLETED_STATUS && updated.recurrenceSeriesId) {
+      try {
+        await RecurrenceService.onOccurrenceCompleted(updated);
+      } catch (error) {
+        console.error('Failed to generate next occurrence for task:', task.id, error);
+      }
+    }
+    return true;
+  }
+}
@@ -0,0 +1,240 @@
+import '../test/env';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pool } from '../db';
+import { storage } from '../storage';
+import { stubCalendarApi } from '../calendar/StubCalendarApi';
+import { CalendarPullService } from './CalendarPullService';
+import { CalendarService } from './CalendarService';
+import { JobQueueService } from './JobQueueService';
+import { JOB_TYPES } from '../jobs/handlers';
+import type { Task } from '@shared/schema';
+
+// Just enough of the sync tables for CalendarPullService's queries, keyed on the statement text
+const createTables = () => {
+  const states: any[] = [];
+  const mappings: any[] = [];
+  const conflicts: any[] = [];
+  const unscheduled: string[] = [];
+  const statements: [RegExp, (params: any[]) => any[]][] = [
+    [/^INSERT INTO calendar_sync_states/, ([userId, calendarId]) => {
+      let state = states.find(row => row.user_id === userId && row.calendar_id === calendarId);
+      if (!state) states.push(state = { id: `state-${states.length + 1}`, user_id: userId, calendar_id: calendarId, sync_token: null });
+      return [state];
+    }],
+    [/^UPDATE calendar_sync_states SET channel_id/, ([id, channelId, resourceId, token, expiration]) => {
+      Object.assign(states.find(row => row.id === id), { channel_id: channelId, channel_resource_id: resourceId, channel_token: token, channel_expiration: expiration });
+      return [];
+    }],
+    [/^UPDATE calendar_sync_states SET sync_token/, ([id, syncToken]) => {
+      states.find(row => row.id === id).sync_token = syncToken;
+      return [];
+    }],
+    [/^SELECT \* FROM calendar_sync_states WHERE channel_id/, ([channelId]) => states.filter(row => row.channel_id === channelId)],
+    [/^SELECT \* FROM task_event_mappings WHERE user_id = \$1 AND event_id = \$2/, ([userId, eventId]) =>
+      mappings.filter(row => row.user_id === userId && row.event_id === eventId)],
+    [/^SELECT user_id FROM task_event_mappings/, ([taskId, userId]) =>
+      mappings.filter(row => row.task_id === taskId && row.user_id !== userId).map(row => ({ user_id: row.user_id }))],
+    [/^UPDATE task_event_mappings SET synced_task_state/, ([id, taskState, eventState]) => {
+      Object.assign(mappings.find(row => row.id === id), { synced_task_state: JSON.parse(taskState), synced_event_state: JSON.parse(eventState) });
+      return [];
+    }],
+    [/^UPDATE calendar_sync_conflicts/, ([taskId, userId, taskState, eventState, eventId]) => {
+      const open = conflicts.filter(row => row.task_id === taskId && row.user_id === userId && row.status === 'open');
+      open.forEach(row => Object.assign(row, { task_state: JSON.parse(taskState), event_state: eventState && JSON.parse(eventState), event_id: eventId }));
+      return open.map(row => ({ id: row.id }));
+    }],
+    [/^INSERT INTO calendar_sync_conflicts/, ([taskId, userId, eventId, taskState, eventState]) => {
+      conflicts.push({ id: `conflict-${conflicts.length + 1}`, task_id: taskId, user_id: userId, event_id: eventId, task_state: JSON.parse(taskState), event_state: eventState && JSON.parse(eventState), status: 'open' });
+      return [];
+    }],
+    [/^DELETE FROM task_event_mappings WHERE id/, ([id]) => {
+      mappings.splice(mappings.findIndex(row => row.id === id), 1);
+      return [];
+    }],
+    [/^UPDATE tasks SET due_date = NULL/, ([taskId]) => {
+      unscheduled.push(taskId);
+      return [];
+    }],
+    [/^SELECT timezone FROM users/, () => [{ timezone: 'America/Vancouver' }]],
+  ];
+
+  mock.method(pool, 'query', async (text: string, params: any[] = []) => {
+    const sql = text.trim().replace(/\s+/g, ' ');
+    const match = statements.find(([pattern]) => pattern.test(sql));
+    if (!match) throw new Error(`Unexpected query: ${sql}`);
+    const rows = match[1](params);
+    return { rows, rowCount: rows.length };
+  });
+  return { states, mappings, conflicts, unscheduled };
+};
+
+let tables: ReturnType<typeof createTables>;
+let tasks: Map<string, Task>;
+let jobs: { type: string; payload: any }[];
+let calendarId: string;
+
+const EVENT_ID = 'evt1';
+const SYNCED_TASK = { title: 'Product shoot', dueAt: '2026-05-12T16:00:00.000Z', dueTime: '09:00' };
+const SYNCED_EVENT = {
+  summary: 'Product shoot',
+  start: { dateTime: '2026-05-12T09:00:00', timeZone: 'America/Vancouver' },
+  end: { dateTime: '2026-05-12T10:00:00', timeZone: 'America/Vancouver' },
+};
+
+// A task whose event was last pushed with SYNCED_TASK / SYNCED_EVENT, the way CalendarService.recordSyncState leaves it
+const seedMappedTask = (userId: string) => {
+  tasks.set('task-1', {
+    id: 'task-1',
+    title: SYNCED_TASK.title,
+    status: 'pending',
+    dueAt: new Date(SYNCED_TASK.dueAt),
+    dueTime: SYNCED_TASK.dueTime,
+    dependencies: [],
+  } as unknown as Task);
+  tables.mappings.push({
+    id: `mapping-${userId}`,
+    task_id: 'task-1',
+    user_id: userId,
+    event_id: EVENT_ID,
+    calendar_id: calendarId,
+    provider: 'google',
+    synced_task_state: SYNCED_TASK,
+    synced_event_state: CalendarService.eventSyncState(SYNCED_EVENT),
+  });
+};
+
+// Start watching, take the initial sync token and return the headers Google will send
+const watch = async (userId: string) => {
+  await CalendarPullService.watch(userId, calendarId);
+  const state = tables.states.find(row => row.user_id === userId);
+  return { channelId: state.channel_id, channelToken: state.channel_token, resourceId: state.channel_resource_id, resourceState: 'exists' };
+};
+
+// What the calendar.pull job does once the webhook has queued it
+const runQueuedPulls = async () => {
+  const pulls = jobs.filter(job => job.type === JOB_TYPES.calendarPull);
+  jobs = jobs.filter(job => job.type !== JOB_TYPES.calendarPull);
+  return Promise.all(pulls.map(job => CalendarPullService.pull(job.payload.userId, job.payload.calendarId)));
+};
+
+beforeEach(() => {
+  process.env.GOOGLE_CALENDAR_STUB = 'true';
+  process.env.CALENDAR_WEBHOOK_URL = 'https://app.test/api/calendar/webhook';
+  // Every test gets its own calendar in the shared stub
+  calendarId = `calendar-${Math.random().toString(36).slice(2)}`;
+  tables = createTables();
+  tasks = new Map();
+  jobs = [];
+  mock.method(storage, 'getTask', async (id: string) => tasks.get(id));
+  mock.method(storage, 'updateTask', async (id: string, updates: Partial<Task>) => {
+    tasks.set(id, { ...tasks.get(id)!, ...updates });
+    return tasks.get(id)!;
+  });
+  mock.method(JobQueueService, 'enqueue', async (type: string, payload: any) => {
+    jobs.push({ type, payload });
+    return { id: `job-${jobs.length}` };
+  });
+  mock.method(JobQueueService, 'cancel', async () => 0);
+});
+
+afterEach(() => {
+  mock.restoreAll();
+  delete process.env.GOOGLE_CALENDAR_STUB;
+  delete process.env.CALENDAR_WEBHOOK_URL;
+});
+
+describe('CalendarPullService against the stub Calendar API', () => {
+  test('a webhook for an event moved in the calendar reschedules the task', async () => {
+    seedMappedTask('user-1');
+    stubCalendarApi.putEvent(calendarId, { id: EVENT_ID, ...SYNCED_EVENT });
+    const headers = await watch('user-1');
+
+    stubCalendarApi.putEvent(calendarId, {
+      id: EVENT_ID,
+      ...SYNCED_EVENT,
+      start: { dateTime: '2026-05-14T13:30:00', timeZone: 'America/Vancouver' },
+      end: { dateTime: '2026-05-14T14:30:00', timeZone: 'America/Vancouver' },
+    });
+    assert.deepEqual(await CalendarPullService.handleNotification(headers), { ok: true });
+    const [summary] = await runQueuedPulls();
+
+    assert.deepEqual(summary, { processed: 1, updated: 1, conflicts: 0 });
+    const task = tasks.get('task-1')!;
+    assert.equal(task.dueAt!.toISOString(), '2026-05-14T20:30:00.000Z');
+    assert.equal(task.dueTime, '13:30');
+    assert.equal(tables.mappings[0].synced_event_state.start, '2026-05-14T20:30:00.000Z');
+  });
+
+  test('the channel handshake and forged notifications do not trigger a pull', async () => {
+    const headers = await watch('user-1');
+
+    assert.deepEqual(await CalendarPullService.handleNotification({ ...headers, resourceState: 'sync' }), { ok: true });
+    assert.equal((await CalendarPullService.handleNotification({ ...headers, channelToken: 'guess' })).forbidden, true);
+    assert.equal((await CalendarPullService.handleNotification({ ...headers, channelId: 'unknown' })).notFound, true);
+    assert.equal(jobs.filter(job => job.type === JOB_TYPES.calendarPull).length, 0);
+  });
+
+  test('the notification echoing our own push leaves the task alone', async () => {
+    seedMappedTask('user-1');
+    const headers = await watch('user-1');
+    const updateTask = storage.updateTask as unknown as ReturnType<typeof mock.fn>;
+
+    // The push wrote the event exactly as the snapshot records it
+    stubCalendarApi.putEvent(calendarId, { id: EVENT_ID, ...SYNCED_EVENT });
+    await CalendarPullService.handleNotification(headers);
+    const [summary] = await runQueuedPulls();
+
+    assert.deepEqual(summary, { processed: 1, updated: 0, conflicts: 0 });
+    assert.equal(updateTask.mock.callCount(), 0);
+    assert.equal(tables.conflicts.length, 0);
+  });
+
+  test('a change on both sides is logged as one open conflict instead of overwriting the task', async () => {
+    seedMappedTask('user-1');
+    const headers = await watch('user-1');
+    tasks.set('task-1', { ...tasks.get('task-1')!, title: 'Product shoot (studio B)' });
+
+    stubCalendarApi.putEvent(calendarId, { id: EVENT_ID, ...SYNCED_EVENT, summary: 'Product shoot - moved' });
+    await CalendarPullService.handleNotification(headers);
+    assert.deepEqual(await runQueuedPulls(), [{ processed: 1, updated: 0, conflicts: 1 }]);
+
+    // A second calendar edit refreshes the open conflict rather than adding another
+    stubCalendarApi.putEvent(calendarId, { id: EVENT_ID, ...SYNCED_EVENT, summary: 'Product shoot - moved again' });
+    await CalendarPullService.handleNotification(headers);
+    await runQueuedPulls();
+
+    assert.equal(tables.conflicts.length, 1);
+    assert.equal(tables.conflicts[0].task_state.title, 'Product shoot (studio B)');
+    assert.equal(tables.conflicts[0].event_state.summary, 'Product shoot - moved again');
+    assert.equal(tasks.get('task-1')!.title, 'Product shoot (studio B)');
+  });
+
+  test('deleting the event unschedules the task and removes the other assignees\' events', async () => {
+    seedMappedTask('user-1');
+    tables.mappings.push({ id: 'mapping-user-2', task_id: 'task-1', user_id: 'user-2', event_id: 'evt2', provider: 'google' });
+    stubCalendarApi.putEvent(calendarId, { id: EVENT_ID, ...SYNCED_EVENT });
+    const headers = await watch('user-1');
+
+    stubCalendarApi.deleteEvent(calendarId, EVENT_ID);
+    await CalendarPullService.handleNotification(headers);
+    assert.deepEqual(await runQueuedPulls(), [{ processed: 1, updated: 1, conflicts: 0 }]);
+
+    assert.deepEqual(tables.unscheduled, ['task-1']);
+    assert.deepEqual(tables.mappings.map(row => row.id), ['mapping-user-2']);
+    assert.deepEqual(jobs.map(job => [job.type, job.payload.userId]), [[JOB_TYPES.calendarDelete, 'user-2']]);
+  });
+
+  test('an expired sync token falls back to a full pull', async () => {
+    seedMappedTask('user-1');
+    await watch('user-1');
+    tables.states[0].sync_token = '999999999';
+    stubCalendarApi.putEvent(calendarId, { id: EVENT_ID, ...SYNCED_EVENT, summary: 'Renamed in Google' });
+
+    const summary = await CalendarPullService.pull('user-1', calendarId);
+
+    assert.deepEqual(summary, { processed: 1, updated: 1, conflicts: 0 });
+    assert.equal(tasks.get('task-1')!.title, 'Renamed in Google');
+    assert.notEqual(tables.states[0].sync_token, '999999999');
+  });
+});
@@ -0,0 +1,376 @@
+import { randomBytes, randomUUID } from 'crypto';
+import type { calendar_v3 } from 'googleapis';
+import { DateTime } from 'luxon';
+import { pool } from '../db';
+import { storage } from '../storage';
+import { CalendarService, type CalendarMapping } from './CalendarService';
+import { TaskDependencyService } from './TaskDependencyService';
+import { googleCalendarProvider } from '../calendar/GoogleCalendarProvider';
+import { JobQueueService } from './JobQueueService';
+import { JOB_TYPES, queueCalendarDelete, queueCalendarUpsert } from '../jobs/handlers';
+import type { CalendarSyncConflict, EventSyncState, TaskSyncState } from '@shared/schema';
+
+// The slice of the Google Calendar API two-way sync needs; StubCalendarApi implements it for offline runs
+export interface CalendarApi {
+  events: {
+    list(params: {
+      calendarId: string;
+      syncToken?: string;
+      pageToken?: string;
+      showDeleted?: boolean;
+      singleEvents?: boolean;
+      maxResults?: number;
+    }): Promise<{ data: calendar_v3.Schema$Events }>;
+    watch(params: {
+      calendarId: string;
+      requestBody: { id?: string | null; type?: string | null; address?: string | null; token?: string | null };
+    }): Promise<{ data: calendar_v3.Schema$Channel }>;
+  };
+  channels: {
+    stop(params: { requestBody: { id: string; resourceId: string } }): Promise<unknown>;
+  };
+}
+
+export interface WebhookHeaders {
+  channelId?: string;
+  channelToken?: string;
+  resourceId?: string;
+  resourceState?: string;
+}
+
+export interface PullSummary {
+  processed: number;
+  updated: number;
+  conflicts: number;
+}
+
+interface ServiceResult<T = undefined> {
+  ok: boolean;
+  value?: T;
+  error?: string;
+  notFound?: boolean;
+  forbidden?: boolean;
+  conflict?: boolean;
+}
+
+type PullOutcome = 'unchanged' | 'updated' | 'conflict';
+
+// Channels are renewed when they have less than a day left (Google caps them at about a week)
+const CHANNEL_RENEW_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const sameTaskState = (a: TaskSyncState, b: TaskSyncState) =>
+  a.title === b.title && a.dueAt === b.dueAt && a.dueTime === b.dueTime;
+
+const sameEventState = (a: EventSyncState | null, b: EventSyncState | null) =>
+  a === b || (!!a && !!b && a.summary === b.summary && a.start === b.start);
+
+// Google → app half of calendar sync: watch channels, sync-token pulls, and conflict detection
+export class CalendarPullService {
+  static webhookUrl(): string | null {
+    return process.env.CALENDAR_WEBHOOK_URL || null;
+  }
+
+  static async calendarFor(userId: string): Promise<CalendarApi> {
+    if (process.env.GOOGLE_CALENDAR_STUB === 'true') {
+      const { stubCalendarApi } = await import('../calendar/StubCalendarApi');
+      return stubCalendarApi;
+    }
+    return (await googleCalendarProvider.calendarFor(userId)) as unknown as CalendarApi;
+  }
+
+  private static async getSyncState(userId: string, calendarId: string) {
+    const result = await pool.query(
+      `INSERT INTO calendar_sync_states (user_id, calendar_id) VALUES ($1, $2)
+       ON CONFLICT (user_id, calendar_id) DO UPDATE SET updated_at = calendar_sync_states.updated_at
+       RETURNING *`,
+      [userId, calendarId]
+    );
+    return result.rows[0];
+  }
+
+  // Start (or replace) the push-notification channel for a user's calendar
+  static async watch(userId: string, calendarId: string = 'primary'): Promise<ServiceResult<{ channelId: string; expiration: Date | null }>> {
+    const address = this.webhookUrl();
+    if (!address) {
+      return { ok: false, error: 'CALENDAR_WEBHOOK_URL is not configured' };
+    }
+
+    const state = await this.getSyncState(userId, calendarId);
+    const api = await this.calendarFor(userId);
+    // A channel only reports that something changed, so take a sync token first to pull from
+    if (!state.sync_token) {
+      await this.pull(userId, calendarId);
+    }
+
+    const channelId = randomUUID();
+    const channelToken = randomBytes(24).toString('hex');
+    const response = await api.events.watch({
+      calendarId,
+      requestBody: { id: channelId, type: 'web_hook', address, token: channelToken },
+    });
+    const expiration = response.data.expiration ? new Date(Number(response.data.expiration)) : null;
+
+    if (state.channel_id && state.channel_resource_id) {
+      await api.channels
+        .stop({ requestBody: { id: state.channel_id, resourceId: state.channel_resource_id } })
+        .catch((error: any) => console.warn(`[CALENDAR-PULL] Failed to stop old channel ${state.channel_id}:`, error.message));
+    }
+
+    await pool.query(
+      `UPDATE calendar_sync_states
+       SET channel_id = $2, channel_resource_id = $3, channel_token = $4, channel_expiration = $5, updated_at = NOW()
+       WHERE id = $1`,
+      [state.id, channelId, response.data.resourceId, channelToken, expiration]
+    );
+    console.log(`[CALENDAR-PULL] Watching ${calendarId} for userId: ${userId}, channel: ${channelId}`);
+    return { ok: true, value: { channelId, expiration } };
+  }
+
+  // Google calls the webhook for every change; the actual pull runs as a background job
+  static async handleNotification(headers: WebhookHeaders): Promise<ServiceResult> {
+    if (!headers.channelId) {
+      return { ok: false, notFound: true, error: 'Unknown channel' };
+    }
+    const result = await pool.query('SELECT * FROM calendar_sync_states WHERE channel_id = $1', [headers.channelId]);
+    const state = result.rows[0];
+    if (!state) {
+      return { ok: false, notFound: true, error: 'Unknown channel' };
+    }
+    if (state.channel_token !== headers.channelToken || (headers.resourceId && state.channel_resource_id !== headers.resourceId)) {
+      return { ok: false, forbidden: true, error: 'Channel token mismatch' };
+    }
+
+    // "sync" is the handshake sent when the channel is created
+    if (headers.resourceState !== 'sync') {
+      await this.queuePull(state.user_id, state.calendar_id);
+    }
+    return { ok: true };
+  }
+
+  static async queuePull(userId: string, calendarId: string = 'primary') {
+    return JobQueueService.enqueue(
+      JOB_TYPES.calendarPull,
+      { userId, calendarId },
+      { idempotencyKey: `${JOB_TYPES.calendarPull}:${userId}:${calendarId}` }
+    );
+  }
+
+  // Incremental pull with the stored sync token; a 410 means the token expired and a full pull starts over
+  static async pull(userId: string, calendarId: string = 'primary'): Promise<PullSummary> {
+    const state = await this.getSyncState(userId, calendarId);
+    const api = await this.calendarFor(userId);
+    const summary: PullSummary = { processed: 0, updated: 0, conflicts: 0 };
+
+    let syncToken: string | undefined = state.sync_token || undefined;
+    let pageToken: string | undefined;
+    let nextSyncToken: string | null | undefined;
+    for (;;) {
+      let page: calendar_v3.Schema$Events;
+      try {
+        page = (await api.events.list({ calendarId, syncToken, pageToken, showDeleted: true, maxResults: 250 })).data;
+      } catch (error: any) {
+        if (syncToken && (error?.code === 410 || error?.response?.status === 410)) {
+          console.log(`[CALENDAR-PULL] Sync token expired for userId: ${userId}, running a full pull`);
+          syncToken = undefined;
+          pageToken = undefined;
+          continue;
+        }
+        throw error;
+      }
+
+      for (const event of page.items || []) {
+        if (!event.id) continue;
+        const mapping = await this.getMapping(userId, event.id);
+        if (!mapping) continue;
+        summary.processed++;
+        const outcome = await this.applyEvent(mapping, event);
+        if (outcome === 'updated') summary.updated++;
+        if (outcome === 'conflict') summary.conflicts++;
+      }
+
+      if (!page.nextPageToken) {
+        nextSyncToken = page.nextSyncToken;
+        break;
+      }
+      pageToken = page.nextPageToken;
+    }
+
+    await pool.query(
+      'UPDATE calendar_sync_states SET sync_token = $2, last_pulled_at = NOW(), updated_at = NOW() WHERE id = $1',
+      [state.id, nextSyncToken ?? state.sync_token]
+    );
+    if (summary.processed > 0) {
+      console.log(`[CALENDAR-PULL] userId: ${userId}`, summary);
+    }
+    return summary;
+  }
+
+  private static async getMapping(userId: string, eventId: string): Promise<CalendarMapping | null> {
+    const result = await pool.query(
+      "SELECT * FROM task_event_mappings WHERE user_id = $1 AND event_id = $2 AND provider = 'google'",
+      [userId, eventId]
+    );
+    return result.rows[0] || null;
+  }
+
+  // Compare the pulled event and the task against the snapshots from the last sync to decide who changed
+  private static async applyEvent(mapping: CalendarMapping, event: calendar_v3.Schema$Event): Promise<PullOutcome> {
+    const task = await storage.getTask(mapping.task_id);
+    if (!task || task.deletedAt) return 'unchanged';
+
+    const eventState = event.status === 'cancelled' ? null : CalendarService.eventSyncState(event);
+    const taskState = CalendarService.taskSyncState(task);
+
+    // Mappings made before two-way sync have no snapshot yet; the current state becomes the baseline
+    if (!mapping.synced_event_state) {
+      if (eventState) await this.saveSnapshots(mapping.id, taskState, eventState);
+      return 'unchanged';
+    }
+    if (sameEventState(eventState, mapping.synced_event_state)) {
+      return 'unchanged';
+    }
+
+    const taskChanged = !!mapping.synced_task_state && !sameTaskState(taskState, mapping.synced_task_state);
+    if (taskChanged) {
+      await this.recordConflict(mapping, taskState, eventState);
+      return 'conflict';
+    }
+
+    await this.applyEventState(mapping, eventState);
+    return 'updated';
+  }
+
+  private static async saveSnapshots(mappingId: string, taskState: TaskSyncState, eventState: EventSyncState) {
+    await pool.query(
+      'UPDATE task_event_mappings SET synced_task_state = $2, synced_event_state = $3, updated_at = NOW() WHERE id = $1',
+      [mappingId, JSON.stringify(taskState), JSON.stringify(eventState)]
+    );
+  }
+
+  // Event start → task due fields; all-day events land at the start of the day in the owner's timezone
+  static taskScheduleFromEvent(state: EventSyncState, ownerZone: string) {
+    if (state.start.startsWith('date:')) {
+      const date = state.start.slice('date:'.length);
+      return {
+        dueDate: new Date(`${date}T00:00:00Z`),
+        dueTime: null,
+        dueAt: DateTime.fromISO(date, { zone: ownerZone }).startOf('day').toJSDate(),
+      };
+    }
+    const local = DateTime.fromISO(state.start, { zone: 'utc' }).setZone(state.timeZone || ownerZone);
+    return {
+      dueDate: new Date(`${local.toISODate()}T00:00:00Z`),
+      dueTime: local.toFormat('HH:mm'),
+      dueAt: local.toJSDate(),
+    };
+  }
+
+  // Calendar wins: update (or unschedule) the task, then bring the other assignees' events in line
+  private static async applyEventState(mapping: CalendarMapping, eventState: EventSyncState | null): Promise<void> {
+    const otherMappings = await pool.query(
+      'SELECT user_id FROM task_event_mappings WHERE task_id = $1 AND user_id <> $2',
+      [mapping.task_id, mapping.user_id]
+    );
+
+    if (!eventState) {
+      // Deleting the event in Google unschedules the task
+      await pool.query(
+        'UPDATE tasks SET due_date = NULL, due_time = NULL, due_at = NULL, updated_at = NOW() WHERE id = $1',
+        [mapping.task_id]
+      );
+      await pool.query('DELETE FROM task_event_mappings WHERE id = $1', [mapping.id]);
+      for (const row of otherMappings.rows) {
+        await queueCalendarDelete(mapping.task_id, row.user_id);
+      }
+      console.log(`[CALENDAR-PULL] Event ${mapping.event_id} deleted in calendar; task ${mapping.task_id} unscheduled`);
+      return;
+    }
+
+    const previous = mapping.synced_event_state;
+    const updates: Record<string, any> = {};
+    if (!previous || previous.summary !== eventState.summary) {
+      updates.title = eventState.summary || 'Untitled Task';
+    }
+    if (!previous || previous.start !== eventState.start) {
+      const ownerZone = await CalendarService.getOwnerTimezone(mapping.user_id);
+      Object.assign(updates, this.taskScheduleFromEvent(eventState, ownerZone));
+    }
+
+    const current = await storage.getTask(mapping.task_id);
+    if (!current) return;
+    const task = (await TaskDependencyService.updateTask(current, updates)).value!;
+    await this.saveSnapshots(mapping.id, CalendarService.taskSyncState(task), eventState);
+    for (const row of otherMappings.rows) {
+      await queueCalendarUpsert(mapping.task_id, row.user_id);
+    }
+    console.log(`[CALENDAR-PULL] Task ${mapping.task_id} updated from event ${mapping.event_id}:`, Object.keys(updates));
+  }
+
+  // One open conflict per task/calendar; later changes refresh it instead of piling up rows
+  private static async recordConflict(mapping: CalendarMapping, taskState: TaskSyncState, eventState: EventSyncState | null) {
+    const existing = await pool.query(
+      `UPDATE calendar_sync_conflicts SET task_state = $3, event_state = $4, event_id = $5, updated_at = NOW()
+       WHERE task_id = $1 AND user_id = $2 AND status = 'open'
+       RETURNING id`,
+      [mapping.task_id, mapping.user_id, JSON.stringify(taskState), eventState ? JSON.stringify(eventState) : null, mapping.event_id]
+    );
+    if (existing.rows.length === 0) {
+      await pool.query(
+        `INSERT INTO calendar_sync_conflicts (task_id, user_id, event_id, task_state, event_state)
+         VALUES ($1, $2, $3, $4, $5)`,
+        [mapping.task_id, mapping.user_id, mapping.event_id, JSON.stringify(taskState), eventState ? JSON.stringify(eventState) : null]
+      );
+    }
+    console.warn(`[CALENDAR-PULL] Conflict on task ${mapping.task_id}: changed in both the app and the calendar of userId: ${mapping.user_id}`);
+  }
+
+  static async resolveConflict(
+    conflict: CalendarSyncConflict,
+    resolution: 'task' | 'calendar',
+    resolvedBy: string
+  ): Promise<ServiceResult<CalendarSyncConflict>> {
+    if (conflict.status !== 'open') {
+      return { ok: false, conflict: true, error: 'Conflict has already been resolved' };
+    }
+    const mapping = await pool.query(
+      'SELECT * FROM task_event_mappings WHERE task_id = $1 AND user_id = $2',
+      [conflict.taskId, conflict.userId]
+    ).then(result => result.rows[0] as CalendarMapping | undefined);
+
+    if (resolution === 'calendar') {
+      if (mapping) {
+        await this.applyEventState(mapping, conflict.eventState ?? null);
+      }
+    } else {
+      // The task wins: push it back out; a deleted event is recreated from scratch
+      if (mapping && !conflict.eventState) {
+        await pool.query('DELETE FROM task_event_mappings WHERE id = $1', [mapping.id]);
+      }
+      await queueCalendarUpsert(conflict.taskId, conflict.userId);
+    }
+
+    const resolved = await storage.updateCalendarSyncConflict(conflict.id, {
+      status: 'resolved',
+      resolution,
+      resolvedBy,
+      resolvedAt: new Date(),
+    });
+    return { ok: true, value: resolved };
+  }
+
+  // Periodic safety net: renew channels close to expiry and pull everyone in case a notification was missed
+  static async sweep(): Promise<void> {
+    const states = await pool.query('SELECT * FROM calendar_sync_states');
+    const renewBefore = new Date(Date.now() + CHANNEL_RENEW_WINDOW_MS);
+    for (const state of states.rows) {
+      try {
+        if (this.webhookUrl() && state.channel_id && state.channel_expiration && new Date(state.channel_expiration) < renewBefore) {
+          await this.watch(state.user_id, state.calendar_id);
+        }
+        await this.queuePull(state.user_id, state.calendar_id);
+      } catch (error: any) {
+        console.error(`[CALENDAR-PULL] Sweep failed for userId: ${state.user_id}:`, error.message);
+      }
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import '../test/env';
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { CalendarService } from './CalendarService';
+
+const task = (fields: Record<string, unknown>) => ({ id: 'task-1', title: 'Shoot', ...fields });
+
+describe('CalendarService.buildEventPayload across DST transitions', () => {
+  test('places a timed task at its wall-clock time in the owner zone', () => {
+    const before = CalendarService.buildEventPayload(task({ dueAt: new Date('2026-03-07T17:00:00Z'), dueTime: '09:00' }), 'America/Vancouver');
+    const after = CalendarService.buildEventPayload(task({ dueAt: new Date('2026-03-08T16:00:00Z'), dueTime: '09:00' }), 'America/Vancouver');
+
+    assert.deepEqual(before.start, { dateTime: '2026-03-07T09:00:00.000', timeZone: 'America/Vancouver' });
+    assert.deepEqual(after.start, { dateTime: '2026-03-08T09:00:00.000', timeZone: 'America/Vancouver' });
+  });
+
+  test('an hour-long event across spring-forward ends at 03:30', () => {
+    const event = CalendarService.buildEventPayload(task({ dueAt: new Date('2026-03-08T09:30:00Z'), dueTime: '01:30' }), 'America/Vancouver');
+
+    assert.equal(event.start.dateTime, '2026-03-08T01:30:00.000');
+    assert.equal(event.end.dateTime, '2026-03-08T03:30:00.000');
+  });
+
+  test('the same instant lands on the fall-back day in the owner zone', () => {
+    const event = CalendarService.buildEventPayload(task({ dueAt: new Date('2026-11-01T17:00:00Z'), dueTime: '09:00' }), 'America/Vancouver');
+    const london = CalendarService.buildEventPayload(task({ dueAt: new Date('2026-11-01T17:00:00Z'), dueTime: '09:00' }), 'Europe/London');
+
+    assert.deepEqual(event.start, { dateTime: '2026-11-01T09:00:00.000', timeZone: 'America/Vancouver' });
+    assert.deepEqual(london.start, { dateTime: '2026-11-01T17:00:00.000', timeZone: 'Europe/London' });
+  });
+
+  test('a recurring master keeps the series zone over the owner zone', () => {
+    const event = CalendarService.buildEventPayload(task({
+      dueAt: new Date('2026-03-30T07:00:00Z'),
+      dueTime: '09:00',
+      recurrenceRule: 'FREQ=WEEKLY',
+      recurrenceSeriesId: 'task-1',
+      recurrenceTimezone: 'Europe/Berlin',
+    }), 'America/Vancouver');
+
+    assert.deepEqual(event.start, { dateTime: '2026-03-30T09:00:00.000', timeZone: 'Europe/Berlin' });
+    assert.deepEqual(event.recurrence, ['RRULE:FREQ=WEEKLY']);
+  });
+
+  test('a date-only task becomes an all-day event on that date', () => {
+    const event = CalendarService.buildEventPayload(task({ dueDate: new Date('2026-03-08T00:00:00Z') }), 'America/Vancouver');
+
+    assert.deepEqual(event.start, { date: '2026-03-08' });
+    assert.deepEqual(event.end, { date: '2026-03-09' });
+  });
+});
@@ -1,364 +1,372 @@
-import { google, calendar_v3 } from 'googleapis';
-import { OAuth2Client } from 'google-auth-library';
 import { DateTime } from 'luxon';
 import { pool } from '../db';
+import { storage } from '../storage';
+import { resolveTimezone } from '@shared/timezone';
+import type { EventSyncState, TaskSyncState } from '@shared/schema';
+import { getCalendarProvider, getCalendarProviders, type CalendarEvent, type CalendarProvider } from '../calendar/CalendarProvider';
+import { getCalendarConnection } from '../calendar/calendarConnections';
+// Registration order is the fallback order for users without a preferred provider
+import '../calendar/GoogleCalendarProvider';
+import '../calendar/MicrosoftCalendarProvider';
+import '../calendar/CalDavCalendarProvider';
 
-const ZONE = 'America/Vancouver';
-
-interface TokenRecord {
-  owner_type: string;
-  owner_id: string;
-  email: string;
-  access_token: string;
-  refresh_token: string;
-  expiry_date: Date | null;
-  scope: string;
-}
-
-interface CalendarMapping {
+export interface CalendarMapping {
   id: string;
   task_id: string;
   user_id: string;
   event_id: string;
-  calendar_id: string;
+  calendar_id: string | null;
+  provider: string;
+  synced_task_state: TaskSyncState | null;
+  synced_event_state: EventSyncState | null;
+}
+
+export interface CalendarConnectionStatus {
+  id: string;
+  name: string;
+  configured: boolean;
+  connected: boolean;
+  accountName: string | null;
 }
 
+export interface CalendarSyncResult {
+  ok: boolean;
+  eventId?: string;
+  htmlLink?: string;
+  isUpdate?: boolean;
+  error?: string;
+}
+
+const DEFAULT_CALENDAR_ID = 'primary';
+
+// Emergency kill switch for pushing tasks to calendars
+let syncEnabled = process.env.CALENDAR_SYNC_ENABLED !== 'false';
+
+// The one place tasks are pushed to users' calendars. task_event_mappings holds one event per task and user;
+// the provider behind each mapping (Google, Microsoft 365 or CalDAV) only does the API calls.
 export class CalendarService {
-  private static getOAuth2Client(): OAuth2Client {
-    return new google.auth.OAuth2(
-      process.env.GOOGLE_CLIENT_ID,
-      process.env.GOOGLE_CLIENT_SECRET,
-      process.env.GOOGLE_REDIRECT_URI
-    );
+  static isSyncEnabled(): boolean {
+    return syncEnabled;
   }
 
-  // Get OAuth client for a specific user with token resolution
-  static async getOAuthClientFor(userId: string, teamMemberId?: string): Promise<{ client: OAuth2Client; email: string }> {
-    let tokens: TokenRecord | null = null;
-    
-    // Try userId first - use the actual oauth_tokens table
-    if (userId) {
-      const userResult = await pool.query(
-        'SELECT user_id as owner_id, \'userId\' as owner_type, access_token, refresh_token, expiry as expiry_date, scopes as scope, \'\' as email FROM oauth_tokens WHERE user_id = $1',
-        [userId]
-      );
-      tokens = userResult.rows[0] || null;
+  static setSyncEnabled(enabled: boolean): void {
+    syncEnabled = enabled;
+  }
+
+  // Existing events stay with the provider that created them; new ones go to the user's preferred provider,
+  // or the first one they have connected
+  static async providerFor(userId: string, mapping?: CalendarMapping | null): Promise<CalendarProvider | null> {
+    if (mapping) {
+      return getCalendarProvider(mapping.provider) ?? null;
     }
-    
-    // Fallback to teamMemberId (check if team member email matches user)
-    if (!tokens && teamMemberId) {
-      // For now, skip teamMemberId lookup since tokens are stored by userId
-      console.log('No tokens found for userId, skipping teamMemberId lookup');
+    const preferred = getCalendarProvider((await storage.getUser(userId))?.calendarProvider || '');
+    if (preferred && await preferred.hasCredentials(userId)) {
+      return preferred;
     }
-    
-    if (!tokens) {
-      throw new Error(`Missing Google OAuth tokens for userId: ${userId}, teamMemberId: ${teamMemberId}`);
+    for (const provider of getCalendarProviders()) {
+      if (await provider.hasCredentials(userId)) {
+        return provider;
+      }
     }
-    
-    const oauth2Client = this.getOAuth2Client();
-    oauth2Client.setCredentials({
-      access_token: tokens.access_token,
-      refresh_token: tokens.refresh_token,
-      expiry_date: tokens.expiry_date?.getTime() || undefined
-    });
-    
-    // Handle token refresh
-    oauth2Client.on('tokens', async (newTokens) => {
-      console.log('Refreshing OAuth tokens for userId:', tokens?.owner_id);
-      await pool.query(
-        'UPDATE oauth_tokens SET access_token = $1, expiry = $2, updated_at = CURRENT_TIMESTAMP WHERE user_id = $3',
-        [
-          newTokens.access_token,
-          newTokens.expiry_date ? new Date(newTokens.expiry_date) : null,
-          tokens?.owner_id
-        ]
-      );
-    });
-    
-    return { client: oauth2Client, email: tokens.email };
+    return null;
+  }
+
+  static isAvailable(): boolean {
+    return getCalendarProviders().some(provider => provider.isConfigured());
+  }
+
+  static async hasConnectedCalendar(userId: string): Promise<boolean> {
+    return !!(await this.providerFor(userId));
   }
 
-  // Store tokens for both userId and teamMemberId
-  static async storeTokens(userId: string, teamMemberId: string, email: string, tokens: any): Promise<void> {
-    const expiryDate = tokens.expiry_date ? new Date(tokens.expiry_date) : null;
-    
-    // Store by userId
-    await pool.query(`
-      INSERT INTO google_tokens (owner_type, owner_id, email, access_token, refresh_token, scope, token_type, expiry_date)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-      ON CONFLICT (owner_type, owner_id) DO UPDATE SET
-        email = EXCLUDED.email,
-        access_token = EXCLUDED.access_token,
-        refresh_token = EXCLUDED.refresh_token,
-        scope = EXCLUDED.scope,
-        token_type = EXCLUDED.token_type,
-        expiry_date = EXCLUDED.expiry_date,
-        updated_at = CURRENT_TIMESTAMP
-    `, ['userId', userId, email, tokens.access_token, tokens.refresh_token, tokens.scope, tokens.token_type, expiryDate]);
-    
-    // Store by teamMemberId for compatibility
-    await pool.query(`
-      INSERT INTO google_tokens (owner_type, owner_id, email, access_token, refresh_token, scope, token_type, expiry_date)
-      VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
-      ON CONFLICT (owner_type, owner_id) DO UPDATE SET
-        email = EXCLUDED.email,
-        access_token = EXCLUDED.access_token,
-        refresh_token = EXCLUDED.refresh_token,
-        scope = EXCLUDED.scope,
-        token_type = EXCLUDED.token_type,
-        expiry_date = EXCLUDED.expiry_date,
-        updated_at = CURRENT_TIMESTAMP
-    `, ['teamMemberId', teamMemberId, email, tokens.access_token, tokens.refresh_token, tokens.scope, tokens.token_type, expiryDate]);
-    
-    console.log(`Stored Google tokens for userId: ${userId}, teamMemberId: ${teamMemberId}, email: ${email}`);
+  static async getConnections(userId: string): Promise<CalendarConnectionStatus[]> {
+    return Promise.all(getCalendarProviders().map(async provider => ({
+      id: provider.id,
+      name: provider.name,
+      configured: provider.isConfigured(),
+      connected: await provider.hasCredentials(userId),
+      accountName: (await getCalendarConnection(userId, provider.id))?.accountName ?? null,
+    })));
   }
 
-  // Compute due_at timestamp using Luxon
-  static computeDueAt(due_date: string, due_time?: string): string {
-    console.log(`[CALENDAR] computeDueAt called with: due_date=${due_date}, due_time=${due_time}`);
-    
+  // Forget the user's credentials for one provider, or everywhere; their mappings stay so reconnecting picks
+  // the same events back up
+  static async disconnect(userId: string, providerId?: string): Promise<void> {
+    for (const provider of getCalendarProviders()) {
+      if (!providerId || provider.id === providerId) {
+        await provider.disconnect(userId);
+      }
+    }
+  }
+
+  // Compute due_at timestamp using Luxon (date/time are wall-clock values in the given zone)
+  static computeDueAt(due_date: string, due_time?: string, timezone?: string | null): string {
+    const zone = resolveTimezone(timezone);
+
     if (due_date && due_time) {
       const inputString = `${due_date}T${due_time}`;
-      console.log(`[CALENDAR] Creating DateTime from: ${inputString} in zone ${ZONE}`);
-      const dtLocal = DateTime.fromISO(inputString, { zone: ZONE });
-      
+      const dtLocal = DateTime.fromISO(inputString, { zone });
+
       if (!dtLocal.isValid) {
-        console.error(`[CALENDAR] Invalid DateTime in computeDueAt:`, { 
-          inputString, 
+        console.error(`[CALENDAR] Invalid DateTime in computeDueAt:`, {
+          inputString,
           invalidReason: dtLocal.invalidReason,
-          invalidExplanation: dtLocal.invalidExplanation 
+          invalidExplanation: dtLocal.invalidExplanation
         });
         throw new Error(`Invalid time value in computeDueAt: ${inputString} - ${dtLocal.invalidReason}`);
       }
-      
-      const result = dtLocal.toUTC().toISO()!;
-      console.log(`[CALENDAR] computeDueAt result: ${result}`);
-      return result;
+
+      return dtLocal.toUTC().toISO()!;
     } else if (due_date) {
-      const result = DateTime.fromISO(due_date, { zone: ZONE }).startOf('day').toUTC().toISO()!;
-      console.log(`[CALENDAR] computeDueAt (date only) result: ${result}`);
-      return result;
+      return DateTime.fromISO(due_date, { zone }).startOf('day').toUTC().toISO()!;
     }
     throw new Error('due_date is required');
   }
 
-  // Build Google Calendar event payload
-  static buildEventPayload(task: any): calendar_v3.Schema$Event {
-    // Handle both database field names (due_date/due_time) and JS object field names (dueDate/dueTime)
-    const { title, description } = task;
+  // Timezone preference of the calendar owner: team member first, then user, then the agency default
+  static async getOwnerTimezone(userId: string, teamMemberId?: string): Promise<string> {
+    if (teamMemberId) {
+      const memberResult = await pool.query('SELECT timezone FROM team_members WHERE id = $1', [teamMemberId]);
+      if (memberResult.rows[0]?.timezone) {
+        return resolveTimezone(memberResult.rows[0].timezone);
+      }
+    }
+    const userResult = await pool.query('SELECT timezone FROM users WHERE id = $1', [userId]);
+    return resolveTimezone(userResult.rows[0]?.timezone);
+  }
+
+  private static buildEventDescription(task: any): string {
+    const parts = [];
+    if (task.description) {
+      parts.push(task.description);
+    }
+    parts.push(`Status: ${task.status || 'in_progress'}`);
+    parts.push(`Priority: ${task.priority || 'medium'}`);
+    const driveLink = task.google_drive_link ?? task.googleDriveLink;
+    if (driveLink) {
+      parts.push(`Drive Link: ${driveLink}`);
+    }
+    parts.push(`Task Link: ${process.env.BASE_URL || ''}/tasks/${task.id}`);
+    return parts.join('\n\n');
+  }
+
+  // Build the event in the calendar owner's timezone, from either a DB row or a drizzle Task
+  static buildEventPayload(task: any, timezone?: string | null): CalendarEvent {
     let due_date = task.due_date || task.dueDate;
     const due_time = task.due_time || task.dueTime;
-    
-    // Fix: Convert Date object to ISO date string if needed
+    const due_at = task.due_at || task.dueAt;
+
     if (due_date instanceof Date) {
-      due_date = due_date.toISOString().split('T')[0]; // "2025-08-25"
-      console.log(`[CALENDAR] Converted Date object to ISO string: ${due_date}`);
+      due_date = due_date.toISOString().split('T')[0];
     }
-    const eventTitle = title || 'Untitled Task';
-    
-    console.log(`[CALENDAR] Building event payload for task:`, { title, due_date, due_time });
-    
-    if (due_time) {
-      // Timed event
-      console.log(`[CALENDAR] Creating timed event: ${due_date}T${due_time} in ${ZONE}`);
-      const dtLocal = DateTime.fromISO(`${due_date}T${due_time}`, { zone: ZONE });
-      
+    const summary = task.title || 'Untitled Task';
+    const description = this.buildEventDescription(task);
+
+    // Recurring masters keep the series zone so every occurrence stays at the same wall-clock time
+    const recurrence = this.buildRecurrence(task);
+    const zone = recurrence.recurrence
+      ? resolveTimezone(task.recurrence_timezone ?? task.recurrenceTimezone, timezone)
+      : resolveTimezone(timezone);
+
+    if (due_time || (!due_date && due_at)) {
+      // Timed event: due_at is the canonical instant; date/time fields are only a fallback
+      const dtLocal = due_at
+        ? DateTime.fromJSDate(new Date(due_at)).setZone(zone)
+        : DateTime.fromISO(`${due_date}T${due_time}`, { zone });
+
       if (!dtLocal.isValid) {
-        console.error(`[CALENDAR] Invalid DateTime created:`, { 
-          inputString: `${due_date}T${due_time}`, 
-          invalidReason: dtLocal.invalidReason,
-          invalidExplanation: dtLocal.invalidExplanation 
-        });
-        throw new Error(`Invalid time value: ${due_date}T${due_time} - ${dtLocal.invalidReason}`);
+        throw new Error(`Invalid time value: ${due_at || `${due_date}T${due_time}`} - ${dtLocal.invalidReason}`);
       }
-      
+
       const endTime = dtLocal.plus({ minutes: 60 });
-      
-      return {
-        summary: eventTitle,
-        description: description || '',
-        start: {
-          dateTime: dtLocal.toISO({ includeOffset: false }),  // FIX: Send without offset to let Google apply timezone data correctly
-          timeZone: ZONE
-        },
-        end: {
-          dateTime: endTime.toISO({ includeOffset: false }),  // FIX: Same for end time
-          timeZone: ZONE
-        }
-      };
-    } else {
-      // All-day event
-      console.log(`[CALENDAR] Creating all-day event for date: ${due_date}`);
-      const endDate = DateTime.fromISO(due_date).plus({ days: 1 }).toISODate();
-      
+
+      // Sent without an offset so the provider applies the zone's rules itself
       return {
-        summary: eventTitle,
-        description: description || '',
-        start: {
-          date: due_date
-        },
-        end: {
-          date: endDate
-        }
+        summary,
+        description,
+        start: { dateTime: dtLocal.toISO({ includeOffset: false }), timeZone: zone },
+        end: { dateTime: endTime.toISO({ includeOffset: false }), timeZone: zone },
+        ...recurrence
       };
     }
+
+    // All-day event
+    const endDate = DateTime.fromISO(due_date).plus({ days: 1 }).toISODate();
+    return {
+      summary,
+      description,
+      start: { date: due_date },
+      end: { date: endDate },
+      ...recurrence
+    };
   }
 
-  // Upsert task event with idempotency
-  static async upsertTaskEvent(taskId: string, userId: string, teamMemberId?: string): Promise<{ eventId: string; htmlLink: string; isUpdate: boolean }> {
-    console.log(`[CALENDAR] Upserting event for taskId: ${taskId}, userId: ${userId}, teamMemberId: ${teamMemberId}`);
-    
-    // Get task data
-    const taskResult = await pool.query('SELECT * FROM tasks WHERE id = $1', [taskId]);
-    if (taskResult.rows.length === 0) {
-      throw new Error(`Task not found: ${taskId}`);
+  // Series masters are pushed as recurring events; occurrences are instances of that event
+  private static buildRecurrence(task: any): Pick<CalendarEvent, 'recurrence'> {
+    const rule = task.recurrence_rule ?? task.recurrenceRule;
+    const seriesId = task.recurrence_series_id ?? task.recurrenceSeriesId;
+    if (!rule || seriesId !== task.id) {
+      return {};
     }
-    const task = taskResult.rows[0];
-    console.log(`[CALENDAR] Task data from DB:`, { 
-      id: task.id, 
-      title: task.title, 
-      due_date: task.due_date, 
-      due_time: task.due_time, 
-      due_at: task.due_at 
-    });
-    
-    // Get OAuth client
-    const { client, email } = await this.getOAuthClientFor(userId, teamMemberId);
-    const calendar = google.calendar({ version: 'v3', auth: client });
-    
-    // Check for existing mapping
-    const mappingResult = await pool.query(
-      'SELECT * FROM task_event_mappings WHERE task_id = $1 AND user_id = $2',
-      [taskId, userId]
-    );
-    
-    // Check if the task has the required date/time fields - handle field name variations
-    const due_date = task.due_date || task.dueDate;
-    if (!due_date) {
-      console.log(`[CALENDAR] Task has no due date, skipping calendar sync for task: ${task.title}`);
-      throw new Error('Task has no due date - calendar sync not needed');
+    return { recurrence: [`RRULE:${rule}`] };
+  }
+
+  // Map an occurrence task onto the matching instance of its series master's recurring event
+  private static async resolveOccurrenceInstance(task: any, userId: string): Promise<CalendarMapping> {
+    const master = await this.getTaskMapping(task.recurrence_series_id, userId);
+    if (!master) {
+      throw new Error(`Recurring series ${task.recurrence_series_id} has no calendar event for userId: ${userId}`);
     }
-    
-    const eventPayload = this.buildEventPayload(task);
-    
-    if (mappingResult.rows.length > 0) {
-      // Update existing event
-      const mapping = mappingResult.rows[0];
-      console.log(`[CALENDAR] Updating existing event: ${mapping.event_id}`);
-      
-      const response = await calendar.events.update({
-        calendarId: 'primary',
-        eventId: mapping.event_id,
-        requestBody: eventPayload
-      });
-      
-      const event = response.data;
-      console.log(`[CALENDAR] Event updated successfully: ${event.id}, start: ${event.start?.dateTime || event.start?.date}`);
-      
-      return {
-        eventId: event.id!,
-        htmlLink: event.htmlLink!,
-        isUpdate: true
-      };
-    } else {
-      // Create new event
-      console.log(`[CALENDAR] Creating new event for task: ${task.title}`);
-      
-      const response = await calendar.events.insert({
-        calendarId: 'primary',
-        requestBody: eventPayload
-      });
-      
-      const event = response.data;
-      
-      // Store mapping
-      await pool.query(`
-        INSERT INTO task_event_mappings (task_id, user_id, event_id, calendar_id)
-        VALUES ($1, $2, $3, $4)
-      `, [taskId, userId, event.id, 'primary']);
-      
-      console.log(`[CALENDAR] Event created successfully: ${event.id}, mapping stored`);
-      
-      return {
-        eventId: event.id!,
-        htmlLink: event.htmlLink!,
-        isUpdate: false
-      };
+    const provider = await this.providerFor(userId, master);
+    const calendarId = master.calendar_id || DEFAULT_CALENDAR_ID;
+    const instance = provider && await provider.findInstance(userId, calendarId, master.event_id, new Date(task.recurrence_occurrence_at));
+    if (!instance?.id) {
+      throw new Error(`No calendar instance found for occurrence ${task.id} of series ${task.recurrence_series_id}`);
     }
+    return this.saveMapping(task.id, userId, master.provider, calendarId, instance.id);
   }
 
-  // Delete task event and remove mapping
-  static async deleteTaskEvent(taskId: string, userId: string): Promise<{ deleted: boolean }> {
-    console.log(`[CALENDAR] Deleting event for taskId: ${taskId}, userId: ${userId}`);
-    
-    const mappingResult = await pool.query(
-      'SELECT * FROM task_event_mappings WHERE task_id = $1 AND user_id = $2',
-      [taskId, userId]
+  private static async saveMapping(taskId: string, userId: string, provider: string, calendarId: string, eventId: string): Promise<CalendarMapping> {
+    const result = await pool.query(
+      `INSERT INTO task_event_mappings (task_id, user_id, event_id, calendar_id, provider)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (task_id, user_id) DO UPDATE SET
+         event_id = EXCLUDED.event_id,
+         calendar_id = EXCLUDED.calendar_id,
+         provider = EXCLUDED.provider,
+         synced_task_state = NULL,
+         synced_event_state = NULL,
+         updated_at = NOW()
+       RETURNING *`,
+      [taskId, userId, eventId, calendarId, provider]
     );
-    
-    if (mappingResult.rows.length === 0) {
-      console.log(`[CALENDAR] No mapping found for task: ${taskId}, user: ${userId}`);
-      return { deleted: false };
+    return result.rows[0];
+  }
+
+  // Create or update the user's event for a task. Skips come back as errors without touching the calendar.
+  static async syncTask(taskId: string, userId: string): Promise<CalendarSyncResult> {
+    if (!syncEnabled) {
+      return { ok: false, error: 'Sync disabled' };
+    }
+
+    const taskResult = await pool.query('SELECT * FROM tasks WHERE id = $1 AND deleted_at IS NULL', [taskId]);
+    const task = taskResult.rows[0];
+    if (!task) {
+      return { ok: false, error: 'Task not found' };
+    }
+    if (!task.due_date && !task.due_at) {
+      return { ok: false, error: 'No due date' };
     }
-    
-    const mapping = mappingResult.rows[0];
-    
+    if (!(await storage.getUser(userId))) {
+      return { ok: false, error: 'User not found' };
+    }
+
+    let mapping = await this.getTaskMapping(taskId, userId);
+    const provider = await this.providerFor(userId, mapping);
+    if (!provider || !(await provider.hasCredentials(userId))) {
+      return { ok: false, error: 'No calendar tokens' };
+    }
+
     try {
-      // Get OAuth client
-      const { client } = await this.getOAuthClientFor(userId);
-      const calendar = google.calendar({ version: 'v3', auth: client });
-      
-      // Delete event
-      await calendar.events.delete({
-        calendarId: 'primary',
-        eventId: mapping.event_id
-      });
-      
-      console.log(`[CALENDAR] Event deleted: ${mapping.event_id}`);
-    } catch (error: any) {
-      console.warn(`[CALENDAR] Failed to delete event ${mapping.event_id}:`, error.message);
+      // Recurring occurrences update their instance of the series event instead of creating a new one
+      const isOccurrence = task.recurrence_series_id && task.recurrence_series_id !== task.id && task.recurrence_occurrence_at;
+      if (!mapping && isOccurrence) {
+        mapping = await this.resolveOccurrenceInstance(task, userId);
+      }
+
+      const timezone = await this.getOwnerTimezone(userId);
+      const payload = this.buildEventPayload(task, timezone);
+      const calendarId = mapping?.calendar_id || DEFAULT_CALENDAR_ID;
+
+      let event = mapping ? await provider.updateEvent(userId, calendarId, mapping.event_id, payload) : null;
+      const isUpdate = !!event;
+      if (!event) {
+        // First sync for this user, or the event was deleted in the calendar since
+        event = await provider.insertEvent(userId, calendarId, payload);
+        await this.saveMapping(taskId, userId, provider.id, calendarId, event.id!);
+      }
+      await this.recordSyncState(taskId, userId, task, event);
+
+      console.log(`[CALENDAR] Event ${isUpdate ? 'updated' : 'created'} for task ${taskId}, userId: ${userId}, eventId: ${event.id}`);
+      return { ok: true, eventId: event.id!, htmlLink: event.htmlLink ?? undefined, isUpdate };
+    } catch (error) {
+      console.error(`[CALENDAR] Sync failed for task ${taskId}, userId: ${userId}:`, error);
+      return { ok: false, error: error instanceof Error ? error.message : 'Unknown error' };
     }
-    
-    // Remove mapping
-    await pool.query(
-      'DELETE FROM task_event_mappings WHERE id = $1',
-      [mapping.id]
-    );
-    
-    console.log(`[CALENDAR] Mapping removed for task: ${taskId}`);
+  }
+
+  // Delete the user's event for a task. Provider errors are thrown with the mapping kept, so a retry can finish the job.
+  static async removeTaskEvent(taskId: string, userId: string): Promise<{ deleted: boolean }> {
+    const mapping = await this.getTaskMapping(taskId, userId);
+    if (!mapping) {
+      return { deleted: false };
+    }
+
+    // Without credentials the event can no longer be reached; only the mapping is dropped
+    const provider = await this.providerFor(userId, mapping);
+    if (provider && await provider.hasCredentials(userId)) {
+      await provider.deleteEvent(userId, mapping.calendar_id || DEFAULT_CALENDAR_ID, mapping.event_id);
+    }
+
+    await pool.query('DELETE FROM task_event_mappings WHERE id = $1', [mapping.id]);
+    console.log(`[CALENDAR] Event ${mapping.event_id} removed for task ${taskId}, userId: ${userId}`);
     return { deleted: true };
   }
 
-  // Get event details
-  static async getEventDetails(eventId: string, userId: string, teamMemberId?: string): Promise<any> {
-    const { client } = await this.getOAuthClientFor(userId, teamMemberId);
-    const calendar = google.calendar({ version: 'v3', auth: client });
-    
-    const response = await calendar.events.get({
-      calendarId: 'primary',
-      eventId
-    });
-    
-    return response.data;
+  // Look up an event in the user's calendar, through the provider that owns it when it is mapped
+  static async getEvent(userId: string, eventId: string, calendarId: string = DEFAULT_CALENDAR_ID): Promise<CalendarEvent | null> {
+    const mapping = await pool.query(
+      'SELECT * FROM task_event_mappings WHERE user_id = $1 AND event_id = $2',
+      [userId, eventId]
+    ).then(result => result.rows[0] as CalendarMapping | undefined);
+    const provider = await this.providerFor(userId, mapping);
+    if (!provider) {
+      throw new Error(`No connected calendar for userId: ${userId}`);
+    }
+    return provider.getEvent(userId, mapping?.calendar_id || calendarId, eventId);
+  }
+
+  // Task fields that two-way sync cares about, from either a DB row or a drizzle Task
+  static taskSyncState(task: any): TaskSyncState {
+    const dueAt = task.due_at ?? task.dueAt;
+    return {
+      title: task.title,
+      dueAt: dueAt ? new Date(dueAt).toISOString() : null,
+      dueTime: (task.due_time ?? task.dueTime) || null,
+    };
+  }
+
+  static eventSyncState(event: CalendarEvent): EventSyncState {
+    const timeZone = event.start?.timeZone || null;
+    const start = event.start?.dateTime
+      ? DateTime.fromISO(event.start.dateTime, { zone: timeZone || 'utc' }).toUTC().toISO()!
+      : `date:${event.start?.date}`;
+    return { summary: event.summary || '', start, timeZone };
+  }
+
+  // Remember what both sides looked like after a push so the next pull can tell which side moved
+  static async recordSyncState(taskId: string, userId: string, task: any, event: CalendarEvent): Promise<void> {
+    await pool.query(
+      `UPDATE task_event_mappings SET synced_task_state = $3, synced_event_state = $4, updated_at = NOW()
+       WHERE task_id = $1 AND user_id = $2`,
+      [taskId, userId, JSON.stringify(this.taskSyncState(task)), JSON.stringify(this.eventSyncState(event))]
+    );
   }
 
-  // Get mapping for task
   static async getTaskMapping(taskId: string, userId: string): Promise<CalendarMapping | null> {
     const result = await pool.query(
       'SELECT * FROM task_event_mappings WHERE task_id = $1 AND user_id = $2',
       [taskId, userId]
     );
-    
     return result.rows[0] || null;
   }
 
-  // Get all mappings for task (multiple users)
+  // One mapping per user the task has been pushed to
   static async getTaskMappings(taskId: string): Promise<CalendarMapping[]> {
     const result = await pool.query(
       'SELECT * FROM task_event_mappings WHERE task_id = $1',
       [taskId]
     );
-    
     return result.rows;
   }
-}
\ No newline at end of file
+}
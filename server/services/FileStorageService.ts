@@ -0,0 +1,130 @@
+import { createHash, randomUUID } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { storage } from '../storage';
+import { fileDelivery, getFileStorageDriver, type FileStorageDriver } from '../fileStorage/FileStorageDriver';
+import '../fileStorage/LocalDiskStorageDriver';
+import '../fileStorage/S3StorageDriver';
+import type { ProjectFile } from '@shared/schema';
+
+export interface StoredFile {
+  filePath: string;
+  storageDriver: string;
+  checksum: string;
+}
+
+export interface FileMigrationResult {
+  fileId: string;
+  from: string;
+  to: string;
+  checksum?: string;
+  skipped?: boolean;
+  error?: string;
+}
+
+// Signed download links stay short-lived; the app hands out a fresh one on every click
+const SIGNED_URL_TTL_SECONDS = Number(process.env.FILE_URL_TTL_SECONDS) || 300;
+
+const sha256 = (body: Buffer) => createHash('sha256').update(body).digest('hex');
+
+// Where project file bytes live: FILE_STORAGE_DRIVER picks the backend for new uploads, rows remember their own
+export class FileStorageService {
+  static activeDriver(): FileStorageDriver {
+    const id = process.env.FILE_STORAGE_DRIVER || 'local';
+    const driver = getFileStorageDriver(id);
+    if (!driver) {
+      throw new Error(`Unknown file storage driver: ${id}`);
+    }
+    if (!driver.isConfigured()) {
+      throw new Error(`File storage driver "${id}" is not configured`);
+    }
+    return driver;
+  }
+
+  static driverFor(file: ProjectFile): FileStorageDriver | undefined {
+    return file.storageDriver ? getFileStorageDriver(file.storageDriver) : undefined;
+  }
+
+  private static newKey(projectId: string, fileName: string): string {
+    return `projects/${projectId}/${randomUUID()}${path.extname(fileName).toLowerCase()}`;
+  }
+
+  // Moves a multer upload from its temp file into the active backend
+  static async storeUpload(projectId: string, upload: { path: string; originalname: string; mimetype: string }): Promise<StoredFile> {
+    const driver = this.activeDriver();
+    const body = await fs.promises.readFile(upload.path);
+    const key = this.newKey(projectId, upload.originalname);
+    try {
+      await driver.put(key, body, upload.mimetype);
+    } finally {
+      await fs.promises.rm(upload.path, { force: true });
+    }
+    return { filePath: key, storageDriver: driver.id, checksum: sha256(body) };
+  }
+
+  // Cleans up a stored upload whose row was never created
+  static async discard(stored: StoredFile): Promise<void> {
+    await getFileStorageDriver(stored.storageDriver)?.delete(stored.filePath);
+  }
+
+  static async read(file: ProjectFile): Promise<Buffer | null> {
+    const driver = this.driverFor(file);
+    if (driver) {
+      return driver.get(file.filePath);
+    }
+    return fs.existsSync(file.filePath) ? fs.promises.readFile(file.filePath) : null;
+  }
+
+  // Null for files still on the legacy disk path; those are streamed by the app until they are migrated
+  static async signedUrl(file: ProjectFile, disposition: 'inline' | 'attachment'): Promise<{ url: string; expiresAt: Date } | null> {
+    const driver = this.driverFor(file);
+    if (!driver) return null;
+    const url = await driver.signedUrl(file.filePath, {
+      expiresInSeconds: SIGNED_URL_TTL_SECONDS,
+      fileName: file.fileName,
+      ...fileDelivery(file.fileType, disposition),
+    });
+    return { url, expiresAt: new Date(Date.now() + SIGNED_URL_TTL_SECONDS * 1000) };
+  }
+
+  // Copies one file into the target backend, reads it back and only repoints the row once the checksums match
+  static async migrate(file: ProjectFile, target: FileStorageDriver, options: { dryRun?: boolean; deleteSource?: boolean } = {}): Promise<FileMigrationResult> {
+    const from = file.storageDriver || 'legacy';
+    const result: FileMigrationResult = { fileId: file.id, from, to: target.id };
+    if (file.storageDriver === target.id) {
+      return { ...result, skipped: true };
+    }
+
+    const body = await this.read(file);
+    if (!body) {
+      return { ...result, error: `Source file missing: ${file.filePath}` };
+    }
+    const checksum = sha256(body);
+    if (file.checksum && file.checksum !== checksum) {
+      return { ...result, error: `Source checksum ${checksum} does not match recorded ${file.checksum}` };
+    }
+    if (options.dryRun) {
+      return { ...result, checksum };
+    }
+
+    const key = this.newKey(file.projectId, file.fileName);
+    await target.put(key, body, file.fileType);
+    const copied = await target.get(key);
+    if (!copied || sha256(copied) !== checksum) {
+      await target.delete(key).catch(() => undefined);
+      return { ...result, error: 'Checksum mismatch after copy; source left in place' };
+    }
+
+    await storage.updateProjectFile(file.id, { filePath: key, storageDriver: target.id, checksum });
+
+    if (options.deleteSource) {
+      const source = this.driverFor(file);
+      if (source) {
+        await source.delete(file.filePath);
+      } else {
+        await fs.promises.rm(file.filePath, { force: true });
+      }
+    }
+    return { ...result, checksum };
+  }
+}
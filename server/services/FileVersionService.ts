@@ -0,0 +1,178 @@
+import { storage } from '../storage';
+import { pool } from '../db';
+import type { FileComment, FileCommentRegion, ProjectFile, User } from '@shared/schema';
+
+interface FileVersionResult<T> {
+  ok: boolean;
+  value?: T;
+  error?: string;
+  notFound?: boolean;
+  forbidden?: boolean;
+  conflict?: boolean;
+}
+
+export interface UploadedVersion {
+  fileName: string;
+  filePath: string;
+  storageDriver: string;
+  checksum: string;
+  fileSize: number;
+  fileType: string;
+  versionNote?: string | null;
+}
+
+export interface VersionChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface FileCommentView extends FileComment {
+  authorName: string | null;
+  authorRole: string | null;
+}
+
+// Fields worth showing side by side when comparing two versions
+const COMPARED_FIELDS: (keyof ProjectFile)[] = ['fileName', 'fileType', 'fileSize', 'category', 'versionNote', 'isApproved'];
+
+// Version chains for project files and the review comments pinned to each version
+export class FileVersionService {
+  static groupId(file: ProjectFile): string {
+    return file.versionGroupId || file.id;
+  }
+
+  static async getVersions(file: ProjectFile): Promise<ProjectFile[]> {
+    return storage.getFileVersions(this.groupId(file));
+  }
+
+  // The new version continues the chain after whichever version is latest, not necessarily the one it was uploaded from
+  static async createVersion(file: ProjectFile, upload: UploadedVersion, userId: string): Promise<FileVersionResult<ProjectFile>> {
+    const [latest] = await this.getVersions(file);
+
+    // Only one upload can take over as latest, so two people revising at once don't both become vN+1
+    const claimed = await pool.query(
+      'UPDATE project_files SET is_latest_version = false WHERE id = $1 AND is_latest_version = true',
+      [latest.id]
+    );
+    if (claimed.rowCount === 0) {
+      return { ok: false, conflict: true, error: 'Another version was uploaded at the same time; refresh and try again' };
+    }
+
+    const version = await storage.createProjectFile({
+      projectId: latest.projectId,
+      taskId: latest.taskId,
+      fileName: upload.fileName,
+      filePath: upload.filePath,
+      storageDriver: upload.storageDriver,
+      checksum: upload.checksum,
+      fileSize: upload.fileSize,
+      fileType: upload.fileType,
+      category: latest.category,
+      uploadedBy: userId,
+      // A revision of a file that needed sign-off needs sign-off again
+      isApprovalRequired: latest.isApprovalRequired,
+      isApproved: null,
+      versionGroupId: this.groupId(latest),
+      versionNumber: latest.versionNumber + 1,
+      isLatestVersion: true,
+      versionNote: upload.versionNote || null,
+    });
+    return { ok: true, value: version };
+  }
+
+  static async compare(
+    file: ProjectFile,
+    otherId: string
+  ): Promise<FileVersionResult<{ from: ProjectFile; to: ProjectFile; changes: VersionChange[]; commentCounts: Record<string, number> }>> {
+    const other = await storage.getProjectFile(otherId);
+    if (!other || this.groupId(other) !== this.groupId(file)) {
+      return { ok: false, notFound: true, error: 'That version is not part of this file' };
+    }
+
+    const [from, to] = file.versionNumber <= other.versionNumber ? [file, other] : [other, file];
+    const changes = COMPARED_FIELDS
+      .filter(field => from[field] !== to[field])
+      .map(field => ({ field, from: from[field], to: to[field] }));
+
+    const counts = await pool.query(
+      'SELECT file_id, COUNT(*)::int AS count FROM file_comments WHERE file_id = ANY($1) AND parent_id IS NULL GROUP BY file_id',
+      [[from.id, to.id]]
+    );
+    const commentCounts: Record<string, number> = { [from.id]: 0, [to.id]: 0 };
+    for (const row of counts.rows) {
+      commentCounts[row.file_id] = row.count;
+    }
+
+    return { ok: true, value: { from, to, changes, commentCounts } };
+  }
+
+  static async listComments(file: ProjectFile): Promise<FileCommentView[]> {
+    const result = await pool.query(`
+      SELECT
+        c.id, c.file_id AS "fileId", c.parent_id AS "parentId", c.author_id AS "authorId", c.body,
+        c.page, c.region, c.resolved_at AS "resolvedAt", c.resolved_by AS "resolvedBy",
+        c.created_at AS "createdAt", c.updated_at AS "updatedAt",
+        COALESCE(NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), ''), u.email) AS "authorName",
+        u.role AS "authorRole"
+      FROM file_comments c
+      LEFT JOIN users u ON u.id = c.author_id
+      WHERE c.file_id = $1
+      ORDER BY c.created_at
+    `, [file.id]);
+    return result.rows;
+  }
+
+  static async addComment(
+    user: User,
+    file: ProjectFile,
+    input: { body: string; parentId?: string | null; page?: number | null; region?: FileCommentRegion | null }
+  ): Promise<FileVersionResult<FileComment>> {
+    let parentId: string | null = null;
+    if (input.parentId) {
+      const parent = await storage.getFileComment(input.parentId);
+      if (!parent || parent.fileId !== file.id) {
+        return { ok: false, notFound: true, error: 'Comment thread not found' };
+      }
+      // Threads stay one level deep; replying to a reply joins the same thread
+      parentId = parent.parentId || parent.id;
+    }
+
+    const comment = await storage.createFileComment({
+      fileId: file.id,
+      parentId,
+      authorId: user.id,
+      body: input.body,
+      // Only the first comment in a thread carries the anchor
+      page: parentId ? null : input.page ?? null,
+      region: parentId ? null : input.region ?? null,
+    });
+    return { ok: true, value: comment };
+  }
+
+  // Authors can edit their own words; anyone who can see the file can resolve or reopen a thread
+  static async updateComment(
+    user: User,
+    file: ProjectFile,
+    commentId: string,
+    updates: { body?: string; resolved?: boolean }
+  ): Promise<FileVersionResult<FileComment>> {
+    const comment = await storage.getFileComment(commentId);
+    if (!comment || comment.fileId !== file.id) {
+      return { ok: false, notFound: true, error: 'Comment not found' };
+    }
+    if (updates.body !== undefined && comment.authorId !== user.id) {
+      return { ok: false, forbidden: true, error: 'Only the author can edit a comment' };
+    }
+    if (updates.resolved !== undefined && comment.parentId) {
+      return { ok: false, error: 'Resolve the thread from its first comment' };
+    }
+
+    const updated = await storage.updateFileComment(comment.id, {
+      ...(updates.body !== undefined ? { body: updates.body } : {}),
+      ...(updates.resolved !== undefined
+        ? { resolvedAt: updates.resolved ? new Date() : null, resolvedBy: updates.resolved ? user.id : null }
+        : {}),
+    });
+    return { ok: true, value: updated };
+  }
+}
@@ -0,0 +1,250 @@
+import { randomBytes } from 'crypto';
+import { DateTime } from 'luxon';
+import { storage } from '../storage';
+import { AccessService } from './AccessService';
+import { pool } from '../db';
+import { resolveTimezone } from '@shared/timezone';
+import { isStaffRole } from '@shared/permissions';
+import { serializeCalendar, type IcsAttendee, type IcsEvent, type IcsTodo } from '../calendar/ics';
+import type { IcalFeed, User } from '@shared/schema';
+
+interface FeedResult<T> {
+  ok: boolean;
+  value?: T;
+  error?: string;
+  notFound?: boolean;
+  forbidden?: boolean;
+}
+
+interface FeedScope {
+  name: string;
+  timezone: string; // All-day tasks are dated in this zone
+}
+
+export interface RenderedFeed {
+  name: string;
+  body: string;
+}
+
+// Tasks that fell due longer ago than this drop out of the feed
+const FEED_HISTORY_DAYS = 90;
+
+const PRIORITY: Record<string, number> = { urgent: 1, high: 3, medium: 5, low: 9 };
+
+const TODO_STATUS: Record<string, IcsTodo['status']> = {
+  completed: 'COMPLETED',
+  in_progress: 'IN-PROCESS',
+};
+
+const statusLabel = (status: string | null) =>
+  (status || 'in_progress').replace(/_/g, ' ').replace(/^\w/, char => char.toUpperCase());
+
+// Secret-token iCalendar subscriptions for people who would rather not connect a calendar account
+export class IcalFeedService {
+  static feedUrl(baseUrl: string, token: string): string {
+    return `${baseUrl}/ical/${token}.ics`;
+  }
+
+  // Admins can subscribe to anything; others to their own team member record, their projects or their organization
+  static async resolveScope(user: User, scope: string, scopeId: string): Promise<FeedResult<FeedScope>> {
+    const isAdmin = AccessService.can(user, 'projects.view_all');
+
+    if (scope === 'team_member') {
+      const member = await storage.getTeamMember(scopeId);
+      if (!member) return { ok: false, notFound: true, error: 'Team member not found' };
+      if (!isAdmin && member.email !== user.email) return { ok: false, forbidden: true, error: 'Access denied' };
+      return { ok: true, value: { name: member.name, timezone: resolveTimezone(member.timezone, member.email === user.email ? user.timezone : null) } };
+    }
+
+    if (scope === 'project') {
+      const project = await storage.getProject(scopeId);
+      if (!project || project.deletedAt) return { ok: false, notFound: true, error: 'Project not found' };
+      if (!(await AccessService.canAccessProject(user, project))) return { ok: false, forbidden: true, error: 'Access denied' };
+      return { ok: true, value: { name: project.name, timezone: resolveTimezone(isAdmin ? null : user.timezone) } };
+    }
+
+    if (scope === 'organization') {
+      const organization = await storage.getOrganization(scopeId);
+      if (!organization || organization.deletedAt) return { ok: false, notFound: true, error: 'Organization not found' };
+      if (!isAdmin && user.organizationId !== scopeId) return { ok: false, forbidden: true, error: 'Access denied' };
+      return { ok: true, value: { name: organization.name, timezone: resolveTimezone(isAdmin ? null : user.timezone) } };
+    }
+
+    return { ok: false, error: `Unknown feed scope: ${scope}` };
+  }
+
+  static canManage(user: User, feed: IcalFeed): boolean {
+    return AccessService.can(user, 'projects.view_all') || feed.createdBy === user.id;
+  }
+
+  static async createFeed(
+    user: User,
+    input: { scope: string; scopeId: string; component: string; clientVisibleOnly?: boolean }
+  ): Promise<FeedResult<IcalFeed>> {
+    const scope = await this.resolveScope(user, input.scope, input.scopeId);
+    if (!scope.ok) return { ok: false, notFound: scope.notFound, forbidden: scope.forbidden, error: scope.error };
+
+    const feed = await storage.createIcalFeed({
+      scope: input.scope,
+      scopeId: input.scopeId,
+      token: randomBytes(24).toString('hex'),
+      component: input.component,
+      // A client's feed never includes internal tasks, whatever they ask for
+      clientVisibleOnly: !isStaffRole(user.role) || !!input.clientVisibleOnly,
+      createdBy: user.id,
+    });
+    return { ok: true, value: feed };
+  }
+
+  static async updateFeed(
+    user: User,
+    feed: IcalFeed,
+    updates: { component?: string; clientVisibleOnly?: boolean }
+  ): Promise<IcalFeed | undefined> {
+    return storage.updateIcalFeed(feed.id, {
+      ...(updates.component ? { component: updates.component } : {}),
+      ...(updates.clientVisibleOnly !== undefined && isStaffRole(user.role) ? { clientVisibleOnly: updates.clientVisibleOnly } : {}),
+    });
+  }
+
+  // The old URL stops working immediately; subscribers have to re-subscribe with the new one
+  static async regenerate(feed: IcalFeed): Promise<IcalFeed | undefined> {
+    return storage.updateIcalFeed(feed.id, { token: randomBytes(24).toString('hex') });
+  }
+
+  static async revoke(feed: IcalFeed): Promise<IcalFeed | undefined> {
+    return storage.updateIcalFeed(feed.id, { revokedAt: new Date() });
+  }
+
+  static async render(token: string, baseUrl: string): Promise<FeedResult<RenderedFeed>> {
+    const feed = await storage.getIcalFeedByToken(token);
+    if (!feed || feed.revokedAt) {
+      return { ok: false, notFound: true, error: 'This calendar feed is invalid or has been revoked' };
+    }
+    const creator = await storage.getUser(feed.createdBy);
+    // Feeds follow their creator's access: a client who leaves the organization loses the feed too
+    const scope = creator ? await this.resolveScope(creator, feed.scope, feed.scopeId) : null;
+    if (!scope?.ok) {
+      return { ok: false, notFound: true, error: 'This calendar feed is no longer available' };
+    }
+
+    const tasks = await this.getFeedTasks(feed);
+    const assignees = await this.getAssignees(tasks.map(task => task.id));
+    const { name, timezone } = scope.value!;
+
+    const items = tasks.map(task => {
+      const people = assignees.get(task.id) || (task.assigned_to_member ? [{ name: task.assigned_to_member }] : []);
+      // Clients see who is working on a task, not the agency's email addresses
+      const attendees: IcsAttendee[] = feed.clientVisibleOnly ? [] : people;
+      return feed.component === 'VTODO'
+        ? this.buildTodo(task, people, attendees, timezone, baseUrl)
+        : this.buildEvent(task, people, attendees, timezone, baseUrl);
+    });
+
+    await storage.updateIcalFeed(feed.id, { lastAccessedAt: new Date() });
+    const calendarName = `${name} – Tasks`;
+    return { ok: true, value: { name: calendarName, body: serializeCalendar(items, { name: calendarName, refreshInterval: 'PT1H' }) } };
+  }
+
+  private static async getFeedTasks(feed: IcalFeed): Promise<any[]> {
+    const scopeCondition: Record<string, string> = {
+      team_member: 't.id IN (SELECT task_id FROM task_assignments WHERE team_member_id = $1)',
+      project: 't.project_id = $1',
+      organization: '(t.organization_id = $1 OR p.organization_id = $1)',
+    };
+
+    const result = await pool.query(`
+      SELECT t.*, p.name AS project_name
+      FROM tasks t
+      LEFT JOIN projects p ON p.id = t.project_id
+      WHERE ${scopeCondition[feed.scope]}
+        AND t.due_at IS NOT NULL
+        AND t.due_at >= NOW() - $2 * INTERVAL '1 day'
+        AND t.deleted_at IS NULL
+        AND (p.id IS NULL OR (p.deleted_at IS NULL AND p.is_deleted IS NOT TRUE))
+        AND (NOT $3::boolean OR t.client_visible IS NOT FALSE)
+      ORDER BY t.due_at
+    `, [feed.scopeId, FEED_HISTORY_DAYS, feed.clientVisibleOnly]);
+    return result.rows;
+  }
+
+  private static async getAssignees(taskIds: string[]): Promise<Map<string, IcsAttendee[]>> {
+    const byTask = new Map<string, IcsAttendee[]>();
+    if (taskIds.length === 0) return byTask;
+
+    const result = await pool.query(`
+      SELECT ta.task_id, tm.name, tm.email
+      FROM task_assignments ta
+      JOIN team_members tm ON tm.id = ta.team_member_id
+      WHERE ta.task_id = ANY($1)
+      ORDER BY tm.name
+    `, [taskIds]);
+    for (const row of result.rows) {
+      byTask.set(row.task_id, [...(byTask.get(row.task_id) || []), { name: row.name, email: row.email }]);
+    }
+    return byTask;
+  }
+
+  private static taskUrl(baseUrl: string, task: any): string {
+    return `${baseUrl}/tasks/${task.id}`;
+  }
+
+  private static describe(task: any, people: IcsAttendee[], baseUrl: string): string {
+    const parts = [];
+    if (task.description) {
+      parts.push(task.description);
+    }
+    parts.push(`Status: ${statusLabel(task.status)}`);
+    parts.push(`Priority: ${task.priority || 'medium'}`);
+    if (people.length > 0) {
+      parts.push(`Assigned to: ${people.map(person => person.name).join(', ')}`);
+    }
+    if (task.project_name) {
+      parts.push(`Project: ${task.project_name}`);
+    }
+    parts.push(`Task Link: ${this.taskUrl(baseUrl, task)}`);
+    return parts.join('\n\n');
+  }
+
+  // Timed tasks are published as UTC instants; date-only tasks as all-day on their date in the feed's zone
+  private static dueTime(task: any, timezone: string) {
+    const dueAt = DateTime.fromJSDate(new Date(task.due_at));
+    if (task.due_time) {
+      return { start: dueAt.toUTC(), date: null };
+    }
+    return { start: dueAt, date: dueAt.setZone(timezone).toISODate()! };
+  }
+
+  private static buildEvent(task: any, people: IcsAttendee[], attendees: IcsAttendee[], timezone: string, baseUrl: string): IcsEvent {
+    const { start, date } = this.dueTime(task, timezone);
+    return {
+      uid: `task-${task.id}@clientflow`,
+      summary: task.title,
+      description: this.describe(task, people, baseUrl),
+      start: date ? { date } : { dateTime: start.toISO() },
+      end: date ? { date: DateTime.fromISO(date).plus({ days: 1 }).toISODate() } : { dateTime: start.plus({ minutes: 60 }).toISO() },
+      htmlLink: this.taskUrl(baseUrl, task),
+      categories: [statusLabel(task.status)],
+      attendees,
+      lastModified: task.updated_at ? new Date(task.updated_at) : null,
+    };
+  }
+
+  private static buildTodo(task: any, people: IcsAttendee[], attendees: IcsAttendee[], timezone: string, baseUrl: string): IcsTodo {
+    const { start, date } = this.dueTime(task, timezone);
+    return {
+      component: 'VTODO',
+      uid: `task-${task.id}@clientflow`,
+      summary: task.title,
+      description: this.describe(task, people, baseUrl),
+      due: date ? { date } : { dateTime: start.toISO() },
+      status: TODO_STATUS[task.status] || 'NEEDS-ACTION',
+      completed: task.status === 'completed' && task.completed_at ? new Date(task.completed_at) : null,
+      priority: PRIORITY[task.priority] || PRIORITY.medium,
+      url: this.taskUrl(baseUrl, task),
+      categories: [statusLabel(task.status)],
+      attendees,
+      lastModified: task.updated_at ? new Date(task.updated_at) : null,
+    };
+  }
+}
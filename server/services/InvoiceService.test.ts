@@ -0,0 +1,52 @@
+import '../test/env';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { InvoiceService } from './InvoiceService';
+import type { Invoice, User } from '@shared/schema';
+
+const invoice = (id: string, fields: Partial<Invoice>) => ({ id, status: 'sent', clientId: null, organizationId: null, ...fields }) as Invoice;
+const invoices = [
+  invoice('direct', { clientId: 'client-1' }),
+  invoice('org', { organizationId: 'org-1' }),
+  invoice('draft', { clientId: 'client-1', status: 'draft' }),
+  invoice('other', { clientId: 'client-9', organizationId: 'org-9' }),
+];
+
+const user = (id: string, role: string, organizationId: string | null = null) => ({ id, role, organizationId }) as User;
+const soloClient = user('client-1', 'client');
+const orgClient = user('client-2', 'client', 'org-1');
+
+let getInvoices: ReturnType<typeof mock.method>;
+
+// Applies the storage filter the way the query does
+beforeEach(() => {
+  getInvoices = mock.method(storage, 'getInvoices', async (filter: any = {}) => invoices.filter(item =>
+    (!filter.billedTo || item.clientId === filter.billedTo.clientId ||
+      (!!filter.billedTo.organizationId && item.organizationId === filter.billedTo.organizationId)) &&
+    (filter.includeDrafts !== false || item.status !== 'draft')));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('InvoiceService.listForUser', () => {
+  const ids = (list: Invoice[]) => list.map(item => item.id);
+
+  test('lists exactly the invoices canView opens', async () => {
+    for (const viewer of [soloClient, orgClient, user('client-3', 'client_viewer', 'org-1'), user('staff-1', 'contributor')]) {
+      const listed = ids(await InvoiceService.listForUser(viewer));
+      const viewable = ids(invoices.filter(item => InvoiceService.canView(viewer, item)));
+      assert.deepEqual(listed, viewable, viewer.id);
+    }
+  });
+
+  test('a client without an organization sees invoices billed to them', async () => {
+    assert.deepEqual(ids(await InvoiceService.listForUser(soloClient)), ['direct']);
+  });
+
+  test('billing staff see every invoice; nobody signed in sees none', async () => {
+    assert.deepEqual(ids(await InvoiceService.listForUser(user('admin-1', 'admin'))), ids(invoices));
+    assert.deepEqual(await InvoiceService.listForUser(undefined), []);
+    assert.equal(getInvoices.mock.callCount(), 1);
+  });
+});
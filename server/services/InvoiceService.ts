@@ -0,0 +1,626 @@
+import { DateTime } from 'luxon';
+import { storage } from '../storage';
+import { AccessService } from './AccessService';
+import { pool } from '../db';
+import { SimplePdf, PAGE_WIDTH, PAGE_HEIGHT } from '../utils/pdf';
+import type {
+  Invoice,
+  InvoiceLineItem,
+  InvoiceTaxLine,
+  InvoicePayment,
+  InsertInvoiceLineItem,
+  Organization,
+  Proposal,
+  Quote,
+  User,
+} from '@shared/schema';
+
+export const DEFAULT_PAYMENT_TERMS_DAYS = 30;
+
+interface InvoiceResult {
+  ok: boolean;
+  invoice?: Invoice;
+  error?: string;
+}
+
+export interface InvoiceLineInput {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  serviceId?: string | null;
+  sourceType?: string;
+  sourceId?: string | null;
+}
+
+export interface InvoiceTaxInput {
+  name: string;
+  rate: number;
+}
+
+export interface InvoiceHeaderInput {
+  title?: string;
+  organizationId?: string | null;
+  clientId?: string | null;
+  projectId?: string | null;
+  dueDate?: Date | null;
+  notes?: string | null;
+  terms?: string | null;
+}
+
+export interface InvoiceDetail extends Invoice {
+  lineItems: InvoiceLineItem[];
+  taxLines: InvoiceTaxLine[];
+  payments: InvoicePayment[];
+  organization: Organization | null;
+  balance: number;
+}
+
+export interface ArAgingRow {
+  organizationId: string | null;
+  organizationName: string;
+  current: number;
+  days1to30: number;
+  days31to60: number;
+  days61to90: number;
+  days90plus: number;
+  total: number;
+}
+
+export interface ArAgingReport {
+  asOf: string;
+  rows: ArAgingRow[];
+  totals: Omit<ArAgingRow, 'organizationId' | 'organizationName'>;
+}
+
+const money = (value: number) => Math.round(value * 100) / 100;
+const toDecimal = (value: number) => money(value).toFixed(2);
+const formatMoney = (value: number | string) =>
+  `$${Number(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Invoices are drafted from approved proposal items, quote line items or tracked hours,
+// then sent, partially or fully paid, or voided. Totals are always recomputed from their parts.
+export class InvoiceService {
+  static nextInvoiceNumber(): string {
+    return `INV-${Date.now()}`;
+  }
+
+  // Billing staff see everything; clients see non-draft invoices billed to them or their organization
+  static canView(user: User | undefined, invoice: Invoice): boolean {
+    if (!user) return false;
+    if (AccessService.can(user, 'billing.manage')) return true;
+    if (invoice.status === 'draft' || !AccessService.can(user, 'invoices.view')) return false;
+    return invoice.clientId === user.id ||
+      (!!user.organizationId && invoice.organizationId === user.organizationId);
+  }
+
+  // The list behind the client portal, under the same rule as canView
+  static async listForUser(user: User | undefined): Promise<Invoice[]> {
+    if (!user) return [];
+    if (AccessService.can(user, 'billing.manage')) return storage.getInvoices();
+    if (!AccessService.can(user, 'invoices.view')) return [];
+    return storage.getInvoices({
+      billedTo: { clientId: user.id, organizationId: user.organizationId },
+      includeDrafts: false,
+    });
+  }
+
+  private static toLineItems(invoiceId: string, lines: InvoiceLineInput[]): InsertInvoiceLineItem[] {
+    return lines.map((line, index) => ({
+      invoiceId,
+      description: line.description,
+      quantity: toDecimal(line.quantity),
+      unitPrice: toDecimal(line.unitPrice),
+      amount: toDecimal(line.quantity * line.unitPrice),
+      serviceId: line.serviceId || null,
+      sourceType: line.sourceType || 'manual',
+      sourceId: line.sourceId || null,
+      itemOrder: index,
+    }));
+  }
+
+  static async createDraft(
+    header: InvoiceHeaderInput & { title: string; proposalId?: string | null; quoteId?: string | null },
+    lines: InvoiceLineInput[],
+    taxes: InvoiceTaxInput[],
+    createdBy: string
+  ): Promise<InvoiceResult> {
+    const invoice = await storage.createInvoice({
+      invoiceNumber: this.nextInvoiceNumber(),
+      title: header.title,
+      organizationId: header.organizationId || null,
+      clientId: header.clientId || null,
+      projectId: header.projectId || null,
+      proposalId: header.proposalId || null,
+      quoteId: header.quoteId || null,
+      dueDate: header.dueDate || null,
+      notes: header.notes || null,
+      terms: header.terms || null,
+      status: 'draft',
+      createdBy,
+    });
+
+    await storage.replaceInvoiceLineItems(invoice.id, this.toLineItems(invoice.id, lines));
+    await storage.replaceInvoiceTaxLines(invoice.id, taxes.map(tax => ({
+      invoiceId: invoice.id,
+      name: tax.name,
+      rate: tax.rate.toFixed(3),
+      amount: '0',
+    })));
+
+    return { ok: true, invoice: await this.recalculate(invoice.id) };
+  }
+
+  // Approved proposal items that are not already on a (non-void) invoice
+  static async createFromProposal(proposal: Proposal, taxes: InvoiceTaxInput[], createdBy: string): Promise<InvoiceResult> {
+    const items = (await storage.getProposalItems(proposal.id)).filter(item => item.isApproved);
+    if (items.length === 0) {
+      return { ok: false, error: 'Proposal has no approved items' };
+    }
+
+    const invoiced = await storage.getInvoicedQuantities('proposal_item', items.map(item => item.id));
+    const pending = items
+      .filter(item => !invoiced[item.id])
+      .sort((a, b) => (a.phase ?? 0) - (b.phase ?? 0) || (a.itemOrder ?? 0) - (b.itemOrder ?? 0));
+    if (pending.length === 0) {
+      return { ok: false, error: 'All approved items on this proposal have already been invoiced' };
+    }
+
+    return this.createDraft(
+      {
+        title: proposal.title,
+        organizationId: proposal.organizationId,
+        clientId: proposal.clientId,
+        proposalId: proposal.id,
+        terms: proposal.terms,
+      },
+      pending.map(item => ({
+        description: item.phase ? `Phase ${item.phase}: ${item.title}` : item.title,
+        quantity: 1,
+        unitPrice: Number(item.amount),
+        serviceId: item.serviceId,
+        sourceType: 'proposal_item',
+        sourceId: item.id,
+      })),
+      taxes,
+      createdBy
+    );
+  }
+
+  // Quote line items, less any quantity already invoiced
+  static async createFromQuote(quote: Quote, taxes: InvoiceTaxInput[], createdBy: string): Promise<InvoiceResult> {
+    if (quote.status === 'declined') {
+      return { ok: false, error: 'Declined quotes cannot be invoiced' };
+    }
+
+    const lineItems = await storage.getQuoteLineItems(quote.id);
+    const invoiced = await storage.getInvoicedQuantities('quote_line_item', lineItems.map(item => item.id));
+    const lines: InvoiceLineInput[] = [];
+    for (const item of lineItems) {
+      const remaining = Number(item.quantity ?? 1) - (invoiced[item.id] || 0);
+      if (remaining <= 0) continue;
+      lines.push({
+        description: item.description,
+        quantity: remaining,
+        unitPrice: Number(item.unitPrice),
+        serviceId: item.serviceId,
+        sourceType: 'quote_line_item',
+        sourceId: item.id,
+      });
+    }
+    if (lines.length === 0) {
+      return { ok: false, error: 'All quote line items have already been invoiced' };
+    }
+
+    return this.createDraft(
+      {
+        title: quote.title,
+        organizationId: quote.organizationId,
+        clientId: quote.clientId,
+        projectId: quote.projectId,
+        quoteId: quote.id,
+      },
+      lines,
+      taxes,
+      createdBy
+    );
+  }
+
+  // Unbilled actualHours on a project's assignments (at the team member's role rate) plus any task hours
+  // not covered by an assignment (at the task's assignee role rate)
+  static async createFromTrackedTime(
+    projectId: string,
+    taxes: InvoiceTaxInput[],
+    createdBy: string
+  ): Promise<InvoiceResult & { missingRates?: string[] }> {
+    const project = await storage.getProject(projectId);
+    if (!project) {
+      return { ok: false, error: 'Project not found' };
+    }
+
+    const rates = new Map((await storage.getBillingRates()).map(rate => [rate.role, Number(rate.hourlyRate)]));
+    const missingRates = new Set<string>();
+    const lines: InvoiceLineInput[] = [];
+
+    const projectTasks = await storage.getTasksByProject(projectId);
+    const assignmentsByTask = await Promise.all(projectTasks.map(task => storage.getTaskAssignments(task.id)));
+    const assignmentIds = assignmentsByTask.flat().map(assignment => assignment.id);
+    const invoicedAssignments = await storage.getInvoicedQuantities('task_assignment', assignmentIds);
+    const invoicedTasks = await storage.getInvoicedQuantities('task', projectTasks.map(task => task.id));
+
+    for (let i = 0; i < projectTasks.length; i++) {
+      const task = projectTasks[i];
+      const assignments = assignmentsByTask[i];
+      let assignedHours = 0;
+
+      for (const assignment of assignments) {
+        const hours = assignment.actualHours || 0;
+        assignedHours += hours;
+        const unbilled = money(hours - (invoicedAssignments[assignment.id] || 0));
+        if (unbilled <= 0) continue;
+
+        const rate = rates.get(assignment.teamMember.role);
+        if (rate === undefined) {
+          missingRates.add(assignment.teamMember.role);
+          continue;
+        }
+        lines.push({
+          description: `${task.title} — ${assignment.teamMember.name}`,
+          quantity: unbilled,
+          unitPrice: rate,
+          serviceId: task.serviceId,
+          sourceType: 'task_assignment',
+          sourceId: assignment.id,
+        });
+      }
+
+      // Time kept on the task after its assignment was removed
+      const unassigned = money((task.actualHours || 0) - assignedHours - (invoicedTasks[task.id] || 0));
+      if (unassigned > 0) {
+        const rate = task.assigneeRole ? rates.get(task.assigneeRole) : undefined;
+        if (rate === undefined) {
+          missingRates.add(task.assigneeRole || 'unassigned');
+          continue;
+        }
+        lines.push({
+          description: task.title,
+          quantity: unassigned,
+          unitPrice: rate,
+          serviceId: task.serviceId,
+          sourceType: 'task',
+          sourceId: task.id,
+        });
+      }
+    }
+
+    if (lines.length === 0) {
+      return {
+        ok: false,
+        error: missingRates.size > 0
+          ? `No billable hours with a rate; set rates for: ${Array.from(missingRates).join(', ')}`
+          : 'No unbilled tracked hours on this project',
+      };
+    }
+
+    const result = await this.createDraft(
+      {
+        title: `${project.name} — time`,
+        organizationId: project.organizationId,
+        clientId: project.clientId,
+        projectId: project.id,
+      },
+      lines,
+      taxes,
+      createdBy
+    );
+    return { ...result, missingRates: Array.from(missingRates) };
+  }
+
+  // Recompute subtotal, tax, payments and the derived status
+  static async recalculate(invoiceId: string): Promise<Invoice> {
+    const invoice = await storage.getInvoice(invoiceId);
+    if (!invoice) {
+      throw new Error(`Invoice ${invoiceId} not found`);
+    }
+
+    const [lineItems, taxLines, payments] = await Promise.all([
+      storage.getInvoiceLineItems(invoiceId),
+      storage.getInvoiceTaxLines(invoiceId),
+      storage.getInvoicePayments(invoiceId),
+    ]);
+
+    const subtotal = money(lineItems.reduce((sum, item) => sum + Number(item.amount), 0));
+    const recomputedTaxes = taxLines.map(tax => ({
+      invoiceId,
+      name: tax.name,
+      rate: tax.rate,
+      amount: toDecimal(subtotal * Number(tax.rate) / 100),
+    }));
+    if (recomputedTaxes.some((tax, i) => tax.amount !== taxLines[i].amount)) {
+      await storage.replaceInvoiceTaxLines(invoiceId, recomputedTaxes);
+    }
+
+    const taxTotal = money(recomputedTaxes.reduce((sum, tax) => sum + Number(tax.amount), 0));
+    const total = money(subtotal + taxTotal);
+    const amountPaid = money(payments.reduce((sum, payment) => sum + Number(payment.amount), 0));
+
+    let status = invoice.status;
+    let paidAt = invoice.paidAt;
+    if (status !== 'draft' && status !== 'void') {
+      if (total > 0 && amountPaid >= total) {
+        status = 'paid';
+        paidAt = paidAt || payments[payments.length - 1]?.paidAt || new Date();
+      } else {
+        status = invoice.dueDate && invoice.dueDate < new Date() ? 'overdue' : 'sent';
+        paidAt = null;
+      }
+    }
+
+    return storage.updateInvoice(invoiceId, {
+      subtotal: toDecimal(subtotal),
+      taxTotal: toDecimal(taxTotal),
+      total: toDecimal(total),
+      amountPaid: toDecimal(amountPaid),
+      status,
+      paidAt,
+    });
+  }
+
+  // Drafts can be edited freely; line items and tax lines are replaced when provided
+  static async updateDraft(
+    invoice: Invoice,
+    header: InvoiceHeaderInput,
+    lines?: InvoiceLineInput[],
+    taxes?: InvoiceTaxInput[]
+  ): Promise<InvoiceResult> {
+    if (invoice.status !== 'draft') {
+      return { ok: false, error: 'Only draft invoices can be edited' };
+    }
+
+    const updates: Record<string, unknown> = {};
+    for (const key of ['title', 'organizationId', 'clientId', 'projectId', 'dueDate', 'notes', 'terms'] as const) {
+      if (header[key] !== undefined) updates[key] = header[key];
+    }
+    if (Object.keys(updates).length > 0) {
+      await storage.updateInvoice(invoice.id, updates);
+    }
+    if (lines) {
+      await storage.replaceInvoiceLineItems(invoice.id, this.toLineItems(invoice.id, lines));
+    }
+    if (taxes) {
+      await storage.replaceInvoiceTaxLines(invoice.id, taxes.map(tax => ({
+        invoiceId: invoice.id,
+        name: tax.name,
+        rate: tax.rate.toFixed(3),
+        amount: '0',
+      })));
+    }
+
+    return { ok: true, invoice: await this.recalculate(invoice.id) };
+  }
+
+  static async send(invoice: Invoice): Promise<InvoiceResult> {
+    if (invoice.status !== 'draft') {
+      return { ok: false, error: 'Only draft invoices can be sent' };
+    }
+    const lineItems = await storage.getInvoiceLineItems(invoice.id);
+    if (lineItems.length === 0) {
+      return { ok: false, error: 'Add at least one line item before sending' };
+    }
+
+    const issueDate = new Date();
+    await storage.updateInvoice(invoice.id, {
+      status: 'sent',
+      issueDate,
+      sentAt: issueDate,
+      dueDate: invoice.dueDate || DateTime.fromJSDate(issueDate).plus({ days: DEFAULT_PAYMENT_TERMS_DAYS }).toJSDate(),
+    });
+    return { ok: true, invoice: await this.recalculate(invoice.id) };
+  }
+
+  static async voidInvoice(invoice: Invoice): Promise<InvoiceResult> {
+    if (invoice.status === 'void') {
+      return { ok: false, error: 'Invoice is already void' };
+    }
+    if (Number(invoice.amountPaid) > 0) {
+      return { ok: false, error: 'Invoices with recorded payments cannot be voided' };
+    }
+
+    const voided = await storage.updateInvoice(invoice.id, { status: 'void', voidedAt: new Date() });
+    return { ok: true, invoice: voided };
+  }
+
+  static async deleteDraft(invoice: Invoice): Promise<InvoiceResult> {
+    if (invoice.status !== 'draft') {
+      return { ok: false, error: 'Only draft invoices can be deleted; void it instead' };
+    }
+    await storage.deleteInvoice(invoice.id);
+    return { ok: true };
+  }
+
+  static async recordPayment(
+    invoice: Invoice,
+    input: { amount: number; paidAt?: Date; method?: string | null; reference?: string | null; notes?: string | null },
+    recordedBy: string
+  ): Promise<InvoiceResult> {
+    if (invoice.status !== 'sent' && invoice.status !== 'overdue') {
+      return { ok: false, error: `Payments cannot be recorded on a ${invoice.status} invoice` };
+    }
+
+    const balance = money(Number(invoice.total) - Number(invoice.amountPaid));
+    if (money(input.amount) > balance) {
+      return { ok: false, error: `Payment exceeds the balance of ${formatMoney(balance)}` };
+    }
+
+    await storage.createInvoicePayment({
+      invoiceId: invoice.id,
+      amount: toDecimal(input.amount),
+      paidAt: input.paidAt || new Date(),
+      method: input.method || null,
+      reference: input.reference || null,
+      notes: input.notes || null,
+      recordedBy,
+    });
+    return { ok: true, invoice: await this.recalculate(invoice.id) };
+  }
+
+  // Sent invoices past their due date with a balance become overdue
+  static async markOverdue(): Promise<number> {
+    const result = await pool.query(`
+      UPDATE invoices SET status = 'overdue', updated_at = NOW()
+      WHERE status = 'sent' AND due_date < NOW() AND amount_paid < total
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  static async getDetail(invoiceId: string): Promise<InvoiceDetail | undefined> {
+    const invoice = await storage.getInvoice(invoiceId);
+    if (!invoice) return undefined;
+
+    const [lineItems, taxLines, payments, organization] = await Promise.all([
+      storage.getInvoiceLineItems(invoiceId),
+      storage.getInvoiceTaxLines(invoiceId),
+      storage.getInvoicePayments(invoiceId),
+      invoice.organizationId ? storage.getOrganization(invoice.organizationId) : undefined,
+    ]);
+
+    return {
+      ...invoice,
+      lineItems,
+      taxLines,
+      payments,
+      organization: organization || null,
+      balance: money(Number(invoice.total) - Number(invoice.amountPaid)),
+    };
+  }
+
+  // Outstanding balances by organization, bucketed by days past due
+  static async getAgingReport(asOf: Date = new Date()): Promise<ArAgingReport> {
+    await this.markOverdue();
+
+    const result = await pool.query(`
+      SELECT i.organization_id, COALESCE(o.name, 'No organization') AS organization_name,
+             i.due_date, (i.total - i.amount_paid) AS balance
+      FROM invoices i
+      LEFT JOIN organizations o ON o.id = i.organization_id
+      WHERE i.status IN ('sent', 'overdue') AND i.total > i.amount_paid
+    `);
+
+    const rows = new Map<string, ArAgingRow>();
+    const totals = { current: 0, days1to30: 0, days31to60: 0, days61to90: 0, days90plus: 0, total: 0 };
+
+    for (const record of result.rows) {
+      const key = record.organization_id || 'none';
+      const row = rows.get(key) || {
+        organizationId: record.organization_id,
+        organizationName: record.organization_name,
+        current: 0,
+        days1to30: 0,
+        days31to60: 0,
+        days61to90: 0,
+        days90plus: 0,
+        total: 0,
+      };
+
+      const balance = Number(record.balance);
+      const daysPastDue = record.due_date
+        ? Math.floor((asOf.getTime() - new Date(record.due_date).getTime()) / 86400000)
+        : 0;
+      const bucket = daysPastDue <= 0 ? 'current'
+        : daysPastDue <= 30 ? 'days1to30'
+        : daysPastDue <= 60 ? 'days31to60'
+        : daysPastDue <= 90 ? 'days61to90'
+        : 'days90plus';
+
+      row[bucket] = money(row[bucket] + balance);
+      row.total = money(row.total + balance);
+      totals[bucket] = money(totals[bucket] + balance);
+      totals.total = money(totals.total + balance);
+      rows.set(key, row);
+    }
+
+    return {
+      asOf: asOf.toISOString(),
+      rows: Array.from(rows.values()).sort((a, b) => b.total - a.total),
+      totals,
+    };
+  }
+
+  static renderPdf(invoice: InvoiceDetail): Buffer {
+    const pdf = new SimplePdf();
+    const left = 50;
+    const right = PAGE_WIDTH - 50;
+    const formatDate = (date: Date | null) => (date ? DateTime.fromJSDate(date).toFormat('LLL d, yyyy') : '—');
+
+    pdf.text(left, 60, 'INVOICE', { size: 22, bold: true });
+    pdf.text(right, 60, invoice.invoiceNumber, { size: 12, bold: true, align: 'right' });
+    pdf.text(right, 78, `Status: ${invoice.status.toUpperCase()}`, { align: 'right' });
+
+    pdf.text(left, 110, 'Bill to', { bold: true });
+    pdf.text(left, 124, invoice.organization?.name || 'Client');
+    pdf.text(right - 150, 110, 'Issued', { bold: true });
+    pdf.text(right, 110, formatDate(invoice.issueDate), { align: 'right' });
+    pdf.text(right - 150, 124, 'Due', { bold: true });
+    pdf.text(right, 124, formatDate(invoice.dueDate), { align: 'right' });
+
+    pdf.text(left, 160, invoice.title, { size: 13, bold: true });
+
+    const columns = { quantity: 380, unitPrice: 460, amount: right };
+    let y = 190;
+    const header = () => {
+      pdf.text(left, y, 'Description', { bold: true });
+      pdf.text(columns.quantity, y, 'Qty', { bold: true, align: 'right' });
+      pdf.text(columns.unitPrice, y, 'Rate', { bold: true, align: 'right' });
+      pdf.text(columns.amount, y, 'Amount', { bold: true, align: 'right' });
+      pdf.line(left, y + 6, right, y + 6);
+      y += 22;
+    };
+    header();
+
+    for (const item of invoice.lineItems) {
+      if (y > PAGE_HEIGHT - 160) {
+        pdf.addPage();
+        y = 60;
+        header();
+      }
+      const description = item.description.length > 55 ? `${item.description.slice(0, 52)}...` : item.description;
+      pdf.text(left, y, description);
+      pdf.text(columns.quantity, y, Number(item.quantity).toString(), { align: 'right' });
+      pdf.text(columns.unitPrice, y, formatMoney(item.unitPrice), { align: 'right' });
+      pdf.text(columns.amount, y, formatMoney(item.amount), { align: 'right' });
+      y += 16;
+    }
+
+    pdf.line(columns.quantity - 40, y, right, y);
+    y += 16;
+    const summary = (label: string, value: string, bold = false) => {
+      pdf.text(columns.unitPrice, y, label, { bold, align: 'right' });
+      pdf.text(columns.amount, y, value, { bold, align: 'right' });
+      y += 16;
+    };
+    summary('Subtotal', formatMoney(invoice.subtotal));
+    for (const tax of invoice.taxLines) {
+      summary(`${tax.name} (${Number(tax.rate)}%)`, formatMoney(tax.amount));
+    }
+    summary('Total', formatMoney(invoice.total), true);
+    if (Number(invoice.amountPaid) > 0) {
+      summary('Paid', `-${formatMoney(invoice.amountPaid)}`);
+    }
+    summary('Balance due', formatMoney(invoice.balance), true);
+
+    if (invoice.terms || invoice.notes) {
+      y += 16;
+      for (const [label, body] of [['Terms', invoice.terms], ['Notes', invoice.notes]] as const) {
+        if (!body) continue;
+        pdf.text(left, y, label, { bold: true });
+        y += 14;
+        for (const line of body.split('\n').slice(0, 8)) {
+          pdf.text(left, y, line.slice(0, 95), { size: 9 });
+          y += 12;
+        }
+        y += 6;
+      }
+    }
+
+    return pdf.toBuffer();
+  }
+}
@@ -0,0 +1,87 @@
+import '../test/env';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { hostname } from 'os';
+import { pool } from '../db';
+import { JobQueueService } from './JobQueueService';
+import type { Job } from '@shared/schema';
+
+const WORKER_ID = `${hostname()}:${process.pid}`;
+const KEY = 'calendar.upsert:t1:u1';
+
+let rows: any[];
+let duringRun = () => {};
+
+JobQueueService.register('test.fails', async () => {
+  duringRun();
+  throw new Error('Calendar API timed out');
+});
+
+// Queues a pending job the way enqueue's insert does: refused while one with the key is pending
+const enqueue = (id: string) => {
+  if (rows.some(row => row.idempotency_key === KEY && row.status === 'pending')) return;
+  rows.push({ id, idempotency_key: KEY, status: 'pending', attempts: 0, max_attempts: 5 });
+};
+
+// Just enough of the jobs table for the release statements, with idx_jobs_idempotency_pending enforced
+beforeEach(() => {
+  rows = [];
+  duringRun = () => {};
+  mock.method(console, 'error', () => {});
+  mock.method(pool, 'query', async (text: string, params: any[]) => {
+    if (/^SELECT id, locked_by/.test(text)) {
+      return { rows: rows.filter(row => row.status === 'running' && row.locked_at < params[0]) };
+    }
+    if (/^UPDATE jobs SET status = \$3/.test(text)) {
+      const [id, lockedBy, status, lastError, result] = params;
+      const row = rows.find(item => item.id === id && item.status === 'running' && item.locked_by === lockedBy);
+      if (!row) return { rows: [], rowCount: 0 };
+      if (status === 'pending' && rows.some(item => item !== row && item.idempotency_key === row.idempotency_key && item.status === 'pending')) {
+        throw Object.assign(new Error('duplicate key value violates unique constraint "idx_jobs_idempotency_pending"'), { code: '23505' });
+      }
+      Object.assign(row, { status, last_error: lastError, result: result ?? row.result, locked_by: null, locked_at: null });
+      return { rows: [], rowCount: 1 };
+    }
+    throw new Error(`unexpected query: ${text}`);
+  });
+});
+
+afterEach(() => mock.restoreAll());
+
+const running = (id: string, fields: Record<string, unknown> = {}) => {
+  const row = { id, idempotency_key: KEY, status: 'running', attempts: 1, max_attempts: 5, locked_by: WORKER_ID, locked_at: new Date(), ...fields };
+  rows.push(row);
+  return row;
+};
+
+const run = (job: any) => (JobQueueService as any).runJob({ ...job, type: 'test.fails', maxAttempts: job.max_attempts } as Job);
+
+describe('JobQueueService failed jobs', () => {
+  test('go back to pending when nothing newer is queued', async () => {
+    await run(running('j1'));
+
+    assert.equal(rows[0].status, 'pending');
+  });
+
+  test('are superseded when the same key was queued while they ran', async () => {
+    duringRun = () => enqueue('j2');
+
+    await run(running('j1'));
+
+    assert.deepEqual(rows.map(row => [row.id, row.status]), [['j1', 'superseded'], ['j2', 'pending']]);
+    assert.equal(rows[0].last_error, 'Calendar API timed out');
+  });
+});
+
+describe('JobQueueService.recoverStale', () => {
+  test('requeues stale jobs one by one, superseding those whose key is queued again', async () => {
+    const stale = new Date(Date.now() - 60 * 60 * 1000);
+    running('j1', { locked_by: 'gone:1', locked_at: stale });
+    running('j2', { locked_by: 'gone:1', locked_at: stale });
+    running('j3', { idempotency_key: null, locked_by: 'gone:1', locked_at: stale, attempts: 5 });
+    running('j4', { locked_by: WORKER_ID });
+
+    assert.equal(await JobQueueService.recoverStale(), 3);
+    assert.deepEqual(rows.map(row => [row.id, row.status]), [['j1', 'pending'], ['j2', 'superseded'], ['j3', 'dead'], ['j4', 'running']]);
+  });
+});
@@ -0,0 +1,228 @@
+import { hostname } from 'os';
+import { and, eq, inArray, sql } from 'drizzle-orm';
+import { db, pool } from '../db';
+import { jobs, type Job } from '@shared/schema';
+
+// Handlers return an optional note stored on the job (e.g. why a sync was skipped) and throw to retry
+export type JobHandler = (payload: any, job: Job) => Promise<string | void>;
+
+export interface EnqueueOptions {
+  idempotencyKey?: string;
+  runAt?: Date;
+  maxAttempts?: number;
+}
+
+interface JobResult {
+  ok: boolean;
+  job?: Job;
+  error?: string;
+  notFound?: boolean;
+  conflict?: boolean;
+}
+
+// Thrown by a handler when retrying can't help; the job is dead-lettered straight away
+export class PermanentJobError extends Error {}
+
+const POLL_INTERVAL_MS = Number(process.env.JOB_POLL_INTERVAL_MS) || 5000;
+const BATCH_SIZE = 10;
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 60 * 60 * 1000;
+// A job still "running" after this long belonged to a worker that died mid-job
+const STALE_LOCK_MS = 10 * 60 * 1000;
+
+const WORKER_ID = `${hostname()}:${process.pid}`;
+const handlers = new Map<string, JobHandler>();
+let timer: NodeJS.Timeout | null = null;
+let working = false;
+
+// Postgres-backed background queue: retries with exponential backoff, dead-lettering and idempotency keys
+export class JobQueueService {
+  static register(type: string, handler: JobHandler): void {
+    handlers.set(type, handler);
+  }
+
+  // A pending job with the same idempotency key absorbs the new one; the existing job is returned
+  static async enqueue(type: string, payload: Record<string, any>, options: EnqueueOptions = {}): Promise<Job> {
+    const [job] = await db
+      .insert(jobs)
+      .values({
+        type,
+        payload,
+        idempotencyKey: options.idempotencyKey ?? null,
+        runAt: options.runAt ?? new Date(),
+        maxAttempts: options.maxAttempts ?? 5,
+      })
+      .onConflictDoNothing({ target: jobs.idempotencyKey, where: sql`status = 'pending'` })
+      .returning();
+
+    if (timer) setImmediate(() => this.work());
+    if (job) return job;
+
+    const [existing] = await db
+      .select()
+      .from(jobs)
+      .where(and(eq(jobs.idempotencyKey, options.idempotencyKey!), eq(jobs.status, 'pending')));
+    return existing;
+  }
+
+  // Drop a queued job that a newer one makes pointless (e.g. an upsert for an event being deleted)
+  static async cancel(idempotencyKey: string): Promise<number> {
+    const result = await pool.query(
+      `DELETE FROM jobs WHERE idempotency_key = $1 AND status = 'pending'`,
+      [idempotencyKey]
+    );
+    return result.rowCount ?? 0;
+  }
+
+  // 30s, 1m, 2m, 4m… capped at an hour, with ±25% jitter so failed bursts don't retry in lockstep
+  static backoffMs(attempts: number): number {
+    const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempts - 1));
+    return Math.round(delay * (0.75 + Math.random() * 0.5));
+  }
+
+  static async recoverStale(): Promise<number> {
+    const stale = await pool.query(
+      `SELECT id, locked_by, attempts, max_attempts FROM jobs WHERE status = 'running' AND locked_at < $1`,
+      [new Date(Date.now() - STALE_LOCK_MS)]
+    );
+    // One at a time, so a job whose key was queued again meanwhile can't fail the others
+    for (const row of stale.rows) {
+      await this.release(row.id, row.locked_by, {
+        dead: row.attempts >= row.max_attempts,
+        message: 'Worker stopped before the job finished',
+        runAt: new Date(),
+      });
+    }
+    return stale.rows.length;
+  }
+
+  // Unlocks a failed job: dead, back to pending, or superseded when a newer job with the same
+  // idempotency key is already pending (only one may be, see idx_jobs_idempotency_pending)
+  private static async release(id: string, lockedBy: string, outcome: { dead: boolean; message: string; runAt: Date }): Promise<string> {
+    const update = (status: string, result: string | null) => pool.query(
+      `UPDATE jobs SET status = $3, last_error = $4, result = COALESCE($5, result), run_at = $6, locked_at = NULL, locked_by = NULL, updated_at = NOW()
+       WHERE id = $1 AND status = 'running' AND locked_by = $2`,
+      [id, lockedBy, status, outcome.message, result, outcome.runAt]
+    );
+
+    if (outcome.dead) {
+      await update('dead', null);
+      return 'dead';
+    }
+    try {
+      await update('pending', null);
+      return 'pending';
+    } catch (error: any) {
+      if (error?.code !== '23505') throw error;
+      await update('superseded', 'A newer job with the same key was queued while this one ran');
+      return 'superseded';
+    }
+  }
+
+  // SKIP LOCKED lets several server processes share the queue without double-running a job
+  private static async claim(limit: number): Promise<Job[]> {
+    const claimed = await pool.query(
+      `UPDATE jobs
+       SET status = 'running', attempts = attempts + 1, locked_at = NOW(), locked_by = $2, updated_at = NOW()
+       WHERE id IN (
+         SELECT id FROM jobs
+         WHERE status = 'pending' AND run_at <= NOW()
+         ORDER BY run_at
+         LIMIT $1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING id`,
+      [limit, WORKER_ID]
+    );
+    if (claimed.rows.length === 0) return [];
+    const rows = await db.select().from(jobs).where(inArray(jobs.id, claimed.rows.map(row => row.id)));
+    return rows.sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+  }
+
+  private static async runJob(job: Job): Promise<void> {
+    const handler = handlers.get(job.type);
+    try {
+      if (!handler) {
+        throw new PermanentJobError(`No handler registered for job type "${job.type}"`);
+      }
+      const note = await handler(job.payload, job);
+      await pool.query(
+        `UPDATE jobs SET status = 'succeeded', result = $2, completed_at = NOW(), locked_at = NULL, locked_by = NULL, updated_at = NOW()
+         WHERE id = $1 AND locked_by = $3`,
+        [job.id, note || null, WORKER_ID]
+      );
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const dead = error instanceof PermanentJobError || job.attempts >= job.maxAttempts;
+      const status = await this.release(job.id, WORKER_ID, {
+        dead,
+        message,
+        runAt: new Date(Date.now() + (dead ? 0 : this.backoffMs(job.attempts))),
+      });
+      const note = status === 'dead' ? ', dead-lettered' : status === 'superseded' ? ', superseded by a newer job' : '';
+      console.error(`Job ${job.type} ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}${note}):`, message);
+    }
+  }
+
+  // Work through everything that is due; overlapping ticks are skipped
+  static async work(): Promise<number> {
+    if (working) return 0;
+    working = true;
+    let processed = 0;
+    try {
+      await this.recoverStale();
+      for (let batch = await this.claim(BATCH_SIZE); batch.length > 0; batch = await this.claim(BATCH_SIZE)) {
+        for (const job of batch) {
+          await this.runJob(job);
+          processed++;
+        }
+      }
+    } catch (error) {
+      console.error('Job queue worker error:', error);
+    } finally {
+      working = false;
+    }
+    return processed;
+  }
+
+  static start(): void {
+    if (timer) return;
+    timer = setInterval(() => this.work(), POLL_INTERVAL_MS);
+    this.work();
+    console.log(`Job queue worker ${WORKER_ID} polling every ${POLL_INTERVAL_MS}ms`);
+  }
+
+  static stop(): void {
+    if (timer) clearInterval(timer);
+    timer = null;
+  }
+
+  // Manual retry from the admin page: back to pending with a fresh attempt budget
+  static async retry(id: string): Promise<JobResult> {
+    const job = await db.select().from(jobs).where(eq(jobs.id, id)).then(rows => rows[0]);
+    if (!job) {
+      return { ok: false, notFound: true, error: 'Job not found' };
+    }
+    if (job.status === 'running') {
+      return { ok: false, conflict: true, error: 'Job is running right now' };
+    }
+
+    try {
+      const [updated] = await db
+        .update(jobs)
+        .set({ status: 'pending', attempts: 0, runAt: new Date(), completedAt: null, updatedAt: new Date() })
+        .where(and(eq(jobs.id, id), sql`status <> 'running'`))
+        .returning();
+      if (!updated) {
+        return { ok: false, conflict: true, error: 'Job is running right now' };
+      }
+      if (timer) setImmediate(() => this.work());
+      return { ok: true, job: updated };
+    } catch (error: any) {
+      if (error?.code === '23505') {
+        return { ok: false, conflict: true, error: 'An identical job is already queued' };
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,241 @@
+import { storage } from '../storage';
+import { pool } from '../db';
+import type { StoredFile } from './FileStorageService';
+import { AccessService } from './AccessService';
+import { isStaffRole } from '@shared/permissions';
+import type { Message, MessageMention, MessageRevision, Project, User } from '@shared/schema';
+
+interface MessageResult<T> {
+  ok: boolean;
+  value?: T;
+  error?: string;
+  notFound?: boolean;
+  forbidden?: boolean;
+}
+
+export interface MessageAttachmentUpload extends StoredFile {
+  fileName: string;
+  fileSize: number;
+  fileType: string;
+}
+
+export interface Mentionable {
+  type: MessageMention['type'];
+  id: string;
+  name: string;
+}
+
+// People mentioned who have no login get an email instead of an in-app notification
+export interface MentionEmail {
+  email: string;
+  name: string;
+}
+
+// Client dashboard section with the project conversation
+export const UPDATES_LINK = '/?section=updates';
+
+const displayName = (user: Pick<User, 'firstName' | 'lastName' | 'email'>) =>
+  [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || 'Someone';
+
+const excerptOf = (content: string) => (content.length > 200 ? `${content.slice(0, 197)}...` : content);
+
+// Project conversations: threads, mentions, attachments, edit/delete history and per-user read state
+export class MessageService {
+  static async list(projectId: string): Promise<any[]> {
+    const result = await pool.query(`
+      SELECT
+        m.id, m.project_id AS "projectId", m.sender_id AS "senderId", m.parent_id AS "parentId",
+        CASE WHEN m.deleted_at IS NULL THEN m.content ELSE '' END AS content,
+        m.message_type AS "messageType", m.mentions, m.edited_at AS "editedAt",
+        m.deleted_at AS "deletedAt", m.created_at AS "createdAt",
+        json_build_object(
+          'id', s.id, 'firstName', s.first_name, 'lastName', s.last_name,
+          'email', s.email, 'role', s.role, 'profileImageUrl', s.profile_image_url
+        ) AS sender,
+        CASE WHEN m.deleted_at IS NULL THEN COALESCE((
+          SELECT json_agg(json_build_object('id', f.id, 'fileName', f.file_name, 'fileType', f.file_type, 'fileSize', f.file_size) ORDER BY f.created_at)
+          FROM project_files f WHERE f.message_id = m.id
+        ), '[]') ELSE '[]' END AS attachments,
+        COALESCE((
+          SELECT json_agg(json_build_object(
+            'userId', r.user_id,
+            'name', COALESCE(NULLIF(TRIM(CONCAT(u.first_name, ' ', u.last_name)), ''), u.email),
+            'readAt', r.read_at
+          ) ORDER BY r.read_at)
+          FROM message_reads r JOIN users u ON u.id = r.user_id
+          WHERE r.message_id = m.id AND r.user_id <> m.sender_id
+        ), '[]') AS "readBy"
+      FROM messages m
+      JOIN users s ON s.id = m.sender_id
+      WHERE m.project_id = $1
+      ORDER BY m.created_at
+      LIMIT 1000
+    `, [projectId]);
+    return result.rows;
+  }
+
+  // Active team members plus the project's client, its members and the organization's contacts
+  static async mentionable(project: Project): Promise<Mentionable[]> {
+    const result = await pool.query(`
+      SELECT 'team_member' AS type, id, name FROM team_members WHERE is_active IS NOT FALSE
+      UNION ALL
+      SELECT 'user' AS type, id, COALESCE(NULLIF(TRIM(CONCAT(first_name, ' ', last_name)), ''), email) AS name
+      FROM users
+      WHERE id = $1
+        OR ($2::varchar IS NOT NULL AND organization_id = $2)
+        OR id IN (SELECT user_id FROM project_members WHERE project_id = $3)
+      ORDER BY name
+    `, [project.clientId, project.organizationId, project.id]);
+    return result.rows;
+  }
+
+  static async post(
+    sender: User,
+    project: Project,
+    input: { content: string; parentId?: string | null; mentions: { type: MessageMention['type']; id: string }[] },
+    attachments: MessageAttachmentUpload[]
+  ): Promise<MessageResult<{ message: Message; mentionEmails: MentionEmail[] }>> {
+    let parentId: string | null = null;
+    if (input.parentId) {
+      const parent = await storage.getMessage(input.parentId);
+      if (!parent || parent.projectId !== project.id) {
+        return { ok: false, notFound: true, error: 'Message thread not found' };
+      }
+      // Threads stay one level deep; replying to a reply joins the same thread
+      parentId = parent.parentId || parent.id;
+    }
+
+    // Only people who belong on this project can be mentioned, whatever the client sent
+    const allowed = await this.mentionable(project);
+    const mentions = input.mentions
+      .map(requested => allowed.find(person => person.type === requested.type && person.id === requested.id))
+      .filter((person, index, list): person is Mentionable => !!person && list.indexOf(person) === index);
+
+    const message = await storage.createMessage({
+      projectId: project.id,
+      senderId: sender.id,
+      content: input.content,
+      messageType: attachments.length > 0 ? 'file' : 'text',
+      parentId,
+      mentions,
+    });
+
+    for (const attachment of attachments) {
+      await storage.createProjectFile({
+        projectId: project.id,
+        fileName: attachment.fileName,
+        filePath: attachment.filePath,
+        storageDriver: attachment.storageDriver,
+        checksum: attachment.checksum,
+        fileSize: attachment.fileSize,
+        fileType: attachment.fileType,
+        category: 'attachment',
+        uploadedBy: sender.id,
+        messageId: message.id,
+      });
+    }
+
+    await this.markRead(sender.id, project.id);
+    const mentionEmails = await this.notifyMentions(sender, project, message, mentions);
+    return { ok: true, value: { message, mentionEmails } };
+  }
+
+  private static async notifyMentions(sender: User, project: Project, message: Message, mentions: Mentionable[]): Promise<MentionEmail[]> {
+    const emails: MentionEmail[] = [];
+    const notified = new Set<string>([sender.id]);
+
+    for (const mention of mentions) {
+      let recipient: User | undefined;
+      if (mention.type === 'user') {
+        recipient = await storage.getUser(mention.id);
+      } else {
+        const member = await storage.getTeamMember(mention.id);
+        recipient = member ? await storage.getUserByEmail(member.email) : undefined;
+        if (!recipient && member) {
+          emails.push({ email: member.email, name: member.name });
+          continue;
+        }
+      }
+      if (!recipient || notified.has(recipient.id)) continue;
+      notified.add(recipient.id);
+
+      await storage.createNotification({
+        userId: recipient.id,
+        type: 'message_mention',
+        title: `${displayName(sender)} mentioned you in ${project.name}`,
+        body: excerptOf(message.content),
+        link: isStaffRole(recipient.role) ? null : UPDATES_LINK,
+        entityType: 'message',
+        entityId: message.id,
+      });
+    }
+    return emails;
+  }
+
+  // Only the sender can reword a message; the previous wording is kept
+  static async edit(user: User, message: Message, content: string): Promise<MessageResult<Message>> {
+    if (message.senderId !== user.id) {
+      return { ok: false, forbidden: true, error: 'Only the sender can edit a message' };
+    }
+    if (message.deletedAt) {
+      return { ok: false, error: 'Deleted messages cannot be edited' };
+    }
+    if (message.content === content) {
+      return { ok: true, value: message };
+    }
+
+    await storage.createMessageRevision({ messageId: message.id, content: message.content, action: 'edited', changedBy: user.id });
+    const updated = await storage.updateMessage(message.id, { content, editedAt: new Date() });
+    return { ok: true, value: updated };
+  }
+
+  // Deleting hides the message but keeps its wording in the history, so threads and audits still make sense
+  static async remove(user: User, message: Message): Promise<MessageResult<Message>> {
+    if (message.senderId !== user.id && !AccessService.can(user, 'messages.moderate')) {
+      return { ok: false, forbidden: true, error: 'Only the sender can delete a message' };
+    }
+    if (message.deletedAt) {
+      return { ok: true, value: message };
+    }
+
+    await storage.createMessageRevision({ messageId: message.id, content: message.content, action: 'deleted', changedBy: user.id });
+    const deleted = await storage.updateMessage(message.id, { deletedAt: new Date(), deletedBy: user.id });
+    return { ok: true, value: deleted };
+  }
+
+  static async history(message: Message): Promise<MessageRevision[]> {
+    return storage.getMessageRevisions(message.id);
+  }
+
+  static async markRead(userId: string, projectId: string): Promise<number> {
+    const result = await pool.query(`
+      INSERT INTO message_reads (message_id, user_id)
+      SELECT id, $2 FROM messages WHERE project_id = $1 AND deleted_at IS NULL
+      ON CONFLICT (message_id, user_id) DO NOTHING
+    `, [projectId, userId]);
+    return result.rowCount ?? 0;
+  }
+
+  // Unread messages per project the user can see, for sidebar badges
+  static async unreadCounts(user: User): Promise<{ total: number; projects: { projectId: string; unread: number }[] }> {
+    const result = await pool.query(`
+      SELECT m.project_id AS "projectId", COUNT(*)::int AS unread
+      FROM messages m
+      JOIN projects p ON p.id = m.project_id
+      LEFT JOIN message_reads r ON r.message_id = m.id AND r.user_id = $1
+      WHERE r.id IS NULL
+        AND m.sender_id <> $1
+        AND m.deleted_at IS NULL
+        AND p.deleted_at IS NULL
+        AND (
+          $2::boolean
+          OR p.client_id = $1
+          OR ($3::varchar IS NOT NULL AND p.organization_id = $3)
+          OR EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = p.id AND pm.user_id = $1)
+        )
+      GROUP BY m.project_id
+    `, [user.id, AccessService.can(user, 'projects.view_all'), isStaffRole(user.role) ? null : user.organizationId]);
+    const projects = result.rows;
+    return { total: projects.reduce((sum, row) => sum + row.unread, 0), projects };
+  }
+}
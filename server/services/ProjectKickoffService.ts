@@ -0,0 +1,213 @@
+import { DateTime } from 'luxon';
+import { storage } from '../storage';
+import { onTaskCreatedOrUpdated } from '../hooks/taskCalendarHooks';
+import { CalendarService } from './CalendarService';
+import { topologicalSort } from '@shared/taskGraph';
+import { DEFAULT_TIMEZONE } from '@shared/timezone';
+import type { Task, TaskTemplate, TeamMember } from '@shared/schema';
+
+// Kickoff schedules are laid out in the agency's working days
+const ZONE = DEFAULT_TIMEZONE;
+const HOURS_PER_DAY = 8;
+const DEFAULT_DUE_TIME = '17:00';
+
+export interface KickoffScheduleItem {
+  templateId: string;
+  title: string;
+  description: string | null;
+  taskType: string | null;
+  priority: string | null;
+  estimatedHours: number | null;
+  clientVisible: boolean | null;
+  assigneeRole: string | null;
+  dependsOnTemplateIds: string[];
+  startDate: string; // YYYY-MM-DD
+  dueDate: string;   // YYYY-MM-DD
+  dueTime: string;   // HH:mm
+  dueAt: string;     // UTC ISO
+  assignees: { id: string; name: string; email: string; role: string }[];
+}
+
+export interface KickoffSchedule {
+  serviceId: string;
+  startDate: string;
+  finishDate: string | null;
+  items: KickoffScheduleItem[];
+  unassignedRoles: string[];
+}
+
+export interface KickoffResult {
+  tasks: Task[];
+  assignmentCount: number;
+  schedule: KickoffSchedule;
+}
+
+// Turns a service's task templates into a scheduled, assigned set of project tasks
+export class ProjectKickoffService {
+  private static isWeekend(day: DateTime): boolean {
+    return day.weekday === 6 || day.weekday === 7;
+  }
+
+  // Roll forward to Monday when a date lands on a weekend
+  private static toWorkingDay(day: DateTime): DateTime {
+    let result = day;
+    while (this.isWeekend(result)) {
+      result = result.plus({ days: 1 });
+    }
+    return result;
+  }
+
+  // Add working days, skipping Saturdays and Sundays
+  private static addWorkingDays(day: DateTime, count: number): DateTime {
+    let result = this.toWorkingDay(day);
+    for (let added = 0; added < count; ) {
+      result = result.plus({ days: 1 });
+      if (!this.isWeekend(result)) added++;
+    }
+    return result;
+  }
+
+  // A template occupies at least one working day; longer work spills over full 8h days
+  private static durationInDays(template: TaskTemplate): number {
+    return Math.max(1, Math.ceil((template.estimatedHours || 0) / HOURS_PER_DAY));
+  }
+
+  static parseStartDate(startDate?: string | Date | null): DateTime | null {
+    if (!startDate) {
+      return DateTime.now().setZone(ZONE).startOf('day');
+    }
+    const parsed = startDate instanceof Date
+      ? DateTime.fromJSDate(startDate, { zone: ZONE })
+      : DateTime.fromISO(startDate, { zone: ZONE });
+    return parsed.isValid ? parsed.startOf('day') : null;
+  }
+
+  // Build the schedule without writing anything (used by the preview endpoint and by kickoff itself)
+  static async buildSchedule(serviceId: string, startDate: DateTime): Promise<KickoffSchedule> {
+    const templates: TaskTemplate[] = await storage.getTaskTemplatesForService(serviceId);
+    const templateIds = new Set(templates.map(template => template.id));
+
+    // Stable order: the admin-defined template order, then the topological constraint
+    const ordered = topologicalSort(
+      templates.map(template => ({
+        ...template,
+        dependencies: template.dependsOnTemplateId && templateIds.has(template.dependsOnTemplateId)
+          ? [template.dependsOnTemplateId]
+          : [],
+      }))
+    );
+
+    const activeMembers: TeamMember[] = await storage.getAllTeamMembers();
+    const membersByRole = new Map<string, TeamMember[]>();
+    for (const member of activeMembers) {
+      membersByRole.set(member.role, [...(membersByRole.get(member.role) || []), member]);
+    }
+
+    const projectStart = this.toWorkingDay(startDate);
+    const finishByTemplate = new Map<string, DateTime>();
+    const unassignedRoles = new Set<string>();
+    const items: KickoffScheduleItem[] = [];
+
+    for (const template of ordered) {
+      // Earliest start from the template's own offset, pushed back until every predecessor has finished
+      let start = this.toWorkingDay(startDate.plus({ days: template.dayOffset || 0 }));
+      for (const dependencyId of template.dependencies) {
+        const predecessorFinish = finishByTemplate.get(dependencyId)!;
+        const nextDay = this.addWorkingDays(predecessorFinish, 1);
+        if (nextDay > start) start = nextDay;
+      }
+      if (start < projectStart) start = projectStart;
+
+      const due = this.addWorkingDays(start, this.durationInDays(template) - 1);
+      finishByTemplate.set(template.id, due);
+
+      const assignees = template.assigneeRole ? membersByRole.get(template.assigneeRole) || [] : [];
+      if (template.assigneeRole && assignees.length === 0) {
+        unassignedRoles.add(template.assigneeRole);
+      }
+
+      const dueDate = due.toISODate()!;
+      items.push({
+        templateId: template.id,
+        title: template.title,
+        description: template.description,
+        taskType: template.taskType,
+        priority: template.priority,
+        estimatedHours: template.estimatedHours,
+        clientVisible: template.clientVisible,
+        assigneeRole: template.assigneeRole,
+        dependsOnTemplateIds: template.dependencies,
+        startDate: start.toISODate()!,
+        dueDate,
+        dueTime: DEFAULT_DUE_TIME,
+        dueAt: CalendarService.computeDueAt(dueDate, DEFAULT_DUE_TIME),
+        assignees: assignees.map(({ id, name, email, role }) => ({ id, name, email, role })),
+      });
+    }
+
+    const finishDates = items.map(item => item.dueDate).sort();
+    return {
+      serviceId,
+      startDate: startDate.toISODate()!,
+      finishDate: finishDates.length > 0 ? finishDates[finishDates.length - 1] : null,
+      items,
+      unassignedRoles: Array.from(unassignedRoles),
+    };
+  }
+
+  // Create the tasks, dependency links and assignments, then sync calendars
+  static async kickoff(
+    projectId: string,
+    serviceId: string,
+    startDate: DateTime,
+    assignedBy: string
+  ): Promise<KickoffResult> {
+    const schedule = await this.buildSchedule(serviceId, startDate);
+    const taskIdByTemplate = new Map<string, string>();
+    const created: Task[] = [];
+    let assignmentCount = 0;
+
+    // Items are in topological order, so predecessor task IDs are always known here
+    for (const item of schedule.items) {
+      const task = await storage.createTask({
+        projectId,
+        serviceId,
+        title: item.title,
+        description: item.description,
+        status: 'in_progress',
+        priority: item.priority,
+        taskType: item.taskType,
+        estimatedHours: item.estimatedHours,
+        clientVisible: item.clientVisible,
+        assigneeRole: item.assigneeRole,
+        dueDate: item.dueDate,
+        dueTime: item.dueTime,
+        dueAt: item.dueAt,
+        dependencies: item.dependsOnTemplateIds.map(templateId => taskIdByTemplate.get(templateId)!),
+      });
+      taskIdByTemplate.set(item.templateId, task.id);
+      created.push(task);
+
+      for (const assignee of item.assignees) {
+        await storage.createTaskAssignment({
+          taskId: task.id,
+          teamMemberId: assignee.id,
+          assignedBy,
+        });
+        assignmentCount++;
+      }
+    }
+
+    // Calendar sync runs after assignments exist so every assignee gets an event
+    for (const task of created) {
+      try {
+        await onTaskCreatedOrUpdated(task.id);
+      } catch (calendarError) {
+        console.warn(`Kickoff calendar sync failed for task ${task.id}:`, calendarError);
+      }
+    }
+
+    console.log(`Kickoff created ${created.length} tasks and ${assignmentCount} assignments for project ${projectId}`);
+    return { tasks: created, assignmentCount, schedule };
+  }
+}
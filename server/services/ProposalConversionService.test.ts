@@ -0,0 +1,47 @@
+import '../test/env';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { ProposalConversionService } from './ProposalConversionService';
+import type { Proposal, ProposalItem } from '@shared/schema';
+
+const proposal = { id: 'pr1', title: 'Rebrand', clientId: 'client-1', organizationId: 'org-1', status: 'approved' } as Proposal;
+const item = (id: string, amount: string) =>
+  ({ id, proposalId: 'pr1', title: `Item ${id}`, amount, isApproved: true, phase: null, itemOrder: 0, serviceId: null, timeline: null }) as ProposalItem;
+const items = [item('i1', '1000.00'), item('i2', '2500.00'), item('i3', '400.00')];
+
+let updateProject: ReturnType<typeof mock.method>;
+
+beforeEach(() => {
+  mock.method(storage, 'getProposalItems', async () => items);
+  mock.method(storage, 'getProposalProjects', async () => []);
+  mock.method(storage, 'createProject', async (data: any) => ({ id: 'proj-1', ...data }));
+  mock.method(storage, 'updateProposal', async () => ({}));
+  mock.method(storage, 'getProject', async (id: string) => ({ id }));
+  updateProject = mock.method(storage, 'updateProject', async (id: string, updates: any) => ({ id, ...updates }));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('ProposalConversionService.convert', () => {
+  test('budgets the project from every item it claimed', async () => {
+    mock.method(storage, 'createProposalProjects', async (links: any[]) => links.map(link => ({ id: `link-${link.proposalItemId}`, ...link })));
+
+    const result = await ProposalConversionService.convert(proposal, { grouping: 'single' }, 'admin-1');
+
+    assert.equal(result.ok, true);
+    assert.equal(result.created[0].budget, '3900.00');
+    assert.equal(updateProject.mock.callCount(), 0);
+  });
+
+  test('leaves out the amounts of items another server claimed first', async () => {
+    // i2 was linked to another project between planning and claiming
+    mock.method(storage, 'createProposalProjects', async (links: any[]) =>
+      links.filter(link => link.proposalItemId !== 'i2').map(link => ({ id: `link-${link.proposalItemId}`, ...link })));
+
+    const result = await ProposalConversionService.convert(proposal, { grouping: 'single' }, 'admin-1');
+
+    assert.equal(result.created[0].budget, '1400.00');
+    assert.deepEqual(updateProject.mock.calls[0].arguments, ['proj-1', { budget: '1400.00' }]);
+  });
+});
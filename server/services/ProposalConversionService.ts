@@ -0,0 +1,238 @@
+import { DateTime } from 'luxon';
+import { storage } from '../storage';
+import { ProjectKickoffService } from './ProjectKickoffService';
+import { DEFAULT_TIMEZONE } from '@shared/timezone';
+import type { InsertProject, Project, Proposal, ProposalItem, ProposalProject } from '@shared/schema';
+
+const ZONE = DEFAULT_TIMEZONE;
+
+const itemsBudget = (items: ProposalItem[]) => items.reduce((sum, item) => sum + Number(item.amount), 0).toFixed(2);
+
+export type ProposalGrouping = 'phase' | 'single' | 'item';
+
+export interface TimelineEstimate {
+  amount: number;
+  unit: 'days' | 'weeks' | 'months';
+  workingDays: boolean;
+}
+
+interface ProjectGroup {
+  name: string;
+  phase: number | null;
+  items: ProposalItem[];
+  start: DateTime;
+  completion: DateTime | null;
+}
+
+export interface ConversionResult {
+  ok: boolean;
+  error?: string;
+  conflict?: boolean;
+  created: Project[];   // projects made by this call
+  projects: Project[];  // every project linked to the proposal
+  links: ProposalProject[];
+  alreadyConverted: boolean;
+}
+
+// Proposals currently being converted by this process; a second request waits its turn with a 409
+const inProgress = new Set<string>();
+
+// Turns approved proposal items into projects (grouped by phase, all-in-one, or one per item) with their service's template tasks
+export class ProposalConversionService {
+  // "2-3 weeks", "10 business days", "1 month" → the upper bound of the range; null when no duration is stated
+  static parseTimeline(timeline: string | null | undefined): TimelineEstimate | null {
+    if (!timeline) return null;
+    const match = timeline
+      .toLowerCase()
+      .match(/(\d+(?:\.\d+)?)(?:\s*(?:-|–|—|to)\s*(\d+(?:\.\d+)?))?\s*(business\s+days?|working\s+days?|days?|weeks?|wks?|months?|mos?)\b/);
+    if (!match) return null;
+
+    const amount = Number(match[2] ?? match[1]);
+    if (!isFinite(amount) || amount <= 0) return null;
+
+    const unitText = match[3];
+    const unit = unitText.startsWith('w') && !unitText.startsWith('working') ? 'weeks' : unitText.startsWith('mo') ? 'months' : 'days';
+    return { amount, unit, workingDays: /^(business|working)/.test(unitText) };
+  }
+
+  static addTimeline(start: DateTime, estimate: TimelineEstimate): DateTime {
+    if (!estimate.workingDays) {
+      // Fractional weeks/months ("1.5 months") are rounded to whole days
+      const days = estimate.unit === 'days' ? estimate.amount : estimate.unit === 'weeks' ? estimate.amount * 7 : estimate.amount * 30;
+      return estimate.unit === 'months' && Number.isInteger(estimate.amount)
+        ? start.plus({ months: estimate.amount })
+        : start.plus({ days: Math.ceil(days) });
+    }
+
+    let result = start;
+    for (let added = 0; added < Math.ceil(estimate.amount); ) {
+      result = result.plus({ days: 1 });
+      if (result.weekday < 6) added++;
+    }
+    return result;
+  }
+
+  // Longest timeline among items worked side by side
+  private static groupCompletion(items: ProposalItem[], start: DateTime): DateTime | null {
+    let latest: DateTime | null = null;
+    for (const item of items) {
+      const estimate = this.parseTimeline(item.timeline);
+      if (!estimate) continue;
+      const end = this.addTimeline(start, estimate);
+      if (!latest || end > latest) latest = end;
+    }
+    return latest;
+  }
+
+  // Phases run one after another; items without a phase start with the first phase and don't hold later ones back
+  static planGroups(proposal: Proposal, items: ProposalItem[], grouping: ProposalGrouping, startDate: DateTime): ProjectGroup[] {
+    const phaseOrder = (item: ProposalItem) => item.phase ?? Number.MAX_SAFE_INTEGER;
+    const sorted = [...items].sort((a, b) => phaseOrder(a) - phaseOrder(b) || (a.itemOrder ?? 0) - (b.itemOrder ?? 0));
+
+    const phases = new Map<number | null, ProposalItem[]>();
+    for (const item of sorted) {
+      phases.set(item.phase ?? null, [...(phases.get(item.phase ?? null) || []), item]);
+    }
+
+    const phaseStart = new Map<number | null, DateTime>();
+    const phaseEnd = new Map<number | null, DateTime | null>();
+    let cursor = startDate;
+    for (const [phase, phaseItems] of Array.from(phases.entries())) {
+      const start = phase === null ? startDate : cursor;
+      const end = this.groupCompletion(phaseItems, start);
+      phaseStart.set(phase, start);
+      phaseEnd.set(phase, end);
+      if (phase !== null && end) cursor = end;
+    }
+
+    if (grouping === 'single') {
+      const ends = Array.from(phaseEnd.values()).filter((end): end is DateTime => !!end);
+      return [{
+        name: proposal.title,
+        phase: null,
+        items: sorted,
+        start: startDate,
+        completion: ends.length > 0 ? DateTime.max(...ends) ?? null : null,
+      }];
+    }
+
+    if (grouping === 'item') {
+      return sorted.map(item => {
+        const start = phaseStart.get(item.phase ?? null)!;
+        return { name: item.title, phase: item.phase ?? null, items: [item], start, completion: this.groupCompletion([item], start) };
+      });
+    }
+
+    return Array.from(phases.entries()).map(([phase, phaseItems]) => ({
+      name: phaseItems.length === 1
+        ? phaseItems[0].title
+        : phase === null ? proposal.title : `${proposal.title} – Phase ${phase}`,
+      phase,
+      items: phaseItems,
+      start: phaseStart.get(phase)!,
+      completion: phaseEnd.get(phase) ?? null,
+    }));
+  }
+
+  static async convert(
+    proposal: Proposal,
+    options: { grouping: ProposalGrouping; startDate?: string },
+    userId: string
+  ): Promise<ConversionResult> {
+    const empty = { created: [], projects: [], links: [], alreadyConverted: false };
+    const startDate = ProjectKickoffService.parseStartDate(options.startDate);
+    if (!startDate) {
+      return { ok: false, error: 'Invalid start date', ...empty };
+    }
+    if (inProgress.has(proposal.id)) {
+      return { ok: false, error: 'This proposal is already being converted', conflict: true, ...empty };
+    }
+
+    inProgress.add(proposal.id);
+    try {
+      const items = (await storage.getProposalItems(proposal.id)).filter(item => item.isApproved);
+      if (items.length === 0) {
+        return { ok: false, error: 'No approved items to convert', ...empty };
+      }
+
+      // Items already linked to a project were converted by an earlier call
+      const existingLinks = await storage.getProposalProjects(proposal.id);
+      const convertedItemIds = new Set(existingLinks.map(link => link.proposalItemId));
+      const pending = items.filter(item => !convertedItemIds.has(item.id));
+
+      const created: Project[] = [];
+      const links: ProposalProject[] = [...existingLinks];
+
+      for (const group of this.planGroups(proposal, pending, options.grouping, startDate)) {
+        const serviceIds = Array.from(new Set(group.items.map(item => item.serviceId).filter((id): id is string => !!id)));
+
+        const project = await storage.createProject({
+          name: group.name,
+          description: group.items.length === 1
+            ? group.items[0].description || ''
+            : group.items.map(item => `• ${item.title}${item.timeline ? ` (${item.timeline})` : ''}`).join('\n'),
+          clientId: proposal.clientId,
+          organizationId: proposal.organizationId,
+          serviceId: serviceIds.length === 1 ? serviceIds[0] : null,
+          budget: itemsBudget(group.items),
+          status: 'active',
+          progress: 0,
+          startDate: group.start.toJSDate(),
+          expectedCompletion: group.completion ? group.completion.toJSDate() : null,
+        });
+
+        // Claim the items before generating tasks; losing the claim means another server converted them first
+        const claimed = await storage.createProposalProjects(group.items.map(item => ({
+          proposalId: proposal.id,
+          proposalItemId: item.id,
+          projectId: project.id,
+          phase: item.phase ?? null,
+          createdBy: userId,
+        })));
+        if (claimed.length === 0) {
+          await storage.softDeleteProject(project.id, userId);
+          continue;
+        }
+        links.push(...claimed);
+
+        const updates: Partial<InsertProject> = {};
+        const claimedIds = new Set(claimed.map(link => link.proposalItemId));
+        // Items claimed by another server belong to its project, and so does their amount
+        if (claimed.length < group.items.length) {
+          updates.budget = itemsBudget(group.items.filter(item => claimedIds.has(item.id)));
+        }
+
+        let finish = group.completion;
+        for (const serviceId of serviceIds) {
+          if (!group.items.some(item => item.serviceId === serviceId && claimedIds.has(item.id))) continue;
+          const { schedule } = await ProjectKickoffService.kickoff(project.id, serviceId, group.start, userId);
+          if (schedule.finishDate) {
+            const scheduleFinish = DateTime.fromISO(schedule.finishDate, { zone: ZONE });
+            if (!finish || scheduleFinish > finish) finish = scheduleFinish;
+          }
+        }
+
+        // Template schedules can run past the quoted timeline; the later date wins
+        if (finish && finish !== group.completion) {
+          updates.expectedCompletion = finish.toJSDate();
+        }
+        created.push(Object.keys(updates).length > 0 ? await storage.updateProject(project.id, updates) : project);
+      }
+
+      if (created.length > 0 || proposal.status !== 'converted') {
+        await storage.updateProposal(proposal.id, {
+          status: 'converted',
+          convertedToProjectsAt: new Date(),
+        });
+      }
+
+      const projectIds = Array.from(new Set(links.map(link => link.projectId)));
+      const projects = (await Promise.all(projectIds.map(id => storage.getProject(id))))
+        .filter((project): project is Project => !!project);
+
+      return { ok: true, created, projects, links, alreadyConverted: pending.length === 0 };
+    } finally {
+      inProgress.delete(proposal.id);
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import '../test/env';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pool } from '../db';
+import { storage } from '../storage';
+import { ProposalPortalService } from './ProposalPortalService';
+import type { Proposal, ProposalItem, ProposalLink } from '@shared/schema';
+
+const proposal = { id: 'prop-1', proposalNumber: 'P-1', title: 'Brand refresh', totalAmount: '3000', status: 'sent' } as Proposal;
+const items = [
+  { id: 'item-1', proposalId: 'prop-1', title: 'Logo', amount: '1000', phase: 1 },
+  { id: 'item-2', proposalId: 'prop-1', title: 'Website', amount: '2000', phase: 2 },
+] as ProposalItem[];
+const link = { id: 'link-1', proposalId: 'prop-1', token: 'tok', contactEmail: 'client@example.com' } as ProposalLink;
+
+// A pooled client that records every statement; `fail` makes the matching statement throw
+const fakeClient = (options: { claimed?: number; fail?: RegExp } = {}) => {
+  const statements: string[] = [];
+  const client = {
+    statements,
+    release: mock.fn(),
+    query: async (text: string) => {
+      statements.push(text.trim().split(/\s+/).slice(0, 2).join(' '));
+      if (options.fail?.test(text)) throw new Error('connection lost');
+      if (text.startsWith('UPDATE proposals')) return { rowCount: options.claimed ?? 1, rows: [] };
+      if (text.startsWith('INSERT')) return { rowCount: 1, rows: [{ id: 'sig-1', decision: 'partial' }] };
+      return { rowCount: 0, rows: [] };
+    },
+  };
+  mock.method(pool, 'connect', async () => client);
+  return client;
+};
+
+const sign = () => ProposalPortalService.sign('tok', {
+  approvedItemIds: ['item-1'],
+  signerName: 'Dana Client',
+  contentHash: ProposalPortalService.contentHash(proposal, items),
+}, { ipAddress: '203.0.113.9' });
+
+beforeEach(() => {
+  mock.method(pool, 'query', async () => ({ rowCount: 0, rows: [] }));
+  mock.method(storage, 'getProposalLinkByToken', async () => link);
+  mock.method(storage, 'getProposal', async () => proposal);
+  mock.method(storage, 'getProposalItems', async () => items);
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('ProposalPortalService.sign', () => {
+  test('claims, records the signature and marks the items in one transaction', async () => {
+    const client = fakeClient();
+    const result = await sign();
+
+    assert.equal(result.ok, true);
+    assert.equal(result.value!.id, 'sig-1');
+    assert.deepEqual(client.statements, ['BEGIN', 'UPDATE proposals', 'INSERT INTO', 'UPDATE proposal_items', 'COMMIT']);
+    assert.equal(client.release.mock.callCount(), 1);
+  });
+
+  test('rolls the claim back when the signature cannot be recorded', async () => {
+    const client = fakeClient({ fail: /^INSERT/ });
+
+    await assert.rejects(sign(), /connection lost/);
+    assert.deepEqual(client.statements, ['BEGIN', 'UPDATE proposals', 'INSERT INTO', 'ROLLBACK']);
+    assert.equal(client.release.mock.callCount(), 1);
+  });
+
+  test('rolls back when the items cannot be updated', async () => {
+    const client = fakeClient({ fail: /^UPDATE proposal_items/ });
+
+    await assert.rejects(sign());
+    assert.equal(client.statements.at(-1), 'ROLLBACK');
+    assert.ok(!client.statements.includes('COMMIT'));
+  });
+
+  test('a proposal someone else just signed is left alone', async () => {
+    const client = fakeClient({ claimed: 0 });
+    const result = await sign();
+
+    assert.deepEqual(result, { ok: false, error: 'This proposal has already been signed' });
+    assert.deepEqual(client.statements, ['BEGIN', 'UPDATE proposals', 'ROLLBACK']);
+    assert.equal(client.release.mock.callCount(), 1);
+  });
+
+  test('a stale content hash is rejected before anything is written', async () => {
+    const client = fakeClient();
+    const result = await ProposalPortalService.sign('tok', { approvedItemIds: [], signerName: 'Dana', contentHash: 'old' }, {});
+
+    assert.equal(result.ok, false);
+    assert.deepEqual(client.statements, []);
+  });
+});
@@ -0,0 +1,297 @@
+import { createHash, randomBytes } from 'crypto';
+import { storage } from '../storage';
+import { pool } from '../db';
+import type { Proposal, ProposalItem, ProposalLink, ProposalSignature } from '@shared/schema';
+
+// Once a client has decided, the proposal can no longer be signed through the portal
+export const DECIDED_PROPOSAL_STATUSES = ['approved', 'partially_approved', 'declined', 'converted'];
+
+const DECISION_STATUS: Record<ProposalDecision, string> = {
+  full: 'approved',
+  partial: 'partially_approved',
+  declined: 'declined',
+};
+
+export type ProposalDecision = 'full' | 'partial' | 'declined';
+
+interface PortalResult<T> {
+  ok: boolean;
+  value?: T;
+  error?: string;
+  notFound?: boolean;
+}
+
+export interface PortalProposalView {
+  proposal: {
+    id: string;
+    proposalNumber: string;
+    title: string;
+    description: string | null;
+    totalAmount: string;
+    status: string;
+    validUntil: Date | null;
+    terms: string | null;
+    approvalType: string | null;
+    approvedDate: Date | null;
+  };
+  items: {
+    id: string;
+    title: string;
+    description: string | null;
+    amount: string;
+    timeline: string | null;
+    phase: number | null;
+    isApproved: boolean | null;
+  }[];
+  contact: { name: string | null; email: string | null };
+  clientName: string | null;
+  organizationName: string | null;
+  contentHash: string;
+  expired: boolean;
+  canSign: boolean;
+  signature: Pick<ProposalSignature, 'signerName' | 'decision' | 'approvedItemIds' | 'approvedTotal' | 'comments' | 'signedAt'> | null;
+}
+
+export interface SignInput {
+  approvedItemIds: string[];
+  signerName: string;
+  signerEmail?: string | null;
+  comments?: string | null;
+  itemComments?: Record<string, string>;
+  contentHash: string;
+}
+
+const sortItems = (items: ProposalItem[]) =>
+  [...items].sort((a, b) => (a.phase ?? 0) - (b.phase ?? 0) || (a.itemOrder ?? 0) - (b.itemOrder ?? 0));
+
+// Tokenized, login-free proposal review and e-signature for client contacts
+export class ProposalPortalService {
+  // SHA-256 over everything the client is agreeing to; any edit after sharing changes the hash
+  static contentHash(proposal: Proposal, items: ProposalItem[]): string {
+    const content = {
+      proposalNumber: proposal.proposalNumber,
+      title: proposal.title,
+      description: proposal.description,
+      totalAmount: Number(proposal.totalAmount).toFixed(2),
+      validUntil: proposal.validUntil ? new Date(proposal.validUntil).toISOString() : null,
+      terms: proposal.terms,
+      items: sortItems(items).map(item => ({
+        id: item.id,
+        title: item.title,
+        description: item.description,
+        amount: Number(item.amount).toFixed(2),
+        timeline: item.timeline,
+        phase: item.phase,
+      })),
+    };
+    return createHash('sha256').update(JSON.stringify(content)).digest('hex');
+  }
+
+  static isExpired(proposal: Proposal, now: Date = new Date()): boolean {
+    return proposal.status === 'expired' || (!!proposal.validUntil && new Date(proposal.validUntil) < now && !DECIDED_PROPOSAL_STATUSES.includes(proposal.status));
+  }
+
+  // Undecided proposals past their validUntil date become expired
+  static async expireStale(): Promise<number> {
+    const result = await pool.query(`
+      UPDATE proposals SET status = 'expired', updated_at = NOW()
+      WHERE status IN ('draft', 'sent') AND valid_until < NOW() AND deleted_at IS NULL
+    `);
+    return result.rowCount ?? 0;
+  }
+
+  static async createLink(
+    proposal: Proposal,
+    contact: { contactName?: string | null; contactEmail?: string | null },
+    createdBy: string
+  ): Promise<PortalResult<ProposalLink>> {
+    if (proposal.deletedAt) {
+      return { ok: false, notFound: true, error: 'Proposal not found' };
+    }
+    if (this.isExpired(proposal)) {
+      return { ok: false, error: 'Proposal has expired; extend Valid Until before sharing it' };
+    }
+    if (DECIDED_PROPOSAL_STATUSES.includes(proposal.status)) {
+      return { ok: false, error: 'Proposal has already been decided' };
+    }
+    const items = await storage.getProposalItems(proposal.id);
+    if (items.length === 0) {
+      return { ok: false, error: 'Add items to the proposal before sharing it' };
+    }
+
+    const link = await storage.createProposalLink({
+      proposalId: proposal.id,
+      token: randomBytes(24).toString('hex'),
+      contactName: contact.contactName || null,
+      contactEmail: contact.contactEmail || null,
+      createdBy,
+    });
+    if (proposal.status === 'draft') {
+      await storage.updateProposal(proposal.id, { status: 'sent' });
+    }
+    return { ok: true, value: link };
+  }
+
+  private static async resolve(token: string): Promise<PortalResult<{ link: ProposalLink; proposal: Proposal }>> {
+    const link = await storage.getProposalLinkByToken(token);
+    if (!link || link.revokedAt) {
+      return { ok: false, notFound: true, error: 'This proposal link is invalid or has been revoked' };
+    }
+    const proposal = await storage.getProposal(link.proposalId);
+    if (!proposal || proposal.deletedAt) {
+      return { ok: false, notFound: true, error: 'This proposal is no longer available' };
+    }
+    return { ok: true, value: { link, proposal } };
+  }
+
+  static async getView(token: string): Promise<PortalResult<PortalProposalView>> {
+    await this.expireStale();
+    const resolved = await this.resolve(token);
+    if (!resolved.ok) return { ok: false, notFound: resolved.notFound, error: resolved.error };
+    const { link, proposal } = resolved.value!;
+
+    const [items, signatures, client, organization] = await Promise.all([
+      storage.getProposalItems(proposal.id),
+      storage.getProposalSignatures(proposal.id),
+      proposal.clientId ? storage.getUser(proposal.clientId) : undefined,
+      proposal.organizationId ? storage.getOrganization(proposal.organizationId) : undefined,
+    ]);
+    await storage.updateProposalLink(link.id, { lastViewedAt: new Date() });
+
+    const expired = this.isExpired(proposal);
+    const latest = signatures[0];
+    return {
+      ok: true,
+      value: {
+        proposal: {
+          id: proposal.id,
+          proposalNumber: proposal.proposalNumber,
+          title: proposal.title,
+          description: proposal.description,
+          totalAmount: proposal.totalAmount,
+          status: proposal.status,
+          validUntil: proposal.validUntil,
+          terms: proposal.terms,
+          approvalType: proposal.approvalType,
+          approvedDate: proposal.approvedDate,
+        },
+        // Internal item notes stay admin-only
+        items: sortItems(items).map(({ id, title, description, amount, timeline, phase, isApproved }) => ({
+          id, title, description, amount, timeline, phase, isApproved,
+        })),
+        contact: { name: link.contactName, email: link.contactEmail },
+        clientName: client ? [client.firstName, client.lastName].filter(Boolean).join(' ') || client.email : null,
+        organizationName: organization?.name ?? null,
+        contentHash: this.contentHash(proposal, items),
+        expired,
+        canSign: !expired && !DECIDED_PROPOSAL_STATUSES.includes(proposal.status),
+        signature: latest
+          ? {
+              signerName: latest.signerName,
+              decision: latest.decision,
+              approvedItemIds: latest.approvedItemIds,
+              approvedTotal: latest.approvedTotal,
+              comments: latest.comments,
+              signedAt: latest.signedAt,
+            }
+          : null,
+      },
+    };
+  }
+
+  // Record the client's decision: item approvals, approvalType/status, and the signature audit trail
+  static async sign(
+    token: string,
+    input: SignInput,
+    audit: { ipAddress?: string | null; userAgent?: string | null }
+  ): Promise<PortalResult<ProposalSignature>> {
+    await this.expireStale();
+    const resolved = await this.resolve(token);
+    if (!resolved.ok) return { ok: false, notFound: resolved.notFound, error: resolved.error };
+    const { link, proposal } = resolved.value!;
+
+    if (this.isExpired(proposal)) {
+      return { ok: false, error: 'This proposal has expired' };
+    }
+    if (DECIDED_PROPOSAL_STATUSES.includes(proposal.status)) {
+      return { ok: false, error: 'This proposal has already been signed' };
+    }
+
+    const items = await storage.getProposalItems(proposal.id);
+    const contentHash = this.contentHash(proposal, items);
+    if (input.contentHash !== contentHash) {
+      return { ok: false, error: 'The proposal was updated while you were reviewing it. Please reload and review it again.' };
+    }
+
+    const itemIds = new Set(items.map(item => item.id));
+    const approvedIds = Array.from(new Set(input.approvedItemIds)).filter(id => itemIds.has(id));
+    const decision: ProposalDecision = approvedIds.length === 0
+      ? 'declined'
+      : approvedIds.length === items.length ? 'full' : 'partial';
+    const approvedTotal = items
+      .filter(item => approvedIds.includes(item.id))
+      .reduce((sum, item) => sum + Number(item.amount), 0);
+
+    const itemComments = Object.fromEntries(
+      Object.entries(input.itemComments || {}).filter(([id, comment]) => itemIds.has(id) && comment.trim())
+    );
+
+    // Claim the decision, record the signature and mark the items in one transaction:
+    // two simultaneous submissions can't both sign, and a failure never leaves a signed proposal without a signature
+    const signedAt = new Date();
+    const client = await pool.connect();
+    let signature: ProposalSignature;
+    try {
+      await client.query('BEGIN');
+      const claimed = await client.query(
+        `UPDATE proposals SET status = $2, approval_type = $3, approved_date = $4, updated_at = NOW()
+         WHERE id = $1 AND status IN ('draft', 'sent')`,
+        [proposal.id, DECISION_STATUS[decision], decision, decision === 'declined' ? null : signedAt]
+      );
+      if (!claimed.rowCount) {
+        await client.query('ROLLBACK');
+        return { ok: false, error: 'This proposal has already been signed' };
+      }
+
+      const inserted = await client.query(
+        `INSERT INTO proposal_signatures (proposal_id, link_id, signer_name, signer_email, decision, approved_item_ids,
+           approved_total, comments, item_comments, content_hash, ip_address, user_agent, signed_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+         RETURNING id, proposal_id AS "proposalId", link_id AS "linkId", signer_name AS "signerName",
+           signer_email AS "signerEmail", decision, approved_item_ids AS "approvedItemIds",
+           approved_total AS "approvedTotal", comments, item_comments AS "itemComments",
+           content_hash AS "contentHash", ip_address AS "ipAddress", user_agent AS "userAgent", signed_at AS "signedAt"`,
+        [
+          proposal.id,
+          link.id,
+          input.signerName,
+          input.signerEmail || link.contactEmail,
+          decision,
+          JSON.stringify(approvedIds),
+          approvedTotal.toFixed(2),
+          input.comments || null,
+          Object.keys(itemComments).length > 0 ? JSON.stringify(itemComments) : null,
+          contentHash,
+          audit.ipAddress || null,
+          audit.userAgent || null,
+          signedAt,
+        ]
+      );
+      signature = inserted.rows[0];
+
+      await client.query(
+        'UPDATE proposal_items SET is_approved = (id = ANY($2::varchar[])), updated_at = NOW() WHERE proposal_id = $1',
+        [proposal.id, approvedIds]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    console.log(`Proposal ${proposal.proposalNumber} signed by ${input.signerName} (${decision})`);
+    return { ok: true, value: signature };
+  }
+}
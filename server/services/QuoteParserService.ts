@@ -0,0 +1,611 @@
+import path from 'path';
+import { inflateSync } from 'zlib';
+import { isZip, readZipEntries, ZipLimitError, MAX_TOTAL_BYTES } from '../utils/zip';
+import type { InsertQuoteLineItem, Service } from '@shared/schema';
+
+export type QuoteFileFormat = 'pdf' | 'docx' | 'xlsx' | 'csv' | 'text';
+
+export interface ParsedQuoteLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  totalPrice: number;
+  estimatedHours: number | null;
+  serviceId: string | null;
+  serviceName: string | null;
+  matchScore: number | null; // 0..1 similarity of the matched service name
+}
+
+export interface ParsedQuote {
+  format: QuoteFileFormat;
+  lineItems: ParsedQuoteLineItem[];
+  subtotal: number | null;
+  tax: number | null;
+  documentTotal: number | null; // "Total" printed on the document, when found
+  total: number;
+  warnings: string[];
+  parsedAt: string;
+}
+
+type Row = string[];
+
+interface ColumnMap {
+  description: number;
+  quantity: number | null;
+  unitPrice: number | null;
+  total: number | null;
+  quantityIsHours: boolean;
+}
+
+// Similarity needed before a description is linked to a service
+export const SERVICE_MATCH_THRESHOLD = 0.6;
+
+// The file expands past the inflate caps; callers answer 4xx instead of parsing it
+export class QuoteTooLargeError extends Error {}
+
+const SUMMARY_LABEL = /^(sub\s*-?\s*total|grand\s+total|total(\s+due)?|amount\s+due|balance(\s+due)?|tax|gst|pst|hst|qst|vat|sales\s+tax|discount|deposit)\b/i;
+const DESCRIPTION_HEADER = /\b(description|item|service|product|deliverable|details?)\b/i;
+const QUANTITY_HEADER = /\b(qty|quantity|hours|hrs|units?)\b/i;
+const HOURS_HEADER = /\b(hours|hrs)\b/i;
+const UNIT_PRICE_HEADER = /\b(unit|rate|price|each)\b/i;
+const TOTAL_HEADER = /\b(amount|total|cost|fee|line\s*total|ext(ended)?)\b/i;
+const NUMERIC_CELL = /^\(?-?\s*(CAD|USD|C?\$)?\s*-?[\d,]+(\.\d+)?\s*(CAD|USD)?\)?$/i;
+const MONEY_CELL = /(\$|\.\d{2}\b)/;
+const STOPWORDS = new Set(['and', 'the', 'for', 'of', 'a', 'an', 'to', 'with', 'in', 'on', '&']);
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+const approxEqual = (a: number, b: number) => Math.abs(a - b) <= Math.max(0.02, Math.abs(b) * 0.005);
+
+function parseNumber(cell: string): number | null {
+  const trimmed = cell.trim();
+  if (!trimmed || !NUMERIC_CELL.test(trimmed)) return null;
+  const negative = /^\(.*\)$/.test(trimmed) || /^-|\s-/.test(trimmed);
+  const value = Number(trimmed.replace(/[^\d.]/g, ''));
+  if (!isFinite(value)) return null;
+  return negative ? -value : value;
+}
+
+const decodeXml = (text: string) =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// Plain-text lines become rows by splitting on tabs or runs of 2+ spaces
+const splitTextLine = (line: string): Row =>
+  line.split(/\t| {2,}/).map(cell => cell.trim()).filter(Boolean);
+
+const normalizeName = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const bigrams = (text: string) => {
+  const compact = text.replace(/\s/g, '');
+  const grams: string[] = [];
+  for (let i = 0; i < compact.length - 1; i++) grams.push(compact.slice(i, i + 2));
+  return grams;
+};
+
+const dice = (a: string[], b: string[]) => {
+  if (a.length === 0 || b.length === 0) return 0;
+  const counts = new Map<string, number>();
+  for (const item of a) counts.set(item, (counts.get(item) || 0) + 1);
+  let overlap = 0;
+  for (const item of b) {
+    const count = counts.get(item) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(item, count - 1);
+    }
+  }
+  return (2 * overlap) / (a.length + b.length);
+};
+
+// Offline extraction of quote documents into line items, matched to services by fuzzy name
+export class QuoteParserService {
+  static detectFormat(buffer: Buffer, fileName: string): QuoteFileFormat {
+    const extension = path.extname(fileName).toLowerCase();
+    if (buffer.subarray(0, 5).toString('latin1') === '%PDF-') return 'pdf';
+    if (isZip(buffer)) return extension === '.xlsx' ? 'xlsx' : 'docx';
+    if (extension === '.csv') return 'csv';
+    return 'text';
+  }
+
+  static parse(buffer: Buffer, fileName: string, services: Service[] = []): ParsedQuote {
+    const format = this.detectFormat(buffer, fileName);
+    const warnings: string[] = [];
+    let rows: Row[] = [];
+
+    try {
+      rows = this.extractRows(buffer, format);
+    } catch (error) {
+      if (error instanceof QuoteTooLargeError) throw error;
+      if (error instanceof ZipLimitError) throw new QuoteTooLargeError(error.message);
+      warnings.push(`Could not read the ${format.toUpperCase()} file: ${(error as Error).message}`);
+    }
+    if (rows.length === 0 && warnings.length === 0) {
+      warnings.push(format === 'pdf'
+        ? 'No text found in the PDF (scanned or image-only PDFs cannot be read)'
+        : 'The document is empty');
+    }
+
+    const result = this.extractLineItems(rows);
+    const lineItems = result.lineItems.map(item => {
+      const match = this.matchService(item.description, services);
+      return {
+        ...item,
+        serviceId: match?.service.id ?? null,
+        serviceName: match?.service.name ?? null,
+        matchScore: match ? round2(match.score) : null,
+      };
+    });
+
+    const itemsTotal = round2(lineItems.reduce((sum, item) => sum + item.totalPrice, 0));
+    if (lineItems.length === 0 && rows.length > 0) {
+      warnings.push('No line items with prices were recognised; add them manually');
+    }
+    if (result.subtotal !== null && lineItems.length > 0 && !approxEqual(itemsTotal, result.subtotal)) {
+      warnings.push(`Line items add up to ${itemsTotal.toFixed(2)} but the document subtotal is ${result.subtotal.toFixed(2)}`);
+    }
+
+    return {
+      format,
+      lineItems,
+      subtotal: result.subtotal,
+      tax: result.tax,
+      documentTotal: result.documentTotal,
+      total: result.documentTotal ?? round2(itemsTotal + (result.tax ?? 0)),
+      warnings,
+      parsedAt: new Date().toISOString(),
+    };
+  }
+
+  static extractRows(buffer: Buffer, format: QuoteFileFormat): Row[] {
+    switch (format) {
+      case 'pdf':
+        return this.pdfRows(buffer);
+      case 'docx':
+        return this.docxRows(buffer);
+      case 'xlsx':
+        return this.xlsxRows(buffer);
+      case 'csv':
+        return this.csvRows(buffer.toString('utf8'));
+      default:
+        return buffer.toString('utf8').split(/\r?\n/).map(splitTextLine).filter(row => row.length > 0);
+    }
+  }
+
+  static csvRows(text: string): Row[] {
+    const firstLine = text.split(/\r?\n/, 1)[0] || '';
+    const delimiter = [',', ';', '\t']
+      .map(candidate => ({ candidate, count: firstLine.split(candidate).length }))
+      .sort((a, b) => b.count - a.count)[0].candidate;
+
+    const rows: Row[] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quoted) {
+        if (char === '"' && text[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(cell.trim());
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && text[i + 1] === '\n') i++;
+        row.push(cell.trim());
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+    if (cell || row.length > 0) {
+      row.push(cell.trim());
+      rows.push(row);
+    }
+
+    return rows.filter(r => r.some(Boolean));
+  }
+
+  static xlsxRows(buffer: Buffer): Row[] {
+    const entries = readZipEntries(buffer, name => name === 'xl/sharedStrings.xml' || /^xl\/worksheets\/sheet\d+\.xml$/.test(name));
+    const sharedStrings: string[] = [];
+    const shared = entries.get('xl/sharedStrings.xml')?.toString('utf8') || '';
+    for (const item of Array.from(shared.matchAll(/<si>([\s\S]*?)<\/si>/g))) {
+      sharedStrings.push(decodeXml(Array.from(item[1].matchAll(/<t[^>]*>([\s\S]*?)<\/t>/g)).map(t => t[1]).join('')));
+    }
+
+    // First worksheet only; quotes are single-sheet in practice
+    const sheetName = Array.from(entries.keys())
+      .filter(name => name.startsWith('xl/worksheets/'))
+      .sort((a, b) => parseInt(a.replace(/\D/g, ''), 10) - parseInt(b.replace(/\D/g, ''), 10))[0];
+    const sheet = sheetName ? entries.get(sheetName)!.toString('utf8') : '';
+
+    const rows: Row[] = [];
+    for (const rowMatch of Array.from(sheet.matchAll(/<row[^>]*>([\s\S]*?)<\/row>/g))) {
+      const row: string[] = [];
+      for (const cellMatch of Array.from(rowMatch[1].matchAll(/<c([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+        const attributes = cellMatch[1];
+        const body = cellMatch[2] || '';
+        const reference = attributes.match(/r="([A-Z]+)\d+"/)?.[1];
+        const column = reference
+          ? reference.split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1
+          : row.length;
+        const type = attributes.match(/t="([^"]+)"/)?.[1];
+        const rawValue = body.match(/<v>([\s\S]*?)<\/v>/)?.[1] ?? '';
+
+        let value: string;
+        if (type === 's') value = sharedStrings[parseInt(rawValue, 10)] ?? '';
+        else if (type === 'inlineStr') value = decodeXml(Array.from(body.matchAll(/<t[^>]*>([\s\S]*?)<\/t>/g)).map(t => t[1]).join(''));
+        else value = decodeXml(rawValue);
+
+        while (row.length < column) row.push('');
+        row[column] = value.trim();
+      }
+      if (row.some(Boolean)) rows.push(row);
+    }
+    return rows;
+  }
+
+  static docxRows(buffer: Buffer): Row[] {
+    const document = readZipEntries(buffer, name => name === 'word/document.xml').get('word/document.xml');
+    if (!document) {
+      throw new Error('word/document.xml not found');
+    }
+    const xml = document.toString('utf8');
+
+    const paragraphText = (paragraph: string) =>
+      decodeXml(
+        paragraph
+          .replace(/<w:tab\/>/g, '\t')
+          .replace(/<w:br\/>/g, ' ')
+          .replace(/<(?!w:t[ >])(?!\/w:t>)[^>]+>/g, '')
+          .replace(/<\/?w:t[^>]*>/g, '')
+      );
+
+    const rows: Row[] = [];
+    // Tables become rows of cells; loose paragraphs are split like plain text
+    for (const block of Array.from(xml.matchAll(/<w:tbl>[\s\S]*?<\/w:tbl>|<w:p[ >][\s\S]*?<\/w:p>/g))) {
+      if (block[0].startsWith('<w:tbl>')) {
+        for (const tableRow of Array.from(block[0].matchAll(/<w:tr[ >][\s\S]*?<\/w:tr>/g))) {
+          const cells = Array.from(tableRow[0].matchAll(/<w:tc>[\s\S]*?<\/w:tc>/g)).map(cell =>
+            Array.from(cell[0].matchAll(/<w:p[ >][\s\S]*?<\/w:p>/g)).map(p => paragraphText(p[0]).trim()).filter(Boolean).join(' ')
+          );
+          if (cells.some(Boolean)) rows.push(cells);
+        }
+      } else {
+        const row = splitTextLine(paragraphText(block[0]));
+        if (row.length > 0) rows.push(row);
+      }
+    }
+    return rows;
+  }
+
+  // Text-drawing operators from the page content streams, laid out into rows and cells by position
+  static pdfRows(buffer: Buffer): Row[] {
+    const raw = buffer.toString('latin1');
+    const rows: Row[] = [];
+    let inflatedBytes = 0;
+
+    for (const match of Array.from(raw.matchAll(/<<((?:(?!>>\s*stream)[\s\S])*)>>\s*stream\r?\n/g))) {
+      const dictionary = match[1];
+      if (/\/Subtype\s*\/Image|\/Length1|\/Type\s*\/XRef/.test(dictionary)) continue;
+
+      const start = match.index! + match[0].length;
+      const end = raw.indexOf('endstream', start);
+      if (end < 0) continue;
+      let data = buffer.subarray(start, end);
+
+      if (/\/FlateDecode/.test(dictionary)) {
+        try {
+          data = inflateSync(data, { maxOutputLength: Math.max(MAX_TOTAL_BYTES - inflatedBytes, 1) });
+        } catch (error) {
+          if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+            throw new QuoteTooLargeError('PDF content streams are too large to read');
+          }
+          continue;
+        }
+        inflatedBytes += data.length;
+      } else if (/\/Filter/.test(dictionary)) {
+        continue; // Other encodings (DCT, LZW...) never carry simple text
+      }
+
+      const content = data.toString('latin1');
+      if (!/\bBT\b/.test(content)) continue;
+      rows.push(...this.pdfContentRows(content));
+    }
+
+    return rows.map(row => row.map(cell => cell.trim()).filter(Boolean)).filter(row => row.length > 0);
+  }
+
+  private static pdfContentRows(content: string): Row[] {
+    interface Fragment { x: number; y: number; size: number; text: string }
+    const fragments: Fragment[] = [];
+    const operands: string[] = [];
+    // Text line position; cm transforms are ignored, which is fine for the flat layouts quote tools produce
+    let x = 0;
+    let y = 0;
+    let size = 10;
+    let leading = 12;
+
+    const unescapeLiteral = (literal: string) =>
+      literal.replace(/\\([0-7]{1,3}|[\s\S])/g, (_, escape: string) => {
+        if (/^[0-7]/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+        const escapes: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '\b', f: '\f' };
+        return escapes[escape] ?? (escape === '\n' || escape === '\r' ? '' : escape);
+      });
+
+    const show = (text: string) => {
+      // Tab-separated parts come from wide TJ gaps, so each one is its own cell
+      text.split('\t').forEach((part, index) => {
+        fragments.push({ x: x + index * size * 20, y, size, text: part });
+      });
+      x += text.length * size * 0.5;
+    };
+
+    const tokens = /\((?:[^()\\]|\\[\s\S]|\((?:[^()\\]|\\[\s\S])*\))*\)|<[0-9a-fA-F\s]*>|\[|\]|\/[^\s\/\[\]()<>]+|[-+]?\d*\.?\d+|[A-Za-z'"*]+/g;
+    let inArray = false;
+    let arrayText = '';
+
+    for (const tokenMatch of Array.from(content.matchAll(tokens))) {
+      const token = tokenMatch[0];
+      let text: string | null = null;
+
+      if (token === '[') {
+        inArray = true;
+        arrayText = '';
+        continue;
+      }
+      if (token === ']') {
+        inArray = false;
+        operands.push(`(${arrayText}`);
+        continue;
+      }
+      if (token.startsWith('(')) {
+        text = unescapeLiteral(token.slice(1, -1));
+      } else if (token.startsWith('<')) {
+        const hex = token.slice(1, -1).replace(/\s/g, '');
+        text = '';
+        for (let i = 0; i < hex.length; i += 2) text += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+      }
+      if (text !== null) {
+        if (inArray) arrayText += text;
+        else operands.push(`(${text}`);
+        continue;
+      }
+      if (/^[-+]?\d*\.?\d+$/.test(token) || token.startsWith('/')) {
+        // Large negative kerning inside TJ arrays is a visual gap between columns
+        if (inArray) {
+          if (Number(token) < -180) arrayText += '\t';
+        } else {
+          operands.push(token);
+        }
+        continue;
+      }
+
+      const number = (fromEnd: number) => Number(operands[operands.length - fromEnd]) || 0;
+      switch (token) {
+        case 'BT':
+          x = 0;
+          y = 0;
+          break;
+        case 'Tf':
+          size = Math.abs(number(1)) || size;
+          break;
+        case 'TL':
+          leading = number(1);
+          break;
+        case 'Td':
+        case 'TD':
+          x += number(2);
+          y += number(1);
+          if (token === 'TD') leading = -number(1);
+          break;
+        case 'Tm':
+          x = number(2);
+          y = number(1);
+          break;
+        case 'T*':
+          y -= leading;
+          break;
+        case 'Tj':
+        case 'TJ':
+          show((operands.pop() || '(').slice(1));
+          break;
+        case "'":
+        case '"':
+          y -= leading;
+          show((operands.pop() || '(').slice(1));
+          break;
+      }
+      operands.length = 0;
+    }
+
+    // Group fragments into lines by baseline (top of the page first), then into cells by horizontal gaps
+    const lines = new Map<number, Fragment[]>();
+    for (const fragment of fragments) {
+      if (!fragment.text.trim()) continue;
+      const key = Array.from(lines.keys()).find(lineY => Math.abs(lineY - fragment.y) <= 2) ?? fragment.y;
+      lines.set(key, [...(lines.get(key) || []), fragment]);
+    }
+
+    return Array.from(lines.entries())
+      .sort((a, b) => b[0] - a[0])
+      .map(([, line]) => {
+        const cells: string[] = [];
+        let end = -Infinity;
+        for (const fragment of line.sort((a, b) => a.x - b.x)) {
+          if (cells.length > 0 && fragment.x - end < fragment.size * 1.5) {
+            cells[cells.length - 1] += fragment.text;
+          } else {
+            cells.push(fragment.text);
+          }
+          end = fragment.x + fragment.text.length * fragment.size * 0.5;
+        }
+        // A single run holding a whole line ("Design   2   $100") still needs splitting
+        return cells.length === 1 ? splitTextLine(cells[0]) : cells;
+      });
+  }
+
+  private static findHeader(rows: Row[]): { index: number; columns: ColumnMap } | null {
+    for (let i = 0; i < rows.length; i++) {
+      const row = rows[i];
+      const description = row.findIndex(cell => DESCRIPTION_HEADER.test(cell));
+      const total = row.map((cell, index) => (TOTAL_HEADER.test(cell) && parseNumber(cell) === null ? index : -1)).filter(index => index >= 0).pop();
+      if (description < 0 || total === undefined || total === description) continue;
+
+      const quantity = row.findIndex((cell, index) => index !== description && QUANTITY_HEADER.test(cell));
+      const unitPrice = row.findIndex((cell, index) => index !== description && index !== total && UNIT_PRICE_HEADER.test(cell));
+      return {
+        index: i,
+        columns: {
+          description,
+          quantity: quantity >= 0 ? quantity : null,
+          unitPrice: unitPrice >= 0 ? unitPrice : null,
+          total,
+          quantityIsHours: quantity >= 0 && HOURS_HEADER.test(row[quantity]),
+        },
+      };
+    }
+    return null;
+  }
+
+  // Work out quantity / unit price / total from the numbers at the end of a row
+  private static resolveAmounts(numbers: number[]): { quantity: number; unitPrice: number; totalPrice: number } | null {
+    if (numbers.length === 0) return null;
+    if (numbers.length >= 3) {
+      const [quantity, unitPrice, totalPrice] = numbers.slice(-3);
+      if (approxEqual(quantity * unitPrice, totalPrice)) return { quantity, unitPrice, totalPrice };
+    }
+    if (numbers.length >= 2) {
+      const [a, b] = numbers.slice(-2);
+      if (approxEqual(a, b)) return { quantity: 1, unitPrice: a, totalPrice: b };
+      if (Number.isInteger(a) && a > 0 && a < 1000 && b > a) return { quantity: a, unitPrice: round2(b / a), totalPrice: b };
+    }
+    const totalPrice = numbers[numbers.length - 1];
+    return { quantity: 1, unitPrice: totalPrice, totalPrice };
+  }
+
+  static extractLineItems(rows: Row[]): {
+    lineItems: Omit<ParsedQuoteLineItem, 'serviceId' | 'serviceName' | 'matchScore'>[];
+    subtotal: number | null;
+    tax: number | null;
+    documentTotal: number | null;
+  } {
+    const header = this.findHeader(rows);
+    const lineItems: Omit<ParsedQuoteLineItem, 'serviceId' | 'serviceName' | 'matchScore'>[] = [];
+    let subtotal: number | null = null;
+    let tax: number | null = null;
+    let documentTotal: number | null = null;
+
+    for (let i = header ? header.index + 1 : 0; i < rows.length; i++) {
+      const row = rows[i];
+      const numbers = row.map(parseNumber);
+      const labelIndex = row.findIndex((cell, index) => numbers[index] === null && cell.length > 0);
+      const label = labelIndex >= 0 ? row[labelIndex] : '';
+      const lastNumber = numbers.filter((n): n is number => n !== null).pop();
+
+      // Summary rows (Subtotal / Tax / Total) may carry their label in any column
+      const summaryCell = row.find(cell => SUMMARY_LABEL.test(cell.trim()));
+      if (summaryCell && lastNumber !== undefined) {
+        if (/^sub/i.test(summaryCell.trim())) subtotal = lastNumber;
+        else if (/^(tax|gst|pst|hst|qst|vat|sales)/i.test(summaryCell.trim())) tax = round2((tax ?? 0) + lastNumber);
+        else if (/^(total|grand|amount due|balance)/i.test(summaryCell.trim())) documentTotal = lastNumber;
+        continue;
+      }
+
+      let description = '';
+      let amounts: { quantity: number; unitPrice: number; totalPrice: number } | null = null;
+
+      if (header && row.length >= header.columns.description + 1) {
+        const { columns } = header;
+        description = row[columns.description] || '';
+        const quantity = columns.quantity !== null ? numbers[columns.quantity] : null;
+        const unitPrice = columns.unitPrice !== null ? numbers[columns.unitPrice] : null;
+        const totalPrice = columns.total !== null ? numbers[columns.total] : null;
+        if (totalPrice !== null && totalPrice !== undefined) {
+          const q = quantity ?? (unitPrice ? round2(totalPrice / unitPrice) : 1);
+          amounts = { quantity: q || 1, unitPrice: unitPrice ?? round2(totalPrice / (q || 1)), totalPrice };
+        }
+      }
+
+      // Misaligned or headerless rows: description first, numbers at the end
+      if (!amounts) {
+        const trailing: number[] = [];
+        for (let j = row.length - 1; j >= 0 && numbers[j] !== null; j--) trailing.unshift(numbers[j]!);
+        const leading = row.slice(0, row.length - trailing.length);
+        // Without a header only money-looking values count, so dates or reference numbers are ignored
+        if (!header && !row.slice(leading.length).some(cell => MONEY_CELL.test(cell))) continue;
+        description = description || leading.join(' ');
+        amounts = this.resolveAmounts(trailing);
+      }
+
+      description = description.replace(/\s+/g, ' ').trim() || label;
+      if (!amounts || !description || amounts.totalPrice <= 0) continue;
+
+      const isHours = (header?.columns.quantityIsHours ?? false) || /\b(hours?|hrs?)\b/i.test(description);
+      lineItems.push({
+        description,
+        quantity: round2(amounts.quantity),
+        unitPrice: round2(amounts.unitPrice),
+        totalPrice: round2(amounts.totalPrice),
+        estimatedHours: isHours ? Math.round(amounts.quantity) : null,
+      });
+    }
+
+    return { lineItems, subtotal, tax, documentTotal };
+  }
+
+  // Rows for quote_line_items; taskTemplateData marks each line for task creation when the quote is converted
+  static toLineItems(
+    quoteId: string,
+    items: { description: string; serviceId?: string | null; quantity: number; unitPrice: number; estimatedHours?: number | null }[]
+  ): InsertQuoteLineItem[] {
+    return items.map(item => ({
+      quoteId,
+      serviceId: item.serviceId || null,
+      description: item.description,
+      quantity: item.quantity.toFixed(2),
+      unitPrice: item.unitPrice.toFixed(2),
+      totalPrice: (item.quantity * item.unitPrice).toFixed(2),
+      estimatedHours: item.estimatedHours ?? null,
+      taskTemplateData: { title: item.description, serviceId: item.serviceId || null, estimatedHours: item.estimatedHours ?? null },
+    }));
+  }
+
+  // Best-scoring service by token and character-bigram overlap (containment counts as a strong match)
+  static matchService(description: string, services: Service[]): { service: Service; score: number } | null {
+    const target = normalizeName(description);
+    if (!target) return null;
+    const targetTokens = target.split(' ').filter(token => !STOPWORDS.has(token));
+    const targetBigrams = bigrams(target);
+
+    let best: { service: Service; score: number } | null = null;
+    for (const service of services) {
+      const name = normalizeName(service.name);
+      if (!name) continue;
+      const tokens = name.split(' ').filter(token => !STOPWORDS.has(token));
+      let score = Math.max(dice(targetTokens, tokens), dice(targetBigrams, bigrams(name)));
+      if (target.includes(name) || name.includes(target)) score = Math.max(score, 0.9);
+      if (!best || score > best.score) best = { service, score };
+    }
+
+    return best && best.score >= SERVICE_MATCH_THRESHOLD ? best : null;
+  }
+}
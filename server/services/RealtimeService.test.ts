@@ -0,0 +1,155 @@
+import '../test/env';
+import { after, afterEach, before, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { WebSocket } from 'ws';
+import { storage } from '../storage';
+import { REALTIME_PATH, RealtimeService } from './RealtimeService';
+import type { Project, User } from '@shared/schema';
+
+const project = { id: 'p1', name: 'Spring campaign', clientId: 'client-1', organizationId: 'org-1' } as Project;
+
+let users: Map<string, User>;
+let server: Server;
+let host: string;
+const sockets: WebSocket[] = [];
+
+// The upgrade reads the user from the session; tests name them in a header instead of a cookie
+const sessionParser = (req: any, _res: any, next: () => void) => {
+  req.session = { user: { userId: req.headers['x-test-user'] } };
+  next();
+};
+
+const connect = (userId: string, origin = `http://${host}`) =>
+  new Promise<{ socket: WebSocket; received: any[] }>((resolve, reject) => {
+    const socket = new WebSocket(`ws://${host}${REALTIME_PATH}`, { origin, headers: { 'x-test-user': userId } });
+    const received: any[] = [];
+    sockets.push(socket);
+    socket.on('message', data => received.push(JSON.parse(data.toString())));
+    socket.on('open', () => resolve({ socket, received }));
+    socket.on('unexpected-response', (_req, res) => reject(new Error(`upgrade refused with ${res.statusCode}`)));
+    socket.on('error', reject);
+  });
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+const deliver = async (projectId: string | null) => {
+  await (RealtimeService as any).deliver({ entity: 'task', action: 'updated', id: 't1', projectId });
+  await settle();
+};
+
+before(async () => {
+  server = createServer();
+  RealtimeService.attach(server, sessionParser);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => server.close());
+
+beforeEach(() => {
+  users = new Map([
+    ['admin-1', { id: 'admin-1', role: 'admin', organizationId: null } as User],
+    ['client-1', { id: 'client-1', role: 'client', organizationId: 'org-1' } as User],
+    ['client-2', { id: 'client-2', role: 'client', organizationId: 'org-1' } as User],
+  ]);
+  mock.method(storage, 'getUser', async (id: string) => users.get(id));
+  mock.method(storage, 'getProject', async (id: string) => (id === project.id ? project : undefined));
+  mock.method(storage, 'isProjectMember', async () => false);
+});
+
+afterEach(async () => {
+  await Promise.all(sockets.splice(0).map(socket => new Promise(resolve => {
+    if (socket.readyState === WebSocket.CLOSED) return resolve(null);
+    socket.once('close', resolve);
+    socket.close();
+  })));
+  mock.restoreAll();
+});
+
+describe('RealtimeService upgrades', () => {
+  test('accepts the app\'s own origin', async () => {
+    const { socket } = await connect('client-1');
+    assert.equal(socket.readyState, WebSocket.OPEN);
+  });
+
+  test('refuses other origins and upgrades without one', async () => {
+    await assert.rejects(connect('client-1', 'https://evil.example'), /refused with 403/);
+    await assert.rejects(connect('client-1', ''), /refused with 403/);
+  });
+
+  test('accepts a configured app domain', async () => {
+    const domains = process.env.REPLIT_DOMAINS;
+    process.env.REPLIT_DOMAINS = 'studio.example.com';
+    try {
+      const { socket } = await connect('client-1', 'https://studio.example.com');
+      assert.equal(socket.readyState, WebSocket.OPEN);
+    } finally {
+      process.env.REPLIT_DOMAINS = domains;
+    }
+  });
+
+  test('refuses anyone without a session user', async () => {
+    await assert.rejects(connect('nobody'), /refused with 401/);
+  });
+});
+
+describe('RealtimeService delivery', () => {
+  test('sends project events to people who can see the project', async () => {
+    const client = await connect('client-1');
+    const colleague = await connect('client-2');
+    const admin = await connect('admin-1');
+
+    await deliver('p1');
+
+    assert.deepEqual([client, colleague, admin].map(({ received }) => received.length), [1, 1, 1]);
+    assert.equal(client.received[0].projectId, 'p1');
+  });
+
+  test('work outside a project only reaches staff who see everything', async () => {
+    const client = await connect('client-1');
+    const admin = await connect('admin-1');
+
+    await deliver(null);
+
+    assert.equal(client.received.length, 0);
+    assert.equal(admin.received.length, 1);
+  });
+
+  test('re-checks access on every event, not at connect time', async () => {
+    const colleague = await connect('client-2');
+    await deliver('p1');
+
+    // Moved to another organization while the tab stays open
+    users.set('client-2', { ...users.get('client-2')!, organizationId: 'org-2' });
+    await deliver('p1');
+
+    assert.equal(colleague.received.length, 1);
+  });
+
+  test('drops a viewer from presence once they lose access', async () => {
+    const client = await connect('client-1');
+    const colleague = await connect('client-2');
+    colleague.socket.send(JSON.stringify({ type: 'presence.join', projectId: 'p1' }));
+    await settle();
+    assert.deepEqual(RealtimeService.viewers('p1').map(viewer => viewer.userId), ['client-2']);
+
+    users.set('client-2', { ...users.get('client-2')!, organizationId: 'org-2' });
+    client.socket.send(JSON.stringify({ type: 'presence.join', projectId: 'p1' }));
+    await deliver('p1');
+
+    assert.deepEqual(RealtimeService.viewers('p1').map(viewer => viewer.userId), ['client-1']);
+  });
+
+  test('disconnects a user who no longer exists', async () => {
+    const client = await connect('client-1');
+    const closed = new Promise<number>(resolve => client.socket.once('close', code => resolve(code)));
+
+    users.delete('client-1');
+    await deliver('p1');
+
+    assert.equal(await closed, 4401);
+    assert.equal(client.received.length, 0);
+  });
+});
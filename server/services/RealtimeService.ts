@@ -0,0 +1,212 @@
+import type { IncomingMessage, Server } from 'http';
+import type { RequestHandler } from 'express';
+import { WebSocketServer, WebSocket } from 'ws';
+import { storage } from '../storage';
+import { AccessService } from './AccessService';
+import type { User } from '@shared/schema';
+
+export type RealtimeEntity = 'task' | 'assignment' | 'message' | 'file' | 'project';
+
+export interface RealtimeEvent {
+  entity: RealtimeEntity;
+  action: 'created' | 'updated' | 'deleted';
+  id: string;
+  // Null for work that isn't tied to a project; only admins hear about it. Left out, it is looked up from taskId
+  projectId?: string | null;
+  taskId?: string | null;
+}
+
+export interface PresenceViewer {
+  userId: string;
+  name: string;
+  role: string | null;
+}
+
+interface Connection {
+  socket: WebSocket;
+  user: User;
+  viewing: Set<string>;
+  alive: boolean;
+}
+
+export const REALTIME_PATH = '/ws';
+
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+const displayName = (user: Pick<User, 'firstName' | 'lastName' | 'email'>) =>
+  [user.firstName, user.lastName].filter(Boolean).join(' ') || user.email || 'Someone';
+
+// The upgrade request carries the same session cookie as the API; either login flow can have put the user there
+const sessionUserId = (req: IncomingMessage): string | null => {
+  const session = (req as any).session;
+  return session?.passport?.user?.claims?.sub || session?.user?.userId || null;
+};
+
+// Browsers send the page's Origin with the upgrade; only our own pages may ride the session cookie here
+const isAllowedOrigin = (req: IncomingMessage): boolean => {
+  let host: string;
+  try {
+    host = new URL(req.headers.origin || '').host;
+  } catch {
+    return false;
+  }
+  const domains = (process.env.REPLIT_DOMAINS || '').split(',').filter(Boolean);
+  return host === req.headers.host || domains.includes(host);
+};
+
+// One authenticated WebSocket per browser tab. The server only pushes "something changed" events scoped
+// to what each user may see; clients refetch through the normal API, so no data leaks through the socket.
+export class RealtimeService {
+  private static connections = new Set<Connection>();
+
+  static attach(server: Server, sessionParser: RequestHandler) {
+    const wss = new WebSocketServer({ noServer: true });
+
+    server.on('upgrade', (req, socket, head) => {
+      // Other upgrades on this server (the Vite HMR socket in development) are left alone
+      if (new URL(req.url || '/', 'http://localhost').pathname !== REALTIME_PATH) return;
+      if (!isAllowedOrigin(req)) {
+        socket.write('HTTP/1.1 403 Forbidden\r\n\r\n');
+        socket.destroy();
+        return;
+      }
+
+      sessionParser(req as any, {} as any, async () => {
+        const userId = sessionUserId(req);
+        const user = userId ? await storage.getUser(userId).catch(() => undefined) : undefined;
+        if (!user) {
+          socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+          socket.destroy();
+          return;
+        }
+        wss.handleUpgrade(req, socket, head, ws => this.register(ws, user));
+      });
+    });
+
+    const heartbeat = setInterval(() => {
+      for (const connection of Array.from(this.connections)) {
+        if (!connection.alive) {
+          connection.socket.terminate();
+          continue;
+        }
+        connection.alive = false;
+        connection.socket.ping();
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+    wss.on('close', () => clearInterval(heartbeat));
+  }
+
+  private static register(socket: WebSocket, user: User) {
+    const connection: Connection = { socket, user, viewing: new Set(), alive: true };
+    this.connections.add(connection);
+
+    socket.on('pong', () => {
+      connection.alive = true;
+    });
+    socket.on('message', raw => {
+      this.handleMessage(connection, raw.toString()).catch(error => {
+        console.error('Realtime message failed:', error);
+      });
+    });
+    socket.on('close', () => {
+      this.connections.delete(connection);
+      for (const projectId of Array.from(connection.viewing)) {
+        this.broadcastPresence(projectId);
+      }
+    });
+  }
+
+  private static async handleMessage(connection: Connection, raw: string) {
+    let message: { type?: string; projectId?: string };
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+    const projectId = typeof message.projectId === 'string' ? message.projectId : null;
+    if (!projectId) return;
+
+    if (message.type === 'presence.join') {
+      const user = await this.currentUser(connection);
+      if (!user || !(await this.canViewProject(user, projectId))) return;
+      connection.viewing.add(projectId);
+      this.broadcastPresence(projectId);
+    } else if (message.type === 'presence.leave') {
+      if (connection.viewing.delete(projectId)) {
+        this.broadcastPresence(projectId);
+      }
+    }
+  }
+
+  // Roles and project access change while a tab stays open, so every check reloads the user.
+  // Someone who no longer exists is disconnected.
+  private static async currentUser(connection: Connection): Promise<User | undefined> {
+    const user = await storage.getUser(connection.user.id);
+    if (!user) {
+      connection.socket.close(4401, 'Unauthorized');
+      return undefined;
+    }
+    connection.user = user;
+    return user;
+  }
+
+  static async canViewProject(user: User, projectId: string): Promise<boolean> {
+    const project = await storage.getProject(projectId);
+    return !!project && AccessService.canAccessProject(user, project);
+  }
+
+  static viewers(projectId: string): PresenceViewer[] {
+    const viewers = new Map<string, PresenceViewer>();
+    for (const connection of Array.from(this.connections)) {
+      if (connection.viewing.has(projectId)) {
+        const { user } = connection;
+        viewers.set(user.id, { userId: user.id, name: displayName(user), role: user.role });
+      }
+    }
+    return Array.from(viewers.values());
+  }
+
+  private static broadcastPresence(projectId: string) {
+    const payload = JSON.stringify({ type: 'presence', projectId, viewers: this.viewers(projectId) });
+    for (const connection of Array.from(this.connections)) {
+      if (connection.viewing.has(projectId)) {
+        this.send(connection, payload);
+      }
+    }
+  }
+
+  // Fire-and-forget from routes, after the change is saved
+  static publish(event: RealtimeEvent) {
+    if (this.connections.size === 0) return;
+    this.deliver(event).catch(error => {
+      console.error('Realtime publish failed:', error);
+    });
+  }
+
+  private static async deliver(event: RealtimeEvent) {
+    let projectId = event.projectId ?? null;
+    if (event.projectId === undefined && event.taskId) {
+      projectId = (await storage.getTask(event.taskId))?.projectId ?? null;
+    }
+    const project = projectId ? await storage.getProject(projectId) : undefined;
+    const payload = JSON.stringify({ type: 'event', ...event, projectId });
+
+    await Promise.all(Array.from(this.connections, async connection => {
+      const user = await this.currentUser(connection);
+      if (!user) return;
+      const allowed = project ? await AccessService.canAccessProject(user, project) : AccessService.can(user, 'projects.view_all');
+      if (allowed) {
+        this.send(connection, payload);
+      } else if (project && connection.viewing.delete(project.id)) {
+        // Lost access while looking at the project
+        this.broadcastPresence(project.id);
+      }
+    }));
+  }
+
+  private static send(connection: Connection, payload: string) {
+    if (connection.socket.readyState === WebSocket.OPEN) {
+      connection.socket.send(payload);
+    }
+  }
+}
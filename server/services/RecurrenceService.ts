@@ -0,0 +1,243 @@
+import { DateTime } from 'luxon';
+import { storage } from '../storage';
+import { pool } from '../db';
+import { onTaskCreatedOrUpdated } from '../hooks/taskCalendarHooks';
+import { normalizeRRule, nextOccurrence, truncateRRule, expandRRule, describeRRule } from '@shared/recurrence';
+import { DEFAULT_TIMEZONE } from '@shared/timezone';
+import type { Task } from '@shared/schema';
+
+export const DEFAULT_RECURRENCE_TIMEZONE = DEFAULT_TIMEZONE;
+// Rolling horizon: occurrences due within this many days always exist as tasks
+export const RECURRENCE_HORIZON_DAYS = 30;
+// Upper bound per series per sweep so a daily rule cannot flood the task list
+const MAX_OCCURRENCES_PER_SWEEP = 31;
+
+export type RecurrenceScope = 'this' | 'following';
+
+interface RecurrenceResult {
+  ok: boolean;
+  task?: Task;
+  error?: string;
+}
+
+export interface RecurrencePreview {
+  rule: string;
+  description: string;
+  occurrences: string[];
+}
+
+// Series model: the master task carries the RRULE and points at itself via recurrenceSeriesId;
+// generated occurrences are ordinary tasks pointing at the master with their original slot in recurrenceOccurrenceAt
+export class RecurrenceService {
+  static isOccurrence(task: Task): boolean {
+    return !!task.recurrenceSeriesId && task.recurrenceSeriesId !== task.id;
+  }
+
+  private static zoneFor(task: Task): string {
+    return task.recurrenceTimezone || DEFAULT_RECURRENCE_TIMEZONE;
+  }
+
+  private static slotOf(task: Task): DateTime | null {
+    const slot = task.recurrenceOccurrenceAt || task.dueAt;
+    return slot ? DateTime.fromJSDate(slot, { zone: this.zoneFor(task) }) : null;
+  }
+
+  // Describe a rule and list its first few occurrences (used by the repeat picker)
+  static preview(
+    ruleInput: string,
+    start?: string,
+    timezone?: string
+  ): { ok: true; preview: RecurrencePreview } | { ok: false; error: string } {
+    const normalized = normalizeRRule(ruleInput);
+    if (!normalized.ok) {
+      return { ok: false, error: `Invalid recurrence rule: ${normalized.error}` };
+    }
+
+    const zone = timezone || DEFAULT_RECURRENCE_TIMEZONE;
+    const dtstart = start ? DateTime.fromISO(start, { zone }) : DateTime.now().setZone(zone);
+    if (!dtstart.isValid) {
+      return { ok: false, error: 'Invalid start date' };
+    }
+
+    return {
+      ok: true,
+      preview: {
+        rule: normalized.rule,
+        description: describeRRule(normalized.rule),
+        occurrences: expandRRule(normalized.rule, dtstart, { limit: 5 }).map(occurrence => occurrence.toISO()!),
+      },
+    };
+  }
+
+  // Turn a task into the master of a new series (its due time becomes the first occurrence)
+  static async startSeries(task: Task, ruleInput: string, timezone?: string | null): Promise<RecurrenceResult> {
+    const normalized = normalizeRRule(ruleInput);
+    if (!normalized.ok) {
+      return { ok: false, error: normalized.error };
+    }
+    if (!task.dueAt) {
+      return { ok: false, error: 'Recurring tasks need a due date and time' };
+    }
+
+    const updated = await storage.updateTask(task.id, {
+      recurrenceRule: normalized.rule,
+      recurrenceTimezone: timezone || task.recurrenceTimezone || DEFAULT_RECURRENCE_TIMEZONE,
+      recurrenceSeriesId: task.id,
+      recurrenceOccurrenceAt: task.dueAt,
+    });
+    return { ok: true, task: updated };
+  }
+
+  // Create the occurrence that follows the latest existing one, copying the previous occurrence's assignments
+  static async generateNextOccurrence(seriesId: string): Promise<Task | null> {
+    const master = await storage.getTask(seriesId);
+    if (!master?.recurrenceRule || !master.recurrenceOccurrenceAt) {
+      return null;
+    }
+
+    const zone = this.zoneFor(master);
+    const occurrences = await storage.getRecurrenceOccurrences(seriesId);
+    const latest = occurrences[occurrences.length - 1] || master;
+    const dtstart = DateTime.fromJSDate(master.recurrenceOccurrenceAt, { zone });
+    const next = nextOccurrence(master.recurrenceRule, dtstart, this.slotOf(latest) || dtstart);
+    if (!next) {
+      return null; // Series finished (COUNT/UNTIL reached)
+    }
+
+    const occurrence = await storage.createTask({
+      projectId: master.projectId,
+      organizationId: master.organizationId,
+      serviceId: master.serviceId,
+      title: master.title,
+      description: master.description,
+      status: 'in_progress',
+      priority: master.priority,
+      taskType: master.taskType,
+      estimatedHours: master.estimatedHours,
+      assigneeRole: master.assigneeRole,
+      clientVisible: master.clientVisible,
+      googleDriveLink: master.googleDriveLink,
+      dueDate: next.toISODate()!,
+      dueTime: next.toFormat('HH:mm'),
+      dueAt: next.toUTC().toISO()!,
+      recurrenceTimezone: zone,
+      recurrenceSeriesId: seriesId,
+      recurrenceOccurrenceAt: next.toJSDate(),
+    });
+
+    const previousAssignments = await storage.getTaskAssignments(latest.id);
+    for (const assignment of previousAssignments) {
+      await storage.createTaskAssignment({
+        taskId: occurrence.id,
+        teamMemberId: assignment.teamMemberId,
+        assignedBy: assignment.assignedBy,
+        estimatedHours: assignment.estimatedHours,
+      });
+    }
+
+    // No calendar push here: the master's recurring event already contains this slot
+    console.log(`[RECURRENCE] Generated occurrence ${occurrence.id} of series ${seriesId} at ${next.toISO()}`);
+    return occurrence;
+  }
+
+  // Called when an occurrence is completed so the next one is ready to work on
+  static async onOccurrenceCompleted(task: Task): Promise<Task | null> {
+    if (!task.recurrenceSeriesId) return null;
+
+    const occurrences = await storage.getRecurrenceOccurrences(task.recurrenceSeriesId);
+    const taskSlot = this.slotOf(task);
+    const hasOpenLaterOccurrence = occurrences.some(other => {
+      const slot = this.slotOf(other);
+      return other.id !== task.id && other.status !== 'completed' && !!slot && !!taskSlot && slot > taskSlot;
+    });
+    if (hasOpenLaterOccurrence) return null;
+
+    return this.generateNextOccurrence(task.recurrenceSeriesId);
+  }
+
+  // Generate occurrences of one series up to the horizon
+  static async extendSeries(master: Task, days: number = RECURRENCE_HORIZON_DAYS): Promise<number> {
+    const horizon = DateTime.utc().plus({ days });
+    let created = 0;
+
+    for (let i = 0; i < MAX_OCCURRENCES_PER_SWEEP; i++) {
+      const occurrences = await storage.getRecurrenceOccurrences(master.id);
+      const latestSlot = this.slotOf(occurrences[occurrences.length - 1] || master);
+      if (!latestSlot || latestSlot > horizon) break;
+
+      const occurrence = await this.generateNextOccurrence(master.id);
+      if (!occurrence) break;
+      created++;
+    }
+    return created;
+  }
+
+  // Make sure every series has its occurrences up to the rolling horizon
+  static async fillHorizon(days: number = RECURRENCE_HORIZON_DAYS): Promise<number> {
+    const masters = await storage.getRecurringSeriesMasters();
+    let created = 0;
+
+    for (const master of masters) {
+      try {
+        created += await this.extendSeries(master, days);
+      } catch (error) {
+        console.error(`[RECURRENCE] Failed to extend series ${master.id}:`, error);
+      }
+    }
+
+    if (created > 0) {
+      console.log(`[RECURRENCE] Horizon sweep created ${created} occurrences`);
+    }
+    return created;
+  }
+
+  // "This and following": the edited occurrence becomes the master of a new series,
+  // the old series ends just before it, and later open occurrences are regenerated from the new rule
+  static async splitSeries(task: Task, deletedBy: string, ruleInput?: string | null): Promise<RecurrenceResult> {
+    if (!task.recurrenceSeriesId) {
+      return { ok: false, error: 'Task is not part of a recurring series' };
+    }
+
+    const oldMaster = await storage.getTask(task.recurrenceSeriesId);
+    const rule = ruleInput === undefined ? oldMaster?.recurrenceRule : ruleInput;
+    const splitSlot = this.slotOf(task);
+    if (!splitSlot) {
+      return { ok: false, error: 'Recurring tasks need a due date and time' };
+    }
+
+    // Later open occurrences of the old series are replaced by the new series
+    const occurrences = await storage.getRecurrenceOccurrences(task.recurrenceSeriesId);
+    const stale = occurrences.filter(other => {
+      const slot = this.slotOf(other);
+      return other.id !== task.id && other.status !== 'completed' && !!slot && slot > splitSlot;
+    });
+    for (const other of stale) {
+      await storage.softDeleteTask(other.id, deletedBy);
+      await pool.query('DELETE FROM task_event_mappings WHERE task_id = $1', [other.id]);
+    }
+
+    if (oldMaster && oldMaster.id !== task.id && oldMaster.recurrenceRule) {
+      await storage.updateTask(oldMaster.id, { recurrenceRule: truncateRRule(oldMaster.recurrenceRule, splitSlot) });
+      await onTaskCreatedOrUpdated(oldMaster.id);
+    }
+
+    // The task's old mapping points at an instance of the old series; drop it so a new recurring event is created
+    if (oldMaster && oldMaster.id !== task.id) {
+      await pool.query('DELETE FROM task_event_mappings WHERE task_id = $1', [task.id]);
+    }
+
+    if (!rule) {
+      // Removing the rule for "this and following" simply ends the series here
+      const detached = await storage.updateTask(task.id, { recurrenceRule: null, recurrenceSeriesId: null, recurrenceOccurrenceAt: null });
+      return { ok: true, task: detached };
+    }
+
+    // The new series starts at the (possibly moved) due time of this task
+    const result = await this.startSeries({ ...task, recurrenceOccurrenceAt: null }, rule, task.recurrenceTimezone);
+    if (!result.ok) return result;
+
+    await onTaskCreatedOrUpdated(task.id);
+    await this.extendSeries(result.task!);
+    return result;
+  }
+}
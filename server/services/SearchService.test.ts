@@ -0,0 +1,83 @@
+import '../test/env';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { pool } from '../db';
+import { SearchService } from './SearchService';
+import type { User } from '@shared/schema';
+
+const user = (id: string, role: string, fields: Partial<User> = {}) => ({ id, role, organizationId: null, ...fields }) as User;
+
+let query: ReturnType<typeof mock.method>;
+
+beforeEach(() => {
+  query = mock.method(pool, 'query', async () => ({ rows: [{ type: 'file', id: 'f1', title: 'logo.png', rank: '0.0607927' }] }));
+});
+
+afterEach(() => mock.restoreAll());
+
+// The statement and parameters of the one search query
+const sent = () => {
+  const [sql, params] = query.mock.calls[0].arguments as [string, unknown[]];
+  return { sql, params, types: Array.from(sql.matchAll(/SELECT '(\w+)' AS type/g)).map(match => match[1]) };
+};
+
+describe('SearchService.toTsQuery', () => {
+  test('turns words into prefix matches', () => {
+    assert.equal(SearchService.toTsQuery('Brand guide'), 'brand:* & guide:*');
+    assert.equal(SearchService.toTsQuery('  café   menü '), 'café:* & menü:*');
+  });
+
+  test('keeps tsquery syntax out of the terms', () => {
+    assert.equal(SearchService.toTsQuery('brand-guide v2.1'), 'brand:* & guide:* & v2:* & 1:*');
+    assert.equal(SearchService.toTsQuery('logo:* | !draft & (final)'), 'logo:* & draft:* & final:*');
+    assert.equal(SearchService.toTsQuery("o'brien \\ <-> test"), 'o:* & brien:* & test:*');
+  });
+
+  test('has nothing to search for in punctuation alone', () => {
+    for (const input of ['-', ':*', '""', "''", '--', '&|!', '   ']) {
+      assert.equal(SearchService.toTsQuery(input), null, JSON.stringify(input));
+    }
+  });
+
+  test('caps the number of terms', () => {
+    assert.equal(SearchService.toTsQuery('a b c d e f g h i j').split(' & ').length, 8);
+  });
+});
+
+describe('SearchService.search', () => {
+  test('never queries for short or punctuation-only input', async () => {
+    assert.deepEqual(await SearchService.search(user('admin-1', 'admin'), 'a'), []);
+    assert.deepEqual(await SearchService.search(user('admin-1', 'admin'), ':*'), []);
+    assert.equal(query.mock.callCount(), 0);
+  });
+
+  test('staff who see everything search every project and organization', async () => {
+    const results = await SearchService.search(user('admin-1', 'admin'), 'logo');
+
+    const { params, types } = sent();
+    assert.deepEqual(params, ['logo:*', true, 'admin-1', null]);
+    assert.deepEqual(types, ['task', 'project', 'message', 'file', 'organization']);
+    assert.equal(results[0].rank, 0.0607927);
+  });
+
+  test('clients search their own and their organization\'s projects, files included', async () => {
+    await SearchService.search(user('client-1', 'client', { organizationId: 'org-1' }), 'logo');
+
+    const { sql, params, types } = sent();
+    assert.deepEqual(params, ['logo:*', false, 'client-1', 'org-1']);
+    assert.deepEqual(types, ['task', 'project', 'message', 'file']);
+    assert.match(sql, /FROM project_files f\s+CROSS JOIN q\s+JOIN visible_projects vp ON vp.id = f.project_id/);
+  });
+
+  test('staff only reach projects they were added to, whatever organization they carry', async () => {
+    await SearchService.search(user('staff-1', 'contributor', { organizationId: 'org-1' }), 'logo');
+
+    assert.deepEqual(sent().params, ['logo:*', false, 'staff-1', null]);
+  });
+
+  test('contacts limited to billing don\'t search files', async () => {
+    await SearchService.search(user('client-2', 'client', { organizationId: 'org-1', contactAccess: 'billing' }), 'logo');
+
+    assert.deepEqual(sent().types, ['task', 'project', 'message']);
+  });
+});
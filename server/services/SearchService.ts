@@ -0,0 +1,137 @@
+import { pool } from '../db';
+import { AccessService } from './AccessService';
+import { isStaffRole } from '@shared/permissions';
+import type { User } from '@shared/schema';
+
+export type SearchResultType = 'task' | 'project' | 'organization' | 'message' | 'file';
+
+export interface SearchResult {
+  type: SearchResultType;
+  id: string;
+  title: string;
+  // ts_headline output; matches are wrapped in HIGHLIGHT_START / HIGHLIGHT_END
+  snippet: string | null;
+  projectId: string | null;
+  projectName: string | null;
+  // Root message of the thread a message belongs to
+  threadId: string | null;
+  rank: number;
+}
+
+export const HIGHLIGHT_START = '<mark>';
+export const HIGHLIGHT_END = '</mark>';
+
+const MIN_QUERY_LENGTH = 2;
+const MAX_TERMS = 8;
+const RESULT_LIMIT = 30;
+// Runs of anything but letters and digits; built at runtime since the tsconfig target rejects a /u literal
+const NON_WORD = new RegExp('[^\\p{L}\\p{N}]+', 'u');
+
+// Must match the expressions indexed in migrations/022_full_text_search.sql and 025_file_search.sql
+const TASK_DOCUMENT = `to_tsvector('english', COALESCE(t.title, '') || ' ' || COALESCE(t.description, ''))`;
+const PROJECT_DOCUMENT = `to_tsvector('english', COALESCE(p.name, '') || ' ' || COALESCE(p.description, ''))`;
+const ORGANIZATION_DOCUMENT = `to_tsvector('english', COALESCE(o.name, '') || ' ' || COALESCE(o.description, '') || ' ' || COALESCE(o.industry, ''))`;
+const MESSAGE_DOCUMENT = `to_tsvector('english', COALESCE(m.content, ''))`;
+const FILE_DOCUMENT = `to_tsvector('english', COALESCE(f.file_name, '') || ' ' || COALESCE(f.version_note, ''))`;
+
+const headline = (text: string) =>
+  `ts_headline('english', ${text}, q.query, 'StartSel=${HIGHLIGHT_START}, StopSel=${HIGHLIGHT_END}, MaxFragments=1, MaxWords=18, MinWords=6')`;
+
+// Ranked full-text search across everything the user could open through the regular routes
+export class SearchService {
+  // Every word becomes a prefix match, so results show up while the user is still typing.
+  // Only letters and digits survive; anything else could be tsquery syntax (-, :*, quotes, operators)
+  static toTsQuery(q: string): string | null {
+    const terms = q
+      .toLowerCase()
+      .split(NON_WORD)
+      .filter(Boolean)
+      .slice(0, MAX_TERMS);
+    return terms.length > 0 ? terms.map(term => `${term}:*`).join(' & ') : null;
+  }
+
+  static async search(user: User, q: string): Promise<SearchResult[]> {
+    const query = q.trim().length >= MIN_QUERY_LENGTH ? this.toTsQuery(q) : null;
+    if (!query) return [];
+
+    const viewAll = AccessService.can(user, 'projects.view_all');
+    const parts = [`
+      SELECT 'task' AS type, t.id, t.title, ${headline(`COALESCE(t.description, '')`)} AS snippet,
+        t.project_id AS "projectId", vp.name AS "projectName", NULL AS "threadId",
+        ts_rank(${TASK_DOCUMENT}, q.query) AS rank
+      FROM tasks t
+      CROSS JOIN q
+      LEFT JOIN visible_projects vp ON vp.id = t.project_id
+      WHERE t.deleted_at IS NULL
+        AND ${TASK_DOCUMENT} @@ q.query
+        AND (vp.id IS NOT NULL OR (t.project_id IS NULL AND $2::boolean))
+    `, `
+      SELECT 'project' AS type, p.id, p.name AS title, ${headline(`COALESCE(p.description, '')`)} AS snippet,
+        p.id AS "projectId", p.name AS "projectName", NULL AS "threadId",
+        ts_rank(${PROJECT_DOCUMENT}, q.query) AS rank
+      FROM visible_projects p
+      CROSS JOIN q
+      WHERE ${PROJECT_DOCUMENT} @@ q.query
+    `];
+
+    if (AccessService.can(user, 'messages.view')) {
+      parts.push(`
+        SELECT 'message' AS type, m.id, vp.name AS title, ${headline('m.content')} AS snippet,
+          m.project_id AS "projectId", vp.name AS "projectName", COALESCE(m.parent_id, m.id) AS "threadId",
+          ts_rank(${MESSAGE_DOCUMENT}, q.query) AS rank
+        FROM messages m
+        CROSS JOIN q
+        JOIN visible_projects vp ON vp.id = m.project_id
+        WHERE m.deleted_at IS NULL
+          AND ${MESSAGE_DOCUMENT} @@ q.query
+      `);
+    }
+
+    // Latest versions only, so a file with many revisions shows up once
+    if (AccessService.can(user, 'files.view')) {
+      parts.push(`
+        SELECT 'file' AS type, f.id, f.file_name AS title, ${headline(`COALESCE(f.version_note, '')`)} AS snippet,
+          f.project_id AS "projectId", vp.name AS "projectName", NULL AS "threadId",
+          ts_rank(${FILE_DOCUMENT}, q.query) AS rank
+        FROM project_files f
+        CROSS JOIN q
+        JOIN visible_projects vp ON vp.id = f.project_id
+        WHERE f.is_latest_version
+          AND ${FILE_DOCUMENT} @@ q.query
+      `);
+    }
+
+    if (AccessService.can(user, 'clients.manage')) {
+      parts.push(`
+        SELECT 'organization' AS type, o.id, o.name AS title,
+          ${headline(`COALESCE(o.description, '') || ' ' || COALESCE(o.industry, '')`)} AS snippet,
+          NULL AS "projectId", NULL AS "projectName", NULL AS "threadId",
+          ts_rank(${ORGANIZATION_DOCUMENT}, q.query) AS rank
+        FROM organizations o
+        CROSS JOIN q
+        WHERE o.deleted_at IS NULL
+          AND ${ORGANIZATION_DOCUMENT} @@ q.query
+      `);
+    }
+
+    // Same project visibility as AccessService.canAccessProject
+    const result = await pool.query(`
+      WITH q AS (SELECT to_tsquery('english', $1) AS query),
+      visible_projects AS (
+        SELECT p.* FROM projects p
+        WHERE p.deleted_at IS NULL
+          AND (
+            $2::boolean
+            OR p.client_id = $3
+            OR ($4::varchar IS NOT NULL AND p.organization_id = $4)
+            OR EXISTS (SELECT 1 FROM project_members pm WHERE pm.project_id = p.id AND pm.user_id = $3)
+          )
+      )
+      SELECT * FROM (${parts.join(' UNION ALL ')}) results
+      ORDER BY rank DESC, title
+      LIMIT ${RESULT_LIMIT}
+    `, [query, viewAll, user.id, isStaffRole(user.role) ? null : user.organizationId]);
+
+    return result.rows.map(row => ({ ...row, rank: Number(row.rank) }));
+  }
+}
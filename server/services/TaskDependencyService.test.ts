@@ -0,0 +1,101 @@
+import '../test/env';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { TaskDependencyService } from './TaskDependencyService';
+import type { Task } from '@shared/schema';
+
+const task = (id: string, fields: Partial<Task> = {}) =>
+  ({ id, title: `Task ${id}`, status: 'pending', projectId: 'p1', dependencies: [], ...fields }) as Task;
+
+let tasks: Map<string, Task>;
+let updateTask: ReturnType<typeof mock.method>;
+
+beforeEach(() => {
+  tasks = new Map([
+    ['design', task('design', { status: 'completed' })],
+    ['copy', task('copy', { status: 'in_progress' })],
+    ['build', task('build', { dependencies: ['design', 'copy'] })],
+  ]);
+  mock.method(storage, 'getTask', async (id: string) => tasks.get(id));
+  mock.method(storage, 'getTasksByProject', async () => Array.from(tasks.values()));
+  updateTask = mock.method(storage, 'updateTask', async (id: string, updates: Partial<Task>) => ({ ...tasks.get(id)!, ...updates }));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('TaskDependencyService.updateTask', () => {
+  test('refuses to complete a task while an upstream task is open', async () => {
+    const result = await TaskDependencyService.updateTask(tasks.get('build')!, { status: 'completed' });
+
+    assert.equal(result.ok, false);
+    assert.deepEqual(result.blockedBy, [{ id: 'copy', title: 'Task copy', status: 'in_progress' }]);
+    assert.equal(updateTask.mock.callCount(), 0);
+  });
+
+  test('completes once every upstream task is done', async () => {
+    tasks.set('copy', task('copy', { status: 'completed' }));
+    const result = await TaskDependencyService.updateTask(tasks.get('build')!, { status: 'completed' });
+
+    assert.equal(result.ok, true);
+    assert.equal(result.value!.status, 'completed');
+    assert.ok(result.value!.completedAt instanceof Date);
+  });
+
+  test('lets an explicit override through', async () => {
+    const result = await TaskDependencyService.updateTask(tasks.get('build')!, { status: 'completed' }, { overrideDependencies: true });
+
+    assert.equal(result.ok, true);
+    assert.equal(result.blockedBy.length, 1);
+    assert.equal(updateTask.mock.callCount(), 1);
+  });
+
+  test('only flags other status changes', async () => {
+    const result = await TaskDependencyService.updateTask(tasks.get('build')!, { status: 'in_progress' });
+
+    assert.equal(result.ok, true);
+    assert.deepEqual(result.blockedBy.map(blocker => blocker.id), ['copy']);
+  });
+
+  test('checks the dependencies written in the same update', async () => {
+    const result = await TaskDependencyService.updateTask(tasks.get('build')!, { status: 'completed', dependencies: ['design'] });
+    assert.equal(result.ok, true);
+  });
+
+  test('reopening a completed task clears its completion time', async () => {
+    tasks.set('design', task('design', { status: 'completed', completedAt: new Date() }));
+    const result = await TaskDependencyService.updateTask(tasks.get('design')!, { status: 'in_progress' });
+    assert.equal(result.value!.completedAt, null);
+  });
+
+  test('leaves updates without a status change alone', async () => {
+    const result = await TaskDependencyService.updateTask(tasks.get('build')!, { title: 'Build site' });
+
+    assert.equal(result.ok, true);
+    assert.deepEqual(result.blockedBy, []);
+    assert.deepEqual(updateTask.mock.calls[0].arguments, ['build', { title: 'Build site' }]);
+  });
+});
+
+describe('TaskDependencyService.validateDependencies', () => {
+  test('accepts active tasks from the same project', async () => {
+    const result = await TaskDependencyService.validateDependencies('build', 'p1', ['design', 'design']);
+    assert.deepEqual(result, { ok: true, dependencies: ['design'] });
+  });
+
+  test('rejects a dependency on itself', async () => {
+    const result = await TaskDependencyService.validateDependencies('build', 'p1', ['build']);
+    assert.equal(result.ok, false);
+  });
+
+  test('rejects tasks outside the project', async () => {
+    const result = await TaskDependencyService.validateDependencies('build', 'p1', ['elsewhere']);
+    assert.match(result.error!, /same project: elsewhere/);
+  });
+
+  test('rejects a cycle and names the tasks in it', async () => {
+    const result = await TaskDependencyService.validateDependencies('design', 'p1', ['build']);
+    assert.equal(result.ok, false);
+    assert.match(result.error!, /Dependency cycle detected: .*Task design/);
+  });
+});
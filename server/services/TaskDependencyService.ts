@@ -0,0 +1,160 @@
+import { storage } from '../storage';
+import { findCycle, computeCriticalPath, type TaskGraph, type TaskGraphNode } from '@shared/taskGraph';
+import type { Task } from '@shared/schema';
+
+export const COMPLETED_STATUS = 'completed';
+
+interface DependencyCheckResult {
+  ok: boolean;
+  dependencies?: string[];
+  error?: string;
+}
+
+export interface BlockingTask {
+  id: string;
+  title: string;
+  status: string;
+}
+
+interface TaskUpdateResult {
+  ok: boolean;
+  value?: Task;
+  // Open upstream tasks when the status changed; set even when the change went through
+  blockedBy: BlockingTask[];
+  error?: string;
+}
+
+// Validates and evaluates tasks.dependencies (upstream task IDs that must be completed first)
+export class TaskDependencyService {
+  // Validate a dependency list before it is written to a task
+  static async validateDependencies(
+    taskId: string | null,
+    projectId: string | null | undefined,
+    dependencyIds: unknown
+  ): Promise<DependencyCheckResult> {
+    if (dependencyIds === null || dependencyIds === undefined) {
+      return { ok: true, dependencies: [] };
+    }
+    if (!Array.isArray(dependencyIds) || dependencyIds.some(id => typeof id !== 'string')) {
+      return { ok: false, error: 'dependencies must be an array of task IDs' };
+    }
+
+    const dependencies = Array.from(new Set(dependencyIds as string[]));
+    if (dependencies.length === 0) {
+      return { ok: true, dependencies };
+    }
+    if (taskId && dependencies.includes(taskId)) {
+      return { ok: false, error: 'A task cannot depend on itself' };
+    }
+    if (!projectId) {
+      return { ok: false, error: 'Dependencies are only supported for project tasks' };
+    }
+
+    // getTasksByProject excludes soft-deleted tasks, so deleted or foreign IDs fall out here
+    const projectTasks = await storage.getTasksByProject(projectId);
+    const projectTaskIds = new Set(projectTasks.map(task => task.id));
+    const invalid = dependencies.filter(id => !projectTaskIds.has(id));
+    if (invalid.length > 0) {
+      return {
+        ok: false,
+        error: `Dependencies must be active tasks in the same project: ${invalid.join(', ')}`,
+      };
+    }
+
+    const nodes = projectTasks.map(task => ({
+      id: task.id,
+      dependencies: task.id === taskId ? dependencies : task.dependencies || [],
+    }));
+    if (!taskId) {
+      nodes.push({ id: '__new__', dependencies });
+    }
+
+    const cycle = findCycle(nodes);
+    if (cycle) {
+      const titles = new Map(projectTasks.map(task => [task.id, task.title]));
+      const path = cycle.map(id => titles.get(id) || 'new task').join(' -> ');
+      return { ok: false, error: `Dependency cycle detected: ${path}` };
+    }
+
+    return { ok: true, dependencies };
+  }
+
+  // Upstream tasks that are still open (ignores deleted tasks)
+  static async getBlockingTasks(task: Task): Promise<Task[]> {
+    const dependencies = task.dependencies || [];
+    if (dependencies.length === 0) return [];
+
+    const upstream = await Promise.all(dependencies.map(id => storage.getTask(id)));
+    return upstream.filter((dep): dep is Task => !!dep && dep.status !== COMPLETED_STATUS);
+  }
+
+  // Every task write goes through here so no status change can skip the dependency check:
+  // completing waits for open upstream tasks (task managers may override), other moves are only flagged
+  static async updateTask(
+    task: Task,
+    updates: Parameters<typeof storage.updateTask>[1],
+    options: { overrideDependencies?: boolean } = {}
+  ): Promise<TaskUpdateResult> {
+    const { status } = updates;
+    let blockedBy: BlockingTask[] = [];
+    if (status && status !== task.status) {
+      const blockers = await this.getBlockingTasks({ ...task, dependencies: updates.dependencies ?? task.dependencies });
+      blockedBy = blockers.map(({ id, title, status }) => ({ id, title, status }));
+      if (status === COMPLETED_STATUS && blockedBy.length > 0 && !options.overrideDependencies) {
+        return { ok: false, blockedBy, error: 'Task is blocked by incomplete dependencies' };
+      }
+
+      if (status === COMPLETED_STATUS) {
+        updates = { ...updates, completedAt: new Date() };
+      } else if (task.status === COMPLETED_STATUS) {
+        updates = { ...updates, completedAt: null };
+      }
+    }
+
+    return { ok: true, value: await storage.updateTask(task.id, updates), blockedBy };
+  }
+
+  // Build the project DAG with blocked flags and the critical path
+  static async getProjectGraph(projectId: string): Promise<TaskGraph> {
+    const projectTasks = await storage.getTasksByProject(projectId);
+    const byId = new Map(projectTasks.map(task => [task.id, task]));
+    const anchor = new Date();
+
+    const scheduleNodes = projectTasks.map(task => ({
+      id: task.id,
+      dependencies: (task.dependencies || []).filter(id => byId.has(id)),
+      // Completed work no longer occupies the schedule
+      durationHours: task.status === COMPLETED_STATUS ? 0 : task.estimatedHours || 0,
+      deadline: task.status === COMPLETED_STATUS ? null : task.dueAt,
+    }));
+
+    const { schedule, criticalPath, projectFinish } = computeCriticalPath(scheduleNodes, anchor);
+
+    const nodes: TaskGraphNode[] = scheduleNodes.map(node => {
+      const task = byId.get(node.id)!;
+      const blockedBy = node.dependencies.filter(id => byId.get(id)!.status !== COMPLETED_STATUS);
+      const timing = schedule.get(node.id)!;
+      return {
+        id: task.id,
+        title: task.title,
+        status: task.status,
+        priority: task.priority,
+        estimatedHours: task.estimatedHours,
+        dueAt: task.dueAt ? task.dueAt.toISOString() : null,
+        dependencies: node.dependencies,
+        blocked: task.status !== COMPLETED_STATUS && blockedBy.length > 0,
+        blockedBy,
+        ...timing,
+      };
+    });
+
+    return {
+      projectId,
+      nodes,
+      edges: nodes.flatMap(node => node.dependencies.map(from => ({ from, to: node.id }))),
+      criticalPath,
+      totalHours: scheduleNodes.reduce((sum, node) => sum + node.durationHours, 0),
+      projectedFinish: new Date(anchor.getTime() + projectFinish * 3_600_000).toISOString(),
+    };
+  }
+}
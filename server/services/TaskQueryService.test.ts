@@ -0,0 +1,90 @@
+import '../test/env';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { TaskQueryService } from './TaskQueryService';
+import type { User } from '@shared/schema';
+
+const admin = { id: 'admin-1', role: 'admin' } as User;
+const ID = '6f1c2a52-93c1-4d0e-9d1b-1f3e2f0a9c11';
+
+// A cursor as a client could forge one: any sort, key and id
+const forge = (...parts: unknown[]) => Buffer.from(JSON.stringify(parts)).toString('base64url');
+
+let queryTasks: ReturnType<typeof mock.method>;
+
+beforeEach(() => {
+  queryTasks = mock.method(storage, 'queryTasks', async () => ({ tasks: [], next: { key: '2026-03-08 16:00:00.123456', id: ID } }));
+});
+
+afterEach(() => mock.restoreAll());
+
+describe('TaskQueryService cursors', () => {
+  test('round-trip the keys Postgres hands back for every sort', () => {
+    const keys = {
+      created: '2026-03-08 16:00:00.123456',
+      updated: '1970-01-01 00:00:00',
+      due: 'infinity',
+      priority: '3',
+      title: 'shoot – day 2, "final"',
+    } as const;
+
+    for (const [sortBy, key] of Object.entries(keys) as [keyof typeof keys, string][]) {
+      const cursor = TaskQueryService.encodeCursor(sortBy, { key, id: ID });
+      assert.deepEqual(TaskQueryService.decodeCursor(sortBy, cursor), { key, id: ID }, sortBy);
+    }
+    assert.deepEqual(TaskQueryService.decodeCursor('due', forge('due', '-infinity', ID)), { key: '-infinity', id: ID });
+  });
+
+  test('refuse keys the SQL cast would choke on', () => {
+    assert.equal(TaskQueryService.decodeCursor('created', forge('created', 'yesterday', ID)), null);
+    assert.equal(TaskQueryService.decodeCursor('due', forge('due', '2026-02-30 00:00:00', ID)), null);
+    assert.equal(TaskQueryService.decodeCursor('due', forge('due', "2026-03-08'; DROP TABLE tasks; --", ID)), null);
+    assert.equal(TaskQueryService.decodeCursor('priority', forge('priority', 'high', ID)), null);
+    assert.equal(TaskQueryService.decodeCursor('priority', forge('priority', '99999999999', ID)), null);
+    assert.equal(TaskQueryService.decodeCursor('title', forge('title', 'nul\u0000byte', ID)), null);
+  });
+
+  test('refuse the wrong shapes', () => {
+    assert.equal(TaskQueryService.decodeCursor('priority', forge('priority', 3, ID)), null);
+    assert.equal(TaskQueryService.decodeCursor('title', forge('title', 'a', 42)), null);
+    assert.equal(TaskQueryService.decodeCursor('title', forge('title', 'a', 'x'.repeat(200))), null);
+    assert.equal(TaskQueryService.decodeCursor('title', forge('created', 'a', ID)), null);
+    assert.equal(TaskQueryService.decodeCursor('title', forge({ key: 'a' })), null);
+    assert.equal(TaskQueryService.decodeCursor('title', 'not base64 json'), null);
+  });
+
+  test('a tampered cursor is a bad request that never reaches storage', async () => {
+    const result = await TaskQueryService.query(admin, { sortBy: 'due', cursor: forge('due', 'soon', ID) });
+
+    assert.deepEqual(result, { ok: false, error: 'Invalid cursor' });
+    assert.equal(queryTasks.mock.callCount(), 0);
+  });
+
+  test('the next cursor of one page opens the next', async () => {
+    const first = await TaskQueryService.query(admin, { sortBy: 'created' });
+    const second = await TaskQueryService.query(admin, { sortBy: 'created', cursor: first.value!.nextCursor });
+
+    assert.equal(second.ok, true);
+    assert.deepEqual((queryTasks.mock.calls[1].arguments as any[])[1].after, { key: '2026-03-08 16:00:00.123456', id: ID });
+  });
+});
+
+describe('TaskQueryService.statusCounts', () => {
+  test('counts under the same filters as the board, saved view included', async () => {
+    mock.method(storage, 'getTaskView', async () => ({ id: 'v1', ownerId: 'admin-1', isShared: false, filters: { priority: ['high'] } }));
+    const count = mock.method(storage, 'countTasksByStatus', async () => ({ in_progress: 250, archived: 3 }));
+
+    const result = await TaskQueryService.statusCounts(admin, { view: 'v1', projectId: 'p1' });
+
+    assert.deepEqual(result, { ok: true, value: { in_progress: 250, archived: 3 } });
+    const [filters] = count.mock.calls[0].arguments as any[];
+    assert.deepEqual([filters.projectId, filters.priority], ['p1', ['high']]);
+  });
+
+  test('someone else\'s private view is not found', async () => {
+    mock.method(storage, 'getTaskView', async () => ({ id: 'v1', ownerId: 'pm-1', isShared: false, filters: {} }));
+
+    assert.deepEqual(await TaskQueryService.statusCounts(admin, { view: 'v1' }), { ok: false, notFound: true, error: 'Saved view not found' });
+  });
+});
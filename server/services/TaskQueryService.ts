@@ -0,0 +1,161 @@
+import { DateTime } from 'luxon';
+import { storage, type TaskCursor, type TaskWithDetails } from '../storage';
+import {
+  taskFiltersSchema,
+  taskPageSchema,
+  type TaskFilters,
+  type TaskView,
+  type User,
+} from '@shared/schema';
+
+interface TaskQueryResult<T> {
+  ok: boolean;
+  value?: T;
+  error?: string;
+  notFound?: boolean;
+  forbidden?: boolean;
+}
+
+export interface TaskPage {
+  tasks: TaskWithDetails[];
+  nextCursor: string | null;
+}
+
+const LIST_PARAMS = ['status', 'priority', 'assigneeRole', 'assigneeId'] as const;
+const TEXT_PARAMS = ['organizationId', 'projectId', 'serviceId', 'dueFrom', 'dueTo', 'sortBy', 'sortDir'] as const;
+const FLAG_PARAMS = ['overdue', 'clientVisible'] as const;
+
+// Cursor keys are Postgres' text form of the sort value and are cast back in SQL (storage's TASK_SORTS),
+// so anything the cast would reject is refused here instead. NUL bytes never make it into a text parameter.
+const isTimestampKey = (key: string) => key === 'infinity' || key === '-infinity' || DateTime.fromSQL(key, { zone: 'utc' }).isValid;
+const CURSOR_KEYS: Record<TaskFilters['sortBy'], (key: string) => boolean> = {
+  created: isTimestampKey,
+  updated: isTimestampKey,
+  due: isTimestampKey,
+  priority: key => /^\d$/.test(key),
+  title: key => !key.includes('\0'),
+};
+const CURSOR_ID = /^[\w-]{1,64}$/;
+
+// Filtered, sorted and cursor-paged task lists, plus the named views people save them as
+export class TaskQueryService {
+  // Query strings carry lists comma-separated and flags as "true" / "false"
+  static filtersFromQuery(query: Record<string, unknown>): Record<string, unknown> {
+    const filters: Record<string, unknown> = {};
+    for (const name of LIST_PARAMS) {
+      const value = query[name];
+      if (typeof value === 'string' && value.trim()) {
+        filters[name] = value.split(',').map(item => item.trim()).filter(Boolean);
+      }
+    }
+    for (const name of TEXT_PARAMS) {
+      const value = query[name];
+      if (typeof value === 'string' && value.trim()) filters[name] = value.trim();
+    }
+    for (const name of FLAG_PARAMS) {
+      if (query[name] === 'true') filters[name] = true;
+      if (query[name] === 'false') filters[name] = false;
+    }
+    return filters;
+  }
+
+  // The sort is part of the cursor so a cursor can't be replayed against a different ordering
+  static encodeCursor(sortBy: TaskFilters['sortBy'], cursor: TaskCursor): string {
+    return Buffer.from(JSON.stringify([sortBy, cursor.key, cursor.id])).toString('base64url');
+  }
+
+  static decodeCursor(sortBy: TaskFilters['sortBy'], value: string): TaskCursor | null {
+    try {
+      const decoded = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+      if (!Array.isArray(decoded) || decoded[0] !== sortBy) return null;
+      const [, key, id] = decoded;
+      if (typeof key !== 'string' || typeof id !== 'string') return null;
+      return CURSOR_KEYS[sortBy](key) && CURSOR_ID.test(id) ? { key, id } : null;
+    } catch {
+      return null;
+    }
+  }
+
+  static canUseView(user: User, view: TaskView): boolean {
+    return view.ownerId === user.id || view.isShared;
+  }
+
+  // A saved view's filters, overridden by anything set explicitly on the query string
+  private static async resolveFilters(user: User, query: Record<string, unknown>): Promise<TaskQueryResult<TaskFilters>> {
+    let base: Record<string, unknown> = {};
+    if (typeof query.view === 'string' && query.view) {
+      const view = await storage.getTaskView(query.view);
+      if (!view || !this.canUseView(user, view)) {
+        return { ok: false, notFound: true, error: 'Saved view not found' };
+      }
+      base = view.filters;
+    }
+
+    const filters = taskFiltersSchema.safeParse({ ...base, ...this.filtersFromQuery(query) });
+    if (!filters.success) {
+      return { ok: false, error: filters.error.errors[0]?.message || 'Invalid filters' };
+    }
+    return { ok: true, value: filters.data };
+  }
+
+  static async query(user: User, query: Record<string, unknown>): Promise<TaskQueryResult<TaskPage>> {
+    const filters = await this.resolveFilters(user, query);
+    if (!filters.ok) return { ok: false, notFound: filters.notFound, error: filters.error };
+    const { sortBy } = filters.value!;
+
+    const page = taskPageSchema.safeParse(query);
+    if (!page.success) {
+      return { ok: false, error: page.error.errors[0]?.message || 'Invalid page' };
+    }
+
+    let after: TaskCursor | undefined;
+    if (page.data.cursor) {
+      after = this.decodeCursor(sortBy, page.data.cursor) || undefined;
+      if (!after) return { ok: false, error: 'Invalid cursor' };
+    }
+
+    const result = await storage.queryTasks(filters.value!, { after, limit: page.data.limit });
+    return {
+      ok: true,
+      value: {
+        tasks: result.tasks,
+        nextCursor: result.next ? this.encodeCursor(sortBy, result.next) : null,
+      },
+    };
+  }
+
+  // How many tasks each status holds under the same filters, however many pages have been loaded
+  static async statusCounts(user: User, query: Record<string, unknown>): Promise<TaskQueryResult<Record<string, number>>> {
+    const filters = await this.resolveFilters(user, query);
+    if (!filters.ok) return { ok: false, notFound: filters.notFound, error: filters.error };
+    return { ok: true, value: await storage.countTasksByStatus(filters.value!) };
+  }
+
+  static async listViews(user: User): Promise<(TaskView & { ownerName: string | null })[]> {
+    return storage.getTaskViews(user.id);
+  }
+
+  static async createView(user: User, input: { name: string; filters: TaskFilters; isShared: boolean }): Promise<TaskView> {
+    return storage.createTaskView({ ...input, ownerId: user.id });
+  }
+
+  // Shared views can be used by everyone but only changed by whoever saved them
+  static async updateView(
+    user: User,
+    id: string,
+    updates: { name?: string; filters?: TaskFilters; isShared?: boolean }
+  ): Promise<TaskQueryResult<TaskView>> {
+    const view = await storage.getTaskView(id);
+    if (!view || !this.canUseView(user, view)) return { ok: false, notFound: true, error: 'Saved view not found' };
+    if (view.ownerId !== user.id) return { ok: false, forbidden: true, error: 'Only the owner can change this view' };
+    return { ok: true, value: await storage.updateTaskView(id, updates) };
+  }
+
+  static async deleteView(user: User, id: string): Promise<TaskQueryResult<TaskView>> {
+    const view = await storage.getTaskView(id);
+    if (!view || !this.canUseView(user, view)) return { ok: false, notFound: true, error: 'Saved view not found' };
+    if (view.ownerId !== user.id) return { ok: false, forbidden: true, error: 'Only the owner can delete this view' };
+    await storage.deleteTaskView(id);
+    return { ok: true, value: view };
+  }
+}
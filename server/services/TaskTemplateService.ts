@@ -0,0 +1,53 @@
+import { storage } from '../storage';
+import { findCycle } from '@shared/taskGraph';
+import type { TaskTemplate } from '@shared/schema';
+
+interface TemplateDependencyCheckResult {
+  ok: boolean;
+  error?: string;
+}
+
+// Guards the dependsOnTemplateId chain of a service's task templates
+export class TaskTemplateService {
+  private static toGraphNodes(templates: TaskTemplate[]) {
+    return templates.map(template => ({
+      id: template.id,
+      dependencies: template.dependsOnTemplateId ? [template.dependsOnTemplateId] : [],
+    }));
+  }
+
+  // Validate a dependsOnTemplateId before it is written (templateId is null for new templates)
+  static async validateDependency(
+    serviceId: string,
+    templateId: string | null,
+    dependsOnTemplateId: string | null | undefined
+  ): Promise<TemplateDependencyCheckResult> {
+    if (!dependsOnTemplateId) {
+      return { ok: true };
+    }
+    if (dependsOnTemplateId === templateId) {
+      return { ok: false, error: 'A template cannot depend on itself' };
+    }
+
+    const templates = await storage.getTaskTemplatesForService(serviceId);
+    if (!templates.some(template => template.id === dependsOnTemplateId)) {
+      return { ok: false, error: 'Templates can only depend on templates of the same service' };
+    }
+
+    // New templates have no dependents yet, so they cannot close a cycle
+    if (!templateId) {
+      return { ok: true };
+    }
+
+    const nodes = this.toGraphNodes(templates).map(node =>
+      node.id === templateId ? { ...node, dependencies: [dependsOnTemplateId] } : node
+    );
+    const cycle = findCycle(nodes);
+    if (cycle) {
+      const titles = new Map(templates.map(template => [template.id, template.title]));
+      return { ok: false, error: `Dependency cycle detected: ${cycle.map(id => titles.get(id)).join(' -> ')}` };
+    }
+
+    return { ok: true };
+  }
+}
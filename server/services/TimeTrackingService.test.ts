@@ -0,0 +1,75 @@
+import '../test/env';
+import { afterEach, describe, mock, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { storage } from '../storage';
+import { TimeTrackingService } from './TimeTrackingService';
+
+// A finished 30-minute entry started at the given UTC instant
+const entry = (startedAt: string) => ({
+  id: startedAt,
+  taskId: 'task-1',
+  teamMemberId: 'tm-1',
+  startedAt: new Date(startedAt),
+  endedAt: new Date(new Date(startedAt).getTime() + 30 * 60_000),
+  durationMinutes: 30,
+  task: { id: 'task-1', title: 'Retouching' },
+  project: { id: 'p1', name: 'Spring campaign' },
+});
+
+const timesheetFor = async (startedAt: string[], weekOf: string, timezone: string) => {
+  const lookup = mock.method(storage, 'getTimeEntriesForTeamMember', async () => startedAt.map(entry));
+  const timesheet = await TimeTrackingService.getWeeklyTimesheet('tm-1', weekOf, timezone);
+  return { timesheet, range: lookup.mock.calls[0].arguments.slice(1) as Date[] };
+};
+
+afterEach(() => mock.restoreAll());
+
+describe('TimeTrackingService.getWeeklyTimesheet day buckets across DST', () => {
+  test('a 23-hour day mid-week keeps later days in their own columns', async () => {
+    // Asia/Jerusalem springs forward on Friday 2026-03-27 at 02:00
+    const { timesheet, range } = await timesheetFor([
+      '2026-03-26T21:30:00Z', // Thu 23:30 +02
+      '2026-03-27T07:00:00Z', // Fri 10:00 +03
+      '2026-03-27T21:30:00Z', // Sat 00:30 +03
+    ], '2026-03-25', 'Asia/Jerusalem');
+
+    assert.equal(timesheet.weekStart, '2026-03-23');
+    assert.deepEqual(timesheet.dailyTotals, [0, 0, 0, 30, 30, 30, 0]);
+    assert.deepEqual(range.map(date => date.toISOString()), ['2026-03-22T22:00:00.000Z', '2026-03-29T21:00:00.000Z']);
+  });
+
+  test('both passes through a repeated hour land on the same 25-hour day', async () => {
+    // Africa/Cairo falls back at the end of Thursday 2026-10-29, repeating 23:00-24:00
+    const { timesheet } = await timesheetFor([
+      '2026-10-29T20:30:00Z', // Thu 23:30 +03
+      '2026-10-29T21:30:00Z', // Thu 23:30 +02
+      '2026-10-29T22:30:00Z', // Fri 00:30 +02
+    ], '2026-10-28', 'Africa/Cairo');
+
+    assert.deepEqual(timesheet.dailyTotals, [0, 0, 0, 60, 30, 0, 0]);
+    assert.deepEqual(timesheet.rows[0].minutesByDay, [0, 0, 0, 60, 30, 0, 0]);
+    assert.equal(timesheet.totalMinutes, 90);
+  });
+
+  test('a day whose midnight is skipped still gets its own column', async () => {
+    // Africa/Cairo springs forward at midnight into Friday 2026-04-24, so that day starts at 01:00
+    const { timesheet } = await timesheetFor([
+      '2026-04-23T21:30:00Z', // Thu 23:30 +02
+      '2026-04-23T22:30:00Z', // Fri 01:30 +03
+    ], '2026-04-22', 'Africa/Cairo');
+
+    assert.deepEqual(timesheet.days, ['2026-04-20', '2026-04-21', '2026-04-22', '2026-04-23', '2026-04-24', '2026-04-25', '2026-04-26']);
+    assert.deepEqual(timesheet.dailyTotals, [0, 0, 0, 30, 30, 0, 0]);
+  });
+
+  test('buckets by the viewer zone, not UTC', async () => {
+    // Sunday 2026-03-08 is spring-forward day in Vancouver; 06:30Z is still Saturday evening there
+    const { timesheet } = await timesheetFor([
+      '2026-03-08T06:30:00Z',
+      '2026-03-09T06:30:00Z',
+    ], '2026-03-04', 'America/Vancouver');
+
+    assert.equal(timesheet.timezone, 'America/Vancouver');
+    assert.deepEqual(timesheet.dailyTotals, [0, 0, 0, 0, 0, 30, 30]);
+  });
+});
@@ -0,0 +1,289 @@
+import { DateTime } from 'luxon';
+import { storage } from '../storage';
+import { AccessService } from './AccessService';
+import { pool } from '../db';
+import { resolveTimezone } from '@shared/timezone';
+import type { TaskAssignment, TimeEntry } from '@shared/schema';
+
+interface TimeEntryResult {
+  ok: boolean;
+  entry?: TimeEntry;
+  error?: string;
+}
+
+export interface TimesheetRow {
+  taskId: string;
+  taskTitle: string;
+  projectId: string | null;
+  projectName: string | null;
+  minutesByDay: number[]; // Monday first
+  totalMinutes: number;
+}
+
+export interface WeeklyTimesheet {
+  teamMemberId: string;
+  timezone: string;
+  weekStart: string; // YYYY-MM-DD (Monday)
+  days: string[];    // YYYY-MM-DD, Monday..Sunday
+  rows: TimesheetRow[];
+  dailyTotals: number[];
+  totalMinutes: number;
+  entries: (TimeEntry & { taskTitle: string; projectName: string | null })[];
+}
+
+export interface BillingReportRow {
+  projectId: string | null;
+  projectName: string | null;
+  serviceId: string | null;
+  serviceName: string | null;
+  teamMemberId: string;
+  teamMemberName: string;
+  estimatedHours: number;
+  billedHours: number;
+  varianceHours: number; // billed - estimated (positive = over estimate)
+}
+
+export interface BillingReport {
+  from: string | null;
+  to: string | null;
+  rows: BillingReportRow[];
+  totals: { estimatedHours: number; billedHours: number; varianceHours: number };
+}
+
+const roundHours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+
+// Timers and manual entries per assignment; finished entries roll up into actualHours
+export class TimeTrackingService {
+  // Team members track their own time; people who manage the team can manage anyone's
+  static async canAccess(user: { role?: string | null; email?: string | null } | undefined, teamMemberId: string): Promise<boolean> {
+    if (AccessService.can(user, 'team.manage')) return true;
+    const teamMember = await storage.getTeamMember(teamMemberId);
+    return !!teamMember && !!user?.email && teamMember.email === user.email;
+  }
+
+  private static minutesBetween(start: Date, end: Date): number {
+    return Math.max(1, Math.round((end.getTime() - start.getTime()) / 60000));
+  }
+
+  // Keep assignment.actualHours and task.actualHours in step with the tracked minutes
+  static async rollUp(taskAssignmentId: string | null, taskId: string): Promise<void> {
+    if (taskAssignmentId) {
+      const assignmentMinutes = await storage.getTrackedMinutes({ taskAssignmentId });
+      await storage.updateTaskAssignment(taskAssignmentId, { actualHours: roundHours(assignmentMinutes) });
+    }
+    const taskMinutes = await storage.getTrackedMinutes({ taskId });
+    await storage.updateTask(taskId, { actualHours: roundHours(taskMinutes) });
+  }
+
+  // A team member runs one timer at a time: starting a new one stops the previous timer
+  static async startTimer(assignment: TaskAssignment, createdBy: string, notes?: string | null): Promise<TimeEntryResult> {
+    const running = await storage.getRunningTimeEntry(assignment.teamMemberId);
+    if (running?.taskAssignmentId === assignment.id) {
+      return { ok: false, error: 'A timer is already running for this task' };
+    }
+    if (running) {
+      await this.stopTimer(running);
+    }
+
+    const entry = await storage.createTimeEntry({
+      taskAssignmentId: assignment.id,
+      taskId: assignment.taskId,
+      teamMemberId: assignment.teamMemberId,
+      startedAt: new Date(),
+      source: 'timer',
+      notes: notes || null,
+      createdBy,
+    });
+    return { ok: true, entry };
+  }
+
+  static async stopTimer(entry: TimeEntry, notes?: string | null): Promise<TimeEntryResult> {
+    if (entry.endedAt) {
+      return { ok: false, error: 'This timer has already been stopped' };
+    }
+
+    const endedAt = new Date();
+    const stopped = await storage.updateTimeEntry(entry.id, {
+      endedAt,
+      durationMinutes: this.minutesBetween(entry.startedAt, endedAt),
+      ...(notes !== undefined ? { notes } : {}),
+    });
+    await this.rollUp(stopped.taskAssignmentId, stopped.taskId);
+    return { ok: true, entry: stopped };
+  }
+
+  static async logManualEntry(
+    assignment: TaskAssignment,
+    input: { startedAt: Date; durationMinutes: number; notes?: string | null },
+    createdBy: string
+  ): Promise<TimeEntryResult> {
+    const entry = await storage.createTimeEntry({
+      taskAssignmentId: assignment.id,
+      taskId: assignment.taskId,
+      teamMemberId: assignment.teamMemberId,
+      startedAt: input.startedAt,
+      endedAt: DateTime.fromJSDate(input.startedAt).plus({ minutes: input.durationMinutes }).toJSDate(),
+      durationMinutes: input.durationMinutes,
+      source: 'manual',
+      notes: input.notes || null,
+      createdBy,
+    });
+    await this.rollUp(entry.taskAssignmentId, entry.taskId);
+    return { ok: true, entry };
+  }
+
+  // Corrections to finished entries; the end time follows the start and duration
+  static async updateEntry(
+    entry: TimeEntry,
+    input: { startedAt?: Date; durationMinutes?: number | null; notes?: string | null }
+  ): Promise<TimeEntryResult> {
+    if (!entry.endedAt) {
+      return { ok: false, error: 'Stop the timer before editing this entry' };
+    }
+
+    const startedAt = input.startedAt ?? entry.startedAt;
+    const durationMinutes = input.durationMinutes ?? entry.durationMinutes ?? this.minutesBetween(entry.startedAt, entry.endedAt);
+    const updated = await storage.updateTimeEntry(entry.id, {
+      startedAt,
+      endedAt: DateTime.fromJSDate(startedAt).plus({ minutes: durationMinutes }).toJSDate(),
+      durationMinutes,
+      ...(input.notes !== undefined ? { notes: input.notes } : {}),
+    });
+    await this.rollUp(updated.taskAssignmentId, updated.taskId);
+    return { ok: true, entry: updated };
+  }
+
+  static async deleteEntry(entry: TimeEntry): Promise<void> {
+    await storage.deleteTimeEntry(entry.id);
+    await this.rollUp(entry.taskAssignmentId, entry.taskId);
+  }
+
+  // Monday-to-Sunday grid of tracked minutes per task, in the team member's timezone
+  static async getWeeklyTimesheet(teamMemberId: string, weekOf?: string, timezone?: string | null): Promise<WeeklyTimesheet> {
+    const zone = resolveTimezone(timezone);
+    const reference = weekOf ? DateTime.fromISO(weekOf, { zone }) : DateTime.now().setZone(zone);
+    const weekStart = (reference.isValid ? reference : DateTime.now().setZone(zone)).startOf('week');
+    const weekEnd = weekStart.plus({ weeks: 1 });
+    const days = Array.from({ length: 7 }, (_, i) => weekStart.plus({ days: i }).toISODate()!);
+
+    const entries = await storage.getTimeEntriesForTeamMember(teamMemberId, weekStart.toJSDate(), weekEnd.toJSDate());
+    const now = new Date();
+    const rows = new Map<string, TimesheetRow>();
+    const dailyTotals = Array(7).fill(0);
+
+    for (const entry of entries) {
+      // Running timers count up to now so the current day is not empty while working
+      const minutes = entry.durationMinutes ?? this.minutesBetween(entry.startedAt, now);
+      // Calendar-day index (rounded so 23h/25h DST days still land on the right column)
+      const dayIndex = Math.round(DateTime.fromJSDate(entry.startedAt).setZone(zone).startOf('day').diff(weekStart, 'days').days);
+
+      const row = rows.get(entry.taskId) || {
+        taskId: entry.taskId,
+        taskTitle: entry.task.title,
+        projectId: entry.project?.id ?? null,
+        projectName: entry.project?.name ?? null,
+        minutesByDay: Array(7).fill(0),
+        totalMinutes: 0,
+      };
+      row.minutesByDay[dayIndex] += minutes;
+      row.totalMinutes += minutes;
+      rows.set(entry.taskId, row);
+      dailyTotals[dayIndex] += minutes;
+    }
+
+    return {
+      teamMemberId,
+      timezone: zone,
+      weekStart: days[0],
+      days,
+      rows: Array.from(rows.values()),
+      dailyTotals,
+      totalMinutes: dailyTotals.reduce((sum, minutes) => sum + minutes, 0),
+      entries: entries.map(({ task, project, ...entry }) => ({
+        ...entry,
+        taskTitle: task.title,
+        projectName: project?.name ?? null,
+      })),
+    };
+  }
+
+  // Billed (tracked) hours against estimates, per project / service / team member
+  static async getBillingReport(filters: { projectId?: string; from?: Date | null; to?: Date | null }): Promise<BillingReport> {
+    const projectId = filters.projectId || null;
+    const from = filters.from || null;
+    const to = filters.to || null;
+
+    // Estimates come from the assignments (falling back to the task estimate)
+    const estimates = await pool.query(`
+      SELECT t.project_id, p.name AS project_name, t.service_id, s.name AS service_name,
+             tm.id AS team_member_id, tm.name AS team_member_name,
+             SUM(COALESCE(ta.estimated_hours, t.estimated_hours, 0)) AS estimated_hours
+      FROM task_assignments ta
+      JOIN tasks t ON t.id = ta.task_id AND t.deleted_at IS NULL
+      JOIN team_members tm ON tm.id = ta.team_member_id
+      LEFT JOIN projects p ON p.id = t.project_id
+      LEFT JOIN services s ON s.id = t.service_id
+      WHERE ($1::varchar IS NULL OR t.project_id = $1)
+      GROUP BY t.project_id, p.name, t.service_id, s.name, tm.id, tm.name
+    `, [projectId]);
+
+    // Tracked time is read from the entries so it survives unassignment
+    const tracked = await pool.query(`
+      SELECT t.project_id, p.name AS project_name, t.service_id, s.name AS service_name,
+             tm.id AS team_member_id, tm.name AS team_member_name,
+             SUM(te.duration_minutes) AS tracked_minutes
+      FROM time_entries te
+      JOIN tasks t ON t.id = te.task_id AND t.deleted_at IS NULL
+      JOIN team_members tm ON tm.id = te.team_member_id
+      LEFT JOIN projects p ON p.id = t.project_id
+      LEFT JOIN services s ON s.id = t.service_id
+      WHERE te.duration_minutes IS NOT NULL
+        AND ($1::varchar IS NULL OR t.project_id = $1)
+        AND ($2::timestamptz IS NULL OR te.started_at >= $2)
+        AND ($3::timestamptz IS NULL OR te.started_at < $3)
+      GROUP BY t.project_id, p.name, t.service_id, s.name, tm.id, tm.name
+    `, [projectId, from, to]);
+
+    const rows = new Map<string, BillingReportRow>();
+    const rowFor = (record: any): BillingReportRow => {
+      const key = `${record.project_id}|${record.service_id}|${record.team_member_id}`;
+      const row = rows.get(key) || {
+        projectId: record.project_id,
+        projectName: record.project_name,
+        serviceId: record.service_id,
+        serviceName: record.service_name,
+        teamMemberId: record.team_member_id,
+        teamMemberName: record.team_member_name,
+        estimatedHours: 0,
+        billedHours: 0,
+        varianceHours: 0,
+      };
+      rows.set(key, row);
+      return row;
+    };
+
+    for (const record of estimates.rows) {
+      rowFor(record).estimatedHours = Number(record.estimated_hours) || 0;
+    }
+    for (const record of tracked.rows) {
+      rowFor(record).billedHours = roundHours(Number(record.tracked_minutes) || 0);
+    }
+
+    const sorted = Array.from(rows.values())
+      .map(row => ({ ...row, varianceHours: Math.round((row.billedHours - row.estimatedHours) * 100) / 100 }))
+      .sort((a, b) =>
+        (a.projectName || '').localeCompare(b.projectName || '') ||
+        (a.serviceName || '').localeCompare(b.serviceName || '') ||
+        a.teamMemberName.localeCompare(b.teamMemberName)
+      );
+
+    const estimatedHours = sorted.reduce((sum, row) => sum + row.estimatedHours, 0);
+    const billedHours = Math.round(sorted.reduce((sum, row) => sum + row.billedHours, 0) * 100) / 100;
+    return {
+      from: from ? from.toISOString() : null,
+      to: to ? to.toISOString() : null,
+      rows: sorted,
+      totals: { estimatedHours, billedHours, varianceHours: Math.round((billedHours - estimatedHours) * 100) / 100 },
+    };
+  }
+}
@@ -27,16 +27,24 @@ import {
   type InsertTask,
   type TaskAssignment,
   type InsertTaskAssignment,
+  timeEntries,
+  type TimeEntry,
+  type InsertTimeEntry,
   type ProjectFile,
   type InsertProjectFile,
   type Analytics,
   type InsertAnalytics,
   type Message,
   type InsertMessage,
+  messageRevisions,
+  type MessageRevision,
+  type InsertMessageRevision,
   type Kpi,
   type InsertKpi,
   type TeamInvitation,
   type InsertTeamInvitation,
+  type TaskTemplate,
+  type InsertTaskTemplate,
   type TeamMember,
   type InsertTeamMember,
   quotes,
@@ -51,9 +59,90 @@ import {
   type InsertProposal,
   type ProposalItem,
   type InsertProposalItem,
+  proposalProjects,
+  type ProposalProject,
+  type InsertProposalProject,
+  proposalLinks,
+  proposalSignatures,
+  type ProposalLink,
+  type InsertProposalLink,
+  type ProposalSignature,
+  type InsertProposalSignature,
+  icalFeeds,
+  type IcalFeed,
+  type InsertIcalFeed,
+  approvalRequests,
+  type ApprovalRequest,
+  type InsertApprovalRequest,
+  notifications,
+  type Notification,
+  type InsertNotification,
+  fileComments,
+  type FileComment,
+  type InsertFileComment,
+  billingRates,
+  invoices,
+  invoiceLineItems,
+  invoiceTaxLines,
+  invoicePayments,
+  type BillingRate,
+  type Invoice,
+  type InsertInvoice,
+  type InvoiceLineItem,
+  type InsertInvoiceLineItem,
+  type InvoiceTaxLine,
+  type InsertInvoiceTaxLine,
+  type InvoicePayment,
+  type InsertInvoicePayment,
+  jobs,
+  type Job,
+  calendarSyncConflicts,
+  type CalendarSyncConflict,
+  type InsertCalendarSyncConflict,
+  projectMembers,
+  type ProjectMember,
+  taskViews,
+  type TaskView,
+  type InsertTaskView,
+  type TaskFilters,
+  boardWipLimits,
+  TASK_STATUSES,
+  type WipLimits,
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, gte, lte, inArray, isNull, isNotNull, or } from "drizzle-orm";
+import { computeDueAt } from "./utils/timeHandling";
+import { eq, asc, desc, and, gte, lt, lte, inArray, isNull, isNotNull, or, sql, type SQL } from "drizzle-orm";
+
+export type TaskWithDetails = Task & {
+  service?: Service;
+  project?: Project & { organization?: Organization };
+  organization?: Organization;
+  assignments: (TaskAssignment & { teamMember: TeamMember })[];
+};
+
+// Position after the last task of a page: its sort value as text, then its id
+export interface TaskCursor {
+  key: string;
+  id: string;
+}
+
+// Keyset-paged orderings; nulls use a sentinel so every task sorts and pages consistently
+const TASK_SORTS: Record<TaskFilters['sortBy'], { expression: (dir: 'asc' | 'desc') => SQL; cast: string }> = {
+  created: { expression: () => sql`COALESCE(${tasks.createdAt}, 'epoch'::timestamp)`, cast: 'timestamp' },
+  updated: { expression: () => sql`COALESCE(${tasks.updatedAt}, 'epoch'::timestamp)`, cast: 'timestamp' },
+  due: {
+    // Undated tasks come last either way
+    expression: (dir) => dir === 'asc'
+      ? sql`COALESCE(${tasks.dueDate}, 'infinity'::timestamp)`
+      : sql`COALESCE(${tasks.dueDate}, '-infinity'::timestamp)`,
+    cast: 'timestamp',
+  },
+  priority: {
+    expression: () => sql`CASE ${tasks.priority} WHEN 'urgent' THEN 4 WHEN 'high' THEN 3 WHEN 'medium' THEN 2 WHEN 'low' THEN 1 ELSE 0 END`,
+    cast: 'integer',
+  },
+  title: { expression: () => sql`LOWER(${tasks.title})`, cast: 'text' },
+};
 
 export interface IStorage {
   // User operations (required for Replit Auth)
@@ -62,6 +151,7 @@ export interface IStorage {
   upsertUser(user: UpsertUser): Promise<User>;
   createUser(user: UpsertUser): Promise<User>;
   getClientUsers(): Promise<User[]>;
+  getActiveUsers(): Promise<User[]>;
   
   // Organization operations
   getOrganizations(): Promise<Organization[]>;
@@ -80,6 +170,13 @@ export interface IStorage {
   createProject(project: InsertProject): Promise<Project>;
   updateProject(id: string, updates: Partial<InsertProject>): Promise<Project>;
   updateProjectOrder(organizationId: string, projectOrders: { id: string; displayOrder: number }[]): Promise<void>;
+
+  // Project membership operations
+  getProjectMembers(projectId: string): Promise<(ProjectMember & { user: User })[]>;
+  isProjectMember(projectId: string, userId: string): Promise<boolean>;
+  getMemberProjectIds(userId: string): Promise<string[]>;
+  addProjectMember(projectId: string, userId: string, addedBy: string): Promise<ProjectMember>;
+  removeProjectMember(projectId: string, userId: string): Promise<boolean>;
   
   // Service category operations
   getServiceCategories(): Promise<ServiceCategory[]>;
@@ -98,20 +195,41 @@ export interface IStorage {
   getTasksByProject(projectId: string): Promise<Task[]>;
   getProjectTasks(projectId: string): Promise<Task[]>; // Alias for getTasksByProject for calendar integration
   getTasksByProjectWithDetails(projectId: string): Promise<(Task & { service?: Service })[]>;
-  getAllTasksWithDetails(): Promise<(Task & { service?: Service; project?: Project; organization?: Organization; assignments?: any[] })[]>;
+  getAllTasksWithDetails(): Promise<TaskWithDetails[]>;
+  queryTasks(filters: TaskFilters, page: { after?: TaskCursor; limit: number }): Promise<{ tasks: TaskWithDetails[]; next: TaskCursor | null }>;
+  countTasksByStatus(filters: TaskFilters): Promise<Record<string, number>>;
+  getTaskViews(userId: string): Promise<(TaskView & { ownerName: string | null })[]>;
+  getTaskView(id: string): Promise<TaskView | undefined>;
+  createTaskView(view: InsertTaskView): Promise<TaskView>;
+  updateTaskView(id: string, updates: Partial<InsertTaskView>): Promise<TaskView>;
+  deleteTaskView(id: string): Promise<void>;
+  getWipLimits(projectId: string | null): Promise<WipLimits>;
+  setWipLimits(projectId: string | null, limits: Partial<Record<string, number | null>>, updatedBy: string): Promise<WipLimits>;
   getTasksQuery(filters: { title?: string; createdAfter?: Date; createdBefore?: Date; assignedToTeamMember?: string; }): Promise<Task[]>;
   createTask(task: InsertTask): Promise<Task>;
   updateTask(id: string, updates: Partial<InsertTask>): Promise<Task>;
   softDeleteTask(id: string, deletedBy: string): Promise<void>;
+  getRecurrenceOccurrences(seriesId: string): Promise<Task[]>;
+  getRecurringSeriesMasters(): Promise<Task[]>;
   
   // Task template operations (for Faces of Kelowna workflow)
-  getTaskTemplatesForService(serviceId: string): Promise<any[]>;
-  createTasksFromTemplates(projectId: string, serviceId: string): Promise<void>;
+  getTaskTemplatesForService(serviceId: string): Promise<TaskTemplate[]>;
+  getTaskTemplate(id: string): Promise<TaskTemplate | undefined>;
+  createTaskTemplate(template: InsertTaskTemplate): Promise<TaskTemplate>;
+  updateTaskTemplate(id: string, updates: Partial<InsertTaskTemplate>): Promise<TaskTemplate>;
+  deleteTaskTemplate(id: string): Promise<void>;
+  updateTaskTemplateOrder(serviceId: string, templateOrders: { id: string; displayOrder: number }[]): Promise<void>;
+  cloneTaskTemplates(sourceServiceId: string, targetServiceId: string): Promise<TaskTemplate[]>;
   
   // File operations
   getFilesByProject(projectId: string): Promise<ProjectFile[]>;
   createProjectFile(file: InsertProjectFile): Promise<ProjectFile>;
   getProjectFile(id: string): Promise<ProjectFile | undefined>;
+  updateProjectFile(id: string, updates: Partial<InsertProjectFile>): Promise<ProjectFile | undefined>;
+  getFileVersions(versionGroupId: string): Promise<ProjectFile[]>;
+  getFileComment(id: string): Promise<FileComment | undefined>;
+  createFileComment(comment: InsertFileComment): Promise<FileComment>;
+  updateFileComment(id: string, updates: Partial<InsertFileComment>): Promise<FileComment | undefined>;
   
   // Analytics operations
   getAnalyticsByProject(projectId: string, startDate?: Date, endDate?: Date): Promise<Analytics[]>;
@@ -120,6 +238,10 @@ export interface IStorage {
   // Message operations
   getMessagesByProject(projectId: string): Promise<(Message & { sender: User })[]>;
   createMessage(message: InsertMessage): Promise<Message>;
+  getMessage(id: string): Promise<Message | undefined>;
+  updateMessage(id: string, updates: Partial<Message>): Promise<Message | undefined>;
+  getMessageRevisions(messageId: string): Promise<MessageRevision[]>;
+  createMessageRevision(revision: InsertMessageRevision): Promise<MessageRevision>;
 
   // KPI operations
   getKpisByProject(projectId: string): Promise<Kpi[]>;
@@ -142,11 +264,19 @@ export interface IStorage {
   createTaskAssignment(assignment: InsertTaskAssignment): Promise<TaskAssignment>;
   updateTaskAssignment(id: string, updates: Partial<InsertTaskAssignment>): Promise<TaskAssignment>;
   deleteTaskAssignment(id: string): Promise<void>;
+
+  // Time tracking operations
+  getTimeEntry(id: string): Promise<TimeEntry | undefined>;
+  getTimeEntriesForAssignment(assignmentId: string): Promise<TimeEntry[]>;
+  getTimeEntriesForTeamMember(teamMemberId: string, from: Date, to: Date): Promise<(TimeEntry & { task: Task; project?: Project })[]>;
+  getRunningTimeEntry(teamMemberId: string): Promise<TimeEntry | undefined>;
+  createTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry>;
+  updateTimeEntry(id: string, updates: Partial<InsertTimeEntry>): Promise<TimeEntry>;
+  deleteTimeEntry(id: string): Promise<void>;
+  getTrackedMinutes(filter: { taskAssignmentId?: string; taskId?: string }): Promise<number>;
   
   // Calendar integration methods
   getUserByTeamMemberId(teamMemberId: string): Promise<User | undefined>;
-  setAssignmentCalendarEventId(assignmentId: string, eventId: string): Promise<void>;
-  clearAssignmentCalendarEventId(assignmentId: string): Promise<void>;
 
   // Team invitation operations
   createTeamInvitation(invitation: InsertTeamInvitation): Promise<TeamInvitation>;
@@ -163,6 +293,7 @@ export interface IStorage {
   convertQuoteToProject(quoteId: string): Promise<Project>;
   getQuoteLineItems(quoteId: string): Promise<QuoteLineItem[]>;
   createQuoteLineItem(lineItem: InsertQuoteLineItem): Promise<QuoteLineItem>;
+  replaceQuoteLineItems(quoteId: string, lineItems: InsertQuoteLineItem[]): Promise<QuoteLineItem[]>;
   
   // Proposal operations
   createProposal(proposal: InsertProposal): Promise<Proposal>;
@@ -172,6 +303,61 @@ export interface IStorage {
   createProposalItem(item: InsertProposalItem): Promise<ProposalItem>;
   getProposalItems(proposalId: string): Promise<ProposalItem[]>;
   updateProposalItem(id: string, updates: Partial<InsertProposalItem>): Promise<ProposalItem>;
+  getProposalProjects(proposalId: string): Promise<ProposalProject[]>;
+  createProposalProjects(links: InsertProposalProject[]): Promise<ProposalProject[]>;
+  getProposalLinks(proposalId: string): Promise<ProposalLink[]>;
+  getProposalLinkByToken(token: string): Promise<ProposalLink | undefined>;
+  createProposalLink(link: InsertProposalLink): Promise<ProposalLink>;
+  updateProposalLink(id: string, updates: Partial<InsertProposalLink>): Promise<ProposalLink>;
+  getProposalSignatures(proposalId: string): Promise<ProposalSignature[]>;
+  createProposalSignature(signature: InsertProposalSignature): Promise<ProposalSignature>;
+
+  // iCalendar feed operations
+  getIcalFeeds(filter: { createdBy?: string; scope?: string; scopeId?: string }): Promise<IcalFeed[]>;
+  getIcalFeed(id: string): Promise<IcalFeed | undefined>;
+  getIcalFeedByToken(token: string): Promise<IcalFeed | undefined>;
+  createIcalFeed(feed: InsertIcalFeed): Promise<IcalFeed>;
+  updateIcalFeed(id: string, updates: Partial<InsertIcalFeed>): Promise<IcalFeed | undefined>;
+
+  // Approval operations
+  getApprovalRequests(filter: { taskId?: string; fileId?: string; projectId?: string; status?: string }): Promise<ApprovalRequest[]>;
+  getApprovalRequest(id: string): Promise<ApprovalRequest | undefined>;
+  createApprovalRequest(request: InsertApprovalRequest): Promise<ApprovalRequest>;
+  updateApprovalRequest(id: string, updates: Partial<InsertApprovalRequest>): Promise<ApprovalRequest | undefined>;
+
+  // Notification operations
+  getNotifications(userId: string, limit?: number): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: string): Promise<number>;
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  markNotificationRead(id: string, userId: string): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: string): Promise<void>;
+
+  // Invoice operations
+  getBillingRates(): Promise<BillingRate[]>;
+  upsertBillingRate(role: string, hourlyRate: string): Promise<BillingRate>;
+  deleteBillingRate(role: string): Promise<void>;
+  getInvoices(filter?: { organizationId?: string; billedTo?: { clientId: string; organizationId: string | null }; includeDrafts?: boolean }): Promise<Invoice[]>;
+  getInvoice(id: string): Promise<Invoice | undefined>;
+  createInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  updateInvoice(id: string, updates: Partial<InsertInvoice>): Promise<Invoice>;
+  deleteInvoice(id: string): Promise<void>;
+  getInvoiceLineItems(invoiceId: string): Promise<InvoiceLineItem[]>;
+  replaceInvoiceLineItems(invoiceId: string, items: InsertInvoiceLineItem[]): Promise<InvoiceLineItem[]>;
+  getInvoicedQuantities(sourceType: string, sourceIds: string[]): Promise<Record<string, number>>;
+  getInvoiceTaxLines(invoiceId: string): Promise<InvoiceTaxLine[]>;
+  replaceInvoiceTaxLines(invoiceId: string, lines: InsertInvoiceTaxLine[]): Promise<InvoiceTaxLine[]>;
+  getInvoicePayments(invoiceId: string): Promise<InvoicePayment[]>;
+  createInvoicePayment(payment: InsertInvoicePayment): Promise<InvoicePayment>;
+
+  // Background job operations (queueing and claiming live in JobQueueService)
+  getJobs(filter?: { status?: string; type?: string; limit?: number }): Promise<Job[]>;
+  getJob(id: string): Promise<Job | undefined>;
+  getJobStatusCounts(): Promise<Record<string, number>>;
+
+  // Calendar sync conflict operations (detection lives in CalendarPullService)
+  getCalendarSyncConflicts(taskId: string): Promise<CalendarSyncConflict[]>;
+  getCalendarSyncConflict(id: string): Promise<CalendarSyncConflict | undefined>;
+  updateCalendarSyncConflict(id: string, updates: Partial<InsertCalendarSyncConflict>): Promise<CalendarSyncConflict>;
 
   // Soft delete operations
   softDeleteOrganization(id: string, deletedBy: string): Promise<void>;
@@ -199,7 +385,8 @@ export interface IStorage {
     expiryDate: Date | null;
   }): Promise<User>;
   updateUserCalendarSync(userId: string, enabled: boolean): Promise<User>;
-  updateTaskCalendarEvent(taskId: string, eventId: string | null): Promise<Task>;
+  updateUserTimezone(userId: string, timezone: string): Promise<User>;
+  updateUserCalendarProvider(userId: string, provider: string | null): Promise<User>;
   
   // Helper methods for OAuth user identification
   getUserIdByEmail(email: string): Promise<string | null>;
@@ -239,10 +426,14 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getClientUsers(): Promise<User[]> {
-    const result = await db.select().from(users).where(and(eq(users.role, 'client'), isNull(users.deletedAt)));
+    const result = await db.select().from(users).where(and(inArray(users.role, ['client', 'client_admin', 'client_viewer']), isNull(users.deletedAt)));
     return result;
   }
 
+  async getActiveUsers(): Promise<User[]> {
+    return db.select().from(users).where(isNull(users.deletedAt)).orderBy(asc(users.email));
+  }
+
   // Project operations
   async getProjectsByClient(clientId: string): Promise<Project[]> {
     return db.select().from(projects).where(and(eq(projects.clientId, clientId), isNull(projects.deletedAt))).orderBy(desc(projects.createdAt));
@@ -352,6 +543,22 @@ export class DatabaseStorage implements IStorage {
     )).orderBy(desc(tasks.createdAt));
   }
 
+  // Active occurrences of a recurring series (including the master), oldest slot first
+  async getRecurrenceOccurrences(seriesId: string): Promise<Task[]> {
+    return db.select().from(tasks).where(and(
+      eq(tasks.recurrenceSeriesId, seriesId),
+      isNull(tasks.deletedAt)
+    )).orderBy(tasks.recurrenceOccurrenceAt);
+  }
+
+  async getRecurringSeriesMasters(): Promise<Task[]> {
+    return db.select().from(tasks).where(and(
+      isNotNull(tasks.recurrenceRule),
+      eq(tasks.recurrenceSeriesId, tasks.id),
+      isNull(tasks.deletedAt)
+    ));
+  }
+
   async getTasksByProjectWithDetails(projectId: string): Promise<(Task & { service?: Service })[]> {
     const result = await db
       .select({
@@ -372,8 +579,8 @@ export class DatabaseStorage implements IStorage {
     }));
   }
 
-  async getAllTasksWithDetails(): Promise<(Task & { service?: Service; project?: Project; assignments?: any[] })[]> {
-    const result = await db
+  async getAllTasksWithDetails(): Promise<TaskWithDetails[]> {
+    const rows = await db
       .select({
         task: tasks,
         service: services,
@@ -387,35 +594,125 @@ export class DatabaseStorage implements IStorage {
       .where(isNull(tasks.deletedAt))
       .orderBy(desc(tasks.createdAt));
 
-    // Get assignments for all tasks
-    const tasksWithAssignments = await Promise.all(
-      result.map(async ({ task, service, project, organization }) => {
-        const assignments = await this.getTaskAssignments(task.id);
-        
-        // If there are assignments, use the first one's team member as assignedTo
-        let assignedTo = task.assignedTo;
-        if (assignments.length > 0 && !assignedTo) {
-          assignedTo = assignments[0].teamMember?.name || assignments[0].teamMember?.email;
-        }
-        
-        // Include organization information as part of project if available
-        const projectWithOrg = project ? {
-          ...project,
-          organization: organization || undefined
-        } : undefined;
-        
-        return {
-          ...task,
-          assignedTo, // Update assignedTo with assignment data if needed
-          service: service || undefined,
-          project: projectWithOrg,
-          organization: organization || undefined, // Add organization directly to task
-          assignments,
-        };
+    return this.withTaskDetails(rows);
+  }
+
+  // WHERE conditions for the task query filters; callers join projects for the organization filter
+  private taskFilterConditions(filters: TaskFilters): SQL[] {
+    const conditions: SQL[] = [isNull(tasks.deletedAt)];
+    if (filters.status?.length) conditions.push(inArray(tasks.status, filters.status));
+    if (filters.priority?.length) conditions.push(inArray(tasks.priority, filters.priority));
+    if (filters.assigneeRole?.length) conditions.push(inArray(tasks.assigneeRole, filters.assigneeRole));
+    if (filters.assigneeId?.length) {
+      const memberIds = filters.assigneeId.filter(id => id !== 'unassigned');
+      const assigned = memberIds.length > 0
+        ? sql`EXISTS (SELECT 1 FROM ${taskAssignments} WHERE ${taskAssignments.taskId} = ${tasks.id} AND ${inArray(taskAssignments.teamMemberId, memberIds)})`
+        : undefined;
+      const unassigned = filters.assigneeId.includes('unassigned')
+        ? sql`NOT EXISTS (SELECT 1 FROM ${taskAssignments} WHERE ${taskAssignments.taskId} = ${tasks.id})`
+        : undefined;
+      conditions.push(or(assigned, unassigned)!);
+    }
+    // Organization tasks have no project, so check both
+    if (filters.organizationId) {
+      conditions.push(sql`COALESCE(${projects.organizationId}, ${tasks.organizationId}) = ${filters.organizationId}`);
+    }
+    if (filters.projectId) conditions.push(eq(tasks.projectId, filters.projectId));
+    if (filters.serviceId) conditions.push(eq(tasks.serviceId, filters.serviceId));
+    if (filters.dueFrom) conditions.push(gte(tasks.dueDate, filters.dueFrom));
+    if (filters.dueTo) conditions.push(lte(tasks.dueDate, filters.dueTo));
+    if (filters.overdue !== undefined) {
+      const overdue = sql`(${tasks.dueDate} < NOW() AND ${tasks.status} <> 'completed')`;
+      conditions.push(filters.overdue ? overdue : sql`NOT COALESCE(${overdue}, FALSE)`);
+    }
+    if (filters.clientVisible !== undefined) {
+      conditions.push(filters.clientVisible ? sql`${tasks.clientVisible} IS NOT FALSE` : eq(tasks.clientVisible, false));
+    }
+    return conditions;
+  }
+
+  // One page of tasks matching the filters, in the requested order
+  async queryTasks(filters: TaskFilters, page: { after?: TaskCursor; limit: number }): Promise<{ tasks: TaskWithDetails[]; next: TaskCursor | null }> {
+    const sort = TASK_SORTS[filters.sortBy];
+    const direction = filters.sortDir === 'asc' ? asc : desc;
+    const sortKey = sort.expression(filters.sortDir);
+
+    const conditions = this.taskFilterConditions(filters);
+    if (page.after) {
+      const cursorKey = sql`${page.after.key}::${sql.raw(sort.cast)}`;
+      conditions.push(filters.sortDir === 'asc'
+        ? sql`(${sortKey}, ${tasks.id}) > (${cursorKey}, ${page.after.id})`
+        : sql`(${sortKey}, ${tasks.id}) < (${cursorKey}, ${page.after.id})`);
+    }
+
+    // One extra row tells us whether there is another page
+    const rows = await db
+      .select({
+        task: tasks,
+        service: services,
+        project: projects,
+        organization: organizations,
+        sortKey: sql<string>`(${sortKey})::text`,
       })
-    );
+      .from(tasks)
+      .leftJoin(services, eq(tasks.serviceId, services.id))
+      .leftJoin(projects, eq(tasks.projectId, projects.id))
+      .leftJoin(organizations, eq(sql`COALESCE(${projects.organizationId}, ${tasks.organizationId})`, organizations.id))
+      .where(and(...conditions))
+      .orderBy(direction(sortKey), direction(tasks.id))
+      .limit(page.limit + 1);
 
-    return tasksWithAssignments;
+    const pageRows = rows.slice(0, page.limit);
+    const last = pageRows[pageRows.length - 1];
+    return {
+      tasks: await this.withTaskDetails(pageRows),
+      next: rows.length > page.limit && last ? { key: last.sortKey, id: last.task.id } : null,
+    };
+  }
+
+  // Tasks per status for the same filters, across every page
+  async countTasksByStatus(filters: TaskFilters): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: tasks.status, count: sql<number>`COUNT(*)::int` })
+      .from(tasks)
+      .leftJoin(projects, eq(tasks.projectId, projects.id))
+      .where(and(...this.taskFilterConditions(filters)))
+      .groupBy(tasks.status);
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+  }
+
+  // Attaches every task's assignments with a single joined query instead of one per task
+  private async withTaskDetails(
+    rows: { task: Task; service: Service | null; project: Project | null; organization: Organization | null }[]
+  ): Promise<TaskWithDetails[]> {
+    const taskIds = rows.map(row => row.task.id);
+    const assignmentRows = taskIds.length > 0
+      ? await db
+          .select({ assignment: taskAssignments, teamMember: teamMembers })
+          .from(taskAssignments)
+          .innerJoin(teamMembers, eq(taskAssignments.teamMemberId, teamMembers.id))
+          .where(inArray(taskAssignments.taskId, taskIds))
+      : [];
+
+    const assignmentsByTask = new Map<string, (TaskAssignment & { teamMember: TeamMember })[]>();
+    for (const { assignment, teamMember } of assignmentRows) {
+      const list = assignmentsByTask.get(assignment.taskId) || [];
+      list.push({ ...assignment, teamMember });
+      assignmentsByTask.set(assignment.taskId, list);
+    }
+
+    return rows.map(({ task, service, project, organization }) => {
+      const assignments = assignmentsByTask.get(task.id) || [];
+      return {
+        ...task,
+        // Fall back to the first assigned team member when no user is set
+        assignedTo: task.assignedTo || (assignments[0] ? assignments[0].teamMember.name || assignments[0].teamMember.email : null),
+        service: service || undefined,
+        project: project ? { ...project, organization: organization || undefined } : undefined,
+        organization: organization || undefined,
+        assignments,
+      };
+    });
   }
 
   async getTask(id: string): Promise<Task | undefined> {
@@ -463,7 +760,6 @@ export class DatabaseStorage implements IStorage {
         assignedTo: tasks.assignedTo,
 
         googleDriveLink: tasks.googleDriveLink,
-        googleCalendarEventId: tasks.googleCalendarEventId,
         createdAt: tasks.createdAt,
         updatedAt: tasks.updatedAt,
         deletedAt: tasks.deletedAt,
@@ -525,20 +821,16 @@ export class DatabaseStorage implements IStorage {
   // Organization task methods removed - all tasks are now project-based
 
   async updateTask(id: string, updates: Partial<InsertTask> & { dueAt?: string | Date }): Promise<Task> {
-    // Normalize dueAt to due_date + due_time and compute UTC due_at
-    const updateData = { ...updates, updatedAt: new Date() };
+    const { timezone, ...fields } = updates;
+    const updateData = { ...fields, updatedAt: new Date() };
     
-    if (updates.dueDate || updates.dueTime || (updates as any).dueAt) {
-      const dueDate = updates.dueDate instanceof Date ? updates.dueDate : 
-                     updates.dueDate ? new Date(updates.dueDate) : null;
-      const dueTime = updates.dueTime || '09:00';
-      
-      if (dueDate) {
-        // Compute UTC due_at from local date/time
-        const localDateTime = new Date(`${dueDate.toISOString().split('T')[0]}T${dueTime}:00`);
-        // Assume America/Vancouver timezone for now
-        const utcDateTime = new Date(localDateTime.getTime() + (8 * 60 * 60 * 1000)); // UTC+8 offset approximation
-        (updateData as any).dueAt = utcDateTime;
+    // Derive UTC due_at from the local date/time when the caller did not compute it already
+    if (updates.dueAt === undefined && updates.dueDate) {
+      // Route handlers pass either "YYYY-MM-DD" strings or Date objects at UTC midnight
+      const dueDate = new Date(updates.dueDate as string | Date).toISOString().split('T')[0];
+      const { due_at } = computeDueAt(dueDate, updates.dueTime || '09:00', timezone);
+      if (due_at) {
+        (updateData as any).dueAt = new Date(due_at);
       }
     }
     
@@ -550,16 +842,12 @@ export class DatabaseStorage implements IStorage {
     return updatedTask;
   }
 
-  async setTaskGoogleEventId(taskId: string, eventId: string): Promise<void> {
-    await db
-      .update(tasks)
-      .set({ googleEventId: eventId })
-      .where(eq(tasks.id, taskId));
-  }
-
   // File operations
+  // Latest version of each file; older versions are reached through getFileVersions
   async getFilesByProject(projectId: string): Promise<ProjectFile[]> {
-    return db.select().from(projectFiles).where(eq(projectFiles.projectId, projectId)).orderBy(desc(projectFiles.createdAt));
+    return db.select().from(projectFiles)
+      .where(and(eq(projectFiles.projectId, projectId), eq(projectFiles.isLatestVersion, true)))
+      .orderBy(desc(projectFiles.createdAt));
   }
 
   async createProjectFile(file: InsertProjectFile): Promise<ProjectFile> {
@@ -572,6 +860,32 @@ export class DatabaseStorage implements IStorage {
     return file;
   }
 
+  async updateProjectFile(id: string, updates: Partial<InsertProjectFile>): Promise<ProjectFile | undefined> {
+    const [file] = await db.update(projectFiles).set(updates).where(eq(projectFiles.id, id)).returning();
+    return file;
+  }
+
+  async getFileVersions(versionGroupId: string): Promise<ProjectFile[]> {
+    return db.select().from(projectFiles)
+      .where(or(eq(projectFiles.id, versionGroupId), eq(projectFiles.versionGroupId, versionGroupId)))
+      .orderBy(desc(projectFiles.versionNumber));
+  }
+
+  async getFileComment(id: string): Promise<FileComment | undefined> {
+    const [comment] = await db.select().from(fileComments).where(eq(fileComments.id, id));
+    return comment;
+  }
+
+  async createFileComment(comment: InsertFileComment): Promise<FileComment> {
+    const [newComment] = await db.insert(fileComments).values(comment).returning();
+    return newComment;
+  }
+
+  async updateFileComment(id: string, updates: Partial<InsertFileComment>): Promise<FileComment | undefined> {
+    const [comment] = await db.update(fileComments).set({ ...updates, updatedAt: new Date() }).where(eq(fileComments.id, id)).returning();
+    return comment;
+  }
+
   // Analytics operations
   async getAnalyticsByProject(projectId: string, startDate?: Date, endDate?: Date): Promise<Analytics[]> {
     if (startDate && endDate) {
@@ -613,6 +927,135 @@ export class DatabaseStorage implements IStorage {
     return newMessage;
   }
 
+  async getMessage(id: string): Promise<Message | undefined> {
+    const [message] = await db.select().from(messages).where(eq(messages.id, id));
+    return message;
+  }
+
+  async updateMessage(id: string, updates: Partial<Message>): Promise<Message | undefined> {
+    const [message] = await db.update(messages).set(updates).where(eq(messages.id, id)).returning();
+    return message;
+  }
+
+  // Project membership operations
+  async getProjectMembers(projectId: string): Promise<(ProjectMember & { user: User })[]> {
+    const result = await db
+      .select({ member: projectMembers, user: users })
+      .from(projectMembers)
+      .innerJoin(users, eq(projectMembers.userId, users.id))
+      .where(eq(projectMembers.projectId, projectId))
+      .orderBy(asc(projectMembers.createdAt));
+    return result.map(row => ({ ...row.member, user: row.user }));
+  }
+
+  async isProjectMember(projectId: string, userId: string): Promise<boolean> {
+    const [member] = await db
+      .select({ id: projectMembers.id })
+      .from(projectMembers)
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)));
+    return !!member;
+  }
+
+  async getMemberProjectIds(userId: string): Promise<string[]> {
+    const result = await db.select({ projectId: projectMembers.projectId }).from(projectMembers).where(eq(projectMembers.userId, userId));
+    return result.map(row => row.projectId);
+  }
+
+  async addProjectMember(projectId: string, userId: string, addedBy: string): Promise<ProjectMember> {
+    const [member] = await db
+      .insert(projectMembers)
+      .values({ projectId, userId, addedBy })
+      .onConflictDoUpdate({ target: [projectMembers.projectId, projectMembers.userId], set: { addedBy } })
+      .returning();
+    return member;
+  }
+
+  async removeProjectMember(projectId: string, userId: string): Promise<boolean> {
+    const result = await db
+      .delete(projectMembers)
+      .where(and(eq(projectMembers.projectId, projectId), eq(projectMembers.userId, userId)))
+      .returning({ id: projectMembers.id });
+    return result.length > 0;
+  }
+
+  // The user's own views plus everything shared
+  async getTaskViews(userId: string): Promise<(TaskView & { ownerName: string | null })[]> {
+    const rows = await db
+      .select({ view: taskViews, owner: users })
+      .from(taskViews)
+      .leftJoin(users, eq(taskViews.ownerId, users.id))
+      .where(or(eq(taskViews.ownerId, userId), eq(taskViews.isShared, true)))
+      .orderBy(asc(taskViews.name));
+    return rows.map(({ view, owner }) => ({
+      ...view,
+      ownerName: owner ? [owner.firstName, owner.lastName].filter(Boolean).join(' ') || owner.email : null,
+    }));
+  }
+
+  async getTaskView(id: string): Promise<TaskView | undefined> {
+    const [view] = await db.select().from(taskViews).where(eq(taskViews.id, id));
+    return view;
+  }
+
+  async createTaskView(view: InsertTaskView): Promise<TaskView> {
+    const [created] = await db.insert(taskViews).values(view).returning();
+    return created;
+  }
+
+  async updateTaskView(id: string, updates: Partial<InsertTaskView>): Promise<TaskView> {
+    const [view] = await db
+      .update(taskViews)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(taskViews.id, id))
+      .returning();
+    return view;
+  }
+
+  async deleteTaskView(id: string): Promise<void> {
+    await db.delete(taskViews).where(eq(taskViews.id, id));
+  }
+
+  // Limits for one board: a project's, or the agency-wide one when projectId is null
+  async getWipLimits(projectId: string | null): Promise<WipLimits> {
+    const rows = await db
+      .select()
+      .from(boardWipLimits)
+      .where(projectId ? eq(boardWipLimits.projectId, projectId) : isNull(boardWipLimits.projectId));
+    const limits: WipLimits = {};
+    for (const row of rows) {
+      if ((TASK_STATUSES as readonly string[]).includes(row.status)) {
+        limits[row.status as keyof WipLimits] = row.wipLimit;
+      }
+    }
+    return limits;
+  }
+
+  // Replaces the board's limits; statuses left out or set to null have none
+  async setWipLimits(projectId: string | null, limits: Partial<Record<string, number | null>>, updatedBy: string): Promise<WipLimits> {
+    const rows = Object.entries(limits)
+      .filter((entry): entry is [string, number] => typeof entry[1] === 'number')
+      .map(([status, wipLimit]) => ({ projectId, status, wipLimit, updatedBy }));
+
+    await db.transaction(async (tx) => {
+      await tx
+        .delete(boardWipLimits)
+        .where(projectId ? eq(boardWipLimits.projectId, projectId) : isNull(boardWipLimits.projectId));
+      if (rows.length > 0) {
+        await tx.insert(boardWipLimits).values(rows);
+      }
+    });
+    return this.getWipLimits(projectId);
+  }
+
+  async getMessageRevisions(messageId: string): Promise<MessageRevision[]> {
+    return db.select().from(messageRevisions).where(eq(messageRevisions.messageId, messageId)).orderBy(desc(messageRevisions.changedAt));
+  }
+
+  async createMessageRevision(revision: InsertMessageRevision): Promise<MessageRevision> {
+    const [newRevision] = await db.insert(messageRevisions).values(revision).returning();
+    return newRevision;
+  }
+
   // KPI operations
   async getKpisByProject(projectId: string): Promise<Kpi[]> {
     return db.select().from(kpis).where(eq(kpis.projectId, projectId)).orderBy(desc(kpis.createdAt));
@@ -704,7 +1147,7 @@ export class DatabaseStorage implements IStorage {
   async removeUserFromOrganization(userId: string): Promise<User> {
     const result = await db
       .update(users)
-      .set({ organizationId: null })
+      .set({ organizationId: null, contactAccess: 'full' })
       .where(eq(users.id, userId))
       .returning();
     return result[0];
@@ -773,16 +1216,36 @@ export class DatabaseStorage implements IStorage {
     return updatedUser;
   }
 
-  async updateTaskCalendarEvent(taskId: string, eventId: string | null): Promise<Task> {
-    const [updatedTask] = await db
-      .update(tasks)
+  // The matching team member (same email) follows the user's preference for calendar events and emails
+  async updateUserTimezone(userId: string, timezone: string): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
       .set({
-        googleCalendarEventId: eventId,
+        timezone,
         updatedAt: new Date(),
       })
-      .where(eq(tasks.id, taskId))
+      .where(eq(users.id, userId))
       .returning();
-    return updatedTask;
+
+    if (updatedUser?.email) {
+      await db
+        .update(teamMembers)
+        .set({ timezone, updatedAt: new Date() })
+        .where(eq(teamMembers.email, updatedUser.email));
+    }
+    return updatedUser;
+  }
+
+  async updateUserCalendarProvider(userId: string, provider: string | null): Promise<User> {
+    const [updatedUser] = await db
+      .update(users)
+      .set({
+        calendarProvider: provider,
+        updatedAt: new Date(),
+      })
+      .where(eq(users.id, userId))
+      .returning();
+    return updatedUser;
   }
 
   async deleteUser(id: string): Promise<void> {
@@ -812,37 +1275,78 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Task template operations for Faces of Kelowna workflow
-  async getTaskTemplatesForService(serviceId: string): Promise<any[]> {
-    return await db.select().from(taskTemplates).where(eq(taskTemplates.serviceId, serviceId));
+  async getTaskTemplatesForService(serviceId: string): Promise<TaskTemplate[]> {
+    return await db
+      .select()
+      .from(taskTemplates)
+      .where(eq(taskTemplates.serviceId, serviceId))
+      .orderBy(taskTemplates.displayOrder, taskTemplates.dayOffset, taskTemplates.createdAt);
   }
 
-  async createTasksFromTemplates(projectId: string, serviceId: string): Promise<void> {
-    const templates = await this.getTaskTemplatesForService(serviceId);
-    
-    if (templates.length === 0) {
-      return; // No templates found for this service
+  async getTaskTemplate(id: string): Promise<TaskTemplate | undefined> {
+    const [template] = await db.select().from(taskTemplates).where(eq(taskTemplates.id, id));
+    return template;
+  }
+
+  async createTaskTemplate(template: InsertTaskTemplate): Promise<TaskTemplate> {
+    const [newTemplate] = await db.insert(taskTemplates).values(template).returning();
+    return newTemplate;
+  }
+
+  async updateTaskTemplate(id: string, updates: Partial<InsertTaskTemplate>): Promise<TaskTemplate> {
+    const [template] = await db
+      .update(taskTemplates)
+      .set(updates)
+      .where(eq(taskTemplates.id, id))
+      .returning();
+    return template;
+  }
+
+  async deleteTaskTemplate(id: string): Promise<void> {
+    // Detach dependents so they don't point at a missing template
+    await db
+      .update(taskTemplates)
+      .set({ dependsOnTemplateId: null })
+      .where(eq(taskTemplates.dependsOnTemplateId, id));
+    await db.delete(taskTemplates).where(eq(taskTemplates.id, id));
+  }
+
+  async updateTaskTemplateOrder(serviceId: string, templateOrders: { id: string; displayOrder: number }[]): Promise<void> {
+    for (const { id, displayOrder } of templateOrders) {
+      await db
+        .update(taskTemplates)
+        .set({ displayOrder })
+        .where(and(eq(taskTemplates.id, id), eq(taskTemplates.serviceId, serviceId)));
     }
+  }
 
-    const projectStartDate = new Date();
-    
-    // Create tasks from templates
-    for (const template of templates) {
-      const dueDate = new Date(projectStartDate);
-      dueDate.setDate(dueDate.getDate() + template.dayOffset);
-
-      await db.insert(tasks).values({
-        projectId,
-        serviceId,
-        title: template.title,
-        description: template.description,
-        status: 'in_progress',
-        dueDate,
-        priority: template.priority,
-        taskType: template.taskType,
-        estimatedHours: template.estimatedHours,
-        clientVisible: template.clientVisible,
-      });
+  async cloneTaskTemplates(sourceServiceId: string, targetServiceId: string): Promise<TaskTemplate[]> {
+    const sourceTemplates = await this.getTaskTemplatesForService(sourceServiceId);
+    const existing = await this.getTaskTemplatesForService(targetServiceId);
+    const orderOffset = existing.length;
+
+    // Insert first, then remap dependsOnTemplateId onto the new copies
+    const idMap = new Map<string, string>();
+    const cloned: TaskTemplate[] = [];
+    for (let index = 0; index < sourceTemplates.length; index++) {
+      const { id, createdAt, serviceId, dependsOnTemplateId, ...rest } = sourceTemplates[index];
+      const [copy] = await db
+        .insert(taskTemplates)
+        .values({ ...rest, serviceId: targetServiceId, dependsOnTemplateId: null, displayOrder: orderOffset + index })
+        .returning();
+      idMap.set(id, copy.id);
+      cloned.push(copy);
+    }
+
+    for (let index = 0; index < sourceTemplates.length; index++) {
+      const sourceDependency = sourceTemplates[index].dependsOnTemplateId;
+      const dependsOnTemplateId = sourceDependency && idMap.get(sourceDependency);
+      if (dependsOnTemplateId) {
+        cloned[index] = await this.updateTaskTemplate(cloned[index].id, { dependsOnTemplateId });
+      }
     }
+
+    return cloned;
   }
 
   // Team member operations
@@ -1040,6 +1544,87 @@ export class DatabaseStorage implements IStorage {
     await db.delete(taskAssignments).where(eq(taskAssignments.id, id));
   }
 
+  // Time tracking operations
+  async getTimeEntry(id: string): Promise<TimeEntry | undefined> {
+    const [entry] = await db.select().from(timeEntries).where(eq(timeEntries.id, id));
+    return entry;
+  }
+
+  async getTimeEntriesForAssignment(assignmentId: string): Promise<TimeEntry[]> {
+    return db
+      .select()
+      .from(timeEntries)
+      .where(eq(timeEntries.taskAssignmentId, assignmentId))
+      .orderBy(desc(timeEntries.startedAt));
+  }
+
+  // Entries started in [from, to) with their task and project for timesheets
+  async getTimeEntriesForTeamMember(teamMemberId: string, from: Date, to: Date): Promise<(TimeEntry & { task: Task; project?: Project })[]> {
+    const results = await db
+      .select({
+        entry: timeEntries,
+        task: tasks,
+        project: projects,
+      })
+      .from(timeEntries)
+      .innerJoin(tasks, eq(timeEntries.taskId, tasks.id))
+      .leftJoin(projects, eq(tasks.projectId, projects.id))
+      .where(and(
+        eq(timeEntries.teamMemberId, teamMemberId),
+        gte(timeEntries.startedAt, from),
+        lt(timeEntries.startedAt, to)
+      ))
+      .orderBy(timeEntries.startedAt);
+
+    return results.map(row => ({
+      ...row.entry,
+      task: row.task,
+      project: row.project || undefined,
+    }));
+  }
+
+  async getRunningTimeEntry(teamMemberId: string): Promise<TimeEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(timeEntries)
+      .where(and(
+        eq(timeEntries.teamMemberId, teamMemberId),
+        isNull(timeEntries.endedAt)
+      ));
+    return entry;
+  }
+
+  async createTimeEntry(entry: InsertTimeEntry): Promise<TimeEntry> {
+    const [newEntry] = await db.insert(timeEntries).values(entry).returning();
+    return newEntry;
+  }
+
+  async updateTimeEntry(id: string, updates: Partial<InsertTimeEntry>): Promise<TimeEntry> {
+    const [updatedEntry] = await db
+      .update(timeEntries)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(timeEntries.id, id))
+      .returning();
+    return updatedEntry;
+  }
+
+  async deleteTimeEntry(id: string): Promise<void> {
+    await db.delete(timeEntries).where(eq(timeEntries.id, id));
+  }
+
+  // Sum of finished entries (running timers are not counted until stopped)
+  async getTrackedMinutes(filter: { taskAssignmentId?: string; taskId?: string }): Promise<number> {
+    const conditions = [isNotNull(timeEntries.durationMinutes)];
+    if (filter.taskAssignmentId) conditions.push(eq(timeEntries.taskAssignmentId, filter.taskAssignmentId));
+    if (filter.taskId) conditions.push(eq(timeEntries.taskId, filter.taskId));
+
+    const [result] = await db
+      .select({ minutes: sql<number>`coalesce(sum(${timeEntries.durationMinutes}), 0)::int` })
+      .from(timeEntries)
+      .where(and(...conditions));
+    return result?.minutes ?? 0;
+  }
+
   async getTaskAssignmentById(assignmentId: string): Promise<TaskAssignment | undefined> {
     const [assignment] = await db
       .select()
@@ -1060,26 +1645,6 @@ export class DatabaseStorage implements IStorage {
     return this.getUserByEmail(teamMember.email);
   }
 
-  async setAssignmentCalendarEventId(assignmentId: string, eventId: string): Promise<void> {
-    await db
-      .update(taskAssignments)
-      .set({ 
-        calendarEventId: eventId,
-        updatedAt: new Date()
-      })
-      .where(eq(taskAssignments.id, assignmentId));
-  }
-
-  async clearAssignmentCalendarEventId(assignmentId: string): Promise<void> {
-    await db
-      .update(taskAssignments)
-      .set({ 
-        calendarEventId: null,
-        updatedAt: new Date()
-      })
-      .where(eq(taskAssignments.id, assignmentId));
-  }
-
   // Helper methods for OAuth user identification
   async getUserIdByEmail(email: string): Promise<string | null> {
     const [user] = await db.select({ id: users.id }).from(users).where(eq(users.email, email));
@@ -1188,6 +1753,12 @@ export class DatabaseStorage implements IStorage {
     return newLineItem;
   }
 
+  async replaceQuoteLineItems(quoteId: string, lineItems: InsertQuoteLineItem[]): Promise<QuoteLineItem[]> {
+    await db.delete(quoteLineItems).where(eq(quoteLineItems.quoteId, quoteId));
+    if (lineItems.length === 0) return [];
+    return db.insert(quoteLineItems).values(lineItems).returning();
+  }
+
   // Proposal operations
   async createProposal(proposalData: InsertProposal): Promise<Proposal> {
     const [proposal] = await db.insert(proposals).values(proposalData).returning();
@@ -1230,6 +1801,339 @@ export class DatabaseStorage implements IStorage {
     return item;
   }
 
+  async getProposalProjects(proposalId: string): Promise<ProposalProject[]> {
+    return db
+      .select()
+      .from(proposalProjects)
+      .where(eq(proposalProjects.proposalId, proposalId))
+      .orderBy(asc(proposalProjects.createdAt));
+  }
+
+  // Items that already have a link are skipped (unique proposal_item_id), so a lost race returns fewer rows
+  async createProposalProjects(links: InsertProposalProject[]): Promise<ProposalProject[]> {
+    if (links.length === 0) return [];
+    return db.insert(proposalProjects).values(links).onConflictDoNothing().returning();
+  }
+
+  async getProposalLinks(proposalId: string): Promise<ProposalLink[]> {
+    return db
+      .select()
+      .from(proposalLinks)
+      .where(eq(proposalLinks.proposalId, proposalId))
+      .orderBy(desc(proposalLinks.createdAt));
+  }
+
+  async getProposalLinkByToken(token: string): Promise<ProposalLink | undefined> {
+    const [link] = await db.select().from(proposalLinks).where(eq(proposalLinks.token, token));
+    return link;
+  }
+
+  async createProposalLink(linkData: InsertProposalLink): Promise<ProposalLink> {
+    const [link] = await db.insert(proposalLinks).values(linkData).returning();
+    return link;
+  }
+
+  async updateProposalLink(id: string, updates: Partial<InsertProposalLink>): Promise<ProposalLink> {
+    const [link] = await db.update(proposalLinks).set(updates).where(eq(proposalLinks.id, id)).returning();
+    return link;
+  }
+
+  async getProposalSignatures(proposalId: string): Promise<ProposalSignature[]> {
+    return db
+      .select()
+      .from(proposalSignatures)
+      .where(eq(proposalSignatures.proposalId, proposalId))
+      .orderBy(desc(proposalSignatures.signedAt));
+  }
+
+  async createProposalSignature(signatureData: InsertProposalSignature): Promise<ProposalSignature> {
+    const [signature] = await db.insert(proposalSignatures).values(signatureData).returning();
+    return signature;
+  }
+
+  // iCalendar feed operations
+  async getIcalFeeds(filter: { createdBy?: string; scope?: string; scopeId?: string }): Promise<IcalFeed[]> {
+    const conditions = [isNull(icalFeeds.revokedAt)];
+    if (filter.createdBy) conditions.push(eq(icalFeeds.createdBy, filter.createdBy));
+    if (filter.scope) conditions.push(eq(icalFeeds.scope, filter.scope));
+    if (filter.scopeId) conditions.push(eq(icalFeeds.scopeId, filter.scopeId));
+    return db
+      .select()
+      .from(icalFeeds)
+      .where(and(...conditions))
+      .orderBy(desc(icalFeeds.createdAt));
+  }
+
+  async getIcalFeed(id: string): Promise<IcalFeed | undefined> {
+    const [feed] = await db.select().from(icalFeeds).where(eq(icalFeeds.id, id));
+    return feed;
+  }
+
+  async getIcalFeedByToken(token: string): Promise<IcalFeed | undefined> {
+    const [feed] = await db.select().from(icalFeeds).where(eq(icalFeeds.token, token));
+    return feed;
+  }
+
+  async createIcalFeed(feedData: InsertIcalFeed): Promise<IcalFeed> {
+    const [feed] = await db.insert(icalFeeds).values(feedData).returning();
+    return feed;
+  }
+
+  async updateIcalFeed(id: string, updates: Partial<InsertIcalFeed>): Promise<IcalFeed | undefined> {
+    const [feed] = await db
+      .update(icalFeeds)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(icalFeeds.id, id))
+      .returning();
+    return feed;
+  }
+
+  // Approval operations
+  async getApprovalRequests(filter: { taskId?: string; fileId?: string; projectId?: string; status?: string }): Promise<ApprovalRequest[]> {
+    const conditions = [];
+    if (filter.taskId) conditions.push(eq(approvalRequests.taskId, filter.taskId));
+    if (filter.fileId) conditions.push(eq(approvalRequests.fileId, filter.fileId));
+    if (filter.projectId) conditions.push(eq(approvalRequests.projectId, filter.projectId));
+    if (filter.status) conditions.push(eq(approvalRequests.status, filter.status));
+    return db
+      .select()
+      .from(approvalRequests)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(approvalRequests.createdAt));
+  }
+
+  async getApprovalRequest(id: string): Promise<ApprovalRequest | undefined> {
+    const [request] = await db.select().from(approvalRequests).where(eq(approvalRequests.id, id));
+    return request;
+  }
+
+  async createApprovalRequest(requestData: InsertApprovalRequest): Promise<ApprovalRequest> {
+    const [request] = await db.insert(approvalRequests).values(requestData).returning();
+    return request;
+  }
+
+  async updateApprovalRequest(id: string, updates: Partial<InsertApprovalRequest>): Promise<ApprovalRequest | undefined> {
+    const [request] = await db
+      .update(approvalRequests)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(approvalRequests.id, id))
+      .returning();
+    return request;
+  }
+
+  // Notification operations
+  async getNotifications(userId: string, limit = 50): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async getUnreadNotificationCount(userId: string): Promise<number> {
+    const [row] = await db
+      .select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return row?.count ?? 0;
+  }
+
+  async createNotification(notificationData: InsertNotification): Promise<Notification> {
+    const [notification] = await db.insert(notifications).values(notificationData).returning();
+    return notification;
+  }
+
+  async markNotificationRead(id: string, userId: string): Promise<Notification | undefined> {
+    const [notification] = await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return notification;
+  }
+
+  async markAllNotificationsRead(userId: string): Promise<void> {
+    await db
+      .update(notifications)
+      .set({ readAt: new Date() })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+  }
+
+  // Invoice operations
+  async getBillingRates(): Promise<BillingRate[]> {
+    return db.select().from(billingRates).orderBy(billingRates.role);
+  }
+
+  async upsertBillingRate(role: string, hourlyRate: string): Promise<BillingRate> {
+    const [rate] = await db
+      .insert(billingRates)
+      .values({ role, hourlyRate })
+      .onConflictDoUpdate({
+        target: billingRates.role,
+        set: { hourlyRate, updatedAt: new Date() },
+      })
+      .returning();
+    return rate;
+  }
+
+  async deleteBillingRate(role: string): Promise<void> {
+    await db.delete(billingRates).where(eq(billingRates.role, role));
+  }
+
+  async getInvoices(filter: { organizationId?: string; billedTo?: { clientId: string; organizationId: string | null }; includeDrafts?: boolean } = {}): Promise<Invoice[]> {
+    const conditions = [];
+    if (filter.organizationId) conditions.push(eq(invoices.organizationId, filter.organizationId));
+    if (filter.billedTo) {
+      // Billed to the client directly or to their organization
+      const { clientId, organizationId } = filter.billedTo;
+      conditions.push(organizationId
+        ? or(eq(invoices.clientId, clientId), eq(invoices.organizationId, organizationId))!
+        : eq(invoices.clientId, clientId));
+    }
+    if (filter.includeDrafts === false) conditions.push(sql`${invoices.status} <> 'draft'`);
+
+    return db
+      .select()
+      .from(invoices)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(invoices.createdAt));
+  }
+
+  async getInvoice(id: string): Promise<Invoice | undefined> {
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  async createInvoice(invoiceData: InsertInvoice): Promise<Invoice> {
+    const [invoice] = await db.insert(invoices).values(invoiceData).returning();
+    return invoice;
+  }
+
+  async updateInvoice(id: string, updates: Partial<InsertInvoice>): Promise<Invoice> {
+    const [invoice] = await db
+      .update(invoices)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(invoices.id, id))
+      .returning();
+    return invoice;
+  }
+
+  async deleteInvoice(id: string): Promise<void> {
+    await db.delete(invoices).where(eq(invoices.id, id));
+  }
+
+  async getInvoiceLineItems(invoiceId: string): Promise<InvoiceLineItem[]> {
+    return db
+      .select()
+      .from(invoiceLineItems)
+      .where(eq(invoiceLineItems.invoiceId, invoiceId))
+      .orderBy(invoiceLineItems.itemOrder);
+  }
+
+  async replaceInvoiceLineItems(invoiceId: string, items: InsertInvoiceLineItem[]): Promise<InvoiceLineItem[]> {
+    await db.delete(invoiceLineItems).where(eq(invoiceLineItems.invoiceId, invoiceId));
+    if (items.length === 0) return [];
+    return db.insert(invoiceLineItems).values(items).returning();
+  }
+
+  // Quantity already billed per source record, ignoring voided invoices
+  async getInvoicedQuantities(sourceType: string, sourceIds: string[]): Promise<Record<string, number>> {
+    if (sourceIds.length === 0) return {};
+
+    const rows = await db
+      .select({
+        sourceId: invoiceLineItems.sourceId,
+        quantity: sql<string>`coalesce(sum(${invoiceLineItems.quantity}), 0)`,
+      })
+      .from(invoiceLineItems)
+      .innerJoin(invoices, eq(invoiceLineItems.invoiceId, invoices.id))
+      .where(and(
+        eq(invoiceLineItems.sourceType, sourceType),
+        inArray(invoiceLineItems.sourceId, sourceIds),
+        sql`${invoices.status} <> 'void'`
+      ))
+      .groupBy(invoiceLineItems.sourceId);
+
+    const quantities: Record<string, number> = {};
+    for (const row of rows) {
+      if (row.sourceId) quantities[row.sourceId] = Number(row.quantity);
+    }
+    return quantities;
+  }
+
+  async getInvoiceTaxLines(invoiceId: string): Promise<InvoiceTaxLine[]> {
+    return db.select().from(invoiceTaxLines).where(eq(invoiceTaxLines.invoiceId, invoiceId));
+  }
+
+  async replaceInvoiceTaxLines(invoiceId: string, lines: InsertInvoiceTaxLine[]): Promise<InvoiceTaxLine[]> {
+    await db.delete(invoiceTaxLines).where(eq(invoiceTaxLines.invoiceId, invoiceId));
+    if (lines.length === 0) return [];
+    return db.insert(invoiceTaxLines).values(lines).returning();
+  }
+
+  async getInvoicePayments(invoiceId: string): Promise<InvoicePayment[]> {
+    return db
+      .select()
+      .from(invoicePayments)
+      .where(eq(invoicePayments.invoiceId, invoiceId))
+      .orderBy(invoicePayments.paidAt);
+  }
+
+  async createInvoicePayment(paymentData: InsertInvoicePayment): Promise<InvoicePayment> {
+    const [payment] = await db.insert(invoicePayments).values(paymentData).returning();
+    return payment;
+  }
+
+  // Background job operations
+  async getJobs(filter: { status?: string; type?: string; limit?: number } = {}): Promise<Job[]> {
+    const conditions = [];
+    if (filter.status) conditions.push(eq(jobs.status, filter.status));
+    if (filter.type) conditions.push(eq(jobs.type, filter.type));
+    return db
+      .select()
+      .from(jobs)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(jobs.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async getJob(id: string): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobStatusCounts(): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: jobs.status, count: sql<number>`count(*)::int` })
+      .from(jobs)
+      .groupBy(jobs.status);
+    return Object.fromEntries(rows.map(row => [row.status, row.count]));
+  }
+
+  // Calendar sync conflict operations
+  async getCalendarSyncConflicts(taskId: string): Promise<CalendarSyncConflict[]> {
+    return db
+      .select()
+      .from(calendarSyncConflicts)
+      .where(eq(calendarSyncConflicts.taskId, taskId))
+      .orderBy(desc(calendarSyncConflicts.createdAt));
+  }
+
+  async getCalendarSyncConflict(id: string): Promise<CalendarSyncConflict | undefined> {
+    const [conflict] = await db.select().from(calendarSyncConflicts).where(eq(calendarSyncConflicts.id, id));
+    return conflict;
+  }
+
+  async updateCalendarSyncConflict(id: string, updates: Partial<InsertCalendarSyncConflict>): Promise<CalendarSyncConflict> {
+    const [conflict] = await db
+      .update(calendarSyncConflicts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(calendarSyncConflicts.id, id))
+      .returning();
+    return conflict;
+  }
+
   // Soft delete operations
   async softDeleteOrganization(id: string, deletedBy: string): Promise<void> {
     await db
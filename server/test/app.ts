@@ -0,0 +1,67 @@
+// Boots the real API routes for request-level tests. Replit auth's OIDC discovery is answered locally,
+// and each request is signed in as the user named in the x-test-user header (none: signed out).
+import './env';
+import express from 'express';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+
+const issuer = process.env.ISSUER_URL!;
+const realFetch = globalThis.fetch;
+
+globalThis.fetch = async (input, init) => {
+  if (String(input).startsWith(issuer)) {
+    return new Response(JSON.stringify({
+      issuer,
+      authorization_endpoint: `${issuer}/auth`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      end_session_endpoint: `${issuer}/session/end`,
+    }), { headers: { 'Content-Type': 'application/json' } });
+  }
+  return realFetch(input, init);
+};
+
+export interface TestApp {
+  request(method: string, path: string, options?: { as?: string; body?: unknown }): Promise<{ status: number; body: any; headers: Headers }>;
+  close(): Promise<void>;
+}
+
+export async function startApp(): Promise<TestApp> {
+  const { registerRoutes } = await import('../routes');
+
+  const app = express();
+  app.use(express.json());
+  app.use((req: any, _res, next) => {
+    const userId = req.headers['x-test-user'];
+    if (userId) {
+      req.user = { claims: { sub: userId }, expires_at: Math.floor(Date.now() / 1000) + 3600 };
+    }
+    next();
+  });
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    async request(method, path, { as, body } = {}) {
+      const response = await realFetch(`${baseUrl}${path}`, {
+        method,
+        headers: {
+          ...(as ? { 'x-test-user': as } : {}),
+          ...(body === undefined || body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+        },
+        // FormData goes out as multipart for upload routes
+        body: body === undefined || body instanceof FormData ? body : JSON.stringify(body),
+      });
+      const text = await response.text();
+      let parsed: any = text;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        // Not every route answers with JSON
+      }
+      return { status: response.status, body: parsed, headers: response.headers };
+    },
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,64 @@
+// The insert/get/update/delete behaviour CalendarService relies on from every calendar provider.
+// Each provider's tests run these checks against an in-memory or in-process stand-in for its API.
+import assert from 'node:assert/strict';
+import { DateTime } from 'luxon';
+import type { CalendarEvent, CalendarProvider } from '../calendar/CalendarProvider';
+
+const CALENDAR_ID = 'primary';
+
+const event = (summary: string, start: DateTime, recurrence?: string[]): CalendarEvent => ({
+  summary,
+  description: 'Created by the calendar provider contract check',
+  start: { dateTime: start.toISO({ includeOffset: false }), timeZone: start.zoneName },
+  end: { dateTime: start.plus({ minutes: 60 }).toISO({ includeOffset: false }), timeZone: start.zoneName },
+  recurrence,
+});
+
+const isGoneOrCancelled = (found: CalendarEvent | null) => !found || found.status === 'cancelled';
+
+export async function checkSingleEvent(provider: CalendarProvider, userId: string, timezone: string) {
+  const start = DateTime.fromISO('2026-11-10T10:00', { zone: timezone });
+
+  const inserted = await provider.insertEvent(userId, CALENDAR_ID, event('[CONTRACT] Single event', start));
+  assert.ok(inserted.id, 'insert returns the new event ID');
+
+  const fetched = await provider.getEvent(userId, CALENDAR_ID, inserted.id);
+  assert.equal(fetched?.summary, '[CONTRACT] Single event');
+  const fetchedStart = DateTime.fromISO(fetched!.start!.dateTime!, { zone: fetched!.start!.timeZone || 'utc' });
+  assert.equal(+fetchedStart, +start, 'get reads back the same start instant');
+
+  const updated = await provider.updateEvent(userId, CALENDAR_ID, inserted.id, event('[CONTRACT] Single event (moved)', start.plus({ hours: 2 })));
+  assert.equal(updated?.id, inserted.id, 'update keeps the event ID');
+  assert.equal((await provider.getEvent(userId, CALENDAR_ID, inserted.id))?.summary, '[CONTRACT] Single event (moved)');
+
+  await provider.deleteEvent(userId, CALENDAR_ID, inserted.id);
+  assert.ok(isGoneOrCancelled(await provider.getEvent(userId, CALENDAR_ID, inserted.id)), 'a deleted event is gone or cancelled');
+
+  await provider.deleteEvent(userId, CALENDAR_ID, inserted.id);
+
+  const revived = await provider.updateEvent(userId, CALENDAR_ID, inserted.id, event('[CONTRACT] Revived', start));
+  assert.ok(isGoneOrCancelled(revived), 'updating a deleted event reports it missing');
+}
+
+export async function checkRecurringEvent(provider: CalendarProvider, userId: string, timezone: string) {
+  const start = DateTime.fromISO('2026-11-10T09:00', { zone: timezone });
+
+  const series = await provider.insertEvent(userId, CALENDAR_ID, event('[CONTRACT] Weekly series', start, ['RRULE:FREQ=WEEKLY;COUNT=4']));
+  assert.ok(series.id, 'insert returns the series ID');
+
+  const secondStart = start.plus({ weeks: 1 });
+  const instance = await provider.findInstance(userId, CALENDAR_ID, series.id, secondStart.toJSDate());
+  assert.ok(instance?.id, 'the second occurrence is found');
+  assert.notEqual(instance.id, series.id);
+
+  const updated = await provider.updateEvent(userId, CALENDAR_ID, instance.id, event('[CONTRACT] Moved occurrence', secondStart.plus({ hours: 1 })));
+  assert.equal(updated?.id, instance.id, 'an occurrence updates in place');
+  assert.equal((await provider.getEvent(userId, CALENDAR_ID, instance.id))?.summary, '[CONTRACT] Moved occurrence');
+
+  const seriesAfter = await provider.getEvent(userId, CALENDAR_ID, series.id);
+  assert.equal(seriesAfter?.summary, '[CONTRACT] Weekly series', 'updating one occurrence leaves the series alone');
+
+  await provider.deleteEvent(userId, CALENDAR_ID, instance.id);
+  assert.ok(isGoneOrCancelled(await provider.getEvent(userId, CALENDAR_ID, instance.id)), 'a deleted occurrence is gone or cancelled');
+  assert.equal((await provider.getEvent(userId, CALENDAR_ID, series.id))?.summary, '[CONTRACT] Weekly series', 'the rest of the series survives');
+}
@@ -0,0 +1,90 @@
+/**
+ * Minimal PDF writer for generated documents (invoices)
+ * Text and rules only, using the built-in Helvetica fonts so no font files or PDF library are needed
+ * Coordinates are in points from the top-left corner of a US Letter page
+ */
+
+export const PAGE_WIDTH = 612;
+export const PAGE_HEIGHT = 792;
+
+interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right';
+}
+
+// Approximate Helvetica advance width (per 1pt of font size) for right-aligned columns
+const averageCharWidth = (bold: boolean) => (bold ? 0.56 : 0.52);
+
+// Built-in fonts use WinAnsi; anything outside Latin-1 is replaced rather than corrupting the stream
+const escapeText = (text: string) =>
+  text
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+export class SimplePdf {
+  private pages: string[][] = [[]];
+
+  get currentPage(): number {
+    return this.pages.length - 1;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(x: number, y: number, value: string, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    const bold = options.bold ?? false;
+    const left = options.align === 'right'
+      ? x - value.length * size * averageCharWidth(bold)
+      : x;
+    this.pages[this.currentPage].push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${escapeText(value)}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5): void {
+    this.pages[this.currentPage].push(
+      `${width} w ${x1} ${PAGE_HEIGHT - y1} m ${x2} ${PAGE_HEIGHT - y2} l S`
+    );
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    // 1: catalog, 2: page tree, 3/4: fonts, then a page + content stream pair per page
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    const kids: string[] = [];
+    this.pages.forEach((commands, index) => {
+      const pageId = 5 + index * 2;
+      const contentId = pageId + 1;
+      const stream = commands.join('\n');
+      kids.push(`${pageId} 0 R`);
+      objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`;
+      objects[contentId] = `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+    });
+    objects[2] = `<< /Type /Pages /Kids [${kids.join(' ')}] /Count ${kids.length} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+}
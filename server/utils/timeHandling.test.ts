@@ -0,0 +1,59 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { backfillDisplayFields, computeCalendarEventTimes, computeDueAt } from './timeHandling';
+
+const VANCOUVER = 'America/Vancouver'; // springs forward 2026-03-08, falls back 2026-11-01 (02:00 local)
+
+describe('computeDueAt across DST transitions', () => {
+  test('uses the offset in force on the due date', () => {
+    assert.equal(computeDueAt('2026-03-07', '09:00', VANCOUVER).due_at, '2026-03-07T17:00:00Z');
+    assert.equal(computeDueAt('2026-03-08', '09:00', VANCOUVER).due_at, '2026-03-08T16:00:00Z');
+    assert.equal(computeDueAt('2026-10-31', '9:00 AM', VANCOUVER).due_at, '2026-10-31T16:00:00Z');
+    assert.equal(computeDueAt('2026-11-01', '9:00 AM', VANCOUVER).due_at, '2026-11-01T17:00:00Z');
+  });
+
+  test('moves a time skipped by spring-forward to the same wall-clock minute an hour later', () => {
+    assert.deepEqual(computeDueAt('2026-03-08', '2:30 AM', VANCOUVER), {
+      due_at: '2026-03-08T10:30:00Z',
+      due_time_db: '03:30',
+      due_date_db: '2026-03-08',
+    });
+  });
+
+  test('resolves the repeated fall-back hour to its first occurrence', () => {
+    assert.equal(computeDueAt('2026-11-01', '01:30', VANCOUVER).due_at, '2026-11-01T08:30:00Z');
+  });
+
+  test('follows the entering user zone, not the agency default', () => {
+    // Europe/London springs forward on 2026-03-29 at 01:00
+    assert.equal(computeDueAt('2026-03-28', '09:00', 'Europe/London').due_at, '2026-03-28T09:00:00Z');
+    assert.equal(computeDueAt('2026-03-29', '09:00', 'Europe/London').due_at, '2026-03-29T08:00:00Z');
+    assert.equal(computeDueAt('2026-03-29', '09:00', 'Invalid/Zone').due_at, '2026-03-29T16:00:00Z');
+  });
+
+  test('keeps date-only due dates unscheduled', () => {
+    assert.deepEqual(computeDueAt('2026-03-08', '', VANCOUVER), { due_at: null, due_time_db: null, due_date_db: '2026-03-08' });
+  });
+});
+
+describe('display and calendar times across DST transitions', () => {
+  test('backfills the wall-clock date and time in the viewer zone', () => {
+    assert.deepEqual(backfillDisplayFields('2026-03-08T16:00:00Z', VANCOUVER), { dueDate: '2026-03-08', dueTime: '09:00' });
+    assert.deepEqual(backfillDisplayFields('2026-11-01T09:30:00Z', VANCOUVER), { dueDate: '2026-11-01', dueTime: '01:30' });
+    assert.deepEqual(backfillDisplayFields('2026-03-08T07:30:00Z', 'Europe/London'), { dueDate: '2026-03-08', dueTime: '07:30' });
+  });
+
+  test('an event spanning spring-forward lasts an hour of real time', () => {
+    assert.deepEqual(computeCalendarEventTimes('2026-03-08T09:30:00Z', VANCOUVER), {
+      start: '2026-03-08T01:30:00.000-08:00',
+      end: '2026-03-08T03:30:00.000-07:00',
+    });
+  });
+
+  test('an event spanning fall-back lasts an hour of real time', () => {
+    assert.deepEqual(computeCalendarEventTimes('2026-11-01T08:00:00Z', VANCOUVER, 90), {
+      start: '2026-11-01T01:00:00.000-07:00',
+      end: '2026-11-01T01:30:00.000-08:00',
+    });
+  });
+});
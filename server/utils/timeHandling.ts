@@ -4,6 +4,7 @@
  * Single source of truth approach - all due_at computed on server
  */
 import { DateTime } from 'luxon';
+import { resolveTimezone } from '@shared/timezone';
 
 /**
  * Parse local date/time string in user timezone using Luxon (single source of truth)
@@ -30,7 +31,7 @@ const parseLocal = (dateStr: string, timeStr: string, tz: string): DateTime => {
  * Compute due_at on the server (single source of truth approach)
  * @param dueDate - Date string in YYYY-MM-DD format  
  * @param dueTime - Time string like "9:45 AM", "21:55", "9 PM", etc.
- * @param userTz - IANA timezone string (fallback to America/Vancouver for nikki@csekcreative.com)
+ * @param timezone - IANA timezone of the person entering the time (falls back to the agency default)
  * @returns Object with UTC timestamp, normalized database time, and database date
  */
 export function computeDueAt(dueDate: string, dueTime: string, timezone?: string): {
@@ -53,8 +54,8 @@ export function computeDueAt(dueDate: string, dueTime: string, timezone?: string
   }
   
   try {
-    // Fixed timezone - America/Vancouver (no double offset)
-    const TZ = 'America/Vancouver';
+    // Interpret the wall-clock time in the caller's zone (invalid or missing zones use the default)
+    const TZ = resolveTimezone(timezone);
     
     // Use proper time parsing function instead of raw ISO parsing
     const local = parseLocal(dueDate, dueTime, TZ);
@@ -65,7 +66,7 @@ export function computeDueAt(dueDate: string, dueTime: string, timezone?: string
       due_date_db: local.toISODate()        // Normalized date (display helper)
     };
     
-    console.log('computeDueAt (fixed TZ):', { dueDate, dueTime, TZ, result });
+    console.log('computeDueAt:', { dueDate, dueTime, TZ, result });
     return result;
   } catch (error) {
     console.error('Error computing due_at:', error);
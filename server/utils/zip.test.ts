@@ -0,0 +1,72 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateRawSync } from 'zlib';
+import { readZipEntries, ZipLimitError } from './zip';
+
+// Builds a deflated ZIP; `declared` overrides the uncompressed size written to the central directory
+const zip = (files: { name: string; contents: Buffer; declared?: number }[]) => {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const { name, contents, declared } of files) {
+    const data = deflateRawSync(contents);
+    const nameBytes = Buffer.from(name);
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(contents.length, 22);
+    local.writeUInt16LE(nameBytes.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(declared ?? contents.length, 24);
+    central.writeUInt16LE(nameBytes.length, 28);
+    central.writeUInt32LE(offset, 42);
+    locals.push(local, nameBytes, data);
+    centrals.push(central, nameBytes);
+    offset += local.length + nameBytes.length + data.length;
+  }
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(files.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+};
+
+describe('readZipEntries', () => {
+  test('inflates the entries the filter accepts', () => {
+    const entries = readZipEntries(zip([
+      { name: 'word/document.xml', contents: Buffer.from('<w:document/>') },
+      { name: 'word/styles.xml', contents: Buffer.from('<w:styles/>') },
+    ]), name => name === 'word/document.xml');
+
+    assert.deepEqual(Array.from(entries.keys()), ['word/document.xml']);
+    assert.equal(entries.get('word/document.xml')!.toString(), '<w:document/>');
+  });
+
+  test('refuses an entry that declares more than the cap', () => {
+    const bomb = zip([{ name: 'word/document.xml', contents: Buffer.from('x'), declared: 0xffffffff }]);
+
+    assert.throws(() => readZipEntries(bomb), ZipLimitError);
+  });
+
+  test('stops inflating an entry that understates its size', () => {
+    const bomb = zip([{ name: 'word/document.xml', contents: Buffer.alloc(4096), declared: 10 }]);
+
+    assert.throws(() => readZipEntries(bomb, undefined, { maxEntryBytes: 1024 }), ZipLimitError);
+  });
+
+  test('caps the entries together as well as one by one', () => {
+    const sheets = zip([
+      { name: 'xl/worksheets/sheet1.xml', contents: Buffer.alloc(800) },
+      { name: 'xl/worksheets/sheet2.xml', contents: Buffer.alloc(800) },
+    ]);
+
+    assert.equal(readZipEntries(sheets, undefined, { maxEntryBytes: 1000 }).size, 2);
+    assert.throws(() => readZipEntries(sheets, undefined, { maxEntryBytes: 1000, maxTotalBytes: 1200 }), ZipLimitError);
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Minimal ZIP reader for Office documents (DOCX/XLSX are ZIP containers of XML parts)
+ * Reads the central directory and inflates stored or deflated entries with node's zlib
+ */
+import { inflateRawSync } from 'zlib';
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+// Caps on inflated output; a few KB of deflate can expand to gigabytes
+export const MAX_ENTRY_BYTES = 50 * 1024 * 1024;
+export const MAX_TOTAL_BYTES = 100 * 1024 * 1024;
+
+export class ZipLimitError extends Error {}
+
+export interface ZipLimits {
+  maxEntryBytes?: number;
+  maxTotalBytes?: number;
+}
+
+export function isZip(buffer: Buffer): boolean {
+  return buffer.length > 4 && buffer.readUInt32LE(0) === LOCAL_FILE_HEADER;
+}
+
+// Returns entry name -> uncompressed contents; only the entries accepted by `filter` are inflated
+export function readZipEntries(
+  buffer: Buffer,
+  filter: (name: string) => boolean = () => true,
+  { maxEntryBytes = MAX_ENTRY_BYTES, maxTotalBytes = MAX_TOTAL_BYTES }: ZipLimits = {},
+): Map<string, Buffer> {
+  // The end-of-central-directory record sits in the last 64KB (22 bytes + optional comment)
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65557); i--) {
+    if (buffer.readUInt32LE(i) === END_OF_CENTRAL_DIRECTORY) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const entryCount = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, Buffer>();
+  let totalBytes = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (buffer.readUInt32LE(offset) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const uncompressedSize = buffer.readUInt32LE(offset + 24);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeaderOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    if (!filter(name)) continue;
+
+    // The declared size can lie, so inflation is capped below as well
+    const limit = Math.min(maxEntryBytes, maxTotalBytes - totalBytes);
+    if (uncompressedSize > limit) {
+      throw new ZipLimitError(`${name} is too large to read`);
+    }
+
+    // Local header lengths can differ from the central directory's, so re-read them
+    const localNameLength = buffer.readUInt16LE(localHeaderOffset + 26);
+    const localExtraLength = buffer.readUInt16LE(localHeaderOffset + 28);
+    const dataStart = localHeaderOffset + 30 + localNameLength + localExtraLength;
+    const data = buffer.subarray(dataStart, dataStart + compressedSize);
+
+    let contents: Buffer;
+    if (method === 0) {
+      contents = Buffer.from(data);
+    } else if (method === 8) {
+      try {
+        contents = inflateRawSync(data, { maxOutputLength: Math.max(limit, 1) });
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE') {
+          throw new ZipLimitError(`${name} is too large to read`);
+        }
+        throw error;
+      }
+    } else {
+      continue;
+    }
+    if (contents.length > limit) {
+      throw new ZipLimitError(`${name} is too large to read`);
+    }
+    totalBytes += contents.length;
+    entries.set(name, contents);
+  }
+
+  return entries;
+}
@@ -0,0 +1,147 @@
+/**
+ * Roles and permissions
+ * Every user has one role; the role decides which permissions they hold. Project-scoped permissions
+ * also need access to the project: staff with projects.view_all see every project, everyone else only
+ * the projects they are the client of, a member of, or that belong to their organization.
+ * Client contacts can be narrowed further with a contact access level.
+ */
+
+export const USER_ROLES = [
+  'owner',
+  'admin',
+  'project_manager',
+  'contributor',
+  'client_admin',
+  'client_viewer',
+  'client',
+] as const;
+
+export type UserRole = typeof USER_ROLES[number];
+
+export const PERMISSIONS = [
+  'admin.access',        // Open the agency dashboard
+  'projects.view_all',   // See every project and task, not just the ones you belong to
+  'projects.manage',     // Create, edit, kick off and delete projects
+  'project.view',        // View a project you have access to
+  'project.budget.view', // See budgets and other money on a project
+  'files.view',
+  'messages.view',
+  'invoices.view',       // See invoices billed to you or your organization
+  'tasks.manage',        // Create, assign and edit any task
+  'tasks.update_assigned', // Update tasks you are assigned to
+  'files.upload',
+  'files.review',        // Comment on and review files
+  'messages.post',
+  'messages.moderate',   // Delete other people's messages
+  'approvals.request',
+  'approvals.decide',
+  'clients.manage',      // Organizations and client accounts
+  'team.manage',         // Team members and invitations
+  'roles.manage',        // Change user roles and project membership
+  'billing.manage',      // Proposals, quotes, invoices, billing rates and time reports
+  'settings.manage',     // Services, templates, background jobs, deleted items and integrations
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+const CLIENT_ADMIN_PERMISSIONS: Permission[] = [
+  'project.view',
+  'project.budget.view',
+  'files.view',
+  'messages.view',
+  'invoices.view',
+  'files.upload',
+  'files.review',
+  'messages.post',
+  'approvals.decide',
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  owner: [...PERMISSIONS],
+  admin: [...PERMISSIONS],
+  project_manager: [
+    'admin.access',
+    'projects.view_all',
+    'projects.manage',
+    'project.view',
+    'project.budget.view',
+    'files.view',
+    'messages.view',
+    'tasks.manage',
+    'tasks.update_assigned',
+    'files.upload',
+    'files.review',
+    'messages.post',
+    'messages.moderate',
+    'approvals.request',
+    'clients.manage',
+  ],
+  // Freelancers and specialists: only the projects they are added to, and never the money
+  contributor: [
+    'project.view',
+    'files.view',
+    'messages.view',
+    'tasks.update_assigned',
+    'files.upload',
+    'files.review',
+    'messages.post',
+  ],
+  client_admin: CLIENT_ADMIN_PERMISSIONS,
+  client_viewer: ['project.view', 'files.view', 'messages.view'],
+  // Accounts created before roles existed
+  client: CLIENT_ADMIN_PERMISSIONS,
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Owner',
+  admin: 'Admin',
+  project_manager: 'Project Manager',
+  contributor: 'Contributor',
+  client_admin: 'Client Admin',
+  client_viewer: 'Client Viewer',
+  client: 'Client',
+};
+
+// How much of the organization's work a client contact sees; applies on top of their role
+export const CONTACT_ACCESS_LEVELS = ['full', 'billing', 'creative', 'read_only'] as const;
+
+export type ContactAccess = typeof CONTACT_ACCESS_LEVELS[number];
+
+const CONTACT_ACCESS_PERMISSIONS: Record<Exclude<ContactAccess, 'full'>, Permission[]> = {
+  billing: ['project.view', 'project.budget.view', 'invoices.view', 'messages.view', 'messages.post'],
+  creative: ['project.view', 'files.view', 'files.upload', 'files.review', 'messages.view', 'messages.post', 'approvals.decide'],
+  read_only: ['project.view', 'files.view', 'messages.view'],
+};
+
+export const CONTACT_ACCESS_LABELS: Record<ContactAccess, string> = {
+  full: 'Full access',
+  billing: 'Billing',
+  creative: 'Creative',
+  read_only: 'Read-only',
+};
+
+export const STAFF_ROLES: UserRole[] = ['owner', 'admin', 'project_manager', 'contributor'];
+
+export function isUserRole(role: unknown): role is UserRole {
+  return typeof role === 'string' && (USER_ROLES as readonly string[]).includes(role);
+}
+
+export function isContactAccess(level: unknown): level is ContactAccess {
+  return typeof level === 'string' && (CONTACT_ACCESS_LEVELS as readonly string[]).includes(level);
+}
+
+export function hasPermission(
+  role: string | null | undefined,
+  permission: Permission,
+  contactAccess?: string | null
+): boolean {
+  if (!isUserRole(role) || !ROLE_PERMISSIONS[role].includes(permission)) return false;
+  // Staff are never narrowed by a contact access level
+  if (STAFF_ROLES.includes(role) || !isContactAccess(contactAccess) || contactAccess === 'full') return true;
+  return CONTACT_ACCESS_PERMISSIONS[contactAccess].includes(permission);
+}
+
+// Agency side of the house, as opposed to client accounts
+export function isStaffRole(role: string | null | undefined): boolean {
+  return isUserRole(role) && STAFF_ROLES.includes(role);
+}
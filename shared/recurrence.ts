@@ -0,0 +1,295 @@
+/**
+ * RFC 5545 RRULE helpers for recurring tasks
+ * Supports FREQ (DAILY/WEEKLY/MONTHLY/YEARLY), INTERVAL, COUNT, UNTIL, BYDAY, BYMONTHDAY and BYMONTH,
+ * which covers the agency's recurring work (weekly posts, monthly reports, quarterly reviews)
+ * Occurrences are expanded in the series timezone so wall-clock times survive DST changes
+ */
+import { DateTime } from 'luxon';
+
+export type RRuleFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RRuleWeekday {
+  weekday: number; // 1 = Monday ... 7 = Sunday (ISO / Luxon numbering)
+  ordinal?: number; // e.g. 1 for 1MO, -1 for -1FR
+}
+
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  until?: DateTime;
+  byDay?: RRuleWeekday[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+}
+
+const WEEKDAY_CODES = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const FREQUENCIES: RRuleFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'WKST'];
+
+// Safety cap on the number of periods walked while expanding a rule
+const MAX_PERIODS = 5000;
+
+const parseIntList = (value: string, min: number, max: number, part: string): number[] =>
+  value.split(',').map(item => {
+    const parsed = Number(item);
+    if (!Number.isInteger(parsed) || parsed === 0 || Math.abs(parsed) > max || parsed < min) {
+      throw new Error(`Invalid ${part} value: ${item}`);
+    }
+    return parsed;
+  });
+
+/**
+ * Parse an RRULE string (with or without the "RRULE:" prefix)
+ * @throws Error for malformed or unsupported rules
+ */
+export function parseRRule(input: string): RRule {
+  const body = input.trim().replace(/^RRULE:/i, '');
+  if (!body) throw new Error('Recurrence rule is empty');
+
+  const parts = new Map<string, string>();
+  for (const segment of body.split(';').filter(Boolean)) {
+    const [key, value] = segment.split('=');
+    if (!key || value === undefined) throw new Error(`Invalid recurrence rule segment: ${segment}`);
+    const name = key.toUpperCase();
+    if (!SUPPORTED_PARTS.includes(name)) throw new Error(`Unsupported recurrence rule part: ${name}`);
+    parts.set(name, value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RRuleFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw new Error('Recurrence rule needs FREQ=DAILY, WEEKLY, MONTHLY or YEARLY');
+  }
+
+  const rule: RRule = { freq, interval: 1 };
+
+  if (parts.has('INTERVAL')) {
+    rule.interval = Number(parts.get('INTERVAL'));
+    if (!Number.isInteger(rule.interval) || rule.interval < 1) throw new Error('INTERVAL must be a positive integer');
+  }
+  if (parts.has('COUNT') && parts.has('UNTIL')) {
+    throw new Error('COUNT and UNTIL cannot be combined');
+  }
+  if (parts.has('COUNT')) {
+    rule.count = Number(parts.get('COUNT'));
+    if (!Number.isInteger(rule.count) || rule.count < 1) throw new Error('COUNT must be a positive integer');
+  }
+  if (parts.has('UNTIL')) {
+    const value = parts.get('UNTIL')!;
+    const until = value.includes('T')
+      ? DateTime.fromFormat(value.replace(/Z$/, ''), "yyyyLLdd'T'HHmmss", { zone: 'utc' })
+      : DateTime.fromFormat(value, 'yyyyLLdd', { zone: 'utc' }).endOf('day');
+    if (!until.isValid) throw new Error(`Invalid UNTIL value: ${value}`);
+    rule.until = until;
+  }
+  if (parts.has('BYDAY')) {
+    rule.byDay = parts.get('BYDAY')!.split(',').map(item => {
+      const match = item.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+      if (!match) throw new Error(`Invalid BYDAY value: ${item}`);
+      const ordinal = match[1] ? Number(match[1]) : undefined;
+      if (ordinal !== undefined && (ordinal === 0 || Math.abs(ordinal) > 53)) {
+        throw new Error(`Invalid BYDAY value: ${item}`);
+      }
+      if (ordinal !== undefined && (freq === 'DAILY' || freq === 'WEEKLY')) {
+        throw new Error('Numbered BYDAY values are only valid for MONTHLY or YEARLY rules');
+      }
+      return { weekday: WEEKDAY_CODES.indexOf(match[2]) + 1, ordinal };
+    });
+  }
+  if (parts.has('BYMONTHDAY')) {
+    rule.byMonthDay = parseIntList(parts.get('BYMONTHDAY')!, -31, 31, 'BYMONTHDAY');
+  }
+  if (parts.has('BYMONTH')) {
+    rule.byMonth = parseIntList(parts.get('BYMONTH')!, 1, 12, 'BYMONTH');
+  }
+
+  return rule;
+}
+
+/**
+ * Serialize a rule back to its canonical RRULE body (no "RRULE:" prefix)
+ */
+export function formatRRule(rule: RRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(day => `${day.ordinal ?? ''}${WEEKDAY_CODES[day.weekday - 1]}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toUTC().toFormat("yyyyLLdd'T'HHmmss'Z'")}`);
+  return parts.join(';');
+}
+
+/**
+ * Validate and normalize user input, returning the canonical rule body
+ * @returns The canonical rule, or an error message
+ */
+export function normalizeRRule(input: string): { ok: true; rule: string } | { ok: false; error: string } {
+  try {
+    return { ok: true, rule: formatRRule(parseRRule(input)) };
+  } catch (error: any) {
+    return { ok: false, error: error.message };
+  }
+}
+
+// Candidate days for one month, honouring BYMONTHDAY / BYDAY (or the start day when neither is set)
+const daysInMonth = (monthStart: DateTime, rule: RRule, fallbackDay: number): DateTime[] => {
+  const lastDay = monthStart.daysInMonth!;
+  if (rule.byMonthDay?.length) {
+    return rule.byMonthDay
+      .map(day => (day > 0 ? day : lastDay + day + 1))
+      .filter(day => day >= 1 && day <= lastDay)
+      .map(day => monthStart.set({ day }));
+  }
+  if (rule.byDay?.length) {
+    const result: DateTime[] = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: DateTime[] = [];
+      for (let day = 1; day <= lastDay; day++) {
+        const candidate = monthStart.set({ day });
+        if (candidate.weekday === weekday) matching.push(candidate);
+      }
+      if (ordinal === undefined) {
+        result.push(...matching);
+      } else {
+        const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (picked) result.push(picked);
+      }
+    }
+    return result;
+  }
+  // RFC 5545: months without the start day (e.g. the 31st) are skipped
+  return fallbackDay <= lastDay ? [monthStart.set({ day: fallbackDay })] : [];
+};
+
+// All candidate occurrences within the n-th period of the rule
+const candidatesForPeriod = (rule: RRule, dtstart: DateTime, period: number): DateTime[] => {
+  const step = period * rule.interval;
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = dtstart.plus({ days: step });
+      return [day];
+    }
+    case 'WEEKLY': {
+      if (!rule.byDay?.length) return [dtstart.plus({ weeks: step })];
+      const weekStart = dtstart.startOf('week').plus({ weeks: step });
+      return rule.byDay.map(({ weekday }) => weekStart.plus({ days: weekday - 1 }));
+    }
+    case 'MONTHLY': {
+      const monthStart = dtstart.startOf('month').plus({ months: step });
+      return daysInMonth(monthStart, rule, dtstart.day);
+    }
+    case 'YEARLY': {
+      const yearStart = dtstart.startOf('year').plus({ years: step });
+      const months = rule.byMonth?.length ? rule.byMonth : [dtstart.month];
+      return months.flatMap(month => daysInMonth(yearStart.set({ month }), rule, dtstart.day));
+    }
+  }
+};
+
+// Filters that narrow (rather than expand) the candidate set for the given frequency
+const matchesFilters = (rule: RRule, candidate: DateTime): boolean => {
+  if (rule.byMonth?.length && rule.freq !== 'YEARLY' && !rule.byMonth.includes(candidate.month)) return false;
+  if (rule.freq === 'DAILY') {
+    if (rule.byDay?.length && !rule.byDay.some(day => day.weekday === candidate.weekday)) return false;
+    if (rule.byMonthDay?.length) {
+      const lastDay = candidate.daysInMonth!;
+      if (!rule.byMonthDay.some(day => (day > 0 ? day : lastDay + day + 1) === candidate.day)) return false;
+    }
+  }
+  return true;
+};
+
+/**
+ * Expand a rule into concrete occurrences
+ * The series start (dtstart) is always the first occurrence, as Google Calendar treats it,
+ * and counts towards COUNT
+ * @param dtstart - First occurrence, in the series timezone
+ * @param options.after - Only return occurrences strictly after this instant
+ * @param options.before - Stop once occurrences pass this instant
+ * @param options.limit - Maximum number of occurrences to return
+ */
+export function expandRRule(
+  ruleInput: string | RRule,
+  dtstart: DateTime,
+  options: { after?: DateTime; before?: DateTime; limit?: number } = {}
+): DateTime[] {
+  const rule = typeof ruleInput === 'string' ? parseRRule(ruleInput) : ruleInput;
+  const limit = options.limit ?? 100;
+  const time = { hour: dtstart.hour, minute: dtstart.minute, second: dtstart.second, millisecond: 0 };
+  const results: DateTime[] = [];
+  let emitted = 0;
+
+  const emit = (occurrence: DateTime): boolean => {
+    emitted++;
+    if (!options.after || occurrence > options.after) results.push(occurrence);
+    if (rule.count && emitted >= rule.count) return false;
+    return results.length < limit;
+  };
+
+  if (!emit(dtstart)) return results;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const candidates = candidatesForPeriod(rule, dtstart, period)
+      .map(candidate => candidate.set(time))
+      .filter(candidate => candidate > dtstart && matchesFilters(rule, candidate))
+      .sort((a, b) => a.toMillis() - b.toMillis());
+
+    for (const candidate of candidates) {
+      if (rule.until && candidate > rule.until) return results;
+      if (options.before && candidate > options.before) return results;
+      if (!emit(candidate)) return results;
+    }
+  }
+  return results;
+}
+
+/**
+ * Next occurrence strictly after `after`, or null when the series has ended
+ */
+export function nextOccurrence(rule: string | RRule, dtstart: DateTime, after: DateTime): DateTime | null {
+  return expandRRule(rule, dtstart, { after, limit: 1 })[0] ?? null;
+}
+
+/**
+ * Return the rule with an UNTIL just before `before` (used to end a series at a split point)
+ * COUNT is dropped because the remaining occurrences move to the new series
+ */
+export function truncateRRule(ruleInput: string, before: DateTime): string {
+  const rule = parseRRule(ruleInput);
+  return formatRRule({ ...rule, count: undefined, until: before.toUTC().minus({ seconds: 1 }) });
+}
+
+const WEEKDAY_NAMES = ['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'];
+const ORDINAL_NAMES: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' };
+
+/**
+ * Short human-readable summary, e.g. "Every 2 weeks on Monday, Thursday"
+ */
+export function describeRRule(ruleInput: string): string {
+  let rule: RRule;
+  try {
+    rule = parseRRule(ruleInput);
+  } catch {
+    return 'Custom recurrence';
+  }
+
+  const units: Record<RRuleFrequency, string> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+  let text = rule.interval === 1 ? `Every ${units[rule.freq]}` : `Every ${rule.interval} ${units[rule.freq]}s`;
+  if (rule.freq === 'MONTHLY' && rule.interval === 3 && !rule.byMonth) text = 'Every quarter';
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map(({ weekday, ordinal }) =>
+      ordinal ? `the ${ORDINAL_NAMES[ordinal] ?? `${ordinal}th`} ${WEEKDAY_NAMES[weekday - 1]}` : WEEKDAY_NAMES[weekday - 1]
+    );
+    text += ` on ${days.join(', ')}`;
+  }
+  if (rule.byMonthDay?.length) {
+    text += ` on day ${rule.byMonthDay.map(day => (day === -1 ? 'last' : day)).join(', ')}`;
+  }
+  if (rule.count) text += `, ${rule.count} times`;
+  if (rule.until) text += `, until ${rule.until.toISODate()}`;
+  return text;
+}
@@ -7,12 +7,15 @@ import {
   varchar,
   timestamp,
   integer,
+  real,
   decimal,
   boolean,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { CONTACT_ACCESS_LEVELS, USER_ROLES } from "./permissions";
 
 // Session storage table (required for Replit Auth)
 export const sessions = pgTable(
@@ -46,9 +49,10 @@ export const users = pgTable("users", {
   firstName: varchar("first_name"),
   lastName: varchar("last_name"),
   profileImageUrl: varchar("profile_image_url"),
-  role: varchar("role").notNull().default("client"), // "client" or "admin"
+  role: varchar("role").notNull().default("client"), // One of USER_ROLES in shared/permissions.ts
   companyName: varchar("company_name"),
   organizationId: varchar("organization_id").references(() => organizations.id),
+  contactAccess: varchar("contact_access").notNull().default("full"), // One of CONTACT_ACCESS_LEVELS; narrows what an organization contact sees
   jobTitle: varchar("job_title"),
   phone: varchar("phone"),
   address: text("address"),
@@ -56,6 +60,8 @@ export const users = pgTable("users", {
   googleRefreshToken: text("google_refresh_token"), // Google OAuth refresh token
   googleTokenExpiry: timestamp("google_token_expiry"), // Token expiration
   calendarSyncEnabled: boolean("calendar_sync_enabled").default(false), // User preference for calendar sync
+  calendarProvider: varchar("calendar_provider"), // CalendarProvider id new events go to; null = first connected one
+  timezone: varchar("timezone"), // IANA timezone preference, detected from the browser on first login
   deletedAt: timestamp("deleted_at"),
   deletedBy: varchar("deleted_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
@@ -84,6 +90,18 @@ export const projects = pgTable("projects", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// People given access to a single project, on top of what their role already sees
+export const projectMembers = pgTable("project_members", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").notNull().references(() => projects.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  addedBy: varchar("added_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("uq_project_members_project_user").on(table.projectId, table.userId),
+  index("idx_project_members_user").on(table.userId),
+]);
+
 export const serviceCategories = pgTable("service_categories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull().unique(),
@@ -121,13 +139,15 @@ export const tasks = pgTable("tasks", {
   googleDriveLink: text("google_drive_link"), // Optional link to Google Drive files
   dependencies: text("dependencies").array(), // Array of task IDs that must be completed first
   estimatedHours: integer("estimated_hours"),
-  actualHours: integer("actual_hours"),
+  actualHours: real("actual_hours"), // Rolled up from time_entries across all assignments
   assigneeRole: varchar("assignee_role"), // "project_manager", "content_writer", "photographer", "designer", "client"
   assignedToMember: varchar("assigned_to_member"), // Specific team member name assignment
   clientVisible: boolean("client_visible").default(true), // Whether client can see this task
-  googleCalendarEventId: varchar("google_calendar_event_id"), // Google Calendar event ID for synced tasks
   dueAt: timestamp("due_at", { withTimezone: true }), // Canonical UTC timestamp
-  googleEventId: text("google_event_id"), // New field for Google Calendar event ID
+  recurrenceRule: text("recurrence_rule"), // RFC 5545 RRULE body, e.g. "FREQ=WEEKLY;BYDAY=MO" (set on the series master)
+  recurrenceTimezone: varchar("recurrence_timezone"), // IANA timezone the rule is expanded in
+  recurrenceSeriesId: varchar("recurrence_series_id"), // Master task of the series (the master points at itself)
+  recurrenceOccurrenceAt: timestamp("recurrence_occurrence_at", { withTimezone: true }), // Original slot of this occurrence
   deletedAt: timestamp("deleted_at"),
   deletedBy: varchar("deleted_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
@@ -139,7 +159,9 @@ export const projectFiles = pgTable("project_files", {
   projectId: varchar("project_id").notNull().references(() => projects.id),
   taskId: varchar("task_id").references(() => tasks.id),
   fileName: text("file_name").notNull(),
-  filePath: text("file_path").notNull(),
+  filePath: text("file_path").notNull(), // Storage key, or a local disk path when storageDriver is null
+  storageDriver: varchar("storage_driver"), // "local" or "s3"; null for uploads from before pluggable storage
+  checksum: varchar("checksum"), // SHA-256 of the file bytes, hex
   fileSize: integer("file_size"),
   fileType: varchar("file_type"),
   category: varchar("category"), // "design", "document", "report", etc.
@@ -148,8 +170,32 @@ export const projectFiles = pgTable("project_files", {
   isApproved: boolean("is_approved"),
   approvedBy: varchar("approved_by").references(() => users.id),
   approvedAt: timestamp("approved_at"),
+  versionGroupId: varchar("version_group_id"), // ID of the first version; null on the first version itself
+  versionNumber: integer("version_number").notNull().default(1),
+  isLatestVersion: boolean("is_latest_version").notNull().default(true),
+  versionNote: text("version_note"), // What changed in this revision
+  messageId: varchar("message_id"), // Set when the file was attached to a project message
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("idx_project_files_version_group").on(table.versionGroupId),
+]);
+
+// Review comments on one version of a file, optionally pinned to a page and/or region
+export const fileComments = pgTable("file_comments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fileId: varchar("file_id").notNull().references(() => projectFiles.id),
+  parentId: varchar("parent_id"), // Replies point at the thread's first comment
+  authorId: varchar("author_id").notNull().references(() => users.id),
+  body: text("body").notNull(),
+  page: integer("page"), // 1-based PDF page
+  region: jsonb("region"), // { x, y, width, height } as fractions of the page/image size
+  resolvedAt: timestamp("resolved_at"),
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_file_comments_file").on(table.fileId),
+]);
 
 export const analytics = pgTable("analytics", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -168,10 +214,41 @@ export const messages = pgTable("messages", {
   senderId: varchar("sender_id").notNull().references(() => users.id),
   content: text("content").notNull(),
   messageType: varchar("message_type").default("text"), // "text", "file", "system"
-  attachmentPath: text("attachment_path"),
-  isRead: boolean("is_read").default(false),
+  attachmentPath: text("attachment_path"), // Superseded by project_files.message_id
+  isRead: boolean("is_read").default(false), // Superseded by message_reads, which is per user
+  parentId: varchar("parent_id"), // Replies point at the thread's first message
+  mentions: jsonb("mentions").$type<MessageMention[]>(), // Resolved at send time so renames don't rewrite history
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"),
+  deletedBy: varchar("deleted_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("idx_messages_project").on(table.projectId, table.createdAt),
+  index("idx_messages_parent").on(table.parentId),
+]);
+
+// Who has read which message, for read receipts and unread counts
+export const messageReads = pgTable("message_reads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  messageId: varchar("message_id").notNull().references(() => messages.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  readAt: timestamp("read_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_message_reads_message_user").on(table.messageId, table.userId),
+  index("idx_message_reads_user").on(table.userId),
+]);
+
+// Previous wording of edited or deleted messages
+export const messageRevisions = pgTable("message_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  messageId: varchar("message_id").notNull().references(() => messages.id),
+  content: text("content").notNull(),
+  action: varchar("action").notNull(), // "edited" or "deleted"
+  changedBy: varchar("changed_by").notNull().references(() => users.id),
+  changedAt: timestamp("changed_at").defaultNow(),
+}, (table) => [
+  index("idx_message_revisions_message").on(table.messageId),
+]);
 
 export const kpis = pgTable("kpis", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -208,6 +285,7 @@ export const taskTemplates = pgTable("task_templates", {
   dependsOnTemplateId: varchar("depends_on_template_id"), // Self-reference for dependencies
   clientVisible: boolean("client_visible").default(true),
   assigneeRole: varchar("assignee_role"), // "content_writer", "photographer", "designer", "project_manager", "ghl_lead", "strategist", "finance"
+  displayOrder: integer("display_order").default(0), // Order within the service's template list
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -221,6 +299,7 @@ export const teamMembers = pgTable("team_members", {
   profileImageUrl: text("profile_image_url"),
   phoneNumber: text("phone_number"),
   notificationPreferences: jsonb("notification_preferences").default({}),
+  timezone: varchar("timezone"), // IANA timezone used for calendar events and due-date emails
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -235,12 +314,58 @@ export const taskAssignments = pgTable("task_assignments", {
   completedAt: timestamp("completed_at"),
   notes: text("notes"), // Individual notes for this assignment
   estimatedHours: integer("estimated_hours"), // Can be different per team member
-  actualHours: integer("actual_hours"),
-  calendarEventId: varchar("calendar_event_id"), // Google Calendar event ID for this assignment
+  actualHours: real("actual_hours"), // Rolled up from this assignment's time_entries
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Named task filters; shared views are listed for everyone who can see all tasks
+export const taskViews = pgTable("task_views", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  ownerId: varchar("owner_id").notNull().references(() => users.id),
+  filters: jsonb("filters").$type<Partial<TaskFilters>>().notNull().default({}),
+  isShared: boolean("is_shared").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_task_views_owner").on(table.ownerId),
+]);
+
+// Soft per-column limits on a task board; a null project is the agency-wide board
+export const boardWipLimits = pgTable("board_wip_limits", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  projectId: varchar("project_id").references(() => projects.id),
+  status: varchar("status").notNull(), // One of TASK_STATUSES
+  wipLimit: integer("wip_limit").notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_board_wip_limits_project").on(table.projectId),
+  // One limit per column per board; COALESCE so the agency-wide board (null project) is unique too
+  uniqueIndex("uq_board_wip_limits_board_status").on(sql`COALESCE(${table.projectId}, '')`, table.status),
+]);
+
+// Time tracked against an assignment - either a start/stop timer or a manual entry
+export const timeEntries = pgTable("time_entries", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskAssignmentId: varchar("task_assignment_id").references(() => taskAssignments.id, { onDelete: "set null" }), // Kept on the entry after unassignment for billing
+  taskId: varchar("task_id").notNull().references(() => tasks.id),
+  teamMemberId: varchar("team_member_id").notNull().references(() => teamMembers.id),
+  startedAt: timestamp("started_at", { withTimezone: true }).notNull(),
+  endedAt: timestamp("ended_at", { withTimezone: true }), // Null while a timer is running
+  durationMinutes: integer("duration_minutes"), // Null while a timer is running
+  source: varchar("source").notNull().default("timer"), // "timer" or "manual"
+  notes: text("notes"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_time_entries_assignment").on(table.taskAssignmentId),
+  index("idx_time_entries_member_started").on(table.teamMemberId, table.startedAt),
+  index("idx_time_entries_task").on(table.taskId),
+]);
+
 // Proposals table for slide deck and complex proposal management
 export const proposals = pgTable("proposals", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -250,7 +375,7 @@ export const proposals = pgTable("proposals", {
   title: text("title").notNull(),
   description: text("description"),
   totalAmount: decimal("total_amount", { precision: 10, scale: 2 }).notNull(),
-  status: varchar("status").notNull().default("draft"), // "draft", "sent", "approved", "partially_approved", "declined", "converted"
+  status: varchar("status").notNull().default("draft"), // "draft", "sent", "approved", "partially_approved", "declined", "expired", "converted"
   validUntil: timestamp("valid_until"),
   terms: text("terms"),
   notes: text("notes"),
@@ -281,6 +406,55 @@ export const proposalItems = pgTable("proposal_items", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Tokenized links that let a client contact open and sign a proposal without logging in
+export const proposalLinks = pgTable("proposal_links", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  proposalId: varchar("proposal_id").references(() => proposals.id).notNull(),
+  token: varchar("token").notNull().unique(),
+  contactName: varchar("contact_name"),
+  contactEmail: varchar("contact_email"),
+  createdBy: varchar("created_by").references(() => users.id),
+  lastViewedAt: timestamp("last_viewed_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_proposal_links_proposal").on(table.proposalId),
+]);
+
+// Signed client decisions with the audit trail captured at signing time
+export const proposalSignatures = pgTable("proposal_signatures", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  proposalId: varchar("proposal_id").references(() => proposals.id).notNull(),
+  linkId: varchar("link_id").references(() => proposalLinks.id),
+  signerName: varchar("signer_name").notNull(),
+  signerEmail: varchar("signer_email"),
+  decision: varchar("decision").notNull(), // "full", "partial", "declined"
+  approvedItemIds: jsonb("approved_item_ids").$type<string[]>().notNull(),
+  approvedTotal: decimal("approved_total", { precision: 10, scale: 2 }).notNull(),
+  comments: text("comments"),
+  itemComments: jsonb("item_comments").$type<Record<string, string>>(),
+  contentHash: varchar("content_hash").notNull(), // SHA-256 of the proposal content the client saw
+  ipAddress: varchar("ip_address"),
+  userAgent: text("user_agent"),
+  signedAt: timestamp("signed_at").defaultNow().notNull(),
+}, (table) => [
+  index("idx_proposal_signatures_proposal").on(table.proposalId),
+]);
+
+// Which project each converted proposal item became; one row per item keeps conversion idempotent
+export const proposalProjects = pgTable("proposal_projects", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  proposalId: varchar("proposal_id").references(() => proposals.id).notNull(),
+  proposalItemId: varchar("proposal_item_id").references(() => proposalItems.id).notNull().unique(),
+  projectId: varchar("project_id").references(() => projects.id).notNull(),
+  phase: integer("phase"),
+  createdBy: varchar("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_proposal_projects_proposal").on(table.proposalId),
+  index("idx_proposal_projects_project").on(table.projectId),
+]);
+
 // Quotes/Proposals table for automatic project and task generation (legacy - keeping for compatibility)
 export const quotes = pgTable("quotes", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -303,27 +477,160 @@ export const quotes = pgTable("quotes", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// Task-event mapping table for Google Calendar sync (idempotent & resilient)
+// One calendar event per task and user - the only record of which events belong to which tasks
 export const taskEventMappings = pgTable("task_event_mappings", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   taskId: varchar("task_id").notNull().references(() => tasks.id),
   userId: varchar("user_id").notNull().references(() => users.id),
-  eventId: varchar("event_id").notNull(), // Google Calendar event ID
-  calendarId: varchar("calendar_id").default("primary"), // Usually "primary"
+  eventId: varchar("event_id").notNull(), // Event ID at the provider
+  calendarId: varchar("calendar_id").default("primary"), // "primary" = the provider's default (CalDAV: the calendar picked on connect)
+  provider: varchar("provider").notNull().default("google"), // CalendarProvider id that owns the event
+  // What each side looked like at the last push/pull; a pull compares against these to tell who changed
+  syncedTaskState: jsonb("synced_task_state").$type<TaskSyncState>(),
+  syncedEventState: jsonb("synced_event_state").$type<EventSyncState>(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => [
-  index("idx_task_event_mappings_task_user").on(table.taskId, table.userId),
+  uniqueIndex("idx_task_event_mappings_task_user").on(table.taskId, table.userId),
   index("idx_task_event_mappings_event").on(table.eventId),
 ]);
 
+export interface TaskSyncState {
+  title: string;
+  dueAt: string | null;   // UTC ISO instant
+  dueTime: string | null; // null for all-day tasks
+}
+
+export interface EventSyncState {
+  summary: string;
+  start: string; // UTC ISO instant, or "date:YYYY-MM-DD" for all-day events
+  timeZone: string | null;
+}
+
+// Microsoft 365 and CalDAV accounts (Google tokens stay in oauth_tokens); one per user and provider
+export const calendarConnections = pgTable("calendar_connections", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  provider: varchar("provider").notNull(), // microsoft, caldav
+  accountName: varchar("account_name"), // Shown in settings: Microsoft account email or CalDAV username
+  credentials: jsonb("credentials").$type<MicrosoftCalendarCredentials | CalDavCalendarCredentials>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_calendar_connections_user_provider").on(table.userId, table.provider),
+]);
+
+export interface MicrosoftCalendarCredentials {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresAt: string; // ISO instant
+}
+
+export interface CalDavCalendarCredentials {
+  serverUrl: string;
+  username: string;
+  password: string; // App-specific password where the server supports them
+  calendarUrl: string; // Collection new events are written to
+}
+
+// Per-user Google Calendar pull state: incremental sync token and the push-notification channel
+export const calendarSyncStates = pgTable("calendar_sync_states", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  calendarId: varchar("calendar_id").notNull().default("primary"),
+  syncToken: text("sync_token"),
+  channelId: varchar("channel_id").unique(),
+  channelResourceId: varchar("channel_resource_id"),
+  channelToken: varchar("channel_token"), // Echoed back by Google in X-Goog-Channel-Token
+  channelExpiration: timestamp("channel_expiration"),
+  lastPulledAt: timestamp("last_pulled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("idx_calendar_sync_states_user_calendar").on(table.userId, table.calendarId),
+]);
+
+// Task and calendar event both changed since the last sync; nothing is applied until someone picks a side
+export const calendarSyncConflicts = pgTable("calendar_sync_conflicts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  taskId: varchar("task_id").notNull().references(() => tasks.id),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  eventId: varchar("event_id").notNull(),
+  taskState: jsonb("task_state").$type<TaskSyncState>().notNull(),
+  eventState: jsonb("event_state").$type<EventSyncState>(), // null when the event was deleted in the calendar
+  status: varchar("status").notNull().default("open"), // open, resolved
+  resolution: varchar("resolution"), // task, calendar
+  resolvedBy: varchar("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_calendar_sync_conflicts_task").on(table.taskId, table.status),
+]);
+
+// A request for the client to sign off on a task or file; the decision is recorded on the same row
+export const approvalRequests = pgTable("approval_requests", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  subjectType: varchar("subject_type").notNull(), // "task" or "file"
+  taskId: varchar("task_id").references(() => tasks.id),
+  fileId: varchar("file_id").references(() => projectFiles.id),
+  projectId: varchar("project_id").references(() => projects.id),
+  requestedBy: varchar("requested_by").notNull().references(() => users.id),
+  requestedFrom: varchar("requested_from").references(() => users.id), // Client contact asked to decide
+  message: text("message"),
+  status: varchar("status").notNull().default("pending"), // "pending", "approved", "rejected", "changes_requested", "cancelled"
+  previousTaskStatus: varchar("previous_task_status"), // Restored if the request is cancelled
+  decidedBy: varchar("decided_by").references(() => users.id),
+  decidedAt: timestamp("decided_at"),
+  decisionComment: text("decision_comment"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_approval_requests_task").on(table.taskId),
+  index("idx_approval_requests_file").on(table.fileId),
+  index("idx_approval_requests_requested_from").on(table.requestedFrom, table.status),
+]);
+
+// In-app notifications shown in the dashboard bell
+export const notifications = pgTable("notifications", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id),
+  type: varchar("type").notNull(), // "approval_requested", "approval_decided"
+  title: text("title").notNull(),
+  body: text("body"),
+  link: varchar("link"), // In-app path to open, e.g. "/?section=approvals"
+  entityType: varchar("entity_type"),
+  entityId: varchar("entity_id"),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_notifications_user").on(table.userId, table.readAt),
+]);
+
+// Secret-token iCalendar subscriptions for a team member's, project's or organization's dated tasks
+export const icalFeeds = pgTable("ical_feeds", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  scope: varchar("scope").notNull(), // "team_member", "project", "organization"
+  scopeId: varchar("scope_id").notNull(),
+  token: varchar("token").notNull().unique(),
+  component: varchar("component").notNull().default("VEVENT"), // "VEVENT" or "VTODO"
+  clientVisibleOnly: boolean("client_visible_only").notNull().default(false), // Client subscribers only see clientVisible tasks
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  lastAccessedAt: timestamp("last_accessed_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_ical_feeds_scope").on(table.scope, table.scopeId),
+]);
+
 // Quote line items for detailed breakdown
 export const quoteLineItems = pgTable("quote_line_items", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   quoteId: varchar("quote_id").references(() => quotes.id, { onDelete: "cascade" }).notNull(),
   serviceId: varchar("service_id").references(() => services.id),
   description: text("description").notNull(),
-  quantity: integer("quantity").default(1),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).default("1"),
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
   totalPrice: decimal("total_price", { precision: 10, scale: 2 }).notNull(),
   estimatedHours: integer("estimated_hours"),
@@ -331,6 +638,109 @@ export const quoteLineItems = pgTable("quote_line_items", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Hourly rate per team member role, used when invoicing tracked time
+export const billingRates = pgTable("billing_rates", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  role: varchar("role").notNull().unique(), // Matches team_members.role
+  hourlyRate: decimal("hourly_rate", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Invoices billed to an organization; totals are recalculated from line items, tax lines and payments
+export const invoices = pgTable("invoices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceNumber: varchar("invoice_number").notNull().unique(),
+  organizationId: varchar("organization_id").references(() => organizations.id),
+  clientId: varchar("client_id").references(() => users.id),
+  projectId: varchar("project_id").references(() => projects.id),
+  proposalId: varchar("proposal_id").references(() => proposals.id),
+  quoteId: varchar("quote_id").references(() => quotes.id),
+  title: text("title").notNull(),
+  status: varchar("status").notNull().default("draft"), // "draft", "sent", "paid", "overdue", "void"
+  issueDate: timestamp("issue_date"),
+  dueDate: timestamp("due_date"),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull().default("0"),
+  taxTotal: decimal("tax_total", { precision: 10, scale: 2 }).notNull().default("0"),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull().default("0"),
+  amountPaid: decimal("amount_paid", { precision: 10, scale: 2 }).notNull().default("0"),
+  notes: text("notes"),
+  terms: text("terms"),
+  sentAt: timestamp("sent_at"),
+  paidAt: timestamp("paid_at"),
+  voidedAt: timestamp("voided_at"),
+  createdBy: varchar("created_by").references(() => users.id).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => [
+  index("idx_invoices_organization").on(table.organizationId),
+  index("idx_invoices_status_due").on(table.status, table.dueDate),
+]);
+
+export const invoiceLineItems = pgTable("invoice_line_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").references(() => invoices.id, { onDelete: "cascade" }).notNull(),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 10, scale: 2 }).notNull().default("1"),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  // Where the line came from so the same work is not billed twice
+  sourceType: varchar("source_type").notNull().default("manual"), // "manual", "proposal_item", "quote_line_item", "task_assignment", "task"
+  sourceId: varchar("source_id"),
+  serviceId: varchar("service_id").references(() => services.id),
+  itemOrder: integer("item_order").default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_invoice_line_items_invoice").on(table.invoiceId),
+  index("idx_invoice_line_items_source").on(table.sourceType, table.sourceId),
+]);
+
+export const invoiceTaxLines = pgTable("invoice_tax_lines", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").references(() => invoices.id, { onDelete: "cascade" }).notNull(),
+  name: varchar("name").notNull(), // e.g. "GST", "PST"
+  rate: decimal("rate", { precision: 6, scale: 3 }).notNull(), // Percent of the subtotal
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const invoicePayments = pgTable("invoice_payments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  invoiceId: varchar("invoice_id").references(() => invoices.id, { onDelete: "cascade" }).notNull(),
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
+  paidAt: timestamp("paid_at").notNull(),
+  method: varchar("method"), // "etransfer", "cheque", "credit_card", "wire", ...
+  reference: varchar("reference"),
+  notes: text("notes"),
+  recordedBy: varchar("recorded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_invoice_payments_invoice").on(table.invoiceId),
+]);
+
+// Durable background jobs (calendar sync, emails, integration syncs) worked by JobQueueService
+export const jobs = pgTable("jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  type: varchar("type").notNull(), // "calendar.upsert", "calendar.delete", "email.task_assignment", ...
+  payload: jsonb("payload").notNull().default({}),
+  status: varchar("status").notNull().default("pending"), // pending, running, succeeded, dead, superseded
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lockedAt: timestamp("locked_at"),
+  lockedBy: varchar("locked_by"),
+  lastError: text("last_error"),
+  result: text("result"), // e.g. why a calendar sync was skipped
+  idempotencyKey: varchar("idempotency_key"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+}, (table) => [
+  index("idx_jobs_status_run_at").on(table.status, table.runAt),
+  // Only one queued job per key; finished jobs don't block re-enqueueing
+  uniqueIndex("idx_jobs_idempotency_pending").on(table.idempotencyKey).where(sql`status = 'pending'`),
+]);
+
 // Relations
 export const organizationsRelations = relations(organizations, ({ one, many }) => ({
   primaryContact: one(users, {
@@ -399,9 +809,10 @@ export const tasksRelations = relations(tasks, ({ one, many }) => ({
 
 export const teamMembersRelations = relations(teamMembers, ({ many }) => ({
   assignments: many(taskAssignments),
+  timeEntries: many(timeEntries),
 }));
 
-export const taskAssignmentsRelations = relations(taskAssignments, ({ one }) => ({
+export const taskAssignmentsRelations = relations(taskAssignments, ({ one, many }) => ({
   task: one(tasks, {
     fields: [taskAssignments.taskId],
     references: [tasks.id],
@@ -414,6 +825,22 @@ export const taskAssignmentsRelations = relations(taskAssignments, ({ one }) =>
     fields: [taskAssignments.assignedBy],
     references: [users.id],
   }),
+  timeEntries: many(timeEntries),
+}));
+
+export const timeEntriesRelations = relations(timeEntries, ({ one }) => ({
+  assignment: one(taskAssignments, {
+    fields: [timeEntries.taskAssignmentId],
+    references: [taskAssignments.id],
+  }),
+  task: one(tasks, {
+    fields: [timeEntries.taskId],
+    references: [tasks.id],
+  }),
+  teamMember: one(teamMembers, {
+    fields: [timeEntries.teamMemberId],
+    references: [teamMembers.id],
+  }),
 }));
 
 export const projectFilesRelations = relations(projectFiles, ({ one }) => ({
@@ -495,6 +922,90 @@ export const quoteLineItemsRelations = relations(quoteLineItems, ({ one }) => ({
   }),
 }));
 
+export const invoicesRelations = relations(invoices, ({ one, many }) => ({
+  organization: one(organizations, {
+    fields: [invoices.organizationId],
+    references: [organizations.id],
+  }),
+  client: one(users, {
+    fields: [invoices.clientId],
+    references: [users.id],
+  }),
+  project: one(projects, {
+    fields: [invoices.projectId],
+    references: [projects.id],
+  }),
+  proposal: one(proposals, {
+    fields: [invoices.proposalId],
+    references: [proposals.id],
+  }),
+  quote: one(quotes, {
+    fields: [invoices.quoteId],
+    references: [quotes.id],
+  }),
+  lineItems: many(invoiceLineItems),
+  taxLines: many(invoiceTaxLines),
+  payments: many(invoicePayments),
+}));
+
+export const invoiceLineItemsRelations = relations(invoiceLineItems, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [invoiceLineItems.invoiceId],
+    references: [invoices.id],
+  }),
+  service: one(services, {
+    fields: [invoiceLineItems.serviceId],
+    references: [services.id],
+  }),
+}));
+
+export const invoiceTaxLinesRelations = relations(invoiceTaxLines, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [invoiceTaxLines.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+export const invoicePaymentsRelations = relations(invoicePayments, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [invoicePayments.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+export const proposalLinksRelations = relations(proposalLinks, ({ one }) => ({
+  proposal: one(proposals, {
+    fields: [proposalLinks.proposalId],
+    references: [proposals.id],
+  }),
+}));
+
+export const proposalSignaturesRelations = relations(proposalSignatures, ({ one }) => ({
+  proposal: one(proposals, {
+    fields: [proposalSignatures.proposalId],
+    references: [proposals.id],
+  }),
+  link: one(proposalLinks, {
+    fields: [proposalSignatures.linkId],
+    references: [proposalLinks.id],
+  }),
+}));
+
+export const proposalProjectsRelations = relations(proposalProjects, ({ one }) => ({
+  proposal: one(proposals, {
+    fields: [proposalProjects.proposalId],
+    references: [proposals.id],
+  }),
+  proposalItem: one(proposalItems, {
+    fields: [proposalProjects.proposalItemId],
+    references: [proposalItems.id],
+  }),
+  project: one(projects, {
+    fields: [proposalProjects.projectId],
+    references: [projects.id],
+  }),
+}));
+
 // Insert schemas
 export const insertOrganizationSchema = createInsertSchema(organizations).omit({
   id: true,
@@ -535,6 +1046,22 @@ export const insertTaskSchema = createInsertSchema(tasks).omit({
   timezone: z.string().optional(), // IANA timezone string for computing due_at
 });
 
+export const insertTaskTemplateSchema = createInsertSchema(taskTemplates).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  title: z.string().trim().min(1, "Title is required"),
+  estimatedHours: z.number().int().min(0).nullable().optional(),
+  dayOffset: z.number().int().min(0).nullable().optional(),
+});
+
+export const taskTemplateOrderSchema = z.object({
+  templateOrders: z.array(z.object({
+    id: z.string(),
+    displayOrder: z.number().int().min(0),
+  })),
+});
+
 export const insertTeamMemberSchema = createInsertSchema(teamMembers).omit({
   id: true,
   createdAt: true,
@@ -547,11 +1074,53 @@ export const insertTaskAssignmentSchema = createInsertSchema(taskAssignments).om
   updatedAt: true,
 });
 
+export const insertTimeEntrySchema = createInsertSchema(timeEntries).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  startedAt: z.coerce.date(),
+  endedAt: z.coerce.date().nullable().optional(),
+  durationMinutes: z.number().int().min(1).max(24 * 60).nullable().optional(),
+  notes: z.string().trim().max(2000).nullable().optional(),
+});
+
+// Body of a manually logged entry (timer entries are created by start/stop)
+export const manualTimeEntrySchema = insertTimeEntrySchema.pick({ startedAt: true, notes: true }).extend({
+  durationMinutes: z.number().int().min(1).max(24 * 60),
+});
+
 export const insertProjectFileSchema = createInsertSchema(projectFiles).omit({
   id: true,
   createdAt: true,
 });
 
+export const insertFileCommentSchema = createInsertSchema(fileComments).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+// Region anchors are fractions so they survive the preview being drawn at any size
+export const fileCommentRegionSchema = z.object({
+  x: z.number().min(0).max(1),
+  y: z.number().min(0).max(1),
+  width: z.number().min(0).max(1).default(0),
+  height: z.number().min(0).max(1).default(0),
+});
+
+export const fileCommentCreateSchema = z.object({
+  body: z.string().trim().min(1).max(5000),
+  parentId: z.string().nullish(),
+  page: z.number().int().min(1).nullish(),
+  region: fileCommentRegionSchema.nullish(),
+});
+
+export const fileCommentUpdateSchema = z.object({
+  body: z.string().trim().min(1).max(5000).optional(),
+  resolved: z.boolean().optional(),
+});
+
 export const insertAnalyticsSchema = createInsertSchema(analytics).omit({
   id: true,
   createdAt: true,
@@ -562,6 +1131,95 @@ export const insertMessageSchema = createInsertSchema(messages).omit({
   createdAt: true,
 });
 
+export const insertMessageRevisionSchema = createInsertSchema(messageRevisions).omit({
+  id: true,
+  changedAt: true,
+});
+
+export const messageMentionTypes = ["user", "team_member"] as const;
+
+export type MessageMention = {
+  type: typeof messageMentionTypes[number];
+  id: string;
+  name: string;
+};
+
+export const messageCreateSchema = z.object({
+  content: z.string().trim().min(1).max(10000),
+  parentId: z.string().nullish(),
+  mentions: z.array(z.object({ type: z.enum(messageMentionTypes), id: z.string() })).max(20).default([]),
+});
+
+export const messageUpdateSchema = z.object({
+  content: z.string().trim().min(1).max(10000),
+});
+
+// Board columns, in workflow order
+export const TASK_STATUSES = ["in_progress", "needs_approval", "outstanding", "needs_clarification", "completed"] as const;
+
+// Missing or null means no limit for that column
+export const wipLimitsSchema = z.record(z.enum(TASK_STATUSES), z.number().int().min(1).max(999).nullable());
+
+export const TASK_SORT_FIELDS = ["created", "updated", "due", "priority", "title"] as const;
+
+// Filters for the task query API; saved views store the same shape
+export const taskFiltersSchema = z.object({
+  status: z.array(z.string()).optional(),
+  priority: z.array(z.string()).optional(),
+  assigneeRole: z.array(z.string()).optional(),
+  assigneeId: z.array(z.string()).optional(), // Team member ids; "unassigned" matches tasks with nobody on them
+  organizationId: z.string().optional(),
+  projectId: z.string().optional(),
+  serviceId: z.string().optional(),
+  dueFrom: z.coerce.date().optional(),
+  dueTo: z.coerce.date().optional(),
+  overdue: z.boolean().optional(),
+  clientVisible: z.boolean().optional(),
+  sortBy: z.enum(TASK_SORT_FIELDS).default("created"),
+  sortDir: z.enum(["asc", "desc"]).default("desc"),
+});
+
+export const taskPageSchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export const taskViewInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  filters: taskFiltersSchema,
+  isShared: z.boolean().default(false),
+});
+
+export const taskViewUpdateSchema = taskViewInputSchema.partial();
+
+export const insertTaskViewSchema = createInsertSchema(taskViews).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertProjectMemberSchema = createInsertSchema(projectMembers).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const userRoleUpdateSchema = z.object({
+  role: z.enum(USER_ROLES),
+});
+
+export const projectMemberCreateSchema = z.object({
+  userId: z.string().min(1),
+});
+
+export const organizationContactInviteSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  contactAccess: z.enum(CONTACT_ACCESS_LEVELS).default("full"),
+});
+
+export const contactAccessUpdateSchema = z.object({
+  contactAccess: z.enum(CONTACT_ACCESS_LEVELS),
+});
+
 export const insertKpiSchema = createInsertSchema(kpis).omit({
   id: true,
   createdAt: true,
@@ -591,6 +1249,201 @@ export const insertProposalItemSchema = createInsertSchema(proposalItems).omit({
   updatedAt: true,
 });
 
+export const insertProposalLinkSchema = createInsertSchema(proposalLinks).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertApprovalRequestSchema = createInsertSchema(approvalRequests).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertIcalFeedSchema = createInsertSchema(icalFeeds).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertProposalSignatureSchema = createInsertSchema(proposalSignatures).omit({
+  id: true,
+  signedAt: true,
+});
+
+export const insertProposalProjectSchema = createInsertSchema(proposalProjects).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertBillingRateSchema = createInsertSchema(billingRates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertInvoiceLineItemSchema = createInsertSchema(invoiceLineItems).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertInvoiceTaxLineSchema = createInsertSchema(invoiceTaxLines).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertInvoicePaymentSchema = createInsertSchema(invoicePayments).omit({
+  id: true,
+  createdAt: true,
+});
+
+// Request bodies for the invoice editor: amounts are derived server-side
+export const invoiceLineInputSchema = z.object({
+  description: z.string().trim().min(1),
+  quantity: z.coerce.number().positive(),
+  unitPrice: z.coerce.number().min(0),
+  serviceId: z.string().nullish(),
+  // Generated lines keep their source when a draft is edited
+  sourceType: z.enum(["manual", "proposal_item", "quote_line_item", "task_assignment", "task"]).optional(),
+  sourceId: z.string().nullish(),
+});
+
+export const calendarConflictResolutionSchema = z.object({
+  resolution: z.enum(["task", "calendar"]),
+});
+
+export const calendarProviderIds = ["google", "microsoft", "caldav"] as const;
+
+export const calendarProviderPreferenceSchema = z.object({
+  provider: z.enum(calendarProviderIds).nullable(),
+});
+
+export const calDavConnectSchema = z.object({
+  serverUrl: z.string().trim().url(),
+  username: z.string().trim().min(1),
+  password: z.string().min(1),
+  calendarUrl: z.string().trim().url().optional(), // Defaults to the first calendar found on the server
+});
+
+export const approvalRequestSchema = z.object({
+  subjectType: z.enum(["task", "file"]),
+  subjectId: z.string().min(1),
+  requestedFrom: z.string().nullish(), // Defaults to the project's client
+  message: z.string().trim().max(2000).nullish(),
+});
+
+export const approvalDecisionSchema = z.object({
+  decision: z.enum(["approved", "rejected", "changes_requested"]),
+  comment: z.string().trim().max(2000).nullish(),
+}).refine(data => data.decision === "approved" || !!data.comment, {
+  message: "Please say what needs to change",
+  path: ["comment"],
+});
+
+export const icalFeedScopes = ["team_member", "project", "organization"] as const;
+export const icalFeedComponents = ["VEVENT", "VTODO"] as const;
+
+export const icalFeedCreateSchema = z.object({
+  scope: z.enum(icalFeedScopes),
+  scopeId: z.string().min(1),
+  component: z.enum(icalFeedComponents).default("VEVENT"),
+  clientVisibleOnly: z.boolean().optional(), // Always on for feeds created by clients
+});
+
+export const icalFeedUpdateSchema = z.object({
+  component: z.enum(icalFeedComponents).optional(),
+  clientVisibleOnly: z.boolean().optional(),
+});
+
+export const proposalShareSchema = z.object({
+  contactName: z.string().trim().nullish(),
+  contactEmail: z.string().trim().email().nullish(),
+  sendEmail: z.boolean().optional(),
+});
+
+export const proposalValiditySchema = z.object({
+  validUntil: z.coerce.date().nullable(),
+});
+
+// What the client submits from the proposal portal
+export const proposalSignSchema = z.object({
+  approvedItemIds: z.array(z.string()),
+  signerName: z.string().trim().min(2, "Type your full name to sign"),
+  signerEmail: z.string().trim().email().nullish(),
+  comments: z.string().trim().max(5000).nullish(),
+  itemComments: z.record(z.string().max(2000)).optional(),
+  contentHash: z.string().min(1),
+  agree: z.literal(true),
+});
+
+// Options for turning approved proposal items into projects
+export const proposalConversionSchema = z.object({
+  grouping: z.enum(["phase", "single", "item"]).default("phase"), // one project per phase, one overall, or one per item
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+// Staff-reviewed line items for an uploaded quote, replacing whatever the parser extracted
+export const quoteReviewLineSchema = z.object({
+  description: z.string().trim().min(1),
+  serviceId: z.string().nullish(),
+  quantity: z.coerce.number().positive(),
+  unitPrice: z.coerce.number().min(0),
+  estimatedHours: z.coerce.number().int().min(0).nullish(),
+});
+
+export const quoteReviewSchema = z.object({
+  title: z.string().trim().min(1).optional(),
+  clientId: z.string().nullish(),
+  organizationId: z.string().nullish(),
+  tax: z.coerce.number().min(0).nullish(),
+  lineItems: z.array(quoteReviewLineSchema),
+});
+
+export const invoiceTaxInputSchema = z.object({
+  name: z.string().trim().min(1),
+  rate: z.coerce.number().min(0).max(100),
+});
+
+export const invoiceBodySchema = z.object({
+  title: z.string().trim().min(1).optional(),
+  organizationId: z.string().nullish(),
+  clientId: z.string().nullish(),
+  projectId: z.string().nullish(),
+  dueDate: z.coerce.date().nullish(),
+  notes: z.string().nullish(),
+  terms: z.string().nullish(),
+  lineItems: z.array(invoiceLineInputSchema).optional(),
+  taxLines: z.array(invoiceTaxInputSchema).optional(),
+});
+
+// Tax lines applied to invoices generated from proposals, quotes or tracked time
+export const invoiceTaxesBodySchema = z.object({
+  taxLines: z.array(invoiceTaxInputSchema).default([]),
+});
+
+export const billingRateInputSchema = z.object({
+  hourlyRate: z.coerce.number().min(0),
+});
+
+export const invoicePaymentInputSchema = z.object({
+  amount: z.coerce.number().positive(),
+  paidAt: z.coerce.date().optional(),
+  method: z.string().nullish(),
+  reference: z.string().nullish(),
+  notes: z.string().nullish(),
+});
+
 // Types
 export type Organization = typeof organizations.$inferSelect;
 export type InsertOrganization = z.infer<typeof insertOrganizationSchema>;
@@ -604,6 +1457,8 @@ export const teamInvitations = pgTable("team_invitations", {
   email: varchar("email").notNull(),
   invitedBy: varchar("invited_by").notNull().references(() => users.id),
   role: varchar("role").notNull().default("admin"), // Agency team members get admin access
+  organizationId: varchar("organization_id").references(() => organizations.id), // Set when inviting a client contact
+  contactAccess: varchar("contact_access"), // Access level the contact starts with
   status: varchar("status").notNull().default("pending"), // pending, accepted, expired
   invitationToken: varchar("invitation_token").notNull().unique(),
   expiresAt: timestamp("expires_at").notNull(),
@@ -611,9 +1466,24 @@ export const teamInvitations = pgTable("team_invitations", {
   acceptedAt: timestamp("accepted_at"),
 });
 
+export type CalendarConnection = typeof calendarConnections.$inferSelect;
+export type CalendarSyncState = typeof calendarSyncStates.$inferSelect;
+export type CalendarSyncConflict = typeof calendarSyncConflicts.$inferSelect;
+export type InsertCalendarSyncConflict = typeof calendarSyncConflicts.$inferInsert;
+export type ApprovalRequest = typeof approvalRequests.$inferSelect;
+export type InsertApprovalRequest = z.infer<typeof insertApprovalRequestSchema>;
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type IcalFeed = typeof icalFeeds.$inferSelect;
+export type InsertIcalFeed = z.infer<typeof insertIcalFeedSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = typeof jobs.$inferInsert;
+
 export type TeamInvitation = typeof teamInvitations.$inferSelect;
 export type InsertTeamInvitation = typeof teamInvitations.$inferInsert;
 
+export type InsertTaskTemplate = z.infer<typeof insertTaskTemplateSchema>;
+export type TaskTemplate = typeof taskTemplates.$inferSelect;
 export type TeamMember = typeof teamMembers.$inferSelect;
 export type InsertTeamMember = typeof teamMembers.$inferInsert;
 export type InsertProject = z.infer<typeof insertProjectSchema>;
@@ -626,12 +1496,28 @@ export type InsertTask = z.infer<typeof insertTaskSchema>;
 export type Task = typeof tasks.$inferSelect;
 export type InsertTaskAssignment = z.infer<typeof insertTaskAssignmentSchema>;
 export type TaskAssignment = typeof taskAssignments.$inferSelect;
+export type InsertTimeEntry = z.infer<typeof insertTimeEntrySchema>;
+export type TimeEntry = typeof timeEntries.$inferSelect;
 export type InsertProjectFile = z.infer<typeof insertProjectFileSchema>;
 export type ProjectFile = typeof projectFiles.$inferSelect;
+export type InsertFileComment = z.infer<typeof insertFileCommentSchema>;
+export type FileComment = typeof fileComments.$inferSelect;
+export type FileCommentRegion = z.infer<typeof fileCommentRegionSchema>;
 export type InsertAnalytics = z.infer<typeof insertAnalyticsSchema>;
 export type Analytics = typeof analytics.$inferSelect;
 export type InsertMessage = z.infer<typeof insertMessageSchema>;
 export type Message = typeof messages.$inferSelect;
+export type MessageRead = typeof messageReads.$inferSelect;
+export type InsertMessageRevision = z.infer<typeof insertMessageRevisionSchema>;
+export type MessageRevision = typeof messageRevisions.$inferSelect;
+export type InsertProjectMember = z.infer<typeof insertProjectMemberSchema>;
+export type TaskFilters = z.infer<typeof taskFiltersSchema>;
+export type TaskStatus = typeof TASK_STATUSES[number];
+export type WipLimits = Partial<Record<TaskStatus, number>>;
+export type BoardWipLimit = typeof boardWipLimits.$inferSelect;
+export type TaskView = typeof taskViews.$inferSelect;
+export type InsertTaskView = z.infer<typeof insertTaskViewSchema>;
+export type ProjectMember = typeof projectMembers.$inferSelect;
 export type InsertKpi = z.infer<typeof insertKpiSchema>;
 export type Kpi = typeof kpis.$inferSelect;
 export type Quote = typeof quotes.$inferSelect;
@@ -642,3 +1528,19 @@ export type Proposal = typeof proposals.$inferSelect;
 export type InsertProposal = z.infer<typeof insertProposalSchema>;
 export type ProposalItem = typeof proposalItems.$inferSelect;
 export type InsertProposalItem = z.infer<typeof insertProposalItemSchema>;
+export type ProposalProject = typeof proposalProjects.$inferSelect;
+export type InsertProposalProject = z.infer<typeof insertProposalProjectSchema>;
+export type ProposalLink = typeof proposalLinks.$inferSelect;
+export type InsertProposalLink = z.infer<typeof insertProposalLinkSchema>;
+export type ProposalSignature = typeof proposalSignatures.$inferSelect;
+export type InsertProposalSignature = z.infer<typeof insertProposalSignatureSchema>;
+export type BillingRate = typeof billingRates.$inferSelect;
+export type InsertBillingRate = z.infer<typeof insertBillingRateSchema>;
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type InvoiceLineItem = typeof invoiceLineItems.$inferSelect;
+export type InsertInvoiceLineItem = z.infer<typeof insertInvoiceLineItemSchema>;
+export type InvoiceTaxLine = typeof invoiceTaxLines.$inferSelect;
+export type InsertInvoiceTaxLine = z.infer<typeof insertInvoiceTaxLineSchema>;
+export type InvoicePayment = typeof invoicePayments.$inferSelect;
+export type InsertInvoicePayment = z.infer<typeof insertInvoicePaymentSchema>;
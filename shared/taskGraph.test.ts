@@ -0,0 +1,95 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeCriticalPath, findCycle, topologicalSort, wouldCreateCycle, type ScheduleNode } from './taskGraph';
+
+const node = (id: string, dependencies: string[] = [], durationHours = 0, deadline?: Date): ScheduleNode =>
+  ({ id, dependencies, durationHours, deadline });
+
+describe('findCycle', () => {
+  test('returns null for an acyclic graph', () => {
+    assert.equal(findCycle([node('a'), node('b', ['a']), node('c', ['a', 'b'])]), null);
+  });
+
+  test('returns the cycle with its first id repeated', () => {
+    const cycle = findCycle([node('a', ['c']), node('b', ['a']), node('c', ['b'])]);
+    assert.ok(cycle);
+    assert.equal(cycle[0], cycle[cycle.length - 1]);
+    assert.deepEqual(new Set(cycle), new Set(['a', 'b', 'c']));
+  });
+
+  test('detects a task depending on itself', () => {
+    assert.deepEqual(findCycle([node('a', ['a'])]), ['a', 'a']);
+  });
+
+  test('ignores dependencies outside the graph', () => {
+    assert.equal(findCycle([node('a', ['deleted']), node('b', ['a'])]), null);
+  });
+});
+
+describe('topologicalSort', () => {
+  test('puts every task after its dependencies and keeps input order for ties', () => {
+    const ordered = topologicalSort([node('c', ['a']), node('b'), node('a'), node('d', ['c', 'b'])]);
+    assert.deepEqual(ordered.map(n => n.id), ['b', 'a', 'c', 'd']);
+  });
+
+  test('throws on a cycle', () => {
+    assert.throws(() => topologicalSort([node('a', ['b']), node('b', ['a'])]), /Dependency cycle detected/);
+  });
+});
+
+describe('wouldCreateCycle', () => {
+  const nodes = [node('a'), node('b', ['a']), node('c', ['b'])];
+
+  test('rejects a link that closes a loop', () => {
+    assert.equal(wouldCreateCycle(nodes, 'a', 'c'), true);
+    assert.equal(wouldCreateCycle(nodes, 'b', 'b'), true);
+  });
+
+  test('allows a link that keeps the graph acyclic', () => {
+    assert.equal(wouldCreateCycle(nodes, 'c', 'a'), false);
+  });
+});
+
+describe('computeCriticalPath', () => {
+  const anchor = new Date('2026-03-02T09:00:00Z');
+
+  test('follows the longest chain and gives parallel work slack', () => {
+    // a(4) -> b(6) -> d(2), a(4) -> c(1) -> d(2)
+    const { schedule, criticalPath, projectFinish } = computeCriticalPath([
+      node('a', [], 4),
+      node('b', ['a'], 6),
+      node('c', ['a'], 1),
+      node('d', ['b', 'c'], 2),
+    ], anchor);
+
+    assert.deepEqual(criticalPath, ['a', 'b', 'd']);
+    assert.equal(projectFinish, 12);
+    assert.deepEqual(schedule.get('d'), { earliestStart: 10, earliestFinish: 12, latestFinish: 12, slack: 0, critical: true });
+    assert.equal(schedule.get('c')!.slack, 5);
+    assert.equal(schedule.get('c')!.critical, false);
+  });
+
+  test('a deadline tightens the chain and shows negative slack when it cannot be met', () => {
+    const deadline = new Date(anchor.getTime() + 5 * 3_600_000);
+    const { schedule, criticalPath } = computeCriticalPath([
+      node('a', [], 4),
+      node('b', ['a'], 3, deadline),
+      node('c', [], 10),
+    ], anchor);
+
+    assert.deepEqual(criticalPath, ['a', 'b']);
+    assert.equal(schedule.get('b')!.slack, -2);
+    assert.equal(schedule.get('a')!.latestFinish, 2);
+    assert.equal(schedule.get('c')!.critical, false);
+  });
+
+  test('completed work (zero duration) takes no time on the path', () => {
+    const { schedule, projectFinish } = computeCriticalPath([node('a', [], 0), node('b', ['a'], 3)], anchor);
+    assert.equal(schedule.get('b')!.earliestStart, 0);
+    assert.equal(projectFinish, 3);
+  });
+
+  test('throws on a cycle', () => {
+    assert.throws(() => computeCriticalPath([node('a', ['b'], 1), node('b', ['a'], 1)], anchor));
+  });
+});
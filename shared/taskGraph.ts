@@ -0,0 +1,210 @@
+/**
+ * Dependency graph helpers shared by the server and the client
+ * Nodes are identified by id and list the ids they depend on (upstream)
+ * All functions are pure so they can run in route handlers and React components alike
+ */
+
+export interface GraphNode {
+  id: string;
+  dependencies: string[];
+}
+
+export interface ScheduleNode extends GraphNode {
+  durationHours: number;
+  deadline?: Date | null;
+}
+
+export interface ScheduleResult {
+  earliestStart: number;
+  earliestFinish: number;
+  latestFinish: number;
+  slack: number;
+  critical: boolean;
+}
+
+export interface TaskGraphNode {
+  id: string;
+  title: string;
+  status: string;
+  priority: string | null;
+  estimatedHours: number | null;
+  dueAt: string | null;
+  dependencies: string[];
+  blocked: boolean;
+  blockedBy: string[];
+  earliestStart: number;
+  earliestFinish: number;
+  latestFinish: number;
+  slack: number;
+  critical: boolean;
+}
+
+// Response shape of GET /api/projects/:projectId/task-graph
+export interface TaskGraph {
+  projectId: string;
+  nodes: TaskGraphNode[];
+  edges: { from: string; to: string }[];
+  criticalPath: string[];
+  totalHours: number;
+  projectedFinish: string;
+}
+
+/**
+ * Find a dependency cycle in the graph
+ * @param nodes - Graph nodes; dependencies pointing outside the set are ignored
+ * @returns The ids forming the cycle (first id repeated at the end), or null when acyclic
+ */
+export function findCycle(nodes: GraphNode[]): string[] | null {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    state.set(id, 'visiting');
+    stack.push(id);
+
+    for (const depId of byId.get(id)?.dependencies || []) {
+      if (!byId.has(depId)) continue;
+      if (state.get(depId) === 'visiting') {
+        return [...stack.slice(stack.indexOf(depId)), depId];
+      }
+      if (!state.has(depId)) {
+        const cycle = visit(depId);
+        if (cycle) return cycle;
+      }
+    }
+
+    stack.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const node of nodes) {
+    if (!state.has(node.id)) {
+      const cycle = visit(node.id);
+      if (cycle) return cycle;
+    }
+  }
+  return null;
+}
+
+/**
+ * Order nodes so every node comes after all of its dependencies
+ * Ties keep the original input order, so callers can pre-sort (e.g. by display order)
+ * @throws Error when the graph contains a cycle
+ */
+export function topologicalSort<T extends GraphNode>(nodes: T[]): T[] {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const remaining = new Map<string, number>();
+  const dependents = new Map<string, string[]>();
+
+  for (const node of nodes) {
+    const deps = node.dependencies.filter(depId => byId.has(depId));
+    remaining.set(node.id, deps.length);
+    for (const depId of deps) {
+      dependents.set(depId, [...(dependents.get(depId) || []), node.id]);
+    }
+  }
+
+  const ordered: T[] = [];
+  const ready = nodes.filter(node => remaining.get(node.id) === 0);
+
+  while (ready.length > 0) {
+    const node = ready.shift()!;
+    ordered.push(node);
+    for (const dependentId of dependents.get(node.id) || []) {
+      const count = remaining.get(dependentId)! - 1;
+      remaining.set(dependentId, count);
+      if (count === 0) ready.push(byId.get(dependentId)!);
+    }
+  }
+
+  if (ordered.length !== nodes.length) {
+    const cycle = findCycle(nodes);
+    throw new Error(`Dependency cycle detected: ${(cycle || []).join(' -> ')}`);
+  }
+  return ordered;
+}
+
+/**
+ * Would adding `dependencyId` as an upstream of `nodeId` create a cycle?
+ * Used by pickers to grey out invalid choices before anything is saved
+ */
+export function wouldCreateCycle(nodes: GraphNode[], nodeId: string, dependencyId: string): boolean {
+  if (nodeId === dependencyId) return true;
+  const patched = nodes.map(node =>
+    node.id === nodeId ? { ...node, dependencies: [...node.dependencies, dependencyId] } : node
+  );
+  return findCycle(patched) !== null;
+}
+
+/**
+ * Critical path method over durations (hours) with optional deadlines
+ * Times are expressed in hours from `anchor`; a deadline tightens the latest finish of its node,
+ * so negative slack means the chain cannot finish in time
+ * @returns Per-node schedule plus the critical path (the zero/lowest-slack chain, upstream first)
+ */
+export function computeCriticalPath(
+  nodes: ScheduleNode[],
+  anchor: Date = new Date()
+): { schedule: Map<string, ScheduleResult>; criticalPath: string[]; projectFinish: number } {
+  const ordered = topologicalSort(nodes);
+  const byId = new Map(ordered.map(node => [node.id, node]));
+  const successors = new Map<string, string[]>();
+  for (const node of ordered) {
+    for (const depId of node.dependencies) {
+      if (byId.has(depId)) successors.set(depId, [...(successors.get(depId) || []), node.id]);
+    }
+  }
+
+  const earliestStart = new Map<string, number>();
+  const earliestFinish = new Map<string, number>();
+  for (const node of ordered) {
+    const start = Math.max(0, ...node.dependencies.filter(id => byId.has(id)).map(id => earliestFinish.get(id)!));
+    earliestStart.set(node.id, start);
+    earliestFinish.set(node.id, start + Math.max(0, node.durationHours));
+  }
+
+  const projectFinish = Math.max(0, ...Array.from(earliestFinish.values()));
+  const latestFinish = new Map<string, number>();
+  for (const node of [...ordered].reverse()) {
+    const next = successors.get(node.id) || [];
+    let finish = next.length > 0
+      ? Math.min(...next.map(id => latestFinish.get(id)! - Math.max(0, byId.get(id)!.durationHours)))
+      : projectFinish;
+    if (node.deadline) {
+      finish = Math.min(finish, (node.deadline.getTime() - anchor.getTime()) / 3_600_000);
+    }
+    latestFinish.set(node.id, finish);
+  }
+
+  const schedule = new Map<string, ScheduleResult>();
+  let minSlack = Infinity;
+  for (const node of ordered) {
+    const slack = latestFinish.get(node.id)! - earliestFinish.get(node.id)!;
+    minSlack = Math.min(minSlack, slack);
+    schedule.set(node.id, {
+      earliestStart: earliestStart.get(node.id)!,
+      earliestFinish: earliestFinish.get(node.id)!,
+      latestFinish: latestFinish.get(node.id)!,
+      slack,
+      critical: false,
+    });
+  }
+
+  // Walk from the lowest-slack source through lowest-slack successors
+  const criticalPath: string[] = [];
+  const isCritical = (id: string) => Math.abs(schedule.get(id)!.slack - minSlack) < 1e-6;
+  let current = ordered.find(node =>
+    isCritical(node.id) && !node.dependencies.some(depId => byId.has(depId) && isCritical(depId))
+  )?.id;
+  while (current) {
+    criticalPath.push(current);
+    schedule.get(current)!.critical = true;
+    current = (successors.get(current) || [])
+      .filter(isCritical)
+      .sort((a, b) => schedule.get(a)!.earliestStart - schedule.get(b)!.earliestStart)[0];
+  }
+
+  return { schedule, criticalPath, projectFinish };
+}
@@ -0,0 +1,43 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_TIMEZONE, formatInTimezone, isValidTimezone, resolveTimezone } from './timezone';
+
+describe('resolveTimezone', () => {
+  test('takes the first valid zone', () => {
+    assert.equal(resolveTimezone(null, 'Not/AZone', 'Europe/London', 'Asia/Tokyo'), 'Europe/London');
+  });
+
+  test('falls back to the agency default', () => {
+    assert.equal(resolveTimezone(undefined, '', 'Mars/Olympus_Mons'), DEFAULT_TIMEZONE);
+    assert.equal(isValidTimezone('Mars/Olympus_Mons'), false);
+  });
+});
+
+describe('formatInTimezone across DST transitions', () => {
+  // America/Vancouver springs forward on 2026-03-08 and falls back on 2026-11-01, both at 02:00
+  test('uses standard time before spring-forward and daylight time after', () => {
+    assert.equal(formatInTimezone('2026-03-08T09:30:00Z', 'America/Vancouver'), 'Mar 8, 2026 at 1:30 AM PST');
+    assert.equal(formatInTimezone('2026-03-08T10:30:00Z', 'America/Vancouver'), 'Mar 8, 2026 at 3:30 AM PDT');
+  });
+
+  test('shows the repeated hour once in each offset on fall-back', () => {
+    assert.equal(formatInTimezone('2026-11-01T08:30:00Z', 'America/Vancouver'), 'Nov 1, 2026 at 1:30 AM PDT');
+    assert.equal(formatInTimezone('2026-11-01T09:30:00Z', 'America/Vancouver'), 'Nov 1, 2026 at 1:30 AM PST');
+  });
+
+  test('treats local midnight as a date-only due date on both sides of a transition', () => {
+    assert.equal(formatInTimezone(new Date('2026-03-08T08:00:00Z'), 'America/Vancouver'), 'Mar 8, 2026');
+    assert.equal(formatInTimezone(new Date('2026-03-09T07:00:00Z'), 'America/Vancouver'), 'Mar 9, 2026');
+    assert.equal(formatInTimezone(new Date('2026-11-02T08:00:00Z'), 'America/Vancouver'), 'Nov 2, 2026');
+  });
+
+  test('renders the same instant in each viewer zone', () => {
+    const instant = '2026-03-29T08:30:00Z'; // London has just moved to BST, Vancouver is already on PDT
+    assert.equal(formatInTimezone(instant, 'Europe/London'), 'Mar 29, 2026 at 9:30 AM GMT+1');
+    assert.equal(formatInTimezone(instant, 'America/Vancouver'), 'Mar 29, 2026 at 1:30 AM PDT');
+  });
+
+  test('returns unparseable input unchanged', () => {
+    assert.equal(formatInTimezone('not a date', 'Europe/London'), 'not a date');
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Timezone preference helpers shared by the server and the client
+ * Users and team members store an IANA zone; anything without a valid preference
+ * falls back to the agency's home zone
+ */
+import { DateTime, IANAZone } from 'luxon';
+
+export const DEFAULT_TIMEZONE = 'America/Vancouver';
+
+export function isValidTimezone(timezone: string | null | undefined): timezone is string {
+  return !!timezone && IANAZone.isValidZone(timezone);
+}
+
+// First valid zone among the candidates (most specific first), else the agency default
+export function resolveTimezone(...candidates: (string | null | undefined)[]): string {
+  return candidates.find(isValidTimezone) || DEFAULT_TIMEZONE;
+}
+
+/**
+ * Format a UTC instant in the viewer's zone, e.g. "Aug 18, 2025 at 9:45 AM PDT"
+ * Midnight in the viewer's zone is treated as an all-day due date and shows the date only
+ */
+export function formatInTimezone(instant: Date | string, timezone?: string | null): string {
+  const utc = instant instanceof Date
+    ? DateTime.fromJSDate(instant, { zone: 'utc' })
+    : DateTime.fromISO(instant, { zone: 'utc' });
+  if (!utc.isValid) {
+    return String(instant);
+  }
+
+  const local = utc.setZone(resolveTimezone(timezone));
+  if (local.hour === 0 && local.minute === 0 && local.second === 0) {
+    return local.toFormat('LLL d, yyyy');
+  }
+  return local.toFormat("LLL d, yyyy 'at' h:mm a ZZZZ");
+}